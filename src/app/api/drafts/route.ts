@@ -260,7 +260,8 @@ export async function DELETE(req: NextRequest) {
     console.error(`[DraftAPI] Failed to cleanup remote file for ${id}`, err);
   }
 
-  const success = deleteDraft(id);
+  // keepMedia: the video belongs to another project too (e.g. a restored clip)
+  const success = deleteDraft(id, req.nextUrl.searchParams.get("keepMedia") === "true");
   
   if (!success) {
     return NextResponse.json({ error: "Draft not found" }, { status: 404 });
@@ -0,0 +1,74 @@
+/**
+ * @jest-environment node
+ */
+import { POST } from './route';
+import { NextRequest } from 'next/server';
+
+jest.mock('uuid', () => ({
+  v4: jest.fn(() => 'mock-uuid-1234'),
+}));
+
+jest.mock('@/lib/storage-config', () => ({
+  getStagingDir: jest.fn(() => '/mock/staging'),
+  isPathSafe: jest.fn((p) => !!p && p.startsWith('/mock/staging')),
+}));
+
+jest.mock('@/lib/queue-manager', () => ({
+  queueManager: { addItem: jest.fn(), isProcessing: jest.fn(), getPausedState: jest.fn(), resume: jest.fn() },
+}));
+
+jest.mock('@/lib/ffmpeg-utils', () => ({
+  ffprobe: jest.fn(),
+}));
+
+jest.mock('@/lib/global-settings-store', () => ({
+  getGlobalSettings: jest.fn(() => ({ ...jest.requireActual('@/types/subtitle').DEFAULT_GLOBAL_SETTINGS })),
+}));
+
+import { queueManager } from '@/lib/queue-manager';
+
+global.console.warn = jest.fn();
+global.console.error = jest.fn();
+
+const exportRequest = (body: object) => new NextRequest('http://localhost/api/export', {
+  method: 'POST',
+  headers: { 'Content-Type': 'application/json' },
+  body: JSON.stringify(body),
+});
+
+describe('/api/export quality check', () => {
+  const tooFast = [{ id: 'a', startTime: 0, endTime: 0.5, text: 'Far too much text for half a second' }];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('refuses to queue while QC errors remain when blocking is on', async () => {
+    const res = await POST(exportRequest({
+      videoPath: '/mock/staging/videos/a.mp4',
+      subtitles: tooFast,
+      config: { ffmpeg: {}, qc: { profile: 'netflix', blockExport: true } },
+    }));
+    const data = await res.json();
+
+    expect(res.status).toBe(422);
+    expect(data.error).toContain('2 quality check errors');
+    expect(data.qcIssues.a.map((issue: { rule: string }) => issue.rule)).toEqual(['cps', 'min_duration']);
+    expect(queueManager.addItem).not.toHaveBeenCalled();
+  });
+
+  it('checks every clip of a multi-video project', async () => {
+    const res = await POST(exportRequest({
+      project: {
+        version: 2,
+        clips: [{ id: 'c1', filePath: '/mock/staging/videos/a.mp4', subtitles: tooFast }],
+        timeline: [],
+        projectConfig: { width: 1920, height: 1080, fps: 25 },
+        subtitleConfig: { ffmpeg: {}, qc: { profile: 'relaxed', overrides: { maxCps: 10 }, blockExport: true } },
+      },
+    }));
+
+    expect(res.status).toBe(422);
+    expect(queueManager.addItem).not.toHaveBeenCalled();
+  });
+});
@@ -1,12 +1,18 @@
 import { NextRequest, NextResponse } from "next/server";
 import { queueManager } from "@/lib/queue-manager";
-import { getVideoDimensions } from "@/lib/ffmpeg-utils";
+import { ffprobe } from "@/lib/ffmpeg-utils";
+import { getProjectDuration } from "@/lib/timeline-utils";
 import { generateAss, VideoDimensions } from "@/lib/ass-utils";
-import { SubtitleLine, SubtitleConfig } from "@/types/subtitle";
+import { buildSoftSubtitleTracks } from "@/lib/soft-subtitles";
+import { getBilingualLayout } from "@/lib/bilingual-layout";
+import { SubtitleLine, SubtitleConfig, FFmpegConfig, ExportMode, MuxContainer, GlobalSettings } from "@/types/subtitle";
+import { MuxSubtitleTrack } from "@/types/queue";
 import * as fs from "fs";
 const fsPromises = fs.promises;
 import * as path from "path";
 import { getStagingDir } from "@/lib/storage-config";
+import { checkSubtitles, countQCErrors, resolveQCRules } from "@/lib/subtitle-qc";
+import { DEFAULT_FPS } from "@/types/constants";
 import { v4 as uuidv4 } from "uuid";
 
 export const runtime = 'nodejs';
@@ -23,6 +29,61 @@ interface ExportRequest {
 // Metadata store for export jobs (extends queue items with export-specific data)
 // REMOVED: exportMetadata - now using queue item metadata (SQLite)
 
+const CONTAINER_MIME_TYPES: Record<string, string> = {
+  ".mp4": "video/mp4",
+  ".mkv": "video/x-matroska",
+};
+
+function resolveExportMode(ffmpeg?: Partial<FFmpegConfig>): { exportMode: ExportMode; muxContainer: MuxContainer } {
+  return {
+    exportMode: ffmpeg?.exportMode === 'mux' ? 'mux' : 'burn',
+    muxContainer: ffmpeg?.muxContainer === 'mkv' ? 'mkv' : 'mp4',
+  };
+}
+
+/**
+ * Projects can refuse exports while QC errors remain (`config.qc.blockExport`).
+ * Shot changes aren't known here; they only produce warnings anyway.
+ */
+function getQCBlockResponse(subtitles: SubtitleLine[], config: SubtitleConfig | undefined, fps: number): NextResponse | null {
+  if (!config?.qc?.blockExport) return null;
+  const qcIssues = checkSubtitles(subtitles, resolveQCRules(config.qc), { fps });
+  const errors = countQCErrors(qcIssues);
+  if (errors === 0) return null;
+  console.warn(`[Export] Blocked by ${errors} quality check error(s)`);
+  return NextResponse.json({
+    error: `Export blocked by ${errors} quality check error${errors !== 1 ? 's' : ''}. Fix them or turn off blocking in Project Settings.`,
+    qcIssues
+  }, { status: 422 });
+}
+
+/**
+ * Write one sidecar file per subtitle language for soft-subtitle muxing
+ */
+async function writeSoftSubtitleTracks(
+  exportDir: string,
+  subtitles: SubtitleLine[],
+  config: SubtitleConfig,
+  container: MuxContainer,
+  videoDimensions: VideoDimensions | undefined,
+  settings: GlobalSettings
+): Promise<MuxSubtitleTrack[]> {
+  const files = buildSoftSubtitleTracks(subtitles, config, container, videoDimensions, settings);
+  const tracks: MuxSubtitleTrack[] = [];
+  for (const file of files) {
+    const trackPath = path.join(exportDir, file.filename);
+    await fsPromises.writeFile(trackPath, file.content);
+    tracks.push({ path: trackPath, language: file.language, title: file.title });
+  }
+  return tracks;
+}
+
+/** The stored settings: the global style layer and the bilingual layout. */
+async function loadGlobalSettings(): Promise<GlobalSettings> {
+  const { getGlobalSettings } = await import("@/lib/global-settings-store");
+  return getGlobalSettings();
+}
+
 export async function POST(req: NextRequest) {
   try {
     const body = await req.json();
@@ -31,7 +92,7 @@ export async function POST(req: NextRequest) {
     // Check for Multi-Video Project (V2)
     if (body.project && body.project.version === 2) {
        const { project, sampleDuration, filename } = body;
-       const { getFlattenedSubtitles } = await import("@/lib/timeline-utils");
+       const { flattenProjectSubtitles } = await import("@/lib/subtitle-exporters");
        
        console.log(`[Export] Processing multi-video project (v2) with ${project.clips.length} clips`);
        
@@ -54,8 +115,14 @@ export async function POST(req: NextRequest) {
            }
        }
 
-       // Generate flattened subtitles using the unified timeline model
-       const flattenedSubtitles = getFlattenedSubtitles(project.clips, project.timeline);
+       const clipSubtitles: SubtitleLine[] = project.clips.flatMap((clip: { id: string; subtitles?: SubtitleLine[] }) =>
+         (clip.subtitles || []).map(line => ({ ...line, clipId: line.clipId ?? clip.id })));
+       const qcBlock = getQCBlockResponse(clipSubtitles, project.subtitleConfig, project.projectConfig?.fps || DEFAULT_FPS);
+       if (qcBlock) return qcBlock;
+
+       // Flatten to project time (the burn runs on the concatenated video),
+       // with each clip's style config carried by its lines
+       const flattenedSubtitles = flattenProjectSubtitles(project);
        
        // Generate unique ID and determine export directory
        const jobId = uuidv4();
@@ -67,11 +134,13 @@ export async function POST(req: NextRequest) {
        await fsPromises.mkdir(exportDir, { recursive: true });
 
        const assPath = path.join(exportDir, "subtitles.ass");
+       const { exportMode, muxContainer } = resolveExportMode(project.subtitleConfig.ffmpeg);
+       const outputExt = exportMode === 'mux' ? muxContainer : 'mp4';
        const MAX_BASENAME = 100;
        const safeBaseName = (filename || 'project')
          .replace(/[^a-zA-Z0-9_\-\.]/g, '_')
          .substring(0, MAX_BASENAME);
-       const outputName = `${safeBaseName}_export_${Date.now()}.mp4`;
+       const outputName = `${safeBaseName}_export_${Date.now()}.${outputExt}`;
        const outputPath = path.join(exportDir, outputName);
        if (!path.resolve(outputPath).startsWith(path.resolve(exportDir) + path.sep)) {
          return NextResponse.json({ error: 'Invalid output path' }, { status: 400 });
@@ -83,32 +152,42 @@ export async function POST(req: NextRequest) {
            height: project.projectConfig.height
        };
 
-       // Generate ASS
-       const assContent = generateAss(flattenedSubtitles, project.subtitleConfig, videoDimensions);
-       await fsPromises.writeFile(assPath, assContent);
+       // Generate ASS for burn-in, or per-language sidecars for soft subtitles
+       const settings = await loadGlobalSettings();
+       let subtitleTracks: MuxSubtitleTrack[] | undefined;
+       if (exportMode === 'mux') {
+           subtitleTracks = await writeSoftSubtitleTracks(exportDir, flattenedSubtitles, project.subtitleConfig, muxContainer, videoDimensions, settings);
+       } else {
+           const assContent = generateAss(flattenedSubtitles, project.subtitleConfig, videoDimensions, getBilingualLayout(settings), settings);
+           await fsPromises.writeFile(assPath, assContent);
+       }
 
        // Queue Job
        const queueItem = queueManager.addItem({
           file: {
              name: `Export: ${filename || 'Multi-Video Project'}`,
              size: 0, // Unknown/Irrelevant for multi-video
-             type: "video/mp4"
+             type: CONTAINER_MIME_TYPES[`.${outputExt}`]
           },
           model: `Export: ${filename || 'Project'}`,
           metadata: {
              type: 'multi-export',
              projectState: project,
-             assPath,
+             assPath: exportMode === 'burn' ? assPath : undefined,
              outputPath,
              // Dummy videoPath for validation inside job-processor if needed
              videoPath: project.clips[0]?.filePath || '', 
              sampleDuration: sampleDuration || undefined,
-             ffmpegConfig: project.subtitleConfig.ffmpeg
+             inputDuration: getProjectDuration(project.timeline, project.timelineImages || []),
+             ffmpegConfig: project.subtitleConfig.ffmpeg,
+             exportMode,
+             muxContainer: exportMode === 'mux' ? muxContainer : undefined,
+             subtitleTracks,
           }
        });
        
-       if (!queueManager.isProcessing() && !queueManager.getPausedState()) {
-          queueManager.resume();
+       if (!queueManager.getPausedState()) {
+          queueManager.resume(); // Starts processing if an encode slot is free
        }
 
        return NextResponse.json({
@@ -132,6 +211,9 @@ export async function POST(req: NextRequest) {
         return NextResponse.json({ error: 'Unauthorized path' }, { status: 403 });
     }
 
+    const qcBlock = getQCBlockResponse(subtitles || [], config, DEFAULT_FPS);
+    if (qcBlock) return qcBlock;
+
     const resolvedPath = path.resolve(videoPath);
     try {
       await fsPromises.access(resolvedPath);
@@ -162,39 +244,55 @@ export async function POST(req: NextRequest) {
       .replace(/[^a-zA-Z0-9_\-\.]/g, '_')
       .substring(0, MAX_BASENAME);
 
-    const outputName = `${safeBaseName}_export_${Date.now()}.mp4`;
+    const { exportMode, muxContainer } = resolveExportMode(config?.ffmpeg);
+    const outputExt = exportMode === 'mux' ? muxContainer : 'mp4';
+    const outputName = `${safeBaseName}_export_${Date.now()}.${outputExt}`;
     const outputPath = path.join(exportDir, outputName);
     if (!path.resolve(outputPath).startsWith(path.resolve(exportDir) + path.sep)) {
       return NextResponse.json({ error: 'Invalid output path' }, { status: 400 });
     }
 
-    // Get video dimensions for proper ASS PlayRes scaling
+    // Get video dimensions for proper ASS PlayRes scaling, and the length for ETAs
     let videoDimensions: VideoDimensions | undefined;
+    let inputDuration: number | undefined;
     try {
-      videoDimensions = await getVideoDimensions(videoPath);
+      const { width, height, duration } = await ffprobe(videoPath);
+      videoDimensions = { width, height };
+      inputDuration = duration || undefined;
       console.log(`[Export] Video dimensions: ${videoDimensions.width}x${videoDimensions.height}`);
     } catch (e) {
       console.warn('[Export] Could not get video dimensions, using default 1920x1080:', e);
     }
 
-    // Generate ASS file with actual video dimensions
-    const assContent = generateAss(subtitles, config, videoDimensions);
-    await fsPromises.writeFile(assPath, assContent);
+    // Generate ASS file with actual video dimensions (burn-in), or one
+    // sidecar per language to embed as soft subtitle streams (mux)
+    const settings = await loadGlobalSettings();
+    let subtitleTracks: MuxSubtitleTrack[] | undefined;
+    if (exportMode === 'mux') {
+      subtitleTracks = await writeSoftSubtitleTracks(exportDir, subtitles, config, muxContainer, videoDimensions, settings);
+    } else {
+      const assContent = generateAss(subtitles, config, videoDimensions, getBilingualLayout(settings), settings);
+      await fsPromises.writeFile(assPath, assContent);
+    }
 
     // Add to queue with persistent metadata
     const queueItem = queueManager.addItem({
       file: {
         name: `Export: ${filename || path.basename(videoPath)}`,
         size: (await fsPromises.stat(videoPath)).size,
-        type: "video/mp4",
+        type: CONTAINER_MIME_TYPES[`.${outputExt}`],
       },
       model: `Export: ${filename || 'Video'}`, // Readable display name for Queue
       metadata: {
-        assPath,
+        assPath: exportMode === 'burn' ? assPath : undefined,
         outputPath,
         videoPath,
         sampleDuration: sampleDuration || undefined,
+        inputDuration,
         ffmpegConfig: config.ffmpeg,
+        exportMode,
+        muxContainer: exportMode === 'mux' ? muxContainer : undefined,
+        subtitleTracks,
       }
     });
 
@@ -202,8 +300,8 @@ export async function POST(req: NextRequest) {
     // QueueManager's addItem triggers processNext() if autoStart is on, 
     // or if the queue is already running.
     // However, to ensure it starts if this is the first item:
-    if (!queueManager.isProcessing() && !queueManager.getPausedState()) {
-      queueManager.resume(); // Starts processing
+    if (!queueManager.getPausedState()) {
+      queueManager.resume(); // Starts processing if an encode slot is free
     }
 
     return NextResponse.json({
@@ -253,7 +351,7 @@ export async function GET(req: NextRequest) {
 
   return new NextResponse(stream as unknown as ReadableStream, {
     headers: {
-      "Content-Type": "video/mp4",
+      "Content-Type": CONTAINER_MIME_TYPES[path.extname(filePath).toLowerCase()] || "video/mp4",
       "Content-Disposition": `attachment; filename="${asciiName}"; filename*=UTF-8''${encodedName}`,
       "Content-Length": stat.size.toString(),
     },
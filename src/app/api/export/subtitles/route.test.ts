@@ -0,0 +1,102 @@
+/**
+ * @jest-environment node
+ */
+import { POST } from './route';
+import { NextRequest } from 'next/server';
+import { getGlobalSettings } from '@/lib/global-settings-store';
+
+jest.mock('@/lib/global-settings-store', () => ({
+  getGlobalSettings: jest.fn(() => ({ ...jest.requireActual('@/types/subtitle').DEFAULT_GLOBAL_SETTINGS })),
+}));
+
+function makeRequest(body: unknown) {
+  return new NextRequest('http://localhost/api/export/subtitles', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+const subtitles = [
+  { id: '1', startTime: 1, endTime: 2, text: 'Hello', secondaryText: 'Hola' },
+];
+
+describe('/api/export/subtitles', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('returns a WebVTT attachment for a V1 subtitle list', async () => {
+    const res = await POST(makeRequest({ format: 'vtt', subtitles, filename: 'clip.mp4' }));
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get('Content-Type')).toBe('text/vtt; charset=utf-8');
+    expect(res.headers.get('Content-Disposition')).toBe('attachment; filename="clip.vtt"');
+    const text = await res.text();
+    expect(text).toContain('WEBVTT');
+    expect(text).toContain('Hello');
+  });
+
+  it('stacks both languages for a bilingual SRT', async () => {
+    const res = await POST(makeRequest({ format: 'srt', track: 'bilingual', subtitles }));
+    expect(res.headers.get('Content-Disposition')).toBe('attachment; filename="subtitles.bilingual.srt"');
+    expect(await res.text()).toContain('Hello\nHola');
+  });
+
+  it('follows the combined layout for a bilingual SRT', async () => {
+    (getGlobalSettings as jest.Mock).mockReturnValueOnce({
+      subtitleStyle: 'combined',
+      combinedLayout: { order: 'secondary-first', separator: 'slash', secondaryScale: 0.8 },
+    });
+    const res = await POST(makeRequest({ format: 'srt', track: 'bilingual', subtitles }));
+    expect(await res.text()).toContain('Hola / Hello');
+  });
+
+  it('resolves styles against the stored global settings', async () => {
+    const { DEFAULT_GLOBAL_SETTINGS } = jest.requireActual('@/types/subtitle');
+    (getGlobalSettings as jest.Mock).mockReturnValueOnce({
+      ...DEFAULT_GLOBAL_SETTINGS,
+      defaultPrimaryStyle: { ...DEFAULT_GLOBAL_SETTINGS.defaultPrimaryStyle, fontFamily: 'Georgia' },
+    });
+    const res = await POST(makeRequest({ format: 'ass', subtitles }));
+    expect(await res.text()).toContain('Style: Primary,Georgia,');
+  });
+
+  it('flattens a V2 project into project time', async () => {
+    const project = {
+      version: 2,
+      clips: [{ id: 'a', subtitles: [{ id: 's', startTime: 1, endTime: 2, text: 'Clip B line' }] }],
+      timeline: [{ id: 't', videoClipId: 'a', projectStartTime: 30, sourceInPoint: 0, clipDuration: 10 }],
+    };
+    const res = await POST(makeRequest({ format: 'srt', project }));
+    expect(await res.text()).toContain('00:00:31,000 --> 00:00:32,000\nClip B line');
+  });
+
+  it('exports each placement of a video with its own lines', async () => {
+    // One source placed twice, sent as one clip entry per timeline clip
+    const project = {
+      version: 2,
+      clips: [
+        { id: 't1', subtitles: [{ id: 's1', startTime: 1, endTime: 2, text: 'First pass' }] },
+        { id: 't2', subtitles: [{ id: 's2', startTime: 1, endTime: 2, text: 'Second pass' }] },
+      ],
+      timeline: [
+        { id: 't1', videoClipId: 't1', projectStartTime: 0, sourceInPoint: 0, clipDuration: 10 },
+        { id: 't2', videoClipId: 't2', projectStartTime: 10, sourceInPoint: 0, clipDuration: 10 },
+      ],
+    };
+    const text = await (await POST(makeRequest({ format: 'srt', project }))).text();
+    expect(text).toContain('00:00:01,000 --> 00:00:02,000\nFirst pass');
+    expect(text).toContain('00:00:11,000 --> 00:00:12,000\nSecond pass');
+    expect(text.match(/pass/g)).toHaveLength(2);
+  });
+
+  it('rejects unknown formats and missing subtitles', async () => {
+    expect((await POST(makeRequest({ format: 'scc', subtitles }))).status).toBe(400);
+    expect((await POST(makeRequest({ format: 'srt' }))).status).toBe(400);
+  });
+});
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { SubtitleLine, SubtitleConfig, MultiVideoProjectState, DEFAULT_CONFIG } from "@/types/subtitle";
+import {
+  SUBTITLE_EXPORTERS,
+  SubtitleExportFormat,
+  SubtitleExportTrack,
+  getExportFilename,
+  flattenProjectSubtitles,
+} from "@/lib/subtitle-exporters";
+import { validateSubtitles } from "@/lib/validation-utils";
+import { getBilingualLayout } from "@/lib/bilingual-layout";
+
+export const runtime = 'nodejs';
+
+const SubtitleLineSchema = z.object({
+  id: z.string(),
+  startTime: z.number(),
+  endTime: z.number(),
+  text: z.string(),
+  secondaryText: z.string().optional(),
+}).passthrough();
+
+const ExportSchema = z.object({
+  format: z.enum(Object.keys(SUBTITLE_EXPORTERS) as [SubtitleExportFormat, ...SubtitleExportFormat[]]),
+  track: z.enum(['primary', 'secondary', 'bilingual']).optional(),
+  filename: z.string().max(255).optional(),
+  // V1: flat subtitle list + config
+  subtitles: z.array(SubtitleLineSchema).optional(),
+  config: z.object({}).passthrough().optional(),
+  // V2: multi-video project, flattened to project time
+  project: z.object({
+    version: z.literal(2),
+    clips: z.array(z.object({ subtitles: z.array(SubtitleLineSchema) }).passthrough()),
+    timeline: z.array(z.object({}).passthrough()),
+    subtitleConfig: z.object({}).passthrough().optional(),
+  }).passthrough().optional(),
+  videoDimensions: z.object({ width: z.number().positive(), height: z.number().positive() }).optional(),
+}).refine(data => data.subtitles || data.project, { message: "Either subtitles or project is required" });
+
+/**
+ * Render subtitles to a sidecar file and return it as a download.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json();
+    const validation = ExportSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json({ error: "Invalid request data", details: validation.error.format() }, { status: 400 });
+    }
+
+    const { format, filename, videoDimensions } = validation.data;
+    const track: SubtitleExportTrack = validation.data.track ?? 'primary';
+
+    let subtitles: SubtitleLine[];
+    let config: SubtitleConfig;
+    if (validation.data.project) {
+      const project = validation.data.project as unknown as MultiVideoProjectState;
+      subtitles = flattenProjectSubtitles(project);
+      config = { ...DEFAULT_CONFIG, ...(project.subtitleConfig || {}) };
+    } else {
+      subtitles = validation.data.subtitles as SubtitleLine[];
+      config = { ...DEFAULT_CONFIG, ...((validation.data.config || {}) as Partial<SubtitleConfig>) };
+    }
+
+    try {
+      validateSubtitles(subtitles);
+    } catch (err) {
+      return NextResponse.json({ error: err instanceof Error ? err.message : "Invalid subtitles" }, { status: 400 });
+    }
+
+    const { getGlobalSettings } = await import("@/lib/global-settings-store");
+    const settings = getGlobalSettings();
+    const layout = getBilingualLayout(settings);
+
+    const exporter = SUBTITLE_EXPORTERS[format];
+    const content = exporter.generate(subtitles, config, { track, videoDimensions, layout, defaults: settings });
+    const downloadName = getExportFilename(filename || config.originalFilename, format, track);
+
+    return new NextResponse(content, {
+      status: 200,
+      headers: {
+        'Content-Type': `${exporter.mimeType}; charset=utf-8`,
+        'Content-Disposition': `attachment; filename="${downloadName}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error("Subtitle export error:", error);
+    return NextResponse.json({ error: error instanceof Error ? error.message : "Failed to export subtitles" }, { status: 500 });
+  }
+}
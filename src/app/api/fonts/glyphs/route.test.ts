@@ -0,0 +1,57 @@
+/**
+ * @jest-environment node
+ */
+import { EventEmitter } from 'events';
+import { NextRequest } from 'next/server';
+import { spawn } from 'child_process';
+import { POST } from './route';
+
+jest.mock('child_process', () => ({
+  spawn: jest.fn(),
+}));
+
+jest.mock('@/lib/storage-config', () => ({
+  getStagingDir: jest.fn(() => '/nonexistent-staging'),
+}));
+
+const fcOutput = (stdout: string) => {
+  const proc = Object.assign(new EventEmitter(), { stdout: new EventEmitter(), kill: jest.fn() });
+  setTimeout(() => {
+    proc.stdout.emit('data', Buffer.from(stdout));
+    proc.emit('close', 0);
+  }, 0);
+  return proc;
+};
+
+function makeRequest(body: unknown) {
+  return new NextRequest('http://localhost/api/fonts/glyphs', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+describe('/api/fonts/glyphs', () => {
+  beforeEach(() => {
+    (spawn as jest.Mock).mockImplementation(() => fcOutput(
+      'Noto Sans\t/fonts/NotoSans.ttf\t20-7e\nNoto Sans\t/fonts/NotoSansCJK.otf\t4f60\n'
+    ));
+  });
+
+  it('checks the family libass will be asked for', async () => {
+    const res = await POST(makeRequest({ family: 'Arial', text: 'Hi 你好' }));
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ family: 'Arial', renderedFamily: 'Noto Sans', found: true, missing: ['好'] });
+  });
+
+  it('reports families fontconfig does not know', async () => {
+    const res = await POST(makeRequest({ family: 'Brand Sans', text: 'Hi' }));
+    expect(await res.json()).toEqual({ family: 'Brand Sans', renderedFamily: 'Brand Sans', found: false, missing: [] });
+  });
+
+  it('rejects requests without a family', async () => {
+    expect((await POST(makeRequest({ family: '', text: 'Hi' }))).status).toBe(400);
+    expect((await POST(makeRequest({ text: 'Hi' }))).status).toBe(400);
+  });
+});
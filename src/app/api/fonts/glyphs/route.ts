@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { checkGlyphCoverage } from "@/lib/font-library";
+import { toAssFontFamily } from "@/lib/ass-utils";
+
+export const runtime = 'nodejs';
+
+const CoverageSchema = z.object({
+  family: z.string().min(1).max(200),
+  text: z.string().max(200000),
+});
+
+/**
+ * POST /api/fonts/glyphs - Characters of `text` the burn-in font can't draw.
+ * Checks the family libass is actually asked for, which can differ from the
+ * chosen one (see toAssFontFamily).
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const validation = CoverageSchema.safeParse(await req.json());
+    if (!validation.success) {
+      return NextResponse.json({ error: "Invalid request data", details: validation.error.format() }, { status: 400 });
+    }
+
+    const renderedFamily = toAssFontFamily(validation.data.family);
+    const coverage = await checkGlyphCoverage(renderedFamily, validation.data.text);
+    return NextResponse.json({ family: validation.data.family, renderedFamily, ...coverage });
+  } catch (error) {
+    console.error("[Fonts] Coverage error:", error);
+    return NextResponse.json({ error: "Failed to check font coverage" }, { status: 500 });
+  }
+}
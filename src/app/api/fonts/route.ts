@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import { listFontFaces, toFontInfos, saveUploadedFont, MAX_FONT_SIZE_BYTES } from "@/lib/font-library";
+
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/fonts - Families available to the burn-in (installed + uploaded)
+ * Query params:
+ *   - refresh=true: Re-list installed fonts
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const refresh = req.nextUrl.searchParams.get('refresh') === 'true';
+    const fonts = toFontInfos(await listFontFaces(refresh));
+    return NextResponse.json({ fonts });
+  } catch (error) {
+    console.error("[Fonts] List error:", error);
+    return NextResponse.json({ error: "Failed to list fonts" }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/fonts - Upload a TTF/OTF font (multipart field "font")
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const contentLength = Number(req.headers.get('content-length') || 0);
+    if (contentLength > MAX_FONT_SIZE_BYTES + 1024 * 1024) {
+      return NextResponse.json({ error: "Font too large" }, { status: 413 });
+    }
+
+    const formData = await req.formData();
+    const file = formData.get('font');
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: "No font file provided" }, { status: 400 });
+    }
+
+    let filename: string;
+    try {
+      filename = await saveUploadedFont(file.name, Buffer.from(await file.arrayBuffer()));
+    } catch (err) {
+      return NextResponse.json({ error: err instanceof Error ? err.message : "Invalid font" }, { status: 400 });
+    }
+
+    const fonts = toFontInfos(await listFontFaces());
+    return NextResponse.json({ success: true, filename, fonts });
+  } catch (error) {
+    console.error("[Fonts] Upload error:", error);
+    return NextResponse.json({ error: error instanceof Error ? error.message : "Failed to upload font" }, { status: 500 });
+  }
+}
@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+import { listStylePresets } from "@/lib/style-preset-store";
+import { toStylePresetExport, STYLE_PRESET_EXPORT_FILENAME } from "@/lib/style-presets";
+
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/presets/export - Download every preset as a JSON file that
+ * /api/presets/import reads back
+ */
+export async function GET() {
+  try {
+    const body = JSON.stringify(toStylePresetExport(listStylePresets()), null, 2);
+    return new NextResponse(body, {
+      headers: {
+        'Content-Type': 'application/json',
+        'Content-Disposition': `attachment; filename="${STYLE_PRESET_EXPORT_FILENAME}"`,
+      },
+    });
+  } catch (error) {
+    console.error("[Presets API] Export error:", error);
+    return NextResponse.json({ error: error instanceof Error ? error.message : String(error) }, { status: 500 });
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import { importStylePresets, listStylePresets } from "@/lib/style-preset-store";
+import { parseStylePresetImport } from "@/lib/style-presets";
+
+export const runtime = 'nodejs';
+
+/**
+ * POST /api/presets/import - Import presets from an export file (JSON body).
+ * Presets named like existing ones replace their styles.
+ */
+export async function POST(req: NextRequest) {
+  let data: unknown;
+  try {
+    data = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Style preset file is not valid JSON" }, { status: 400 });
+  }
+
+  try {
+    let inputs;
+    try {
+      inputs = parseStylePresetImport(data);
+    } catch (err) {
+      return NextResponse.json({ error: err instanceof Error ? err.message : "Invalid style preset file" }, { status: 400 });
+    }
+
+    const imported = importStylePresets(inputs);
+    return NextResponse.json({ imported: imported.length, presets: listStylePresets() });
+  } catch (error) {
+    console.error("[Presets API] Import error:", error);
+    return NextResponse.json({ error: error instanceof Error ? error.message : String(error) }, { status: 500 });
+  }
+}
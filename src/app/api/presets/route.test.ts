@@ -0,0 +1,96 @@
+/**
+ * @jest-environment node
+ */
+import { GET, POST, PUT, DELETE } from './route';
+import { NextRequest } from 'next/server';
+import {
+  getStylePreset,
+  isStylePresetNameTaken,
+  createStylePreset,
+  updateStylePreset,
+  deleteStylePreset,
+} from '@/lib/style-preset-store';
+
+jest.mock('@/lib/style-preset-store', () => ({
+  listStylePresets: jest.fn(() => []),
+  getStylePreset: jest.fn(() => null),
+  isStylePresetNameTaken: jest.fn(() => false),
+  createStylePreset: jest.fn((input) => ({ id: 'new', createdAt: 1, updatedAt: 1, ...input })),
+  updateStylePreset: jest.fn(() => null),
+  deleteStylePreset: jest.fn(() => false),
+}));
+
+function makeRequest(method: string, query = '', body?: unknown) {
+  return new NextRequest(`http://localhost/api/presets${query}`, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+}
+
+const preset = { id: 'p1', name: 'Brand', primary: { color: '#ff0000' }, secondary: {}, createdAt: 1, updatedAt: 2 };
+
+describe('/api/presets', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('lists presets and gets one by id', async () => {
+    expect(await (await GET(makeRequest('GET'))).json()).toEqual({ presets: [] });
+
+    (getStylePreset as jest.Mock).mockReturnValueOnce(preset);
+    expect(await (await GET(makeRequest('GET', '?id=p1'))).json()).toEqual(preset);
+    expect((await GET(makeRequest('GET', '?id=missing'))).status).toBe(404);
+  });
+
+  it('creates a validated preset', async () => {
+    const res = await POST(makeRequest('POST', '', { name: ' Brand ', primary: { color: '#ff0000', bogus: 1 } }));
+
+    expect(res.status).toBe(201);
+    expect(createStylePreset).toHaveBeenCalledWith({ name: 'Brand', primary: { color: '#ff0000' }, secondary: {} });
+  });
+
+  it('rejects invalid presets and duplicate names', async () => {
+    expect((await POST(makeRequest('POST', '', { name: '', primary: {} }))).status).toBe(400);
+    expect((await POST(makeRequest('POST', '', { name: 'X', primary: { alignment: 0 } }))).status).toBe(400);
+
+    (isStylePresetNameTaken as jest.Mock).mockReturnValueOnce(true);
+    const res = await POST(makeRequest('POST', '', { name: 'Brand' }));
+    expect(res.status).toBe(409);
+    expect(createStylePreset).not.toHaveBeenCalled();
+  });
+
+  it('rejects bodies that are not JSON', async () => {
+    const malformed = (method: string, query = '') =>
+      new NextRequest(`http://localhost/api/presets${query}`, { method, body: '{"name": ' });
+
+    expect((await POST(malformed('POST'))).status).toBe(400);
+    expect((await PUT(malformed('PUT', '?id=p1'))).status).toBe(400);
+    expect(createStylePreset).not.toHaveBeenCalled();
+    expect(updateStylePreset).not.toHaveBeenCalled();
+  });
+
+  it('updates only the fields that are sent', async () => {
+    (updateStylePreset as jest.Mock).mockReturnValueOnce({ ...preset, name: 'Renamed' });
+
+    const res = await PUT(makeRequest('PUT', '?id=p1', { name: 'Renamed' }));
+    expect(res.status).toBe(200);
+    expect(updateStylePreset).toHaveBeenCalledWith('p1', { name: 'Renamed' });
+    expect(isStylePresetNameTaken).toHaveBeenCalledWith('Renamed', 'p1');
+
+    expect((await PUT(makeRequest('PUT', '', { name: 'X' }))).status).toBe(400);
+    expect((await PUT(makeRequest('PUT', '?id=missing', { name: 'X' }))).status).toBe(404);
+  });
+
+  it('deletes by id', async () => {
+    (deleteStylePreset as jest.Mock).mockReturnValueOnce(true);
+    expect(await (await DELETE(makeRequest('DELETE', '?id=p1'))).json()).toEqual({ success: true });
+    expect((await DELETE(makeRequest('DELETE', '?id=p1'))).status).toBe(404);
+    expect((await DELETE(makeRequest('DELETE'))).status).toBe(400);
+  });
+});
@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  listStylePresets,
+  getStylePreset,
+  isStylePresetNameTaken,
+  createStylePreset,
+  updateStylePreset,
+  deleteStylePreset,
+} from "@/lib/style-preset-store";
+import { StylePresetInputSchema, StylePresetUpdateSchema } from "@/lib/style-presets";
+
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/presets - List all style presets or get a single preset by ID
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const id = req.nextUrl.searchParams.get("id");
+    if (id) {
+      const preset = getStylePreset(id);
+      return preset
+        ? NextResponse.json(preset)
+        : NextResponse.json({ error: "Preset not found" }, { status: 404 });
+    }
+    return NextResponse.json({ presets: listStylePresets() });
+  } catch (error) {
+    console.error("[Presets API] GET error:", error);
+    return NextResponse.json({ error: error instanceof Error ? error.message : String(error) }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/presets - Create a preset ({ name, primary, secondary })
+ */
+export async function POST(req: NextRequest) {
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Request body is not valid JSON" }, { status: 400 });
+  }
+
+  try {
+    const validation = StylePresetInputSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json({ error: "Invalid preset", details: validation.error.format() }, { status: 400 });
+    }
+
+    const input = validation.data;
+    if (isStylePresetNameTaken(input.name)) {
+      return NextResponse.json({ error: `A preset named "${input.name}" already exists` }, { status: 409 });
+    }
+
+    return NextResponse.json(createStylePreset(input), { status: 201 });
+  } catch (error) {
+    console.error("[Presets API] POST error:", error);
+    return NextResponse.json({ error: error instanceof Error ? error.message : String(error) }, { status: 500 });
+  }
+}
+
+/**
+ * PUT /api/presets?id=... - Rename and/or restyle a preset
+ */
+export async function PUT(req: NextRequest) {
+  try {
+    const id = req.nextUrl.searchParams.get("id");
+    if (!id) {
+      return NextResponse.json({ error: "Preset ID is required" }, { status: 400 });
+    }
+
+    let body: unknown;
+    try {
+      body = await req.json();
+    } catch {
+      return NextResponse.json({ error: "Request body is not valid JSON" }, { status: 400 });
+    }
+
+    const validation = StylePresetUpdateSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json({ error: "Invalid preset", details: validation.error.format() }, { status: 400 });
+    }
+
+    const updates = validation.data;
+    if (updates.name && isStylePresetNameTaken(updates.name, id)) {
+      return NextResponse.json({ error: `A preset named "${updates.name}" already exists` }, { status: 409 });
+    }
+
+    const preset = updateStylePreset(id, updates);
+    return preset
+      ? NextResponse.json(preset)
+      : NextResponse.json({ error: "Preset not found" }, { status: 404 });
+  } catch (error) {
+    console.error("[Presets API] PUT error:", error);
+    return NextResponse.json({ error: error instanceof Error ? error.message : String(error) }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/presets?id=... - Delete a preset
+ */
+export async function DELETE(req: NextRequest) {
+  try {
+    const id = req.nextUrl.searchParams.get("id");
+    if (!id) {
+      return NextResponse.json({ error: "Preset ID is required" }, { status: 400 });
+    }
+
+    return deleteStylePreset(id)
+      ? NextResponse.json({ success: true })
+      : NextResponse.json({ error: "Preset not found" }, { status: 404 });
+  } catch (error) {
+    console.error("[Presets API] DELETE error:", error);
+    return NextResponse.json({ error: error instanceof Error ? error.message : String(error) }, { status: 500 });
+  }
+}
@@ -30,12 +30,13 @@ jest.mock('@/lib/storage-config', () => ({
 
 jest.mock('@/lib/global-settings-store', () => ({
   getGlobalSettings: jest.fn(() => ({
-    aiFallbackChain: ['gemini'],
+    aiFallbackChain: [{ id: 'g', provider: 'gemini', modelName: 'gemini-2.5-flash', enabled: true }],
   })),
 }));
 
 jest.mock('@/lib/ai-provider', () => ({
   processWithFallback: jest.fn(),
+  chainUsesGemini: jest.requireActual('@/lib/ai-provider').chainUsesGemini,
 }));
 
 jest.mock('@/lib/auth', () => ({
@@ -44,11 +45,18 @@ jest.mock('@/lib/auth', () => ({
 
 jest.mock('@/lib/gemini', () => ({
   uploadToGemini: jest.fn(),
+  deleteFileFromGemini: jest.fn(),
 }));
 
 jest.mock('@/lib/ffmpeg-utils', () => ({
   extractAudio: jest.fn(),
   getAudioCodec: jest.fn(),
+  ffprobe: jest.fn(() => Promise.resolve({ duration: 60 })),
+}));
+
+jest.mock('@/lib/chunked-transcription', () => ({
+  transcribeInChunks: jest.fn(),
+  getChunkingDuration: jest.requireActual('@/lib/chunked-transcription').getChunkingDuration,
 }));
 
 // Mock Busboy (we won't use it in these tests, but it's initialized)
@@ -155,6 +163,68 @@ describe('/api/process (JSON modes)', () => {
         expect(data.geminiFileUri).toBe('gs://new/upload.mp4');
     });
 
+    it('should skip the Gemini upload for offline fallback chains', async () => {
+        const { getGlobalSettings } = jest.requireMock('@/lib/global-settings-store');
+        getGlobalSettings.mockReturnValueOnce({
+            aiFallbackChain: [{ id: 'w', provider: 'local', modelName: 'whisper-large-v3', endpoint: 'http://whisper:8080/v1', enabled: true }],
+        });
+        (fs.existsSync as jest.Mock).mockReturnValue(true);
+        (fs.statSync as jest.Mock).mockReturnValue({ size: 200 * 1024 * 1024 });
+        mockProcess.mockResolvedValue({ subtitles: [], detectedLanguage: 'en' });
+
+        const req = new NextRequest('http://localhost/api/process', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ mode: 'reprocess', filePath: '/mock/staging/file.mp4', language: 'English' }),
+        });
+
+        const res = await POST(req);
+
+        expect(res.status).toBe(200);
+        expect(mockUpload).not.toHaveBeenCalled();
+        expect(mockProcess).toHaveBeenCalledWith(
+            'generate',
+            expect.objectContaining({ filePath: '/mock/staging/file.mp4' }),
+            expect.anything()
+        );
+    });
+
+    it('should transcribe long local files in chunks', async () => {
+        const { ffprobe } = jest.requireMock('@/lib/ffmpeg-utils');
+        const { transcribeInChunks } = jest.requireMock('@/lib/chunked-transcription');
+        (fs.existsSync as jest.Mock).mockReturnValue(true);
+        (fs.statSync as jest.Mock).mockReturnValue({ size: 100 * 1024 * 1024 });
+        ffprobe.mockResolvedValueOnce({ duration: 3 * 3600 });
+        transcribeInChunks.mockResolvedValue({
+            subtitles: [{ id: 'a', startTime: 3661.5, endTime: 3663, text: 'Late line' }],
+            detectedLanguage: 'English'
+        });
+
+        const req = new NextRequest('http://localhost/api/process', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+                mode: 'reprocess',
+                filePath: '/mock/staging/long.mp4',
+                language: 'English'
+            }),
+        });
+
+        const res = await POST(req);
+        const data = await res.json();
+
+        expect(res.status).toBe(200);
+        expect(mockUpload).not.toHaveBeenCalled();
+        expect(transcribeInChunks).toHaveBeenCalledWith(
+            '/mock/staging/long.mp4',
+            expect.anything(),
+            expect.anything(),
+            expect.objectContaining({ duration: 3 * 3600, workDir: '/mock/staging/temp' })
+        );
+        expect(data.subtitles).toEqual([{ startTime: '01:01:01,500', endTime: '01:01:03,000', text: 'Late line' }]);
+        expect(data.detectedLanguage).toBe('English');
+    });
+
     it('should block unsafe filePath even with sampleDuration', async () => {
       (isPathSafe as jest.Mock).mockReturnValue(false);
 
@@ -213,6 +283,118 @@ describe('/api/process (JSON modes)', () => {
        );
        expect(data.subtitles[0].secondaryText).toBe('translated');
     });
+
+    it('should forward the project glossary', async () => {
+       mockProcess.mockResolvedValue({ subtitles: [] });
+       const glossary = [{ term: 'SubtitleGem', doNotTranslate: true }];
+
+       const req = new NextRequest('http://localhost/api/process', {
+         method: 'POST',
+         headers: { 'Content-Type': 'application/json' },
+         body: JSON.stringify({
+           mode: 'translate',
+           subtitles: [{id: '1', text: 'test', startTime: 0, endTime: 10}],
+           secondaryLanguage: 'Spanish',
+           glossary
+         }),
+       });
+
+       const res = await POST(req);
+
+       expect(res.status).toBe(200);
+       expect(mockProcess).toHaveBeenCalledWith(
+           'translate',
+           expect.objectContaining({ glossary }),
+           expect.anything()
+       );
+    });
+
+    it('should reject oversized glossary terms', async () => {
+       const req = new NextRequest('http://localhost/api/process', {
+         method: 'POST',
+         headers: { 'Content-Type': 'application/json' },
+         body: JSON.stringify({
+           mode: 'translate',
+           subtitles: [],
+           secondaryLanguage: 'Spanish',
+           glossary: [{ term: 'x'.repeat(500) }]
+         }),
+       });
+
+       const res = await POST(req);
+       expect(res.status).toBe(400);
+    });
   });
-});
 
+  describe('Align Mode', () => {
+    const alignRequest = (body: object) => new NextRequest('http://localhost/api/process', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ mode: 'align', filePath: '/mock/staging/file.mp4', ...body }),
+    });
+
+    beforeEach(() => {
+      // Undo the blanket rejection from the reprocess tests
+      (isPathSafe as jest.Mock).mockImplementation((p: string) => p.startsWith('/mock/staging'));
+      (fs.existsSync as jest.Mock).mockReturnValue(true);
+      (fs.statSync as jest.Mock).mockReturnValue({ size: 10 * 1024 * 1024 });
+      (fs.readFileSync as jest.Mock).mockReturnValue(Buffer.from('media'));
+    });
+
+    it('should require a transcript and a safe path', async () => {
+      expect((await POST(alignRequest({}))).status).toBe(400);
+      expect((await POST(alignRequest({ text: '  \n' }))).status).toBe(400);
+      expect((await POST(alignRequest({ text: 'Hi', filePath: '/etc/passwd' }))).status).toBe(403);
+      expect(mockProcess).not.toHaveBeenCalled();
+    });
+
+    it('should align pasted text inline', async () => {
+      mockProcess.mockResolvedValue({
+        subtitles: [
+          { id: '1', startTime: 1, endTime: 2, text: 'Hello there.' },
+          { id: '2', startTime: 2.5, endTime: 4, text: 'General Kenobi!' },
+        ],
+        alignmentStatus: { '1': 'aligned', '2': 'interpolated' },
+      });
+
+      const res = await POST(alignRequest({ text: 'Hello there.\n\nGeneral Kenobi!', clipId: 'c1' }));
+      const data = await res.json();
+
+      expect(res.status).toBe(200);
+      expect(mockProcess).toHaveBeenCalledWith(
+        'align',
+        expect.objectContaining({
+          isInline: true,
+          transcript: [{ id: '1', text: 'Hello there.' }, { id: '2', text: 'General Kenobi!' }],
+        }),
+        expect.anything()
+      );
+      expect(data.alignmentStatus['2']).toBe('interpolated');
+      expect(data.clipId).toBe('c1');
+    });
+
+    it('should reject results whose text drifted', async () => {
+      mockProcess.mockResolvedValue({
+        subtitles: [{ id: 'a', startTime: 1, endTime: 2, text: 'Hello, there' }],
+      });
+
+      const res = await POST(alignRequest({ subtitles: [{ id: 'a', startTime: 0, endTime: 1, text: 'Hello there' }] }));
+
+      expect(res.status).toBe(502);
+      expect((await res.json()).details).toEqual(['Line a: text was altered']);
+    });
+
+    it('should upload large media to Gemini and delete it afterwards', async () => {
+      const { deleteFileFromGemini } = jest.requireMock('@/lib/gemini');
+      (fs.statSync as jest.Mock).mockReturnValue({ size: 200 * 1024 * 1024 });
+      mockUpload.mockResolvedValue({ uri: 'gs://align/file.mp4', name: 'files/align' });
+      mockProcess.mockRejectedValue(new Error('boom'));
+
+      const res = await POST(alignRequest({ text: 'Hello' }));
+
+      expect(res.status).toBe(500);
+      expect(mockProcess).toHaveBeenCalledWith('align', expect.objectContaining({ fileUri: 'gs://align/file.mp4' }), expect.anything());
+      expect(deleteFileFromGemini).toHaveBeenCalledWith('files/align');
+    });
+  });
+});
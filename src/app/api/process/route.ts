@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
-import { uploadToGemini } from "@/lib/gemini";
+import { uploadToGemini, deleteFileFromGemini } from "@/lib/gemini";
 import { extractAudio, getAudioCodec, createSampleClip } from "@/lib/ffmpeg-utils"; // Added createSampleClip
 import fs from "fs";
 import path from "path";
@@ -10,7 +10,16 @@ import busboy from "busboy";
 import { Readable } from "stream";
 import { secureDelete } from "@/lib/security";
 import { validateAuth } from "@/lib/auth";
-import { SubtitleLine } from "@/types/subtitle";
+import { SubtitleLine, RawSubtitleItem, GlossaryEntry, DEFAULT_CONFIG } from "@/types/subtitle";
+import { QueueItem } from "@/types/queue";
+import { MAX_GLOSSARY_ENTRIES, MAX_GLOSSARY_TERM_LENGTH, MAX_GLOSSARY_NOTES_LENGTH } from "@/lib/glossary";
+import { parseSubtitleFile } from "@/lib/subtitle-parsers";
+import { getGenerationSegmentation } from "@/lib/subtitle-segmentation";
+import { formatTimestamp } from "@/lib/time-utils";
+import { validateSubtitles } from "@/lib/validation-utils";
+import { transcribeInChunks, getChunkingDuration } from "@/lib/chunked-transcription";
+import { chainUsesGemini } from "@/lib/ai-provider";
+import { splitTranscript, diffTranscript, AlignmentUnit } from "@/lib/transcript-alignment";
 // fluent-ffmpeg removed - using native child_process in ffmpeg-utils
 
 export const runtime = 'nodejs';
@@ -19,6 +28,27 @@ export const maxDuration = 300; // 5 minutes
 // Next.js config for this specific route
 export const dynamic = 'force-dynamic';
 
+// Imported subtitle files are buffered in memory, so keep them small
+const MAX_SUBTITLE_FILE_BYTES = 10 * 1024 * 1024;
+// Pasted transcripts for align mode
+const MAX_TRANSCRIPT_LENGTH = 500_000;
+
+function getMediaMimeType(filePath: string): string {
+  const ext = path.extname(filePath).toLowerCase();
+  if (ext === '.m4a') return "audio/mp4";
+  if (['.mp3', '.wav', '.flac', '.ogg'].includes(ext)) return "audio/" + ext.replace('.', '');
+  return "video/mp4";
+}
+
+function toRawSubtitleItem(line: SubtitleLine): RawSubtitleItem {
+  return {
+    startTime: formatTimestamp(line.startTime),
+    endTime: formatTimestamp(line.endTime),
+    text: line.text,
+    ...(line.secondaryText && { secondaryText: line.secondaryText }),
+    ...(line.styleOverrides && { styleOverrides: line.styleOverrides }),
+  };
+}
 
 const ALLOWED_LANGUAGES = [
   "Simplified Chinese", 
@@ -48,6 +78,13 @@ export async function POST(req: NextRequest) {
     try {
       const body = await req.json();
       
+      const GlossarySchema = z.array(z.object({
+        term: z.string().max(MAX_GLOSSARY_TERM_LENGTH),
+        translation: z.string().max(MAX_GLOSSARY_TERM_LENGTH).optional(),
+        doNotTranslate: z.boolean().optional(),
+        notes: z.string().max(MAX_GLOSSARY_NOTES_LENGTH).optional(),
+      })).max(MAX_GLOSSARY_ENTRIES);
+
       const ReprocessSchema = z.object({
         mode: z.literal('reprocess'),
         fileUri: z.string().optional(),
@@ -58,6 +95,7 @@ export async function POST(req: NextRequest) {
         clipId: z.string().optional(),
         sampleDuration: z.number().optional(),
         promptHints: z.string().optional().refine(val => !val || val.length <= 1000, { message: "Prompt hints cannot exceed 1000 characters" }),
+        glossary: GlossarySchema.optional(),
       }).refine(data => data.fileUri || data.filePath, { message: "Either fileUri or filePath is required" });
 
       const SubtitleLineSchema = z.object({
@@ -75,9 +113,20 @@ export async function POST(req: NextRequest) {
         secondaryLanguage: z.string(),
         model: z.string().optional(),
         clipId: z.string().optional(),
+        glossary: GlossarySchema.optional(),
       });
 
-      const Schema = z.discriminatedUnion('mode', [ReprocessSchema, TranslateSchema]);
+      // Either a pasted transcript or the current lines; only timings come back
+      const AlignSchema = z.object({
+        mode: z.literal('align'),
+        filePath: z.string(),
+        text: z.string().max(MAX_TRANSCRIPT_LENGTH).optional(),
+        subtitles: z.array(SubtitleLineSchema).max(5000).optional(),
+        model: z.string().optional(),
+        clipId: z.string().optional(),
+      }).refine(data => data.text !== undefined || data.subtitles !== undefined, { message: "Either text or subtitles is required" });
+
+      const Schema = z.discriminatedUnion('mode', [ReprocessSchema, TranslateSchema, AlignSchema]);
       
       const validation = Schema.safeParse(body);
       
@@ -85,17 +134,19 @@ export async function POST(req: NextRequest) {
          return NextResponse.json({ error: "Invalid request data", details: validation.error.format() }, { status: 400 });
       }
 
-      const { mode, fileUri, filePath, language, secondaryLanguage, subtitles, clipId, sampleDuration, promptHints } = validation.data as {
-        mode: 'reprocess' | 'translate';
+      const { mode, fileUri, filePath, language, secondaryLanguage, subtitles, text, clipId, sampleDuration, promptHints, glossary } = validation.data as {
+        mode: 'reprocess' | 'translate' | 'align';
         fileUri?: string;
         filePath?: string;
         language?: string;
         secondaryLanguage?: string;
         subtitles?: SubtitleLine[];
+        text?: string;
         model?: string;
         clipId?: string;
         sampleDuration?: number;
         promptHints?: string;
+        glossary?: GlossaryEntry[];
       };
 
       if (mode === 'reprocess') {
@@ -108,6 +159,7 @@ export async function POST(req: NextRequest) {
          const { processWithFallback } = await import("@/lib/ai-provider");
          const { uploadToGemini } = await import("@/lib/gemini");
          const settings = getGlobalSettings();
+         const segmentation = getGenerationSegmentation(settings);
          const config = getStorageConfig();
 
          // Security check: strict path validation for local files
@@ -145,6 +197,31 @@ export async function POST(req: NextRequest) {
              let processPath = filePath;
              let useInlineData = false;
              const INLINE_SIZE_LIMIT_MB = 95;
+
+             // Long recordings drift and truncate in a single request
+             const chunkDuration = sampleDuration ? 0 : await getChunkingDuration(filePath);
+             if (chunkDuration > 0) {
+                 const tempDir = path.join(config.stagingDir, 'temp');
+                 if (!fs.existsSync(tempDir)) fs.mkdirSync(tempDir, { recursive: true });
+
+                 const result = await transcribeInChunks(
+                   filePath,
+                   {
+                       secondaryLanguage: secondaryLanguage === "None" ? undefined : secondaryLanguage,
+                       promptHints,
+                       glossary,
+                       segmentation
+                   },
+                   settings.aiFallbackChain,
+                   { duration: chunkDuration, workDir: tempDir }
+                 );
+                 return NextResponse.json({
+                     subtitles: result.subtitles.map(toRawSubtitleItem),
+                     detectedLanguage: result.detectedLanguage,
+                     provenance: result.provenance,
+                     clipId
+                 });
+             }
              
              if (fileSizeInMB > 400 && !sampleDuration) {
                  console.log("File > 400MB, extracting audio for reprocess...");
@@ -201,10 +278,13 @@ export async function POST(req: NextRequest) {
                     'generate',
                     { 
                         base64Data, 
+                        filePath: processPath,
                         mimeType: targetMime, 
                         secondaryLanguage: secondaryLanguage === "None" ? undefined : secondaryLanguage,
                         isInline: true,
-                        promptHints
+                        promptHints,
+                        glossary,
+                        segmentation
                     },
                     settings.aiFallbackChain
                   );
@@ -218,6 +298,26 @@ export async function POST(req: NextRequest) {
                  // Upload to Gemini
                  // NOTE: We only upload here if NOT doing sampleDuration. 
                  // If doing usage sampleDuration, we handle it below.
+                 if (!sampleDuration && !chainUsesGemini(settings.aiFallbackChain)) {
+                    const result = await processWithFallback(
+                      'generate',
+                      {
+                          filePath: processPath,
+                          mimeType: targetMime,
+                          secondaryLanguage: secondaryLanguage === "None" ? undefined : secondaryLanguage,
+                          promptHints,
+                          glossary,
+                          segmentation
+                      },
+                      settings.aiFallbackChain
+                    );
+
+                    if (processPath !== filePath && fs.existsSync(processPath)) {
+                        fs.unlinkSync(processPath); // cleanup extracted audio
+                    }
+
+                    return NextResponse.json({ ...result, clipId });
+                 }
                  if (!sampleDuration) {
                     console.log(`Uploading local file to Gemini...`);
                     newGeminiFile = await uploadToGemini(processPath, targetMime);
@@ -267,7 +367,9 @@ export async function POST(req: NextRequest) {
                fileUri: processUri, 
                mimeType: targetMime, 
                secondaryLanguage: secondaryLanguage === "None" ? undefined : secondaryLanguage,
-               promptHints: promptHints
+               promptHints: promptHints,
+               glossary,
+               segmentation
            },
            settings.aiFallbackChain
          );
@@ -295,11 +397,70 @@ export async function POST(req: NextRequest) {
          console.log(`Retranslating to: ${secondaryLanguage} using fallback chain`);
          const result = await processWithFallback(
            'translate',
-           { subtitles, targetLanguage: secondaryLanguage },
+           { subtitles, targetLanguage: secondaryLanguage, glossary },
            settings.aiFallbackChain
          );
          
-         return NextResponse.json({ subtitles: result.subtitles, clipId });
+         return NextResponse.json({
+             subtitles: result.subtitles,
+             provenance: result.provenance,
+             translationStatus: result.translationStatus,
+             clipId
+         });
+      } else if (mode === 'align') {
+         if (!isPathSafe(filePath!)) {
+             console.warn(`[Process] Blocked unauthorized path access: ${filePath}`);
+             return NextResponse.json({ error: 'Unauthorized path' }, { status: 403 });
+         }
+         const resolvedPath = path.resolve(filePath!);
+         if (!fs.existsSync(resolvedPath)) {
+             return NextResponse.json({ error: "Local file not found" }, { status: 404 });
+         }
+
+         const transcript: AlignmentUnit[] = subtitles
+             ? subtitles.map(line => ({ id: line.id, text: line.text }))
+             : splitTranscript(text || '');
+         if (transcript.length === 0) {
+             return NextResponse.json({ error: "Transcript is empty" }, { status: 400 });
+         }
+
+         const { getGlobalSettings } = await import("@/lib/global-settings-store");
+         const { processWithFallback } = await import("@/lib/ai-provider");
+         const settings = getGlobalSettings();
+         const mimeType = getMediaMimeType(resolvedPath);
+         const fileSizeInMB = fs.statSync(resolvedPath).size / (1024 * 1024);
+         const INLINE_SIZE_LIMIT_MB = 95;
+
+         let uploadedFile: Awaited<ReturnType<typeof uploadToGemini>> | null = null;
+         try {
+             const media = fileSizeInMB < INLINE_SIZE_LIMIT_MB
+                 ? { isInline: true, base64Data: fs.readFileSync(resolvedPath).toString('base64') }
+                 : chainUsesGemini(settings.aiFallbackChain)
+                     ? { fileUri: (uploadedFile = await uploadToGemini(resolvedPath, mimeType)).uri }
+                     : {};
+
+             console.log(`Aligning ${transcript.length} lines to ${resolvedPath}`);
+             const result = await processWithFallback(
+               'align',
+               { ...media, filePath: resolvedPath, mimeType, transcript },
+               settings.aiFallbackChain
+             );
+
+             // Never hand back a transcript whose wording drifted
+             const problems = diffTranscript(transcript, result.subtitles);
+             if (problems.length > 0) {
+                 console.error("[Process] Alignment changed the transcript:", problems);
+                 return NextResponse.json({ error: "Alignment changed the transcript text", details: problems }, { status: 502 });
+             }
+
+             return NextResponse.json({
+                 subtitles: result.subtitles,
+                 alignmentStatus: result.alignmentStatus,
+                 clipId
+             });
+         } finally {
+             if (uploadedFile?.name) await deleteFileFromGemini(uploadedFile.name);
+         }
       }
       
       return NextResponse.json({ error: "Invalid mode" }, { status: 400 });
@@ -330,6 +491,11 @@ export async function POST(req: NextRequest) {
     let secondaryLanguage = "Simplified Chinese";
     let modelName = "gemini-2.5-flash";
     let originalFilename = "";
+    let skipDraft = false; // Multi-video uploads save their own project draft
+    // Optional pre-existing subtitle file; when present the AI pass is skipped
+    let subtitleFilename = "";
+    const subtitleChunks: Buffer[] = [];
+    let subtitleTooLarge = false;
 
     // Resolve the per-file size limit up front so we can abort mid-stream
     // rather than writing the entire (potentially huge) upload to disk first.
@@ -342,6 +508,8 @@ export async function POST(req: NextRequest) {
     // We need to wait for BOTH busboy to finish parsing AND the file write stream to finish writing.
     const fileWritePromise = new Promise<void>((resolve, reject) => {
        const bb = busboy({ headers: { "content-type": contentType } });
+       let writeFinished = false;
+       let parseFinished = false;
 
        bb.on("file", (name, file, info) => {
         if (name === "video") {
@@ -376,7 +544,19 @@ export async function POST(req: NextRequest) {
           });
           writeStream.on("finish", () => {
              console.log("Write stream finished.");
-             resolve();
+             writeFinished = true;
+             if (parseFinished) resolve();
+          });
+        } else if (name === "subtitles") {
+          subtitleFilename = info.filename;
+          let bytesRead = 0;
+          file.on("data", (chunk: Buffer) => {
+            bytesRead += chunk.length;
+            if (bytesRead > MAX_SUBTITLE_FILE_BYTES) {
+              subtitleTooLarge = true;
+            } else {
+              subtitleChunks.push(chunk);
+            }
           });
         } else {
           file.resume();
@@ -386,11 +566,18 @@ export async function POST(req: NextRequest) {
       bb.on("field", (name, val) => {
         if (name === "secondaryLanguage") secondaryLanguage = val;
         if (name === "model") modelName = val;
+        if (name === "skipDraft") skipDraft = val === "true";
       });
       
       // If busboy finishes but we never got a file, we might hang if we rely only on writeStream.finish
       // ensuring we handle errors properly.
       bb.on("error", reject);
+      // Other parts (e.g. an imported subtitle file) may follow the video, so
+      // only resolve once busboy has consumed the whole body
+      bb.on("close", () => {
+        parseFinished = true;
+        if (writeFinished || !videoPath) resolve();
+      });
       
       // @ts-expect-error req.body Web ReadableStream is compatible with Readable.fromWeb at runtime
       const nodeStream = Readable.fromWeb(req.body);
@@ -429,162 +616,134 @@ export async function POST(req: NextRequest) {
         }
     }
 
+    let importedSubtitles: SubtitleLine[] | null = null;
+    if (subtitleFilename) {
+      try {
+        if (subtitleTooLarge) {
+          throw new Error(`exceeds ${MAX_SUBTITLE_FILE_BYTES / (1024 * 1024)} MB`);
+        }
+        importedSubtitles = parseSubtitleFile(Buffer.concat(subtitleChunks).toString("utf8"), subtitleFilename);
+        validateSubtitles(importedSubtitles);
+      } catch (err) {
+        secureDelete(videoPath).catch(e => console.error("Cleanup error", e));
+        const message = err instanceof Error ? err.message : String(err);
+        return NextResponse.json({ error: `Invalid subtitle file: ${message}` }, { status: 400 });
+      }
+    }
+
     const stats = fs.statSync(videoPath);
     const fileSizeInMB = stats.size / (1024 * 1024);
     console.log(`File uploaded: ${videoPath}, Size: ${fileSizeInMB.toFixed(2)}MB`);
     // Note: the per-file size limit is enforced mid-stream above; no post-write check needed.
-    const stagingDir = tempDir;
-    const INLINE_SIZE_LIMIT_MB = 95; // New limit: 100MB base64, use 95MB raw for safety margin
+
+    // Imported tracks need no AI pass. Otherwise the transcription is a queue
+    // job that writes into a placeholder draft, so closing the tab or a server
+    // restart (QueueManager crash recovery) doesn't lose it; this response
+    // only follows the job's progress.
+    const name = originalFilename || path.basename(videoPath);
+    let job: QueueItem | null = null;
+    let draftId: string | undefined;
+    if (!importedSubtitles) {
+      if (!skipDraft) {
+        const { saveDraftV1 } = await import("@/lib/draft-store");
+        draftId = saveDraftV1({
+          name,
+          videoPath,
+          subtitles: [],
+          config: { ...DEFAULT_CONFIG, originalFilename: originalFilename || null },
+        }).id;
+      }
+      const { queueManager } = await import("@/lib/queue-manager");
+      await queueManager.initialize();
+      job = queueManager.addItem({
+        // No file.path: removing the job must not delete the project's media
+        file: { name, size: stats.size, type: mimeType },
+        model: modelName,
+        secondaryLanguage: secondaryLanguage || "None",
+        metadata: { type: "transcribe", videoPath, draftId },
+      });
+      if (!queueManager.getPausedState()) {
+        queueManager.resume(); // Starts processing if an AI slot is free
+      }
+    }
+
+    // Closing the connection stops following the job; the job keeps running
+    const abortController = new AbortController();
+    const { signal } = abortController;
+    req.signal?.addEventListener("abort", () => abortController.abort(), { once: true });
 
     // Use streaming response for progress feedback
     const stream = new ReadableStream({
       async start(controller) {
-        let processPath = videoPath;
-        let useInlineData = false;
         const encoder = new TextEncoder();
+        const send = (message: object) => {
+          if (signal.aborted) return; // Stream is already closed
+          controller.enqueue(encoder.encode(JSON.stringify(message) + "\n"));
+        };
         const sendProgress = (stage: string, percent?: number) => {
-          controller.enqueue(encoder.encode(JSON.stringify({ type: "progress", stage, percent }) + "\n"));
+          send({ type: "progress", stage, percent });
+        };
+        const close = () => {
+          try { controller.close(); } catch { /* Already cancelled by the client */ }
         };
 
         try {
-          if (fileSizeInMB > 400) {
-            sendProgress("extracting_audio", 0);
-            try {
-              const codec = await getAudioCodec(videoPath);
-              console.log(`Detected audio codec: ${codec}`);
-
-              let ext = "m4a";
-              let newMime = "audio/mp4";
-
-              switch (codec) {
-                case "aac": ext = "m4a"; newMime = "audio/mp4"; break;
-                case "mp3": ext = "mp3"; newMime = "audio/mpeg"; break;
-                case "opus": ext = "ogg"; newMime = "audio/ogg"; break;
-                case "vorbis": ext = "ogg"; newMime = "audio/ogg"; break;
-                case "flac": ext = "flac"; newMime = "audio/flac"; break;
-                default: ext = "m4a"; newMime = "audio/mp4";
+          if (!job) {
+            // Vendor-supplied track: no audio extraction or AI pass needed
+            sendProgress("importing_subtitles");
+            send({
+              type: "complete",
+              data: {
+                subtitles: (importedSubtitles ?? []).map(toRawSubtitleItem),
+                videoPath,
+                detectedLanguage: null,
+                fileSize: stats.size,
+                originalFilename,
               }
-
-              const audioPath = path.join(stagingDir, `${path.basename(videoPath, path.extname(videoPath))}_audio.${ext}`);
-              
-              await extractAudio(videoPath, audioPath, (p) => sendProgress("extracting_audio", Math.round(p)));
-              console.log('Audio extraction complete');
-              
-              processPath = audioPath;
-              mimeType = newMime;
-              
-              const audioStats = fs.statSync(audioPath);
-              const audioSizeInMB = audioStats.size / (1024 * 1024);
-              useInlineData = audioSizeInMB < INLINE_SIZE_LIMIT_MB;
-              
-              console.log(`Extracted audio: ${audioSizeInMB.toFixed(2)} MB`);
-            } catch (audioErr) {
-              console.error('Audio extraction failed, using original file:', audioErr);
-            }
-          } else {
-            useInlineData = fileSizeInMB < INLINE_SIZE_LIMIT_MB;
+            });
+            close();
+            return;
           }
 
-          // Generate subtitles
-          let result: { subtitles: unknown; detectedLanguage?: unknown } | null = null;
-          let geminiFileUri: string | null = null;
-          let geminiFileExpiration: string | null = null;
-          let fileId: string | null = null;
-          let subtitleGenerationFailed = false;
-
-          const { getGlobalSettings } = await import("@/lib/global-settings-store");
-          const { processWithFallback } = await import("@/lib/ai-provider");
-          const settings = getGlobalSettings();
-
-          try {
-            if (useInlineData) {
-              sendProgress("generating_subtitles");
-              console.log(`Using inline data transmission (file < ${INLINE_SIZE_LIMIT_MB} MB)`);
-
-              if (!isPathSafe(processPath)) {
-                  console.warn(`[Process] Blocked unauthorized path access: ${processPath}`);
-                  throw new Error('Unauthorized path');
-              }
-              const fileBuffer = fs.readFileSync(processPath);
-              const base64Data = fileBuffer.toString('base64');
-
-              result = await processWithFallback(
-                'generate',
-                {
-                  base64Data,
-                  mimeType,
-                  secondaryLanguage: secondaryLanguage === "None" ? undefined : secondaryLanguage,
-                  isInline: true,
-                  modelName: modelName
-                },
-                settings.aiFallbackChain
-              );
-            } else {
-              console.log(`Using Files API (file >= ${INLINE_SIZE_LIMIT_MB} MB)`);
-
-              const geminiFile = await uploadToGemini(processPath, mimeType, (stage, percent) => {
-                 sendProgress(stage, percent);
-              });
-              geminiFileUri = geminiFile.uri || null;
-              geminiFileExpiration = geminiFile.expirationTime || null;
-              fileId = geminiFile.name || null;
-
-              sendProgress("generating_subtitles");
-              result = await processWithFallback(
-                'generate',
-                {
-                  fileUri: geminiFile.uri!,
-                  mimeType,
-                  secondaryLanguage: secondaryLanguage === "None" ? undefined : secondaryLanguage,
-                  modelName: modelName
-                },
-                settings.aiFallbackChain
-              );
-            }
-          } catch (aiError) {
-            // Re-throw security/infrastructure errors; only swallow AI service failures
-            const aiErrorMessage = aiError instanceof Error ? aiError.message : String(aiError);
-            if (aiErrorMessage === 'Unauthorized path') throw aiError;
-            console.warn("[Process] Subtitle generation failed, adding video with no subtitles:", aiErrorMessage);
-            subtitleGenerationFailed = true;
+          // The client cancels the job itself (DELETE /api/queue) when the user asks to
+          send({ type: "queued", jobId: job.id, draftId });
+          sendProgress("queued");
+          const { queueManager } = await import("@/lib/queue-manager");
+          const finished = await queueManager.waitForItem(job.id, (item) => {
+            if (item.status === "processing") sendProgress("transcribing", Math.round(item.progress));
+          }, signal);
+
+          // A failed (or removed) job still adds the video, like a failed AI pass did
+          const result = finished?.status === "completed" ? finished.result : undefined;
+          if (!result) {
+            console.warn(`[Process] Transcription job ${job.id} did not complete, adding video with no subtitles:`, finished?.error ?? "removed from the queue");
           }
-
-          const subtitles = result?.subtitles ?? [];
-          const detectedLanguage = result?.detectedLanguage ?? null;
-
-          try {
-              if (processPath !== videoPath && fs.existsSync(processPath)) {
-                secureDelete(processPath).catch(e => console.error("Cleanup error", e));
-              }
-          } catch (e) { console.error("Cleanup error", e); }
-
-          controller.enqueue(encoder.encode(JSON.stringify({
+          send({
             type: "complete",
             data: {
-              subtitles,
+              subtitles: (result?.subtitles ?? []).map(toRawSubtitleItem),
               videoPath,
-              detectedLanguage,
-              geminiFileUri,
-              geminiFileExpiration,
-              fileId,
-              fileSize: fs.statSync(videoPath).size,
+              detectedLanguage: result?.detectedLanguage ?? null,
+              provenance: result?.provenance,
+              fileSize: stats.size,
               originalFilename,
-              ...(subtitleGenerationFailed && { subtitleGenerationFailed: true })
+              draftId,
+              ...(!result && { subtitleGenerationFailed: true })
             }
-          }) + "\n"));
-          controller.close();
+          });
+          close();
         } catch (error) {
-          console.error("Error processing video:", error);
-          controller.enqueue(encoder.encode(JSON.stringify({ type: "error", message: error instanceof Error ? error.message : "Failed to process video" }) + "\n"));
-          
-          if (videoPath && fs.existsSync(videoPath)) {
-              secureDelete(videoPath).catch(err => console.error("Failed to cleanup temp video:", err));
-          }
-          if (processPath && processPath !== videoPath && fs.existsSync(processPath)) {
-              secureDelete(processPath).catch(err => console.error("Failed to cleanup extracted audio:", err));
+          if (signal.aborted) {
+            console.log(`[Process] Client disconnected; transcription job ${job?.id} keeps running`);
+          } else {
+            console.error("Error processing video:", error);
+            send({ type: "error", message: error instanceof Error ? error.message : "Failed to process video" });
           }
-          controller.close();
+          close();
         }
+      },
+      cancel() {
+        abortController.abort();
       }
     });
 
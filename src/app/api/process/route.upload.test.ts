@@ -0,0 +1,108 @@
+/**
+ * @jest-environment node
+ */
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { NextRequest } from 'next/server';
+import { POST } from './route';
+
+const stagingDir = fs.mkdtempSync(path.join(os.tmpdir(), 'process-upload-'));
+
+jest.mock('uuid', () => ({
+  v4: jest.fn(() => 'upload-uuid'),
+}));
+
+jest.mock('@/lib/storage-config', () => ({
+  getStorageConfig: jest.fn(() => ({ stagingDir })),
+  isPathSafe: jest.fn(() => true),
+}));
+
+jest.mock('@/lib/global-settings-store', () => ({
+  getGlobalSettings: jest.fn(() => ({ maxFileSizeMB: 100 })),
+}));
+
+jest.mock('@/lib/auth', () => ({
+  validateAuth: jest.fn(() => true),
+}));
+
+jest.mock('@/lib/draft-store', () => ({
+  saveDraftV1: jest.fn(() => ({ id: 'draft-1' })),
+}));
+
+jest.mock('@/lib/queue-manager', () => ({
+  queueManager: {
+    initialize: jest.fn(),
+    addItem: jest.fn(() => ({ id: 'job-1' })),
+    getPausedState: jest.fn(() => false),
+    resume: jest.fn(),
+    waitForItem: jest.fn(),
+  },
+}));
+
+import { saveDraftV1 } from '@/lib/draft-store';
+import { queueManager } from '@/lib/queue-manager';
+
+function uploadRequest(fields: Record<string, string> = {}) {
+  const form = new FormData();
+  form.append('video', new Blob(['fake video'], { type: 'video/mp4' }), 'talk.mp4');
+  for (const [name, value] of Object.entries(fields)) form.append(name, value);
+  return new NextRequest('http://localhost/api/process', { method: 'POST', body: form });
+}
+
+async function readMessages(res: Response) {
+  return (await res.text()).trim().split('\n').map(line => JSON.parse(line));
+}
+
+describe('/api/process (uploads)', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  afterAll(() => {
+    fs.rmSync(stagingDir, { recursive: true, force: true });
+  });
+
+  it('stages the upload, saves a placeholder draft and follows the transcription job', async () => {
+    (queueManager.waitForItem as jest.Mock).mockImplementation(async (_id, onUpdate) => {
+      onUpdate({ id: 'job-1', status: 'processing', progress: 42.4 });
+      return { id: 'job-1', status: 'completed', result: { subtitles: [{ id: 'a', startTime: 1, endTime: 2.5, text: 'Hello' }], detectedLanguage: 'English' } };
+    });
+
+    const messages = await readMessages(await POST(uploadRequest({ model: 'gemini-2.5-flash', secondaryLanguage: 'French' })));
+
+    const videoPath = (saveDraftV1 as jest.Mock).mock.calls[0][0].videoPath;
+    expect(fs.readFileSync(videoPath, 'utf8')).toBe('fake video');
+    expect(queueManager.addItem).toHaveBeenCalledWith(expect.objectContaining({
+      model: 'gemini-2.5-flash',
+      secondaryLanguage: 'French',
+      metadata: { type: 'transcribe', videoPath, draftId: 'draft-1' },
+    }));
+    expect(messages).toEqual([
+      { type: 'queued', jobId: 'job-1', draftId: 'draft-1' },
+      { type: 'progress', stage: 'queued' },
+      { type: 'progress', stage: 'transcribing', percent: 42 },
+      {
+        type: 'complete',
+        data: expect.objectContaining({
+          subtitles: [{ startTime: '00:00:01,000', endTime: '00:00:02,500', text: 'Hello' }],
+          videoPath,
+          detectedLanguage: 'English',
+          draftId: 'draft-1',
+        }),
+      },
+    ]);
+  });
+
+  it('adds the video without subtitles when the job fails, and skips the draft on request', async () => {
+    (queueManager.waitForItem as jest.Mock).mockResolvedValue({ id: 'job-1', status: 'failed', error: 'Quota exceeded' });
+
+    const messages = await readMessages(await POST(uploadRequest({ skipDraft: 'true' })));
+
+    expect(saveDraftV1).not.toHaveBeenCalled();
+    expect(queueManager.addItem).toHaveBeenCalledWith(expect.objectContaining({
+      metadata: expect.objectContaining({ draftId: undefined }),
+    }));
+    expect(messages[messages.length - 1].data).toMatchObject({ subtitles: [], subtitleGenerationFailed: true });
+  });
+});
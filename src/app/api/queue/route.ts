@@ -1,8 +1,33 @@
 import { NextRequest, NextResponse } from 'next/server';
+import fs from 'fs';
+import { z } from 'zod';
 import { queueManager } from '@/lib/queue-manager';
+import { QUEUE_PRIORITY } from '@/types/queue';
+import { MAX_GLOSSARY_ENTRIES, MAX_GLOSSARY_TERM_LENGTH, MAX_GLOSSARY_NOTES_LENGTH } from '@/lib/glossary';
 
 export const dynamic = 'force-dynamic';
 
+const PrioritySchema = z.union([
+  z.literal(QUEUE_PRIORITY.low),
+  z.literal(QUEUE_PRIORITY.normal),
+  z.literal(QUEUE_PRIORITY.high),
+]);
+
+// Optional prompt settings of a transcription job (same limits as /api/process)
+const TranscriptionOptionsSchema = z.object({
+  priority: PrioritySchema.optional(),
+  draftId: z.string().optional(),
+  clipId: z.string().optional(),
+  language: z.string().max(100).optional(),
+  promptHints: z.string().max(1000).optional(),
+  glossary: z.array(z.object({
+    term: z.string().max(MAX_GLOSSARY_TERM_LENGTH),
+    translation: z.string().max(MAX_GLOSSARY_TERM_LENGTH).optional(),
+    doNotTranslate: z.boolean().optional(),
+    notes: z.string().max(MAX_GLOSSARY_NOTES_LENGTH).optional(),
+  })).max(MAX_GLOSSARY_ENTRIES).optional(),
+});
+
 // GET /api/queue - Get current queue status
 export async function GET() {
   try {
@@ -12,13 +37,15 @@ export async function GET() {
     const items = queueManager.getAllItems();
     const stats = queueManager.getStats();
     const config = queueManager.getConfig();
-    const estimatedTimeMs = queueManager.getEstimatedTimeRemaining();
+    const estimates = queueManager.getEstimates();
     
     return NextResponse.json({
       items,
       stats,
       config,
-      estimatedTimeMs,
+      estimates: estimates.items, // ms until each job finishes
+      estimatedTimeMs: estimates.totalMs,
+      throughput: queueManager.getThroughputStats(),
       isPaused: queueManager.getPausedState(),
       isProcessing: queueManager.isProcessing(),
     });
@@ -30,35 +57,59 @@ export async function GET() {
   }
 }
 
-// POST /api/queue - Add item to queue
+// POST /api/queue - Queue a transcription of a staged file
+// The subtitles are written into `draftId` (clip `clipId` for V2 drafts) when the job finishes
 export async function POST(req: NextRequest) {
   try {
     const body = await req.json();
-    const { fileName, fileSize, filePath, model, secondaryLanguage, sampleDuration } = body;
+    const { fileName, fileSize, filePath, model, secondaryLanguage } = body;
     
-    if (!fileName || !fileSize || !filePath || !model) {
+    if (!fileName || !filePath || !model) {
       return NextResponse.json(
         { error: 'Missing required fields' },
         { status: 400 }
       );
     }
 
+    const options = TranscriptionOptionsSchema.safeParse(body);
+    if (!options.success) {
+      return NextResponse.json({ error: 'Invalid request data', details: options.error.format() }, { status: 400 });
+    }
+    const { draftId, clipId, language, promptHints, glossary, priority } = options.data;
+
     const { isPathSafe } = await import("@/lib/storage-config");
     if (!isPathSafe(filePath)) {
         console.warn(`[Queue] Blocked unauthorized path access: ${filePath}`);
         return NextResponse.json({ error: 'Unauthorized path' }, { status: 403 });
     }
+    if (!fs.existsSync(filePath)) {
+      return NextResponse.json({ error: 'Source media not found' }, { status: 404 });
+    }
     
+    await queueManager.initialize();
     const item = queueManager.addItem({
+      // No file.path: removing the job must not delete the project's media
       file: {
         name: fileName,
-        size: fileSize,
-        path: filePath,
+        size: fileSize || fs.statSync(filePath).size, // Measured when the client does not know it
       },
       model,
       secondaryLanguage: secondaryLanguage || 'None',
-      sampleDuration, // Optional: 2, 5, or 10 seconds
+      priority,
+      metadata: {
+        type: 'transcribe',
+        videoPath: filePath,
+        draftId,
+        clipId,
+        language,
+        promptHints,
+        glossary,
+      },
     });
+
+    if (!queueManager.getPausedState()) {
+      queueManager.resume(); // Starts processing if an AI slot is free
+    }
     
     return NextResponse.json({ item });
     
@@ -111,10 +162,10 @@ export async function DELETE(req: NextRequest) {
   }
 }
 
-// PUT /api/queue - Control operations (pause, resume, cancel, retry)
+// PUT /api/queue - Control operations (pause, resume, cancel, retry, reorder, priority)
 export async function PUT(req: NextRequest) {
   try {
-    const { action, id } = await req.json();
+    const { action, id, index, priority } = await req.json();
     
     switch (action) {
       case 'pause':
@@ -126,7 +177,8 @@ export async function PUT(req: NextRequest) {
         return NextResponse.json({ success: true, paused: false });
         
       case 'cancel':
-        const canceled = queueManager.cancelCurrent();
+        // Without an id every running job is cancelled
+        const canceled = id ? queueManager.cancelItem(id) : queueManager.cancelCurrent();
         return NextResponse.json({ success: canceled });
         
       case 'retry':
@@ -138,6 +190,28 @@ export async function PUT(req: NextRequest) {
         }
         const retried = queueManager.retryItem(id);
         return NextResponse.json({ success: retried });
+
+      case 'reorder':
+        // Move a pending item to `index` in run order
+        if (!id || !Number.isInteger(index) || index < 0) {
+          return NextResponse.json(
+            { error: 'Reorder needs an item ID and a non-negative index' },
+            { status: 400 }
+          );
+        }
+        const moved = queueManager.moveItem(id, index);
+        return NextResponse.json({ success: moved });
+
+      case 'priority':
+        const parsedPriority = PrioritySchema.safeParse(priority);
+        if (!id || !parsedPriority.success) {
+          return NextResponse.json(
+            { error: 'Priority needs an item ID and a priority of -1, 0 or 1' },
+            { status: 400 }
+          );
+        }
+        const prioritized = queueManager.setPriority(id, parsedPriority.data);
+        return NextResponse.json({ success: prioritized });
         
       default:
         return NextResponse.json(
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
 import { getGlobalSettings, saveGlobalSettings, resetGlobalSettings } from "@/lib/global-settings-store";
 import { GlobalSettings } from "@/types/subtitle";
+import { SECONDARY_SCALE_RANGE } from "@/lib/bilingual-layout";
 
 const HWACCELS = ['nvenc', 'amf', 'qsv', 'videotoolbox', 'vaapi', 'v4l2m2m', 'rkmpp', 'omx', 'none'] as const;
 const PRESETS = ['ultrafast', 'superfast', 'veryfast', 'faster', 'fast', 'medium', 'slow', 'slower', 'veryslow'] as const;
@@ -12,7 +13,12 @@ const SettingsSchema = z.object({
   defaultSecondaryStyle: z.unknown().optional(),
   defaultPrimaryLanguage: z.string().max(100).optional(),
   defaultSecondaryLanguage: z.string().max(100).optional(),
-  subtitleStyle: z.unknown().optional(),
+  subtitleStyle: z.enum(['split', 'combined']).optional(),
+  combinedLayout: z.object({
+    order: z.enum(['primary-first', 'secondary-first']),
+    separator: z.enum(['line', 'blank', 'slash']),
+    secondaryScale: z.number().min(SECONDARY_SCALE_RANGE.min).max(SECONDARY_SCALE_RANGE.max),
+  }).partial().optional(),
   defaultHwaccel: z.enum(HWACCELS).optional(),
   defaultPreset: z.enum(PRESETS).optional(),
   defaultCrf: z.number().int().min(0).max(51).optional(),
@@ -20,6 +26,7 @@ const SettingsSchema = z.object({
   aiFallbackChain: z.array(z.unknown()).optional(),
   maxFileSizeMB: z.number().positive().max(1024 * 1024).optional(),     // <= 1 PB
   maxProjectSizeMB: z.number().positive().max(1024 * 1024).optional(),
+  segmentGeneratedSubtitles: z.boolean().optional(),
 }).passthrough();
 
 /**
@@ -58,6 +65,7 @@ export async function PUT(req: NextRequest) {
       defaultPrimaryLanguage: body.defaultPrimaryLanguage ?? existing.defaultPrimaryLanguage,
       defaultSecondaryLanguage: body.defaultSecondaryLanguage ?? existing.defaultSecondaryLanguage,
       subtitleStyle: body.subtitleStyle ?? existing.subtitleStyle,
+      combinedLayout: { ...existing.combinedLayout, ...body.combinedLayout },
       defaultHwaccel: body.defaultHwaccel ?? existing.defaultHwaccel,
       defaultPreset: body.defaultPreset ?? existing.defaultPreset,
       defaultCrf: body.defaultCrf ?? existing.defaultCrf,
@@ -65,6 +73,7 @@ export async function PUT(req: NextRequest) {
       aiFallbackChain: body.aiFallbackChain ?? existing.aiFallbackChain,
       maxFileSizeMB: body.maxFileSizeMB ?? existing.maxFileSizeMB,
       maxProjectSizeMB: body.maxProjectSizeMB ?? existing.maxProjectSizeMB,
+      segmentGeneratedSubtitles: body.segmentGeneratedSubtitles ?? existing.segmentGeneratedSubtitles,
     };
     
     saveGlobalSettings(settings);
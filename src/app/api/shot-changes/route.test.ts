@@ -0,0 +1,45 @@
+/**
+ * @jest-environment node
+ */
+import { GET } from './route';
+import { NextRequest } from 'next/server';
+
+jest.mock('@/lib/storage-config', () => ({
+  isPathSafe: jest.fn((p) => !!p && p.startsWith('/mock/staging')),
+}));
+
+jest.mock('@/lib/path-utils', () => ({
+  isRegularNonSymlinkFile: jest.fn(() => true),
+}));
+
+jest.mock('@/lib/shot-detection', () => ({
+  detectShotChanges: jest.fn(),
+}));
+
+import { detectShotChanges } from '@/lib/shot-detection';
+
+global.console.warn = jest.fn();
+global.console.error = jest.fn();
+
+const request = (query: string) => new NextRequest(`http://localhost/api/shot-changes${query}`);
+
+describe('/api/shot-changes', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('validates the path', async () => {
+    expect((await GET(request(''))).status).toBe(400);
+    expect((await GET(request('?path=/etc/passwd'))).status).toBe(403);
+    expect(detectShotChanges).not.toHaveBeenCalled();
+  });
+
+  it('returns shot changes for the clip', async () => {
+    (detectShotChanges as jest.Mock).mockResolvedValue([4.004, 10.01]);
+
+    const res = await GET(request('?path=/mock/staging/videos/a.mp4'));
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ shotChanges: [4.004, 10.01] });
+  });
+});
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import path from 'path';
+import { detectShotChanges } from '@/lib/shot-detection';
+
+// GET /api/shot-changes?path=/path/to/video.mp4 -> { shotChanges: [seconds] }
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const filePath = searchParams.get('path');
+
+    if (!filePath) {
+      return NextResponse.json({ error: 'Missing path parameter' }, { status: 400 });
+    }
+
+    const { isPathSafe } = await import("@/lib/storage-config");
+    if (!isPathSafe(filePath)) {
+      console.warn(`[Shots] Blocked unauthorized path access: ${filePath}`);
+      return NextResponse.json({ error: 'Unauthorized path' }, { status: 403 });
+    }
+
+    const resolvedPath = path.resolve(filePath);
+
+    // Reject symlinks so they can't point outside the staging jail.
+    const { isRegularNonSymlinkFile } = await import("@/lib/path-utils");
+    if (!isRegularNonSymlinkFile(resolvedPath)) {
+      return NextResponse.json({ error: 'File not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ shotChanges: await detectShotChanges(resolvedPath) });
+  } catch (error) {
+    console.error('Shot change detection error:', error);
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Failed to detect shot changes' }, { status: 500 });
+  }
+}
@@ -0,0 +1,55 @@
+/**
+ * @jest-environment node
+ */
+import { GET } from './route';
+import { NextRequest } from 'next/server';
+
+jest.mock('@/lib/storage-config', () => ({
+  isPathSafe: jest.fn((p) => !!p && p.startsWith('/mock/staging')),
+}));
+
+jest.mock('@/lib/path-utils', () => ({
+  isRegularNonSymlinkFile: jest.fn(() => true),
+}));
+
+jest.mock('@/lib/speech-detection', () => ({
+  detectSpeechSegments: jest.fn(),
+}));
+
+import { detectSpeechSegments } from '@/lib/speech-detection';
+
+global.console.warn = jest.fn();
+global.console.error = jest.fn();
+
+const request = (query: string) => new NextRequest(`http://localhost/api/speech${query}`);
+
+describe('/api/speech', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('validates the path', async () => {
+    expect((await GET(request(''))).status).toBe(400);
+    expect((await GET(request('?path=/etc/passwd'))).status).toBe(403);
+    expect(detectSpeechSegments).not.toHaveBeenCalled();
+  });
+
+  it('returns speech segments for the clip', async () => {
+    (detectSpeechSegments as jest.Mock).mockResolvedValue({ duration: 10, segments: [{ start: 1, end: 4 }] });
+
+    const res = await GET(request('?path=/mock/staging/videos/a.mp4'));
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ duration: 10, segments: [{ start: 1, end: 4 }] });
+    expect(detectSpeechSegments).toHaveBeenCalledWith('/mock/staging/videos/a.mp4');
+  });
+
+  it('reports detection failures', async () => {
+    (detectSpeechSegments as jest.Mock).mockRejectedValue(new Error('ffmpeg silencedetect failed'));
+
+    const res = await GET(request('?path=/mock/staging/videos/a.mp4'));
+
+    expect(res.status).toBe(500);
+    expect((await res.json()).error).toContain('silencedetect');
+  });
+});
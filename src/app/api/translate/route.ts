@@ -1,10 +1,22 @@
 import { NextRequest, NextResponse } from "next/server";
+import { normalizeGlossary } from "@/lib/glossary";
+import { SubtitleLine } from "@/types/subtitle";
 
 export const runtime = 'nodejs';
 
+// Neighbouring lines sent by the editor; capped so a request stays one batch
+const MAX_CONTEXT_LINES = 10;
+
+function toContextLines(context: unknown, prefix: string, keep: 'first' | 'last'): SubtitleLine[] {
+  if (typeof context !== 'string' || !context.trim()) return [];
+  const lines = context.split('\n').filter(line => line.trim());
+  const kept = keep === 'last' ? lines.slice(-MAX_CONTEXT_LINES) : lines.slice(0, MAX_CONTEXT_LINES);
+  return kept.map((text, index) => ({ id: `${prefix}-${index}`, startTime: 0, endTime: 0, text }));
+}
+
 export async function POST(req: NextRequest) {
   try {
-    const { text, targetLanguage } = await req.json();
+    const { text, targetLanguage, glossary, contextBefore, contextAfter } = await req.json();
 
     if (!text || !targetLanguage) {
       return NextResponse.json({ error: "Missing text or targetLanguage" }, { status: 400 });
@@ -14,24 +26,31 @@ export async function POST(req: NextRequest) {
     const { processWithFallback } = await import("@/lib/ai-provider");
     const settings = getGlobalSettings();
 
-    // Map single line request to what processWithFallback expects if needed,
-    // or just handle the single line translation here via processWithFallback.
-    
-    // If it's single text, we wrap it in a pseudo-subtitle array for the translate task
-    if (text) {
-      const result = await processWithFallback(
-        'translate',
-        { subtitles: [{ id: "single", startTime: 0, endTime: 0, text }], targetLanguage },
-        settings.aiFallbackChain
-      );
-      
-      const translation = result.subtitles[0].secondaryText || result.subtitles[0].text;
-      return NextResponse.json({ translation });
+    // The line is translated alongside its neighbours, which are context only
+    const result = await processWithFallback(
+      'translate',
+      {
+        subtitles: [
+          ...toContextLines(contextBefore, 'before', 'last'),
+          { id: "single", startTime: 0, endTime: 0, text },
+          ...toContextLines(contextAfter, 'after', 'first'),
+        ],
+        translateIds: ["single"],
+        targetLanguage,
+        glossary: normalizeGlossary(glossary)
+      },
+      settings.aiFallbackChain
+    );
+
+    const status = result.translationStatus?.single;
+    const translation = result.subtitles.find(line => line.id === "single")?.secondaryText;
+    if ((status !== 'translated' && status !== 'retried') || !translation) {
+      return NextResponse.json({ error: "The model did not return a translation for this line", status }, { status: 502 });
     }
 
-    return NextResponse.json({ error: "No text provided" }, { status: 400 });
+    return NextResponse.json({ translation, status });
   } catch (error) {
     console.error("Translation error:", error);
     return NextResponse.json({ error: error instanceof Error ? error.message : "Failed to translate" }, { status: 500 });
   }
-}
\ No newline at end of file
+}
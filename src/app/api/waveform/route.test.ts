@@ -0,0 +1,85 @@
+/**
+ * @jest-environment node
+ */
+import { GET } from './route';
+import { NextRequest } from 'next/server';
+
+jest.mock('@/lib/storage-config', () => ({
+  isPathSafe: jest.fn((p) => !!p && p.startsWith('/mock/staging')),
+}));
+
+jest.mock('@/lib/path-utils', () => ({
+  isRegularNonSymlinkFile: jest.fn(() => true),
+}));
+
+jest.mock('@/lib/waveform-peaks', () => ({
+  getWaveformInfo: jest.fn(),
+  getWaveformSegment: jest.fn(),
+}));
+
+import { isRegularNonSymlinkFile } from '@/lib/path-utils';
+import { getWaveformInfo, getWaveformSegment } from '@/lib/waveform-peaks';
+
+global.console.warn = jest.fn();
+global.console.error = jest.fn();
+
+const request = (query: string) => new NextRequest(`http://localhost/api/waveform${query}`);
+
+describe('/api/waveform', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (isRegularNonSymlinkFile as jest.Mock).mockReturnValue(true);
+    (getWaveformInfo as jest.Mock).mockResolvedValue({
+      duration: 10,
+      segmentSize: 4096,
+      levels: [{ peaksPerSecond: 200, length: 2000 }, { peaksPerSecond: 100, length: 1000 }],
+    });
+  });
+
+  it('validates the path', async () => {
+    expect((await GET(request(''))).status).toBe(400);
+    expect((await GET(request('?path=/etc/passwd'))).status).toBe(403);
+
+    (isRegularNonSymlinkFile as jest.Mock).mockReturnValue(false);
+    expect((await GET(request('?path=/mock/staging/videos/a.mp4'))).status).toBe(404);
+    expect(getWaveformInfo).not.toHaveBeenCalled();
+  });
+
+  it('returns the available levels', async () => {
+    const res = await GET(request('?path=/mock/staging/videos/a.mp4'));
+
+    expect(res.status).toBe(200);
+    const data = await res.json();
+    expect(data.levels).toHaveLength(2);
+    expect(getWaveformInfo).toHaveBeenCalledWith('/mock/staging/videos/a.mp4');
+  });
+
+  it('returns one segment of a level', async () => {
+    (getWaveformSegment as jest.Mock).mockResolvedValue({ peaksPerSecond: 100, peaks: [-3, 4, -1, 2] });
+
+    const res = await GET(request('?path=/mock/staging/videos/a.mp4&level=1&segment=0'));
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ level: 1, segment: 0, peaksPerSecond: 100, peaks: [-3, 4, -1, 2] });
+    expect(getWaveformSegment).toHaveBeenCalledWith('/mock/staging/videos/a.mp4', 1, 0);
+    expect(getWaveformInfo).not.toHaveBeenCalled();
+  });
+
+  it('rejects unknown levels and malformed segments', async () => {
+    (getWaveformSegment as jest.Mock).mockResolvedValue(null);
+    expect((await GET(request('?path=/mock/staging/videos/a.mp4&level=5&segment=0'))).status).toBe(400);
+
+    expect((await GET(request('?path=/mock/staging/videos/a.mp4&level=0&segment=-1'))).status).toBe(400);
+    expect((await GET(request('?path=/mock/staging/videos/a.mp4&level=x'))).status).toBe(400);
+    expect(getWaveformSegment).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports extraction failures', async () => {
+    (getWaveformInfo as jest.Mock).mockRejectedValue(new Error('ffmpeg audio decode failed'));
+
+    const res = await GET(request('?path=/mock/staging/videos/a.mp4'));
+
+    expect(res.status).toBe(500);
+    expect((await res.json()).error).toContain('ffmpeg');
+  });
+});
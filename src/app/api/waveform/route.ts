@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import path from 'path';
+import { getWaveformInfo, getWaveformSegment } from '@/lib/waveform-peaks';
+
+// GET /api/waveform?path=/path/to/video.mp4                      -> available levels
+// GET /api/waveform?path=/path/to/video.mp4&level=2&segment=0    -> peaks for one segment
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const filePath = searchParams.get('path');
+    const levelParam = searchParams.get('level');
+    const segmentParam = searchParams.get('segment');
+
+    if (!filePath) {
+      return NextResponse.json({ error: 'Missing path parameter' }, { status: 400 });
+    }
+
+    const { isPathSafe } = await import("@/lib/storage-config");
+    if (!isPathSafe(filePath)) {
+      console.warn(`[Waveform] Blocked unauthorized path access: ${filePath}`);
+      return NextResponse.json({ error: 'Unauthorized path' }, { status: 403 });
+    }
+
+    const resolvedPath = path.resolve(filePath);
+
+    // Reject symlinks so they can't point outside the staging jail.
+    const { isRegularNonSymlinkFile } = await import("@/lib/path-utils");
+    if (!isRegularNonSymlinkFile(resolvedPath)) {
+      return NextResponse.json({ error: 'File not found' }, { status: 404 });
+    }
+
+    if (levelParam === null && segmentParam === null) {
+      return NextResponse.json(await getWaveformInfo(resolvedPath));
+    }
+
+    const level = Number(levelParam);
+    const segment = Number(segmentParam);
+    if (!Number.isInteger(level) || !Number.isInteger(segment) || level < 0 || segment < 0) {
+      return NextResponse.json({ error: 'Invalid level or segment' }, { status: 400 });
+    }
+
+    const data = await getWaveformSegment(resolvedPath, level, segment);
+    if (!data) {
+      return NextResponse.json({ error: 'Invalid level or segment' }, { status: 400 });
+    }
+
+    return NextResponse.json({ level, segment, ...data });
+  } catch (error) {
+    console.error('Waveform error:', error);
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Failed to read waveform' }, { status: 500 });
+  }
+}
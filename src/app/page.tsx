@@ -15,6 +15,9 @@ import { VideoPropertiesDialog } from "@/components/VideoPropertiesDialog";
 import { AssetLibrary } from "@/components/AssetLibrary";
 import { TimelineToolbar } from "@/components/TimelineToolbar";
 import { FindReplaceDialog, FindOptions, FindResult } from "@/components/FindReplaceDialog";
+import { HistoryPanel } from "@/components/HistoryPanel";
+import { AlignTranscriptDialog } from "@/components/AlignTranscriptDialog";
+import { ShiftTimingsDialog } from "@/components/ShiftTimingsDialog";
 import { 
   SubtitleLine,
   DEFAULT_CONFIG,
@@ -25,12 +28,28 @@ import {
   DraftData,
   RawSubtitleItem,
   DraftItem,
+  SubtitleProvenance,
+  DEFAULT_GLOBAL_SETTINGS,
+  GlobalSettings,
+  StylePreset,
 } from "@/types/subtitle";
 import { QueueItem } from "@/types/queue";
 import { parseTimestamp, generateSrtContent } from "@/lib/time-utils";
+import { parseSubtitleFile, SUBTITLE_IMPORT_EXTENSIONS } from "@/lib/subtitle-parsers";
+import { SubtitleExportFormat, SubtitleExportTrack } from "@/lib/subtitle-exporters";
+import { getBilingualLayout } from "@/lib/bilingual-layout";
 import { getRangeSelectionIds, mergeSubtitles } from "@/lib/subtitle-utils";
+import { snapToSpeech, retimeToSpeech, SpeechSegment } from "@/lib/speech-timing";
+import { splitTranscript, diffTranscript } from "@/lib/transcript-alignment";
 import { generateAss } from "@/lib/ass-utils";
+import { getTrackStyles } from "@/lib/style-resolver";
+import { getSegmentationOptions, segmentSubtitles } from "@/lib/subtitle-segmentation";
+import { resolveQCRules } from "@/lib/subtitle-qc";
+import { applyTimingTransform, getScopedIds, TimingTransform, TimingScope } from "@/lib/timing-sync";
+import { applyPresetToLines } from "@/lib/style-presets";
+import { enqueueTranscription, waitForQueueItem } from "@/lib/queue-client";
 import { useHomeState } from "@/hooks/useHomeState";
+import { useSubtitleQC } from "@/hooks/useSubtitleQC";
 import { getProjectDuration } from "@/lib/timeline-utils";
 import { v4 as uuidv4 } from "uuid";
 import { Settings, Layers, FileVideo, LogOut, MonitorPlay, List } from "lucide-react";
@@ -41,6 +60,7 @@ export default function Home() {
   const homeState = useHomeState();
   const {
     subtitles, setSubtitles, undo, redo, canUndo, canRedo, resetHistory,
+    historyEntries, historyPosition, jumpToHistory,
     videoUrl, setVideoUrl,
     videoPath, setVideoPath,
     duration, setDuration,
@@ -50,6 +70,9 @@ export default function Home() {
     activeTab, setActiveTab,
     queueItems, setQueueItems,
     queuePaused,
+    queueEstimates,
+    queueEtaMs,
+    queueThroughput,
     currentDraftId, setCurrentDraftId,
     showRestoreOption, setShowRestoreOption,
     loading,
@@ -60,8 +83,10 @@ export default function Home() {
     setGlobalSettingsTab,
     setShowShortcuts,
     setShowAbout,
-    setShowShiftTimings,
+    showShiftTimings, setShowShiftTimings,
+    showHistory, setShowHistory,
     showFindReplace, setShowFindReplace,
+    showAlignTranscript, setShowAlignTranscript,
     clipboardSubtitles, setClipboardSubtitles,
     showQueue, setShowQueue,
     queueWidth,
@@ -88,6 +113,8 @@ export default function Home() {
     fetchVideoProperties,
     handleQueueWidthChange,
     toggleQueuePause,
+    reorderQueueItem,
+    setQueueItemPriority,
     isMultiVideoMode,
   } = homeState;
 
@@ -101,6 +128,15 @@ export default function Home() {
   const [, setShowReprocessDialog] = useState(false);
   const [isSplitMode, setIsSplitMode] = useState(false);
 
+  // Stored global settings (bilingual layout for the preview); refreshed on save
+  const [globalSettings, setGlobalSettings] = useState<GlobalSettings>(DEFAULT_GLOBAL_SETTINGS);
+  useEffect(() => {
+    fetch('/api/settings')
+      .then(res => res.ok ? res.json() : null)
+      .then(data => { if (data) setGlobalSettings(data); })
+      .catch(() => {}); // Keep the defaults
+  }, []);
+
   // Check if we're in multi-video mode
   // (isMultiVideoMode is now provided by homeState.isMultiVideoMode)
 
@@ -198,11 +234,11 @@ export default function Home() {
           }
         } else {
           // Handle V1 drafts (legacy single-video format)
+          if (data.config) setConfig(data.config);
           resetHistory(data.subtitles || []);
           setVideoPath(data.videoPath || null);
           const url = data.videoPath ? `/api/storage?path=${encodeURIComponent(data.videoPath)}` : null;
           setVideoUrl(url);
-          if (data.config) setConfig(data.config);
         }
       }
     } catch (err) {
@@ -255,8 +291,9 @@ export default function Home() {
       return;
     }
 
-    setVideoClips(prev => prev.filter(c => c.id !== clipId));
-    setTimelineClips(prev => prev.filter(c => c.videoClipId !== clipId));
+    const options = { label: 'Remove video', coalesceKey: `remove-video:${clipId}` };
+    setVideoClips(prev => prev.filter(c => c.id !== clipId), options);
+    setTimelineClips(prev => prev.filter(c => c.videoClipId !== clipId), options);
   };
 
   const handleRemoveImage = (assetId: string) => {
@@ -265,11 +302,12 @@ export default function Home() {
       return;
     }
 
-    setImageAssets(prev => prev.filter(a => a.id !== assetId));
-    setTimelineImages(prev => prev.filter(i => i.imageAssetId !== assetId));
+    const options = { label: 'Remove image', coalesceKey: `remove-image:${assetId}` };
+    setImageAssets(prev => prev.filter(a => a.id !== assetId), options);
+    setTimelineImages(prev => prev.filter(i => i.imageAssetId !== assetId), options);
   };
 
-  const handleUploadComplete = async (rawSubtitles: RawSubtitleItem[], url: string, lang: string, serverPath: string, detectedLanguage?: string, originalFilename?: string, fileSize?: number) => {
+  const handleUploadComplete = async (rawSubtitles: RawSubtitleItem[], url: string, lang: string, serverPath: string, detectedLanguage?: string, originalFilename?: string, fileSize?: number, provenance?: SubtitleProvenance, draftId?: string) => {
     // Check if we can auto-repair a missing clip
     if (fileSize && originalFilename) {
        const missingClipIndex = videoClips.findIndex(c => c.missing && c.originalFilename === originalFilename && c.fileSize === fileSize);
@@ -282,7 +320,11 @@ export default function Home() {
              filePath: serverPath,
              missing: false
           };
-          setVideoClips(repaired);
+          setVideoClips(repaired, { label: 'Restore missing video' });
+          // The upload's placeholder draft isn't needed; its video now belongs to this project
+          if (draftId) {
+            fetch(`/api/drafts?id=${encodeURIComponent(draftId)}&keepMedia=true`, { method: 'DELETE' }).catch(() => {});
+          }
           
           // If this was the active video or the only video, restore state?
           // If multi-video, we just updated the library.
@@ -298,21 +340,23 @@ export default function Home() {
       startTime: parseTimestamp(s.startTime),
       endTime: parseTimestamp(s.endTime),
       text: s.text,
-      secondaryText: s.secondaryText
+      secondaryText: s.secondaryText,
+      ...(s.styleOverrides && { styleOverrides: s.styleOverrides })
     }));
     setSubtitles(mapped);
     setInitialSubtitles(mapped); // Cache for reset
     setVideoUrl(url);
     setVideoPath(serverPath);
     setVideoProperties(null); // Clear cached properties for new video
-    setCurrentDraftId(null); // Reset for new uploads
+    setCurrentDraftId(draftId ?? null); // The upload's placeholder draft, which its transcription job fills in
     
     // Auto-set detected language and original filename
     setConfig(prev => ({
       ...prev,
       primaryLanguage: detectedLanguage || "English",
       secondaryLanguage: lang === "None" ? "Secondary" : lang,
-      originalFilename: originalFilename || null
+      originalFilename: originalFilename || null,
+      provenance
     }));
     
     // V2: Initialize clips if empty (Single Video Mode init)
@@ -358,6 +402,8 @@ export default function Home() {
        // Switch to Projects/Library to see the newly drafted content (N:1, Batch, Advanced)
        setShowVideoLibrary(true);
      }
+     // A new project starts with an empty history
+     resetHistory(mapped);
   };
   
   const handleExport =(format: 'ass' | 'srt' | 'srt-primary' | 'srt-secondary' | 'txt') => {
@@ -366,7 +412,7 @@ export default function Home() {
     const mimeType = "text/plain";
 
     if (format === 'ass') {
-      content = generateAss(subtitles, config);
+      content = generateAss(subtitles, config, undefined, getBilingualLayout(globalSettings), globalSettings);
       fileName = 'project.ass';
     } else if (format === 'srt' || format === 'srt-primary') {
       content = generateSrtContent(subtitles, 'primary');
@@ -389,6 +435,52 @@ export default function Home() {
     document.body.removeChild(a);
   };
 
+  const handleExportSubtitleFile = async (format: SubtitleExportFormat, track: SubtitleExportTrack) => {
+    // Multi-clip timelines are sent as a V2 project so the server flattens to project time.
+    // Lines belong to a timeline clip, not its source video (which may be placed twice),
+    // so every timeline clip gets a clip entry of its own holding just its lines.
+    const isMultiClip = timelineClips.length > 1;
+    const payload = isMultiClip
+      ? {
+          project: {
+            version: 2,
+            clips: timelineClips.flatMap(tc => {
+              const videoClip = videoClips.find(vc => vc.id === tc.videoClipId);
+              return videoClip ? [{ ...videoClip, id: tc.id, subtitles: subtitles.filter(s => s.clipId === tc.id) }] : [];
+            }),
+            timeline: timelineClips.map(tc => ({ ...tc, videoClipId: tc.id })),
+            subtitleConfig: config,
+          },
+        }
+      : { subtitles, config };
+
+    try {
+      const res = await fetch('/api/export/subtitles', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ format, track, filename: config.originalFilename || undefined, ...payload }),
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        alert(`Export failed: ${error.error || 'Unknown error'}`);
+        return;
+      }
+
+      const disposition = res.headers.get('Content-Disposition') || '';
+      const fileName = disposition.match(/filename="([^"]+)"/)?.[1] || `subtitles.${format}`;
+      const url = URL.createObjectURL(await res.blob());
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = fileName;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      alert(`Export failed: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
   const handleSaveProject = () => {
     const projectState = {
       version: 1,
@@ -429,8 +521,9 @@ export default function Home() {
           }
         }
         
-        setSubtitles(json.subtitles || []);
-        setConfig(json.config || DEFAULT_CONFIG);
+        const options = { label: 'Open project', coalesceKey: 'open-project' };
+        setSubtitles(json.subtitles || [], options);
+        setConfig(json.config || DEFAULT_CONFIG, options);
       } catch (err) {
         alert("Failed to load project: " + err);
       }
@@ -441,6 +534,44 @@ export default function Home() {
     openShiftKeyRef.current = false;
   };
 
+  const handleImportSubtitles = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      try {
+        const imported = parseSubtitleFile(event.target?.result as string, file.name);
+
+        // Attach to the selected timeline clip, falling back to the first one.
+        // Multi-clip projects only replace that clip's lines (times stay in source time).
+        const targetClip = timelineClips.find(c => c.id === selectedClipId) ?? timelineClips[0];
+        const isMultiClip = timelineClips.length > 1 && !!targetClip;
+        const replaced = isMultiClip ? subtitles.filter(s => s.clipId === targetClip.id) : subtitles;
+
+        if (replaced.length > 0 && !confirm(`Replace ${replaced.length} existing subtitle(s) with ${imported.length} from "${file.name}"?`)) {
+          return;
+        }
+
+        // Lines carry their clip whenever there is one, so the timing offset applies
+        const lines = targetClip ? imported.map(s => ({ ...s, clipId: targetClip.id })) : imported;
+        const options = { label: `Import ${file.name}`, coalesceKey: `import:${file.name}` };
+        if (isMultiClip) {
+          setSubtitles(prev => [...prev.filter(s => s.clipId !== targetClip.id), ...lines], options);
+        } else {
+          setSubtitles(lines, options);
+        }
+        if (targetClip) {
+          setVideoClips(prev => prev.map(c => c.id === targetClip.videoClipId ? { ...c, subtitles: lines } : c), options);
+        }
+      } catch (err) {
+        alert("Failed to import subtitles: " + (err instanceof Error ? err.message : err));
+      }
+    };
+    reader.readAsText(file);
+  };
+
   // Consolidate reset logic
   const closeProject = useCallback(() => {
     // Reset all core state
@@ -449,10 +580,7 @@ export default function Home() {
     setDuration(0); // Reset duration
     setCurrentTime(0); // Reset time
     
-    // Reset subtitles and history
-    setSubtitles([]); 
     setInitialSubtitles(null);
-    resetHistory([]);
     setSelectedSubtitleIds([]);
     
     // Reset config
@@ -468,9 +596,12 @@ export default function Home() {
     setProjectConfig(DEFAULT_PROJECT_CONFIG);
     setSelectedClipId(null);
     setSelectedImageId(null);
+
+    // Reset subtitles and history last, so the resets above aren't undoable
+    resetHistory([]);
   }, [
     setVideoUrl, setVideoPath, setDuration, setCurrentTime,
-    setSubtitles, setInitialSubtitles, resetHistory, setSelectedSubtitleIds,
+    setInitialSubtitles, resetHistory, setSelectedSubtitleIds,
     setConfig, setCurrentDraftId, setPendingProjectFile,
     setVideoClips, setTimelineClips, setTimelineImages, setImageAssets,
     setProjectConfig, setSelectedClipId, setSelectedImageId
@@ -495,7 +626,7 @@ export default function Home() {
     const toCopy = subtitles.filter(s => selectedSubtitleIds.includes(s.id));
     setClipboardSubtitles(toCopy);
     const remaining = subtitles.filter(s => !selectedSubtitleIds.includes(s.id));
-    setSubtitles(remaining);
+    setSubtitles(remaining, { label: 'Cut' });
     setSelectedSubtitleIds([]);
   }, [selectedSubtitleIds, subtitles, setSubtitles, setClipboardSubtitles, setSelectedSubtitleIds]);
 
@@ -514,9 +645,9 @@ export default function Home() {
         ...pasted,
         ...subtitles.slice(lastSelectedIndex + 1),
       ];
-      setSubtitles(newSubtitles);
+      setSubtitles(newSubtitles, { label: 'Paste' });
     } else {
-      setSubtitles([...subtitles, ...pasted]);
+      setSubtitles([...subtitles, ...pasted], { label: 'Paste' });
     }
   }, [clipboardSubtitles, selectedSubtitleIds, subtitles, setSubtitles]);
 
@@ -533,7 +664,7 @@ export default function Home() {
     const mergedIds = new Set(toMerge.map(s => s.id));
     const newSubtitles = subtitles.filter(s => !mergedIds.has(s.id) || s.id === merged.id)
       .map(s => s.id === merged.id ? merged : s);
-    setSubtitles(newSubtitles);
+    setSubtitles(newSubtitles, { label: 'Merge lines' });
     setSelectedSubtitleIds([merged.id]);
   }, [selectedSubtitleIds, subtitles, setSubtitles, setSelectedSubtitleIds]);
 
@@ -569,10 +700,193 @@ export default function Home() {
       second,
       ...subtitles.slice(idx + 1),
     ];
-    setSubtitles(newSubtitles);
+    setSubtitles(newSubtitles, { label: 'Split line' });
     setSelectedSubtitleIds([first.id, second.id]);
   }, [selectedSubtitleIds, subtitles, setSubtitles, setSelectedSubtitleIds]);
 
+  // === Style Presets ===
+  // Presets restyle the selected lines through their line overrides
+  const handleApplyPresetToSelection = useCallback((preset: StylePreset) => {
+    if (selectedSubtitleIds.length === 0) return;
+    setSubtitles(prev => applyPresetToLines(prev, selectedSubtitleIds, preset), { label: `Apply preset "${preset.name}"` });
+  }, [selectedSubtitleIds, setSubtitles]);
+
+  // === Speech Timing ===
+  // Speech segments per media file; the server also caches them on disk
+  const speechSegmentsRef = useRef(new Map<string, Promise<SpeechSegment[]>>());
+
+  const getSpeechSegments = useCallback((filePath: string) => {
+    let segments = speechSegmentsRef.current.get(filePath);
+    if (!segments) {
+      segments = fetch(`/api/speech?path=${encodeURIComponent(filePath)}`)
+        .then(async res => {
+          const data = await res.json();
+          if (!res.ok) throw new Error(data.error || 'Speech detection failed');
+          return data.segments as SpeechSegment[];
+        });
+      segments.catch(() => speechSegmentsRef.current.delete(filePath));
+      speechSegmentsRef.current.set(filePath, segments);
+    }
+    return segments;
+  }, []);
+
+  // Subtitle times are source times of the clip they belong to (or of the single video)
+  const getSubtitleMediaPath = useCallback((sub: SubtitleLine): string | null => {
+    if (sub.clipId) {
+      const clip = timelineClips.find(c => c.id === sub.clipId);
+      const videoClip = clip && videoClips.find(v => v.id === clip.videoClipId);
+      if (videoClip?.filePath) return videoClip.filePath;
+    }
+    return videoPath;
+  }, [timelineClips, videoClips, videoPath]);
+
+  // === Quality Check ===
+  const { issues: qcIssues, fix: fixQC } = useSubtitleQC(subtitles, config.qc, projectConfig.fps, getSubtitleMediaPath);
+  const qcIssueCount = Object.keys(qcIssues).length;
+
+  const handleFixQCIssues = useCallback((id?: string) => {
+    setSubtitles(prev => fixQC(prev, id ? [id] : undefined), { label: 'Fix quality issues' });
+  }, [fixQC, setSubtitles]);
+
+  // Split over-long lines and rebalance breaks for the project's styles and
+  // resolution; an active quality profile's limits apply when tighter
+  const handleResegment = useCallback(() => {
+    const trackStyles = getTrackStyles(config, globalSettings);
+    const options = getSegmentationOptions(
+      trackStyles.primary,
+      projectConfig.width,
+      projectConfig.height,
+      trackStyles.secondary
+    );
+    if (config.qc) {
+      const rules = resolveQCRules(config.qc);
+      options.maxLineWidth = Math.min(options.maxLineWidth, rules.maxCharsPerLine);
+      options.secondaryMaxLineWidth = Math.min(options.secondaryMaxLineWidth ?? Infinity, rules.maxCharsPerLine);
+      options.maxLines = rules.maxLines;
+    }
+    const ids = selectedSubtitleIds.length > 0 ? selectedSubtitleIds : undefined;
+    setSubtitles(prev => segmentSubtitles(prev, options, ids), { label: 'Re-segment lines' });
+  }, [config, globalSettings, projectConfig.width, projectConfig.height, selectedSubtitleIds, setSubtitles]);
+
+  const applySpeechTiming = useCallback(async (
+    lines: SubtitleLine[],
+    retime: (lines: SubtitleLine[], segments: SpeechSegment[]) => SubtitleLine[],
+    label: string
+  ) => {
+    const byMedia = new Map<string, SubtitleLine[]>();
+    for (const line of lines) {
+      const mediaPath = getSubtitleMediaPath(line);
+      if (!mediaPath) continue;
+      byMedia.set(mediaPath, [...(byMedia.get(mediaPath) || []), line]);
+    }
+    if (byMedia.size === 0) return;
+
+    try {
+      const updated = new Map<string, SubtitleLine>();
+      for (const [mediaPath, group] of byMedia) {
+        const segments = await getSpeechSegments(mediaPath);
+        retime(group, segments).forEach(line => updated.set(line.id, line));
+      }
+      // Apply to the latest state; edits made while detection ran are kept
+      setSubtitles(prev => prev.map(s => {
+        const line = updated.get(s.id);
+        return line && (line.startTime !== s.startTime || line.endTime !== s.endTime)
+          ? { ...s, startTime: line.startTime, endTime: line.endTime }
+          : s;
+      }), { label });
+    } catch (err) {
+      alert(`Speech detection failed: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }, [getSubtitleMediaPath, getSpeechSegments, setSubtitles]);
+
+  const handleSnapToSpeech = useCallback(() => {
+    const selected = subtitles.filter(s => selectedSubtitleIds.includes(s.id));
+    applySpeechTiming(selected, (lines, segments) => lines.map(line => snapToSpeech(line, segments)), 'Snap to speech');
+  }, [subtitles, selectedSubtitleIds, applySpeechTiming]);
+
+  const handleRetimeToSpeech = useCallback(() => {
+    applySpeechTiming(subtitles, retimeToSpeech, 'Re-time to speech');
+  }, [subtitles, applySpeechTiming]);
+
+  // === Timing Sync ===
+  // Offsets, framerate conversion and two-point sync; one undo step each
+  const handleApplyTiming = useCallback((transform: TimingTransform, scope: TimingScope) => {
+    const ids = getScopedIds(subtitles, scope, selectedSubtitleIds);
+    setSubtitles(prev => applyTimingTransform(prev, transform, ids), { label: 'Adjust timings' });
+  }, [subtitles, selectedSubtitleIds, setSubtitles]);
+
+  const timingClips = timelineClips.length > 1
+    ? timelineClips.map((clip, index) => ({
+        id: clip.id,
+        label: `Clip ${index + 1}: ${videoClips.find(v => v.id === clip.videoClipId)?.originalFilename ?? 'Unknown'}`,
+      }))
+    : [];
+
+  // === Transcript Alignment ===
+  // Aligns against the selected timeline clip (or the first one, or the single video)
+  const alignTargetClip = timelineClips.find(c => c.id === selectedClipId) ?? timelineClips[0];
+  const alignScope = timelineClips.length > 1 && alignTargetClip
+    ? subtitles.filter(s => s.clipId === alignTargetClip.id)
+    : subtitles;
+
+  const handleAlignTranscript = useCallback(async (text: string | null) => {
+    const videoClip = alignTargetClip && videoClips.find(v => v.id === alignTargetClip.videoClipId);
+    const mediaPath = videoClip?.filePath ?? videoPath;
+    if (!mediaPath) throw new Error("No media to align against.");
+
+    const transcript = text === null
+      ? alignScope.map(line => ({ id: line.id, text: line.text }))
+      : splitTranscript(text);
+    if (transcript.length === 0) throw new Error("The transcript is empty.");
+    if (text !== null && alignScope.length > 0 && !confirm(`Replace ${alignScope.length} existing subtitle(s) with ${transcript.length} aligned line(s)?`)) {
+      return;
+    }
+
+    const res = await fetch('/api/process', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        mode: 'align',
+        filePath: mediaPath,
+        ...(text === null ? { subtitles: alignScope } : { text }),
+        clipId: alignTargetClip?.id
+      })
+    });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error || 'Alignment failed');
+
+    // The server checks this too; never replace lines on the strength of that alone
+    const aligned: SubtitleLine[] = data.subtitles;
+    const problems = diffTranscript(transcript, aligned);
+    if (problems.length > 0) {
+      throw new Error(`Alignment changed the transcript: ${problems[0]}`);
+    }
+
+    if (text === null) {
+      // Only times are taken; anything edited while the request ran is kept
+      const timings = new Map(aligned.map(line => [line.id, line]));
+      setSubtitles(prev => prev.map(s => {
+        const line = timings.get(s.id);
+        return line ? { ...s, startTime: line.startTime, endTime: line.endTime } : s;
+      }), { label: 'Align transcript' });
+    } else {
+      const isMultiClip = timelineClips.length > 1 && !!alignTargetClip;
+      const created = aligned.map(line => ({
+        ...line,
+        id: uuidv4(),
+        ...(alignTargetClip && { clipId: alignTargetClip.id })
+      }));
+      setSubtitles(prev => isMultiClip
+        ? [...prev.filter(s => s.clipId !== alignTargetClip.id), ...created]
+        : created, { label: 'Align transcript' });
+    }
+
+    const interpolated = Object.values(data.alignmentStatus || {}).filter(status => status === 'interpolated').length;
+    if (interpolated > 0) {
+      alert(`${interpolated} line${interpolated !== 1 ? 's' : ''} could not be matched to the audio; ${interpolated !== 1 ? 'their timings were' : 'its timing was'} estimated from the surrounding lines.`);
+    }
+  }, [alignTargetClip, alignScope, videoClips, videoPath, timelineClips.length, setSubtitles]);
+
   // Keyboard shortcuts for Undo/Redo & New Project
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -777,7 +1091,7 @@ export default function Home() {
       if (replaced) {
           const newSubtitles = [...subtitles];
           newSubtitles[subIndex] = { ...sub, text: newText, secondaryText: newSecondary };
-          setSubtitles(newSubtitles);
+          setSubtitles(newSubtitles, { label: 'Replace' });
           
           // Re-run find to update results list since state changed
           // This is a bit expensive but accurate.
@@ -824,7 +1138,7 @@ export default function Home() {
       });
       
       if (count > 0) {
-          setSubtitles(newSubtitles);
+          setSubtitles(newSubtitles, { label: 'Replace all' });
           // Clear find results as they are stale
           findResultsRef.current = [];
           currentResultIndexRef.current = -1;
@@ -869,7 +1183,7 @@ export default function Home() {
     
     const newSubtitles = [...subtitles];
     newSubtitles.splice(index, 1, firstHalf, secondHalf);
-    setSubtitles(newSubtitles);
+    setSubtitles(newSubtitles, { label: 'Split line' });
     setSelectedSubtitleIds([]);
   };
 
@@ -1017,7 +1331,12 @@ export default function Home() {
           <QueueDrawer
             items={queueItems}
             isPaused={queuePaused}
+            estimates={queueEstimates}
+            totalEtaMs={queueEtaMs}
+            throughput={queueThroughput}
             onPauseToggle={toggleQueuePause}
+            onReorder={reorderQueueItem}
+            onPriorityChange={setQueueItemPriority}
             onRemove={async (id: string, force?: boolean) => {
               await fetch(`/api/queue?id=${id}&force=${force}`, { method: 'DELETE' });
               // Immediate re-fetch fallback
@@ -1083,6 +1402,7 @@ export default function Home() {
               openShiftKeyRef.current = e?.shiftKey || false;
               document.getElementById('project-upload')?.click();
             }}
+            onImportSubtitles={() => document.getElementById('subtitle-import')?.click()}
             onProjectSettings={() => setShowProjectSettings(true)}
             onToggleSecondaryTracks={() => setShowSecondaryTracks(!showSecondaryTracks)}
             isSecondaryTracksVisible={showSecondaryTracks}
@@ -1101,6 +1421,10 @@ export default function Home() {
             onRedo={redo}
             canUndo={canUndo}
             canRedo={canRedo}
+            undoLabel={historyEntries[historyPosition - 1]?.label}
+            redoLabel={historyEntries[historyPosition]?.label}
+            onToggleHistory={() => setShowHistory(!showHistory)}
+            isHistoryVisible={showHistory}
             onShowShortcuts={() => setShowShortcuts(true)}
             onAbout={() => setShowAbout(true)}
             onFindReplace={() => setShowFindReplace(true)}
@@ -1110,6 +1434,12 @@ export default function Home() {
             onPaste={handlePasteSubtitles}
             onMerge={handleMergeSubtitles}
             onSplit={handleSplitSubtitle}
+            onResegment={handleResegment}
+            onSnapToSpeech={handleSnapToSpeech}
+            onRetimeToSpeech={handleRetimeToSpeech}
+            onAlignTranscript={() => setShowAlignTranscript(true)}
+            onFixAllQCIssues={() => handleFixQCIssues()}
+            qcIssueCount={qcIssueCount}
             hasSelection={selectedSubtitleIds.length > 0}
             hasClipboard={clipboardSubtitles.length > 0}
             canMerge={selectedSubtitleIds.length >= 2}
@@ -1133,6 +1463,13 @@ export default function Home() {
             accept=".sgproj,.json" 
             onChange={handleOpenProject}
           />
+          <input
+            type="file"
+            id="subtitle-import"
+            className="hidden"
+            accept={SUBTITLE_IMPORT_EXTENSIONS.join(',')}
+            onChange={handleImportSubtitles}
+          />
         </div>
 
         
@@ -1202,6 +1539,8 @@ export default function Home() {
                   onTimeUpdate={setCurrentTime}
                   onDurationChange={setDuration}
                   videoProperties={videoProperties}
+                  layout={getBilingualLayout(globalSettings)}
+                  styleDefaults={globalSettings}
                 />
             </div>
           </div>
@@ -1236,13 +1575,13 @@ export default function Home() {
                       const selected = timelineClips.find(c => c.id === selectedClipId);
                       if (selected) {
                         const newClip = { ...selected, id: uuidv4(), projectStartTime: selected.projectStartTime + selected.clipDuration };
-                        setTimelineClips([...timelineClips, newClip]);
+                        setTimelineClips([...timelineClips, newClip], { label: 'Duplicate clip' });
                       }
                     } else if (selectedImageId) {
                       const selected = timelineImages.find(i => i.id === selectedImageId);
                       if (selected) {
                         const newImg = { ...selected, id: uuidv4(), projectStartTime: selected.projectStartTime + selected.duration };
-                        setTimelineImages([...timelineImages, newImg]);
+                        setTimelineImages([...timelineImages, newImg], { label: 'Duplicate image' });
                       }
                     }
                   }}
@@ -1278,13 +1617,13 @@ export default function Home() {
                       const clip = timelineClips.find(c => c.id === id);
                       if (clip) {
                         const newClip = { ...clip, id: uuidv4(), projectStartTime: clip.projectStartTime + clip.clipDuration };
-                        setTimelineClips([...timelineClips, newClip]);
+                        setTimelineClips([...timelineClips, newClip], { label: 'Duplicate clip' });
                       }
                     } else {
                         const img = timelineImages.find(i => i.id === id);
                         if (img) {
                           const newImg = { ...img, id: uuidv4(), projectStartTime: img.projectStartTime + img.duration };
-                          setTimelineImages([...timelineImages, newImg]);
+                          setTimelineImages([...timelineImages, newImg], { label: 'Duplicate image' });
                         }
                     }
                   }}
@@ -1311,7 +1650,7 @@ export default function Home() {
                     
                     const newClips = [...timelineClips];
                     newClips.splice(index, 1, firstPart, secondPart);
-                    setTimelineClips(newClips);
+                    setTimelineClips(newClips, { label: 'Split clip' });
                   }}
                   onRemoveTimelineItem={(id, type) => {
                     if (type === 'video') {
@@ -1322,6 +1661,7 @@ export default function Home() {
                   }}
                   showSecondaryTracks={showSecondaryTracks}
                   isSplitMode={isSplitMode}
+                  qcIssues={qcIssues}
                   onSplitAtPosition={(clipId, absoluteTime) => {
                     const clip = timelineClips.find(c => c.id === clipId);
                     if (!clip) return;
@@ -1351,7 +1691,7 @@ export default function Home() {
                     const index = timelineClips.findIndex(c => c.id === clipId);
                     const newClips = [...timelineClips];
                     newClips.splice(index, 1, firstPart, secondPart);
-                    setTimelineClips(newClips);
+                    setTimelineClips(newClips, { label: 'Split clip' });
                     
                     // Exit split mode
                     setIsSplitMode(false);
@@ -1427,11 +1767,20 @@ export default function Home() {
                     selectedIds={selectedSubtitleIds}
                     onSelect={handleSubtitleSelect}
                     onSplit={splitSubtitle}
+                    glossary={config.glossary}
+                    qcIssues={qcIssues}
+                    onFixQCIssues={handleFixQCIssues}
                   />
                 </div>
               ) : (
                 <div className="flex-1 overflow-y-auto custom-scrollbar">
-                   <ConfigPanel config={config} onChange={setConfig} />
+                   <ConfigPanel
+                     config={config}
+                     onChange={setConfig}
+                     globalSettings={globalSettings}
+                     selectionCount={selectedSubtitleIds.length}
+                     onApplyPresetToSelection={handleApplyPresetToSelection}
+                   />
                 </div>
               )}
               
@@ -1449,6 +1798,7 @@ export default function Home() {
                         duration: videoClips[0].duration || duration
                     } : undefined
                 }
+                onExportSubtitles={handleExportSubtitleFile}
                 onExport={async (sampleDuration, ffmpegConfig) => {
                   if (!videoPath) return;
                   
@@ -1495,7 +1845,12 @@ export default function Home() {
         <QueueDrawer
           items={queueItems}
           isPaused={queuePaused}
+          estimates={queueEstimates}
+          totalEtaMs={queueEtaMs}
+          throughput={queueThroughput}
           onPauseToggle={toggleQueuePause}
+          onReorder={reorderQueueItem}
+          onPriorityChange={setQueueItemPriority}
           onRemove={async (id: string, force?: boolean) => {
             await fetch(`/api/queue?id=${id}&force=${force}`, { method: 'DELETE' });
             // Immediate re-fetch fallback
@@ -1550,6 +1905,30 @@ export default function Home() {
         onReplaceAll={handleReplaceAll}
       />
 
+      <HistoryPanel
+        isOpen={showHistory}
+        onClose={() => setShowHistory(false)}
+        entries={historyEntries}
+        position={historyPosition}
+        onJump={jumpToHistory}
+      />
+
+      <ShiftTimingsDialog
+        isOpen={showShiftTimings}
+        onClose={() => setShowShiftTimings(false)}
+        onApply={handleApplyTiming}
+        subtitles={subtitles}
+        selectedIds={selectedSubtitleIds}
+        clips={timingClips}
+      />
+
+      <AlignTranscriptDialog
+        isOpen={showAlignTranscript}
+        onClose={() => setShowAlignTranscript(false)}
+        onAlign={handleAlignTranscript}
+        subtitleCount={alignScope.length}
+      />
+
       <ProjectSettingsDialog
         isOpen={showProjectSettings}
         onClose={() => setShowProjectSettings(false)}
@@ -1557,21 +1936,39 @@ export default function Home() {
         onUpdateConfig={(updates) => setConfig(prev => ({ ...prev, ...updates }))}
         projectConfig={projectConfig}
         onUpdateProjectConfig={(updates) => setProjectConfig(prev => ({ ...prev, ...updates }))}
+        subtitles={subtitles}
         onReprocess={async (lang, model) => {
-            const res = await fetch('/api/process', {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({
-                    mode: 'reprocess',
-                    fileUri: config.geminiFileUri,
-                    language: lang,
-                    secondaryLanguage: config.secondaryLanguage,
-                    model: model 
-                })
+            // A queue job, so the draft still gets the result if this tab closes.
+            // Multi-clip projects reprocess the selected timeline clip (or the first) and
+            // only replace its lines, like a subtitle import.
+            const targetClip = timelineClips.find(c => c.id === selectedClipId) ?? timelineClips[0];
+            const isMultiClip = timelineClips.length > 1 && !!targetClip;
+            const targetVideo = isMultiClip ? videoClips.find(c => c.id === targetClip.videoClipId) : undefined;
+            const mediaPath = targetVideo?.filePath ?? videoPath;
+            if (!mediaPath) throw new Error('No video loaded');
+            const job = await enqueueTranscription({
+                fileName: targetVideo?.originalFilename || config.originalFilename || mediaPath.split('/').pop() || 'video',
+                filePath: mediaPath,
+                model,
+                language: lang,
+                secondaryLanguage: config.secondaryLanguage,
+                draftId: currentDraftId || undefined,
+                clipId: targetVideo?.id,
+                glossary: config.glossary
             });
-            const data = await res.json();
-            if (data.error) throw new Error(data.error);
-            setSubtitles(data.subtitles);
+            const { result } = await waitForQueueItem(job.id);
+            const transcribed = result?.subtitles || [];
+            const lines = targetClip ? transcribed.map(s => ({ ...s, clipId: targetClip.id })) : transcribed;
+            const options = { label: 'Reprocess', coalesceKey: 'reprocess' };
+            if (isMultiClip) {
+                setSubtitles(prev => [...prev.filter(s => s.clipId !== targetClip.id), ...lines], options);
+            } else {
+                setSubtitles(lines, options);
+            }
+            if (targetClip) {
+                setVideoClips(prev => prev.map(c => c.id === targetClip.videoClipId ? { ...c, subtitles: lines } : c), options);
+            }
+            setConfig(prev => ({ ...prev, provenance: result?.provenance }), options);
         }}
         onRetranslate={async (secLang, model) => {
             const res = await fetch('/api/process', {
@@ -1581,16 +1978,23 @@ export default function Home() {
                     mode: 'translate',
                     subtitles: subtitles,
                     secondaryLanguage: secLang,
-                    model: model
+                    model: model,
+                    glossary: config.glossary
                 })
             });
             const data = await res.json();
             if (data.error) throw new Error(data.error);
-            setSubtitles(data.subtitles);
+            const options = { label: 'Re-translate', coalesceKey: 'retranslate' };
+            setSubtitles(data.subtitles, options);
+            setConfig(prev => ({ ...prev, provenance: { ...prev.provenance, secondary: data.provenance?.secondary } }), options);
+            const failed = Object.values(data.translationStatus || {}).filter(status => status === 'failed').length;
+            if (failed > 0) {
+                alert(`${failed} line${failed !== 1 ? 's' : ''} could not be translated and ${failed !== 1 ? 'were' : 'was'} left unchanged.`);
+            }
         }}
         onResetToOriginal={() => {
           if (initialSubtitles) {
-            resetHistory([...initialSubtitles]);
+            setSubtitles([...initialSubtitles], { label: 'Reset to original' });
           }
         }}
         canReset={initialSubtitles !== null && initialSubtitles.length > 0}
@@ -1599,6 +2003,7 @@ export default function Home() {
       <GlobalSettingsDialog
         isOpen={showGlobalSettings}
         onClose={() => setShowGlobalSettings(false)}
+        onSave={setGlobalSettings}
       />
       
       <VideoPropertiesDialog
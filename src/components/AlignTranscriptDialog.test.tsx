@@ -0,0 +1,49 @@
+import React from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { AlignTranscriptDialog } from './AlignTranscriptDialog';
+import '@testing-library/jest-dom';
+
+describe('AlignTranscriptDialog', () => {
+  const defaultProps = {
+    isOpen: true,
+    onClose: jest.fn(),
+    onAlign: jest.fn(() => Promise.resolve()),
+    subtitleCount: 0,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test('aligns pasted text and closes', async () => {
+    render(<AlignTranscriptDialog {...defaultProps} />);
+
+    const align = screen.getByRole('button', { name: 'Align' });
+    expect(align).toBeDisabled();
+
+    fireEvent.change(screen.getByLabelText(/one subtitle per line/), { target: { value: 'Hello\nWorld' } });
+    fireEvent.click(align);
+
+    await waitFor(() => expect(defaultProps.onClose).toHaveBeenCalled());
+    expect(defaultProps.onAlign).toHaveBeenCalledWith('Hello\nWorld');
+  });
+
+  test('defaults to the current subtitles when there are some', async () => {
+    render(<AlignTranscriptDialog {...defaultProps} subtitleCount={3} />);
+
+    expect(screen.getByText(/All 3 subtitle\(s\) will be re-timed/)).toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: 'Align' }));
+
+    await waitFor(() => expect(defaultProps.onAlign).toHaveBeenCalledWith(null));
+  });
+
+  test('shows the error and stays open when alignment fails', async () => {
+    const onAlign = jest.fn(() => Promise.reject(new Error('Alignment changed the transcript text')));
+    render(<AlignTranscriptDialog {...defaultProps} onAlign={onAlign} subtitleCount={1} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Align' }));
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('Alignment changed the transcript text');
+    expect(defaultProps.onClose).not.toHaveBeenCalled();
+  });
+});
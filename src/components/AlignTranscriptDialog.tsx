@@ -0,0 +1,164 @@
+"use client";
+
+import React, { useState, useEffect } from "react";
+import { X, AlignLeft, Loader2 } from "lucide-react";
+
+interface AlignTranscriptDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** Pasted text, or null to re-time the current subtitles. Rejects with a user-facing message. */
+  onAlign: (text: string | null) => Promise<void>;
+  subtitleCount: number;
+}
+
+export function AlignTranscriptDialog({ isOpen, onClose, onAlign, subtitleCount }: AlignTranscriptDialogProps) {
+  const [source, setSource] = useState<"paste" | "subtitles">(subtitleCount > 0 ? "subtitles" : "paste");
+  const [text, setText] = useState("");
+  const [isAligning, setIsAligning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Reset the form when the dialog transitions to open (render-adjustment pattern)
+  const [wasOpen, setWasOpen] = useState(isOpen);
+  if (isOpen !== wasOpen) {
+    setWasOpen(isOpen);
+    if (isOpen) {
+      setSource(subtitleCount > 0 ? "subtitles" : "paste");
+      setError(null);
+    }
+  }
+
+  // Close on Escape, unless a request is running
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape" && isOpen && !isAligning) {
+        onClose();
+      }
+    };
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, [isOpen, isAligning, onClose]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsAligning(true);
+    setError(null);
+    try {
+      await onAlign(source === "paste" ? text : null);
+      setText("");
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsAligning(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const canSubmit = !isAligning && (source === "subtitles" ? subtitleCount > 0 : text.trim() !== "");
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50">
+      <div
+        className="bg-[#1e1e1e] border border-[#3e3e42] rounded-lg shadow-2xl w-[32rem]"
+        role="dialog"
+        aria-labelledby="align-title"
+        aria-modal="true"
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between px-4 py-3 border-b border-[#3e3e42]">
+          <div className="flex items-center gap-2">
+            <AlignLeft className="w-4 h-4 text-[#007acc]" />
+            <h2 id="align-title" className="text-sm font-semibold text-white">
+              Align Transcript
+            </h2>
+          </div>
+          <button
+            onClick={onClose}
+            disabled={isAligning}
+            className="p-1 hover:bg-[#3e3e42] rounded transition-colors disabled:opacity-50"
+            aria-label="Close"
+          >
+            <X className="w-4 h-4 text-[#888]" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <form onSubmit={handleSubmit} className="p-4 space-y-4">
+          <p className="text-xs text-[#888]">
+            Time an existing transcript against the audio. The wording is kept exactly as written; only timings change.
+          </p>
+
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={() => setSource("paste")}
+              className={`flex-1 py-2 text-xs rounded border ${
+                source === "paste"
+                  ? "bg-[#007acc] border-[#007acc] text-white"
+                  : "border-[#3e3e42] text-[#888] hover:border-[#555]"
+              }`}
+            >
+              Paste Transcript
+            </button>
+            <button
+              type="button"
+              onClick={() => setSource("subtitles")}
+              disabled={subtitleCount === 0}
+              className={`flex-1 py-2 text-xs rounded border disabled:opacity-50 ${
+                source === "subtitles"
+                  ? "bg-[#007acc] border-[#007acc] text-white"
+                  : "border-[#3e3e42] text-[#888] hover:border-[#555]"
+              }`}
+            >
+              Current Subtitles ({subtitleCount})
+            </button>
+          </div>
+
+          {source === "paste" ? (
+            <div>
+              <label htmlFor="align-text" className="block text-xs text-[#888] mb-1">
+                Transcript (one subtitle per line; replaces the current lines)
+              </label>
+              <textarea
+                id="align-text"
+                value={text}
+                onChange={(e) => setText(e.target.value)}
+                rows={10}
+                className="w-full px-3 py-2 bg-[#2a2a2a] border border-[#3e3e42] rounded text-sm text-white font-mono focus:border-[#007acc] focus:outline-none resize-y"
+              />
+            </div>
+          ) : (
+            <p className="text-xs text-[#007acc]">
+              All {subtitleCount} subtitle(s) will be re-timed; their text is left untouched.
+            </p>
+          )}
+
+          {error && (
+            <p role="alert" className="text-xs text-red-400">{error}</p>
+          )}
+
+          {/* Actions */}
+          <div className="flex justify-end gap-2 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              disabled={isAligning}
+              className="px-4 py-1.5 text-xs border border-[#3e3e42] rounded text-[#ccc] hover:bg-[#3e3e42] disabled:opacity-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={!canSubmit}
+              className="flex items-center gap-1.5 px-4 py-1.5 text-xs bg-[#007acc] rounded text-white hover:bg-[#005fa3] disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isAligning && <Loader2 className="w-3 h-3 animate-spin" />}
+              {isAligning ? "Aligning..." : "Align"}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
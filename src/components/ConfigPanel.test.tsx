@@ -1,5 +1,5 @@
 import React from 'react';
-import { render, screen, fireEvent } from '@testing-library/react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import { ConfigPanel } from './ConfigPanel';
 import { SubtitleConfig } from '@/types/subtitle';
 import '@testing-library/jest-dom';
@@ -46,11 +46,24 @@ const mockConfig: SubtitleConfig = {
     }
 } as unknown as SubtitleConfig; // Type casting to avoid exhaustive mock of every field if interface is huge
 
+const mockPreset = {
+    id: 'p1',
+    name: 'Karaoke top',
+    primary: { alignment: 8, color: '#ffeb3b' },
+    secondary: {},
+    createdAt: 1,
+    updatedAt: 1,
+};
+
+// The presets panel loads the preset library
+global.fetch = jest.fn();
+
 describe('ConfigPanel', () => {
   const onChange = jest.fn();
 
   beforeEach(() => {
     onChange.mockClear();
+    (global.fetch as jest.Mock).mockResolvedValue({ ok: true, json: async () => ({ presets: [] }) });
   });
 
   test('renders primary tab by default', () => {
@@ -98,4 +111,20 @@ describe('ConfigPanel', () => {
         ffmpeg: expect.objectContaining({ crf: 18 })
     }));
   });
+
+  test('applies a preset to the project or the selected lines', async () => {
+    (global.fetch as jest.Mock).mockResolvedValue({ ok: true, json: async () => ({ presets: [mockPreset] }) });
+    const onApplyPresetToSelection = jest.fn();
+    render(<ConfigPanel config={mockConfig} onChange={onChange} selectionCount={2} onApplyPresetToSelection={onApplyPresetToSelection} />);
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Apply Karaoke top to project' }));
+    expect(onChange).toHaveBeenCalledWith(expect.objectContaining({
+        primary: { alignment: 8, color: '#ffeb3b' },
+        secondary: {},
+        ffmpeg: mockConfig.ffmpeg,
+    }));
+
+    fireEvent.click(screen.getByRole('button', { name: 'Apply Karaoke top to selection' }));
+    await waitFor(() => expect(onApplyPresetToSelection).toHaveBeenCalledWith(mockPreset));
+  });
 });
@@ -1,8 +1,10 @@
 "use client";
 
 import React, { useState } from "react";
-import { SubtitleConfig, TrackStyle, Alignment, GlobalSettings, DEFAULT_GLOBAL_SETTINGS, FFmpegConfig } from "@/types/subtitle";
+import { SubtitleConfig, TrackStyle, Alignment, GlobalSettings, DEFAULT_GLOBAL_SETTINGS, FFmpegConfig, StylePreset } from "@/types/subtitle";
 import { resolveTrackStyle } from "@/lib/style-resolver";
+import { applyPresetToConfig } from "@/lib/style-presets";
+import { StylePresetsPanel } from "./StylePresetsPanel";
 import { Type, Palette, Layout, Move, Cpu, Settings, MonitorPlay } from "lucide-react";
 
 interface ConfigProps {
@@ -10,9 +12,12 @@ interface ConfigProps {
   onChange: (config: SubtitleConfig) => void;
   /** Loaded global settings (falls back to system defaults if not provided) */
   globalSettings?: GlobalSettings;
+  /** Number of selected subtitle lines, for applying a preset to them */
+  selectionCount?: number;
+  onApplyPresetToSelection?: (preset: StylePreset) => void;
 }
 
-export function ConfigPanel({ config, onChange, globalSettings }: ConfigProps) {
+export function ConfigPanel({ config, onChange, globalSettings, selectionCount, onApplyPresetToSelection }: ConfigProps) {
   const [activeTab, setActiveTab] = useState<'primary' | 'secondary' | 'encoding'>('primary');
 
   // Resolve: Loaded Global Settings → System Defaults
@@ -69,6 +74,14 @@ export function ConfigPanel({ config, onChange, globalSettings }: ConfigProps) {
         
         {activeTab !== 'encoding' ? (
           <>
+            <StylePresetsPanel
+              current={config}
+              defaults={effectiveGlobalSettings}
+              onApplyToProject={(preset) => onChange(applyPresetToConfig(config, preset))}
+              onApplyToSelection={onApplyPresetToSelection}
+              selectionCount={selectionCount}
+            />
+
             {/* Alignment */}
             <div className="space-y-2">
               <label className="flex items-center space-x-1.5 text-[10px] font-bold text-[#666666] uppercase tracking-wider">
@@ -3,9 +3,10 @@
 import React, { useState } from "react";
 import { SubtitleLine, SubtitleConfig, FFmpegConfig as ExportConfig } from "@/types/subtitle";
 import { QueueItem } from "@/types/queue";
-import { Download, Loader2 } from "lucide-react";
+import { Download, Loader2, FileText } from "lucide-react";
 import { FFmpegConfigPanel } from "./FFmpegConfigPanel";
 import { estimateH264Size, formatBytes } from "@/lib/video-estimate-utils";
+import { SUBTITLE_EXPORTERS, SubtitleExportFormat, SubtitleExportTrack } from "@/lib/subtitle-exporters";
 
 interface ExportControlsProps {
   subtitles: SubtitleLine[];
@@ -13,6 +14,7 @@ interface ExportControlsProps {
   config: SubtitleConfig;
   queueItems: QueueItem[];
   onExport: (sampleDuration: number | null, ffmpegConfig: ExportConfig) => void;
+  onExportSubtitles?: (format: SubtitleExportFormat, track: SubtitleExportTrack) => Promise<void> | void;
   onChangeConfig?: (config: SubtitleConfig) => void;
   videoMetaData?: {
     duration: number;
@@ -22,15 +24,35 @@ interface ExportControlsProps {
 }
 
 export function ExportControls({
+  subtitles,
   videoPath,
   config,
   queueItems,
   onExport,
+  onExportSubtitles,
   onChangeConfig,
   videoMetaData,
 }: ExportControlsProps) {
   const [selectedDuration, setSelectedDuration] = useState<number | null>(null);
   const [exporting, setExporting] = useState(false);
+  const [sidecarFormat, setSidecarFormat] = useState<SubtitleExportFormat>('srt');
+  const [sidecarTrack, setSidecarTrack] = useState<SubtitleExportTrack>('primary');
+  const [exportingSidecar, setExportingSidecar] = useState(false);
+
+  const hasSecondary = subtitles.some(s => !!s.secondaryText);
+  const isMux = config.ffmpeg.exportMode === 'mux';
+  const subtitleMode = isMux ? `mux:${config.ffmpeg.muxContainer || 'mp4'}` : 'burn';
+  const sidecarExporter = SUBTITLE_EXPORTERS[sidecarFormat];
+
+  const handleExportSubtitles = async () => {
+    if (!onExportSubtitles) return;
+    setExportingSidecar(true);
+    try {
+      await onExportSubtitles(sidecarFormat, hasSecondary ? sidecarTrack : 'primary');
+    } finally {
+      setExportingSidecar(false);
+    }
+  };
 
   const handleExport = async (duration: number | null) => {
     setSelectedDuration(duration);
@@ -47,7 +69,8 @@ export function ExportControls({
   const processingCount = queueItems.filter(i => i.status === 'processing' || i.status === 'pending').length;
 
   const estimatedSize = React.useMemo(() => {
-    if (!videoMetaData || !videoMetaData.duration) return null;
+    // Mux exports stream-copy the source, so the encoder estimate doesn't apply
+    if (isMux || !videoMetaData || !videoMetaData.duration) return null;
 
     let targetWidth = videoMetaData.width;
     let targetHeight = videoMetaData.height;
@@ -66,7 +89,7 @@ export function ExportControls({
     });
 
     return formatBytes(bytes);
-  }, [videoMetaData, config.ffmpeg.resolution, config.ffmpeg.crf]);
+  }, [isMux, videoMetaData, config.ffmpeg.resolution, config.ffmpeg.crf]);
 
   return (
     <div className="border-t border-[#333333] bg-[#252526] p-4 space-y-4">
@@ -87,6 +110,32 @@ export function ExportControls({
         </div>
       </div>
 
+      {/* Subtitle Mode */}
+      <div className="flex items-center justify-between gap-3">
+        <label htmlFor="subtitle-mode" className="text-xs text-[#cccccc]">Subtitles</label>
+        <select
+          id="subtitle-mode"
+          value={subtitleMode}
+          onChange={(e) => {
+            const [mode, container] = e.target.value.split(':');
+            onChangeConfig?.({
+              ...config,
+              ffmpeg: {
+                ...config.ffmpeg,
+                exportMode: mode === 'mux' ? 'mux' : 'burn',
+                muxContainer: container === 'mkv' ? 'mkv' : 'mp4',
+              },
+            });
+          }}
+          className="bg-[#1e1e1e] border border-[#3e3e42] text-[#cccccc] text-xs p-2 focus:border-[#007acc] outline-none rounded-sm"
+          title="Burn-in renders subtitles into the picture; soft subtitles are embedded as toggleable tracks without re-encoding"
+        >
+          <option value="burn">Burn-in (re-encode)</option>
+          <option value="mux:mp4">Soft subtitles - MP4 (mov_text)</option>
+          <option value="mux:mkv">Soft subtitles - MKV (ASS styled)</option>
+        </select>
+      </div>
+
       {/* FFmpeg Config Panel */}
       <FFmpegConfigPanel
         config={config.ffmpeg}
@@ -133,8 +182,48 @@ export function ExportControls({
         </div>
       </div>
 
+      {onExportSubtitles && (
+        <div className="space-y-2 pt-3 border-t border-[#333333]">
+          <h3 className="text-xs font-bold text-[#888888] uppercase tracking-wider">Export Subtitle File</h3>
+          <div className="grid grid-cols-[1fr_1fr_auto] gap-2">
+            <select
+              value={sidecarFormat}
+              onChange={(e) => setSidecarFormat(e.target.value as SubtitleExportFormat)}
+              disabled={exportingSidecar}
+              className="bg-[#1e1e1e] border border-[#3e3e42] text-[#cccccc] text-xs p-2 focus:border-[#007acc] outline-none rounded-sm"
+              title="Subtitle format"
+            >
+              {Object.values(SUBTITLE_EXPORTERS).map(exporter => (
+                <option key={exporter.format} value={exporter.format}>{exporter.label}</option>
+              ))}
+            </select>
+            <select
+              value={hasSecondary ? sidecarTrack : 'primary'}
+              onChange={(e) => setSidecarTrack(e.target.value as SubtitleExportTrack)}
+              disabled={exportingSidecar || !hasSecondary || !sidecarExporter.supportsTrack}
+              className="bg-[#1e1e1e] border border-[#3e3e42] text-[#cccccc] text-xs p-2 focus:border-[#007acc] outline-none rounded-sm disabled:opacity-50"
+              title={sidecarExporter.supportsTrack ? "Subtitle track" : "This format always includes both tracks"}
+            >
+              <option value="primary">{config.primaryLanguage || 'Primary'}</option>
+              <option value="secondary">{config.secondaryLanguage || 'Secondary'}</option>
+              <option value="bilingual">Bilingual (stacked)</option>
+            </select>
+            <button
+              onClick={handleExportSubtitles}
+              disabled={exportingSidecar || subtitles.length === 0}
+              className="flex items-center justify-center gap-1.5 px-3 bg-[#2d2d2d] hover:bg-[#3e3e42] disabled:bg-[#1e1e1e] disabled:text-[#666666] border border-[#444444] text-[#cccccc] text-xs font-medium rounded-sm transition-colors"
+            >
+              {exportingSidecar ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <FileText className="w-3.5 h-3.5" />}
+              <span>Download</span>
+            </button>
+          </div>
+        </div>
+      )}
+
       <p className="text-[10px] text-[#666666]">
-        <span className="text-[#d7ba7d]">💡 Tip:</span> Use sample exports to test subtitle positioning before exporting the full video
+        <span className="text-[#d7ba7d]">💡 Tip:</span> {isMux
+          ? 'Soft subtitles copy the video as-is; encoder settings only apply to burn-in and multi-clip exports'
+          : 'Use sample exports to test subtitle positioning before exporting the full video'}
       </p>
     </div>
   );
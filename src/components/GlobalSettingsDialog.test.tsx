@@ -79,4 +79,27 @@ describe('GlobalSettingsDialog', () => {
          
          expect(screen.getByText('Mock Editor Mode: percentage')).toBeInTheDocument();
     });
+
+    it('should save combined layout options and report the saved settings', async () => {
+         const onSave = jest.fn();
+         render(<GlobalSettingsDialog isOpen={true} onClose={mockOnClose} onSave={onSave} />);
+         await waitFor(() => expect(screen.getByText('Combined')).toBeInTheDocument());
+
+         // Options only show for the combined layout
+         expect(screen.queryByLabelText('Separator')).not.toBeInTheDocument();
+         fireEvent.click(screen.getByText('Combined'));
+         fireEvent.change(screen.getByLabelText('Separator'), { target: { value: 'slash' } });
+         fireEvent.change(screen.getByLabelText('Order'), { target: { value: 'secondary-first' } });
+
+         const saved = { ...DEFAULT_GLOBAL_SETTINGS, subtitleStyle: 'combined' };
+         (global.fetch as jest.Mock).mockResolvedValueOnce({ ok: true, json: async () => ({ success: true, settings: saved }) });
+         fireEvent.click(screen.getByText('Save'));
+
+         await waitFor(() => expect(onSave).toHaveBeenCalledWith(saved));
+         const [, init] = (global.fetch as jest.Mock).mock.calls.find(([, options]) => options?.method === 'PUT');
+         expect(JSON.parse(init.body)).toMatchObject({
+             subtitleStyle: 'combined',
+             combinedLayout: { order: 'secondary-first', separator: 'slash', secondaryScale: 0.8 },
+         });
+    });
 });
@@ -1,11 +1,12 @@
 "use client";
 
 import React, { useState, useEffect } from "react";
-import { GlobalSettings, DEFAULT_GLOBAL_SETTINGS, AIProvider } from "@/types/subtitle";
+import { GlobalSettings, DEFAULT_GLOBAL_SETTINGS, AIProvider, CombinedLayout, CombinedSeparator, StylePreset } from "@/types/subtitle";
 import { REFERENCE_WIDTH, REFERENCE_HEIGHT } from "@/types/constants";
 import { Settings, X, Type, Languages, Cpu, Sparkles, RotateCcw, Plus, Trash2, ChevronUp, ChevronDown, Palette, Lock, LogOut } from "lucide-react";
 import { TrackStyleEditor } from "./TrackStyleEditor";
 import { getMarginPreviewStyle } from "@/lib/style-resolver";
+import { getBilingualLayout, SECONDARY_SCALE_RANGE } from "@/lib/bilingual-layout";
 
 interface GlobalSettingsDialogProps {
   isOpen: boolean;
@@ -16,6 +17,7 @@ interface GlobalSettingsDialogProps {
   isOpen: boolean;
   onClose: () => void;
   initialTab?: TabId;
+  onSave?: (settings: GlobalSettings) => void;
 }
 
 export type TabId = 'styles' | 'languages' | 'encoding' | 'ai' | 'appearance' | 'security';
@@ -37,7 +39,7 @@ const LANGUAGES = [
   'Hindi', 'Thai', 'Vietnamese', 'Indonesian', 'Dutch', 'Polish', 'Turkish', 'None'
 ];
 
-export function GlobalSettingsDialog({ isOpen, onClose, initialTab = 'styles' }: GlobalSettingsDialogProps) {
+export function GlobalSettingsDialog({ isOpen, onClose, initialTab = 'styles', onSave }: GlobalSettingsDialogProps) {
   const [activeTab, setActiveTab] = useState<TabId>(initialTab);
   const [stylesSubTab, setStylesSubTab] = useState<'primary' | 'secondary'>('primary');
   const [settings, setSettings] = useState<GlobalSettings>(DEFAULT_GLOBAL_SETTINGS);
@@ -135,6 +137,8 @@ export function GlobalSettingsDialog({ isOpen, onClose, initialTab = 'styles' }:
         body: JSON.stringify(settings),
       });
       if (res.ok) {
+        const data = await res.json();
+        onSave?.(data.settings ?? settings);
         onClose();
       }
     } catch (err) {
@@ -144,6 +148,13 @@ export function GlobalSettingsDialog({ isOpen, onClose, initialTab = 'styles' }:
     }
   };
 
+  // Raw while typing; clamped to the allowed range on blur
+  const combinedLayout = { ...DEFAULT_GLOBAL_SETTINGS.combinedLayout, ...settings.combinedLayout };
+  const updateCombinedLayout = (changes: Partial<CombinedLayout>) => {
+    const { order, separator, secondaryScale } = { ...combinedLayout, ...changes };
+    setSettings({ ...settings, combinedLayout: { order, separator, secondaryScale } });
+  };
+
   const handleReset = async () => {
     if (!confirm('Reset all settings to defaults?')) return;
     try {
@@ -169,6 +180,9 @@ export function GlobalSettingsDialog({ isOpen, onClose, initialTab = 'styles' }:
     setSettings({ ...settings, [key]: { ...currentStyle, ...updates } });
   };
 
+  // Defaults must stay complete, so a preset merges over them rather than replacing them
+  const applyPresetToCurrentStyle = (preset: StylePreset) => updateCurrentStyle(preset[stylesSubTab]);
+
 
 
   // Resolution details for "true to life" simulation
@@ -323,6 +337,54 @@ export function GlobalSettingsDialog({ isOpen, onClose, initialTab = 'styles' }:
                       </button>
                     </div>
 
+                    {/* Combined layout: one stacked block positioned by the primary style */}
+                    {settings.subtitleStyle === 'combined' && (
+                      <div className="grid grid-cols-3 gap-2">
+                        <div>
+                          <label htmlFor="combined-order" className="text-[10px] uppercase text-[#888888] font-bold mb-1 block">Order</label>
+                          <select
+                            id="combined-order"
+                            value={combinedLayout.order}
+                            onChange={(e) => updateCombinedLayout({ order: e.target.value as CombinedLayout['order'] })}
+                            className="w-full bg-[#1e1e1e] border border-[#3e3e42] text-[#cccccc] text-xs p-1.5 focus:border-[#007acc] outline-none"
+                          >
+                            <option value="primary-first">Primary first</option>
+                            <option value="secondary-first">Secondary first</option>
+                          </select>
+                        </div>
+                        <div>
+                          <label htmlFor="combined-separator" className="text-[10px] uppercase text-[#888888] font-bold mb-1 block">Separator</label>
+                          <select
+                            id="combined-separator"
+                            value={combinedLayout.separator}
+                            onChange={(e) => updateCombinedLayout({ separator: e.target.value as CombinedSeparator })}
+                            className="w-full bg-[#1e1e1e] border border-[#3e3e42] text-[#cccccc] text-xs p-1.5 focus:border-[#007acc] outline-none"
+                          >
+                            <option value="line">Line break</option>
+                            <option value="blank">Blank line</option>
+                            <option value="slash">Slash ( / )</option>
+                          </select>
+                        </div>
+                        <div>
+                          <label htmlFor="combined-scale" className="text-[10px] uppercase text-[#888888] font-bold mb-1 block">Secondary size %</label>
+                          <input
+                            id="combined-scale"
+                            type="number"
+                            min={SECONDARY_SCALE_RANGE.min * 100}
+                            max={SECONDARY_SCALE_RANGE.max * 100}
+                            step={5}
+                            value={Math.round(combinedLayout.secondaryScale * 100)}
+                            onChange={(e) => {
+                              const percent = parseFloat(e.target.value);
+                              if (Number.isFinite(percent)) updateCombinedLayout({ secondaryScale: percent / 100 });
+                            }}
+                            onBlur={() => updateCombinedLayout({ secondaryScale: getBilingualLayout(settings).secondaryScale })}
+                            className="w-full bg-[#1e1e1e] border border-[#3e3e42] text-[#cccccc] text-xs p-1.5 focus:border-[#007acc] outline-none"
+                          />
+                        </div>
+                      </div>
+                    )}
+
                     {/* Primary/Secondary Sub-tabs */}
                     <div className="flex gap-1 border-b border-[#333333]">
                       <button
@@ -353,6 +415,7 @@ export function GlobalSettingsDialog({ isOpen, onClose, initialTab = 'styles' }:
                             style={currentStyle} 
                             onChange={updateCurrentStyle}
                             mode="percentage"
+                            onApplyPreset={applyPresetToCurrentStyle}
                         />
                     </div>
                   </div>
@@ -451,6 +514,21 @@ export function GlobalSettingsDialog({ isOpen, onClose, initialTab = 'styles' }:
 
               {activeTab === 'ai' && (
                 <div className="space-y-4 overflow-y-auto max-h-[400px] pr-2">
+                  <label className="flex items-start gap-2 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={!!settings.segmentGeneratedSubtitles}
+                      onChange={(e) => setSettings({ ...settings, segmentGeneratedSubtitles: e.target.checked })}
+                      className="mt-0.5"
+                    />
+                    <span>
+                      <span className="block text-sm font-medium text-[#e1e1e1]">Re-segment generated subtitles</span>
+                      <span className="block text-[10px] text-[#666666]">
+                        Split over-long lines at punctuation and rebalance line breaks to fit the default styles.
+                      </span>
+                    </span>
+                  </label>
+
                   <div className="flex items-center justify-between">
                     <div>
                       <h4 className="text-sm font-medium text-[#e1e1e1]">Safety Re-route Chain</h4>
@@ -576,6 +654,20 @@ export function GlobalSettingsDialog({ isOpen, onClose, initialTab = 'styles' }:
                               placeholder="Endpoint URL (Optional)"
                               className="flex-1 bg-[#2d2d2d] border border-[#3e3e42] text-[#cccccc] text-[10px] px-2 py-1 rounded-sm outline-none"
                             />
+                            {model.provider !== 'ollama' && (
+                              <input
+                                type="text"
+                                value={model.transcriptionModel || ''}
+                                onChange={(e) => {
+                                  const newChain = [...settings.aiFallbackChain];
+                                  newChain[index].transcriptionModel = e.target.value || undefined;
+                                  setSettings({ ...settings, aiFallbackChain: newChain });
+                                }}
+                                placeholder={model.provider === 'openai' ? 'Transcription model (whisper-1)' : 'Transcription model (same as model)'}
+                                title="Model used for speech-to-text via /audio/transcriptions"
+                                className="w-48 bg-[#2d2d2d] border border-[#3e3e42] text-[#cccccc] text-[10px] px-2 py-1 rounded-sm outline-none"
+                              />
+                            )}
                           </div>
                         )}
                       </div>
@@ -0,0 +1,101 @@
+"use client";
+
+import React from "react";
+import { Plus, Trash2 } from "lucide-react";
+import { GlossaryEntry } from "@/types/subtitle";
+import { MAX_GLOSSARY_ENTRIES, MAX_GLOSSARY_TERM_LENGTH, MAX_GLOSSARY_NOTES_LENGTH } from "@/lib/glossary";
+
+interface GlossaryEditorProps {
+  entries: GlossaryEntry[];
+  onChange: (entries: GlossaryEntry[]) => void;
+  secondaryLanguage?: string;
+}
+
+const inputClass = "w-full bg-[#1e1e1e] border border-[#3e3e42] rounded px-2 py-1 text-xs focus:border-[#007fd4] outline-none text-[#ccc] disabled:opacity-40";
+
+export function GlossaryEditor({ entries, onChange, secondaryLanguage }: GlossaryEditorProps) {
+  const updateEntry = (index: number, updates: Partial<GlossaryEntry>) => {
+    onChange(entries.map((entry, i) => i === index ? { ...entry, ...updates } : entry));
+  };
+
+  const addEntry = () => {
+    if (entries.length >= MAX_GLOSSARY_ENTRIES) return;
+    onChange([...entries, { term: "" }]);
+  };
+
+  const removeEntry = (index: number) => {
+    onChange(entries.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-[10px] text-[#666]">
+        Names, jargon and preferred spellings are passed to every AI model when generating or translating.
+        Lines that don&apos;t match the glossary are flagged in the subtitle list.
+      </p>
+
+      {entries.length > 0 && (
+        <div className="grid grid-cols-[1fr_1fr_auto_1fr_auto] gap-2 items-center text-[10px] uppercase tracking-wider text-[#888888]">
+          <span>Term</span>
+          <span>{secondaryLanguage ? `${secondaryLanguage} translation` : 'Translation'}</span>
+          <span title="Keep the term untranslated">Keep</span>
+          <span>Notes</span>
+          <span />
+        </div>
+      )}
+
+      {entries.map((entry, index) => (
+        <div key={index} className="grid grid-cols-[1fr_1fr_auto_1fr_auto] gap-2 items-center">
+          <input
+            value={entry.term}
+            onChange={(e) => updateEntry(index, { term: e.target.value })}
+            maxLength={MAX_GLOSSARY_TERM_LENGTH}
+            placeholder="e.g. Kubernetes"
+            className={inputClass}
+            aria-label="Glossary term"
+          />
+          <input
+            value={entry.doNotTranslate ? entry.term : (entry.translation || "")}
+            onChange={(e) => updateEntry(index, { translation: e.target.value })}
+            maxLength={MAX_GLOSSARY_TERM_LENGTH}
+            disabled={entry.doNotTranslate}
+            placeholder="Model decides"
+            className={inputClass}
+            aria-label="Preferred translation"
+          />
+          <input
+            type="checkbox"
+            checked={!!entry.doNotTranslate}
+            onChange={(e) => updateEntry(index, { doNotTranslate: e.target.checked || undefined })}
+            className="accent-[#007acc]"
+            title="Do not translate"
+            aria-label="Do not translate"
+          />
+          <input
+            value={entry.notes || ""}
+            onChange={(e) => updateEntry(index, { notes: e.target.value })}
+            maxLength={MAX_GLOSSARY_NOTES_LENGTH}
+            placeholder="Optional context"
+            className={inputClass}
+            aria-label="Notes"
+          />
+          <button
+            onClick={() => removeEntry(index)}
+            className="p-1 rounded-sm hover:bg-[#3e3e42] text-[#888888] hover:text-red-400 transition-colors"
+            title="Remove term"
+          >
+            <Trash2 className="w-3 h-3" />
+          </button>
+        </div>
+      ))}
+
+      <button
+        onClick={addEntry}
+        disabled={entries.length >= MAX_GLOSSARY_ENTRIES}
+        className="flex items-center gap-1 px-2 py-1 text-xs bg-[#2d2d2d] hover:bg-[#3d3d3d] border border-[#454545] rounded text-[#ccc] disabled:opacity-50"
+      >
+        <Plus className="w-3 h-3" /> Add Term
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,91 @@
+"use client";
+
+import React, { useEffect } from "react";
+import { X, History } from "lucide-react";
+import { HistoryEntry } from "@/hooks/useProjectHistory";
+
+interface HistoryPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  entries: HistoryEntry[];
+  /** How many entries are applied; the rest have been undone. */
+  position: number;
+  onJump: (position: number) => void;
+}
+
+/**
+ * Floating list of the project's undo history. Clicking an entry undoes or
+ * redoes everything up to and including it.
+ */
+export function HistoryPanel({ isOpen, onClose, entries, position, onJump }: HistoryPanelProps) {
+  // Close on Escape
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape" && isOpen) {
+        onClose();
+      }
+    };
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, [isOpen, onClose]);
+
+  if (!isOpen) return null;
+
+  const rows = [
+    { label: "Start of history", time: null as string | null },
+    ...entries.map(entry => ({ label: entry.label, time: new Date(entry.timestamp).toLocaleTimeString() })),
+  ];
+
+  return (
+    <div className="fixed top-16 left-4 z-50">
+      <div
+        className="bg-[#1e1e1e] border border-[#3e3e42] rounded-lg shadow-2xl w-64"
+        role="dialog"
+        aria-labelledby="history-panel-title"
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between px-3 py-2 border-b border-[#3e3e42]">
+          <div className="flex items-center gap-2">
+            <History className="w-4 h-4 text-[#007acc]" />
+            <h2 id="history-panel-title" className="text-xs font-semibold text-white">
+              History
+            </h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1 hover:bg-[#3e3e42] rounded transition-colors"
+            aria-label="Close"
+          >
+            <X className="w-4 h-4 text-[#888]" />
+          </button>
+        </div>
+
+        {/* Entries */}
+        <ol className="max-h-80 overflow-y-auto custom-scrollbar py-1">
+          {rows.map((row, index) => {
+            const isCurrent = index === position;
+            const isUndone = index > position;
+            return (
+              <li key={index}>
+                <button
+                  onClick={() => onJump(index)}
+                  aria-current={isCurrent ? "step" : undefined}
+                  className={`w-full flex items-center justify-between gap-2 px-3 py-1 text-left text-[11px] transition-colors hover:bg-[#2a2d2e] ${
+                    isCurrent ? "bg-[#094771] text-white" : isUndone ? "text-[#666] italic" : "text-[#ccc]"
+                  }`}
+                >
+                  <span className="truncate">{row.label}</span>
+                  {row.time && <span className="shrink-0 text-[10px] text-[#888]">{row.time}</span>}
+                </button>
+              </li>
+            );
+          })}
+        </ol>
+
+        {entries.length === 0 && (
+          <p className="px-3 pb-2 text-[10px] text-[#888]">Edits to subtitles, styles and the timeline appear here.</p>
+        )}
+      </div>
+    </div>
+  );
+}
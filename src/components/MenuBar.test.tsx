@@ -51,6 +51,17 @@ describe('MenuBar', () => {
     expect(redoItem).not.toBeDisabled();
   });
 
+  test('names the history entry Undo would revert and toggles the history panel', () => {
+    const onToggleHistory = jest.fn();
+    render(<MenuBar {...defaultProps} canUndo={true} undoLabel="Move clip" onToggleHistory={onToggleHistory} />);
+
+    fireEvent.click(screen.getByText('Edit'));
+    expect(screen.getByText('Undo Move clip')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByText('History'));
+    expect(onToggleHistory).toHaveBeenCalled();
+  });
+
   test('shows recent drafts in submenu', () => { // Note: Submenu implementation depends on UI Library
     // If Submenu is just nested Items in DOM:
     const props = {
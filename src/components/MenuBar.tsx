@@ -3,10 +3,10 @@
 import React, { useState, useMemo, useCallback, useRef } from "react";
 import { Menu, MenuItem, MenuItemBase } from "./ui/Menu";
 import { 
-  FileVideo, FolderOpen, Save, Download, X, RefreshCw,
+  FileVideo, FolderOpen, Save, Download, Upload, X, RefreshCw,
   Undo2, Redo2, Scissors, Copy, ClipboardPaste, Search, 
   Merge, Split, Clock, PanelLeft, PanelBottom, 
-  ZoomIn, ZoomOut, Palette, Keyboard, Settings, ExternalLink, Info
+  ZoomIn, ZoomOut, Palette, Keyboard, Settings, ExternalLink, Info, AudioLines, AlignLeft, AlertTriangle, WrapText, History
 } from "lucide-react";
 
 // ============================================================================
@@ -29,6 +29,10 @@ interface MenuBarProps {
   onRedo?: () => void;
   canUndo?: boolean;
   canRedo?: boolean;
+  undoLabel?: string; // Label of the entry Undo/Redo would apply
+  redoLabel?: string;
+  onToggleHistory?: () => void;
+  isHistoryVisible?: boolean;
   onFindReplace?: () => void;
   onShiftTimings?: () => void;
   onToggleTimeline?: () => void;
@@ -38,6 +42,7 @@ interface MenuBarProps {
   onShowShortcuts?: () => void;
   onSaveProject?: () => void;
   onOpenProject?: (e?: React.MouseEvent) => void;
+  onImportSubtitles?: () => void;
   onProjectSettings?: () => void;
   onReprocessVideo?: () => void;
   onGlobalSettings?: () => void;
@@ -55,6 +60,14 @@ interface MenuBarProps {
   onPaste?: () => void;
   onMerge?: () => void;
   onSplit?: () => void;
+  onResegment?: () => void; // Selection, or every line when nothing is selected
+  // Speech timing
+  onSnapToSpeech?: () => void;
+  onRetimeToSpeech?: () => void;
+  onAlignTranscript?: () => void;
+  // Quality check
+  onFixAllQCIssues?: () => void;
+  qcIssueCount?: number;
   hasSelection?: boolean;
   hasClipboard?: boolean;
   canMerge?: boolean;
@@ -102,6 +115,10 @@ export function MenuBar({
   onRedo,
   canUndo = false,
   canRedo = false,
+  undoLabel,
+  redoLabel,
+  onToggleHistory,
+  isHistoryVisible = false,
   onFindReplace,
   onShiftTimings,
   onToggleTimeline,
@@ -111,6 +128,7 @@ export function MenuBar({
   onShowShortcuts,
   onSaveProject,
   onOpenProject,
+  onImportSubtitles,
   onProjectSettings,
   onReprocessVideo,
   onGlobalSettings,
@@ -124,7 +142,9 @@ export function MenuBar({
   isTimelineVisible,
   isSubtitleListVisible,
   isVideoLibraryVisible,
-  onCut, onCopy, onPaste, onMerge, onSplit,
+  onCut, onCopy, onPaste, onMerge, onSplit, onResegment,
+  onSnapToSpeech, onRetimeToSpeech, onAlignTranscript,
+  onFixAllQCIssues, qcIssueCount = 0,
   hasSelection = false, hasClipboard = false, canMerge = false, canSplit = false,
   recentDrafts = [], onLoadDraft, onAbout,
   onToggleSecondaryTracks, isSecondaryTracksVisible
@@ -186,6 +206,8 @@ export function MenuBar({
       },
       { id: "save-project", label: "Save Project", icon: <Save className="w-4 h-4" />, onClick: onSaveProject, shortcut: "Ctrl+S", showOnUploadScreen: false },
       { divider: true },
+      { id: "import-subtitles", label: "Import Subtitles...", icon: <Upload className="w-4 h-4" />, onClick: onImportSubtitles, showOnUploadScreen: false },
+      { divider: true },
       { id: "save-draft", label: "Save Draft", icon: <Save className="w-4 h-4" />, onClick: onSaveDraft, showOnUploadScreen: false },
       { divider: true },
       { id: "export-ass", label: "Export Project (.ass)", icon: <Download className="w-4 h-4" />, onClick: () => onExport?.('ass'), showOnUploadScreen: false },
@@ -216,12 +238,13 @@ export function MenuBar({
     );
 
     return items;
-  }, [onNewProject, onOpenProject, onSaveProject, onSaveDraft, onExport, onReprocessVideo, onCloseProject, hasSecondarySubtitles, primaryLanguage, secondaryLanguage, recentDrafts, onLoadDraft]);
+  }, [onNewProject, onOpenProject, onImportSubtitles, onSaveProject, onSaveDraft, onExport, onReprocessVideo, onCloseProject, hasSecondarySubtitles, primaryLanguage, secondaryLanguage, recentDrafts, onLoadDraft]);
 
   // ========== EDIT MENU ==========
   const editItems = useMemo<MenuItem[]>(() => [
-    { id: "undo", label: "Undo", icon: <Undo2 className="w-4 h-4" />, shortcut: "Ctrl+Z", onClick: onUndo, disabled: !canUndo || isUploadScreen, showOnUploadScreen: false },
-    { id: "redo", label: "Redo", icon: <Redo2 className="w-4 h-4" />, shortcut: "Ctrl+Y", onClick: onRedo, disabled: !canRedo || isUploadScreen, showOnUploadScreen: false },
+    { id: "undo", label: undoLabel ? `Undo ${undoLabel}` : "Undo", icon: <Undo2 className="w-4 h-4" />, shortcut: "Ctrl+Z", onClick: onUndo, disabled: !canUndo || isUploadScreen, showOnUploadScreen: false },
+    { id: "redo", label: redoLabel ? `Redo ${redoLabel}` : "Redo", icon: <Redo2 className="w-4 h-4" />, shortcut: "Ctrl+Y", onClick: onRedo, disabled: !canRedo || isUploadScreen, showOnUploadScreen: false },
+    { id: "history", label: "History", icon: <History className="w-4 h-4" />, onClick: onToggleHistory, disabled: isUploadScreen, checked: isHistoryVisible, showOnUploadScreen: false },
     { divider: true },
     { id: "cut", label: "Cut", icon: <Scissors className="w-4 h-4" />, shortcut: "Ctrl+X", onClick: onCut, disabled: !hasSelection || isUploadScreen, showOnUploadScreen: false },
     { id: "copy", label: "Copy", icon: <Copy className="w-4 h-4" />, shortcut: "Ctrl+C", onClick: onCopy, disabled: !hasSelection || isUploadScreen, showOnUploadScreen: false },
@@ -231,12 +254,17 @@ export function MenuBar({
     { divider: true },
     { id: "merge", label: "Merge Subtitles", icon: <Merge className="w-4 h-4" />, onClick: onMerge, disabled: !canMerge || isUploadScreen, showOnUploadScreen: false },
     { id: "split", label: "Split Subtitle", icon: <Split className="w-4 h-4" />, onClick: onSplit, disabled: !canSplit || isUploadScreen, showOnUploadScreen: false },
-    { id: "shift-timings", label: "Shift All Timings...", icon: <Clock className="w-4 h-4" />, onClick: onShiftTimings, disabled: isUploadScreen, showOnUploadScreen: false },
+    { id: "resegment", label: hasSelection ? "Re-segment Selection" : "Re-segment All Lines", icon: <WrapText className="w-4 h-4" />, onClick: onResegment, disabled: isUploadScreen, showOnUploadScreen: false },
+    { id: "shift-timings", label: "Adjust Timings...", icon: <Clock className="w-4 h-4" />, onClick: onShiftTimings, disabled: isUploadScreen, showOnUploadScreen: false },
+    { id: "snap-to-speech", label: "Snap Selection to Speech", icon: <AudioLines className="w-4 h-4" />, onClick: onSnapToSpeech, disabled: !hasSelection || isUploadScreen, showOnUploadScreen: false },
+    { id: "retime-to-speech", label: "Re-time All to Speech", icon: <AudioLines className="w-4 h-4" />, onClick: onRetimeToSpeech, disabled: isUploadScreen, showOnUploadScreen: false },
+    { id: "align-transcript", label: "Align Transcript...", icon: <AlignLeft className="w-4 h-4" />, onClick: onAlignTranscript, disabled: isUploadScreen, showOnUploadScreen: false },
+    { id: "fix-qc-issues", label: `Fix Quality Issues${qcIssueCount > 0 ? ` (${qcIssueCount})` : ''}`, icon: <AlertTriangle className="w-4 h-4" />, onClick: onFixAllQCIssues, disabled: qcIssueCount === 0 || isUploadScreen, showOnUploadScreen: false },
     { divider: true },
     { id: "project-settings", label: "Project Settings...", icon: <Settings className="w-4 h-4" />, onClick: onProjectSettings, disabled: isUploadScreen, showOnUploadScreen: false },
     { divider: true },
     { id: "global-settings", label: "Global Settings...", icon: <Settings className="w-4 h-4" />, onClick: onGlobalSettings, showOnUploadScreen: true },
-  ], [onUndo, onRedo, canUndo, canRedo, onFindReplace, onShiftTimings, onProjectSettings, onGlobalSettings, isUploadScreen, onCut, onCopy, onPaste, onMerge, onSplit, hasSelection, hasClipboard, canMerge, canSplit]);
+  ], [onUndo, onRedo, canUndo, canRedo, undoLabel, redoLabel, onToggleHistory, isHistoryVisible, onFindReplace, onShiftTimings, onSnapToSpeech, onRetimeToSpeech, onAlignTranscript, onFixAllQCIssues, qcIssueCount, onProjectSettings, onGlobalSettings, isUploadScreen, onCut, onCopy, onPaste, onMerge, onSplit, onResegment, hasSelection, hasClipboard, canMerge, canSplit]);
 
   // ========== VIEW MENU ==========
   const viewItems = useMemo<MenuItem[]>(() => [
@@ -1,12 +1,16 @@
 "use client";
 
-import React, { useState, useEffect } from "react";
-import { Settings, X, RefreshCw, Type, Languages } from "lucide-react";
+import React, { useState, useEffect, useMemo } from "react";
+import { Settings, X, RefreshCw, Type, Languages, BookOpen, AlertTriangle } from "lucide-react";
 import { TrackStyleEditor } from "./TrackStyleEditor";
-import { SubtitleConfig, TrackStyle, DEFAULT_GLOBAL_SETTINGS } from "@/types/subtitle";
+import { GlossaryEditor } from "./GlossaryEditor";
+import { QCSettingsEditor } from "./QCSettingsEditor";
+import { SubtitleConfig, SubtitleLine, TrackStyle, GlossaryEntry, QCSettings, TrackProvenance, DEFAULT_GLOBAL_SETTINGS } from "@/types/subtitle";
+import { normalizeGlossary } from "@/lib/glossary";
 import { REFERENCE_WIDTH, REFERENCE_HEIGHT } from "@/types/constants";
 import { resolveTrackStyle, normalizeToPx, getMarginPreviewStyle } from "@/lib/style-resolver";
 import { getCachedModelResult } from "@/lib/model-cache";
+import { getTrackStyleReplacement } from "@/lib/style-presets";
 
 interface ProjectSettingsDialogProps {
   isOpen: boolean;
@@ -19,13 +23,25 @@ interface ProjectSettingsDialogProps {
   canReset: boolean;
   projectConfig: import("@/types/subtitle").ProjectConfig;
   onUpdateProjectConfig: (config: Partial<import("@/types/subtitle").ProjectConfig>) => void;
+  subtitles?: SubtitleLine[]; // For the font glyph coverage check
 }
 
 const TABS = [
     { id: 'general' as const, label: 'General', icon: <Settings className="w-3.5 h-3.5" /> },
     { id: 'styles' as const, label: 'Style Overrides', icon: <Type className="w-3.5 h-3.5" /> },
+    { id: 'glossary' as const, label: 'Glossary', icon: <BookOpen className="w-3.5 h-3.5" /> },
+    { id: 'quality' as const, label: 'Quality Check', icon: <AlertTriangle className="w-3.5 h-3.5" /> },
 ];
 
+function ProvenanceNote({ label, source }: { label: string; source?: TrackProvenance }) {
+  if (!source) return null;
+  return (
+    <p className="text-[10px] text-[#666]">
+      {label} by <span className="text-[#888888]">{source.modelName}</span> ({source.provider})
+    </p>
+  );
+}
+
 export function ProjectSettingsDialog({
   isOpen,
   onClose,
@@ -35,6 +51,7 @@ export function ProjectSettingsDialog({
   onRetranslate,
   projectConfig,
   onUpdateProjectConfig,
+  subtitles = [],
 }: ProjectSettingsDialogProps) {
   // Config state
   const [primaryLang, setPrimaryLang] = useState(config.primaryLanguage || "English");
@@ -49,8 +66,11 @@ export function ProjectSettingsDialog({
   // Style overrides state
   const [primaryOverride, setPrimaryOverride] = useState<Partial<TrackStyle>>(config.primary || {});
   const [secondaryOverride, setSecondaryOverride] = useState<Partial<TrackStyle>>(config.secondary || {});
+
+  const [glossary, setGlossary] = useState<GlossaryEntry[]>(config.glossary || []);
+  const [qc, setQC] = useState<QCSettings | undefined>(config.qc);
   
-  const [activeTab, setActiveTab] = useState<'general' | 'styles'>('general');
+  const [activeTab, setActiveTab] = useState<'general' | 'styles' | 'glossary' | 'quality'>('general');
   const [stylesSubTab, setStylesSubTab] = useState<'primary' | 'secondary'>('primary');
 
   // Preview Aspect Ratio State
@@ -87,6 +107,8 @@ export function ProjectSettingsDialog({
     if (isOpen) {
         setPrimaryOverride(config.primary || {});
         setSecondaryOverride(config.secondary || {});
+        setGlossary(config.glossary || []);
+        setQC(config.qc);
         setModel(config.geminiModel || DEFAULT_GLOBAL_SETTINGS.defaultGeminiModel);
         setPrimaryLang(config.primaryLanguage || DEFAULT_GLOBAL_SETTINGS.defaultPrimaryLanguage);
         setSecondaryLang(config.secondaryLanguage || DEFAULT_GLOBAL_SETTINGS.defaultSecondaryLanguage);
@@ -102,7 +124,9 @@ export function ProjectSettingsDialog({
            secondaryLanguage: secondaryLang,
            geminiModel: model,
            primary: primaryOverride,
-           secondary: secondaryOverride
+           secondary: secondaryOverride,
+           glossary: normalizeGlossary(glossary),
+           qc
        });
        onUpdateProjectConfig({
            width,
@@ -162,6 +186,12 @@ export function ProjectSettingsDialog({
       }
   };
 
+  // The active track's text, for the font picker's glyph coverage check
+  const trackText = useMemo(
+    () => subtitles.map(sub => (stylesSubTab === 'primary' ? sub.text : sub.secondaryText) || '').join('\n'),
+    [subtitles, stylesSubTab]
+  );
+
   if (!isOpen) return null;
 
   // Resolve current effective style for preview
@@ -235,6 +265,7 @@ export function ProjectSettingsDialog({
                             Reprocess
                         </button>
                         </div>
+                        <ProvenanceNote label="Transcribed" source={config.provenance?.primary} />
                     </div>
 
                     {/* Output Resolution Settings */}
@@ -322,10 +353,27 @@ export function ProjectSettingsDialog({
                             Translate
                         </button>
                         </div>
+                        <ProvenanceNote label="Translated" source={config.provenance?.secondary} />
                     </div>
                </div>
            )}
 
+           {activeTab === 'glossary' && (
+               <div className="max-w-2xl mx-auto">
+                    <GlossaryEditor
+                        entries={glossary}
+                        onChange={setGlossary}
+                        secondaryLanguage={secondaryLang}
+                    />
+               </div>
+           )}
+
+           {activeTab === 'quality' && (
+               <div className="max-w-2xl mx-auto">
+                    <QCSettingsEditor settings={qc} onChange={setQC} />
+               </div>
+           )}
+
            {activeTab === 'styles' && (
                <div className="flex gap-6 h-full">
                     {/* Preview (Resolved) */}
@@ -428,6 +476,8 @@ export function ProjectSettingsDialog({
                             <TrackStyleEditor
                                 style={currentOverride}
                                 onChange={updateStyleOverride}
+                                sampleText={trackText}
+                                onApplyPreset={(preset) => updateStyleOverride(getTrackStyleReplacement(preset[stylesSubTab]))}
                                 onReset={Object.keys(currentOverride).length > 0 ? resetCurrentOverride : undefined}
                             />
                         </div>
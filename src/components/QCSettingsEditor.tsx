@@ -0,0 +1,94 @@
+"use client";
+
+import React from "react";
+import { QCSettings, QCRules, QCProfileId } from "@/types/subtitle";
+import { QC_PROFILES } from "@/lib/subtitle-qc";
+
+interface QCSettingsEditorProps {
+  settings?: QCSettings;
+  onChange: (settings: QCSettings | undefined) => void;
+}
+
+const RULE_FIELDS: { key: keyof QCRules; label: string; step: number }[] = [
+  { key: 'maxCharsPerLine', label: 'Max characters per line', step: 1 },
+  { key: 'maxLines', label: 'Max lines', step: 1 },
+  { key: 'maxCps', label: 'Max characters per second', step: 0.5 },
+  { key: 'minDuration', label: 'Min duration (s)', step: 0.1 },
+  { key: 'maxDuration', label: 'Max duration (s)', step: 0.5 },
+  { key: 'minGapFrames', label: 'Min gap (frames)', step: 1 },
+  { key: 'shotChangeFrames', label: 'Shot change snap (frames, 0 = off)', step: 1 },
+];
+
+const inputClass = "w-full bg-[#1e1e1e] border border-[#3e3e42] rounded px-2 py-1 text-xs focus:border-[#007fd4] outline-none text-[#ccc]";
+
+export function QCSettingsEditor({ settings, onChange }: QCSettingsEditorProps) {
+  const profile = settings ? QC_PROFILES[settings.profile] : null;
+
+  const setOverride = (key: keyof QCRules, raw: string) => {
+    if (!settings) return;
+    const overrides = { ...settings.overrides };
+    const value = parseFloat(raw);
+    if (raw === '' || isNaN(value) || value < 0) {
+      delete overrides[key];
+    } else {
+      overrides[key] = value;
+    }
+    onChange({ ...settings, overrides });
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-[10px] text-[#666]">
+        Lines that break the profile&apos;s readability rules are flagged in the subtitle list and on the timeline.
+        Click a flag to fix the line automatically.
+      </p>
+
+      <div>
+        <label htmlFor="qc-profile" className="block text-[10px] uppercase tracking-wider text-[#888888] mb-1">Profile</label>
+        <select
+          id="qc-profile"
+          value={settings?.profile ?? ''}
+          onChange={(e) => onChange(e.target.value
+            ? { ...settings, profile: e.target.value as QCProfileId, overrides: {} }
+            : undefined)}
+          className={inputClass}
+        >
+          <option value="">Off</option>
+          {(Object.keys(QC_PROFILES) as QCProfileId[]).map(id => (
+            <option key={id} value={id}>{QC_PROFILES[id].label}</option>
+          ))}
+        </select>
+      </div>
+
+      {settings && profile && (
+        <>
+          <div className="grid grid-cols-2 gap-2">
+            {RULE_FIELDS.map(({ key, label, step }) => (
+              <label key={key} className="text-[10px] text-[#888888] space-y-1">
+                <span>{label}</span>
+                <input
+                  type="number"
+                  min={0}
+                  step={step}
+                  value={settings.overrides?.[key] ?? ''}
+                  placeholder={String(Math.round(profile.rules[key] * 100) / 100)}
+                  onChange={(e) => setOverride(key, e.target.value)}
+                  className={inputClass}
+                />
+              </label>
+            ))}
+          </div>
+
+          <label className="flex items-center gap-2 text-xs text-[#ccc]">
+            <input
+              type="checkbox"
+              checked={!!settings.blockExport}
+              onChange={(e) => onChange({ ...settings, blockExport: e.target.checked })}
+            />
+            Block exports while errors remain
+          </label>
+        </>
+      )}
+    </div>
+  );
+}
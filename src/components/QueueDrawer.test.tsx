@@ -0,0 +1,90 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import { QueueDrawer } from './QueueDrawer';
+import { QueueItem, QUEUE_PRIORITY } from '@/types/queue';
+
+const job = (id: string, overrides: Partial<QueueItem> = {}): QueueItem => ({
+  id,
+  file: { name: `${id}.mp4`, size: 1 },
+  status: 'pending',
+  progress: 0,
+  createdAt: 1000,
+  ...overrides,
+});
+
+describe('QueueDrawer', () => {
+  const defaultProps = {
+    isPaused: false,
+    onPauseToggle: jest.fn(),
+    onRemove: jest.fn(),
+    onDownload: jest.fn(),
+    isOpen: false,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    window.matchMedia = jest.fn().mockReturnValue({
+      matches: false,
+      addEventListener: jest.fn(),
+      removeEventListener: jest.fn(),
+    });
+  });
+
+  const names = () => screen.getAllByText(/\.mp4$/).map(el => el.textContent);
+
+  it('lists running jobs first, then waiting jobs in run order', () => {
+    const items = [
+      job('first', { createdAt: 1 }),
+      job('running', { status: 'processing', createdAt: 2 }),
+      job('urgent', { createdAt: 3, priority: QUEUE_PRIORITY.high }),
+    ];
+    render(<QueueDrawer {...defaultProps} items={items} />);
+
+    expect(names()).toEqual(['running.mp4', 'urgent.mp4', 'first.mp4']);
+  });
+
+  it('reorders waiting jobs by drag and drop', () => {
+    const onReorder = jest.fn();
+    const items = [job('a', { createdAt: 1 }), job('b', { createdAt: 2 }), job('c', { createdAt: 3 })];
+    render(<QueueDrawer {...defaultProps} items={items} onReorder={onReorder} />);
+
+    const row = (name: string) => screen.getByText(name).closest('[draggable]')!;
+    fireEvent.dragStart(row('c.mp4'), { dataTransfer: { setData: jest.fn() } });
+    fireEvent.dragOver(row('a.mp4'), { dataTransfer: {} });
+    fireEvent.drop(row('a.mp4'));
+
+    expect(onReorder).toHaveBeenCalledWith('c', 0);
+  });
+
+  it('changes the priority of a waiting job', () => {
+    const onPriorityChange = jest.fn();
+    render(<QueueDrawer {...defaultProps} items={[job('a'), job('b', { status: 'processing' })]} onPriorityChange={onPriorityChange} />);
+
+    // Only the waiting job offers a priority
+    const select = screen.getByLabelText('Priority');
+    fireEvent.change(select, { target: { value: String(QUEUE_PRIORITY.high) } });
+
+    expect(onPriorityChange).toHaveBeenCalledWith('a', QUEUE_PRIORITY.high);
+  });
+
+  it('shows predicted ETAs for waiting and running jobs', () => {
+    const items = [job('running', { status: 'processing', progress: 10 }), job('waiting')];
+    render(<QueueDrawer {...defaultProps} items={items} estimates={{ running: 45000, waiting: 185000 }} totalEtaMs={185000} />);
+
+    expect(screen.getByText('45s left')).toBeInTheDocument();
+    expect(screen.getByText('done in 3m 5s')).toBeInTheDocument();
+    expect(screen.getByText(/3m 5s left/, { selector: 'span span' })).toBeInTheDocument();
+  });
+
+  it('switches the completed list to throughput statistics', () => {
+    const throughput = [{ kind: 'burn' as const, jobs: 4, totalElapsedMs: 120000, mediaSeconds: 300, averageSpeed: 2.5, averageFps: 60, lastCompletedAt: 1 }];
+    render(<QueueDrawer {...defaultProps} items={[]} throughput={throughput} />);
+
+    fireEvent.click(screen.getByTitle('Show throughput statistics'));
+
+    expect(screen.getByText('Burn-in')).toBeInTheDocument();
+    expect(screen.getByText('2.5x')).toBeInTheDocument();
+    expect(screen.getByText('2m 0s')).toBeInTheDocument();
+  });
+});
@@ -1,8 +1,10 @@
 "use client";
 
 import React, { useState, useEffect, useSyncExternalStore } from "react";
-import { QueueItem } from "@/types/queue";
-import { X, Layers, Download, Trash2, Play, Pause, RefreshCw, Eye } from "lucide-react";
+import { QueueItem, QueuePriority, QueueThroughputStats, QueueJobKind, QUEUE_PRIORITY } from "@/types/queue";
+import { compareQueueOrder } from "@/lib/queue-scheduling";
+import { formatEta } from "@/lib/queue-eta";
+import { X, Layers, Download, Trash2, Play, Pause, RefreshCw, Eye, GripVertical, BarChart3 } from "lucide-react";
 
 interface QueueDrawerProps {
   items: QueueItem[];
@@ -10,14 +12,30 @@ interface QueueDrawerProps {
   onPauseToggle: () => void;
   onRemove: (id: string, force?: boolean) => void;
   onRetry?: (id: string) => void;
+  /** Move a pending job to `toIndex` among the pending jobs, in run order. */
+  onReorder?: (id: string, toIndex: number) => void;
+  onPriorityChange?: (id: string, priority: QueuePriority) => void;
   onRefresh?: () => void;
   onDownload: (item: QueueItem) => void;
+  /** Predicted ms until each job finishes, from the server's ETA model. */
+  estimates?: Record<string, number>;
+  /** Predicted ms until the queue drains; null when it can't be predicted. */
+  totalEtaMs?: number | null;
+  /** Past throughput per kind of job, for the stats view. */
+  throughput?: QueueThroughputStats[];
   width?: number;
   onWidthChange?: (width: number) => void;
   isOpen?: boolean;
   onClose?: () => void;
 }
 
+const JOB_KIND_LABELS: Record<QueueJobKind, string> = {
+  burn: 'Burn-in',
+  mux: 'Soft subtitles',
+  'multi-export': 'Multi-video',
+  transcribe: 'Transcribe',
+};
+
 // Custom hook to detect desktop (lg breakpoint = 1024px)
 function subscribeToDesktop(callback: () => void) {
   const mediaQuery = window.matchMedia('(min-width: 1024px)');
@@ -39,8 +57,13 @@ export function QueueDrawer({
   onPauseToggle,
   onRemove,
   onRetry,
+  onReorder,
+  onPriorityChange,
   onRefresh,
   onDownload,
+  estimates,
+  totalEtaMs,
+  throughput = [],
   width = 300,
   onWidthChange,
   isOpen: externalIsOpen,
@@ -49,6 +72,9 @@ export function QueueDrawer({
   const [internalIsOpen, setInternalIsOpen] = useState(false);
   const [isResizing, setIsResizing] = useState(false);
   const [previewItem, setPreviewItem] = useState<QueueItem | null>(null);
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [dragOverIndex, setDragOverIndex] = useState<number | null>(null);
+  const [showStats, setShowStats] = useState(false);
   const isDesktop = useIsDesktop();
 
   // Snapshot of the current time used for ETA calculations. It is refreshed
@@ -79,8 +105,13 @@ export function QueueDrawer({
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [isDesktop]);
 
-  // Separate items: queue (pending/processing/failed) vs completed
-  const queueItems = items.filter(i => i.status !== 'completed');
+  // Separate items: queue (running, then pending in run order, then failed) vs completed
+  const pendingItems = items.filter(i => i.status === 'pending').sort(compareQueueOrder);
+  const queueItems = [
+    ...items.filter(i => i.status === 'processing'),
+    ...pendingItems,
+    ...items.filter(i => i.status === 'failed'),
+  ];
   const completedItems = items.filter(i => i.status === 'completed');
   
   // Badge counts
@@ -120,8 +151,13 @@ export function QueueDrawer({
     };
   }, [isResizing, onWidthChange]);
 
-  // Helper: Calculate ETA
+  // Helper: Calculate ETA (the server's prediction, else the job's own pace)
   const getEta = (item: QueueItem) => {
+    const predicted = estimates?.[item.id];
+    if (predicted !== undefined && (item.status === 'processing' || item.status === 'pending')) {
+      return item.status === 'processing' ? `${formatEta(predicted)} left` : `done in ${formatEta(predicted)}`;
+    }
+
     if (item.status !== 'processing' || !item.startedAt || !item.progress || item.progress < 5) return null;
     
     const elapsed = now - item.startedAt;
@@ -130,11 +166,18 @@ export function QueueDrawer({
     const remainingMs = remainingProgress / rate;
     
     if (!isFinite(remainingMs)) return null;
-    
-    // Format duration
-    const seconds = Math.floor(remainingMs / 1000);
-    if (seconds < 60) return `${seconds}s left`;
-    return `${Math.floor(seconds / 60)}m ${seconds % 60}s left`;
+    return `${formatEta(remainingMs)} left`;
+  };
+
+  const handleDrop = () => {
+    if (draggedId && dragOverIndex !== null && onReorder) {
+      const fromIndex = pendingItems.findIndex(i => i.id === draggedId);
+      // Dropping below itself shifts the target up by one once it's taken out
+      const toIndex = fromIndex !== -1 && fromIndex < dragOverIndex ? dragOverIndex - 1 : dragOverIndex;
+      if (toIndex !== fromIndex) onReorder(draggedId, toIndex);
+    }
+    setDraggedId(null);
+    setDragOverIndex(null);
   };
 
   const renderItem = (item: QueueItem, isCompleted: boolean = false) => {
@@ -143,21 +186,55 @@ export function QueueDrawer({
                       item.status === 'processing' ? 'Processing...' : 
                       item.status === 'failed' ? 'Failed' : 'Completed';
     
+    const isMux = item.metadata?.exportMode === 'mux';
+    const isTranscribe = item.metadata?.type === 'transcribe';
+
     // Override label for progress
     if (item.status === 'processing') {
-       if (item.progress > 0) statusLabel = 'Encoding...';
+       if (item.progress > 0) statusLabel = isTranscribe ? 'Transcribing...' : isMux ? 'Muxing...' : 'Encoding...';
        else statusLabel = 'Starting...';
     }
 
+    // Export jobs show whether subtitles are burned in or embedded as tracks
+    const modeLabel = !item.metadata?.outputPath ? null :
+                      isMux ? `Soft ${(item.metadata.muxContainer || 'mp4').toUpperCase()}` : 'Burn-in';
+
     const eta = getEta(item);
-    const hasResult = isCompleted && item.result?.videoPath;
+    const pendingIndex = item.status === 'pending' ? pendingItems.indexOf(item) : -1;
+    const isDraggable = pendingIndex !== -1 && !!onReorder;
+    // Transcription results land in the draft; there is no file to preview or download
+    const hasResult = isCompleted && !isTranscribe && item.result?.videoPath;
 
     return (
     <div 
       key={item.id} 
-      className="p-2 border-b border-[#333333] text-xs text-[#cccccc] hover:bg-[#2d2d2d] transition-colors"
+      draggable={isDraggable}
+      onDragStart={isDraggable ? (e) => {
+        e.dataTransfer.effectAllowed = 'move';
+        e.dataTransfer.setData('text/plain', item.id);
+        setDraggedId(item.id);
+      } : undefined}
+      onDragOver={draggedId && pendingIndex !== -1 ? (e) => {
+        e.preventDefault();
+        e.dataTransfer.dropEffect = 'move';
+        // Drop above or below this item depending on the pointer's half
+        const rect = e.currentTarget.getBoundingClientRect();
+        const index = e.clientY > rect.top + rect.height / 2 ? pendingIndex + 1 : pendingIndex;
+        if (index !== dragOverIndex) setDragOverIndex(index);
+      } : undefined}
+      onDrop={isDraggable ? handleDrop : undefined}
+      onDragEnd={() => { setDraggedId(null); setDragOverIndex(null); }}
+      className={`p-2 border-b border-[#333333] text-xs text-[#cccccc] hover:bg-[#2d2d2d] transition-colors ${
+        draggedId === item.id ? 'opacity-50' : ''
+      } ${
+        draggedId && dragOverIndex === pendingIndex ? 'shadow-[inset_0_2px_0_#007acc]' :
+        draggedId && dragOverIndex === pendingIndex + 1 && pendingIndex !== -1 ? 'shadow-[inset_0_-2px_0_#007acc]' : ''
+      }`}
     >
       <div className="flex items-center justify-between gap-2">
+        {isDraggable && (
+          <GripVertical className="w-3 h-3 shrink-0 text-[#666666] cursor-grab" aria-label="Drag to reorder" />
+        )}
         <span className="truncate flex-1 min-w-0" title={item.file.name}>
           {item.file.name}
         </span>
@@ -184,6 +261,37 @@ export function QueueDrawer({
           
           {/* Action Buttons */}
           <div className="flex items-center space-x-1">
+            {/* Export mode badge */}
+            {modeLabel && (
+              <span
+                className={`text-[9px] px-1 py-0.5 rounded-sm ${isMux ? 'bg-[#0e639c] text-white' : 'bg-[#3e3e42] text-[#cccccc]'}`}
+                title={isMux ? 'Subtitles embedded as selectable tracks' : 'Subtitles burned into the video'}
+              >
+                {modeLabel}
+              </span>
+            )}
+
+            {isTranscribe && (
+              <span className="text-[9px] px-1 py-0.5 rounded-sm bg-[#3e3e42] text-[#cccccc]" title="Subtitles are added to the draft">
+                Transcribe
+              </span>
+            )}
+
+            {/* Priority of jobs that haven't started */}
+            {item.status === 'pending' && onPriorityChange && (
+              <select
+                value={item.priority ?? QUEUE_PRIORITY.normal}
+                onChange={(e) => onPriorityChange(item.id, Number(e.target.value) as QueuePriority)}
+                className="text-[9px] px-0.5 py-0.5 rounded-sm bg-[#3e3e42] text-[#cccccc] border-none outline-none"
+                title="Priority"
+                aria-label="Priority"
+              >
+                <option value={QUEUE_PRIORITY.high}>High</option>
+                <option value={QUEUE_PRIORITY.normal}>Normal</option>
+                <option value={QUEUE_PRIORITY.low}>Low</option>
+              </select>
+            )}
+
             {/* Retry badge */}
             {item.retryCount && item.retryCount > 0 && (
               <span className="text-[9px] px-1 py-0.5 bg-[#d97706] text-white rounded-sm">
@@ -214,7 +322,7 @@ export function QueueDrawer({
             )}
 
             {/* Download for completed */}
-            {isCompleted && (
+            {isCompleted && !isTranscribe && (
               <button
                 onClick={() => onDownload(item)}
                 className="p-1 rounded-sm bg-[#2d5f2d] hover:bg-[#3e7f3e] text-white transition-colors"
@@ -248,6 +356,35 @@ export function QueueDrawer({
     );
   };
 
+  const renderThroughput = () => throughput.length === 0 ? (
+    <div className="p-4 text-center text-xs text-[#555555]">
+      Statistics appear once jobs finish
+    </div>
+  ) : (
+    <table className="w-full text-[10px] text-[#cccccc]">
+      <thead className="text-[#888888]">
+        <tr className="border-b border-[#333333]">
+          <th className="p-2 text-left font-medium">Job</th>
+          <th className="p-2 text-right font-medium">Runs</th>
+          <th className="p-2 text-right font-medium" title="Media seconds processed per second">Speed</th>
+          <th className="p-2 text-right font-medium">FPS</th>
+          <th className="p-2 text-right font-medium">Time</th>
+        </tr>
+      </thead>
+      <tbody>
+        {throughput.map(stats => (
+          <tr key={stats.kind} className="border-b border-[#333333]">
+            <td className="p-2">{JOB_KIND_LABELS[stats.kind]}</td>
+            <td className="p-2 text-right font-mono">{stats.jobs}</td>
+            <td className="p-2 text-right font-mono">{stats.averageSpeed ? `${stats.averageSpeed.toFixed(1)}x` : '–'}</td>
+            <td className="p-2 text-right font-mono">{stats.averageFps ? Math.round(stats.averageFps) : '–'}</td>
+            <td className="p-2 text-right font-mono">{formatEta(stats.totalElapsedMs)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+
   // Shared panel content component
   const renderPanelContent = (showCloseButton: boolean = false) => (
     <>
@@ -285,6 +422,11 @@ export function QueueDrawer({
         <div className="flex items-center justify-between p-2 border-b border-[#333333] bg-[#252526] shrink-0">
           <span className="text-[10px] font-bold text-[#888888] uppercase tracking-wider">
             Queue ({queueItems.length})
+            {typeof totalEtaMs === 'number' && totalEtaMs > 0 && (
+              <span className="ml-1 font-mono font-normal normal-case text-[#666666]" title="Estimated time until every queued job is done">
+                · {formatEta(totalEtaMs)} left
+              </span>
+            )}
           </span>
           <div className="flex items-center gap-2">
             <button
@@ -313,20 +455,32 @@ export function QueueDrawer({
       <div className="flex-1 flex flex-col min-h-0">
         <div className="flex items-center justify-between p-2 border-b border-[#333333] bg-[#252526] shrink-0">
           <span className="text-[10px] font-bold text-green-500 uppercase tracking-wider">
-            Completed ({completedItems.length})
+            {showStats ? 'Throughput' : `Completed (${completedItems.length})`}
           </span>
-          {completedItems.length > 0 && (
-             <button
-               onClick={() => completedItems.forEach(i => onRemove(i.id))}
-               className="text-[10px] text-[#888888] hover:text-[#cccccc]"
-             >
-               Clear All
-             </button>
-          )}
+          <div className="flex items-center gap-2">
+            {completedItems.length > 0 && !showStats && (
+               <button
+                 onClick={() => completedItems.forEach(i => onRemove(i.id))}
+                 className="text-[10px] text-[#888888] hover:text-[#cccccc]"
+               >
+                 Clear All
+               </button>
+            )}
+            <button
+              onClick={() => setShowStats(!showStats)}
+              className={`p-1 rounded-sm transition-colors ${showStats ? 'bg-[#094771] text-white' : 'text-[#888888] hover:text-[#cccccc]'}`}
+              title={showStats ? 'Show completed jobs' : 'Show throughput statistics'}
+              aria-pressed={showStats}
+            >
+              <BarChart3 className="w-3 h-3" />
+            </button>
+          </div>
         </div>
         
         <div className="flex-1 overflow-y-auto custom-scrollbar bg-[#1a1a1a]">
-          {completedItems.length === 0 ? (
+          {showStats ? (
+            renderThroughput()
+          ) : completedItems.length === 0 ? (
             <div className="p-4 text-center text-xs text-[#555555]">
               No completed jobs
             </div>
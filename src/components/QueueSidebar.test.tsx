@@ -46,6 +46,13 @@ describe('QueueSidebar', () => {
     expect(screen.getByText('Queue (2)')).toBeInTheDocument();
   });
 
+  it('shows per-job and total ETAs', () => {
+    render(<QueueSidebar items={mockItems} onEdit={mockOnEdit} onRemove={mockOnRemove} estimates={{ '1': 185000 }} totalEtaMs={185000} />);
+
+    expect(screen.getByText('~3m 5s')).toBeInTheDocument();
+    expect(screen.getByText(/1 pending · 3m 5s left/)).toBeInTheDocument();
+  });
+
   it('handleCloseout deletes job data and removes item on success', async () => {
     // Mock confirm to return true
     (window.confirm as jest.Mock).mockReturnValue(true);
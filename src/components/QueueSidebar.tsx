@@ -2,15 +2,20 @@
 
 import React from "react";
 import { QueueItem } from "@/types/queue";
+import { formatEta } from "@/lib/queue-eta";
 import { Pencil, Trash2, Loader2, CheckCircle, XCircle, Clock, Download, AlertTriangle } from "lucide-react";
 
 interface QueueSidebarProps {
   items: QueueItem[];
   onEdit: (item: QueueItem) => void;
   onRemove: (id: string) => void;
+  /** Predicted ms until each job finishes. */
+  estimates?: Record<string, number>;
+  /** Predicted ms until the queue drains; null when it can't be predicted. */
+  totalEtaMs?: number | null;
 }
 
-export function QueueSidebar({ items, onEdit, onRemove }: QueueSidebarProps) {
+export function QueueSidebar({ items, onEdit, onRemove, estimates, totalEtaMs }: QueueSidebarProps) {
   const formatFileSize = (bytes: number) => {
     if (bytes === 0) return '0 B';
     const k = 1024;
@@ -33,6 +38,13 @@ export function QueueSidebar({ items, onEdit, onRemove }: QueueSidebarProps) {
             </div>
           );
         }
+        if (failureReason === 'user_cancelled') {
+          return (
+            <div title="Cancelled by user">
+              <XCircle className="w-4 h-4 text-[#888888]" />
+            </div>
+          );
+        }
         return <XCircle className="w-4 h-4 text-red-500" />;
       case 'pending':
         return <Clock className="w-4 h-4 text-[#888888]" />;
@@ -97,6 +109,7 @@ export function QueueSidebar({ items, onEdit, onRemove }: QueueSidebarProps) {
         {pendingCount > 0 && (
           <span className="text-[10px] text-[#007acc] font-mono">
             {pendingCount} pending
+            {typeof totalEtaMs === 'number' && totalEtaMs > 0 && ` · ${formatEta(totalEtaMs)} left`}
           </span>
         )}
       </div>
@@ -177,7 +190,14 @@ export function QueueSidebar({ items, onEdit, onRemove }: QueueSidebarProps) {
                   {/* Status and progress */}
                   <div className="space-y-1">
                     <div className="flex items-center justify-between text-[10px]">
-                      <span className="text-[#888888]">{getStatusText(item.status)}</span>
+                      <span className="text-[#888888]">
+                        {getStatusText(item.status)}
+                        {estimates?.[item.id] !== undefined && (
+                          <span className="ml-2 font-mono text-[#666666]" title="Estimated time until this job finishes">
+                            ~{formatEta(estimates[item.id])}
+                          </span>
+                        )}
+                      </span>
                       {isProcessing && (
                         <span className="font-mono text-[#007acc]">
                           {item.progress}%
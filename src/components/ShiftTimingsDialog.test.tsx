@@ -1,14 +1,23 @@
 import React from 'react';
 import { render, screen, fireEvent } from '@testing-library/react';
 import { ShiftTimingsDialog } from './ShiftTimingsDialog';
+import { SubtitleLine } from '@/types/subtitle';
 import '@testing-library/jest-dom';
 
 describe('ShiftTimingsDialog', () => {
+  const subtitles: SubtitleLine[] = Array.from({ length: 10 }, (_, i) => ({
+    id: `s${i}`,
+    startTime: i * 10,
+    endTime: i * 10 + 2,
+    text: `Line ${i}`,
+    clipId: i < 5 ? 'c1' : 'c2',
+  }));
+
   const defaultProps = {
     isOpen: true,
     onClose: jest.fn(),
-    onShift: jest.fn(),
-    subtitleCount: 10,
+    onApply: jest.fn(),
+    subtitles,
   };
 
   beforeEach(() => {
@@ -22,7 +31,7 @@ describe('ShiftTimingsDialog', () => {
 
   test('renders dialog content when open', () => {
     render(<ShiftTimingsDialog {...defaultProps} />);
-    expect(screen.getByText('Shift All Timings')).toBeInTheDocument();
+    expect(screen.getByText('Adjust Timings')).toBeInTheDocument();
     expect(screen.getByText(/Shift all 10 subtitle\(s\)/)).toBeInTheDocument();
   });
 
@@ -57,7 +66,7 @@ describe('ShiftTimingsDialog', () => {
     expect(screen.getByText('All subtitles will be shifted 1.5s earlier.')).toBeInTheDocument();
   });
 
-  test('calls onShift with positive ms for forward shift', () => {
+  test('applies a positive offset for forward shift', () => {
     render(<ShiftTimingsDialog {...defaultProps} />);
 
     const input = screen.getByLabelText(/Offset \(seconds\)/);
@@ -66,11 +75,11 @@ describe('ShiftTimingsDialog', () => {
     const applyBtn = screen.getByText('Apply Shift');
     fireEvent.click(applyBtn);
 
-    expect(defaultProps.onShift).toHaveBeenCalledWith(2000);
+    expect(defaultProps.onApply).toHaveBeenCalledWith({ scale: 1, offset: 2 }, { type: 'all' });
     expect(defaultProps.onClose).toHaveBeenCalled();
   });
 
-  test('calls onShift with negative ms for backward shift', () => {
+  test('applies a negative offset for backward shift', () => {
     render(<ShiftTimingsDialog {...defaultProps} />);
 
     const input = screen.getByLabelText(/Offset \(seconds\)/);
@@ -82,7 +91,7 @@ describe('ShiftTimingsDialog', () => {
     const applyBtn = screen.getByText('Apply Shift');
     fireEvent.click(applyBtn);
 
-    expect(defaultProps.onShift).toHaveBeenCalledWith(-1500);
+    expect(defaultProps.onApply).toHaveBeenCalledWith({ scale: 1, offset: -1.5 }, { type: 'all' });
     expect(defaultProps.onClose).toHaveBeenCalled();
   });
 
@@ -137,7 +146,55 @@ describe('ShiftTimingsDialog', () => {
     fireEvent.change(input, { target: { value: '0' } });
     const applyBtn = screen.getByText('Apply Shift');
     fireEvent.click(applyBtn);
-    expect(defaultProps.onShift).not.toHaveBeenCalled();
+    expect(defaultProps.onApply).not.toHaveBeenCalled();
     expect(defaultProps.onClose).toHaveBeenCalled();
   });
+
+  test('converts framerates with a preset', () => {
+    render(<ShiftTimingsDialog {...defaultProps} />);
+    fireEvent.click(screen.getByRole('tab', { name: 'Framerate' }));
+    fireEvent.change(screen.getByLabelText(/Conversion/), { target: { value: '0' } });
+    fireEvent.click(screen.getByText('Convert'));
+
+    const [transform] = defaultProps.onApply.mock.calls[0];
+    expect(transform.scale).toBeCloseTo(25 * 1001 / 24000, 9);
+    expect(transform.offset).toBe(0);
+  });
+
+  test('stretches between two corrected lines', () => {
+    render(<ShiftTimingsDialog {...defaultProps} />);
+    fireEvent.click(screen.getByRole('tab', { name: 'Two-Point Sync' }));
+
+    // Defaults to the first and last line (0 s and 90 s)
+    fireEvent.change(screen.getByLabelText('Correct start', { selector: '#sync-time-0' }), { target: { value: '1' } });
+    fireEvent.change(screen.getByLabelText('Correct start', { selector: '#sync-time-1' }), { target: { value: '00:01:37,000' } });
+    fireEvent.click(screen.getByText('Apply Sync'));
+
+    const [transform] = defaultProps.onApply.mock.calls[0];
+    expect(transform.scale).toBeCloseTo(96 / 90);
+    expect(transform.offset).toBeCloseTo(1);
+  });
+
+  test('rejects unreadable sync times', () => {
+    render(<ShiftTimingsDialog {...defaultProps} />);
+    fireEvent.click(screen.getByRole('tab', { name: 'Two-Point Sync' }));
+    fireEvent.change(screen.getByLabelText('Correct start', { selector: '#sync-time-0' }), { target: { value: 'soon' } });
+
+    expect(screen.getByRole('alert')).toHaveTextContent('HH:MM:SS,mmm');
+    expect(screen.getByText('Apply Sync')).toBeDisabled();
+  });
+
+  test('scopes to the selection or a clip', () => {
+    const { rerender } = render(<ShiftTimingsDialog {...defaultProps} isOpen={false} selectedIds={['s1', 's2']} clips={[{ id: 'c2', label: 'Clip 2' }]} />);
+    rerender(<ShiftTimingsDialog {...defaultProps} selectedIds={['s1', 's2']} clips={[{ id: 'c2', label: 'Clip 2' }]} />);
+
+    // Opens on the selection
+    expect(screen.getByText(/Shift 2 subtitle\(s\)/)).toBeInTheDocument();
+
+    fireEvent.change(screen.getByLabelText('Apply to'), { target: { value: 'c2' } });
+    fireEvent.change(screen.getByLabelText(/Offset \(seconds\)/), { target: { value: '1' } });
+    fireEvent.click(screen.getByText('Apply Shift'));
+
+    expect(defaultProps.onApply).toHaveBeenCalledWith({ scale: 1, offset: 1 }, { type: 'clip', clipId: 'c2' });
+  });
 });
@@ -2,17 +2,59 @@
 
 import React, { useState, useEffect, useRef } from "react";
 import { X, Clock } from "lucide-react";
+import { SubtitleLine } from "@/types/subtitle";
+import { formatTimestamp, parseTimestamp } from "@/lib/time-utils";
+import {
+  TimingTransform,
+  TimingScope,
+  FPS_PRESETS,
+  offsetTransform,
+  fpsTransform,
+  twoPointTransform,
+  getScopedIds,
+} from "@/lib/timing-sync";
 
 interface ShiftTimingsDialogProps {
   isOpen: boolean;
   onClose: () => void;
-  onShift: (offsetMs: number) => void;
-  subtitleCount: number;
+  onApply: (transform: TimingTransform, scope: TimingScope) => void;
+  subtitles: SubtitleLine[];
+  selectedIds?: string[];
+  /** Timeline clips that can be adjusted on their own (multi-clip projects) */
+  clips?: { id: string; label: string }[];
 }
 
-export function ShiftTimingsDialog({ isOpen, onClose, onShift, subtitleCount }: ShiftTimingsDialogProps) {
+type Mode = "offset" | "fps" | "sync";
+
+const MODES: { id: Mode; label: string }[] = [
+  { id: "offset", label: "Offset" },
+  { id: "fps", label: "Framerate" },
+  { id: "sync", label: "Two-Point Sync" },
+];
+
+const inputClass = "w-full px-3 py-2 bg-[#2a2a2a] border border-[#3e3e42] rounded text-sm text-white focus:border-[#007acc] focus:outline-none";
+
+/** Seconds ("83.5") or a timestamp ("00:01:23,500"); NaN when unreadable. */
+function parseTimeInput(value: string): number {
+  const trimmed = value.trim();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) return parseFloat(trimmed);
+  if (/^(\d+:)?\d{1,2}:\d{1,2}[,.]\d{3}$/.test(trimmed)) return parseTimestamp(trimmed);
+  return NaN;
+}
+
+function lineLabel(line: SubtitleLine, index: number): string {
+  const text = line.text.replace(/\s+/g, " ");
+  return `#${index + 1} ${formatTimestamp(line.startTime)} ${text.length > 30 ? `${text.slice(0, 30)}…` : text}`;
+}
+
+export function ShiftTimingsDialog({ isOpen, onClose, onApply, subtitles, selectedIds = [], clips = [] }: ShiftTimingsDialogProps) {
+  const [mode, setMode] = useState<Mode>("offset");
+  const [scopeKey, setScopeKey] = useState("all");
   const [offsetSeconds, setOffsetSeconds] = useState<string>("0");
   const [direction, setDirection] = useState<"forward" | "backward">("forward");
+  const [presetIndex, setPresetIndex] = useState(0);
+  const [syncIds, setSyncIds] = useState<[string, string]>(["", ""]);
+  const [syncTimes, setSyncTimes] = useState<[string, string]>(["", ""]);
   const inputRef = useRef<HTMLInputElement>(null);
   const dialogRef = useRef<HTMLDivElement>(null);
 
@@ -22,8 +64,12 @@ export function ShiftTimingsDialog({ isOpen, onClose, onShift, subtitleCount }:
   if (isOpen !== wasOpen) {
     setWasOpen(isOpen);
     if (isOpen) {
+      setMode("offset");
+      setScopeKey(selectedIds.length > 0 ? "selection" : "all");
       setOffsetSeconds("0");
       setDirection("forward");
+      setSyncIds(["", ""]);
+      setSyncTimes(["", ""]);
     }
   }
 
@@ -58,28 +104,80 @@ export function ShiftTimingsDialog({ isOpen, onClose, onShift, subtitleCount }:
     return () => document.removeEventListener("mousedown", handleClickOutside);
   }, [isOpen, onClose]);
 
+  if (!isOpen) return null;
+
+  const scope: TimingScope = scopeKey === "all" || scopeKey === "selection"
+    ? { type: scopeKey }
+    : { type: "clip", clipId: scopeKey };
+  const scopedIds = getScopedIds(subtitles, scope, selectedIds);
+  const scopedLines = scopedIds
+    ? subtitles.filter(line => scopedIds.includes(line.id))
+    : subtitles;
+  const syncLines = [...scopedLines].sort((a, b) => a.startTime - b.startTime);
+  const scopeDescription = scope.type === "all"
+    ? `all ${subtitles.length} subtitle(s)`
+    : `${scopedLines.length} subtitle(s)`;
+
+  // Sync points default to the first and last line in scope
+  const syncLine = (index: 0 | 1) =>
+    syncLines.find(line => line.id === syncIds[index]) ?? syncLines[index === 0 ? 0 : syncLines.length - 1];
+  const syncPoint = (index: 0 | 1) => {
+    const line = syncLine(index);
+    if (!line) return null;
+    const to = syncTimes[index].trim() === "" ? line.startTime : parseTimeInput(syncTimes[index]);
+    return { from: line.startTime, to };
+  };
+
+  const parsedValue = parseFloat(offsetSeconds);
+
+  let transform: TimingTransform | null = null;
+  let error: string | null = null;
+  if (mode === "offset") {
+    if (!isNaN(parsedValue) && parsedValue >= 0) {
+      transform = offsetTransform((direction === "forward" ? 1 : -1) * parsedValue);
+    }
+  } else if (mode === "fps") {
+    const preset = FPS_PRESETS[presetIndex];
+    transform = fpsTransform(preset.from, preset.to);
+  } else {
+    const a = syncPoint(0);
+    const b = syncPoint(1);
+    if (!a || !b) {
+      error = "Two-point sync needs at least two lines in scope.";
+    } else if (isNaN(a.to) || isNaN(b.to)) {
+      error = "Enter times as seconds or HH:MM:SS,mmm.";
+    } else {
+      try {
+        transform = twoPointTransform(a, b);
+      } catch (err) {
+        error = err instanceof Error ? err.message : String(err);
+      }
+    }
+  }
+
+  const canApply = transform !== null && scopedLines.length > 0;
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    const seconds = parseFloat(offsetSeconds);
-    if (isNaN(seconds) || seconds === 0) {
+    if (!transform || (transform.scale === 1 && transform.offset === 0)) {
       onClose();
       return;
     }
-    const offsetMs = (direction === "forward" ? 1 : -1) * seconds * 1000;
-    onShift(offsetMs);
+    onApply(transform, scope);
     onClose();
   };
 
-  if (!isOpen) return null;
-
-  const parsedValue = parseFloat(offsetSeconds);
-  const isValid = !isNaN(parsedValue) && parsedValue >= 0;
+  const tabClass = (active: boolean) => `flex-1 py-2 text-xs rounded border ${
+    active
+      ? "bg-[#007acc] border-[#007acc] text-white"
+      : "border-[#3e3e42] text-[#888] hover:border-[#555]"
+  }`;
 
   return (
     <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50">
       <div
         ref={dialogRef}
-        className="bg-[#1e1e1e] border border-[#3e3e42] rounded-lg shadow-2xl w-96"
+        className="bg-[#1e1e1e] border border-[#3e3e42] rounded-lg shadow-2xl w-[28rem]"
         role="dialog"
         aria-labelledby="shift-title"
         aria-modal="true"
@@ -89,7 +187,7 @@ export function ShiftTimingsDialog({ isOpen, onClose, onShift, subtitleCount }:
           <div className="flex items-center gap-2">
             <Clock className="w-4 h-4 text-[#007acc]" />
             <h2 id="shift-title" className="text-sm font-semibold text-white">
-              Shift All Timings
+              Adjust Timings
             </h2>
           </div>
           <button
@@ -103,62 +201,175 @@ export function ShiftTimingsDialog({ isOpen, onClose, onShift, subtitleCount }:
 
         {/* Content */}
         <form onSubmit={handleSubmit} className="p-4 space-y-4">
-          <p className="text-xs text-[#888]">
-            Shift all {subtitleCount} subtitle(s) by a fixed offset.
-          </p>
-
-          <div className="space-y-3">
-            {/* Direction */}
-            <div className="flex gap-2">
-              <button
-                type="button"
-                onClick={() => setDirection("forward")}
-                className={`flex-1 py-2 text-xs rounded border ${
-                  direction === "forward"
-                    ? "bg-[#007acc] border-[#007acc] text-white"
-                    : "border-[#3e3e42] text-[#888] hover:border-[#555]"
-                }`}
-              >
-                ▶ Forward (Later)
-              </button>
+          {/* Mode */}
+          <div className="flex gap-2" role="tablist">
+            {MODES.map(({ id, label }) => (
               <button
+                key={id}
                 type="button"
-                onClick={() => setDirection("backward")}
-                className={`flex-1 py-2 text-xs rounded border ${
-                  direction === "backward"
-                    ? "bg-[#007acc] border-[#007acc] text-white"
-                    : "border-[#3e3e42] text-[#888] hover:border-[#555]"
-                }`}
+                role="tab"
+                aria-selected={mode === id}
+                onClick={() => setMode(id)}
+                className={tabClass(mode === id)}
               >
-                ◀ Backward (Earlier)
+                {label}
               </button>
+            ))}
+          </div>
+
+          {/* Scope */}
+          <div>
+            <label htmlFor="timing-scope" className="block text-xs text-[#888] mb-1">
+              Apply to
+            </label>
+            <select
+              id="timing-scope"
+              value={scopeKey}
+              onChange={(e) => setScopeKey(e.target.value)}
+              className={inputClass}
+            >
+              <option value="all">All subtitles ({subtitles.length})</option>
+              <option value="selection" disabled={selectedIds.length === 0}>Selection ({selectedIds.length})</option>
+              {clips.map(clip => (
+                <option key={clip.id} value={clip.id}>{clip.label}</option>
+              ))}
+            </select>
+          </div>
+
+          {mode === "offset" && (
+            <div className="space-y-3">
+              <p className="text-xs text-[#888]">
+                Shift {scopeDescription} by a fixed offset.
+              </p>
+
+              {/* Direction */}
+              <div className="flex gap-2">
+                <button
+                  type="button"
+                  onClick={() => setDirection("forward")}
+                  className={tabClass(direction === "forward")}
+                >
+                  ▶ Forward (Later)
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setDirection("backward")}
+                  className={tabClass(direction === "backward")}
+                >
+                  ◀ Backward (Earlier)
+                </button>
+              </div>
+
+              {/* Offset Input */}
+              <div>
+                <label htmlFor="offset" className="block text-xs text-[#888] mb-1">
+                  Offset (seconds)
+                </label>
+                <input
+                  ref={inputRef}
+                  id="offset"
+                  type="number"
+                  step="0.1"
+                  min="0"
+                  value={offsetSeconds}
+                  onChange={(e) => setOffsetSeconds(e.target.value)}
+                  className={inputClass}
+                  placeholder="e.g., 1.5"
+                />
+              </div>
+
+              {/* Preview */}
+              {transform && parsedValue > 0 && (
+                <p className="text-xs text-[#007acc]">
+                  {scope.type === "all" ? "All subtitles" : scopeDescription} will be shifted {parsedValue}s {direction === "forward" ? "later" : "earlier"}.
+                </p>
+              )}
             </div>
+          )}
 
-            {/* Offset Input */}
-            <div>
-              <label htmlFor="offset" className="block text-xs text-[#888] mb-1">
-                Offset (seconds)
-              </label>
-              <input
-                ref={inputRef}
-                id="offset"
-                type="number"
-                step="0.1"
-                min="0"
-                value={offsetSeconds}
-                onChange={(e) => setOffsetSeconds(e.target.value)}
-                className="w-full px-3 py-2 bg-[#2a2a2a] border border-[#3e3e42] rounded text-sm text-white focus:border-[#007acc] focus:outline-none"
-                placeholder="e.g., 1.5"
-              />
+          {mode === "fps" && (
+            <div className="space-y-3">
+              <p className="text-xs text-[#888]">
+                Fix drift in {scopeDescription} timed against a master at a different framerate.
+              </p>
+              <div>
+                <label htmlFor="fps-preset" className="block text-xs text-[#888] mb-1">
+                  Conversion (subtitle fps → video fps)
+                </label>
+                <select
+                  id="fps-preset"
+                  value={presetIndex}
+                  onChange={(e) => setPresetIndex(parseInt(e.target.value))}
+                  className={inputClass}
+                >
+                  {FPS_PRESETS.map((preset, index) => (
+                    <option key={preset.label} value={index}>{preset.label}</option>
+                  ))}
+                </select>
+              </div>
+              {transform && (
+                <p className="text-xs text-[#007acc]">
+                  Timings will be stretched by {((transform.scale - 1) * 100).toFixed(3)}%.
+                </p>
+              )}
             </div>
+          )}
 
-            {/* Preview */}
-            {isValid && parsedValue > 0 && (
-              <p className="text-xs text-[#007acc]">
-                All subtitles will be shifted {parsedValue}s {direction === "forward" ? "later" : "earlier"}.
+          {mode === "sync" && (
+            <div className="space-y-3">
+              <p className="text-xs text-[#888]">
+                Set the correct start time of two lines; {scopeDescription} are stretched linearly between them.
               </p>
-            )}
-          </div>
+              {([0, 1] as const).map(index => {
+                const line = syncLine(index);
+                return (
+                  <div key={index} className="grid grid-cols-[1fr_8rem] gap-2">
+                    <div>
+                      <label htmlFor={`sync-line-${index}`} className="block text-xs text-[#888] mb-1">
+                        {index === 0 ? "First line" : "Second line"}
+                      </label>
+                      <select
+                        id={`sync-line-${index}`}
+                        value={line?.id ?? ""}
+                        onChange={(e) => {
+                          setSyncIds(ids => (index === 0 ? [e.target.value, ids[1]] : [ids[0], e.target.value]));
+                          setSyncTimes(times => (index === 0 ? ["", times[1]] : [times[0], ""]));
+                        }}
+                        className={inputClass}
+                      >
+                        {syncLines.map((option, optionIndex) => (
+                          <option key={option.id} value={option.id}>{lineLabel(option, optionIndex)}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div>
+                      <label htmlFor={`sync-time-${index}`} className="block text-xs text-[#888] mb-1">
+                        Correct start
+                      </label>
+                      <input
+                        id={`sync-time-${index}`}
+                        type="text"
+                        value={syncTimes[index]}
+                        placeholder={line ? formatTimestamp(line.startTime) : ""}
+                        onChange={(e) => {
+                          const value = e.target.value;
+                          setSyncTimes(times => (index === 0 ? [value, times[1]] : [times[0], value]));
+                        }}
+                        className={inputClass}
+                      />
+                    </div>
+                  </div>
+                );
+              })}
+              {error ? (
+                <p role="alert" className="text-xs text-red-400">{error}</p>
+              ) : transform && (
+                <p className="text-xs text-[#007acc]">
+                  Stretch {(transform.scale * 100).toFixed(3)}%, then shift {transform.offset >= 0 ? "+" : ""}{transform.offset.toFixed(3)}s.
+                </p>
+              )}
+            </div>
+          )}
 
           {/* Actions */}
           <div className="flex justify-end gap-2 pt-2">
@@ -171,10 +382,10 @@ export function ShiftTimingsDialog({ isOpen, onClose, onShift, subtitleCount }:
             </button>
             <button
               type="submit"
-              disabled={!isValid}
+              disabled={!canApply}
               className="px-4 py-1.5 text-xs bg-[#007acc] rounded text-white hover:bg-[#005fa3] disabled:opacity-50 disabled:cursor-not-allowed"
             >
-              Apply Shift
+              {mode === "offset" ? "Apply Shift" : mode === "fps" ? "Convert" : "Apply Sync"}
             </button>
           </div>
         </form>
@@ -0,0 +1,122 @@
+import React from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { StylePresetsPanel } from './StylePresetsPanel';
+import { DEFAULT_GLOBAL_SETTINGS, StylePreset } from '@/types/subtitle';
+import '@testing-library/jest-dom';
+
+global.fetch = jest.fn();
+
+const jsonResponse = (body: unknown, ok = true) => ({ ok, status: ok ? 200 : 409, json: async () => body });
+
+const preset: StylePreset = {
+  id: 'p1',
+  name: 'Netflix bottom',
+  primary: { alignment: 2, color: '#ffffff' },
+  secondary: { alignment: 8 },
+  createdAt: 1,
+  updatedAt: 1,
+};
+
+const findCall = (url: string, method?: string) => (global.fetch as jest.Mock).mock.calls
+  .find(([calledUrl, init]) => calledUrl === url && (!method || init?.method === method));
+
+describe('StylePresetsPanel', () => {
+  const defaultProps = {
+    current: { primary: { color: '#ff0000' }, secondary: {} },
+    onApplyToProject: jest.fn(),
+    onApplyToSelection: jest.fn(),
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (global.fetch as jest.Mock).mockResolvedValue(jsonResponse({ presets: [preset] }));
+  });
+
+  test('lists presets with a thumbnail and applies them', async () => {
+    render(<StylePresetsPanel {...defaultProps} selectionCount={3} />);
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Apply Netflix bottom to project' }));
+    expect(defaultProps.onApplyToProject).toHaveBeenCalledWith(preset);
+
+    const selection = screen.getByRole('button', { name: 'Apply Netflix bottom to selection' });
+    expect(selection).toHaveTextContent('Selection (3)');
+    fireEvent.click(selection);
+    expect(defaultProps.onApplyToSelection).toHaveBeenCalledWith(preset);
+
+    expect(screen.getAllByTestId('style-preset-thumbnail')).toHaveLength(1);
+    expect(screen.getByText('Primary')).toHaveStyle({ color: '#ffffff' });
+  });
+
+  test('disables apply-to-selection without a selection', async () => {
+    render(<StylePresetsPanel {...defaultProps} />);
+    expect(await screen.findByRole('button', { name: 'Apply Netflix bottom to selection' })).toBeDisabled();
+  });
+
+  test('saves the current styles, resolved over the defaults', async () => {
+    const created = { ...preset, id: 'p2', name: 'Mine' };
+    render(<StylePresetsPanel {...defaultProps} />);
+    await screen.findByText('Netflix bottom');
+
+    (global.fetch as jest.Mock).mockResolvedValueOnce(jsonResponse(created));
+    fireEvent.change(screen.getByLabelText('New preset name'), { target: { value: ' Mine ' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Save' }));
+
+    expect(await screen.findByText('Saved "Mine"')).toBeInTheDocument();
+    expect(screen.getByText('Mine')).toBeInTheDocument();
+    const body = JSON.parse(findCall('/api/presets', 'POST')![1].body);
+    expect(body).toEqual({
+      name: 'Mine',
+      primary: { ...DEFAULT_GLOBAL_SETTINGS.defaultPrimaryStyle, color: '#ff0000' },
+      secondary: DEFAULT_GLOBAL_SETTINGS.defaultSecondaryStyle,
+    });
+  });
+
+  test('shows server errors, such as a taken name', async () => {
+    render(<StylePresetsPanel {...defaultProps} />);
+    await screen.findByText('Netflix bottom');
+
+    (global.fetch as jest.Mock).mockResolvedValueOnce(jsonResponse({ error: 'A preset named "Netflix bottom" already exists' }, false));
+    fireEvent.change(screen.getByLabelText('New preset name'), { target: { value: 'Netflix bottom' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Save' }));
+
+    expect(await screen.findByText('A preset named "Netflix bottom" already exists')).toBeInTheDocument();
+  });
+
+  test('imports a presets file and offers the export download', async () => {
+    render(<StylePresetsPanel {...defaultProps} />);
+    await screen.findByText('Netflix bottom');
+    expect(screen.getByRole('link', { name: /Export/ })).toHaveAttribute('href', '/api/presets/export');
+
+    const fileData = { version: 1, presets: [{ name: 'Imported', primary: {}, secondary: {} }] };
+    const imported = { ...preset, id: 'p3', name: 'Imported' };
+    (global.fetch as jest.Mock).mockResolvedValueOnce(jsonResponse({ imported: 1, presets: [imported, preset] }));
+    const file = new File([JSON.stringify(fileData)], 'presets.json', { type: 'application/json' });
+    fireEvent.change(screen.getByTestId('preset-import-input'), { target: { files: [file] } });
+
+    expect(await screen.findByText('Imported 1 preset(s)')).toBeInTheDocument();
+    expect(screen.getByText('Imported')).toBeInTheDocument();
+    expect(JSON.parse(findCall('/api/presets/import')![1].body)).toEqual(fileData);
+  });
+
+  test('rejects an import that is not JSON without calling the server', async () => {
+    render(<StylePresetsPanel {...defaultProps} />);
+    await screen.findByText('Netflix bottom');
+
+    fireEvent.change(screen.getByTestId('preset-import-input'), { target: { files: [new File(['nope'], 'presets.json')] } });
+
+    expect(await screen.findByText('Style preset file is not valid JSON')).toBeInTheDocument();
+    expect(findCall('/api/presets/import')).toBeUndefined();
+  });
+
+  test('deletes a preset after confirmation', async () => {
+    const confirmSpy = jest.spyOn(window, 'confirm').mockReturnValue(true);
+    render(<StylePresetsPanel {...defaultProps} />);
+
+    (global.fetch as jest.Mock).mockResolvedValueOnce(jsonResponse({ success: true }));
+    fireEvent.click(await screen.findByRole('button', { name: 'Delete Netflix bottom' }));
+
+    await waitFor(() => expect(screen.queryByText('Netflix bottom')).not.toBeInTheDocument());
+    expect(findCall('/api/presets?id=p1')![1]).toEqual({ method: 'DELETE' });
+    confirmSpy.mockRestore();
+  });
+});
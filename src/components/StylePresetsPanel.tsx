@@ -0,0 +1,207 @@
+"use client";
+
+import React, { useRef, useState } from "react";
+import { Bookmark, Download, Upload, Trash2 } from "lucide-react";
+import { StylePreset, TrackStyle, DEFAULT_GLOBAL_SETTINGS } from "@/types/subtitle";
+import { getPreviewStyle, getMarginPreviewStyle, getTrackStyles, StyleDefaults, TrackStyleLayer } from "@/lib/style-resolver";
+import { STYLE_PRESET_EXPORT_FILENAME } from "@/lib/style-presets";
+import { useStylePresets } from "@/hooks/useStylePresets";
+
+interface StylePresetsPanelProps {
+  /** The project's track styles, saved (resolved) by "Save" */
+  current: TrackStyleLayer;
+  onApplyToProject: (preset: StylePreset) => void;
+  onApplyToSelection?: (preset: StylePreset) => void;
+  selectionCount?: number;
+  /** What presets are resolved against for thumbnails and saving */
+  defaults?: StyleDefaults;
+}
+
+const THUMBNAIL_WIDTH = 96;
+const THUMBNAIL_HEIGHT = 54;
+
+// Track style margins are % of the video; getMarginPreviewStyle reads numbers as 1080p pixels
+const toPercent = (value: number | string) => typeof value === 'number' ? `${value}%` : value;
+
+function ThumbnailTrack({ style, label }: { style: TrackStyle; label: string }) {
+  return (
+    <div
+      className="absolute inset-0"
+      style={getMarginPreviewStyle(toPercent(style.marginV), toPercent(style.marginH), style.alignment)}
+    >
+      <span className="leading-none whitespace-nowrap px-[1px]" style={getPreviewStyle(style, THUMBNAIL_HEIGHT)}>
+        {label}
+      </span>
+    </div>
+  );
+}
+
+/** A frame with both tracks drawn as the preview would draw them. */
+export function StylePresetThumbnail({ preset, defaults = DEFAULT_GLOBAL_SETTINGS }: { preset: StylePreset; defaults?: StyleDefaults }) {
+  const styles = getTrackStyles(preset, defaults);
+  return (
+    <div
+      className="relative shrink-0 overflow-hidden bg-gradient-to-br from-[#3a4a5a] to-[#1a1a1a] border border-[#333333]"
+      style={{ width: THUMBNAIL_WIDTH, height: THUMBNAIL_HEIGHT }}
+      aria-hidden="true"
+      data-testid="style-preset-thumbnail"
+    >
+      <ThumbnailTrack style={styles.primary} label="Primary" />
+      <ThumbnailTrack style={styles.secondary} label="Secondary" />
+    </div>
+  );
+}
+
+export function StylePresetsPanel({
+  current,
+  onApplyToProject,
+  onApplyToSelection,
+  selectionCount = 0,
+  defaults = DEFAULT_GLOBAL_SETTINGS,
+}: StylePresetsPanelProps) {
+  const { presets, error, createPreset, deletePreset, importPresets } = useStylePresets();
+  const [newName, setNewName] = useState('');
+  const [notice, setNotice] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleSave = async () => {
+    const name = newName.trim();
+    if (!name) return;
+    const styles = getTrackStyles(current, defaults);
+    try {
+      await createPreset({ name, primary: styles.primary, secondary: styles.secondary });
+      setNewName('');
+      setNotice(`Saved "${name}"`);
+    } catch {
+      setNotice(null); // Shown through `error`
+    }
+  };
+
+  const handleDelete = async (preset: StylePreset) => {
+    if (!confirm(`Delete the preset "${preset.name}"?`)) return;
+    setNotice(null);
+    await deletePreset(preset.id).catch(() => { /* Shown through `error` */ });
+  };
+
+  const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = async (event) => {
+      try {
+        const count = await importPresets(event.target?.result as string);
+        setNotice(`Imported ${count} preset(s)`);
+      } catch {
+        setNotice(null);
+      }
+    };
+    reader.readAsText(file);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <label className="flex items-center space-x-1.5 text-[10px] font-bold text-[#666666] uppercase tracking-wider">
+          <Bookmark className="w-3 h-3" /> <span>Presets</span>
+        </label>
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            className="flex items-center gap-1 text-[10px] text-[#888888] hover:text-[#cccccc]"
+            title="Import presets from a JSON file"
+          >
+            <Upload className="w-3 h-3" /> Import
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            onChange={handleImport}
+            className="hidden"
+            data-testid="preset-import-input"
+          />
+          <a
+            href="/api/presets/export"
+            download={STYLE_PRESET_EXPORT_FILENAME}
+            className="flex items-center gap-1 text-[10px] text-[#888888] hover:text-[#cccccc]"
+            title="Export all presets as JSON"
+          >
+            <Download className="w-3 h-3" /> Export
+          </a>
+        </div>
+      </div>
+
+      <div className="space-y-1 max-h-64 overflow-y-auto custom-scrollbar">
+        {presets.length === 0 && (
+          <p className="text-[10px] text-[#555555] italic">No presets yet</p>
+        )}
+        {presets.map(preset => (
+          <div key={preset.id} className="flex items-center gap-2 p-1 bg-[#1e1e1e] border border-[#333333]">
+            <StylePresetThumbnail preset={preset} defaults={defaults} />
+            <div className="flex-1 min-w-0 space-y-1">
+              <div className="flex items-center justify-between gap-1">
+                <span className="text-xs text-[#cccccc] truncate" title={preset.name}>{preset.name}</span>
+                <button
+                  type="button"
+                  onClick={() => handleDelete(preset)}
+                  className="text-[#555555] hover:text-red-400 shrink-0"
+                  aria-label={`Delete ${preset.name}`}
+                >
+                  <Trash2 className="w-3 h-3" />
+                </button>
+              </div>
+              <div className="flex gap-1">
+                <button
+                  type="button"
+                  onClick={() => onApplyToProject(preset)}
+                  className="px-1.5 py-0.5 text-[10px] bg-[#3e3e42] hover:bg-[#4e4e52] text-[#cccccc]"
+                  aria-label={`Apply ${preset.name} to project`}
+                >
+                  Project
+                </button>
+                {onApplyToSelection && (
+                  <button
+                    type="button"
+                    onClick={() => onApplyToSelection(preset)}
+                    disabled={selectionCount === 0}
+                    className="px-1.5 py-0.5 text-[10px] bg-[#3e3e42] hover:bg-[#4e4e52] text-[#cccccc] disabled:opacity-40 disabled:hover:bg-[#3e3e42]"
+                    aria-label={`Apply ${preset.name} to selection`}
+                    title={selectionCount === 0 ? 'Select subtitle lines first' : `Restyle ${selectionCount} selected line(s)`}
+                  >
+                    Selection{selectionCount > 0 ? ` (${selectionCount})` : ''}
+                  </button>
+                )}
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex gap-1">
+        <input
+          type="text"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') handleSave(); }}
+          placeholder="Save current styles as..."
+          aria-label="New preset name"
+          className="flex-1 min-w-0 bg-[#1e1e1e] border border-[#333333] rounded-sm p-1.5 text-xs text-[#cccccc] focus:border-[#007acc] outline-none placeholder:text-[#555555]"
+        />
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={!newName.trim()}
+          className="px-2 text-xs bg-[#007acc] hover:bg-[#0062a3] text-white disabled:opacity-40 disabled:hover:bg-[#007acc]"
+        >
+          Save
+        </button>
+      </div>
+
+      {error && <p className="text-[10px] text-red-400">{error}</p>}
+      {!error && notice && <p className="text-[10px] text-[#888888]">{notice}</p>}
+    </div>
+  );
+}
@@ -1,10 +1,12 @@
 "use client";
 
-import React, { useState } from "react";
-import { SubtitleLine } from "@/types/subtitle";
-import { Plus, Trash2, Wand2, Clock, Check, Move, Scissors } from "lucide-react";
+import React, { useState, useMemo } from "react";
+import { SubtitleLine, GlossaryEntry } from "@/types/subtitle";
+import { Plus, Trash2, Wand2, Clock, Check, Move, Scissors, BookOpen, AlertTriangle } from "lucide-react";
 import { v4 as uuidv4 } from "uuid";
 import { formatTimestamp } from "@/lib/time-utils";
+import { getGlossaryIssues, describeGlossaryIssue } from "@/lib/glossary";
+import { QCIssue } from "@/lib/subtitle-qc";
 
 interface SubtitleListProps {
   subtitles: SubtitleLine[];
@@ -16,12 +18,18 @@ interface SubtitleListProps {
   selectedIds: string[];
   onSelect: (id: string, shiftKey: boolean, ctrlKey: boolean) => void;
   onSplit: (id: string) => void;
+  glossary?: GlossaryEntry[];
+  // Quality check issues by subtitle id; clicking a badge applies the automatic fixes
+  qcIssues?: Record<string, QCIssue[]>;
+  onFixQCIssues?: (id: string) => void;
 }
 
-export function SubtitleList({ subtitles, onUpdate, currentTime, onSeek, secondaryLanguage, selectedIds, onSelect, onSplit }: SubtitleListProps) {
+export function SubtitleList({ subtitles, onUpdate, currentTime, onSeek, secondaryLanguage, selectedIds, onSelect, onSplit, glossary, qcIssues, onFixQCIssues }: SubtitleListProps) {
   const [, setEditingId] = useState<string | null>(null);
   const [translatingId, setTranslatingId] = useState<string | null>(null);
 
+  const glossaryIssues = useMemo(() => getGlossaryIssues(subtitles, glossary), [subtitles, glossary]);
+
   const handleTextChange = (id: string, field: 'text' | 'secondaryText', value: string) => {
     const updated = subtitles.map(s => s.id === id ? { ...s, [field]: value } : s);
     onUpdate(updated);
@@ -44,7 +52,8 @@ export function SubtitleList({ subtitles, onUpdate, currentTime, onSeek, seconda
           text: sub.text,
           targetLanguage: secondaryLanguage === "None" ? "" : secondaryLanguage, // Pass empty if None
           contextBefore,
-          contextAfter
+          contextAfter,
+          glossary
         })
       });
       const data = await res.json();
@@ -160,6 +169,9 @@ export function SubtitleList({ subtitles, onUpdate, currentTime, onSeek, seconda
         {subtitles.map((sub, index) => {
           const isActive = currentTime >= sub.startTime && currentTime <= sub.endTime;
           const isSelected = selectedIds.includes(sub.id);
+          const issues = glossaryIssues[sub.id];
+          const lineQCIssues = qcIssues?.[sub.id];
+          const hasQCError = lineQCIssues?.some(issue => issue.severity === 'error');
           
           return (
             <div 
@@ -183,6 +195,30 @@ export function SubtitleList({ subtitles, onUpdate, currentTime, onSeek, seconda
                 >
                   <Clock className="w-3 h-3" />
                   <span>{formatTimestamp(sub.startTime).split(',')[0]}</span>
+                  {issues && (
+                    <span
+                      className="flex items-center gap-0.5 text-[#d7ba7d]"
+                      title={issues.map(describeGlossaryIssue).join('\n')}
+                      data-testid="glossary-issue"
+                    >
+                      <BookOpen className="w-3 h-3" />
+                      {issues.length}
+                    </span>
+                  )}
+                  {lineQCIssues && (
+                    <button
+                      className={`flex items-center gap-0.5 hover:underline ${hasQCError ? 'text-red-400' : 'text-[#d7ba7d]'}`}
+                      title={`${lineQCIssues.map(issue => issue.message).join('\n')}${onFixQCIssues ? '\n\nClick to fix automatically' : ''}`}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        onFixQCIssues?.(sub.id);
+                      }}
+                      data-testid="qc-issue"
+                    >
+                      <AlertTriangle className="w-3 h-3" />
+                      {lineQCIssues.length}
+                    </button>
+                  )}
                 </div>
                 
                 <div className="flex items-center opacity-0 group-hover:opacity-100 transition-opacity space-x-1">
@@ -1,5 +1,5 @@
 import React from 'react';
-import { render, screen, fireEvent } from '@testing-library/react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import { SubtitleTimeline } from './SubtitleTimeline';
 import { SubtitleLine, VideoClip, TimelineClip } from '@/types/subtitle';
 
@@ -65,6 +65,16 @@ describe('SubtitleTimeline', () => {
         fireEvent.click(screen.getByText('Hello'));
         expect(onSelect).toHaveBeenCalledWith('1', false, false);
     });
+
+    it('marks subtitles with quality issues', () => {
+        render(<SubtitleTimeline {...defaultProps} qcIssues={{
+          '2': [{ rule: 'cps', severity: 'error', message: '25.0 characters per second (max 20)' }],
+        }} />);
+
+        const marker = screen.getByTestId('qc-marker');
+        expect(marker).toHaveClass('bg-red-500');
+        expect(marker).toHaveAttribute('title', expect.stringContaining('characters per second'));
+    });
   });
 
   describe('Multi-Track Mode', () => {
@@ -106,6 +116,29 @@ describe('SubtitleTimeline', () => {
         expect(waveformSvg?.querySelector('path')).toBeInTheDocument();
     });
 
+    it('draws real peaks fetched for the clip', async () => {
+        const originalFetch = global.fetch;
+        global.fetch = jest.fn((url: string) => Promise.resolve({
+          ok: true,
+          json: () => Promise.resolve(url.includes('segment=')
+            ? { peaks: Array.from({ length: 2000 }, (_, i) => (i % 2 ? 100 : -50)) }
+            : { duration: 10, segmentSize: 4096, levels: [{ peaksPerSecond: 100, length: 1000 }] }),
+        })) as unknown as typeof fetch;
+
+        try {
+          const { container } = render(<SubtitleTimeline {...multiTrackProps} />);
+
+          await waitFor(() => {
+            const path = container.querySelector('svg.text-\\[\\#4a9c5d\\] path');
+            expect(path?.getAttribute('d')).toContain('M 0.0 -100 L 0.0 50');
+          });
+          expect(global.fetch).toHaveBeenCalledWith('/api/waveform?path=%2Fpath%2Fvid1.mp4');
+          expect(global.fetch).toHaveBeenCalledWith('/api/waveform?path=%2Fpath%2Fvid1.mp4&level=0&segment=0');
+        } finally {
+          global.fetch = originalFetch;
+        }
+    });
+
     it('handles clip selection', () => {
       const onClipSelect = jest.fn();
       render(
@@ -5,6 +5,8 @@ import { SubtitleLine, VideoClip, TimelineClip } from "@/types/subtitle";
 import { AlertCircle } from "lucide-react";
 import { clsx, type ClassValue } from "clsx";
 import { twMerge } from "tailwind-merge";
+import { useWaveformPeaks } from "@/hooks/useWaveformPeaks";
+import { QCIssue } from "@/lib/subtitle-qc";
 
 function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
@@ -54,6 +56,8 @@ interface TimelineProps {
   onSplitAtPosition?: (clipId: string, time: number) => void;
   // Read-Only mode (e.g. for previews)
   readOnly?: boolean;
+  // Quality check issues by subtitle id, shown as markers
+  qcIssues?: Record<string, QCIssue[]>;
 }
 
 // Legacy props for backwards compatibility
@@ -109,6 +113,7 @@ export const SubtitleTimeline = React.forwardRef<TimelineRef, SubtitleTimelinePr
   const showSecondaryTracks = isLegacyProps(props) ? false : props.showSecondaryTracks;
   const isSplitMode = isLegacyProps(props) ? false : props.isSplitMode;
   const onSplitAtPosition = isLegacyProps(props) ? undefined : props.onSplitAtPosition;
+  const qcIssues = isLegacyProps(props) ? undefined : props.qcIssues;
   
   const isMultiVideoMode = videoClips && timelineClips && timelineClips.length > 0;
 
@@ -716,6 +721,8 @@ export const SubtitleTimeline = React.forwardRef<TimelineRef, SubtitleTimelinePr
                     <AudioClipBlock
                       key={`audio-${clip.id}`}
                       clip={displayClip}
+                      filePath={videoClips?.find(v => v.id === clip.videoClipId)?.filePath}
+                      visibleTimeRange={visibleTimeRange}
                       pixelsPerSecond={pixelsPerSecond}
                       selected={selectedClipId === clip.id}
                       onContextMenu={(e) => handleContextMenu(e, clip.id, 'video')}
@@ -768,6 +775,7 @@ export const SubtitleTimeline = React.forwardRef<TimelineRef, SubtitleTimelinePr
                     active={currentTime >= displaySub.startTime && currentTime <= displaySub.endTime}
                     selected={selectedIds.includes(sub.id)}
                     onClick={(e) => onSelect(sub.id, e.shiftKey, e.ctrlKey || e.metaKey)}
+                    issues={qcIssues?.[sub.id]}
                   />
                 );
               })}
@@ -1107,15 +1115,17 @@ function ImageClipBlock({ item, asset, pixelsPerSecond, selected, onDrag, onDrop
 // Subtitle Bubble
 // ============================================================================
 
-function SubtitleBubble({ subtitle, pixelsPerSecond, onDrag, onDrop, active, selected, onClick }: { 
+function SubtitleBubble({ subtitle, pixelsPerSecond, onDrag, onDrop, active, selected, onClick, issues }: { 
   subtitle: SubtitleLine, 
   pixelsPerSecond: number, 
   onDrag: (side: 'left' | 'right' | 'both', deltaX: number) => void,
   onDrop: () => void,
   active: boolean,
   selected: boolean,
-  onClick: (e: React.MouseEvent) => void
+  onClick: (e: React.MouseEvent) => void,
+  issues?: QCIssue[]
 }) {
+  const hasQCError = issues?.some(issue => issue.severity === 'error');
   const [isDragging, setIsDragging] = useState<'left' | 'right' | 'both' | null>(null);
   const [originalSub, setOriginalSub] = useState<SubtitleLine | null>(null);
   const startX = useRef(0);
@@ -1188,6 +1198,14 @@ function SubtitleBubble({ subtitle, pixelsPerSecond, onDrag, onDrop, active, sel
            {isDragging === 'both' ? formatTime(subtitle.startTime) : formatTime(subtitle.endTime - subtitle.startTime)}
         </div>
       )}
+      {/* Quality check marker */}
+      {issues && (
+        <div
+          data-testid="qc-marker"
+          className={cn("absolute top-0 left-0 right-0 h-0.5", hasQCError ? "bg-red-500" : "bg-[#d7ba7d]")}
+          title={issues.map(issue => issue.message).join('\n')}
+        />
+      )}
       <div className="text-[10px] font-medium truncate pointer-events-none">{subtitle.text}</div>
       {subtitle.secondaryText && (
         <div className="text-[9px] opacity-75 truncate pointer-events-none text-[#d7ba7d]">{subtitle.secondaryText}</div>
@@ -1207,39 +1225,57 @@ function SubtitleBubble({ subtitle, pixelsPerSecond, onDrag, onDrop, active, sel
 }
 
 // ============================================================================
-// Audio Clip Block (Visual Only for now)
+// Audio Clip Block
 // ============================================================================
 
-function AudioClipBlock({ clip, pixelsPerSecond, selected, onContextMenu }: {
+function AudioClipBlock({ clip, filePath, visibleTimeRange, pixelsPerSecond, selected, onContextMenu }: {
   clip: TimelineClip;
+  filePath?: string;
+  visibleTimeRange: { start: number; end: number };
   pixelsPerSecond: number;
   selected: boolean;
   onContextMenu: (e: React.MouseEvent) => void;
 }) {
   const width = Math.max(clip.clipDuration * pixelsPerSecond, 20);
-  
-  // Generate a stable pseudo-random waveform path based on clip ID
+
+  // Only the part of the clip inside the virtualized viewport is drawn, in
+  // source-media seconds, so the path stays one bar per pixel at any zoom
+  const visibleStart = Math.max(0, visibleTimeRange.start - clip.projectStartTime);
+  const visibleEnd = Math.min(clip.clipDuration, visibleTimeRange.end - clip.projectStartTime);
+  const hasVisiblePart = visibleEnd > visibleStart;
+  const sourceStart = clip.sourceInPoint + visibleStart;
+  const sourceEnd = clip.sourceInPoint + Math.max(visibleStart, visibleEnd);
+
+  const waveform = useWaveformPeaks(hasVisiblePart ? filePath : undefined, pixelsPerSecond, sourceStart, sourceEnd);
+
+  const segmentWidth = Math.max(0, (visibleEnd - visibleStart) * pixelsPerSecond);
+
+  // x in pixels from the left of the drawn segment, y in peak units (-128..128)
   const waveformPath = React.useMemo(() => {
-    let d = `M 0 24`;
-    const points = Math.ceil(width / 3); // One point every 3 pixels
-    for (let i = 0; i <= points; i++) {
-       const x = i * 3;
-       // Pseudo-random height based on index + clip ID hash (simplified)
-       // Use a simple hash of the ID string
-       const hash = clip.id.split('').reduce((acc, char) => acc + char.charCodeAt(0), 0);
-       const random = Math.sin(i * 0.5 + hash) * 0.5 + 0.5; 
-       
-       // Mirror effect (centered around y=24)
-       // Height varies between 10px and ~40px
-       const height = 10 + (random * 30); 
-       const y1 = 24 - (height / 2);
-       const y2 = 24 + (height / 2);
-       
-       // Draw a vertical line for this sample
-       d += ` M ${x} ${y1} L ${x} ${y2}`;
+    // Flat line until the peaks arrive
+    if (!waveform) return `M 0 0 L ${segmentWidth} 0`;
+
+    const { peaksPerSecond, startIndex, peaks } = waveform;
+    const first = Math.max(startIndex, Math.floor(sourceStart * peaksPerSecond));
+    const last = Math.min(startIndex + peaks.length / 2 - 1, Math.ceil(sourceEnd * peaksPerSecond));
+    // Several peaks per pixel (zoomed out past the coarsest level) share one column
+    const step = Math.max(1, Math.floor(peaksPerSecond / pixelsPerSecond));
+
+    let d = '';
+    for (let i = first; i <= last; i += step) {
+      let min = 0;
+      let max = 0;
+      for (let j = i; j < Math.min(i + step, last + 1); j++) {
+        const offset = (j - startIndex) * 2;
+        min = Math.min(min, peaks[offset]);
+        max = Math.max(max, peaks[offset + 1]);
+      }
+      const x = (i / peaksPerSecond - sourceStart) * pixelsPerSecond;
+      // Keep silence visible as a hairline
+      d += ` M ${x.toFixed(1)} ${Math.min(-1, -max)} L ${x.toFixed(1)} ${Math.max(1, -min)}`;
     }
-    return d;
-  }, [width, clip.id]);
+    return d || `M 0 0 L ${segmentWidth} 0`;
+  }, [waveform, sourceStart, sourceEnd, pixelsPerSecond, segmentWidth]);
 
   return (
     <div 
@@ -1256,11 +1292,22 @@ function AudioClipBlock({ clip, pixelsPerSecond, selected, onContextMenu }: {
       onContextMenu={onContextMenu}
     >
          {/* Waveform Visualization */}
-         <div className="absolute inset-0 opacity-80 pointer-events-none">
-            <svg width="100%" height="100%" preserveAspectRatio="none" className="text-[#4a9c5d]">
-               <path d={waveformPath} stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" fill="none" vectorEffect="non-scaling-stroke" />
-            </svg>
-         </div>
+         {hasVisiblePart && (
+           <div
+             className="absolute top-0 bottom-0 opacity-80 pointer-events-none"
+             style={{ left: `${visibleStart * pixelsPerSecond}px`, width: `${segmentWidth}px` }}
+           >
+              <svg
+                width="100%"
+                height="100%"
+                viewBox={`0 -128 ${Math.max(segmentWidth, 1)} 256`}
+                preserveAspectRatio="none"
+                className="text-[#4a9c5d]"
+              >
+                 <path d={waveformPath} stroke="currentColor" strokeWidth="1" fill="none" vectorEffect="non-scaling-stroke" shapeRendering="crispEdges" />
+              </svg>
+           </div>
+         )}
          
          <div className="absolute top-0 left-1 right-1 h-full flex items-start pt-1">
              <span className="text-[9px] font-mono opacity-70 relative z-10 bg-black/40 px-1 rounded truncate pointer-events-none select-none">
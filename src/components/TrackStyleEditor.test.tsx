@@ -0,0 +1,99 @@
+import React from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { TrackStyleEditor } from './TrackStyleEditor';
+import '@testing-library/jest-dom';
+
+global.fetch = jest.fn();
+
+const jsonResponse = (body: unknown, ok = true) => ({ ok, json: async () => body });
+
+describe('TrackStyleEditor', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (global.fetch as jest.Mock).mockImplementation((url: string) => {
+      if (url === '/api/fonts') {
+        return Promise.resolve(jsonResponse({ fonts: [{ family: 'Brand Sans', source: 'uploaded' }, { family: 'Noto Sans', source: 'system' }] }));
+      }
+      return Promise.resolve(jsonResponse({ family: 'Arial', renderedFamily: 'Noto Sans', found: true, missing: [] }));
+    });
+  });
+
+  test('offers uploaded and installed fonts alongside the common ones', async () => {
+    const onChange = jest.fn();
+    render(<TrackStyleEditor style={{}} onChange={onChange} />);
+
+    const select = screen.getByLabelText('Font Family');
+    await waitFor(() => expect(screen.getByRole('option', { name: 'Brand Sans' })).toBeInTheDocument());
+    expect(screen.getByRole('group', { name: 'Installed' })).toContainElement(screen.getByRole('option', { name: 'Noto Sans' }));
+    expect(screen.getByRole('option', { name: 'Georgia' })).toBeInTheDocument();
+
+    fireEvent.change(select, { target: { value: 'Brand Sans' } });
+    expect(onChange).toHaveBeenCalledWith({ fontFamily: 'Brand Sans' });
+  });
+
+  test('uploads a font and refreshes the list', async () => {
+    render(<TrackStyleEditor style={{}} onChange={jest.fn()} />);
+    await waitFor(() => expect(global.fetch).toHaveBeenCalledWith('/api/fonts'));
+
+    (global.fetch as jest.Mock).mockResolvedValueOnce(jsonResponse({ success: true, fonts: [{ family: 'Fresh Serif', source: 'uploaded' }] }));
+    const file = new File(['OTTO'], 'fresh.otf');
+    fireEvent.change(screen.getByTestId('font-upload-input'), { target: { files: [file] } });
+
+    await waitFor(() => expect(screen.getByRole('option', { name: 'Fresh Serif' })).toBeInTheDocument());
+    const [, init] = (global.fetch as jest.Mock).mock.calls.find(([, options]) => options?.method === 'POST');
+    expect((init.body as FormData).get('font')).toBe(file);
+  });
+
+  test('shows upload errors', async () => {
+    render(<TrackStyleEditor style={{}} onChange={jest.fn()} />);
+    await waitFor(() => expect(global.fetch).toHaveBeenCalledWith('/api/fonts'));
+
+    (global.fetch as jest.Mock).mockResolvedValueOnce(jsonResponse({ error: 'Not a TrueType or OpenType font (.ttf, .otf)' }, false));
+    fireEvent.change(screen.getByTestId('font-upload-input'), { target: { files: [new File(['x'], 'bad.ttf')] } });
+
+    expect(await screen.findByText('Not a TrueType or OpenType font (.ttf, .otf)')).toBeInTheDocument();
+  });
+
+  test('warns when the chosen font lacks characters used in the track', async () => {
+    (global.fetch as jest.Mock).mockImplementation((url: string) => url === '/api/fonts'
+      ? Promise.resolve(jsonResponse({ fonts: [{ family: 'Noto Sans', source: 'system' }] }))
+      : Promise.resolve(jsonResponse({ family: 'Arial', renderedFamily: 'Noto Sans', found: true, missing: ['你', '好'] })));
+
+    render(<TrackStyleEditor style={{ fontFamily: 'Arial' }} onChange={jest.fn()} sampleText="Hi 你好" />);
+
+    const alert = await screen.findByRole('alert');
+    expect(alert).toHaveTextContent('"Noto Sans" has no glyphs for 2 character(s) in this track: 你 好');
+    const [, init] = (global.fetch as jest.Mock).mock.calls.find(([url]) => url === '/api/fonts/glyphs');
+    expect(JSON.parse(init.body)).toEqual({ family: 'Arial', text: 'Hi 你好' });
+  });
+
+  test('skips the coverage check without a chosen font or track text', async () => {
+    render(<TrackStyleEditor style={{}} onChange={jest.fn()} sampleText="Hi" />);
+    await waitFor(() => expect(global.fetch).toHaveBeenCalledWith('/api/fonts'));
+    await new Promise(resolve => setTimeout(resolve, 350));
+
+    expect(global.fetch).not.toHaveBeenCalledWith('/api/fonts/glyphs', expect.anything());
+    expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+  });
+
+  test('offers presets when the parent can apply them', async () => {
+    const preset = { id: 'p1', name: 'Karaoke top', primary: { alignment: 8 }, secondary: {}, createdAt: 1, updatedAt: 1 };
+    (global.fetch as jest.Mock).mockImplementation((url: string) => Promise.resolve(
+      jsonResponse(url === '/api/presets' ? { presets: [preset] } : { fonts: [] })
+    ));
+    const onApplyPreset = jest.fn();
+    render(<TrackStyleEditor style={{}} onChange={jest.fn()} onApplyPreset={onApplyPreset} />);
+
+    await waitFor(() => expect(screen.getByRole('option', { name: 'Karaoke top' })).toBeInTheDocument());
+    fireEvent.change(screen.getByLabelText('Apply Preset'), { target: { value: 'p1' } });
+    expect(onApplyPreset).toHaveBeenCalledWith(preset);
+  });
+
+  test('does not load presets without a way to apply them', async () => {
+    render(<TrackStyleEditor style={{}} onChange={jest.fn()} />);
+    await waitFor(() => expect(global.fetch).toHaveBeenCalledWith('/api/fonts'));
+
+    expect(global.fetch).not.toHaveBeenCalledWith('/api/presets');
+    expect(screen.queryByLabelText('Apply Preset')).not.toBeInTheDocument();
+  });
+});
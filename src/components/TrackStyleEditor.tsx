@@ -1,6 +1,9 @@
 // ... imports
-import { TrackStyle } from "@/types/subtitle";
-import { RotateCcw } from "lucide-react";
+import { useEffect, useRef, useState } from "react";
+import { TrackStyle, StylePreset } from "@/types/subtitle";
+import type { FontInfo } from "@/lib/font-library";
+import { useStylePresets } from "@/hooks/useStylePresets";
+import { RotateCcw, Upload, AlertTriangle } from "lucide-react";
 
 interface TrackStyleEditorProps {
   style: Partial<TrackStyle>;
@@ -8,6 +11,15 @@ interface TrackStyleEditorProps {
   onReset?: () => void;
   compact?: boolean;
   mode?: 'percentage' | 'pixel'; // New prop to control unit behavior
+  sampleText?: string; // Track text to check the chosen font's glyph coverage against
+  onApplyPreset?: (preset: StylePreset) => void; // Offer style presets; the parent applies the chosen one
+}
+
+interface FontCoverage {
+  family: string;
+  renderedFamily: string;
+  found: boolean;
+  missing: string[];
 }
 
 const ALIGNMENTS = [
@@ -18,8 +30,73 @@ const ALIGNMENTS = [
 
 const FONTS = ['Arial', 'Helvetica', 'Verdana', 'Tahoma', 'Trebuchet MS', 'Georgia', 'Times New Roman', 'Courier New'];
 
-export function TrackStyleEditor({ style, onChange, onReset, compact = false, mode = 'pixel' }: TrackStyleEditorProps) {
-  
+const MAX_MISSING_SHOWN = 20;
+
+export function TrackStyleEditor({ style, onChange, onReset, compact = false, mode = 'pixel', sampleText, onApplyPreset }: TrackStyleEditorProps) {
+  const { presets } = useStylePresets(!!onApplyPreset);
+  const [fonts, setFonts] = useState<FontInfo[]>([]);
+  const [uploading, setUploading] = useState(false);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+  const [coverage, setCoverage] = useState<FontCoverage | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    fetch('/api/fonts')
+      .then(res => res.ok ? res.json() : null)
+      .then(data => { if (data?.fonts) setFonts(data.fonts); })
+      .catch(err => console.error("Failed to load fonts:", err));
+  }, []);
+
+  // Check the chosen font against the track's text (debounced while typing)
+  useEffect(() => {
+    const family = style.fontFamily;
+    if (!family || !sampleText?.trim()) return;
+
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      fetch('/api/fonts/glyphs', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ family, text: sampleText }),
+      })
+        .then(res => res.ok ? res.json() : null)
+        .then(data => { if (!cancelled) setCoverage(data); })
+        .catch(err => console.error("Failed to check font coverage:", err));
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [style.fontFamily, sampleText]);
+
+  const handleFontUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setUploading(true);
+    setUploadError(null);
+    try {
+      const formData = new FormData();
+      formData.append('font', file);
+      const res = await fetch('/api/fonts', { method: 'POST', body: formData });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Upload failed');
+      setFonts(data.fonts);
+    } catch (err) {
+      setUploadError(err instanceof Error ? err.message : 'Upload failed');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const uploadedFonts = fonts.filter(f => f.source === 'uploaded').map(f => f.family);
+  const installedFonts = fonts.filter(f => f.source === 'system').map(f => f.family);
+  const commonFonts = FONTS.filter(f => !uploadedFonts.includes(f) && !installedFonts.includes(f));
+  const isUnlistedFont = !!style.fontFamily && ![...uploadedFonts, ...installedFonts, ...commonFonts].includes(style.fontFamily);
+  const activeCoverage = coverage && coverage.family === style.fontFamily && sampleText?.trim() ? coverage : null;
+
   const update = (key: keyof TrackStyle, value: string | number | undefined) => {
     // If unit mode is different, handle conversion if needed, OR just save raw
     // For this editor, we enforce the unit of the mode.
@@ -58,6 +135,25 @@ export function TrackStyleEditor({ style, onChange, onReset, compact = false, mo
 
   return (
     <div className={`space-y-3 ${compact ? 'text-xs' : ''}`}>
+      {/* Preset */}
+      {onApplyPreset && presets.length > 0 && (
+        <div>
+          <label htmlFor="track-style-preset" className="text-[9px] uppercase text-[#666] font-bold mb-1 block">Apply Preset</label>
+          <select
+            id="track-style-preset"
+            value=""
+            onChange={(e) => {
+              const preset = presets.find(p => p.id === e.target.value);
+              if (preset) onApplyPreset(preset);
+            }}
+            className="w-full bg-[#1e1e1e] border border-[#3e3e42] text-[#ccc] text-xs p-1.5 focus:border-[#007acc] outline-none"
+          >
+            <option value="">Choose a preset...</option>
+            {presets.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+          </select>
+        </div>
+      )}
+
       {/* Header with Reset */}
       {onReset && (
         <div className="flex justify-end">
@@ -85,18 +181,72 @@ export function TrackStyleEditor({ style, onChange, onReset, compact = false, mo
           />
         </div>
         <div>
-          <label className="text-[9px] uppercase text-[#666] font-bold mb-1 block">Font Family</label>
+          <div className="flex items-center justify-between mb-1">
+            <label htmlFor="track-style-font-family" className="text-[9px] uppercase text-[#666] font-bold block">Font Family</label>
+            <button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={uploading}
+              title="Upload a TTF/OTF font for burn-in"
+              className="flex items-center gap-1 text-[9px] text-[#888] hover:text-[#ccc] disabled:opacity-50"
+            >
+              <Upload className="w-2.5 h-2.5" />
+              {uploading ? 'Uploading...' : 'Upload Font'}
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".ttf,.otf"
+              onChange={handleFontUpload}
+              className="hidden"
+              data-testid="font-upload-input"
+            />
+          </div>
           <select
+            id="track-style-font-family"
             value={style.fontFamily ?? ''}
             onChange={(e) => update('fontFamily', e.target.value || undefined)}
             className={`w-full bg-[#1e1e1e] border border-[#3e3e42] text-[#ccc] text-xs p-1.5 focus:border-[#007acc] outline-none ${!style.fontFamily ? 'text-[#444]' : ''}`}
           >
             <option value="">Inherit</option>
-            {FONTS.map(f => <option key={f} value={f}>{f}</option>)}
+            {isUnlistedFont && <option value={style.fontFamily}>{style.fontFamily}</option>}
+            {uploadedFonts.length > 0 && (
+              <optgroup label="Uploaded">
+                {uploadedFonts.map(f => <option key={f} value={f}>{f}</option>)}
+              </optgroup>
+            )}
+            {installedFonts.length > 0 && (
+              <optgroup label="Installed">
+                {installedFonts.map(f => <option key={f} value={f}>{f}</option>)}
+              </optgroup>
+            )}
+            <optgroup label="Common">
+              {commonFonts.map(f => <option key={f} value={f}>{f}</option>)}
+            </optgroup>
           </select>
+          {uploadError && <p className="text-[10px] text-red-400 mt-1">{uploadError}</p>}
         </div>
       </div>
 
+      {/* Glyph coverage */}
+      {/* An unknown family only means something when fontconfig listed any fonts at all */}
+      {activeCoverage && ((!activeCoverage.found && fonts.length > 0) || activeCoverage.missing.length > 0) && (
+        <div role="alert" className="flex gap-2 p-2 bg-[#3a3000]/40 border border-[#665500] text-[10px] text-[#e0c060]">
+          <AlertTriangle className="w-3 h-3 shrink-0 mt-0.5" />
+          {!activeCoverage.found ? (
+            <span>
+              &quot;{activeCoverage.renderedFamily}&quot; is not installed on the server; the burn-in will fall back to another font.
+            </span>
+          ) : (
+            <span>
+              &quot;{activeCoverage.renderedFamily}&quot; has no glyphs for {activeCoverage.missing.length} character(s) in this track:{' '}
+              <span className="font-mono">{activeCoverage.missing.slice(0, MAX_MISSING_SHOWN).join(' ')}</span>
+              {activeCoverage.missing.length > MAX_MISSING_SHOWN && ' ...'}
+            </span>
+          )}
+        </div>
+      )}
+
       {/* Alignment */}
       <div>
         <label className="text-[9px] uppercase text-[#666] font-bold mb-1 block">Alignment</label>
@@ -1,9 +1,11 @@
 "use client";
 
 import React, { useRef, useEffect, useState } from "react";
-import { SubtitleLine, SubtitleConfig, TrackStyle, DEFAULT_GLOBAL_SETTINGS, TimelineClip, VideoClip, TimelineImage, ImageAsset, ProjectConfig } from "@/types/subtitle";
+import { SubtitleLine, SubtitleConfig, TrackStyle, BilingualLayout, DEFAULT_GLOBAL_SETTINGS, TimelineClip, VideoClip, TimelineImage, ImageAsset, ProjectConfig } from "@/types/subtitle";
 import { REFERENCE_WIDTH } from "@/types/constants";
-import { resolveTrackStyle, normalizeToPx } from "@/lib/style-resolver";
+import { resolveTrackStyle, normalizeToPx, getLineOverrides, getPreviewStyle, getTrackStyles, applyClipStyle, StyleDefaults } from "@/lib/style-resolver";
+import { parseRichText, getRichTextRunStyle } from "@/lib/rich-text";
+import { DEFAULT_BILINGUAL_LAYOUT, getCombinedSegments, getCombinedSeparator } from "@/lib/bilingual-layout";
 import { probeBrowserSupport, isMetadataSupported, BrowserSupport, SupportProbeMetadata } from "@/lib/browser-support";
 
 // Minimal shape of the probed metadata actually consumed by the preview. Both the
@@ -32,6 +34,8 @@ interface PreviewProps {
   onTimeUpdate: (time: number) => void;
   onDurationChange: (duration: number) => void;
   videoProperties?: PreviewMetadata | null; // Added to pass probed metadata
+  layout?: BilingualLayout; // Split or combined bilingual lines; defaults to split
+  styleDefaults?: StyleDefaults; // Stored global styles; defaults to DEFAULT_GLOBAL_SETTINGS
 }
 
 export function VideoPreview({ 
@@ -46,7 +50,9 @@ export function VideoPreview({
   currentTime, 
   onTimeUpdate, 
   onDurationChange,
-  videoProperties
+  videoProperties,
+  layout = DEFAULT_BILINGUAL_LAYOUT,
+  styleDefaults = DEFAULT_GLOBAL_SETTINGS
 }: PreviewProps) {
   const videoRef = useRef<HTMLVideoElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
@@ -248,15 +254,9 @@ export function VideoPreview({
   }, [videoUrl, activeVideoUrl, useTranscoding, isMultiVideo]);
 
 
-  // Resolve styles with proper inheritance: Global -> Project -> Line
-  const resolvedPrimaryStyle = resolveTrackStyle(
-    DEFAULT_GLOBAL_SETTINGS.defaultPrimaryStyle,
-    config.primary
-  );
-  const resolvedSecondaryStyle = resolveTrackStyle(
-    DEFAULT_GLOBAL_SETTINGS.defaultSecondaryStyle,
-    config.secondary
-  );
+  // Resolve styles with proper inheritance: Global -> Project; the active
+  // line adds its clip's config and its own overrides below
+  const { primary: resolvedPrimaryStyle, secondary: resolvedSecondaryStyle } = getTrackStyles(config, styleDefaults);
 
   useEffect(() => {
     const active = subtitles.find(s => currentTime >= s.startTime && currentTime <= s.endTime);
@@ -341,11 +341,34 @@ export function VideoPreview({
     };
   };
 
-  // Helper to scale font size relative to 1080p height
-  const getScaledFontSize = (fontSize: number | string) => {
-    if (containerHeight === 0) return 16; // Fallback
-    const pxSize = normalizeToPx(fontSize, 1080);
-    return (pxSize / 1080) * containerHeight;
+  // Clip and line overrides and markup are applied the same way the ASS
+  // burn-in applies them. Editor lines point at their timeline clip.
+  const activeVideoClip = activeSubtitle?.clipId
+    ? videoClips.find(vc => vc.id === timelineClips.find(tc => tc.id === activeSubtitle.clipId)?.videoClipId)
+    : undefined;
+  const styledSubtitle = activeSubtitle ? applyClipStyle(activeSubtitle, activeVideoClip?.subtitleConfig) : null;
+  const primaryOverrides = styledSubtitle ? getLineOverrides(styledSubtitle, 'primary') : undefined;
+  const secondaryOverrides = styledSubtitle ? getLineOverrides(styledSubtitle, 'secondary') : undefined;
+  const renderRichText = (text: string) =>
+    parseRichText(text).map((run, i) => <span key={i} style={getRichTextRunStyle(run)}>{run.text}</span>);
+
+  // Combined layout: both tracks in the primary block, the secondary in its
+  // own style at a size relative to the primary (as the burn-in's \rSecondary)
+  const renderCombined = (line: SubtitleLine) => {
+    const primaryFontSize = resolveTrackStyle(resolvedPrimaryStyle, undefined, primaryOverrides).fontSize;
+    const secondaryStyle = {
+      ...getPreviewStyle(resolvedSecondaryStyle, containerHeight || undefined, {
+        ...secondaryOverrides,
+        fontSize: secondaryOverrides?.fontSize ?? primaryFontSize * layout.secondaryScale,
+      }),
+      backgroundColor: 'transparent',
+    };
+    return getCombinedSegments(line, layout).map((segment, i) => (
+      <React.Fragment key={segment.track}>
+        {i > 0 && <span style={{ whiteSpace: 'pre-line' }}>{getCombinedSeparator(layout.separator)}</span>}
+        <span style={segment.track === 'secondary' ? secondaryStyle : undefined}>{renderRichText(segment.text)}</span>
+      </React.Fragment>
+    ));
   };
 
   // getRawPath moved to line 64 (before effects)
@@ -427,40 +450,48 @@ export function VideoPreview({
         
         {activeSubtitle && (
           <div className="absolute inset-0 pointer-events-none">
-            {/* Primary Track Layer */}
-            <div style={getPositionStyles(resolvedPrimaryStyle)}>
-               <div 
+            {layout.mode === 'combined' ? (
+              <div style={getPositionStyles(resolveTrackStyle(resolvedPrimaryStyle, undefined, primaryOverrides))}>
+                <div
                   className="p-2 text-center max-w-[90%]"
-                  style={{ 
-                    backgroundColor: activeSubtitle.primaryColor || resolvedPrimaryStyle.backgroundColor,
-                    color: activeSubtitle.primaryColor ? '#ffffff' : resolvedPrimaryStyle.color,
-                    fontSize: `${getScaledFontSize(resolvedPrimaryStyle.fontSize)}px`,
-                    fontFamily: resolvedPrimaryStyle.fontFamily,
+                  style={{
+                    ...getPreviewStyle(resolvedPrimaryStyle, containerHeight || undefined, primaryOverrides),
                     borderRadius: '2px',
-                    textShadow: 'none',
                   }}
                 >
-                  {activeSubtitle.text}
-               </div>
-            </div>
-
-            {/* Secondary Track Layer */}
-            {activeSubtitle.secondaryText && (
-              <div style={getPositionStyles(resolvedSecondaryStyle)}>
-                 <div 
-                    className="p-2 text-center max-w-[90%]"
-                    style={{ 
-                      backgroundColor: activeSubtitle.secondaryColor || resolvedSecondaryStyle.backgroundColor,
-                      color: activeSubtitle.secondaryColor ? '#ffffff' : resolvedSecondaryStyle.color,
-                      fontSize: `${getScaledFontSize(resolvedSecondaryStyle.fontSize)}px`,
-                      fontFamily: resolvedSecondaryStyle.fontFamily,
-                      borderRadius: '2px',
-                    textShadow: 'none',
-                    }}
-                  >
-                    {activeSubtitle.secondaryText}
-                 </div>
+                  {renderCombined(activeSubtitle)}
+                </div>
               </div>
+            ) : (
+              <>
+                {/* Primary Track Layer */}
+                <div style={getPositionStyles(resolveTrackStyle(resolvedPrimaryStyle, undefined, primaryOverrides))}>
+                   <div 
+                      className="p-2 text-center max-w-[90%]"
+                      style={{ 
+                        ...getPreviewStyle(resolvedPrimaryStyle, containerHeight || undefined, primaryOverrides),
+                        borderRadius: '2px',
+                      }}
+                    >
+                      {renderRichText(activeSubtitle.text)}
+                   </div>
+                </div>
+
+                {/* Secondary Track Layer */}
+                {activeSubtitle.secondaryText && (
+                  <div style={getPositionStyles(resolveTrackStyle(resolvedSecondaryStyle, undefined, secondaryOverrides))}>
+                     <div 
+                        className="p-2 text-center max-w-[90%]"
+                        style={{ 
+                          ...getPreviewStyle(resolvedSecondaryStyle, containerHeight || undefined, secondaryOverrides),
+                          borderRadius: '2px',
+                        }}
+                      >
+                        {renderRichText(activeSubtitle.secondaryText)}
+                     </div>
+                  </div>
+                )}
+              </>
             )}
           </div>
         )}
@@ -1,10 +1,11 @@
 "use client";
 
 import React, { useState, useRef, useCallback, useEffect } from "react";
-import { Upload, FileVideo, AlertCircle, Film, Cpu, Loader2, Zap, Check, X, FolderPlus, Files, Layers, Plus, Minus, GripVertical, ArrowUpFromLine, Lock } from "lucide-react";
+import { Upload, FileVideo, AlertCircle, Film, Cpu, Loader2, Zap, Check, X, FolderPlus, Files, Layers, Plus, Minus, GripVertical, ArrowUpFromLine, Lock, FileText } from "lucide-react";
 import { validateVideoFile, prepareUploadFormData, generateClipId } from "@/lib/upload-utils";
 import { checkModelAvailability } from "@/lib/model-cache";
-import { RawSubtitleItem, ProcessResponse } from "@/types/subtitle";
+import { SUBTITLE_IMPORT_EXTENSIONS, isSubtitleFile } from "@/lib/subtitle-parsers";
+import { RawSubtitleItem, ProcessResponse, SubtitleProvenance, AIProgressEvent } from "@/types/subtitle";
 
 // Upload modes for multi-video support
 export type UploadMode = 
@@ -47,8 +48,13 @@ export interface FileProgress {
   warning?: string;
 }
 
+// Server stages with no meaningful percentage; shown as an animated bar
+const INDETERMINATE_STAGES = ['queued', 'uploading_to_gemini', 'gemini_processing', 'generating_subtitles', 'model_call', 'model_fallback', 'parsing_response'];
+
+const isIndeterminateStage = (stage: string | null) => stage !== null && INDETERMINATE_STAGES.includes(stage);
+
 interface VideoUploadProps {
-  onUploadComplete: (subtitles: RawSubtitleItem[], videoUrl: string, lang: string, serverPath: string, detectedLanguage?: string, originalFilename?: string, fileSize?: number) => void;
+  onUploadComplete: (subtitles: RawSubtitleItem[], videoUrl: string, lang: string, serverPath: string, detectedLanguage?: string, originalFilename?: string, fileSize?: number, provenance?: SubtitleProvenance, draftId?: string) => void;
   pendingProjectFile?: File | null;
   // Multi-video support
   uploadMode?: UploadMode;
@@ -66,6 +72,7 @@ export function VideoUpload({
 }: VideoUploadProps) {
 
   const [file, setFile] = useState<File | null>(null);
+  const [subtitleFile, setSubtitleFile] = useState<File | null>(null); // Optional existing track (skips AI)
   const [files, setFiles] = useState<File[]>([]); // For multi-file modes
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -76,6 +83,7 @@ export function VideoUpload({
   
   const [progress, setProgress] = useState(0);
   const [serverStage, setServerStage] = useState<string | null>(null);
+  const [serverModel, setServerModel] = useState<Omit<AIProgressEvent, 'stage'> | null>(null); // Model named by AI stages
   const [uploadedBytes, setUploadedBytes] = useState(0);
   const [totalBytes, setTotalBytes] = useState(0);
   const [uploadSpeed, setUploadSpeed] = useState(0);
@@ -129,14 +137,22 @@ export function VideoUpload({
   const uploadHistoryRef = useRef<{ timestamp: number; loaded: number }[]>([]);
 
   const activeXhrsRef = useRef<XMLHttpRequest[]>([]);
+  // Transcriptions run as queue jobs that outlive the request, so a cancel removes them too
+  const activeJobIdsRef = useRef<string[]>([]);
 
   const cancelUpload = useCallback(() => {
     activeXhrsRef.current.forEach(xhr => {
       try { xhr.abort(); } catch {}
     });
     activeXhrsRef.current = [];
+    activeJobIdsRef.current.forEach(id => {
+      fetch(`/api/queue?id=${encodeURIComponent(id)}&force=true`, { method: 'DELETE' }).catch(() => {});
+    });
+    activeJobIdsRef.current = [];
     setLoading(false);
     setIsUploading(false);
+    setServerStage(null);
+    setServerModel(null);
     setProgress(0);
     setUploadedBytes(0);
     setUploadSpeed(0);
@@ -352,6 +368,7 @@ export function VideoUpload({
     const formData = prepareUploadFormData(file, {
       secondaryLanguage: secondaryLanguage !== 'None' ? secondaryLanguage : undefined,
       model,
+      subtitleFile: subtitleFile ?? undefined,
     });
 
     const xhr = new XMLHttpRequest();
@@ -375,6 +392,7 @@ export function VideoUpload({
     });
 
     let lastIndex = 0;
+    let jobId: string | null = null;
     xhr.onreadystatechange = () => {
       if (xhr.readyState === 3 || xhr.readyState === 4) {
         // Read new chunks
@@ -388,6 +406,7 @@ export function VideoUpload({
             if (part.type === "progress") {
                // Update UI with server progress
                setServerStage(part.stage);
+               if (part.modelName) setServerModel(part);
                if (part.stage === "extracting_audio") {
                  setError(null); 
                  setProgress(part.percent ?? 0);
@@ -395,12 +414,19 @@ export function VideoUpload({
                  setProgress(part.percent ?? 100);
                } else if (part.stage === "gemini_processing") {
                  setProgress(part.percent ?? 100);
+               } else if (part.stage === "transcribing" || part.stage === "transcribing_chunks" || part.stage === "translating") {
+                 setProgress(part.percent ?? 0);
                } else if (part.stage === "generating_subtitles") {
                  setProgress(100);
                }
+            } else if (part.type === "queued") {
+              jobId = part.jobId;
+              activeJobIdsRef.current.push(part.jobId);
             } else if (part.type === "complete") {
               setServerStage(null);
+              setServerModel(null);
               const data = part.data;
+              activeJobIdsRef.current = activeJobIdsRef.current.filter(id => id !== jobId);
               // Handle completion
               if (pendingProjectFile) {
                 const reader = new FileReader();
@@ -414,19 +440,25 @@ export function VideoUpload({
                       data.videoPath,
                       data.detectedLanguage,
                       data.originalFilename,
-                      data.fileSize
+                      data.fileSize,
+                      data.provenance,
+                      data.draftId
                     );
                   } catch {
-                    onUploadComplete(data.subtitles, URL.createObjectURL(file), secondaryLanguage, data.videoPath, data.detectedLanguage, data.originalFilename, data.fileSize);
+                    onUploadComplete(data.subtitles, URL.createObjectURL(file), secondaryLanguage, data.videoPath, data.detectedLanguage, data.originalFilename, data.fileSize, data.provenance, data.draftId);
                   }
                 };
                 reader.readAsText(pendingProjectFile);
               } else {
-                 onUploadComplete(data.subtitles, URL.createObjectURL(file), secondaryLanguage, data.videoPath, data.detectedLanguage, data.originalFilename, data.fileSize);
+                 onUploadComplete(data.subtitles, URL.createObjectURL(file), secondaryLanguage, data.videoPath, data.detectedLanguage, data.originalFilename, data.fileSize, data.provenance, data.draftId);
               }
             } else if (part.type === "error") {
               setError(part.message);
               setLoading(false);
+            } else if (part.error) {
+              // Plain JSON error returned before streaming started (e.g. bad subtitle file)
+              setError(part.error);
+              setLoading(false);
             }
           } catch {
             // Partial JSON, wait for next chunk
@@ -952,9 +984,14 @@ export function VideoUpload({
                                     <div className="flex items-center gap-1.5 ml-1">
                                       {prog.stage && (
                                         <span className="text-[9px] text-[#888888] animate-pulse">
-                                          {prog.stage === 'extracting_audio' ? 'Extracting...' : 
+                                          {prog.stage === 'queued' ? 'Queued...' :
+                                           prog.stage === 'transcribing' ? 'Transcribing...' :
+                                           prog.stage === 'extracting_audio' ? 'Extracting...' : 
                                            prog.stage === 'uploading_to_gemini' ? 'Uploading...' :
                                            prog.stage === 'gemini_processing' ? 'Processing...' : 
+                                           prog.stage === 'transcribing_chunks' ? 'Chunks...' :
+                                           prog.stage === 'model_fallback' ? 'Fallback...' :
+                                           prog.stage === 'translating' ? 'Translating...' :
                                            'Subtitles...'}
                                         </span>
                                       )}
@@ -1081,7 +1118,8 @@ export function VideoUpload({
                   for (const file of project.files) {
                       const formData = prepareUploadFormData(file, {
                         secondaryLanguage,
-                        model
+                        model,
+                        skipDraft: true
                       });
 
                       // Wrapped XHR Promise for Upload
@@ -1120,6 +1158,7 @@ export function VideoUpload({
                           };
 
                           let batchLastIndex = 0;
+                          let jobId: string | null = null;
                           xhr.onreadystatechange = () => {
                             if (xhr.readyState === 3 || xhr.readyState === 4) {
                               const newText = xhr.responseText.substring(batchLastIndex);
@@ -1133,7 +1172,11 @@ export function VideoUpload({
                                       ...prev,
                                       [key]: { ...prev[key], status: 'processing', stage: part.stage, percent: part.percent, loaded: prev[key].total }
                                     }));
+                                  } else if (part.type === "queued") {
+                                    jobId = part.jobId;
+                                    activeJobIdsRef.current.push(part.jobId);
                                   } else if (part.type === "complete") {
+                                    activeJobIdsRef.current = activeJobIdsRef.current.filter(id => id !== jobId);
                                     setFileProgressMap(prev => ({
                                       ...prev,
                                       [key]: {
@@ -1362,9 +1405,14 @@ export function VideoUpload({
                                      <div className="flex items-center gap-1.5 ml-1">
                                        {prog.stage && (
                                          <span className="text-[9px] text-[#888888] animate-pulse">
-                                           {prog.stage === 'extracting_audio' ? 'Extracting...' : 
+                                           {prog.stage === 'queued' ? 'Queued...' :
+                                            prog.stage === 'transcribing' ? 'Transcribing...' :
+                                            prog.stage === 'extracting_audio' ? 'Extracting...' : 
                                             prog.stage === 'uploading_to_gemini' ? 'Uploading...' :
                                             prog.stage === 'gemini_processing' ? 'Processing...' : 
+                                            prog.stage === 'transcribing_chunks' ? 'Chunks...' :
+                                            prog.stage === 'model_fallback' ? 'Fallback...' :
+                                            prog.stage === 'translating' ? 'Translating...' :
                                             'Subtitles...'}
                                          </span>
                                        )}
@@ -1500,7 +1548,7 @@ export function VideoUpload({
                     nextToUpload = index + 1;
 
                     const item = uploadQueue[index];
-                    const formData = prepareUploadFormData(item.file, { secondaryLanguage, model });
+                    const formData = prepareUploadFormData(item.file, { secondaryLanguage, model, skipDraft: true });
                     const xhr = new XMLHttpRequest();
                     activeXhrsRef.current.push(xhr);
                     let pipelined = false;
@@ -1532,6 +1580,7 @@ export function VideoUpload({
                     };
 
                     let batchLastIndex = 0;
+                    let jobId: string | null = null;
                     xhr.onreadystatechange = async () => {
                       if (xhr.readyState === 3 || xhr.readyState === 4) {
                         const newText = xhr.responseText.substring(batchLastIndex);
@@ -1545,8 +1594,12 @@ export function VideoUpload({
                                 ...prev,
                                 [item.key]: { ...prev[item.key], status: 'processing', stage: part.stage, percent: part.percent, loaded: prev[item.key].total }
                               }));
+                            } else if (part.type === "queued") {
+                              jobId = part.jobId;
+                              activeJobIdsRef.current.push(part.jobId);
                             } else if (part.type === "complete") {
                               activeXhrsRef.current = activeXhrsRef.current.filter((x: XMLHttpRequest) => x !== xhr);
+                              activeJobIdsRef.current = activeJobIdsRef.current.filter(id => id !== jobId);
                               const data = part.data;
                               if (!projectResults[item.project.id]) projectResults[item.project.id] = [];
                               
@@ -1687,6 +1740,45 @@ export function VideoUpload({
               )}
            </div>
 
+           {!loading && (
+             <div className="flex items-center gap-2">
+               <label className="flex items-center gap-1 px-2 py-1 bg-[#2d2d2d] border border-[#3e3e42] text-[#888888] text-[10px] rounded-sm hover:bg-[#3e3e42] hover:text-[#cccccc] cursor-pointer transition-colors">
+                 <FileText className="w-3 h-3" />
+                 <span>{subtitleFile ? 'Change Subtitles' : 'Attach Existing Subtitles'}</span>
+                 <input
+                   type="file"
+                   accept={SUBTITLE_IMPORT_EXTENSIONS.join(',')}
+                   className="hidden"
+                   onChange={(e) => {
+                     const selected = e.target.files?.[0];
+                     if (!selected) return;
+                     if (!isSubtitleFile(selected.name)) {
+                       setError("Unsupported subtitle file. Use SRT, VTT, ASS/SSA or SBV.");
+                       return;
+                     }
+                     setError(null);
+                     setSubtitleFile(selected);
+                     e.target.value = '';
+                   }}
+                 />
+               </label>
+               {subtitleFile ? (
+                 <>
+                   <span className="text-[10px] text-[#cccccc] truncate flex-1">{subtitleFile.name}</span>
+                   <button
+                     onClick={() => setSubtitleFile(null)}
+                     className="p-0.5 text-[#666666] hover:text-[#f44336] transition-colors"
+                     title="Remove subtitle file"
+                   >
+                     <X className="w-3 h-3" />
+                   </button>
+                 </>
+               ) : (
+                 <span className="text-[10px] text-[#555555]">SRT, VTT, ASS/SSA or SBV — skips AI generation</span>
+               )}
+             </div>
+           )}
+
            {loading ? (
              <div className="space-y-2 bg-[#1e1e1e] p-3 border border-[#3e3e42] rounded-sm">
                 <div className="flex justify-between items-center text-xs">
@@ -1700,10 +1792,18 @@ export function VideoUpload({
                         {serverStage === 'extracting_audio' ? 'Extracting Audio...' : 
                          serverStage === 'uploading_to_gemini' ? 'Uploading to Gemini...' :
                          serverStage === 'gemini_processing' ? 'Gemini Processing...' : 
+                         serverStage === 'importing_subtitles' ? 'Importing Subtitles...' :
+                         serverStage === 'queued' ? 'Waiting in Queue...' :
+                         serverStage === 'transcribing' ? 'Transcribing...' :
+                         serverStage === 'transcribing_chunks' ? 'Transcribing in Chunks...' :
+                         serverStage === 'model_call' && serverModel ? `Calling ${serverModel.modelName}${(serverModel.totalAttempts ?? 1) > 1 ? ` (${serverModel.attempt}/${serverModel.totalAttempts})` : ''}...` :
+                         serverStage === 'model_fallback' && serverModel ? `${serverModel.modelName} failed, trying next model...` :
+                         serverStage === 'parsing_response' ? 'Parsing Response...' :
+                         serverStage === 'translating' ? 'Translating...' :
                          'Generating Subtitles...'}
                       </span>
                     )}
-                    {(!serverStage || serverStage === 'extracting_audio') ? (
+                    {(!serverStage || serverStage === 'extracting_audio' || serverStage === 'transcribing' || serverStage === 'transcribing_chunks' || serverStage === 'translating') ? (
                       <span className="font-mono text-[#007acc]">{progress}%</span>
                     ) : null}
                   </div>
@@ -1711,11 +1811,11 @@ export function VideoUpload({
                 <div className="w-full bg-[#333333] h-1 rounded-full overflow-hidden">
                   <div 
                     className={`h-1 transition-all duration-200 ${
-                      (serverStage === 'uploading_to_gemini' || serverStage === 'gemini_processing' || serverStage === 'generating_subtitles') 
+                      isIndeterminateStage(serverStage) 
                         ? 'bg-gradient-to-r from-purple-500 via-pink-500 to-purple-500 bg-[length:200%_100%] animate-gradient-x w-full' 
                         : 'bg-[#007acc]'
                     }`} 
-                    style={{ width: (serverStage === 'uploading_to_gemini' || serverStage === 'gemini_processing' || serverStage === 'generating_subtitles') ? '100%' : `${progress}%` }} 
+                    style={{ width: isIndeterminateStage(serverStage) ? '100%' : `${progress}%` }} 
                   />
                 </div>
                 <div className="flex justify-between items-center mt-2">
@@ -1737,7 +1837,7 @@ export function VideoUpload({
               className="w-full py-2 bg-[#007acc] hover:bg-[#0062a3] text-white text-sm font-semibold shadow-sm transition-colors flex items-center justify-center space-x-2 rounded-sm"
             >
               <Film className="w-4 h-4" />
-              <span>Process Video</span>
+              <span>{subtitleFile ? 'Import Video & Subtitles' : 'Process Video'}</span>
             </button>
            )}
         </div>
@@ -2,22 +2,15 @@
 
 import { useState, useCallback, useRef, useEffect } from 'react';
 import { 
-  SubtitleConfig, 
-  DEFAULT_CONFIG, 
-  VideoClip, 
-  TimelineClip, 
-  TimelineImage, 
-  ImageAsset, 
-  DEFAULT_PROJECT_CONFIG,
-  ProjectConfig,
   SubtitleLine,
   DraftItem,
 } from '@/types/subtitle';
-import { QueueItem } from '@/types/queue';
+import { QueueItem, QueuePriority, QueueThroughputStats } from '@/types/queue';
+import { compareQueueOrder, moveInQueue } from '@/lib/queue-scheduling';
 import { VideoProperties } from '@/components/VideoPropertiesDialog';
 import { UploadMode } from '@/components/VideoUpload';
 import { TabId } from '@/components/GlobalSettingsDialog';
-import { useSubtitleHistory } from './useSubtitleHistory';
+import { useProjectHistory } from './useProjectHistory';
 import { TimelineRef } from '@/components/SubtitleTimeline';
 
 
@@ -31,7 +24,9 @@ export function useDialogState() {
   const [showShortcuts, setShowShortcuts] = useState(false);
   const [showAbout, setShowAbout] = useState(false);
   const [showShiftTimings, setShowShiftTimings] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
   const [showFindReplace, setShowFindReplace] = useState(false);
+  const [showAlignTranscript, setShowAlignTranscript] = useState(false);
   const [showVideoProperties, setShowVideoProperties] = useState(false);
   const [showVideoLibrary, setShowVideoLibrary] = useState(false);
   const [showQueue, setShowQueue] = useState(false);
@@ -55,7 +50,9 @@ export function useDialogState() {
     showShortcuts, setShowShortcuts,
     showAbout, setShowAbout,
     showShiftTimings, setShowShiftTimings,
+    showHistory, setShowHistory,
     showFindReplace, setShowFindReplace,
+    showAlignTranscript, setShowAlignTranscript,
     showVideoProperties, setShowVideoProperties,
     showVideoLibrary, setShowVideoLibrary,
     showQueue, setShowQueue,
@@ -71,6 +68,10 @@ export function useQueueState() {
   const [queueItems, setQueueItems] = useState<QueueItem[]>([]);
   const [queuePaused, setQueuePaused] = useState(false);
   const [queueWidth, setQueueWidth] = useState(300);
+  // Server-side predictions (see lib/queue-eta), refreshed with every poll
+  const [queueEstimates, setQueueEstimates] = useState<Record<string, number>>({});
+  const [queueEtaMs, setQueueEtaMs] = useState<number | null>(null);
+  const [queueThroughput, setQueueThroughput] = useState<QueueThroughputStats[]>([]);
 
   // Load persisted queue width after mount. The setState is performed in a
   // non-synchronous callback to avoid cascading renders and hydration mismatches.
@@ -90,19 +91,31 @@ export function useQueueState() {
     localStorage.setItem('subtitlegem_queue_width', w.toString());
   }, []);
 
+  const applyQueueResponse = useCallback((data: {
+    items: QueueItem[];
+    isPaused: boolean;
+    estimates?: Record<string, number>;
+    estimatedTimeMs?: number | null;
+    throughput?: QueueThroughputStats[];
+  }) => {
+    setQueueItems(data.items);
+    setQueuePaused(data.isPaused);
+    setQueueEstimates(data.estimates ?? {});
+    setQueueEtaMs(data.estimatedTimeMs ?? null);
+    setQueueThroughput(data.throughput ?? []);
+  }, []);
+
   // Real-time queue updates via Polling
   const fetchQueue = useCallback(async () => {
     try {
       const res = await fetch('/api/queue');
       if (res.ok) {
-        const data = await res.json();
-        setQueueItems(data.items);
-        setQueuePaused(data.isPaused);
+        applyQueueResponse(await res.json());
       }
     } catch (error) {
       console.error("Queue poll failed:", error);
     }
-  }, []);
+  }, [applyQueueResponse]);
 
   useEffect(() => {
     let cancelled = false;
@@ -112,8 +125,7 @@ export function useQueueState() {
       .then((res) => (res.ok ? res.json() : null))
       .then((data) => {
         if (!cancelled && data) {
-          setQueueItems(data.items);
-          setQueuePaused(data.isPaused);
+          applyQueueResponse(data);
         }
       })
       .catch((error) => console.error('Queue poll failed:', error));
@@ -123,7 +135,7 @@ export function useQueueState() {
       cancelled = true;
       clearInterval(interval);
     };
-  }, [fetchQueue]);
+  }, [fetchQueue, applyQueueResponse]);
 
   const toggleQueuePause = useCallback(async () => {
     const action = queuePaused ? 'resume' : 'pause';
@@ -135,12 +147,44 @@ export function useQueueState() {
     setQueuePaused(!queuePaused);
   }, [queuePaused]);
 
+  const reorderQueueItem = useCallback(async (id: string, index: number) => {
+    // Show the new order right away; the refetch brings the server's priorities
+    setQueueItems(prev => {
+      const pending = prev.filter(i => i.status === 'pending').sort(compareQueueOrder);
+      const order = moveInQueue(pending, id, index);
+      return prev.map(item => {
+        const moved = order.find(o => o.id === item.id);
+        return moved ? { ...item, priority: moved.priority, position: moved.position } : item;
+      });
+    });
+    await fetch('/api/queue', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ action: 'reorder', id, index })
+    });
+    fetchQueue();
+  }, [fetchQueue]);
+
+  const setQueueItemPriority = useCallback(async (id: string, priority: QueuePriority) => {
+    await fetch('/api/queue', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ action: 'priority', id, priority })
+    });
+    fetchQueue();
+  }, [fetchQueue]);
+
   return {
     queueItems, setQueueItems,
     queuePaused, setQueuePaused,
+    queueEstimates,
+    queueEtaMs,
+    queueThroughput,
     queueWidth, setQueueWidth,
     handleQueueWidthChange,
     toggleQueuePause,
+    reorderQueueItem,
+    setQueueItemPriority,
     fetchQueue,
   };
 }
@@ -238,37 +282,25 @@ export function useVideoPropertiesState() {
 }
 
 /**
- * Multi-video project state management
+ * Multi-video editor state (the clips, images and project settings
+ * themselves live in the project history)
  */
 export function useMultiVideoState() {
-  const [videoClips, setVideoClips] = useState<VideoClip[]>([]);
-  const [timelineClips, setTimelineClips] = useState<TimelineClip[]>([]);
-  const [timelineImages, setTimelineImages] = useState<TimelineImage[]>([]);
-  const [imageAssets, setImageAssets] = useState<ImageAsset[]>([]);
-  const [projectConfig, setProjectConfig] = useState<ProjectConfig>(DEFAULT_PROJECT_CONFIG);
   const [uploadMode, setUploadMode] = useState<UploadMode>('single');
   const [selectedClipId, setSelectedClipId] = useState<string | null>(null);
   const [selectedImageId, setSelectedImageId] = useState<string | null>(null);
   const [isLibraryCollapsed, setIsLibraryCollapsed] = useState(false);
   const [showSecondaryTracks, setShowSecondaryTracks] = useState(false); // Default hidden
 
-  const isMultiVideoMode = videoClips.length > 0 || uploadMode === 'multi-video';
-
   // Timeline Zoom Ref
   const timelineRef = useRef<TimelineRef>(null);
 
   return {
-    videoClips, setVideoClips,
-    timelineClips, setTimelineClips,
-    timelineImages, setTimelineImages,
-    imageAssets, setImageAssets,
-    projectConfig, setProjectConfig,
     uploadMode, setUploadMode,
     selectedClipId, setSelectedClipId,
     selectedImageId, setSelectedImageId,
     isLibraryCollapsed, setIsLibraryCollapsed,
     showSecondaryTracks, setShowSecondaryTracks,
-    isMultiVideoMode,
     timelineRef,
   };
 }
@@ -296,7 +328,6 @@ export function useCoreState() {
   const [videoPath, setVideoPath] = useState<string | null>(null);
   const [duration, setDuration] = useState(0);
   const [currentTime, setCurrentTime] = useState(0);
-  const [config, setConfig] = useState<SubtitleConfig>(DEFAULT_CONFIG);
   const [loading, setLoading] = useState(false);
   const [activeTab, setActiveTab] = useState<'list' | 'style'>('list');
   const [initialSubtitles, setInitialSubtitles] = useState<SubtitleLine[] | null>(null);
@@ -306,7 +337,6 @@ export function useCoreState() {
     setVideoPath(null);
     setDuration(0);
     setCurrentTime(0);
-    setConfig(DEFAULT_CONFIG);
     setInitialSubtitles(null);
   }, []);
 
@@ -315,7 +345,6 @@ export function useCoreState() {
     videoPath, setVideoPath,
     duration, setDuration,
     currentTime, setCurrentTime,
-    config, setConfig,
     loading, setLoading,
     activeTab, setActiveTab,
     initialSubtitles, setInitialSubtitles,
@@ -334,7 +363,8 @@ export function useHomeState() {
   const videoProperties = useVideoPropertiesState();
   const multiVideo = useMultiVideoState();
   const selection = useSelectionState();
-  const history = useSubtitleHistory([]);
+  const history = useProjectHistory();
+  const isMultiVideoMode = history.videoClips.length > 0 || multiVideo.uploadMode === 'multi-video';
 
   return {
     ...core,
@@ -345,5 +375,6 @@ export function useHomeState() {
     ...multiVideo,
     ...selection,
     ...history,
+    isMultiVideoMode,
   };
 }
@@ -0,0 +1,129 @@
+import { renderHook, act } from '@testing-library/react';
+import { useProjectHistory, INITIAL_PROJECT_SNAPSHOT } from './useProjectHistory';
+import { MAX_HISTORY_ENTRIES } from '@/lib/project-history';
+import { SubtitleLine, TimelineClip } from '@/types/subtitle';
+
+describe('useProjectHistory', () => {
+    const initialSubtitles: SubtitleLine[] = [
+        { id: '1', startTime: 0, endTime: 1000, text: 'Hello' }
+    ];
+    const initial = { ...INITIAL_PROJECT_SNAPSHOT, subtitles: initialSubtitles };
+    const clip: TimelineClip = { id: 'c1', videoClipId: 'v1', projectStartTime: 0, sourceInPoint: 0, clipDuration: 10 };
+
+    it('should initialize with provided state', () => {
+        const { result } = renderHook(() => useProjectHistory(initial));
+        expect(result.current.subtitles).toEqual(initialSubtitles);
+        expect(result.current.canUndo).toBe(false);
+        expect(result.current.canRedo).toBe(false);
+    });
+
+    it('should undo and redo changes to any part of the project', () => {
+        const { result } = renderHook(() => useProjectHistory(initial));
+
+        act(() => result.current.setTimelineClips([clip]));
+        act(() => result.current.setProjectConfig(prev => ({ ...prev, fps: 25 })));
+        act(() => result.current.setConfig(prev => ({ ...prev, primary: { ...prev.primary, fontSize: 7 } })));
+
+        expect(result.current.historyEntries.map(e => e.label)).toEqual([
+            'Add clip', 'Change project settings', 'Change subtitle settings'
+        ]);
+
+        act(() => result.current.undo());
+        act(() => result.current.undo());
+        expect(result.current.config).toEqual(INITIAL_PROJECT_SNAPSHOT.config);
+        expect(result.current.projectConfig).toEqual(INITIAL_PROJECT_SNAPSHOT.projectConfig);
+        expect(result.current.timelineClips).toEqual([clip]);
+        expect(result.current.canRedo).toBe(true);
+
+        act(() => result.current.redo());
+        expect(result.current.projectConfig.fps).toBe(25);
+    });
+
+    it('should label entries from options', () => {
+        const { result } = renderHook(() => useProjectHistory(initial));
+        act(() => result.current.setSubtitles([], { label: 'Cut' }));
+        expect(result.current.historyEntries).toEqual([{ label: 'Cut', timestamp: expect.any(Number) }]);
+    });
+
+    it('should reset history correctly', () => {
+        const { result } = renderHook(() => useProjectHistory(initial));
+        const newSubtitles = [...initialSubtitles, { id: '2', text: 'New', startTime: 1000, endTime: 2000 }];
+
+        act(() => {
+            result.current.setSubtitles(newSubtitles);
+        });
+        expect(result.current.canUndo).toBe(true);
+
+        // Slice updates queued before the reset are kept but not undoable
+        act(() => {
+            result.current.setTimelineClips([clip]);
+            result.current.resetHistory([]);
+        });
+
+        expect(result.current.subtitles).toEqual([]);
+        expect(result.current.timelineClips).toEqual([clip]);
+        expect(result.current.canUndo).toBe(false);
+        expect(result.current.canRedo).toBe(false);
+    });
+
+    it('should clear redo stack when a new change is made', () => {
+        const { result } = renderHook(() => useProjectHistory(initial));
+        const step1 = [...initialSubtitles, { id: '2', text: 'Step 1', startTime: 0, endTime: 1 }];
+        const step2 = [...initialSubtitles, { id: '3', text: 'Step 2', startTime: 0, endTime: 1 }];
+
+        act(() => result.current.setSubtitles(step1));
+        act(() => result.current.undo());
+
+        expect(result.current.canRedo).toBe(true);
+
+        act(() => result.current.setSubtitles(step2));
+
+        expect(result.current.subtitles).toEqual(step2);
+        expect(result.current.canUndo).toBe(true);
+        expect(result.current.canRedo).toBe(false);
+    });
+
+    it('should jump to any point in the history', () => {
+        const { result } = renderHook(() => useProjectHistory(initial));
+        for (let i = 2; i <= 4; i++) {
+            act(() => result.current.setSubtitles(prev => [...prev, { id: `${i}`, text: `${i}`, startTime: i, endTime: i + 1 }]));
+        }
+
+        act(() => result.current.jumpToHistory(1));
+        expect(result.current.subtitles.map(s => s.id)).toEqual(['1', '2']);
+        expect(result.current.historyPosition).toBe(1);
+        expect(result.current.historyEntries).toHaveLength(3);
+
+        act(() => result.current.jumpToHistory(3));
+        expect(result.current.subtitles.map(s => s.id)).toEqual(['1', '2', '3', '4']);
+    });
+
+    it('should respect max history size', () => {
+        const { result } = renderHook(() => useProjectHistory(initial));
+
+        for (let i = 0; i < MAX_HISTORY_ENTRIES + 10; i++) {
+            act(() => {
+                result.current.setSubtitles(prev => [...prev, { id: `n${i}`, text: `Line ${i}`, startTime: 0, endTime: 10 }]);
+            });
+        }
+
+        for (let i = 0; i < MAX_HISTORY_ENTRIES; i++) {
+            act(() => result.current.undo());
+        }
+
+        // The oldest changes fell off the stack
+        expect(result.current.canUndo).toBe(false);
+        expect(result.current.subtitles).toHaveLength(11);
+    });
+
+    it('should ignore updates that do not change content', () => {
+        const { result } = renderHook(() => useProjectHistory(initial));
+
+        act(() => {
+            result.current.setSubtitles([...initialSubtitles]);
+            result.current.setConfig({ ...INITIAL_PROJECT_SNAPSHOT.config });
+        });
+
+        expect(result.current.canUndo).toBe(false);
+    });
+});
@@ -0,0 +1,121 @@
+"use client";
+
+import { useState, useCallback, useMemo } from "react";
+import {
+  SubtitleLine,
+  SubtitleConfig,
+  VideoClip,
+  TimelineClip,
+  TimelineImage,
+  ImageAsset,
+  ProjectConfig,
+  DEFAULT_CONFIG,
+  DEFAULT_PROJECT_CONFIG,
+} from "@/types/subtitle";
+import {
+  ProjectSnapshot,
+  ProjectSlice,
+  RecordOptions,
+  createHistory,
+  recordChange,
+  undoHistory,
+  redoHistory,
+  jumpToHistory,
+} from "@/lib/project-history";
+
+type SetStateAction<T> = T | ((prev: T) => T);
+
+/** Setter for one slice of the project; `options` labels the history entry. */
+export type HistorySetter<T> = (value: SetStateAction<T>, options?: RecordOptions) => void;
+
+export interface HistoryEntry {
+  label: string;
+  timestamp: number;
+}
+
+export interface UseProjectHistoryReturn extends ProjectSnapshot {
+  setSubtitles: HistorySetter<SubtitleLine[]>;
+  setConfig: HistorySetter<SubtitleConfig>;
+  setVideoClips: HistorySetter<VideoClip[]>;
+  setTimelineClips: HistorySetter<TimelineClip[]>;
+  setTimelineImages: HistorySetter<TimelineImage[]>;
+  setImageAssets: HistorySetter<ImageAsset[]>;
+  setProjectConfig: HistorySetter<ProjectConfig>;
+  undo: () => void;
+  redo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  /** Applied commands (oldest first) followed by undone ones (next redo first). */
+  historyEntries: HistoryEntry[];
+  /** Number of entries in `historyEntries` that are currently applied. */
+  historyPosition: number;
+  jumpToHistory: (position: number) => void;
+  /** Start a fresh history (used when loading projects); other slices keep their values. */
+  resetHistory: (subtitles: SubtitleLine[]) => void;
+}
+
+export const INITIAL_PROJECT_SNAPSHOT: ProjectSnapshot = {
+  subtitles: [],
+  config: DEFAULT_CONFIG,
+  videoClips: [],
+  timelineClips: [],
+  timelineImages: [],
+  imageAssets: [],
+  projectConfig: DEFAULT_PROJECT_CONFIG,
+};
+
+/**
+ * Project state with undo/redo across subtitles, styles, the video and image
+ * libraries, the timeline and project settings. Every setter records a
+ * labeled command; see `@/lib/project-history` for how they are stored.
+ */
+export function useProjectHistory(initial: ProjectSnapshot = INITIAL_PROJECT_SNAPSHOT): UseProjectHistoryReturn {
+  const [history, setHistory] = useState(() => createHistory(initial));
+
+  const setters = useMemo(() => {
+    const setterFor = <S extends ProjectSlice>(slice: S): HistorySetter<ProjectSnapshot[S]> =>
+      (value, options) => setHistory(prev => {
+        const resolved = typeof value === 'function'
+          ? (value as (prev: ProjectSnapshot[S]) => ProjectSnapshot[S])(prev.present[slice])
+          : value;
+        return recordChange(prev, slice, resolved, options);
+      });
+
+    return {
+      setSubtitles: setterFor('subtitles'),
+      setConfig: setterFor('config'),
+      setVideoClips: setterFor('videoClips'),
+      setTimelineClips: setterFor('timelineClips'),
+      setTimelineImages: setterFor('timelineImages'),
+      setImageAssets: setterFor('imageAssets'),
+      setProjectConfig: setterFor('projectConfig'),
+    };
+  }, []);
+
+  const undo = useCallback(() => setHistory(undoHistory), []);
+  const redo = useCallback(() => setHistory(redoHistory), []);
+  const jumpTo = useCallback((position: number) => setHistory(prev => jumpToHistory(prev, position)), []);
+
+  // Queued like the setters, so it lands after any slice updates made just before it
+  const resetHistory = useCallback((subtitles: SubtitleLine[]) => {
+    setHistory(prev => createHistory({ ...prev.present, subtitles }));
+  }, []);
+
+  const historyEntries = useMemo(
+    () => [...history.past, ...[...history.future].reverse()].map(({ label, timestamp }) => ({ label, timestamp })),
+    [history.past, history.future]
+  );
+
+  return {
+    ...history.present,
+    ...setters,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+    historyEntries,
+    historyPosition: history.past.length,
+    jumpToHistory: jumpTo,
+    resetHistory,
+  };
+}
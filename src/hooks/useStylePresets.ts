@@ -0,0 +1,73 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { StylePreset } from "@/types/subtitle";
+import { StylePresetInput } from "@/lib/style-presets";
+
+async function readJson(res: Response) {
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data.error || `HTTP ${res.status}`);
+  return data;
+}
+
+/**
+ * The shared style preset library (/api/presets). Actions resolve once the
+ * server has the change and the list is updated; failures reject and set
+ * `error`.
+ */
+export function useStylePresets(enabled = true) {
+  const [presets, setPresets] = useState<StylePreset[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = useCallback(async <T,>(action: () => Promise<T>): Promise<T> => {
+    setError(null);
+    try {
+      return await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+      throw err;
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!enabled) return;
+    fetch('/api/presets')
+      .then(readJson)
+      .then(data => setPresets(data.presets || []))
+      .catch(err => console.error("Failed to load style presets:", err));
+  }, [enabled]);
+
+  const createPreset = useCallback((input: StylePresetInput) => run(async () => {
+    const preset: StylePreset = await readJson(await fetch('/api/presets', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(input),
+    }));
+    setPresets(prev => [...prev, preset].sort((a, b) => a.name.localeCompare(b.name)));
+    return preset;
+  }), [run]);
+
+  const deletePreset = useCallback((id: string) => run(async () => {
+    await readJson(await fetch(`/api/presets?id=${encodeURIComponent(id)}`, { method: 'DELETE' }));
+    setPresets(prev => prev.filter(p => p.id !== id));
+  }), [run]);
+
+  /** Import the text of an exported presets file. Returns how many were imported. */
+  const importPresets = useCallback((json: string) => run(async () => {
+    let data: unknown;
+    try {
+      data = JSON.parse(json);
+    } catch {
+      throw new Error('Style preset file is not valid JSON');
+    }
+    const result = await readJson(await fetch('/api/presets/import', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(data),
+    }));
+    setPresets(result.presets);
+    return result.imported as number;
+  }), [run]);
+
+  return { presets, error, createPreset, deletePreset, importPresets };
+}
@@ -0,0 +1,75 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { SubtitleLine, QCSettings } from "@/types/subtitle";
+import { checkSubtitles, fixQCIssues, resolveQCRules, QCIssue, QCContext } from "@/lib/subtitle-qc";
+
+// Shared with other editor instances; the server also caches them on disk
+const shotChangeCache = new Map<string, Promise<number[]>>();
+
+function fetchShotChanges(filePath: string): Promise<number[]> {
+  let shots = shotChangeCache.get(filePath);
+  if (!shots) {
+    shots = fetch(`/api/shot-changes?path=${encodeURIComponent(filePath)}`)
+      .then(res => (res.ok ? res.json() : Promise.reject(new Error(`HTTP ${res.status}`))))
+      .then(data => (Array.isArray(data.shotChanges) ? data.shotChanges : []));
+    shots.catch(err => {
+      console.warn('[QC] Failed to load shot changes:', err);
+      shotChangeCache.delete(filePath);
+    });
+    shotChangeCache.set(filePath, shots);
+  }
+  return shots;
+}
+
+/**
+ * Live quality check of the editor's subtitles. Returns issues by line id
+ * (empty while checks are off) and a function that applies the automatic
+ * fixes to some or all lines.
+ */
+export function useSubtitleQC(
+  subtitles: SubtitleLine[],
+  settings: QCSettings | undefined,
+  fps: number,
+  getMediaPath: (line: SubtitleLine) => string | null
+) {
+  const rules = useMemo(() => (settings ? resolveQCRules(settings) : null), [settings]);
+  const [shotChanges, setShotChanges] = useState<Record<string, number[]>>({});
+
+  const mediaPaths = useMemo(() => {
+    if (!rules || rules.shotChangeFrames <= 0) return [];
+    return [...new Set(subtitles.map(getMediaPath).filter((p): p is string => !!p))];
+  }, [rules, subtitles, getMediaPath]);
+
+  useEffect(() => {
+    if (typeof fetch === 'undefined') return;
+    let cancelled = false;
+    for (const mediaPath of mediaPaths) {
+      if (shotChanges[mediaPath]) continue;
+      fetchShotChanges(mediaPath)
+        .then(shots => {
+          if (!cancelled) setShotChanges(prev => ({ ...prev, [mediaPath]: shots }));
+        })
+        .catch(() => { /* checked without shot changes */ });
+    }
+    return () => { cancelled = true; };
+  }, [mediaPaths, shotChanges]);
+
+  const context = useMemo<QCContext>(() => ({
+    fps,
+    getShotChanges: (line) => {
+      const mediaPath = getMediaPath(line);
+      return mediaPath ? shotChanges[mediaPath] : undefined;
+    },
+  }), [fps, getMediaPath, shotChanges]);
+
+  const issues = useMemo<Record<string, QCIssue[]>>(
+    () => (rules ? checkSubtitles(subtitles, rules, context) : {}),
+    [rules, subtitles, context]
+  );
+
+  const fix = useCallback((lines: SubtitleLine[], ids?: string[]) =>
+    (rules ? fixQCIssues(lines, rules, context, ids) : lines), [rules, context]);
+
+  return { issues, fix };
+}
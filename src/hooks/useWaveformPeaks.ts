@@ -0,0 +1,133 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+
+interface WaveformInfo {
+  duration: number;
+  segmentSize: number;
+  levels: { peaksPerSecond: number; length: number }[];
+}
+
+export interface WaveformPeaks {
+  peaksPerSecond: number;
+  /** Index of the first peak in `peaks` within the whole level */
+  startIndex: number;
+  /** Interleaved [min, max] pairs scaled to -127..127 */
+  peaks: number[];
+}
+
+// Shared across timeline blocks: several clips often reference the same file
+const infoCache = new Map<string, Promise<WaveformInfo | null>>();
+const segmentCache = new Map<string, Promise<number[]>>();
+
+function waveformUrl(filePath: string, extra = ''): string {
+  return `/api/waveform?path=${encodeURIComponent(filePath)}${extra}`;
+}
+
+function fetchInfo(filePath: string): Promise<WaveformInfo | null> {
+  let info = infoCache.get(filePath);
+  if (!info) {
+    info = fetch(waveformUrl(filePath))
+      .then(res => (res.ok ? res.json() : null))
+      .catch(err => {
+        console.warn('[Waveform] Failed to load peaks:', err);
+        return null;
+      });
+    infoCache.set(filePath, info);
+  }
+  return info;
+}
+
+function fetchSegment(filePath: string, level: number, segment: number): Promise<number[]> {
+  const key = `${filePath}|${level}|${segment}`;
+  let peaks = segmentCache.get(key);
+  if (!peaks) {
+    peaks = fetch(waveformUrl(filePath, `&level=${level}&segment=${segment}`))
+      .then(res => (res.ok ? res.json() : Promise.reject(new Error(`HTTP ${res.status}`))))
+      .then(data => (Array.isArray(data.peaks) ? data.peaks : []));
+    // Don't keep failures around, so the next render retries
+    peaks.catch(() => segmentCache.delete(key));
+    segmentCache.set(key, peaks);
+  }
+  return peaks;
+}
+
+/**
+ * Coarsest level that still has at least one peak per pixel, or the finest
+ * one when zoomed in beyond it.
+ */
+export function pickWaveformLevel(levels: { peaksPerSecond: number }[], pixelsPerSecond: number): number {
+  for (let i = levels.length - 1; i >= 0; i--) {
+    if (levels[i].peaksPerSecond >= pixelsPerSecond) return i;
+  }
+  return 0;
+}
+
+/**
+ * Real waveform peaks of `filePath` covering [start, end] (seconds of the
+ * source media) at a resolution matching `pixelsPerSecond`. Only the segments
+ * of the chosen level that overlap the range are fetched.
+ */
+export function useWaveformPeaks(
+  filePath: string | undefined,
+  pixelsPerSecond: number,
+  start: number,
+  end: number
+): WaveformPeaks | null {
+  // Keyed by file so a stale result is ignored when the clip changes
+  const [loadedInfo, setLoadedInfo] = useState<{ filePath: string; info: WaveformInfo | null } | null>(null);
+  const [data, setData] = useState<{ filePath: string; peaks: WaveformPeaks } | null>(null);
+  const info = filePath && loadedInfo?.filePath === filePath ? loadedInfo.info : null;
+
+  useEffect(() => {
+    if (!filePath || typeof fetch === 'undefined') return;
+    let cancelled = false;
+    fetchInfo(filePath).then(result => {
+      if (!cancelled) setLoadedInfo({ filePath, info: result });
+    });
+    return () => { cancelled = true; };
+  }, [filePath]);
+
+  const level = info && info.levels.length > 0 ? pickWaveformLevel(info.levels, pixelsPerSecond) : -1;
+
+  // Re-fetch only when the range crosses a segment boundary, not on every scroll
+  const segments = useMemo(() => {
+    if (!info || level < 0) return null;
+    const { peaksPerSecond, length } = info.levels[level];
+    const last = Math.max(0, Math.ceil(length / info.segmentSize) - 1);
+    const first = Math.min(last, Math.max(0, Math.floor((start * peaksPerSecond) / info.segmentSize)));
+    const until = Math.min(last, Math.max(first, Math.floor((end * peaksPerSecond) / info.segmentSize)));
+    return { first, until };
+  }, [info, level, start, end]);
+
+  const firstSegment = segments?.first;
+  const lastSegment = segments?.until;
+
+  useEffect(() => {
+    if (!filePath || !info || firstSegment === undefined || lastSegment === undefined) return;
+    let cancelled = false;
+
+    const requests: Promise<number[]>[] = [];
+    for (let segment = firstSegment; segment <= lastSegment; segment++) {
+      requests.push(fetchSegment(filePath, level, segment));
+    }
+
+    Promise.all(requests)
+      .then(parts => {
+        if (cancelled) return;
+        setData({
+          filePath,
+          peaks: {
+            peaksPerSecond: info.levels[level].peaksPerSecond,
+            startIndex: firstSegment * info.segmentSize,
+            peaks: parts.flat(),
+          },
+        });
+      })
+      .catch(err => console.warn('[Waveform] Failed to load peaks:', err));
+
+    return () => { cancelled = true; };
+  }, [filePath, info, level, firstSegment, lastSegment]);
+
+  return info && data && data.filePath === filePath ? data.peaks : null;
+}
@@ -5,8 +5,9 @@ import { ModelConfig } from '@/types/subtitle';
 // Mock the gemini module
 jest.mock('./gemini', () => ({
   generateSubtitles: jest.fn(),
-  translateSubtitles: jest.fn(),
-  generateSubtitlesInline: jest.fn()
+  translateBatch: jest.fn(),
+  generateSubtitlesInline: jest.fn(),
+  alignTranscript: jest.fn()
 }));
 
 // Mock console to keep output clean
@@ -72,4 +73,243 @@ describe('ai-provider', () => {
          .rejects.toThrow('Fatal error');
     });
   });
+
+  describe('progress and cancellation', () => {
+    const backup: ModelConfig = { ...geminiConfig, id: '2', modelName: 'gemini-backup' };
+
+    test('reports each model attempt, fallbacks and parsing', async () => {
+      (gemini.generateSubtitles as jest.Mock)
+        .mockRejectedValueOnce(new Error('Candidate was blocked due to safety'))
+        .mockImplementationOnce(async (...args) => {
+          args[6].onResponse();
+          return { subtitles: [{ id: '1', startTime: 0, endTime: 1, text: 'ok' }] };
+        });
+      const onProgress = jest.fn();
+
+      await processWithFallback('generate', { ...mockParams, onProgress }, [geminiConfig, backup]);
+
+      expect(onProgress.mock.calls.map(([event]) => event)).toEqual([
+        { stage: 'model_call', provider: 'gemini', modelName: 'gemini-pro', attempt: 1, totalAttempts: 2 },
+        { stage: 'model_fallback', provider: 'gemini', modelName: 'gemini-pro', attempt: 1, totalAttempts: 2, message: 'Candidate was blocked due to safety' },
+        { stage: 'model_call', provider: 'gemini', modelName: 'gemini-backup', attempt: 2, totalAttempts: 2 },
+        { stage: 'parsing_response', provider: 'gemini', modelName: 'gemini-backup' },
+      ]);
+    });
+
+    test('reports translation progress by line', async () => {
+      (gemini.translateBatch as jest.Mock).mockImplementation(async (batch) =>
+        batch.lines.map((line: { id: string }) => ({ id: line.id, secondaryText: 'x' }))
+      );
+      const onProgress = jest.fn();
+      const subtitles = [{ id: 'a', startTime: 0, endTime: 1, text: 'One' }];
+
+      await processWithFallback('translate', { subtitles, targetLanguage: 'French', onProgress }, [geminiConfig]);
+
+      expect(onProgress).toHaveBeenLastCalledWith({ stage: 'translating', percent: 100 });
+    });
+
+    test('forwards the signal and stops walking the chain once cancelled', async () => {
+      const controller = new AbortController();
+      (gemini.generateSubtitles as jest.Mock).mockImplementationOnce(async () => {
+        controller.abort();
+        throw Object.assign(new Error('This operation was aborted'), { status: 503 });
+      });
+
+      await expect(
+        processWithFallback('generate', { ...mockParams, signal: controller.signal }, [geminiConfig, backup])
+      ).rejects.toThrow('aborted');
+
+      expect(gemini.generateSubtitles).toHaveBeenCalledTimes(1);
+      expect((gemini.generateSubtitles as jest.Mock).mock.calls[0][6].signal).toBe(controller.signal);
+    });
+
+    test('does not start when already cancelled', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(
+        processWithFallback('generate', { ...mockParams, signal: controller.signal }, [geminiConfig])
+      ).rejects.toThrow();
+      expect(gemini.generateSubtitles).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('second-pass translation', () => {
+    const transcriber: ModelConfig = { id: '2', provider: 'openai', modelName: 'gpt-4o', apiKey: 'k', enabled: true };
+    const lines = [
+      { id: 'a', startTime: 0, endTime: 1, text: 'Hello' },
+      { id: 'b', startTime: 1, endTime: 2, text: 'World' },
+    ];
+
+    test('translates a transcription-only result and records both providers', async () => {
+      // Gemini refuses, the fallback only transcribes, then Gemini translates
+      (gemini.generateSubtitlesInline as jest.Mock).mockRejectedValue(new Error('blocked for safety'));
+      global.fetch = jest.fn().mockResolvedValue({
+        ok: true,
+        json: async () => ({ language: 'english', segments: [{ start: 0, end: 1, text: 'Hello' }, { start: 1, end: 2, text: 'World' }] }),
+      }) as unknown as typeof fetch;
+      // Answers out of order still land on the right lines: they're matched by id
+      (gemini.translateBatch as jest.Mock).mockImplementation(async (batch) =>
+        [...batch.lines].reverse().map((line: { id: string; text: string }) => ({ id: line.id, secondaryText: `fr:${line.text}` }))
+      );
+
+      const result = await processWithFallback(
+        'generate',
+        { isInline: true, base64Data: 'AAAA', mimeType: 'audio/mp4', secondaryLanguage: 'French' },
+        [geminiConfig, transcriber]
+      );
+
+      expect(gemini.translateBatch).toHaveBeenCalledWith(
+        expect.objectContaining({ lines: [{ id: '1', text: 'Hello' }, { id: '2', text: 'World' }] }), 'French', 'gemini-pro', expect.anything(), expect.anything()
+      );
+      expect(result.subtitles.map(l => l.secondaryText)).toEqual(['fr:Hello', 'fr:World']);
+      expect(result.provider).toBe('openai');
+      expect(result.provenance).toEqual({
+        primary: { provider: 'openai', modelName: 'gpt-4o' },
+        secondary: { provider: 'gemini', modelName: 'gemini-pro' },
+      });
+    });
+
+    test('skips the pass when the secondary track is present or not requested', async () => {
+      (gemini.generateSubtitles as jest.Mock).mockResolvedValue({
+        subtitles: [{ ...lines[0], secondaryText: 'Bonjour' }],
+      });
+      const bilingual = await processWithFallback('generate', { ...mockParams, secondaryLanguage: 'French' }, [geminiConfig]);
+      expect(bilingual.provenance).toEqual({
+        primary: { provider: 'gemini', modelName: 'gemini-pro' },
+        secondary: { provider: 'gemini', modelName: 'gemini-pro' },
+      });
+
+      (gemini.generateSubtitles as jest.Mock).mockResolvedValue({ subtitles: lines });
+      const monolingual = await processWithFallback('generate', mockParams, [geminiConfig]);
+      expect(monolingual.provenance).toEqual({ primary: { provider: 'gemini', modelName: 'gemini-pro' } });
+
+      expect(gemini.translateBatch).not.toHaveBeenCalled();
+    });
+
+    test('keeps the primary track when the translation pass fails', async () => {
+      (gemini.generateSubtitles as jest.Mock).mockResolvedValue({ subtitles: lines });
+      (gemini.translateBatch as jest.Mock).mockRejectedValue(new Error('Quota exceeded'));
+
+      const result = await processWithFallback('generate', { ...mockParams, secondaryLanguage: 'French' }, [geminiConfig]);
+
+      expect(result.subtitles).toEqual(lines);
+      expect(result.provenance.secondary).toBeUndefined();
+      expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('Translation pass failed'), 'Quota exceeded');
+    });
+  });
+
+  describe('re-segmentation', () => {
+    test('splits long generated lines and keeps Gemini timestamp strings', async () => {
+      (gemini.generateSubtitles as jest.Mock).mockResolvedValue({
+        detectedLanguage: 'en',
+        subtitles: [
+          { startTime: '00:00:00,000', endTime: '00:00:04,100', text: 'aaaa bbbb cccc dddd. eeee ffff gggg hhhh.' },
+          { startTime: '00:00:05,000', endTime: '00:00:06,000', text: 'Short' },
+        ]
+      });
+
+      const result = await processWithFallback('generate', { ...mockParams, segmentation: { maxLineWidth: 20, maxLines: 1 } }, [geminiConfig]);
+
+      expect(result.subtitles).toEqual([
+        { startTime: '00:00:00,000', endTime: '00:00:02,000', text: 'aaaa bbbb cccc dddd.' },
+        { startTime: '00:00:02,000', endTime: '00:00:04,100', text: 'eeee ffff gggg hhhh.' },
+        { startTime: '00:00:05,000', endTime: '00:00:06,000', text: 'Short' },
+      ]);
+    });
+  });
+
+  describe('prompt guidance', () => {
+    const glossary = [{ term: 'Kubernetes', doNotTranslate: true }];
+
+    test('passes promptHints, glossary and the spoken language to Gemini generation and translation', async () => {
+      (gemini.generateSubtitles as jest.Mock).mockResolvedValue({ subtitles: [] });
+      (gemini.translateBatch as jest.Mock).mockResolvedValue([{ id: 'a', secondaryText: 'Bonjour' }]);
+
+      await processWithFallback('generate', { ...mockParams, promptHints: 'Two speakers', glossary, language: 'Spanish' }, [geminiConfig]);
+      expect(gemini.generateSubtitles).toHaveBeenCalledWith(
+        'gs://test', 'audio/mp3', undefined, 1, 'gemini-pro', { promptHints: 'Two speakers', glossary, language: 'Spanish' }, expect.anything()
+      );
+
+      await processWithFallback('translate', { subtitles: [{ id: 'a', startTime: 0, endTime: 1, text: 'Hello' }], targetLanguage: 'French', glossary }, [geminiConfig]);
+      expect(gemini.translateBatch).toHaveBeenCalledWith(
+        expect.objectContaining({ lines: [{ id: 'a', text: 'Hello' }] }), 'French', 'gemini-pro', { promptHints: undefined, glossary }, expect.anything()
+      );
+    });
+
+    test('adds the glossary to OpenAI-compatible translation prompts', async () => {
+      const fetchMock = jest.fn().mockResolvedValue({
+        ok: true,
+        json: async () => ({ choices: [{ message: { content: '{"translations": [{"id": "a", "secondaryText": "Bonjour"}]}' } }] }),
+      });
+      global.fetch = fetchMock as unknown as typeof fetch;
+
+      const openaiConfig: ModelConfig = { id: '3', provider: 'openai', modelName: 'gpt-4o', enabled: true, apiKey: 'k' };
+      await processWithFallback('translate', { subtitles: [{ id: 'a', startTime: 0, endTime: 1, text: 'Hello' }], targetLanguage: 'French', glossary }, [openaiConfig]);
+
+      const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+      expect(body.messages[1].content).toContain('"Kubernetes" (do not translate; keep as "Kubernetes" in French)');
+    });
+
+    test('retries only the lines the model dropped and reports per-line status', async () => {
+      const subtitles = [
+        { id: 'a', startTime: 0, endTime: 1, text: 'One' },
+        { id: 'b', startTime: 1, endTime: 2, text: 'Two' },
+        { id: 'c', startTime: 2, endTime: 3, text: '' },
+      ];
+      (gemini.translateBatch as jest.Mock)
+        .mockResolvedValueOnce([{ id: 'a', secondaryText: 'Un' }])
+        .mockResolvedValueOnce([{ id: 'b', secondaryText: 'Deux' }]);
+
+      const result = await processWithFallback('translate', { subtitles, targetLanguage: 'French' }, [geminiConfig]);
+
+      expect((gemini.translateBatch as jest.Mock).mock.calls[1][0].lines).toEqual([{ id: 'b', text: 'Two' }]);
+      expect(result.subtitles.map(l => l.secondaryText)).toEqual(['Un', 'Deux', undefined]);
+      expect(result.translationStatus).toEqual({ a: 'translated', b: 'retried', c: 'skipped' });
+      expect(result.provenance.secondary).toEqual({ provider: 'gemini', modelName: 'gemini-pro' });
+    });
+  });
+
+  describe('transcript alignment', () => {
+    const transcript = [
+      { id: '1', text: 'Hello there.' },
+      { id: '2', text: 'General Kenobi!' },
+    ];
+
+    test('keeps the transcript wording and only takes timings', async () => {
+      (gemini.alignTranscript as jest.Mock).mockResolvedValue([
+        { id: '1', startTime: 1, endTime: 2 },
+        { id: '2', startTime: 3, endTime: 4 },
+      ]);
+
+      const result = await processWithFallback('align', { ...mockParams, transcript }, [geminiConfig]);
+
+      expect(gemini.alignTranscript).toHaveBeenCalledWith(
+        { fileUri: 'gs://test' }, 'audio/mp3', transcript, 'gemini-pro', expect.anything()
+      );
+      expect(result.subtitles).toEqual([
+        { id: '1', startTime: 1, endTime: 2, text: 'Hello there.' },
+        { id: '2', startTime: 3, endTime: 4, text: 'General Kenobi!' },
+      ]);
+      expect(result.alignmentStatus).toEqual({ '1': 'aligned', '2': 'aligned' });
+    });
+
+    test('falls back when nothing could be aligned', async () => {
+      const backup: ModelConfig = { ...geminiConfig, id: '2', modelName: 'gemini-backup' };
+      (gemini.alignTranscript as jest.Mock)
+        .mockRejectedValueOnce(Object.assign(new Error('Overloaded'), { status: 503 }))
+        .mockResolvedValueOnce([{ id: '2', startTime: 5, endTime: 6 }]);
+
+      const result = await processWithFallback('align', { ...mockParams, transcript }, [geminiConfig, backup]);
+
+      expect(result.modelName).toBe('gemini-backup');
+      expect(result.alignmentStatus).toEqual({ '1': 'interpolated', '2': 'aligned' });
+      expect(result.subtitles[0].endTime).toBeLessThanOrEqual(5);
+    });
+
+    test('rejects an empty transcript', async () => {
+      await expect(processWithFallback('align', { ...mockParams, transcript: [] }, [geminiConfig]))
+        .rejects.toThrow('Transcript is empty.');
+    });
+  });
 });
@@ -0,0 +1,213 @@
+/**
+ * @jest-environment node
+ */
+import http from 'http';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { AddressInfo } from 'net';
+import { processWithFallback, mapWhisperSegments } from './ai-provider';
+import { ModelConfig } from '@/types/subtitle';
+
+jest.mock('./gemini', () => ({
+  generateSubtitles: jest.fn(),
+  translateBatch: jest.fn(),
+  generateSubtitlesInline: jest.fn()
+}));
+
+global.console.warn = jest.fn();
+global.console.error = jest.fn();
+global.console.log = jest.fn();
+
+interface RecordedRequest {
+  url?: string;
+  authorization?: string;
+  body: string;
+}
+
+/** Minimal stand-in for a whisper.cpp / faster-whisper OpenAI-compatible server. */
+function startMockWhisperServer(respond: (req: RecordedRequest) => { status: number; body: unknown }) {
+  const requests: RecordedRequest[] = [];
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => {
+      const recorded = { url: req.url, authorization: req.headers.authorization, body: Buffer.concat(chunks).toString('utf8') };
+      requests.push(recorded);
+      const { status, body } = respond(recorded);
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body));
+    });
+  });
+
+  return new Promise<{ endpoint: string; requests: RecordedRequest[]; close: () => Promise<void> }>((resolve) => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({
+        endpoint: `http://127.0.0.1:${port}/v1`,
+        requests,
+        close: () => new Promise<void>(done => server.close(() => done())),
+      });
+    });
+  });
+}
+
+describe('local Whisper-compatible transcription', () => {
+  let tempDir: string;
+  let mediaPath: string;
+
+  beforeAll(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'whisper-test-'));
+    mediaPath = path.join(tempDir, 'meeting.m4a');
+    fs.writeFileSync(mediaPath, 'fake-audio-bytes');
+  });
+
+  afterAll(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('streams the file to the configured endpoint and maps segments', async () => {
+    const server = await startMockWhisperServer(() => ({
+      status: 200,
+      body: {
+        language: 'english',
+        segments: [
+          { start: 0, end: 2.5, text: ' Hello there. ' },
+          { start: 2.5, end: 3, text: '   ' },
+          { start: 3, end: 6, text: 'General Kenobi.' },
+        ],
+        words: [
+          { word: 'Hello', start: 0.4, end: 0.8 },
+          { word: 'there.', start: 0.9, end: 1.6 },
+          { word: 'General', start: 3.2, end: 3.9 },
+          { word: 'Kenobi.', start: 4, end: 4.7 },
+        ],
+      },
+    }));
+
+    try {
+      const localConfig: ModelConfig = {
+        id: 'w', provider: 'local', modelName: 'whisper-large-v3', endpoint: `${server.endpoint}/`, enabled: true
+      };
+      const result = await processWithFallback(
+        'generate',
+        { filePath: mediaPath, mimeType: 'audio/mp4', glossary: [{ term: 'Kenobi' }] },
+        [localConfig]
+      );
+
+      expect(server.requests).toHaveLength(1);
+      const request = server.requests[0];
+      expect(request.url).toBe('/v1/audio/transcriptions');
+      expect(request.authorization).toBeUndefined();
+      expect(request.body).toContain('whisper-large-v3');
+      expect(request.body).toContain('filename="meeting.m4a"');
+      expect(request.body).toContain('fake-audio-bytes');
+      expect(request.body).toContain('name="timestamp_granularities[]"\r\n\r\nword');
+      expect(request.body).toContain('Vocabulary: Kenobi.');
+
+      expect(result.provider).toBe('local');
+      expect(result.detectedLanguage).toBe('english');
+      expect(result.subtitles).toEqual([
+        { id: '1', startTime: 0.4, endTime: 1.6, text: 'Hello there.' },
+        { id: '2', startTime: 3.2, endTime: 4.7, text: 'General Kenobi.' },
+      ]);
+    } finally {
+      await server.close();
+    }
+  });
+
+  test('uses transcriptionModel and inline data when no file path is given', async () => {
+    const server = await startMockWhisperServer(() => ({
+      status: 200,
+      body: { segments: [{ start: 1, end: 2, text: 'Inline', words: [{ word: 'Inline', start: 1.2, end: 1.8 }] }] },
+    }));
+
+    try {
+      const config: ModelConfig = {
+        id: 'o', provider: 'openai', modelName: 'gpt-4o', transcriptionModel: 'gpt-4o-transcribe',
+        endpoint: server.endpoint, apiKey: 'sk-test', enabled: true
+      };
+      const result = await processWithFallback(
+        'generate',
+        { isInline: true, base64Data: Buffer.from('inline-bytes').toString('base64'), mimeType: 'audio/mp4' },
+        [config]
+      );
+
+      expect(server.requests[0].authorization).toBe('Bearer sk-test');
+      expect(server.requests[0].body).toContain('gpt-4o-transcribe');
+      expect(server.requests[0].body).toContain('inline-bytes');
+      expect(result.subtitles).toEqual([{ id: '1', startTime: 1.2, endTime: 1.8, text: 'Inline' }]);
+    } finally {
+      await server.close();
+    }
+  });
+
+  test('re-routes to the next model when the local server errors', async () => {
+    const server = await startMockWhisperServer(() => ({ status: 503, body: { error: { message: 'model loading' } } }));
+
+    try {
+      const failing: ModelConfig = { id: 'a', provider: 'local', modelName: 'whisper-small', endpoint: server.endpoint, enabled: true };
+      const backup: ModelConfig = { id: 'b', provider: 'local', modelName: 'whisper-tiny', endpoint: server.endpoint, enabled: true };
+
+      await expect(
+        processWithFallback('generate', { filePath: mediaPath, mimeType: 'audio/mp4' }, [failing, backup])
+      ).rejects.toThrow('503');
+      expect(server.requests).toHaveLength(2);
+    } finally {
+      await server.close();
+    }
+  });
+
+  test('rejects Gemini file URIs it cannot read', async () => {
+    const config: ModelConfig = { id: 'w', provider: 'local', modelName: 'whisper', endpoint: 'http://127.0.0.1:9/v1', enabled: true };
+
+    await expect(
+      processWithFallback('generate', { fileUri: 'https://gemini/files/1', mimeType: 'audio/mp4' }, [config])
+    ).rejects.toThrow('requires a local file or inline data');
+  });
+
+  test('aligns a transcript against the word timestamps', async () => {
+    const server = await startMockWhisperServer(() => ({
+      status: 200,
+      body: {
+        segments: [
+          { start: 0, end: 2, text: 'hello there', words: [{ word: 'hello', start: 0.4, end: 0.8 }, { word: 'there', start: 0.9, end: 1.6 }] },
+          { start: 3, end: 5, text: 'general kenobi', words: [{ word: 'general', start: 3.2, end: 3.9 }, { word: 'kenobi', start: 4, end: 4.7 }] },
+        ],
+      },
+    }));
+
+    try {
+      const config: ModelConfig = { id: 'w', provider: 'local', modelName: 'whisper', endpoint: server.endpoint, enabled: true };
+      const result = await processWithFallback(
+        'align',
+        { filePath: mediaPath, mimeType: 'audio/mp4', transcript: [{ id: '1', text: 'Hello, there.' }, { id: '2', text: 'General Kenobi!' }] },
+        [config]
+      );
+
+      expect(result.subtitles).toEqual([
+        { id: '1', startTime: 0.4, endTime: 1.6, text: 'Hello, there.' },
+        { id: '2', startTime: 3.2, endTime: 4.7, text: 'General Kenobi!' },
+      ]);
+    } finally {
+      await server.close();
+    }
+  });
+});
+
+describe('mapWhisperSegments', () => {
+  test('falls back to segment bounds without word timestamps', () => {
+    expect(mapWhisperSegments({ segments: [{ start: 5, end: 7.5, text: 'Plain' }] })).toEqual([
+      { id: '1', startTime: 5, endTime: 7.5, text: 'Plain' },
+    ]);
+  });
+
+  test('numbers lines without gaps for dropped empty segments', () => {
+    const lines = mapWhisperSegments({ segments: [
+      { start: 0, end: 1, text: 'One' },
+      { start: 1, end: 2, text: '  ' },
+      { start: 2, end: 3, text: 'Two' },
+    ] });
+    expect(lines.map(line => line.id)).toEqual(['1', '2']);
+  });
+});
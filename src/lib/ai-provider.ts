@@ -1,10 +1,27 @@
 import { 
   SubtitleLine, 
   ModelConfig, 
-  AIProvider 
+  AIProvider,
+  GlossaryEntry,
+  SubtitleProvenance,
+  AIProgressEvent
 } from "@/types/subtitle";
-import { translateSubtitles } from "./gemini";
+import fs from "fs";
+import path from "path";
+import { translateBatch, GeminiRequestOptions } from "./gemini";
+import { buildPromptGuidance, buildTranscriptionPrompt, PromptGuidance } from "./glossary";
 import { validateSubtitleArraySize, MAX_SUBTITLES } from "./validation-utils";
+import {
+  translateInBatches,
+  buildBatchTranslationPrompt,
+  parseBatchTranslationResponse,
+  TranslationBatch,
+  TranslatedUnit,
+  TranslationLineStatus
+} from "./translation-engine";
+import { alignWordsToTranscript, applyAlignment, AlignmentUnit, AlignedTiming, AlignmentLineStatus } from "./transcript-alignment";
+import { segmentLine, SegmentationOptions } from "./subtitle-segmentation";
+import { parseTimestamp, formatTimestamp } from "./time-utils";
 
 // Re-export for backwards compatibility
 export { validateSubtitleArraySize, MAX_SUBTITLES };
@@ -14,6 +31,9 @@ export interface AIResult {
   subtitles: SubtitleLine[];
   provider: AIProvider;
   modelName: string;
+  provenance: SubtitleProvenance;
+  translationStatus?: Record<string, TranslationLineStatus>; // Per-line outcome of a translate task/pass
+  alignmentStatus?: Record<string, AlignmentLineStatus>; // Per-line outcome of an align task
 }
 
 /**
@@ -26,12 +46,30 @@ export interface AIParams {
   base64Data?: string;
   mimeType?: string;
   fileUri?: string;
+  filePath?: string; // Local copy of the media, streamed by upload-style providers
   secondaryLanguage?: string;
   modelName?: string;
+  language?: string; // Spoken language; the model detects it when unset
   promptHints?: string;
+  glossary?: GlossaryEntry[]; // Project glossary, used by both tasks
   // Translation
   subtitles?: SubtitleLine[];
   targetLanguage?: string;
+  translateIds?: string[]; // Only translate these lines; the rest are context
+  // Alignment (uses the media fields above)
+  transcript?: AlignmentUnit[]; // Authoritative wording; only timings are requested
+  // Post-processing of generated lines
+  segmentation?: SegmentationOptions; // Split over-long lines and rebalance line breaks
+  // Streaming / cancellation
+  signal?: AbortSignal; // Aborts the in-flight provider request; no further models are tried
+  onProgress?: (event: AIProgressEvent) => void;
+}
+
+/** A word timestamp from the Whisper verbose_json format (timestamp_granularities[]=word). */
+interface WhisperWord {
+  word: string;
+  start: number;
+  end: number;
 }
 
 /** A single transcription segment as returned by the OpenAI Whisper verbose_json format. */
@@ -39,6 +77,13 @@ interface WhisperSegment {
   start: number;
   end: number;
   text: string;
+  words?: WhisperWord[]; // Inline per-segment words (faster-whisper servers)
+}
+
+export interface WhisperResponse {
+  language?: string;
+  segments?: WhisperSegment[];
+  words?: WhisperWord[]; // Top-level words (OpenAI)
 }
 
 /** Error augmented with HTTP status / response data from an OpenAI-compatible provider. */
@@ -55,13 +100,54 @@ export class AISafetyError extends Error {
 }
 
 /**
- * Main entry point for AI processing with safety re-route (fallback)
+ * Whether any enabled model needs the Gemini Files API. Offline chains
+ * (local Whisper servers) read the media straight from disk instead.
+ */
+export function chainUsesGemini(chain: ModelConfig[]): boolean {
+  return chain.some(model => model.enabled && model.provider === 'gemini');
+}
+
+export type AITask = 'generate' | 'translate' | 'align';
+
+/**
+ * Main entry point for AI processing with safety re-route (fallback).
+ * A generate result without the requested secondary track (e.g. after
+ * falling back to a transcription-only provider) gets a translate pass,
+ * after the optional re-segmentation so translations follow the new lines.
  */
 export async function processWithFallback(
-  task: 'generate' | 'translate',
+  task: AITask,
   params: AIParams,
   fallbackChain: ModelConfig[]
 ): Promise<AIResult> {
+  if (task === 'translate') {
+    return await runTranslation(params, fallbackChain);
+  }
+  if (task === 'align') {
+    return await runAlignment(params, fallbackChain);
+  }
+
+  let result = await runGeneration(params, fallbackChain);
+  params.signal?.throwIfAborted();
+  if (params.segmentation) {
+    result = { ...result, subtitles: segmentGeneratedLines(result.subtitles, params.segmentation) };
+  }
+  if (params.secondaryLanguage && result.subtitles.length > 0 && !hasSecondaryText(result.subtitles)) {
+    return await addTranslationPass(result, params, fallbackChain);
+  }
+  return result;
+}
+
+/**
+ * Try `attempt` against each enabled model in order, re-routing on safety
+ * refusals and recoverable (429/5xx) errors. Cancellation always ends the walk.
+ */
+async function runWithFallback<T>(
+  task: AITask,
+  params: AIParams,
+  fallbackChain: ModelConfig[],
+  attempt: (config: ModelConfig) => Promise<T>
+): Promise<{ value: T; config: ModelConfig }> {
   const enabledChain = fallbackChain.filter(c => c.enabled);
   if (enabledChain.length === 0) {
     throw new Error("No enabled AI models in fallback chain.");
@@ -69,46 +155,41 @@ export async function processWithFallback(
 
   let lastError: unknown = null;
 
-  for (const config of enabledChain) {
+  for (const [index, config] of enabledChain.entries()) {
+    params.signal?.throwIfAborted();
+    const position = {
+      provider: config.provider,
+      modelName: config.modelName,
+      attempt: index + 1,
+      totalAttempts: enabledChain.length
+    };
+
     try {
       console.log(`[AI-Provider] Trying ${config.provider} (${config.modelName}) for task: ${task}`);
-      
-      let result: Partial<AIResult>;
-      if (task === 'generate') {
-        result = await callGenerate(config, params);
-      } else {
-        result = await callTranslate(config, params);
-      }
-
-      if (!result.subtitles) {
-        throw new Error("AI provider returned no subtitles.");
-      }
-
-      return {
-        detectedLanguage: result.detectedLanguage,
-        subtitles: result.subtitles,
-        provider: config.provider,
-        modelName: config.modelName
-      };
-
+      // Translation reports per-batch progress instead (see runTranslation)
+      if (task !== 'translate') params.onProgress?.({ stage: 'model_call', ...position });
+      return { value: await attempt(config), config };
     } catch (error: unknown) {
+      if (params.signal?.aborted) throw error;
       lastError = error;
+      const errorMessage = error instanceof Error ? error.message : String(error);
       
       const isSafetyRefusal = detectSafetyRefusal(config.provider, error);
       if (isSafetyRefusal) {
         console.warn(`[AI-Provider] Safety refusal from ${config.provider}. Re-routing...`);
+        params.onProgress?.({ stage: 'model_fallback', ...position, message: errorMessage });
         continue; // Try next in chain
       }
 
       // If it's not a safety refusal (e.g. network error, auth error), we might want to re-route anyway
       // but let's be specific for now.
-      const errorMessage = error instanceof Error ? error.message : String(error);
       console.error(`[AI-Provider] Error from ${config.provider}:`, errorMessage);
       
       // For now, let's re-route on most transient/recoverable errors too
       const status = (error as { status?: number })?.status;
       if (status === 429 || (status && status >= 500)) {
         console.warn(`[AI-Provider] Recoverable error from ${config.provider}. Re-routing...`);
+        params.onProgress?.({ stage: 'model_fallback', ...position, message: errorMessage });
         continue;
       }
 
@@ -119,6 +200,165 @@ export async function processWithFallback(
   throw lastError || new Error("All AI models in chain failed.");
 }
 
+async function runGeneration(params: AIParams, fallbackChain: ModelConfig[]): Promise<AIResult> {
+  const { value: result, config } = await runWithFallback('generate', params, fallbackChain, async (config) => {
+    const result = await callGenerate(config, params);
+    if (!result.subtitles) {
+      throw new Error("AI provider returned no subtitles.");
+    }
+    return result as Partial<AIResult> & { subtitles: SubtitleLine[] };
+  });
+
+  const source = { provider: config.provider, modelName: config.modelName };
+  return {
+    detectedLanguage: result.detectedLanguage,
+    subtitles: result.subtitles,
+    provider: config.provider,
+    modelName: config.modelName,
+    provenance: { primary: source, ...(hasSecondaryText(result.subtitles) && { secondary: source }) }
+  };
+}
+
+/**
+ * Translate through the batching engine; each batch walks the fallback
+ * chain on its own. The model that translated the most lines is reported.
+ */
+async function runTranslation(params: AIParams, fallbackChain: ModelConfig[]): Promise<AIResult> {
+  const subtitles = params.subtitles || [];
+  // Validate subtitle array size to prevent DoS
+  validateSubtitleArraySize(subtitles);
+
+  const linesByModel = new Map<ModelConfig, number>();
+  const { subtitles: translated, status } = await translateInBatches(
+    subtitles,
+    async (batch) => {
+      const { value, config } = await runWithFallback('translate', params, fallbackChain, (config) => callTranslate(config, batch, params));
+      linesByModel.set(config, (linesByModel.get(config) || 0) + value.length);
+      return value;
+    },
+    {
+      only: params.translateIds,
+      signal: params.signal,
+      onProgress: (done, total) => params.onProgress?.({ stage: 'translating', percent: Math.round((done / total) * 100) })
+    }
+  );
+
+  const ranked = [...linesByModel.entries()].sort((a, b) => b[1] - a[1]);
+  const config = ranked[0]?.[0] ?? fallbackChain.find(c => c.enabled);
+  if (!config) {
+    throw new Error("No enabled AI models in fallback chain.");
+  }
+
+  return {
+    subtitles: translated,
+    provider: config.provider,
+    modelName: config.modelName,
+    provenance: { secondary: { provider: config.provider, modelName: config.modelName } },
+    translationStatus: status
+  };
+}
+
+/**
+ * Time an existing transcript. Providers only return timings; the lines are
+ * rebuilt from the transcript itself, so the wording can't drift.
+ */
+async function runAlignment(params: AIParams, fallbackChain: ModelConfig[]): Promise<AIResult> {
+  const transcript = params.transcript || [];
+  // Validate transcript size to prevent DoS
+  validateSubtitleArraySize(transcript);
+  if (transcript.length === 0) {
+    throw new Error("Transcript is empty.");
+  }
+
+  const { value: timings, config } = await runWithFallback('align', params, fallbackChain, (config) => callAlign(config, transcript, params));
+  const { subtitles, status } = applyAlignment(transcript, timings);
+
+  return {
+    subtitles,
+    provider: config.provider,
+    modelName: config.modelName,
+    provenance: {},
+    alignmentStatus: status
+  };
+}
+
+/**
+ * Re-segment generate output. Lines may still be raw model output, so
+ * timestamps keep their form ("HH:MM:SS,mmm" from Gemini, seconds from
+ * Whisper) and unusable lines pass through untouched.
+ */
+function segmentGeneratedLines(subtitles: SubtitleLine[], options: SegmentationOptions): SubtitleLine[] {
+  return subtitles.flatMap((item, index) => {
+    const raw = item as unknown as Record<string, unknown>;
+    if (!raw || typeof raw.text !== 'string') return [item];
+    const toSeconds = (value: unknown) => (typeof value === 'string' ? parseTimestamp(value) : Number(value));
+    const startTime = toSeconds(raw.startTime);
+    const endTime = toSeconds(raw.endTime);
+    if (!isFinite(startTime) || !isFinite(endTime) || endTime < startTime) return [item];
+
+    const pieces = segmentLine({ ...item, id: item.id ?? String(index + 1), startTime, endTime }, options);
+    return pieces.map(piece => {
+      const output = { ...piece } as Record<string, unknown>;
+      if (item.id === undefined) delete output.id;
+      if (typeof raw.startTime === 'string') {
+        output.startTime = formatTimestamp(piece.startTime);
+        output.endTime = formatTimestamp(piece.endTime);
+      }
+      return output as unknown as SubtitleLine;
+    });
+  });
+}
+
+// Generate results may still be raw model output, so don't trust the shape
+function hasSecondaryText(subtitles: SubtitleLine[]): boolean {
+  return subtitles.some(line => typeof line?.secondaryText === 'string' && line.secondaryText.trim() !== '');
+}
+
+/**
+ * Translate a transcription-only result and merge the translations in.
+ * A failed pass keeps the primary track rather than discarding the whole
+ * generation.
+ */
+async function addTranslationPass(result: AIResult, params: AIParams, fallbackChain: ModelConfig[]): Promise<AIResult> {
+  console.log(`[AI-Provider] ${result.provider} returned no ${params.secondaryLanguage} track, running translation pass`);
+  try {
+    const translation = await runTranslation(
+      {
+        subtitles: result.subtitles,
+        targetLanguage: params.secondaryLanguage,
+        promptHints: params.promptHints,
+        glossary: params.glossary,
+        signal: params.signal,
+        onProgress: params.onProgress
+      },
+      fallbackChain
+    );
+
+    return {
+      ...result,
+      subtitles: translation.subtitles,
+      provenance: { ...result.provenance, secondary: translation.provenance.secondary },
+      translationStatus: translation.translationStatus
+    };
+  } catch (error: unknown) {
+    if (params.signal?.aborted) throw error;
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.warn(`[AI-Provider] Translation pass failed, keeping ${result.provider} transcription only:`, errorMessage);
+    return result;
+  }
+}
+
+function getGuidance(params: AIParams): PromptGuidance {
+  return { promptHints: params.promptHints, glossary: params.glossary, language: params.language };
+}
+
+function getRequestOptions(config: ModelConfig, params: AIParams): GeminiRequestOptions {
+  return {
+    signal: params.signal,
+    onResponse: () => params.onProgress?.({ stage: 'parsing_response', provider: config.provider, modelName: config.modelName })
+  };
+}
+
 async function callGenerate(config: ModelConfig, params: AIParams): Promise<Partial<AIResult>> {
   if (config.provider === 'gemini') {
     if (params.isInline) {
@@ -128,7 +368,9 @@ async function callGenerate(config: ModelConfig, params: AIParams): Promise<Part
         params.mimeType!,
         params.secondaryLanguage,
         1,
-        params.modelName || config.modelName
+        params.modelName || config.modelName,
+        getGuidance(params),
+        getRequestOptions(config, params)
       );
     }
     const { generateSubtitles } = await import("./gemini");
@@ -137,119 +379,173 @@ async function callGenerate(config: ModelConfig, params: AIParams): Promise<Part
       params.mimeType!,
       params.secondaryLanguage,
       1,
-      params.modelName || config.modelName
+      params.modelName || config.modelName,
+      getGuidance(params),
+      getRequestOptions(config, params)
     );
   }
 
-  if (config.provider === 'openai' || config.provider === 'deepseek') { // DeepSeek might not support audio, but structure allows extensibility
-      if (config.provider === 'openai') {
-          return await callOpenAIGenerate(config, params);
-      }
+  if (config.provider === 'openai' || config.provider === 'local') {
+    return await callOpenAITranscribe(config, params);
   }
 
   throw new Error(`Provider ${config.provider} does not support 'generate' task yet.`);
 }
 
-async function callOpenAIGenerate(config: ModelConfig, params: AIParams): Promise<Partial<AIResult>> {
-    const endpoint = config.endpoint || 'https://api.openai.com/v1';
-    const apiKey = config.apiKey || process.env.OPENAI_API_KEY;
+/**
+ * Map Whisper verbose_json output to subtitle lines. When word timestamps
+ * are available they tighten each segment to the speech it contains
+ * (segment bounds are often padded into the surrounding silence).
+ */
+export function mapWhisperSegments(data: WhisperResponse): SubtitleLine[] {
+  const topLevelWords = data.words || [];
+
+  return (data.segments || [])
+    .filter(seg => (seg.text || '').trim().length > 0)
+    .map((seg, index) => {
+      const words = seg.words && seg.words.length > 0
+        ? seg.words
+        : topLevelWords.filter(w => {
+            const mid = (w.start + w.end) / 2;
+            return mid >= seg.start && mid <= seg.end;
+          });
+
+      let startTime = seg.start;
+      let endTime = seg.end;
+      if (words.length > 0) {
+        startTime = Math.max(seg.start, words[0].start);
+        endTime = Math.min(seg.end, words[words.length - 1].end);
+        if (endTime <= startTime) {
+          startTime = seg.start;
+          endTime = seg.end;
+        }
+      }
 
-    if (!apiKey) throw new Error(`API Key missing for ${config.provider}`);
+      return {
+        id: String(index + 1),
+        startTime,
+        endTime,
+        text: (seg.text || '').trim(),
+      };
+    });
+}
 
-    // OpenAI Audio API requires FormData
-    const formData = new FormData();
-    formData.append('model', 'whisper-1'); // OpenAI uses whisper-1 for audio
-    if (params.secondaryLanguage) {
-        // Whisper doesn't support direct dual-lang generation in one go usually, 
-        // but we can prompt it or use 'translation' endpoint. 
-        // For now, let's assume 'transcription' and just return that, 
-        // effectively ignoring secondaryLanguage or handling it later.
-        // Or we could prompt it if using chat completions, but for audio it's specific.
-        // Let's stick to simple transcription for now.
-    }
+/**
+ * Load the media for an upload-style provider. Local files are opened as
+ * file-backed Blobs so large recordings are streamed rather than buffered.
+ */
+async function loadMediaBlob(params: AIParams): Promise<{ blob: Blob; filename: string }> {
+  if (params.filePath) {
+    const blob = await fs.openAsBlob(params.filePath, { type: params.mimeType });
+    return { blob, filename: path.basename(params.filePath) };
+  }
+  if (params.isInline && params.base64Data) {
+    const bytes = Buffer.from(params.base64Data, 'base64');
+    return { blob: new Blob([bytes], { type: params.mimeType }), filename: 'audio.mp4' }; // Filename needed for mime detection sometimes
+  }
+  // A Gemini fileUri can't be read by other providers
+  throw new Error("Transcription requires a local file or inline data.");
+}
 
-    let fileBlob: Blob;
+/**
+ * Transcribe via an OpenAI-compatible /audio/transcriptions endpoint
+ * (OpenAI Whisper, whisper.cpp server, faster-whisper servers).
+ */
+async function callOpenAITranscribe(config: ModelConfig, params: AIParams): Promise<Partial<AIResult>> {
+    const data = await requestWhisperTranscription(config, params);
+    return {
+        detectedLanguage: data.language,
+        subtitles: mapWhisperSegments(data)
+    };
+}
 
-    if (params.isInline) {
-         // Convert base64 to Blob
-         const byteCharacters = atob(params.base64Data!);
-         const byteNumbers = new Array(byteCharacters.length);
-         for (let i = 0; i < byteCharacters.length; i++) {
-             byteNumbers[i] = byteCharacters.charCodeAt(i);
-         }
-         const byteArray = new Uint8Array(byteNumbers);
-         fileBlob = new Blob([byteArray], { type: params.mimeType });
-    } else {
-         // We don't support fileUri for OpenAI audio here yet without downloading it first
-         // This is a limitation for now.
-         throw new Error("OpenAI Audio support currently requires inline processing (file < 10MB).");
-    }
+async function requestWhisperTranscription(config: ModelConfig, params: AIParams): Promise<WhisperResponse> {
+    const isLocal = config.provider === 'local';
+    const endpoint = (config.endpoint || (isLocal ? '' : 'https://api.openai.com/v1')).replace(/\/+$/, '');
+    const apiKey = config.apiKey || (isLocal ? undefined : process.env.OPENAI_API_KEY);
+
+    if (!endpoint) throw new Error(`Endpoint missing for ${config.provider}`);
+    if (!apiKey && !isLocal) throw new Error(`API Key missing for ${config.provider}`);
 
-    formData.append('file', fileBlob, 'audio.mp4'); // Filename needed for mime detection sometimes
-    formData.append('response_format', 'srt'); // SRT is easier to parse than verbose_json for now, or use verbose_json for timestamps
-    formData.append('timestamp_granularity', 'segment'); 
+    const { blob, filename } = await loadMediaBlob(params);
 
-    // Actually, let's use verbose_json for structured data
-    formData.delete('response_format');
+    // Whisper only transcribes; secondaryLanguage is filled by a later translate pass
+    const formData = new FormData();
+    formData.append('model', config.transcriptionModel || (isLocal ? config.modelName : 'whisper-1'));
+    formData.append('file', blob, filename);
     formData.append('response_format', 'verbose_json');
+    formData.append('timestamp_granularities[]', 'segment');
+    formData.append('timestamp_granularities[]', 'word');
+
+    // Whisper can't follow instructions, but its prompt primes spellings
+    const transcriptionPrompt = buildTranscriptionPrompt(getGuidance(params));
+    if (transcriptionPrompt) {
+        formData.append('prompt', transcriptionPrompt);
+    }
 
     const response = await fetch(`${endpoint}/audio/transcriptions`, {
         method: 'POST',
-        headers: {
-            'Authorization': `Bearer ${apiKey}`
-            // Content-Type is set automatically by FormData
-        },
-        body: formData
+        // Content-Type is set automatically by FormData
+        headers: apiKey ? { 'Authorization': `Bearer ${apiKey}` } : undefined,
+        body: formData,
+        signal: params.signal
     });
 
     if (!response.ok) {
         const errorData = await response.json().catch(() => ({}));
-        throw new Error(`OpenAI Audio Error: ${response.status} - ${errorData.error?.message || response.statusText}`);
+        const err = new Error(`Transcription error from ${config.provider}: ${response.status} - ${errorData.error?.message || response.statusText}`) as ProviderError;
+        err.status = response.status;
+        err.data = errorData;
+        throw err;
     }
 
-    const data = await response.json();
-    
-    // Map Whisper segments to SubtitleLine[]
-    const subtitles: SubtitleLine[] = data.segments.map((seg: WhisperSegment, index: number) => ({
-        id: index + 1,
-        startTime: seg.start,
-        endTime: seg.end,
-        text: seg.text.trim(),
-        secondaryText: ''
-    }));
-
-    // If secondary language was requested, we might need a 2nd pass to translate
-    // For now, just return primary
-    
-    return {
-        detectedLanguage: data.language,
-        subtitles: subtitles
-    };
+    params.onProgress?.({ stage: 'parsing_response', provider: config.provider, modelName: config.modelName });
+    const data: WhisperResponse = await response.json();
+    if (!Array.isArray(data.segments)) {
+        throw new Error(`${config.provider} transcription returned no segments (is verbose_json supported?)`);
+    }
+    return data;
 }
 
-async function callTranslate(config: ModelConfig, params: AIParams) {
-  // Validate subtitle array size to prevent DoS
-  if (params.subtitles) {
-    validateSubtitleArraySize(params.subtitles);
+async function callAlign(config: ModelConfig, transcript: AlignmentUnit[], params: AIParams): Promise<AlignedTiming[]> {
+  if (config.provider === 'gemini') {
+    const { alignTranscript } = await import("./gemini");
+    const media = params.isInline ? { base64Data: params.base64Data! } : { fileUri: params.fileUri! };
+    return await alignTranscript(media, params.mimeType!, transcript, config.modelName, getRequestOptions(config, params));
   }
 
+  if (config.provider === 'openai' || config.provider === 'local') {
+    // Whisper can't be asked for timings of given text, so match its word timestamps locally
+    const data = await requestWhisperTranscription(config, params);
+    const words = data.words?.length ? data.words : (data.segments || []).flatMap(segment => segment.words || []);
+    if (words.length === 0) {
+      throw new Error(`${config.provider} returned no word timestamps to align against.`);
+    }
+    return alignWordsToTranscript(transcript, words);
+  }
+
+  throw new Error(`Provider ${config.provider} does not support 'align' task yet.`);
+}
+
+async function callTranslate(config: ModelConfig, batch: TranslationBatch, params: AIParams): Promise<TranslatedUnit[]> {
   if (config.provider === 'gemini') {
-    const subtitles = await translateSubtitles(
-      params.subtitles!,
+    return await translateBatch(
+      batch,
       params.targetLanguage!,
-      params.modelName || config.modelName
+      params.modelName || config.modelName,
+      getGuidance(params),
+      { signal: params.signal }
     );
-    return { subtitles };
   }
 
   if (config.provider === 'openai' || config.provider === 'deepseek' || config.provider === 'local' || config.provider === 'ollama') {
-    return await callOpenAICompatible(config, params);
+    return await callOpenAICompatible(config, batch, params);
   }
 
   throw new Error(`Provider ${config.provider} does not support 'translate' task yet.`);
 }
 
-async function callOpenAICompatible(config: ModelConfig, params: AIParams) {
+async function callOpenAICompatible(config: ModelConfig, batch: TranslationBatch, params: AIParams): Promise<TranslatedUnit[]> {
   const endpoint = config.endpoint || (config.provider === 'deepseek' ? 'https://api.deepseek.com/v1' : 'https://api.openai.com/v1');
   const apiKey = config.apiKey || (config.provider === 'deepseek' ? process.env.DEEPSEEK_API_KEY : process.env.OPENAI_API_KEY);
 
@@ -257,19 +553,9 @@ async function callOpenAICompatible(config: ModelConfig, params: AIParams) {
     throw new Error(`API Key missing for ${config.provider}`);
   }
 
-  const prompt = `
-    You are an expert translator.
-    Translate the 'text' field of the following JSON subtitles into ${params.targetLanguage}.
-    Put the translated text into the 'secondaryText' field.
-    
-    Rules:
-    1. PRESERVE 'startTime' and 'endTime' EXACTLY.
-    2. PRESERVE the number of objects and their order.
-    3. Output raw JSON ONLY. Do not include markdown formatting or explanations.
-    
-    Input JSON:
-    ${JSON.stringify(params.subtitles)}
-  `;
+  const extra = buildPromptGuidance(getGuidance(params), params.targetLanguage);
+  const prompt = buildBatchTranslationPrompt(batch, params.targetLanguage!, extra) +
+    '\n    Output raw JSON ONLY. Do not include markdown formatting or explanations.';
 
   const response = await fetch(`${endpoint}/chat/completions`, {
     method: 'POST',
@@ -285,7 +571,8 @@ async function callOpenAICompatible(config: ModelConfig, params: AIParams) {
       ],
       temperature: 0,
       response_format: { type: 'json_object' }
-    })
+    }),
+    signal: params.signal
   });
 
   if (!response.ok) {
@@ -303,10 +590,7 @@ async function callOpenAICompatible(config: ModelConfig, params: AIParams) {
   const content = data.choices[0].message.content;
   
   try {
-    const result = JSON.parse(content);
-    if (Array.isArray(result)) return { subtitles: result };
-    if (result.subtitles) return { subtitles: result.subtitles };
-    return { subtitles: result };
+    return parseBatchTranslationResponse(JSON.parse(content));
   } catch {
     console.error("[AI-Provider] Failed to parse OpenAI response:", content);
     throw new Error("Invalid JSON returned from AI provider.");
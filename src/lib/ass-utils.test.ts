@@ -5,6 +5,9 @@
  * - hexToAssColor: Hex to ASS BGR color conversion
  * - formatAssTime: Seconds to ASS timestamp format
  * - sanitizeAssText: Strip ASS tags from text
+ * - richTextToAss: Markup to \b, \i and \u tags
+ * - getAssOverrideTags / getAssEventMargins: Per-line style overrides
+ * - getAssFontNames: Fonts a script renders with
  * - generateAss: Full ASS file generation
  */
 
@@ -13,10 +16,15 @@ import {
   hexToAssColor, 
   formatAssTime, 
   sanitizeAssText, 
+  richTextToAss,
+  getAssOverrideTags,
+  getAssEventMargins,
+  getAssFontNames,
   generateAss,
   VideoDimensions 
 } from './ass-utils';
 import { SubtitleLine, SubtitleConfig, DEFAULT_CONFIG } from '@/types/subtitle';
+import { getBilingualLayout } from './bilingual-layout';
 
 // Helper to generate hex color strings (always uppercase for consistency)
 const hexColorArb = fc.tuple(
@@ -240,6 +248,70 @@ describe('sanitizeAssText', () => {
   });
 });
 
+// ============================================================================
+// richTextToAss Tests
+// ============================================================================
+
+describe('richTextToAss', () => {
+  test('turns markup into style tags', () => {
+    expect(richTextToAss('<b>Bold</b> <i>it</i><u>u</u>')).toBe('{\\b1}Bold{\\b0} {\\i1}it{\\i0\\u1}u');
+    expect(richTextToAss('Plain')).toBe('Plain');
+  });
+
+  test('only generated tags can open a block', () => {
+    expect(richTextToAss('{\\pos(1,1)}a <b>{b}</b> {c')).toBe('a  c');
+    expect(richTextToAss('x{\\fs99')).not.toContain('{');
+  });
+
+  test('escapes newlines', () => {
+    expect(richTextToAss('<i>one\ntwo</i>')).toBe('{\\i1}one\\Ntwo');
+  });
+});
+
+// ============================================================================
+// Override Tag Tests
+// ============================================================================
+
+describe('per-line overrides', () => {
+  test('converts overrides to tags in PlayRes units', () => {
+    expect(getAssOverrideTags({
+      alignment: 8,
+      fontFamily: 'Arial',
+      fontSize: 5,
+      color: '#FF0000',
+      outlineColor: '#00FF00',
+      outlineWidth: 0.5,
+    }, 2160)).toBe('{\\an8\\fnNoto Sans\\fs216\\c&H0000FF&\\3c&H00FF00&\\bord10.8}');
+    expect(getAssOverrideTags(undefined)).toBe('');
+    expect(getAssOverrideTags({})).toBe('');
+  });
+
+  test('keeps tag syntax out of font names', () => {
+    expect(getAssOverrideTags({ fontFamily: 'Evil}\\pos(0,0){' })).toBe('{\\fnEvilpos(0,0)}');
+  });
+
+  test('writes margins as event fields, with 0 meaning the style margin', () => {
+    expect(getAssEventMargins(undefined)).toBe('0,0,0');
+    expect(getAssEventMargins({ marginH: 10, marginV: 5 }, 1920, 1080)).toBe('192,192,54');
+    expect(getAssEventMargins({ marginV: 0 })).toBe('0,0,1');
+  });
+});
+
+describe('getAssFontNames', () => {
+  test('lists the fonts of used styles and font overrides', () => {
+    const config: SubtitleConfig = {
+      ...DEFAULT_CONFIG,
+      primary: { fontFamily: 'Arial' },
+      secondary: { fontFamily: 'Unused Sans' },
+    };
+    const ass = generateAss([
+      { id: '1', startTime: 0, endTime: 1, text: 'Hi, there', styleOverrides: { fontFamily: 'Brand Sans' } },
+    ], config);
+
+    expect(getAssFontNames(ass).sort()).toEqual(['Brand Sans', 'Noto Sans']);
+  });
+});
+
 // ============================================================================
 // generateAss Tests
 // ============================================================================
@@ -323,6 +395,55 @@ describe('generateAss', () => {
       expect(result).not.toContain('{\\b0}');
     });
 
+    test('applies line overrides to both tracks', () => {
+      const subtitles = [
+        createSubtitle({
+          text: '<b>Hi</b>',
+          secondaryText: 'Hola',
+          styleOverrides: { alignment: 5, marginV: 10 },
+          secondaryStyleOverrides: { color: '#00FF00' },
+        }),
+      ];
+      const result = generateAss(subtitles, defaultConfig);
+
+      expect(result).toContain('Primary,,0,0,108,,{\\an5}{\\b1}Hi');
+      expect(result).toContain('Secondary,,0,0,0,,{\\c&H00FF00&}Hola');
+    });
+
+    test('still honors deprecated per-line colours beneath overrides', () => {
+      const result = generateAss([
+        createSubtitle({ primaryColor: '#FF0000', secondaryText: 'B', secondaryColor: '#0000FF' }),
+        createSubtitle({ primaryColor: '#FF0000', styleOverrides: { color: '#00FF00' } }),
+      ], defaultConfig);
+
+      expect(result).toContain('Primary,,0,0,0,,{\\c&H0000FF&}Test subtitle');
+      expect(result).toContain('Secondary,,0,0,0,,{\\c&HFF0000&}B');
+      expect(result).toContain('Primary,,0,0,0,,{\\c&H00FF00&}Test subtitle');
+    });
+
+    test('stacks both tracks into one event in the combined layout', () => {
+      const combined = getBilingualLayout({ subtitleStyle: 'combined' });
+      const result = generateAss([createSubtitle({ text: 'English', secondaryText: '中文' })], defaultConfig, undefined, combined);
+
+      expect(result.match(/^Dialogue:/gm)).toHaveLength(1);
+      // Secondary at 80% of the 5% primary size, doubled like the styles
+      expect(result).toContain('Primary,,0,0,0,,English\\N{\\rSecondary}{\\fs86}中文');
+    });
+
+    test('resets to the primary style when the secondary track leads', () => {
+      const layout = getBilingualLayout({
+        subtitleStyle: 'combined',
+        combinedLayout: { order: 'secondary-first', separator: 'slash', secondaryScale: 1 },
+      });
+      const result = generateAss([
+        createSubtitle({ text: 'English', secondaryText: '中文', styleOverrides: { alignment: 8 } }),
+        createSubtitle({ text: 'Solo' }),
+      ], defaultConfig, undefined, layout);
+
+      expect(result).toContain('Primary,,0,0,0,,{\\an8}{\\rSecondary}{\\fs108}中文 / {\\r}English');
+      expect(result).toContain('Primary,,0,0,0,,Solo');
+    });
+
     test('handles custom video dimensions (scales font size)', () => {
       const subtitles = [createSubtitle()];
       // 4K Input (3840x2160) -> 2x Reference (1920x1080)
@@ -1,6 +1,8 @@
-import { SubtitleLine, SubtitleConfig, TrackStyle, DEFAULT_GLOBAL_SETTINGS } from "@/types/subtitle";
+import { SubtitleLine, SubtitleConfig, TrackStyle, BilingualLayout, DEFAULT_GLOBAL_SETTINGS } from "@/types/subtitle";
 import { REFERENCE_WIDTH, REFERENCE_HEIGHT } from "@/types/constants";
-import { resolveTrackStyle, normalizeToPx } from "./style-resolver";
+import { resolveTrackStyle, normalizeToPx, getLineOverrides, getTrackStyles, StyleDefaults } from "./style-resolver";
+import { parseRichText } from "./rich-text";
+import { DEFAULT_BILINGUAL_LAYOUT, getCombinedSegments, getCombinedSeparator } from "./bilingual-layout";
 
 // Convert hex color (#RRGGBB) to BGR for ASS format (&HBBGGRR)
 export function hexToAssColor(hex: string | undefined): string {
@@ -24,46 +26,86 @@ export function formatAssTime(seconds: number): string {
     return `${h}:${mm}:${ss}.${cs}`;
 }
 
-function generateStyleLine(name: string, style: TrackStyle, playResX: number = REFERENCE_WIDTH, playResY: number = REFERENCE_HEIGHT): string {
-    const { fontFamily, fontSize, color, backgroundColor, marginV, marginH, outlineWidth } = style;
-    
-    // IMPORTANT: Font sizes and margins are stored as percentages relative to the REFERENCE resolution (1920x1080).
-    // To maintain visual consistency across different video resolutions:
-    // 1. Calculate the pixel value at REFERENCE resolution
-    // 2. Scale that pixel value to the target PlayRes
-    // This ensures a "5% font size" looks the same whether the video is 1080p or 2160p.
-    
-    // Scale factors: how much bigger/smaller is target vs reference?
-    const scaleX = playResX / REFERENCE_WIDTH;
-    const scaleY = playResY / REFERENCE_HEIGHT;
-    
-    // Calculate at reference resolution, then scale to target
-    const refFontSize = normalizeToPx(fontSize, REFERENCE_HEIGHT);
-    const refMarginV = normalizeToPx(marginV, REFERENCE_HEIGHT);
-    const refMarginH = normalizeToPx(marginH, REFERENCE_WIDTH);
-    const refOutlineWidth = normalizeToPx(outlineWidth ?? 2.0, REFERENCE_HEIGHT);
-    
-    // Scale to target PlayRes
+// IMPORTANT: Font sizes, margins and outlines are stored as percentages relative to the REFERENCE resolution (1920x1080).
+// To maintain visual consistency across different video resolutions:
+// 1. Calculate the pixel value at REFERENCE resolution
+// 2. Scale that pixel value to the target PlayRes
+// This ensures a "5% font size" looks the same whether the video is 1080p or 2160p.
+// Styles and per-line override tags share these so both scale identically.
+
+function toAssFontSize(fontSize: number, playResY: number): number {
     // USER REQUEST: Font size needs to be doubled from whatever the user input.
     // "If it says 5%, act like the user put in 10% when doing the render."
-    const assFontSize = Math.round(refFontSize * scaleY * 2);
-    const assMarginV = Math.round(refMarginV * scaleY);
-    const assMarginH = Math.round(refMarginH * scaleX);
+    return Math.round(normalizeToPx(fontSize, REFERENCE_HEIGHT) * (playResY / REFERENCE_HEIGHT) * 2);
+}
+
+function toAssMarginV(marginV: number, playResY: number): number {
+    return Math.round(normalizeToPx(marginV, REFERENCE_HEIGHT) * (playResY / REFERENCE_HEIGHT));
+}
+
+function toAssMarginH(marginH: number, playResX: number): number {
+    return Math.round(normalizeToPx(marginH, REFERENCE_WIDTH) * (playResX / REFERENCE_WIDTH));
+}
+
+function toAssOutlineWidth(outlineWidth: number | undefined, playResY: number): number {
     // Clamp outline to prevent massive globs
-    const assOutlineWidth = Math.min(refOutlineWidth * scaleY, 20); 
+    return Math.min(normalizeToPx(outlineWidth ?? 2.0, REFERENCE_HEIGHT) * (playResY / REFERENCE_HEIGHT), 20);
+}
 
-    const primaryColour = hexToAssColor(color);
-    const backColour = hexToAssColor(backgroundColor);
-    
+/** The family libass is asked for; font checks should look at this one. */
+export function toAssFontFamily(fontFamily: string): string {
     // Fallback for Arial on Linux systems to Noto Sans (Better CJK support)
-    const finalFontFamily = (fontFamily === 'Arial') ? 'Noto Sans' : fontFamily;
+    return fontFamily === 'Arial' ? 'Noto Sans' : fontFamily;
+}
+
+function generateStyleLine(name: string, style: TrackStyle, playResX: number = REFERENCE_WIDTH, playResY: number = REFERENCE_HEIGHT): string {
+    const assFontSize = toAssFontSize(style.fontSize, playResY);
+    const assMarginV = toAssMarginV(style.marginV, playResY);
+    const assMarginH = toAssMarginH(style.marginH, playResX);
+    const assOutlineWidth = toAssOutlineWidth(style.outlineWidth, playResY);
+
+    const primaryColour = hexToAssColor(style.color);
+    const backColour = hexToAssColor(style.backgroundColor);
 
     // Alignment is numpad based
     const alignment = style.alignment;
 
-    return `Style: ${name},${finalFontFamily},${assFontSize},${primaryColour},&H00FFFFFF,&H00000000,${backColour},0,0,0,0,100,100,0,0,1,${assOutlineWidth.toFixed(1)},0,${alignment},${assMarginH},${assMarginH},${assMarginV},1`;
+    return `Style: ${name},${toAssFontFamily(style.fontFamily)},${assFontSize},${primaryColour},&H00FFFFFF,&H00000000,${backColour},0,0,0,0,100,100,0,0,1,${assOutlineWidth.toFixed(1)},0,${alignment},${assMarginH},${assMarginH},${assMarginV},1`;
+}
+
+/**
+ * ASS override tags for a line's own style overrides, in the same PlayRes
+ * units as the styles. Margins aren't tags; they go in the event's margin
+ * fields (see getAssEventMargins). There is no per-line background: the
+ * styles draw an outline border, so BackColour never shows.
+ */
+export function getAssOverrideTags(overrides: Partial<TrackStyle> | undefined, playResY: number = REFERENCE_HEIGHT): string {
+    if (!overrides) return '';
+    const tags: string[] = [];
+    if (overrides.alignment) tags.push(`\\an${overrides.alignment}`);
+    // A font name runs to the next tag, so it can't contain tag syntax
+    const fontFamily = overrides.fontFamily?.replace(/[\\{}]/g, '').trim();
+    if (fontFamily) tags.push(`\\fn${toAssFontFamily(fontFamily)}`);
+    if (overrides.fontSize !== undefined) tags.push(`\\fs${toAssFontSize(overrides.fontSize, playResY)}`);
+    if (overrides.color) tags.push(`\\c${hexToAssColor(overrides.color)}`);
+    if (overrides.outlineColor) tags.push(`\\3c${hexToAssColor(overrides.outlineColor)}`);
+    if (overrides.outlineWidth !== undefined) tags.push(`\\bord${toAssOutlineWidth(overrides.outlineWidth, playResY).toFixed(1)}`);
+    return tags.length > 0 ? `{${tags.join('')}}` : '';
 }
 
+/**
+ * MarginL, MarginR and MarginV for a Dialogue event. ASS reads 0 as "use the
+ * style's margin", so an explicit zero-width override is written as 1px.
+ */
+export function getAssEventMargins(
+    overrides: Partial<TrackStyle> | undefined,
+    playResX: number = REFERENCE_WIDTH,
+    playResY: number = REFERENCE_HEIGHT
+): string {
+    const marginH = overrides?.marginH !== undefined ? Math.max(toAssMarginH(overrides.marginH, playResX), 1) : 0;
+    const marginV = overrides?.marginV !== undefined ? Math.max(toAssMarginV(overrides.marginV, playResY), 1) : 0;
+    return `${marginH},${marginH},${marginV}`;
+}
 
 // Sanitize text to prevent ASS tag injection
 export function sanitizeAssText(text: string): string {
@@ -72,29 +114,81 @@ export function sanitizeAssText(text: string): string {
     return text.replace(/\r?\n/g, '\\N').replace(/\{[^}]*\}/g, '');
 }
 
+/**
+ * Render rich text (see lib/rich-text.ts) for a Dialogue event: markup
+ * becomes \b, \i and \u tags. The text is sanitized first, and stray braces
+ * are dropped too, so only the tags generated here can open a block.
+ */
+export function richTextToAss(text: string): string {
+    const state = { bold: false, italic: false, underline: false };
+    const runs = parseRichText(sanitizeAssText(text).replace(/[{}]/g, ''));
+    return runs.map(run => {
+        const tags: string[] = [];
+        ([['bold', 'b'], ['italic', 'i'], ['underline', 'u']] as const).forEach(([flag, tag]) => {
+            const on = !!run[flag];
+            if (on !== state[flag]) tags.push(`\\${tag}${on ? 1 : 0}`);
+            state[flag] = on;
+        });
+        return `${tags.length > 0 ? `{${tags.join('')}}` : ''}${run.text}`;
+    }).join('');
+}
+
 export interface VideoDimensions {
     width: number;
     height: number;
 }
 
+/**
+ * Build an ASS script. The Style lines are the global defaults under the
+ * project config; clip and line overrides become per-event tags (lines from
+ * a multi-video project carry their clip's config via applyClipStyle).
+ *
+ * In the 'combined' layout each line is a single event on the Primary style:
+ * positioned by the primary track, with the secondary text switched to the
+ * Secondary style by a `\r` reset and scaled relative to the primary font size.
+ */
+/**
+ * Font names an ASS script renders with: the Fontname of each style its
+ * events use (including `\r` resets) and every `\fn` override.
+ */
+export function getAssFontNames(ass: string): string[] {
+    const styleFonts = new Map<string, string>();
+    const usedStyles = new Set<string>();
+    const fonts = new Set<string>();
+    let fontField = 1;
+    for (const line of ass.split(/\r?\n/)) {
+        if (line.startsWith('Format:') && line.includes('Fontname')) {
+            fontField = line.slice('Format:'.length).split(',').map(field => field.trim()).indexOf('Fontname');
+        } else if (line.startsWith('Style:')) {
+            const fields = line.slice('Style:'.length).split(',').map(field => field.trim());
+            if (fields[fontField]) styleFonts.set(fields[0], fields[fontField]);
+        } else if (line.startsWith('Dialogue:')) {
+            // Style is the fourth field; the text may itself contain commas
+            usedStyles.add(line.split(',')[3]?.trim() ?? '');
+            for (const [, style] of line.matchAll(/\\r([^\\}]+)/g)) usedStyles.add(style.trim());
+            for (const [, font] of line.matchAll(/\\fn([^\\}]+)/g)) if (font.trim()) fonts.add(font.trim());
+        }
+    }
+    for (const style of usedStyles) {
+        const font = styleFonts.get(style);
+        if (font) fonts.add(font);
+    }
+    return [...fonts];
+}
+
 export function generateAss(
     subtitles: SubtitleLine[], 
     config: SubtitleConfig, 
-    videoDimensions?: VideoDimensions
+    videoDimensions?: VideoDimensions,
+    layout: BilingualLayout = DEFAULT_BILINGUAL_LAYOUT,
+    defaults: StyleDefaults = DEFAULT_GLOBAL_SETTINGS
 ): string {
     // Use actual video dimensions if provided, otherwise default to 1080p
     const playResX = videoDimensions?.width || REFERENCE_WIDTH;
     const playResY = videoDimensions?.height || REFERENCE_HEIGHT;
     
-    // Resolve styles with inheritance (Global -> Project -> Line)
-    const resolvedPrimary = resolveTrackStyle(
-        DEFAULT_GLOBAL_SETTINGS.defaultPrimaryStyle,
-        config.primary
-    );
-    const resolvedSecondary = resolveTrackStyle(
-        DEFAULT_GLOBAL_SETTINGS.defaultSecondaryStyle,
-        config.secondary
-    );
+    // Resolve styles with inheritance (Global -> Project); lines add their own
+    const { primary: resolvedPrimary, secondary: resolvedSecondary } = getTrackStyles(config, defaults);
     
     const scriptInfo = [
         '[Script Info]',
@@ -115,23 +209,47 @@ export function generateAss(
         '',
     ].join('\n');
 
+    // Line overrides become override tags and event margins on top of the track style
+    const dialogue = (sub: SubtitleLine, style: 'Primary' | 'Secondary', text: string) => {
+        const overrides = getLineOverrides(sub, style === 'Primary' ? 'primary' : 'secondary');
+        const margins = getAssEventMargins(overrides, playResX, playResY);
+        const tags = getAssOverrideTags(overrides, playResY);
+        return `Dialogue: 0,${formatAssTime(sub.startTime)},${formatAssTime(sub.endTime)},${style},,${margins},,${tags}${richTextToAss(text)}`;
+    };
+
+    const combinedDialogue = (sub: SubtitleLine) => {
+        const primaryOverrides = getLineOverrides(sub, 'primary');
+        const secondaryOverrides = getLineOverrides(sub, 'secondary');
+        const primaryFontSize = resolveTrackStyle(resolvedPrimary, undefined, primaryOverrides).fontSize;
+        // Alignment is per event, so only the primary track's counts
+        const position = getAssOverrideTags({ alignment: primaryOverrides?.alignment }, playResY);
+        const text = getCombinedSegments(sub, layout).map((segment, index) => {
+            if (segment.track === 'primary') {
+                const reset = index > 0 ? '{\\r}' : '';
+                return `${reset}${getAssOverrideTags({ ...primaryOverrides, alignment: undefined }, playResY)}${richTextToAss(segment.text)}`;
+            }
+            const tags = getAssOverrideTags({
+                ...secondaryOverrides,
+                alignment: undefined,
+                fontSize: secondaryOverrides?.fontSize ?? primaryFontSize * layout.secondaryScale,
+            }, playResY);
+            return `{\\rSecondary}${tags}${richTextToAss(segment.text)}`;
+        }).join(getCombinedSeparator(layout.separator, '\\N'));
+        const margins = getAssEventMargins(primaryOverrides, playResX, playResY);
+        return `Dialogue: 0,${formatAssTime(sub.startTime)},${formatAssTime(sub.endTime)},Primary,,${margins},,${position}${text}`;
+    };
+
     const events = [
         '[Events]',
         'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text',
-        ...subtitles.map(sub => {
-            // If line has custom color, use it; otherwise use resolved style
-            const customColor = sub.styleOverrides?.color || sub.primaryColor;
-            const colorTag = customColor ? `{\\c${hexToAssColor(customColor)}}` : '';
-            
-            return `Dialogue: 0,${formatAssTime(sub.startTime)},${formatAssTime(sub.endTime)},Primary,,0,0,0,,${colorTag}${sanitizeAssText(sub.text)}`;
-        }),
-        ...subtitles
-            .filter(sub => sub.secondaryText)
-            .map(sub => {
-                const customColor = sub.secondaryColor;
-                const colorTag = customColor ? `{\\c${hexToAssColor(customColor)}}` : '';
-                return `Dialogue: 0,${formatAssTime(sub.startTime)},${formatAssTime(sub.endTime)},Secondary,,0,0,0,,${colorTag}${sanitizeAssText(sub.secondaryText!)}`;
-            }),
+        ...(layout.mode === 'combined'
+            ? subtitles.map(combinedDialogue)
+            : [
+                ...subtitles.map(sub => dialogue(sub, 'Primary', sub.text)),
+                ...subtitles
+                    .filter(sub => sub.secondaryText)
+                    .map(sub => dialogue(sub, 'Secondary', sub.secondaryText!)),
+            ]),
     ].join('\n');
     
     return `${scriptInfo}${styles}${events}`;
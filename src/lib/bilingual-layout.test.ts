@@ -0,0 +1,46 @@
+import { getBilingualLayout, getCombinedSegments, getCombinedSeparator, combineTrackText } from './bilingual-layout';
+import { SubtitleLine, DEFAULT_GLOBAL_SETTINGS } from '@/types/subtitle';
+
+const line: SubtitleLine = { id: '1', startTime: 0, endTime: 1, text: 'Hello', secondaryText: 'Hola' };
+
+describe('bilingual-layout', () => {
+  describe('getBilingualLayout', () => {
+    it('defaults to the split layout', () => {
+      expect(getBilingualLayout()).toEqual({ mode: 'split', ...DEFAULT_GLOBAL_SETTINGS.combinedLayout });
+    });
+
+    it('reads the combined options and keeps them in range', () => {
+      const layout = getBilingualLayout({
+        subtitleStyle: 'combined',
+        combinedLayout: { order: 'secondary-first', separator: 'slash', secondaryScale: 5 },
+      });
+      expect(layout).toEqual({ mode: 'combined', order: 'secondary-first', separator: 'slash', secondaryScale: 2 });
+    });
+
+    it('falls back on unknown stored values', () => {
+      const layout = getBilingualLayout({
+        subtitleStyle: 'stacked' as never,
+        combinedLayout: { order: 'x' as never, separator: 'x' as never, secondaryScale: NaN },
+      });
+      expect(layout).toEqual(getBilingualLayout());
+    });
+  });
+
+  it('orders the non-empty tracks', () => {
+    const combined = getBilingualLayout({ subtitleStyle: 'combined' });
+    expect(getCombinedSegments(line, combined).map(s => s.track)).toEqual(['primary', 'secondary']);
+    expect(getCombinedSegments(line, { ...combined, order: 'secondary-first' }).map(s => s.track)).toEqual(['secondary', 'primary']);
+    expect(getCombinedSegments({ ...line, secondaryText: ' ' }, combined)).toEqual([{ track: 'primary', text: 'Hello' }]);
+  });
+
+  it('joins the tracks with the separator', () => {
+    expect(getCombinedSeparator('line', '\\N')).toBe('\\N');
+    expect(getCombinedSeparator('blank', '\\N')).toBe('\\N\\N');
+    expect(getCombinedSeparator('blank', '\n', false)).toBe('\n');
+    expect(getCombinedSeparator('slash')).toBe(' / ');
+
+    const layout = getBilingualLayout({ subtitleStyle: 'combined', combinedLayout: { order: 'primary-first', separator: 'blank', secondaryScale: 1 } });
+    expect(combineTrackText(line, layout)).toBe('Hello\n\nHola');
+    expect(combineTrackText(line, layout, false)).toBe('Hello\nHola');
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * Bilingual layout
+ *
+ * Resolves the global 'split' / 'combined' setting and orders the tracks of
+ * a combined line. The ASS generator, the sidecar exporters and the preview
+ * all stack lines through here, so they agree on order and separators.
+ */
+
+import { SubtitleLine, GlobalSettings, BilingualLayout, CombinedSeparator, DEFAULT_GLOBAL_SETTINGS } from "@/types/subtitle";
+
+export const SECONDARY_SCALE_RANGE = { min: 0.3, max: 2 };
+
+const SEPARATORS: CombinedSeparator[] = ['line', 'blank', 'slash'];
+
+export function getBilingualLayout(
+  settings?: Partial<Pick<GlobalSettings, 'subtitleStyle' | 'combinedLayout'>>
+): BilingualLayout {
+  const combined = { ...DEFAULT_GLOBAL_SETTINGS.combinedLayout, ...settings?.combinedLayout };
+  const scale = Number.isFinite(combined.secondaryScale)
+    ? Math.min(Math.max(combined.secondaryScale, SECONDARY_SCALE_RANGE.min), SECONDARY_SCALE_RANGE.max)
+    : DEFAULT_GLOBAL_SETTINGS.combinedLayout.secondaryScale;
+  return {
+    mode: settings?.subtitleStyle === 'combined' ? 'combined' : 'split',
+    order: combined.order === 'secondary-first' ? 'secondary-first' : 'primary-first',
+    separator: SEPARATORS.includes(combined.separator) ? combined.separator : 'line',
+    secondaryScale: scale,
+  };
+}
+
+/** Split layout with default combined options; what callers get without settings. */
+export const DEFAULT_BILINGUAL_LAYOUT = getBilingualLayout();
+
+export interface CombinedSegment {
+  track: 'primary' | 'secondary';
+  text: string;
+}
+
+/** The line's non-empty tracks in display order. */
+export function getCombinedSegments(line: SubtitleLine, layout: BilingualLayout): CombinedSegment[] {
+  const segments: CombinedSegment[] = [
+    { track: 'primary' as const, text: line.text },
+    { track: 'secondary' as const, text: line.secondaryText || '' },
+  ].filter(segment => segment.text.trim() !== '');
+  return layout.order === 'secondary-first' ? segments.reverse() : segments;
+}
+
+/**
+ * What goes between the tracks, given the format's line break. A blank line
+ * ends a cue in SRT, WebVTT and SBV, so those pass `allowBlank: false` and
+ * get a single break instead.
+ */
+export function getCombinedSeparator(separator: CombinedSeparator, lineBreak = '\n', allowBlank = true): string {
+  if (separator === 'slash') return ' / ';
+  if (separator === 'blank' && allowBlank) return lineBreak + lineBreak;
+  return lineBreak;
+}
+
+/** Both tracks as one plain-text block, for sidecar formats. */
+export function combineTrackText(line: SubtitleLine, layout: BilingualLayout, allowBlank = true): string {
+  return getCombinedSegments(line, layout)
+    .map(segment => segment.text)
+    .join(getCombinedSeparator(layout.separator, '\n', allowBlank));
+}
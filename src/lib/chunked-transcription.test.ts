@@ -0,0 +1,181 @@
+jest.mock('./ai-provider', () => ({
+  processWithFallback: jest.fn(),
+}));
+
+jest.mock('./ffmpeg-utils', () => ({
+  detectSilences: jest.fn(),
+  extractAudioSegment: jest.fn(),
+}));
+
+jest.mock('fs', () => ({
+  promises: {
+    readFile: jest.fn(),
+    rm: jest.fn(),
+  },
+}));
+
+import fs from 'fs';
+import { processWithFallback } from './ai-provider';
+import { detectSilences, extractAudioSegment } from './ffmpeg-utils';
+import {
+  planChunks,
+  offsetChunkSubtitles,
+  stitchChunkTranscripts,
+  transcribeInChunks,
+  TranscriptionChunk,
+} from './chunked-transcription';
+import { SubtitleLine, ModelConfig } from '@/types/subtitle';
+
+const line = (startTime: number, endTime: number, text: string): SubtitleLine => ({
+  id: `${startTime}`, startTime, endTime, text,
+});
+
+const chunk = (index: number, coreStart: number, coreEnd: number): TranscriptionChunk => ({
+  index, coreStart, coreEnd, windowStart: Math.max(0, coreStart - 10), windowEnd: coreEnd + 10,
+});
+
+describe('planChunks', () => {
+  it('returns a single chunk for short media', () => {
+    expect(planChunks(300, { chunkSeconds: 600, overlapSeconds: 10 })).toEqual([
+      { index: 0, coreStart: 0, coreEnd: 300, windowStart: 0, windowEnd: 300 },
+    ]);
+  });
+
+  it('tiles the timeline with overlapping windows', () => {
+    const chunks = planChunks(1800, { chunkSeconds: 600, overlapSeconds: 10 });
+
+    expect(chunks.map(c => [c.coreStart, c.coreEnd])).toEqual([[0, 600], [600, 1200], [1200, 1800]]);
+    expect(chunks[1].windowStart).toBe(590);
+    expect(chunks[1].windowEnd).toBe(1210);
+    expect(chunks[2].windowEnd).toBe(1800);
+  });
+
+  it('spreads a short tail over the other chunks', () => {
+    const chunks = planChunks(1300, { chunkSeconds: 600 });
+
+    expect(chunks.map(c => [c.coreStart, c.coreEnd])).toEqual([[0, 650], [650, 1300]]);
+  });
+
+  it('cuts inside the nearest silence', () => {
+    const chunks = planChunks(1200, {
+      chunkSeconds: 600,
+      overlapSeconds: 10,
+      silences: [{ start: 580, end: 584 }, { start: 612, end: 614 }, { start: 900, end: 910 }],
+    });
+
+    expect(chunks[0].coreEnd).toBe(613);
+    expect(chunks[1].coreStart).toBe(613);
+  });
+
+  it('returns no chunks for an unknown duration', () => {
+    expect(planChunks(0)).toEqual([]);
+  });
+});
+
+describe('offsetChunkSubtitles', () => {
+  it('parses string timestamps and applies the offset', () => {
+    const result = offsetChunkSubtitles([
+      { startTime: '00:00:01,500', endTime: '00:00:03,000', text: 'Hello', secondaryText: '你好' },
+      { startTime: 4, endTime: 5, text: 'World' },
+    ], 590);
+
+    expect(result).toMatchObject([
+      { startTime: 591.5, endTime: 593, text: 'Hello', secondaryText: '你好' },
+      { startTime: 594, endTime: 595, text: 'World' },
+    ]);
+  });
+
+  it('drops malformed lines', () => {
+    expect(offsetChunkSubtitles([null, { startTime: 5, endTime: 2, text: 'x' }, { startTime: 1, endTime: 2 }], 0)).toEqual([]);
+  });
+});
+
+describe('stitchChunkTranscripts', () => {
+  it('keeps each line only in the chunk owning its midpoint', () => {
+    const result = stitchChunkTranscripts([
+      { chunk: chunk(0, 0, 600), subtitles: [line(10, 12, 'Start'), line(595, 598, 'Near the cut'), line(601, 604, 'After the cut')] },
+      { chunk: chunk(1, 600, 1200), subtitles: [line(595, 598, 'Near the cut'), line(601, 604, 'After the cut'), line(700, 702, 'Later')] },
+    ]);
+
+    expect(result.map(l => l.text)).toEqual(['Start', 'Near the cut', 'After the cut', 'Later']);
+  });
+
+  it('merges a sentence both neighbours transcribed across the seam', () => {
+    const result = stitchChunkTranscripts([
+      { chunk: chunk(0, 0, 600), subtitles: [line(597, 600.5, 'We should go')] },
+      { chunk: chunk(1, 600, 1200), subtitles: [line(599, 603, 'We should go now.')] },
+    ]);
+
+    expect(result).toHaveLength(1);
+    expect(result[0]).toMatchObject({ startTime: 597, endTime: 603, text: 'We should go now.' });
+  });
+
+  it('trims overlapping but different lines at the seam', () => {
+    const result = stitchChunkTranscripts([
+      { chunk: chunk(0, 0, 600), subtitles: [line(597, 601, 'First')] },
+      { chunk: chunk(1, 600, 1200), subtitles: [line(600, 603, 'Second')] },
+    ]);
+
+    expect(result.map(l => [l.startTime, l.endTime, l.text])).toEqual([[597, 600, 'First'], [600, 603, 'Second']]);
+  });
+});
+
+describe('transcribeInChunks', () => {
+  const chain: ModelConfig[] = [{ id: 'gemini-flash', provider: 'gemini', modelName: 'gemini-2.5-flash', enabled: true }];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (detectSilences as jest.Mock).mockResolvedValue([]);
+    (extractAudioSegment as jest.Mock).mockImplementation((_in, out) => Promise.resolve(out));
+    (fs.promises.readFile as jest.Mock).mockResolvedValue(Buffer.from('audio'));
+    (fs.promises.rm as jest.Mock).mockResolvedValue(undefined);
+  });
+
+  it('transcribes every window, offsets and stitches the results', async () => {
+    (processWithFallback as jest.Mock).mockResolvedValue({
+      subtitles: [{ startTime: '00:00:20,000', endTime: '00:00:22,000', text: 'Line' }],
+      detectedLanguage: 'English',
+    });
+    const onProgress = jest.fn();
+
+    const result = await transcribeInChunks('/staging/talk.mp4', { secondaryLanguage: 'French' }, chain, {
+      duration: 1300,
+      workDir: '/staging/temp',
+      chunkSeconds: 600,
+      overlapSeconds: 15,
+      onProgress,
+    });
+
+    expect(extractAudioSegment).toHaveBeenCalledTimes(2);
+    expect(extractAudioSegment).toHaveBeenCalledWith('/staging/talk.mp4', expect.stringContaining('/staging/temp/talk_chunk1_'), 635, 665);
+    expect(processWithFallback).toHaveBeenCalledWith(
+      'generate',
+      expect.objectContaining({ secondaryLanguage: 'French', isInline: true, mimeType: 'audio/mp4', base64Data: 'YXVkaW8=' }),
+      chain
+    );
+    expect(result.subtitles.map(l => l.startTime)).toEqual([20, 655]);
+    expect(result.detectedLanguage).toBe('English');
+    expect(onProgress).toHaveBeenLastCalledWith(2, 2);
+    expect(fs.promises.rm).toHaveBeenCalledTimes(2);
+  });
+
+  it('falls back to fixed windows when silence detection fails', async () => {
+    (detectSilences as jest.Mock).mockRejectedValue(new Error('no ffmpeg'));
+    (processWithFallback as jest.Mock).mockResolvedValue({ subtitles: [] });
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    await transcribeInChunks('/staging/talk.mp4', {}, chain, { duration: 1300, workDir: '/tmp', chunkSeconds: 600 });
+
+    expect(extractAudioSegment).toHaveBeenCalledTimes(2);
+  });
+
+  it('rejects and cleans up when a chunk fails', async () => {
+    (processWithFallback as jest.Mock).mockRejectedValue(new Error('quota'));
+
+    await expect(
+      transcribeInChunks('/staging/talk.mp4', {}, chain, { duration: 1300, workDir: '/tmp', chunkSeconds: 600, concurrency: 1 })
+    ).rejects.toThrow('quota');
+    expect(extractAudioSegment).toHaveBeenCalledTimes(1);
+    expect(fs.promises.rm).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,314 @@
+/**
+ * Chunked transcription for long media (server only)
+ *
+ * Sending a multi-hour recording to the model in one request produces
+ * drifting timestamps and truncated output. Instead the audio is split into
+ * overlapping windows (cut inside silences where possible), each window is
+ * transcribed independently, and the results are offset and stitched back
+ * into a single timeline.
+ *
+ * Every chunk "owns" a core region; the core regions tile the timeline and
+ * the overlap padding around them only gives the model context at the cut.
+ * A line is kept by the chunk whose core contains its midpoint, and any
+ * duplicates that still straddle a seam are merged.
+ */
+
+import fs from "fs";
+import path from "path";
+import { ModelConfig, SubtitleLine, SubtitleProvenance } from "@/types/subtitle";
+import { processWithFallback, AIParams } from "./ai-provider";
+import { detectSilences, extractAudioSegment, ffprobe, SilenceInterval } from "./ffmpeg-utils";
+import { parseTimestamp } from "./time-utils";
+import { generateClipId } from "./upload-utils";
+
+/** Media longer than this is transcribed in chunks. */
+export const CHUNKING_THRESHOLD_SECONDS = 20 * 60;
+export const DEFAULT_CHUNK_SECONDS = 10 * 60;
+export const DEFAULT_OVERLAP_SECONDS = 15;
+const DEFAULT_CONCURRENCY = 3;
+// How far from the nominal cut point we look for a silence to cut in
+const SILENCE_SEARCH_SECONDS = 30;
+
+export interface TranscriptionChunk {
+  index: number;
+  coreStart: number;   // Region this chunk is authoritative for
+  coreEnd: number;
+  windowStart: number; // Audio actually sent (core padded by the overlap)
+  windowEnd: number;
+}
+
+export interface ChunkPlanOptions {
+  chunkSeconds?: number;
+  overlapSeconds?: number;
+  silences?: SilenceInterval[];
+}
+
+export interface ChunkTranscript {
+  chunk: TranscriptionChunk;
+  subtitles: SubtitleLine[]; // Absolute (already offset) timestamps
+}
+
+export interface ChunkedTranscriptionOptions extends ChunkPlanOptions {
+  duration: number;
+  workDir: string; // Where temporary chunk files are written
+  concurrency?: number;
+  onProgress?: (completedChunks: number, totalChunks: number) => void;
+}
+
+export interface ChunkedTranscriptionResult {
+  subtitles: SubtitleLine[];
+  detectedLanguage?: string;
+  provenance?: SubtitleProvenance; // From the first chunk; fallbacks may vary per chunk
+}
+
+/**
+ * Media duration when it is long enough to need chunked transcription, else 0.
+ */
+export async function getChunkingDuration(filePath: string): Promise<number> {
+  try {
+    const { duration } = await ffprobe(filePath);
+    return duration > CHUNKING_THRESHOLD_SECONDS ? duration : 0;
+  } catch (e) {
+    console.warn('[Chunking] Could not probe duration, skipping chunked transcription:', e);
+    return 0;
+  }
+}
+
+/**
+ * Pick a cut point near `target`: the middle of the closest silence within
+ * the search range, or `target` itself when there is none.
+ */
+function findCutPoint(target: number, silences: SilenceInterval[], min: number, max: number): number {
+  let best = target;
+  let bestDistance = Infinity;
+  for (const silence of silences) {
+    const mid = (silence.start + silence.end) / 2;
+    const distance = Math.abs(mid - target);
+    if (distance <= SILENCE_SEARCH_SECONDS && distance < bestDistance && mid > min && mid < max) {
+      best = mid;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+/**
+ * Split [0, duration] into evenly sized chunks of roughly `chunkSeconds`,
+ * moving each cut into a nearby silence when one exists.
+ */
+export function planChunks(duration: number, options: ChunkPlanOptions = {}): TranscriptionChunk[] {
+  const chunkSeconds = options.chunkSeconds ?? DEFAULT_CHUNK_SECONDS;
+  const overlapSeconds = options.overlapSeconds ?? DEFAULT_OVERLAP_SECONDS;
+  const silences = options.silences ?? [];
+
+  if (!(duration > 0) || !(chunkSeconds > 0)) return [];
+
+  const count = Math.max(1, Math.round(duration / chunkSeconds));
+  const length = duration / count;
+  const cuts: number[] = [0];
+  for (let i = 1; i < count; i++) {
+    cuts.push(findCutPoint(i * length, silences, cuts[i - 1] + length / 2, duration));
+  }
+  cuts.push(duration);
+
+  return cuts.slice(0, -1).map((coreStart, index) => {
+    const coreEnd = cuts[index + 1];
+    return {
+      index,
+      coreStart,
+      coreEnd,
+      windowStart: Math.max(0, coreStart - overlapSeconds),
+      windowEnd: Math.min(duration, coreEnd + overlapSeconds),
+    };
+  });
+}
+
+/**
+ * Convert a model timestamp ("HH:MM:SS,mmm" from Gemini or seconds from
+ * Whisper) to seconds.
+ */
+function toSeconds(value: unknown): number {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string') return parseTimestamp(value);
+  return NaN;
+}
+
+/**
+ * Shift chunk-relative model output onto the absolute timeline, dropping
+ * lines with unusable timestamps.
+ */
+export function offsetChunkSubtitles(raw: unknown[], offset: number): SubtitleLine[] {
+  const lines: SubtitleLine[] = [];
+  for (const item of raw) {
+    if (!item || typeof item !== 'object') continue;
+    const { startTime, endTime, text, secondaryText } = item as Record<string, unknown>;
+    const start = toSeconds(startTime);
+    const end = toSeconds(endTime);
+    if (!isFinite(start) || !isFinite(end) || end < start || typeof text !== 'string') continue;
+
+    lines.push({
+      id: generateClipId(),
+      startTime: start + offset,
+      endTime: end + offset,
+      text,
+      ...(typeof secondaryText === 'string' && secondaryText && { secondaryText }),
+    });
+  }
+  return lines;
+}
+
+function normalizeText(text: string): string {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '');
+}
+
+function isSameSpeech(a: SubtitleLine, b: SubtitleLine): boolean {
+  const textA = normalizeText(a.text);
+  const textB = normalizeText(b.text);
+  if (!textA || !textB) return textA === textB;
+  return textA.includes(textB) || textB.includes(textA);
+}
+
+/**
+ * Merge per-chunk transcripts into one timeline.
+ */
+export function stitchChunkTranscripts(transcripts: ChunkTranscript[]): SubtitleLine[] {
+  const ordered = [...transcripts].sort((a, b) => a.chunk.index - b.chunk.index);
+  const lastIndex = ordered.length - 1;
+  const kept: { line: SubtitleLine; chunk: number }[] = [];
+
+  ordered.forEach(({ chunk, subtitles }, position) => {
+    for (const line of subtitles) {
+      const mid = (line.startTime + line.endTime) / 2;
+      const afterStart = position === 0 || mid >= chunk.coreStart;
+      const beforeEnd = position === lastIndex || mid < chunk.coreEnd;
+      if (afterStart && beforeEnd) kept.push({ line, chunk: chunk.index });
+    }
+  });
+
+  kept.sort((a, b) => a.line.startTime - b.line.startTime);
+
+  const result: { line: SubtitleLine; chunk: number }[] = [];
+  for (const entry of kept) {
+    const previous = result[result.length - 1];
+    const overlaps = previous && entry.line.startTime < previous.line.endTime;
+
+    if (overlaps && previous.chunk !== entry.chunk && isSameSpeech(previous.line, entry.line)) {
+      // The same sentence transcribed by both neighbours: keep the fuller one
+      const longer = entry.line.text.length > previous.line.text.length ? entry.line : previous.line;
+      previous.line = {
+        ...longer,
+        startTime: Math.min(previous.line.startTime, entry.line.startTime),
+        endTime: Math.max(previous.line.endTime, entry.line.endTime),
+      };
+      continue;
+    }
+    if (overlaps && previous.chunk !== entry.chunk && entry.line.startTime > previous.line.startTime) {
+      // Different lines from different chunks: don't let them overlap
+      previous.line = { ...previous.line, endTime: entry.line.startTime };
+    }
+    result.push({ line: entry.line, chunk: entry.chunk });
+  }
+
+  return result.map(entry => entry.line);
+}
+
+function mostCommon(values: (string | undefined)[]): string | undefined {
+  const counts = new Map<string, number>();
+  for (const value of values) {
+    if (value) counts.set(value, (counts.get(value) || 0) + 1);
+  }
+  let best: string | undefined;
+  let bestCount = 0;
+  for (const [value, count] of counts) {
+    if (count > bestCount) {
+      best = value;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+/**
+ * Run `worker` over `items` with at most `limit` in flight. Stops picking up
+ * new items after the first failure and rejects with it.
+ */
+async function runWithConcurrency<T>(items: T[], limit: number, worker: (item: T) => Promise<void>): Promise<void> {
+  let next = 0;
+  let failed = false;
+  const runners = Array.from({ length: Math.min(Math.max(1, limit), items.length) }, async () => {
+    while (!failed && next < items.length) {
+      const item = items[next++];
+      try {
+        await worker(item);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  });
+  await Promise.all(runners);
+}
+
+/**
+ * Transcribe a long media file chunk by chunk through the AI fallback chain.
+ */
+export async function transcribeInChunks(
+  mediaPath: string,
+  params: AIParams,
+  fallbackChain: ModelConfig[],
+  options: ChunkedTranscriptionOptions
+): Promise<ChunkedTranscriptionResult> {
+  const { duration, workDir, onProgress } = options;
+
+  let silences = options.silences;
+  if (!silences) {
+    try {
+      silences = await detectSilences(mediaPath, { duration });
+    } catch (error) {
+      // Fixed-length cuts still work; the overlap covers split words
+      console.warn('[Chunking] Silence detection failed, using fixed windows:', error);
+      silences = [];
+    }
+  }
+
+  const chunks = planChunks(duration, { ...options, silences });
+  if (chunks.length === 0) {
+    throw new Error('Cannot chunk media with unknown duration');
+  }
+  console.log(`[Chunking] Transcribing ${mediaPath} in ${chunks.length} chunks`);
+
+  const baseName = path.basename(mediaPath, path.extname(mediaPath));
+  const transcripts: ChunkTranscript[] = [];
+  const languages: (string | undefined)[] = [];
+  const provenances: SubtitleProvenance[] = [];
+  let completed = 0;
+  onProgress?.(0, chunks.length);
+
+  await runWithConcurrency(chunks, options.concurrency ?? DEFAULT_CONCURRENCY, async (chunk) => {
+    const chunkPath = path.join(workDir, `${baseName}_chunk${chunk.index}_${Date.now()}.m4a`);
+    try {
+      await extractAudioSegment(mediaPath, chunkPath, chunk.windowStart, chunk.windowEnd - chunk.windowStart);
+      const base64Data = (await fs.promises.readFile(chunkPath)).toString('base64');
+
+      const result = await processWithFallback(
+        'generate',
+        { ...params, base64Data, filePath: chunkPath, mimeType: 'audio/mp4', isInline: true, fileUri: undefined },
+        fallbackChain
+      );
+
+      transcripts.push({ chunk, subtitles: offsetChunkSubtitles(result.subtitles, chunk.windowStart) });
+      languages.push(result.detectedLanguage);
+      provenances[chunk.index] = result.provenance;
+      completed++;
+      onProgress?.(completed, chunks.length);
+    } finally {
+      await fs.promises.rm(chunkPath, { force: true }).catch(e => console.error('[Chunking] Cleanup error', e));
+    }
+  });
+
+  return {
+    subtitles: stitchChunkTranscripts(transcripts),
+    detectedLanguage: mostCommon(languages),
+    provenance: provenances.find(Boolean),
+  };
+}
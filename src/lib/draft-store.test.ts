@@ -1,4 +1,5 @@
-import { saveDraftV1, saveDraftV2, renameDraft } from './draft-store';
+import fs from 'fs';
+import { saveDraftV1, saveDraftV2, renameDraft, attachTranscription, deleteDraft } from './draft-store';
 import { SubtitleConfig, ProjectConfig } from '@/types/subtitle';
 
 // Mock better-sqlite3
@@ -128,6 +129,61 @@ describe('draft-store', () => {
     });
   });
 
+  describe('attachTranscription', () => {
+    const row = {
+      id: 'd1',
+      name: 'Draft',
+      version: 2,
+      clips: JSON.stringify([
+        { id: 'c1', filePath: '/staging/a.mp4', subtitles: [] },
+        { id: 'c2', filePath: '/staging/b.mp4', subtitles: [] },
+      ]),
+      timeline: '[]',
+      config: '{}',
+      created_at: 1,
+      updated_at: 1,
+    };
+    const subtitles = [{ id: 's1', startTime: 0, endTime: 1, text: 'Hi' }];
+
+    it('replaces the subtitles of the matching clip in a V2 draft', () => {
+      mGet.mockReturnValueOnce(row).mockReturnValueOnce({ id: 'd1' }).mockReturnValueOnce(row);
+
+      expect(attachTranscription('d1', { subtitles, videoPath: '/staging/b.mp4' })).toBe(true);
+
+      const update = mPrepare.mock.calls.findIndex(([sql]) => String(sql).includes('UPDATE drafts SET'));
+      const run = mPrepare.mock.results[update].value.run as jest.Mock;
+      const clips = JSON.parse(run.mock.calls[0][2]);
+      expect(clips[0].subtitles).toEqual([]);
+      expect(clips[1].subtitles).toEqual(subtitles);
+    });
+
+    it('returns false when the draft or clip is gone', () => {
+      expect(attachTranscription('missing', { subtitles })).toBe(false);
+
+      mGet.mockReturnValueOnce(row);
+      expect(attachTranscription('d1', { subtitles, clipId: 'deleted' })).toBe(false);
+    });
+  });
+
+  describe('deleteDraft', () => {
+    const row = { id: 'd1', name: 'Draft', version: 1, video_path: '/staging/a.mp4', subtitles: '[]', config: '{}', created_at: 1, updated_at: 1 };
+
+    afterEach(() => {
+      (fs.existsSync as jest.Mock).mockReturnValue(false);
+    });
+
+    it('deletes the video unless another project keeps it', () => {
+      (fs.existsSync as jest.Mock).mockReturnValue(true);
+      mGet.mockReturnValue(row);
+
+      expect(deleteDraft('d1', true)).toBe(true);
+      expect(fs.unlinkSync).not.toHaveBeenCalledWith('/staging/a.mp4');
+
+      expect(deleteDraft('d1')).toBe(true);
+      expect(fs.unlinkSync).toHaveBeenCalledWith('/staging/a.mp4');
+    });
+  });
+
   describe('renameDraft', () => {
     it('renames an existing draft', () => {
       const id = 'existing-id';
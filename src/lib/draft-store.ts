@@ -21,9 +21,13 @@ import {
   DEFAULT_PROJECT_CONFIG,
   migrateToMultiVideo,
   ProjectState,
+  SubtitleProvenance,
 } from "@/types/subtitle";
 import { getMetadataPath } from "./metrics-utils";
 import { getStagingDir, ensureStagingStructure } from './storage-config';
+import { getPeaksCachePath } from './waveform-peaks';
+import { getSpeechCachePath } from './speech-detection';
+import { getShotCachePath } from './shot-detection';
 
 const stagingDir = getStagingDir();
 ensureStagingStructure(stagingDir);
@@ -378,19 +382,32 @@ export function migrateDraftToV2(id: string): DraftV2 | null {
   });
 }
 
+/**
+ * Remove the waveform, speech and shot caches kept next to a media file
+ */
+function removeMediaCaches(mediaPath: string): void {
+  fs.rmSync(getPeaksCachePath(mediaPath), { force: true });
+  fs.rmSync(getSpeechCachePath(mediaPath), { force: true });
+  fs.rmSync(getShotCachePath(mediaPath), { force: true });
+}
+
 /**
  * Delete a draft by ID
- * Also cleans up any associated video files
+ * Also cleans up any associated video files, unless `keepMedia` is set
+ * because another project uses them
  */
-export function deleteDraft(id: string): boolean {
+export function deleteDraft(id: string, keepMedia = false): boolean {
   const draft = loadDraft(id);
   
   if (!draft) return false;
   
   // Delete associated video files
-  if (draft.version === 1 && draft.videoPath && fs.existsSync(draft.videoPath)) {
+  if (keepMedia) {
+    console.log(`[DraftStore] Keeping the media of draft ${id}`);
+  } else if (draft.version === 1 && draft.videoPath && fs.existsSync(draft.videoPath)) {
     try {
       fs.unlinkSync(draft.videoPath);
+      removeMediaCaches(draft.videoPath);
       console.log(`[DraftStore] Deleted video file: ${draft.videoPath}`);
     } catch (err) {
       console.error(`[DraftStore] Failed to delete video file: ${draft.videoPath}`, err);
@@ -401,6 +418,7 @@ export function deleteDraft(id: string): boolean {
       if (clip.filePath && fs.existsSync(clip.filePath)) {
         try {
           fs.unlinkSync(clip.filePath);
+          removeMediaCaches(clip.filePath);
           console.log(`[DraftStore] Deleted clip file: ${clip.filePath}`);
         } catch (err) {
           console.error(`[DraftStore] Failed to delete clip file: ${clip.filePath}`, err);
@@ -453,6 +471,7 @@ export function cleanupOldDrafts(maxAgeDays: number = 30): number {
     if (draft.version === 1 && draft.videoPath && fs.existsSync(draft.videoPath)) {
       try {
         fs.unlinkSync(draft.videoPath);
+        removeMediaCaches(draft.videoPath);
       } catch (err) {
         console.error(`[DraftStore] Failed to delete video file: ${draft.videoPath}`, err);
       }
@@ -461,6 +480,7 @@ export function cleanupOldDrafts(maxAgeDays: number = 30): number {
         if (clip.filePath && fs.existsSync(clip.filePath)) {
           try {
             fs.unlinkSync(clip.filePath);
+            removeMediaCaches(clip.filePath);
           } catch (err) {
             console.error(`[DraftStore] Failed to delete clip file: ${clip.filePath}`, err);
           }
@@ -493,6 +513,42 @@ export function renameDraft(id: string, newName: string): boolean {
   return result.changes > 0;
 }
 
+/**
+ * Store a finished transcription job's subtitles in its draft. V2 drafts
+ * take them on the clip given by `clipId` (or the clip playing `videoPath`).
+ * Returns false when the draft or clip no longer exists.
+ */
+export function attachTranscription(id: string, transcription: {
+  subtitles: SubtitleLine[];
+  clipId?: string;
+  videoPath?: string;
+  provenance?: SubtitleProvenance;
+}): boolean {
+  const draft = loadDraft(id);
+  if (!draft) return false;
+
+  const { subtitles, clipId, videoPath, provenance } = transcription;
+
+  if (draft.version === 2) {
+    const clip = draft.clips.find(c => (clipId ? c.id === clipId : c.filePath === videoPath));
+    if (!clip) return false;
+
+    saveDraftV2({
+      ...draft,
+      clips: draft.clips.map(c => (c === clip ? { ...c, subtitles } : c)),
+      subtitleConfig: provenance ? { ...draft.subtitleConfig, provenance } : draft.subtitleConfig,
+    });
+    return true;
+  }
+
+  saveDraftV1({
+    ...draft,
+    subtitles,
+    config: draft.config && provenance ? { ...draft.config, provenance } : draft.config,
+  });
+  return true;
+}
+
 /**
  * Close the database connection
  */
@@ -0,0 +1,180 @@
+/**
+ * @jest-environment node
+ *
+ * Cancellation against a real child process: fake `ffmpeg`/`ffprobe`
+ * executables write a partial output file and keep "encoding" until they are
+ * killed, so these tests catch a cancel that only flips state.
+ */
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { burnSubtitles, muxSubtitles } from './ffmpeg-utils';
+import { exportMultiVideo } from './ffmpeg-concat';
+import { processJob } from './job-processor';
+import { QueueItem } from '@/types/queue';
+import { MultiVideoProjectState, DEFAULT_CONFIG, DEFAULT_PROJECT_CONFIG } from '@/types/subtitle';
+
+// The staging dir is the temp dir, so the font library is empty
+let mockStagingDir = '';
+jest.mock('./storage-config', () => ({
+  isPathSafe: jest.fn(() => true),
+  getStagingDir: jest.fn(() => mockStagingDir),
+}));
+
+// Jest sandboxes process.env, so PATH can't point child processes at the
+// fakes; spawn still runs a real process, just the fake binary
+let mockBinDir = '';
+jest.mock('child_process', () => {
+  const actual = jest.requireActual('child_process');
+  return {
+    ...actual,
+    spawn: (command: string, ...rest: unknown[]) =>
+      actual.spawn(mockBinDir && /^ff(mpeg|probe)$/.test(command) ? `${mockBinDir}/${command}` : command, ...rest),
+  };
+});
+
+// Writes a partial output, reports progress and runs until killed (or for
+// 50 ms when a "quick" file sits next to it). The pid goes next to the
+// output so tests can check the process died.
+const FAKE_FFMPEG = `#!/usr/bin/env node
+const fs = require('fs');
+const out = process.argv[process.argv.length - 1];
+fs.writeFileSync(out + '.pid', String(process.pid));
+fs.writeFileSync(out, 'partial');
+let seconds = 0;
+setInterval(() => {
+  seconds++;
+  process.stderr.write('frame=1 time=00:00:0' + (seconds % 10) + '.00 bitrate=1\\n');
+}, 20);
+const quick = fs.existsSync(require('path').join(__dirname, 'quick'));
+setTimeout(() => process.exit(0), quick ? 50 : 60000);
+`;
+
+const FAKE_FFPROBE = `#!/usr/bin/env node
+process.stdout.write(JSON.stringify({ format: { duration: '10' }, streams: [] }));
+`;
+
+describe('FFmpeg cancellation', () => {
+  let tempDir: string;
+
+  beforeAll(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ffmpeg-abort-test-'));
+    mockStagingDir = tempDir;
+    mockBinDir = path.join(tempDir, 'bin');
+    fs.mkdirSync(mockBinDir);
+    fs.writeFileSync(path.join(mockBinDir, 'ffmpeg'), FAKE_FFMPEG, { mode: 0o755 });
+    fs.writeFileSync(path.join(mockBinDir, 'ffprobe'), FAKE_FFPROBE, { mode: 0o755 });
+    fs.writeFileSync(path.join(tempDir, 'in.mp4'), 'video');
+    fs.writeFileSync(path.join(tempDir, 'subs.ass'), '[Script Info]');
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  const outputFile = (name: string) => path.join(tempDir, name);
+
+  /** Resolve once the fake encoder has started and written its partial output. */
+  async function waitForStart(output: string) {
+    for (let i = 0; i < 200 && !fs.existsSync(`${output}.pid`); i++) {
+      await new Promise(resolve => setTimeout(resolve, 25));
+    }
+    return Number(fs.readFileSync(`${output}.pid`, 'utf8'));
+  }
+
+  const isRunning = (pid: number) => {
+    try {
+      process.kill(pid, 0);
+      return true;
+    } catch {
+      return false;
+    }
+  };
+
+  async function expectCancelled(run: (signal: AbortSignal) => Promise<string>, output: string) {
+    const controller = new AbortController();
+    const promise = run(controller.signal);
+    const pid = await waitForStart(output);
+    expect(fs.existsSync(output)).toBe(true);
+
+    controller.abort(new Error('Cancelled by user'));
+
+    await expect(promise).rejects.toThrow('Cancelled by user');
+    expect(isRunning(pid)).toBe(false);
+    expect(fs.existsSync(output)).toBe(false);
+  }
+
+  it('kills a burn-in and removes the partial output', async () => {
+    const output = outputFile('burn.mp4');
+    await expectCancelled(
+      signal => burnSubtitles(path.join(tempDir, 'in.mp4'), path.join(tempDir, 'subs.ass'), output, { signal }),
+      output
+    );
+  });
+
+  it('kills a soft-subtitle mux', async () => {
+    const output = outputFile('mux.mkv');
+    await expectCancelled(
+      signal => muxSubtitles(path.join(tempDir, 'in.mp4'), [{ path: path.join(tempDir, 'subs.ass'), language: 'eng' }], output, { container: 'mkv', signal }),
+      output
+    );
+  });
+
+  it('kills a multi-video export', async () => {
+    const output = outputFile('multi.mp4');
+    const project: MultiVideoProjectState = {
+      version: 2,
+      timestamp: 0,
+      clips: [{ id: 'v1', filePath: path.join(tempDir, 'in.mp4'), originalFilename: 'in.mp4', duration: 10, width: 1920, height: 1080, subtitles: [] }],
+      timeline: [{ id: 't1', videoClipId: 'v1', projectStartTime: 0, sourceInPoint: 0, clipDuration: 10 }],
+      projectConfig: DEFAULT_PROJECT_CONFIG,
+      subtitleConfig: DEFAULT_CONFIG,
+    };
+    await expectCancelled(
+      signal => exportMultiVideo(project, path.join(tempDir, 'subs.ass'), output, { signal }),
+      output
+    );
+  });
+
+  it('threads the signal through processJob', async () => {
+    const output = outputFile('job.mp4');
+    const item: QueueItem = {
+      id: 'job-1',
+      status: 'processing',
+      progress: 0,
+      file: { name: 'in.mp4', size: 5 },
+      createdAt: 0,
+      metadata: {
+        videoPath: path.join(tempDir, 'in.mp4'),
+        assPath: path.join(tempDir, 'subs.ass'),
+        outputPath: output,
+      },
+    };
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    await expectCancelled(async signal => {
+      const result = await processJob(item, () => {}, signal);
+      return result.videoPath!;
+    }, output);
+  });
+
+  it('does not spawn FFmpeg when already aborted', async () => {
+    const output = outputFile('never.mp4');
+    const controller = new AbortController();
+    controller.abort(new Error('Cancelled by user'));
+    await expect(burnSubtitles(path.join(tempDir, 'in.mp4'), path.join(tempDir, 'subs.ass'), output, { signal: controller.signal }))
+      .rejects.toThrow('Cancelled by user');
+    expect(fs.existsSync(`${output}.pid`)).toBe(false);
+  });
+
+  it('keeps the output of a run that finishes normally', async () => {
+    fs.writeFileSync(path.join(mockBinDir, 'quick'), '');
+    const output = outputFile('done.mp4');
+    const controller = new AbortController();
+    await expect(burnSubtitles(path.join(tempDir, 'in.mp4'), path.join(tempDir, 'subs.ass'), output, { signal: controller.signal }))
+      .resolves.toBe(output);
+    expect(fs.existsSync(output)).toBe(true);
+    fs.rmSync(path.join(mockBinDir, 'quick'));
+  });
+});
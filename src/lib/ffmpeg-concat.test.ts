@@ -212,5 +212,27 @@ describe('ffmpeg-concat', () => {
         const codecIndex = args.findIndex((a: string) => a === '-c:v');
         expect(args[codecIndex + 1]).toBe('libx264');
     });
+
+    it('maps soft subtitle tracks instead of burning when tracks are given', async () => {
+        const mockProc = createMockProcess();
+        (spawn as jest.Mock).mockReturnValue(mockProc);
+
+        const promise = exportMultiVideo(project, '', '/output.mkv', {
+            container: 'mkv',
+            subtitleTracks: [{ path: '/subs/primary.ass', language: 'eng' }],
+        });
+
+        setTimeout(() => mockProc.emit('close', 0), 10);
+
+        await promise;
+
+        const args: string[] = (spawn as jest.Mock).mock.calls.find(c => c[0] === 'ffmpeg')[1];
+        const graph = args[args.indexOf('-filter_complex') + 1];
+        expect(graph).not.toContain('subtitles=');
+        // Subtitle input follows the single clip input
+        expect(args.join(' ')).toContain('-i /subs/primary.ass');
+        expect(args.join(' ')).toContain('-map [vconcat] -map [aconcat] -map 1:0 -c:s copy');
+        expect(args.join(' ')).toContain('-metadata:s:s:0 language=eng');
+    });
   });
 });
@@ -1,6 +1,8 @@
 import { spawn } from 'child_process';
-import { MultiVideoProjectState, ProjectConfig, TimelineClip, TimelineImage } from '@/types/subtitle';
+import { MultiVideoProjectState, ProjectConfig, TimelineClip, TimelineImage, MuxContainer } from '@/types/subtitle';
+import type { MuxSubtitleTrack } from '@/types/queue';
 import { getProjectDuration } from './timeline-utils';
+import { appendSubtitleTrackArgs, appendFontAttachmentArgs, getSubtitlesFilter, killOnAbort, removePartialOutput, reportProgress, ProgressDetails } from './ffmpeg-utils';
 
 export interface BurnOptions {
   hwaccel?: 'nvenc' | 'amf' | 'qsv' | 'videotoolbox' | 'vaapi' | 'v4l2m2m' | 'rkmpp' | 'omx' | 'none';
@@ -8,20 +10,13 @@ export interface BurnOptions {
   crf?: number;
   resolution?: string; // Not typically used for multi-video export as project config defines this
   codec?: string;
-  onProgress?: (progress: number, details?: { timemark: string }) => void;
-}
-
-/**
- * Helper to escape FFmpeg filter parameters
- */
-function escapeFilterArg(arg: string): string {
-  // FFmpeg filter paths need complex escaping:
-  // 1. Backslashes to forward slashes (works better across platforms in FFmpeg)
-  // 2. Colons escaped as \:
-  // 3. Wrapping in single quotes for special chars like commas
-  // 4. Nested single quotes escaped as '\\'' or similar 
-  const processed = arg.replace(/\\/g, '/').replace(/:/g, '\\:').replace(/'/g, "'\\\\\\''");
-  return `'${processed}'`;
+  onProgress?: (progress: number, details?: ProgressDetails) => void;
+  signal?: AbortSignal; // Kills FFmpeg and deletes the partial output
+  // When set, subtitles are embedded as soft streams instead of burned in
+  subtitleTracks?: MuxSubtitleTrack[];
+  container?: MuxContainer;
+  fontsDir?: string; // Font library for libass when burning in
+  fontAttachments?: string[]; // Fonts to attach to a Matroska output
 }
 
 /**
@@ -195,8 +190,14 @@ export async function exportMultiVideo(
             preset = 'veryfast', 
             crf = 23, 
             codec,
-            onProgress 
+            onProgress,
+            subtitleTracks,
+            container = 'mp4',
+            signal,
+            fontsDir,
+            fontAttachments = []
         } = options;
+        const softSubtitles = !!subtitleTracks && subtitleTracks.length > 0;
 
         // Prepare Inputs
         const inputArgs: string[] = [];
@@ -237,19 +238,35 @@ export async function exportMultiVideo(
         // Generate Filter Complex
         const { filterGraph } = generateFilterComplex(inputs, timelineItems, project.projectConfig);
         
-        // Append subtitle burn to the video stream of the concat result
-        // We take [vconcat], burn subtitles, output to [vfinal]
-        const escapedAssPath = escapeFilterArg(assPath);
-        // Note: subtitles filter works on the video stream.
-        // We append it to the filter graph.
-        const finalFilterGraph = `${filterGraph};[vconcat]subtitles=${escapedAssPath}[vfinal]`;
+        let args: string[];
+        if (softSubtitles) {
+            // Soft subtitles: the concat still has to be encoded, but the
+            // subtitle files are added as extra inputs and mapped as streams
+            args = [...inputArgs];
+            subtitleTracks.forEach(track => args.push('-i', track.path));
+            args.push(
+                '-filter_complex', filterGraph,
+                '-map', '[vconcat]',
+                '-map', '[aconcat]',
+            );
+            appendSubtitleTrackArgs(args, subtitleTracks, inputs.length, container);
+            if (container === 'mkv') {
+                appendFontAttachmentArgs(args, fontAttachments);
+            }
+        } else {
+            // Append subtitle burn to the video stream of the concat result
+            // We take [vconcat], burn subtitles, output to [vfinal]
+            // Note: subtitles filter works on the video stream.
+            // We append it to the filter graph.
+            const finalFilterGraph = `${filterGraph};[vconcat]${getSubtitlesFilter(assPath, fontsDir)}[vfinal]`;
 
-        const args = [
-            ...inputArgs,
-            '-filter_complex', finalFilterGraph,
-            '-map', '[vfinal]', // Video from subtitles filter
-            '-map', '[aconcat]', // Audio from concat
-        ];
+            args = [
+                ...inputArgs,
+                '-filter_complex', finalFilterGraph,
+                '-map', '[vfinal]', // Video from subtitles filter
+                '-map', '[aconcat]', // Audio from concat
+            ];
+        }
         
         // Encoder options
         const encoderMap: Record<string, string> = {
@@ -280,7 +297,12 @@ export async function exportMultiVideo(
 
 
 
+        if (signal?.aborted) {
+            return reject(signal.reason);
+        }
+
         const proc = spawn('ffmpeg', args);
+        const detachAbort = killOnAbort(proc, signal);
         let stderr = '';
         const totalDuration = getProjectDuration(project.timeline, project.timelineImages || []);
 
@@ -288,22 +310,14 @@ export async function exportMultiVideo(
             const line = data.toString();
             stderr += line;
 
-            if (onProgress && totalDuration > 0) {
-                const match = line.match(/time=(\d{2}):(\d{2}):(\d{2})\.(\d{2})/);
-                if (match) {
-                    const hours = parseInt(match[1]);
-                    const minutes = parseInt(match[2]);
-                    const seconds = parseInt(match[3]);
-                    const centiseconds = parseInt(match[4]);
-                    const current = hours * 3600 + minutes * 60 + seconds + centiseconds / 100;
-                    
-                    const percent = Math.min((current / totalDuration) * 100, 100);
-                    onProgress(percent, { timemark: line });
-                }
-            }
+            reportProgress(line, totalDuration, onProgress);
         });
 
         proc.on('close', (code) => {
+            detachAbort();
+            if (signal?.aborted) {
+                return removePartialOutput(outputPath).then(() => reject(signal.reason));
+            }
             if (code !== 0) {
                 console.error(`[FFmpeg-Concat] Error:`, stderr);
                 return reject(new Error(`FFmpeg concat failed with code ${code}`));
@@ -312,6 +326,7 @@ export async function exportMultiVideo(
         });
 
         proc.on('error', (err) => {
+           detachAbort();
            reject(new Error(`FFmpeg spawn error: ${err.message}`));
         });
     });
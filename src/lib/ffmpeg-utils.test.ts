@@ -18,7 +18,7 @@ jest.mock('fs', () => ({
 }));
 
 import { spawn } from 'child_process';
-import { ffprobe, getAudioCodec, getVideoDimensions, extractAudio, burnSubtitles, parseFrameRate } from './ffmpeg-utils';
+import { ffprobe, getAudioCodec, getVideoDimensions, extractAudio, extractAudioSegment, detectSilences, parseSilenceDetectOutput, detectSceneChanges, parseShowInfoTimes, burnSubtitles, muxSubtitles, getSubtitlesFilter, parseFrameRate, parseProgressLine } from './ffmpeg-utils';
 import * as fc from 'fast-check';
 
 // Helper to create mock process with EventEmitter
@@ -246,6 +246,110 @@ describe('ffmpeg-utils', () => {
     });
   });
 
+  // ============================================================================
+  // extractAudioSegment / detectSilences tests
+  // ============================================================================
+  describe('extractAudioSegment', () => {
+    it('should seek and re-encode a mono window', async () => {
+      const mockProc = createMockProcess();
+      (spawn as jest.Mock).mockReturnValue(mockProc);
+
+      const promise = extractAudioSegment('/input/video.mp4', '/output/chunk.m4a', 585, 615.5);
+      mockProc.emit('close', 0);
+
+      await expect(promise).resolves.toBe('/output/chunk.m4a');
+      expect(spawn).toHaveBeenCalledWith('ffmpeg', [
+        '-ss', '585.000',
+        '-i', '/input/video.mp4',
+        '-t', '615.500',
+        '-vn',
+        '-ac', '1',
+        '-c:a', 'aac',
+        '-b:a', '64k',
+        '-y',
+        '/output/chunk.m4a',
+      ]);
+    });
+
+    it('should reject on ffmpeg failure', async () => {
+      const mockProc = createMockProcess();
+      (spawn as jest.Mock).mockReturnValue(mockProc);
+
+      const promise = extractAudioSegment('/input/video.mp4', '/output/chunk.m4a', 0, 10);
+      mockProc.emit('close', 1);
+
+      await expect(promise).rejects.toThrow('ffmpeg extractAudioSegment failed');
+    });
+  });
+
+  describe('detectSilences', () => {
+    const output = [
+      '[silencedetect @ 0x1] silence_start: 12.5',
+      '[silencedetect @ 0x1] silence_end: 14.25 | silence_duration: 1.75',
+      '[silencedetect @ 0x1] silence_start: -0.01',
+      '[silencedetect @ 0x1] silence_end: 0.8 | silence_duration: 0.81',
+      '[silencedetect @ 0x1] silence_start: 98',
+    ].join('\n');
+
+    it('should parse intervals and close a trailing silence at the duration', () => {
+      expect(parseSilenceDetectOutput(output, 100)).toEqual([
+        { start: 12.5, end: 14.25 },
+        { start: 0, end: 0.8 },
+        { start: 98, end: 100 },
+      ]);
+      expect(parseSilenceDetectOutput(output)).toHaveLength(2);
+    });
+
+    it('should run the silencedetect filter', async () => {
+      const mockProc = createMockProcess();
+      (spawn as jest.Mock).mockReturnValue(mockProc);
+
+      const promise = detectSilences('/input/video.mp4', { noiseDb: -40, minDuration: 1 });
+      mockProc.stderr.emit('data', output);
+      mockProc.emit('close', 0);
+
+      await expect(promise).resolves.toHaveLength(2);
+      expect(spawn).toHaveBeenCalledWith('ffmpeg', [
+        '-i', '/input/video.mp4',
+        '-vn',
+        '-af', 'silencedetect=noise=-40dB:d=1',
+        '-f', 'null',
+        '-',
+      ]);
+    });
+  });
+
+  describe('detectSceneChanges', () => {
+    const output = [
+      '[Parsed_showinfo_1 @ 0x1] n:   0 pts:  12012 pts_time:4.004   duration:1001 fmt:yuv420p',
+      '[Parsed_showinfo_1 @ 0x1] color_range:tv color_space:bt709',
+      '[Parsed_showinfo_1 @ 0x1] n:   1 pts:  30030 pts_time:10.01   duration:1001 fmt:yuv420p',
+      'frame=  2 fps=0.0 q=-0.0 Lsize=N/A time=00:00:10.01',
+    ].join('\n');
+
+    it('should parse frame times from showinfo', () => {
+      expect(parseShowInfoTimes(output)).toEqual([4.004, 10.01]);
+    });
+
+    it('should select frames above the scene threshold', async () => {
+      const mockProc = createMockProcess();
+      (spawn as jest.Mock).mockReturnValue(mockProc);
+
+      const promise = detectSceneChanges('/input/video.mp4', { threshold: 0.3 });
+      mockProc.stderr.emit('data', output);
+      mockProc.emit('close', 0);
+
+      await expect(promise).resolves.toEqual([4.004, 10.01]);
+      expect(spawn).toHaveBeenCalledWith('ffmpeg', [
+        '-i', '/input/video.mp4',
+        '-an',
+        '-vf', "select='gt(scene,0.3)',showinfo",
+        '-f', 'null',
+        '-',
+      ]);
+    });
+  });
+
   // ============================================================================
   // burnSubtitles tests
   // ============================================================================
@@ -439,14 +543,14 @@ describe('ffmpeg-utils', () => {
 
       // Simulate progress updates
       mockFfmpegProc.stderr.emit('data', 'frame=100 time=00:00:50.00 bitrate=1000kbps');
-      mockFfmpegProc.stderr.emit('data', 'frame=200 time=00:01:00.00 bitrate=1000kbps');
+      mockFfmpegProc.stderr.emit('data', 'frame=200 fps=48 time=00:01:00.00 bitrate=1000kbps speed=2.5x');
 
       mockFfmpegProc.emit('close', 0);
 
       await promise;
 
       expect(onProgress).toHaveBeenCalledWith(50, expect.anything());
-      expect(onProgress).toHaveBeenCalledWith(60, expect.anything());
+      expect(onProgress).toHaveBeenCalledWith(60, expect.objectContaining({ speed: 2.5, fps: 48, duration: 100 }));
     });
 
     it('should reject on ffmpeg failure', async () => {
@@ -508,9 +612,99 @@ describe('ffmpeg-utils', () => {
     });
   });
 
+  // ============================================================================
+  // muxSubtitles tests
+  // ============================================================================
+  describe('getSubtitlesFilter', () => {
+    it('escapes the ASS path and adds the fonts directory when given', () => {
+      expect(getSubtitlesFilter('C:\\subs\\a,b.ass')).toBe("subtitles='C\\:/subs/a,b.ass'");
+      expect(getSubtitlesFilter('/subs/a.ass', '/staging/fonts')).toBe("subtitles='/subs/a.ass':fontsdir='/staging/fonts'");
+    });
+  });
+
+  describe('muxSubtitles', () => {
+    const tracks = [
+      { path: '/subs/primary.srt', language: 'eng', title: 'English' },
+      { path: '/subs/secondary.srt', language: 'chi', title: 'Simplified Chinese' },
+    ];
+
+    async function runMux(options?: Parameters<typeof muxSubtitles>[3]) {
+      const mockFfprobeProc = createMockProcess();
+      const mockFfmpegProc = createMockProcess();
+      (spawn as jest.Mock)
+        .mockReturnValueOnce(mockFfprobeProc)
+        .mockReturnValueOnce(mockFfmpegProc);
+
+      const promise = muxSubtitles('/input.mp4', tracks, '/output.mp4', options);
+
+      mockFfprobeProc.stdout.emit('data', JSON.stringify({
+        format: { duration: '100' },
+        streams: [{ codec_type: 'video', width: 1920, height: 1080 }],
+      }));
+      mockFfprobeProc.emit('close', 0);
+
+      await new Promise(r => setTimeout(r, 10));
+      mockFfmpegProc.emit('close', 0);
+      await promise;
+
+      return (spawn as jest.Mock).mock.calls.find(call => call[0] === 'ffmpeg')[1] as string[];
+    }
+
+    it('stream-copies video and audio and embeds mov_text tracks with language tags', async () => {
+      const args = await runMux({ sampleDuration: 5 });
+
+      expect(args.slice(0, 6)).toEqual(['-i', '/input.mp4', '-i', '/subs/primary.srt', '-i', '/subs/secondary.srt']);
+      expect(args.join(' ')).toContain('-map 0:v? -map 0:a? -c:v copy -c:a copy -map 1:0 -map 2:0 -c:s mov_text');
+      expect(args.join(' ')).toContain('-metadata:s:s:0 language=eng -metadata:s:s:0 title=English -disposition:s:0 default');
+      expect(args.join(' ')).toContain('-metadata:s:s:1 language=chi');
+      expect(args.join(' ')).toContain('-disposition:s:1 0');
+      expect(args).toContain('-t');
+      expect(args).not.toContain('-vf');
+      expect(args).not.toContain('libx264');
+    });
+
+    it('copies subtitle codecs into Matroska', async () => {
+      const args = await runMux({ container: 'mkv' });
+      expect(args[args.indexOf('-c:s') + 1]).toBe('copy');
+      expect(args).not.toContain('-movflags');
+    });
+
+    it('attaches fonts to Matroska only', async () => {
+      const fontAttachments = ['/fonts/Brand.ttf', '/fonts/Title.otf'];
+      const mkvArgs = await runMux({ container: 'mkv', fontAttachments });
+      expect(mkvArgs.join(' ')).toContain(
+        '-attach /fonts/Brand.ttf -metadata:s:t:0 mimetype=application/x-truetype-font ' +
+        '-attach /fonts/Title.otf -metadata:s:t:1 mimetype=application/vnd.ms-opentype'
+      );
+
+      (spawn as jest.Mock).mockReset();
+      expect(await runMux({ fontAttachments })).not.toContain('-attach');
+    });
+
+    it('rejects when there are no tracks', async () => {
+      await expect(muxSubtitles('/input.mp4', [], '/output.mp4')).rejects.toThrow('No subtitle tracks');
+    });
+  });
+
   // ============================================================================
   // parseFrameRate tests - Unit, Property, and Fuzz
   // ============================================================================
+  describe('parseProgressLine', () => {
+    it('reads time, speed and fps from a progress line', () => {
+      expect(parseProgressLine('frame=  240 fps= 48 q=28.0 size=1024kB time=00:01:10.50 bitrate=838.9kbits/s speed=2.01x'))
+        .toEqual({ time: 70.5, speed: 2.01, fps: 48 });
+    });
+
+    it('leaves out speed and fps before FFmpeg has measured them', () => {
+      expect(parseProgressLine('frame=    0 fps=0.0 q=0.0 size=0kB time=00:00:00.00 bitrate=N/A speed=N/A'))
+        .toEqual({ time: 0 });
+    });
+
+    it('ignores lines without a time', () => {
+      expect(parseProgressLine('Input #0, mov,mp4,m4a,3gp,3g2,mj2, from in.mp4:')).toBeNull();
+    });
+  });
+
   describe('parseFrameRate', () => {
     // Unit tests
     describe('unit tests', () => {
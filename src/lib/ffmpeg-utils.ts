@@ -5,7 +5,19 @@
  * for better control, no deprecated dependencies, and consistent behavior.
  */
 
-import { spawn } from 'child_process';
+import { spawn, ChildProcess } from 'child_process';
+import fs from 'fs';
+import type { MuxContainer } from '@/types/subtitle';
+import type { MuxSubtitleTrack } from '@/types/queue';
+import { getFontMimeType } from './font-library';
+
+/** What FFmpeg reports alongside each progress update. */
+export interface ProgressDetails {
+  timemark: string;
+  speed?: number; // Multiple of realtime (`speed=2.5x`)
+  fps?: number;
+  duration?: number; // Seconds of media being processed
+}
 
 export interface BurnOptions {
   hwaccel?: 'nvenc' | 'amf' | 'qsv' | 'videotoolbox' | 'vaapi' | 'v4l2m2m' | 'rkmpp' | 'omx' | 'none';
@@ -14,9 +26,25 @@ export interface BurnOptions {
   resolution?: string; // 'original' or 'WIDTHxHEIGHT'
   codec?: string;
   sampleDuration?: number;
-  onProgress?: (progress: number, details?: { timemark: string }) => void;
+  onProgress?: (progress: number, details?: ProgressDetails) => void;
+  /** Kills FFmpeg and deletes the partial output; the promise rejects with the abort reason. */
+  signal?: AbortSignal;
+  /** Extra fonts for libass (the font library), searched before installed fonts. */
+  fontsDir?: string;
+}
+
+export interface MuxOptions {
+  container?: MuxContainer;
+  sampleDuration?: number;
+  onProgress?: BurnOptions['onProgress'];
+  signal?: AbortSignal;
+  /** Font files to attach for the ASS tracks (Matroska only). */
+  fontAttachments?: string[];
 }
 
+/** How long FFmpeg gets to exit after SIGTERM before it is killed outright. */
+export const FFMPEG_KILL_GRACE_MS = 5000;
+
 /** Subset of an FFprobe stream object that we read. */
 interface FFprobeStream {
   codec_type?: string;
@@ -175,9 +203,9 @@ export async function extractAudio(
       stderr += line;
 
       if (onProgress && totalDuration > 0) {
-        const currentTime = parseProgressTime(line);
-        if (currentTime !== null) {
-          const percent = Math.min((currentTime / totalDuration) * 100, 100);
+        const parsed = parseProgressLine(line);
+        if (parsed) {
+          const percent = Math.min((parsed.time / totalDuration) * 100, 100);
           onProgress(percent);
         }
       }
@@ -195,19 +223,248 @@ export async function extractAudio(
 }
 
 /**
- * Parse ffmpeg progress line to get current time in seconds
+ * Extract a mono, re-encoded audio window [start, start + duration).
+ * Re-encoding (rather than stream copy) keeps cut points sample-accurate so
+ * chunk timestamps can be offset reliably.
+ */
+export async function extractAudioSegment(
+  inputPath: string,
+  outputPath: string,
+  start: number,
+  duration: number
+): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const args = [
+      '-ss', start.toFixed(3),
+      '-i', inputPath,
+      '-t', duration.toFixed(3),
+      '-vn',
+      '-ac', '1',
+      '-c:a', 'aac',
+      '-b:a', '64k',
+      '-y',
+      outputPath
+    ];
+
+    const proc = spawn('ffmpeg', args);
+    let stderr = '';
+
+    proc.stderr.on('data', (data) => { stderr += data.toString(); });
+
+    proc.on('close', (code) => {
+      if (code !== 0) {
+        return reject(new Error(`ffmpeg extractAudioSegment failed: ${stderr}`));
+      }
+      resolve(outputPath);
+    });
+
+    proc.on('error', reject);
+  });
+}
+
+export interface SilenceInterval {
+  start: number;
+  end: number;
+}
+
+/**
+ * Parse `silencedetect` filter output into silence intervals.
+ * A trailing silence with no end (runs to EOF) is closed at `duration`.
+ */
+export function parseSilenceDetectOutput(output: string, duration = Infinity): SilenceInterval[] {
+  const intervals: SilenceInterval[] = [];
+  let pendingStart: number | null = null;
+
+  for (const match of output.matchAll(/silence_(start|end):\s*(-?[\d.]+)/g)) {
+    const value = Math.max(0, parseFloat(match[2]));
+    if (isNaN(value)) continue;
+    if (match[1] === 'start') {
+      pendingStart = value;
+    } else if (pendingStart !== null) {
+      intervals.push({ start: pendingStart, end: value });
+      pendingStart = null;
+    }
+  }
+  if (pendingStart !== null && isFinite(duration)) {
+    intervals.push({ start: pendingStart, end: duration });
+  }
+  return intervals;
+}
+
+/**
+ * Find silent stretches in a media file using ffmpeg's silencedetect filter
+ */
+export async function detectSilences(
+  inputPath: string,
+  options: { noiseDb?: number; minDuration?: number; duration?: number } = {}
+): Promise<SilenceInterval[]> {
+  const { noiseDb = -35, minDuration = 0.5, duration } = options;
+
+  return new Promise((resolve, reject) => {
+    const args = [
+      '-i', inputPath,
+      '-vn',
+      '-af', `silencedetect=noise=${noiseDb}dB:d=${minDuration}`,
+      '-f', 'null',
+      '-'
+    ];
+
+    const proc = spawn('ffmpeg', args);
+    let stderr = '';
+
+    proc.stderr.on('data', (data) => { stderr += data.toString(); });
+
+    proc.on('close', (code) => {
+      if (code !== 0) {
+        return reject(new Error(`ffmpeg silencedetect failed: ${stderr}`));
+      }
+      resolve(parseSilenceDetectOutput(stderr, duration));
+    });
+
+    proc.on('error', reject);
+  });
+}
+
+/**
+ * Parse the `pts_time` of every frame logged by the showinfo filter.
+ */
+export function parseShowInfoTimes(output: string): number[] {
+  const times: number[] = [];
+  for (const match of output.matchAll(/\[Parsed_showinfo[^\]]*\].*?pts_time:\s*(-?[\d.]+)/g)) {
+    const value = parseFloat(match[1]);
+    if (!isNaN(value)) times.push(Math.max(0, value));
+  }
+  return times;
+}
+
+/**
+ * Find shot changes in a video using ffmpeg's scene score (0-1; higher
+ * means a bigger change between consecutive frames).
+ */
+export async function detectSceneChanges(
+  inputPath: string,
+  options: { threshold?: number } = {}
+): Promise<number[]> {
+  const { threshold = 0.4 } = options;
+
+  return new Promise((resolve, reject) => {
+    const args = [
+      '-i', inputPath,
+      '-an',
+      '-vf', `select='gt(scene,${threshold})',showinfo`,
+      '-f', 'null',
+      '-'
+    ];
+
+    const proc = spawn('ffmpeg', args);
+    let stderr = '';
+
+    proc.stderr.on('data', (data) => { stderr += data.toString(); });
+
+    proc.on('close', (code) => {
+      if (code !== 0) {
+        return reject(new Error(`ffmpeg scene detection failed: ${stderr}`));
+      }
+      resolve(parseShowInfoTimes(stderr));
+    });
+
+    proc.on('error', reject);
+  });
+}
+
+/**
+ * Parse an ffmpeg progress line: current time in seconds plus the encode
+ * speed and frame rate when reported.
+ * Example: "frame=  240 fps= 48 q=28.0 size=1024kB time=00:00:10.00 bitrate=838.9kbits/s speed=2.01x"
  */
-function parseProgressTime(line: string): number | null {
-  // Example: "time=00:01:23.45"
+export function parseProgressLine(line: string): { time: number; speed?: number; fps?: number } | null {
   const match = line.match(/time=(\d{2}):(\d{2}):(\d{2})\.(\d{2})/);
-  if (match) {
-    const hours = parseInt(match[1]);
-    const minutes = parseInt(match[2]);
-    const seconds = parseInt(match[3]);
-    const centiseconds = parseInt(match[4]);
-    return hours * 3600 + minutes * 60 + seconds + centiseconds / 100;
+  if (!match) return null;
+
+  const hours = parseInt(match[1]);
+  const minutes = parseInt(match[2]);
+  const seconds = parseInt(match[3]);
+  const centiseconds = parseInt(match[4]);
+  const speed = parseFloat(line.match(/speed=\s*([\d.]+)x/)?.[1] ?? '');
+  const fps = parseFloat(line.match(/fps=\s*([\d.]+)/)?.[1] ?? '');
+  return {
+    time: hours * 3600 + minutes * 60 + seconds + centiseconds / 100,
+    // FFmpeg prints "speed=N/A" and "fps=0.0" until it has a measurement
+    ...(speed > 0 && { speed }),
+    ...(fps > 0 && { fps }),
+  };
+}
+
+/** Report progress of a run over `totalDuration` seconds from an FFmpeg stderr chunk. */
+export function reportProgress(line: string, totalDuration: number, onProgress?: BurnOptions['onProgress']): void {
+  if (!onProgress || totalDuration <= 0) return;
+  const parsed = parseProgressLine(line);
+  if (parsed) {
+    const percent = Math.min((parsed.time / totalDuration) * 100, 100);
+    onProgress(percent, { timemark: line, speed: parsed.speed, fps: parsed.fps, duration: totalDuration });
+  }
+}
+
+/**
+ * Terminate `proc` when `signal` aborts: SIGTERM first (FFmpeg stops
+ * encoding), SIGKILL if it is still running after `FFMPEG_KILL_GRACE_MS`.
+ * Returns a function that detaches from the signal once the process exits.
+ */
+export function killOnAbort(proc: ChildProcess, signal?: AbortSignal): () => void {
+  if (!signal) return () => {};
+  let forceKill: NodeJS.Timeout | undefined;
+
+  const onAbort = () => {
+    proc.kill('SIGTERM');
+    forceKill = setTimeout(() => proc.kill('SIGKILL'), FFMPEG_KILL_GRACE_MS);
+    forceKill.unref();
+  };
+  if (signal.aborted) onAbort();
+  else signal.addEventListener('abort', onAbort, { once: true });
+
+  return () => {
+    signal.removeEventListener('abort', onAbort);
+    clearTimeout(forceKill);
+  };
+}
+
+/** Delete what an aborted FFmpeg run left behind. */
+export async function removePartialOutput(outputPath: string): Promise<void> {
+  try {
+    await fs.promises.rm(outputPath, { force: true });
+  } catch (e) {
+    console.warn(`[FFmpeg] Could not remove partial output ${outputPath}:`, e);
   }
-  return null;
+}
+
+/**
+ * Escape a path for use as an FFmpeg filter argument:
+ * 1. Backslashes become forward slashes (works better across platforms)
+ * 2. Colons must be escaped as \:
+ * 3. The whole thing is wrapped in single quotes for special chars like commas
+ */
+export function escapeFilterPath(filePath: string): string {
+  const processed = filePath.replace(/\\/g, '/').replace(/:/g, '\\:').replace(/'/g, "'\\\\\\''");
+  return `'${processed}'`;
+}
+
+/**
+ * The `subtitles` filter for an ASS file, with libass pointed at the font
+ * library when there is one.
+ */
+export function getSubtitlesFilter(assPath: string, fontsDir?: string): string {
+  const filter = `subtitles=${escapeFilterPath(assPath)}`;
+  return fontsDir ? `${filter}:fontsdir=${escapeFilterPath(fontsDir)}` : filter;
+}
+
+/**
+ * Attach fonts to a Matroska output so players can render its ASS tracks
+ * with them. Attachments are output streams of their own (`t`).
+ */
+export function appendFontAttachmentArgs(args: string[], fonts: string[]): void {
+  fonts.forEach((font, i) => {
+    args.push('-attach', font, `-metadata:s:t:${i}`, `mimetype=${getFontMimeType(font)}`);
+  });
 }
 
 /**
@@ -226,7 +483,8 @@ export function burnSubtitles(
       crf = 23, 
       resolution = 'original',
       sampleDuration,
-      onProgress 
+      onProgress,
+      signal
     } = options;
 
     // Get video duration for progress calculation
@@ -237,6 +495,9 @@ export function burnSubtitles(
     } catch (e) {
       console.warn('[FFmpeg] Could not get video duration for progress:', e);
     }
+    if (sampleDuration && sampleDuration > 0 && totalDuration > 0) {
+      totalDuration = Math.min(totalDuration, sampleDuration); // Samples stop early
+    }
 
     // Build FFmpeg arguments
     const args: string[] = ['-i', videoPath];
@@ -265,15 +526,7 @@ export function burnSubtitles(
       videoFilters.push(`pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2`);
     }
 
-    // Add subtitle filter (escape path for filter syntax)
-    // FFmpeg filter paths need complex escaping: 
-    // 1. Backslashes become forward slashes (works better across platforms)
-    // 2. Colons must be escaped as \:
-    // 3. The whole thing should be wrapped in single quotes if it contains special chars like commas
-    const processedPath = assPath.replace(/\\/g, '/').replace(/:/g, '\\:').replace(/'/g, "'\\\\\\''");
-    const escapedAssPath = `'${processedPath}'`;
-    
-    videoFilters.push(`subtitles=${escapedAssPath}`);
+    videoFilters.push(getSubtitlesFilter(assPath, options.fontsDir));
 
     args.push('-vf', videoFilters.join(','));
 
@@ -310,26 +563,144 @@ export function burnSubtitles(
     // Overwrite output
     args.push('-y', outputPath);
 
+    // The probe above may have taken a while
+    if (signal?.aborted) {
+      return reject(signal.reason);
+    }
+
     console.log(`[${new Date().toISOString()}] Spawning FFmpeg: ffmpeg ${args.join(' ')}`);
 
     const proc = spawn('ffmpeg', args);
+    const detachAbort = killOnAbort(proc, signal);
     let stderr = '';
 
     proc.stderr.on('data', (data) => {
       const line = data.toString();
       stderr += line;
 
-      // Parse progress
-      if (onProgress && totalDuration > 0) {
-        const currentTime = parseProgressTime(line);
-        if (currentTime !== null) {
-          const percent = Math.min((currentTime / totalDuration) * 100, 100);
-          onProgress(percent, { timemark: line });
-        }
+      reportProgress(line, totalDuration, onProgress);
+    });
+
+    proc.on('close', (code) => {
+      detachAbort();
+      if (signal?.aborted) {
+        console.log(`[${new Date().toISOString()}] FFmpeg cancelled.`);
+        return removePartialOutput(outputPath).then(() => reject(signal.reason));
       }
+      if (code !== 0) {
+        console.error(`[${new Date().toISOString()}] FFmpeg error:`, stderr);
+        return reject(new Error(`FFmpeg failed with code ${code}`));
+      }
+      console.log(`[${new Date().toISOString()}] FFmpeg finished successfully.`);
+      resolve(outputPath);
+    });
+
+    proc.on('error', (err) => {
+      detachAbort();
+      reject(new Error(`FFmpeg spawn error: ${err.message}`));
+    });
+  });
+}
+
+/**
+ * Append input-independent soft subtitle arguments: one -map per track plus
+ * codec, language/title metadata and default disposition on the first track.
+ * Tracks must already be added as inputs starting at firstInputIndex.
+ * MP4 only carries mov_text; Matroska keeps the sidecar's own codec (ASS/SRT).
+ */
+export function appendSubtitleTrackArgs(
+  args: string[],
+  tracks: MuxSubtitleTrack[],
+  firstInputIndex: number,
+  container: MuxContainer = 'mp4'
+): void {
+  tracks.forEach((_, i) => {
+    args.push('-map', `${firstInputIndex + i}:0`);
+  });
+
+  args.push('-c:s', container === 'mkv' ? 'copy' : 'mov_text');
+
+  tracks.forEach((track, i) => {
+    args.push(`-metadata:s:s:${i}`, `language=${track.language}`);
+    if (track.title) {
+      args.push(`-metadata:s:s:${i}`, `title=${track.title}`);
+    }
+    args.push(`-disposition:s:${i}`, i === 0 ? 'default' : '0');
+  });
+}
+
+/**
+ * Embed subtitle tracks as soft streams without re-encoding video or audio
+ */
+export function muxSubtitles(
+  videoPath: string,
+  tracks: MuxSubtitleTrack[],
+  outputPath: string,
+  options: MuxOptions = {}
+): Promise<string> {
+  return new Promise(async (resolve, reject) => {
+    const { container = 'mp4', sampleDuration, onProgress, signal, fontAttachments = [] } = options;
+
+    if (tracks.length === 0) {
+      return reject(new Error('No subtitle tracks to mux'));
+    }
+
+    let totalDuration = 0;
+    try {
+      const metadata = await ffprobe(videoPath);
+      totalDuration = metadata.duration;
+    } catch (e) {
+      console.warn('[FFmpeg] Could not get video duration for progress:', e);
+    }
+    if (sampleDuration && sampleDuration > 0 && totalDuration > 0) {
+      totalDuration = Math.min(totalDuration, sampleDuration); // Samples stop early
+    }
+
+    const args: string[] = ['-i', videoPath];
+    tracks.forEach(track => args.push('-i', track.path));
+
+    // Optional maps so audio-less (or video-less) sources still mux
+    args.push('-map', '0:v?', '-map', '0:a?');
+    args.push('-c:v', 'copy', '-c:a', 'copy');
+    appendSubtitleTrackArgs(args, tracks, 1, container);
+    if (container === 'mkv') {
+      appendFontAttachmentArgs(args, fontAttachments);
+    }
+
+    if (sampleDuration && sampleDuration > 0) {
+      args.push('-t', sampleDuration.toString());
+    }
+
+    if (container === 'mp4') {
+      args.push('-movflags', '+faststart');
+    }
+
+    args.push('-y', outputPath);
+
+    // The probe above may have taken a while
+    if (signal?.aborted) {
+      return reject(signal.reason);
+    }
+
+    console.log(`[${new Date().toISOString()}] Spawning FFmpeg: ffmpeg ${args.join(' ')}`);
+
+    const proc = spawn('ffmpeg', args);
+    const detachAbort = killOnAbort(proc, signal);
+    let stderr = '';
+
+    proc.stderr.on('data', (data) => {
+      const line = data.toString();
+      stderr += line;
+
+      reportProgress(line, totalDuration, onProgress);
     });
 
     proc.on('close', (code) => {
+      detachAbort();
+      if (signal?.aborted) {
+        console.log(`[${new Date().toISOString()}] FFmpeg cancelled.`);
+        return removePartialOutput(outputPath).then(() => reject(signal.reason));
+      }
       if (code !== 0) {
         console.error(`[${new Date().toISOString()}] FFmpeg error:`, stderr);
         return reject(new Error(`FFmpeg failed with code ${code}`));
@@ -339,6 +710,7 @@ export function burnSubtitles(
     });
 
     proc.on('error', (err) => {
+      detachAbort();
       reject(new Error(`FFmpeg spawn error: ${err.message}`));
     });
   });
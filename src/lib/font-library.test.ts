@@ -0,0 +1,99 @@
+/**
+ * @jest-environment node
+ */
+import { EventEmitter } from 'events';
+
+jest.mock('child_process', () => ({
+  spawn: jest.fn(),
+}));
+
+jest.mock('./storage-config', () => ({
+  getStagingDir: jest.fn(() => '/staging'),
+}));
+
+import { spawn } from 'child_process';
+import fs from 'fs';
+import {
+  isFontFile,
+  sanitizeFontFilename,
+  parseCharset,
+  parseFontconfigFaces,
+  findMissingGlyphs,
+  toFontInfos,
+  checkGlyphCoverage,
+  listUploadedFontFiles,
+  findUploadedFontFiles,
+} from './font-library';
+
+const fcOutput = (stdout: string) => {
+  const proc = Object.assign(new EventEmitter(), { stdout: new EventEmitter(), kill: jest.fn() });
+  setTimeout(() => {
+    proc.stdout.emit('data', Buffer.from(stdout));
+    proc.emit('close', 0);
+  }, 0);
+  return proc;
+};
+
+describe('font-library', () => {
+  it('accepts TrueType and OpenType headers with a matching extension', () => {
+    expect(isFontFile('a.ttf', Uint8Array.from([0, 1, 0, 0, 9]))).toBe(true);
+    expect(isFontFile('a.OTF', Buffer.from('OTTO....'))).toBe(true);
+    expect(isFontFile('a.woff', Buffer.from('OTTO....'))).toBe(false);
+    expect(isFontFile('a.ttf', Buffer.from('<html>'))).toBe(false);
+    expect(isFontFile('a.ttf', Buffer.from('OT'))).toBe(false);
+  });
+
+  it('sanitizes uploaded filenames', () => {
+    expect(sanitizeFontFilename('../../My Font (Bold).TTF')).toBe('My_Font__Bold_.ttf');
+  });
+
+  it('parses fontconfig charsets and face listings', () => {
+    expect(parseCharset('20-7e a0 4e00-9fff')).toEqual([[0x20, 0x7e], [0xa0, 0xa0], [0x4e00, 0x9fff]]);
+    expect(parseCharset('')).toEqual([]);
+
+    const faces = parseFontconfigFaces('Noto Sans\t/usr/share/NotoSans.ttf\t20-7e\n\nBroken\n', 'system');
+    expect(faces).toEqual([{ family: 'Noto Sans', source: 'system', file: '/usr/share/NotoSans.ttf', charset: [[0x20, 0x7e]] }]);
+  });
+
+  it('lists characters outside the charset once, ignoring whitespace', () => {
+    expect(findMissingGlyphs([[0x20, 0x7e]], 'Hi 你好\n你')).toEqual(['你', '好']);
+    expect(findMissingGlyphs([[0x20, 0x7e]], 'Hello\tthere')).toEqual([]);
+  });
+
+  it('lists each family once, preferring uploaded fonts', () => {
+    const face = (family: string, source: 'system' | 'uploaded') => ({ family, source, file: '', charset: [] });
+    expect(toFontInfos([face('Zeta', 'system'), face('Brand', 'system'), face('Brand', 'uploaded'), face('Zeta', 'system')])).toEqual([
+      { family: 'Brand', source: 'uploaded' },
+      { family: 'Zeta', source: 'system' },
+    ]);
+  });
+
+  it('finds uploaded fonts in the staging dir', () => {
+    jest.spyOn(fs, 'existsSync').mockReturnValue(true);
+    jest.spyOn(fs, 'readdirSync').mockReturnValue(['b.OTF', 'notes.txt', 'a.ttf'] as unknown as ReturnType<typeof fs.readdirSync>);
+    expect(listUploadedFontFiles()).toEqual(['/staging/fonts/a.ttf', '/staging/fonts/b.OTF']);
+    jest.restoreAllMocks();
+  });
+
+  it('checks coverage across every face of a family', async () => {
+    (spawn as jest.Mock).mockImplementation(() => fcOutput(
+      'Noto Sans\t/fonts/NotoSans.ttf\t20-7e\nNoto Sans\t/fonts/NotoSansCJK.otf\t4f60\nOther\t/fonts/o.ttf\t20-7e\n'
+    ));
+
+    expect(await checkGlyphCoverage('noto sans', 'Hi 你好')).toEqual({ found: true, missing: ['好'] });
+    expect(await checkGlyphCoverage('Missing', 'Hi')).toEqual({ found: false, missing: [] });
+  });
+
+  it('finds the uploaded files of the requested families', async () => {
+    jest.spyOn(fs, 'existsSync').mockReturnValue(true);
+    jest.spyOn(fs, 'readdirSync').mockReturnValue(['brand.ttf', 'brand-bold.ttf', 'other.otf'] as unknown as ReturnType<typeof fs.readdirSync>);
+    (spawn as jest.Mock).mockImplementation((cmd: string) => fcOutput(cmd === 'fc-scan'
+      ? 'Brand Sans\t/staging/fonts/brand.ttf\t20-7e\nBrand Sans\t/staging/fonts/brand-bold.ttf\t20-7e\nOther\t/staging/fonts/other.otf\t20-7e\n'
+      : 'Brand Sans\t/usr/share/brand.ttf\t20-7e\n'
+    ));
+
+    expect(await findUploadedFontFiles(['brand sans', 'Noto Sans'])).toEqual(['/staging/fonts/brand-bold.ttf', '/staging/fonts/brand.ttf']);
+    expect(await findUploadedFontFiles([])).toEqual([]);
+    jest.restoreAllMocks();
+  });
+});
@@ -0,0 +1,214 @@
+/**
+ * Font Library
+ *
+ * Uploaded TTF/OTF fonts live in `<staging>/fonts`. Burn-ins point libass at
+ * that directory (the subtitles filter's `fontsdir`) and Matroska exports
+ * attach the files their tracks use. Fontconfig lists them alongside the
+ * fonts installed on the server, with each face's charset for glyph
+ * coverage checks.
+ *
+ * Installed fonts are cached in memory; uploaded fonts are rescanned on
+ * every listing.
+ */
+
+import { spawn } from 'child_process';
+import fs from 'fs';
+import path from 'path';
+import { getStagingDir } from './storage-config';
+
+export type FontSource = 'uploaded' | 'system';
+
+/** A family as shown in the font picker. */
+export interface FontInfo {
+  family: string;
+  source: FontSource;
+}
+
+/** Inclusive code point range, as fontconfig reports charsets. */
+export type CharsetRange = [number, number];
+
+/** One font file as fontconfig sees it (server-side only). */
+export interface FontFace extends FontInfo {
+  file: string;
+  charset: CharsetRange[];
+}
+
+export interface GlyphCoverage {
+  /** False when no face of the family is known; nothing can be checked. */
+  found: boolean;
+  /** Distinct characters of the text that no face of the family has. */
+  missing: string[];
+}
+
+export const FONT_EXTENSIONS = ['.ttf', '.otf'];
+export const MAX_FONT_SIZE_BYTES = 50 * 1024 * 1024;
+
+// Attachment MIME types Matroska players look for
+const FONT_MIME_TYPES: Record<string, string> = {
+  '.ttf': 'application/x-truetype-font',
+  '.otf': 'application/vnd.ms-opentype',
+};
+
+const FONTCONFIG_TIMEOUT_MS = 15000;
+const FACE_FORMAT = '%{family[0]}\\t%{file}\\t%{charset}\\n';
+
+let systemFaces: Promise<FontFace[]> | null = null;
+
+export function getFontsDir(): string {
+  return path.join(getStagingDir(), 'fonts');
+}
+
+/** Absolute paths of the uploaded font files. */
+export function listUploadedFontFiles(): string[] {
+  const dir = getFontsDir();
+  if (!fs.existsSync(dir)) return [];
+  return fs.readdirSync(dir)
+    .filter(name => FONT_EXTENSIONS.includes(path.extname(name).toLowerCase()))
+    .sort()
+    .map(name => path.join(dir, name));
+}
+
+export function getFontMimeType(file: string): string {
+  return FONT_MIME_TYPES[path.extname(file).toLowerCase()] || 'application/octet-stream';
+}
+
+/**
+ * Check the extension and the sfnt header: TrueType outlines start with
+ * 0x00010000 or 'true', CFF outlines with 'OTTO'.
+ */
+export function isFontFile(filename: string, data: Uint8Array): boolean {
+  if (!FONT_EXTENSIONS.includes(path.extname(filename).toLowerCase()) || data.length < 4) return false;
+  const tag = String.fromCharCode(data[0], data[1], data[2], data[3]);
+  return tag === '\x00\x01\x00\x00' || tag === 'true' || tag === 'OTTO';
+}
+
+/** A header- and filesystem-safe name that keeps the font's extension. */
+export function sanitizeFontFilename(filename: string): string {
+  const ext = path.extname(filename).toLowerCase();
+  const base = path.basename(filename, path.extname(filename))
+    .replace(/[^a-zA-Z0-9_\-.]/g, '_')
+    .substring(0, 100) || 'font';
+  return `${base}${ext}`;
+}
+
+/**
+ * Store an uploaded font, replacing one of the same name. Returns the stored
+ * filename. Throws on anything that isn't a TTF/OTF font.
+ */
+export async function saveUploadedFont(filename: string, data: Buffer): Promise<string> {
+  if (data.length > MAX_FONT_SIZE_BYTES) {
+    throw new Error(`Font too large (max ${MAX_FONT_SIZE_BYTES / (1024 * 1024)} MB)`);
+  }
+  if (!isFontFile(filename, data)) {
+    throw new Error('Not a TrueType or OpenType font (.ttf, .otf)');
+  }
+  const dir = getFontsDir();
+  await fs.promises.mkdir(dir, { recursive: true });
+  const name = sanitizeFontFilename(filename);
+  await fs.promises.writeFile(path.join(dir, name), data);
+  return name;
+}
+
+/** Parse a fontconfig charset ("20-7e a0-17f 2010") into ranges. */
+export function parseCharset(charset: string): CharsetRange[] {
+  return charset.trim().split(/\s+/).flatMap(token => {
+    const [start, end = start] = token.split('-').map(part => parseInt(part, 16));
+    return Number.isFinite(start) && Number.isFinite(end) ? [[start, end] as CharsetRange] : [];
+  });
+}
+
+/** Parse `FACE_FORMAT` output: one "family\tfile\tcharset" line per face. */
+export function parseFontconfigFaces(output: string, source: FontSource): FontFace[] {
+  return output.split('\n').flatMap(line => {
+    const [family, file, charset = ''] = line.split('\t');
+    if (!family?.trim() || !file) return [];
+    return [{ family: family.trim(), source, file, charset: parseCharset(charset) }];
+  });
+}
+
+/**
+ * Characters of the text outside every range. Whitespace and control
+ * characters are skipped; renderers don't draw glyphs for them.
+ */
+export function findMissingGlyphs(charset: CharsetRange[], text: string): string[] {
+  const missing = new Set<string>();
+  for (const char of text) {
+    if (/[\s\p{Cc}\p{Cf}]/u.test(char)) continue;
+    const code = char.codePointAt(0)!;
+    if (!charset.some(([start, end]) => code >= start && code <= end)) missing.add(char);
+  }
+  return [...missing];
+}
+
+function runFontconfig(cmd: string, args: string[]): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const proc = spawn(cmd, args);
+    let stdout = '';
+    const timer = setTimeout(() => proc.kill(), FONTCONFIG_TIMEOUT_MS);
+    proc.stdout.on('data', (chunk: Buffer) => { stdout += chunk.toString(); });
+    proc.on('close', code => {
+      clearTimeout(timer);
+      if (code === 0) resolve(stdout);
+      else reject(new Error(`${cmd} exited with code ${code}`));
+    });
+    proc.on('error', err => {
+      clearTimeout(timer);
+      reject(err);
+    });
+  });
+}
+
+/**
+ * Every face fontconfig knows about: installed fonts (cached) followed by
+ * the uploaded ones. Without fontconfig the list is empty.
+ */
+export async function listFontFaces(refresh = false): Promise<FontFace[]> {
+  if (!systemFaces || refresh) {
+    systemFaces = runFontconfig('fc-list', ['--format', FACE_FORMAT])
+      .then(output => parseFontconfigFaces(output, 'system'))
+      .catch(error => {
+        console.warn('[Fonts] Could not list installed fonts:', error instanceof Error ? error.message : String(error));
+        return [];
+      });
+  }
+
+  let uploaded: FontFace[] = [];
+  const files = listUploadedFontFiles();
+  if (files.length > 0) {
+    try {
+      uploaded = parseFontconfigFaces(await runFontconfig('fc-scan', ['--format', FACE_FORMAT, ...files]), 'uploaded');
+    } catch (error) {
+      console.warn('[Fonts] Could not scan uploaded fonts:', error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  return [...(await systemFaces), ...uploaded];
+}
+
+/** One entry per family, sorted; a family that was uploaded counts as uploaded. */
+export function toFontInfos(faces: FontFace[]): FontInfo[] {
+  const families = new Map<string, FontSource>();
+  for (const face of faces) {
+    if (families.get(face.family) !== 'uploaded') families.set(face.family, face.source);
+  }
+  return [...families.entries()]
+    .map(([family, source]) => ({ family, source }))
+    .sort((a, b) => a.family.localeCompare(b.family));
+}
+
+/** Uploaded font files with a face in one of the families (case-insensitive). */
+export async function findUploadedFontFiles(families: string[]): Promise<string[]> {
+  const keys = new Set(families.map(family => family.trim().toLowerCase()));
+  const files = (await listFontFaces())
+    .filter(face => face.source === 'uploaded' && keys.has(face.family.toLowerCase()))
+    .map(face => face.file);
+  return [...new Set(files)].sort();
+}
+
+/** Which characters of the text the family can't draw, across all its faces. */
+export async function checkGlyphCoverage(family: string, text: string): Promise<GlyphCoverage> {
+  const key = family.trim().toLowerCase();
+  const faces = (await listFontFaces()).filter(face => face.family.toLowerCase() === key);
+  if (faces.length === 0) return { found: false, missing: [] };
+  return { found: true, missing: findMissingGlyphs(faces.flatMap(face => face.charset), text) };
+}
@@ -1,4 +1,4 @@
-import { subtitleSchema, translationSchema } from './gemini-schemas';
+import { subtitleSchema } from './gemini-schemas';
 
 describe('gemini-schemas', () => {
   test('subtitleSchema has correct structure for AI structured output', () => {
@@ -7,11 +7,4 @@ describe('gemini-schemas', () => {
     expect(subtitleSchema.required).toContain('subtitles');
     expect(subtitleSchema.required).toContain('detectedLanguage');
   });
-
-  test('translationSchema has correct structure', () => {
-    expect(translationSchema.type).toBe('OBJECT');
-    expect(translationSchema.properties.subtitles.type).toBe('ARRAY');
-    // Schema must require subtitles
-    expect(translationSchema.required).toContain('subtitles');
-  });
 });
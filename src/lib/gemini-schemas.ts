@@ -39,34 +39,54 @@ export const subtitleSchema = {
   required: ["detectedLanguage", "subtitles"],
 };
 
-export const translationSchema = {
+export const batchTranslationSchema = {
   type: "OBJECT",
   properties: {
-    subtitles: {
+    translations: {
       type: "ARRAY",
       items: {
         type: "OBJECT",
         properties: {
-          startTime: {
+          id: {
             type: "STRING",
-            description: "Timestamp in HH:MM:SS,mmm format",
+            description: "The id of the input line, unchanged",
           },
-          endTime: {
+          secondaryText: {
             type: "STRING",
-            description: "Timestamp in HH:MM:SS,mmm format",
+            description: "The translated text",
           },
-          text: {
+        },
+        required: ["id", "secondaryText"],
+      },
+    },
+  },
+  required: ["translations"],
+};
+
+export const alignmentSchema = {
+  type: "OBJECT",
+  properties: {
+    timings: {
+      type: "ARRAY",
+      items: {
+        type: "OBJECT",
+        properties: {
+          id: {
             type: "STRING",
-            description: "Original text to be translated",
+            description: "The id of the input line, unchanged",
           },
-          secondaryText: {
+          startTime: {
             type: "STRING",
-            description: "The translated text",
+            description: "When the line starts being spoken, in HH:MM:SS,mmm format",
+          },
+          endTime: {
+            type: "STRING",
+            description: "When the line stops being spoken, in HH:MM:SS,mmm format",
           },
         },
-        required: ["startTime", "endTime", "text", "secondaryText"],
+        required: ["id", "startTime", "endTime"],
       },
     },
   },
-  required: ["subtitles"],
+  required: ["timings"],
 };
@@ -3,10 +3,11 @@ describe('Gemini Integration', () => {
     let mockGenerateContent: jest.Mock;
     let mockUpload: jest.Mock;
     let mockGetFile: jest.Mock;
+    let mockDeleteFile: jest.Mock;
     type GeminiModule = typeof import('./gemini');
     let generateSubtitles: GeminiModule['generateSubtitles'];
     let generateSubtitlesInline: GeminiModule['generateSubtitlesInline'];
-    let translateSubtitles: GeminiModule['translateSubtitles'];
+    let uploadToGemini: GeminiModule['uploadToGemini'];
 
     beforeEach(async () => {
         jest.resetModules();
@@ -14,6 +15,7 @@ describe('Gemini Integration', () => {
         mockGenerateContent = jest.fn();
         mockUpload = jest.fn();
         mockGetFile = jest.fn();
+        mockDeleteFile = jest.fn();
 
         jest.doMock('@google/genai', () => ({
             GoogleGenAI: jest.fn(() => ({
@@ -22,7 +24,8 @@ describe('Gemini Integration', () => {
                 },
                 files: {
                     upload: mockUpload,
-                    get: mockGetFile
+                    get: mockGetFile,
+                    delete: mockDeleteFile
                 }
             })),
             FileState: {
@@ -37,7 +40,7 @@ describe('Gemini Integration', () => {
         const gemini = await import('./gemini');
         generateSubtitles = gemini.generateSubtitles;
         generateSubtitlesInline = gemini.generateSubtitlesInline;
-        translateSubtitles = gemini.translateSubtitles;
+        uploadToGemini = gemini.uploadToGemini;
     });
 
     describe('generateSubtitles', () => {
@@ -56,6 +59,30 @@ describe('Gemini Integration', () => {
             });
         });
 
+        it('passes the abort signal and reports the response before parsing', async () => {
+            mockGenerateContent.mockResolvedValueOnce({ text: '{"subtitles": []}' });
+            const controller = new AbortController();
+            const onResponse = jest.fn();
+
+            await generateSubtitles('test-uri', 'video/mp4', undefined, 1, 'gemini-2.5-flash', undefined, { signal: controller.signal, onResponse });
+
+            expect(mockGenerateContent.mock.calls[0][0].config.abortSignal).toBe(controller.signal);
+            expect(onResponse).toHaveBeenCalledTimes(1);
+        });
+
+        it('does not retry once cancelled', async () => {
+            const controller = new AbortController();
+            mockGenerateContent.mockImplementationOnce(async () => {
+                controller.abort();
+                throw Object.assign(new Error('aborted'), { status: 503 });
+            });
+
+            await expect(
+                generateSubtitles('test-uri', 'video/mp4', undefined, 1, 'gemini-2.5-flash', undefined, { signal: controller.signal })
+            ).rejects.toThrow('aborted');
+            expect(mockGenerateContent).toHaveBeenCalledTimes(1);
+        });
+
         it('cleans raw markdown blocks without json tag', async () => {
             const markdownJson = '```\n{"detectedLanguage": "en", "subtitles": []}\n```';
             
@@ -122,29 +149,23 @@ describe('Gemini Integration', () => {
         });
     });
 
-    describe('translateSubtitles', () => {
-        it('cleans markdown from translation response', async () => {
-            const markdownJson = '```json\n{"subtitles": [{"text": "Hello"}]}\n```';
-            
-            mockGenerateContent.mockResolvedValueOnce({
-                text: markdownJson
+    describe('uploadToGemini', () => {
+        it('deletes the remote file when cancelled while Gemini is processing it', async () => {
+            jest.spyOn(console, 'log').mockImplementation(() => {});
+            const controller = new AbortController();
+            mockUpload.mockResolvedValueOnce({ name: 'files/abc' });
+            mockGetFile.mockImplementationOnce(async () => {
+                controller.abort();
+                return { name: 'files/abc', state: 'PROCESSING' };
             });
+            mockDeleteFile.mockResolvedValueOnce({});
+            const onProgress = jest.fn();
 
-            const result = await translateSubtitles([], 'es');
-            
-            expect(result).toEqual([{ text: "Hello" }]);
-        });
+            await expect(uploadToGemini('/tmp/video.mp4', 'video/mp4', onProgress, controller.signal)).rejects.toThrow();
 
-        it('handles array response directly', async () => {
-            const markdownJson = '```json\n[{"text": "Hello"}]\n```';
-            
-            mockGenerateContent.mockResolvedValueOnce({
-                text: markdownJson
-            });
-
-            const result = await translateSubtitles([], 'es');
-            
-            expect(result).toEqual([{ text: "Hello" }]);
+            expect(mockUpload.mock.calls[0][0].config.abortSignal).toBe(controller.signal);
+            expect(mockDeleteFile).toHaveBeenCalledWith({ name: 'files/abc' });
+            expect(onProgress).toHaveBeenCalledWith('gemini_processing');
         });
     });
 });
@@ -1,6 +1,8 @@
 import { GoogleGenAI, FileState, HarmCategory, HarmBlockThreshold, Part } from "@google/genai";
-import { SubtitleLine } from "@/types/subtitle";
-import { subtitleSchema, translationSchema } from "./gemini-schemas";
+import { subtitleSchema, batchTranslationSchema, alignmentSchema } from "./gemini-schemas";
+import { buildPromptGuidance, PromptGuidance } from "./glossary";
+import { buildBatchTranslationPrompt, parseBatchTranslationResponse, TranslationBatch, TranslatedUnit } from "./translation-engine";
+import { buildAlignmentPrompt, parseAlignmentResponse, AlignmentUnit, AlignedTiming } from "./transcript-alignment";
 
 const ai = new GoogleGenAI({
   apiKey: process.env.GOOGLE_GENERATIVE_AI_API_KEY || process.env.GEMINI_API_KEY || "",
@@ -25,10 +27,37 @@ function cleanJsonOutput(text: string): string {
 
 
 
+/**
+ * Per-request options for the generation calls. `signal` aborts the
+ * in-flight request (and any retry wait); `onResponse` fires once the
+ * model has answered, before its output is parsed.
+ */
+export interface GeminiRequestOptions {
+  signal?: AbortSignal;
+  onResponse?: () => void;
+}
+
+/** setTimeout that rejects with the abort reason as soon as `signal` fires. */
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
 export async function uploadToGemini(
   filePath: string, 
   mimeType: string,
-  onProgress?: (stage: string, percent?: number) => void
+  onProgress?: (stage: string, percent?: number) => void,
+  signal?: AbortSignal
 ) {
   // Upload file using new SDK
   if (onProgress) onProgress("uploading_to_gemini");
@@ -38,11 +67,26 @@ export async function uploadToGemini(
     config: {
       mimeType,
       displayName: filePath.split("/").pop(),
+      abortSignal: signal,
     },
   });
 
   const fileName = uploadResult.name!;
-  let file = await ai.files.get({ name: fileName });
+  try {
+    return await waitForFileProcessing(fileName, onProgress, signal);
+  } catch (error) {
+    // Don't leave a cancelled upload sitting in the project's Files API quota
+    if (signal?.aborted) await deleteFileFromGemini(fileName);
+    throw error;
+  }
+}
+
+async function waitForFileProcessing(
+  fileName: string,
+  onProgress?: (stage: string, percent?: number) => void,
+  signal?: AbortSignal
+) {
+  let file = await ai.files.get({ name: fileName, config: { abortSignal: signal } });
   let retryCount = 0;
   const maxRetries = 5;
 
@@ -60,14 +104,15 @@ export async function uploadToGemini(
     if (waitCount % 3 === 0) {
         console.log(`[${new Date().toISOString()}] [Gemini] Still processing file ${fileName}... (${waitCount}/${maxWaitChecks})`);
     }
-    await new Promise((resolve) => setTimeout(resolve, 10_000));
+    await wait(10_000, signal);
 
 
     // Retry with exponential backoff on transient errors
     try {
-      file = await ai.files.get({ name: fileName });
+      file = await ai.files.get({ name: fileName, config: { abortSignal: signal } });
       retryCount = 0; // Reset on success
     } catch (error: unknown) {
+      if (signal?.aborted) throw error;
       retryCount++;
       const errorMessage = error instanceof Error ? error.message : String(error);
       console.error(
@@ -83,7 +128,7 @@ export async function uploadToGemini(
 
       // Exponential backoff
       const backoffMs = 5000 * Math.pow(2, retryCount - 1);
-      await new Promise((resolve) => setTimeout(resolve, backoffMs));
+      await wait(backoffMs, signal);
     }
   }
 
@@ -105,8 +150,11 @@ async function performSubtitleGeneration(
   mediaPart: Part,
   secondaryLanguage?: string,
   attempt = 1,
-  modelName: string = "gemini-2.5-flash"
+  modelName: string = "gemini-2.5-flash",
+  guidance?: PromptGuidance,
+  options: GeminiRequestOptions = {}
 ) {
+  const extra = buildPromptGuidance(guidance, secondaryLanguage);
   const prompt = `
     Analyze the audio in this video.
     1. Detect the primary spoken language.
@@ -118,6 +166,7 @@ async function performSubtitleGeneration(
     2. ALWAYS include the Hour part, even if it is 00. Example: "00:01:30,500" is CORRECT.
     3. Use a comma (,) for milliseconds.
     4. Ensure timings are synchronized with the audio speech.
+    ${extra}
   `;
 
   try {
@@ -135,12 +184,15 @@ async function performSubtitleGeneration(
       config: {
         responseMimeType: "application/json",
         responseSchema: subtitleSchema,
+        abortSignal: options.signal,
       },
     });
 
+    options.onResponse?.();
     const text = response.text!;
     return JSON.parse(cleanJsonOutput(text));
   } catch (error: unknown) {
+    if (options.signal?.aborted) throw error;
     const status = (error as { status?: number })?.status;
     const isRetryable = status === 429 || status === 500 || status === 502 || status === 503;
 
@@ -160,8 +212,8 @@ async function performSubtitleGeneration(
       console.log(
         `API error (${status}). Retrying in ${(delayMs / 1000).toFixed(1)}s (Attempt ${attempt}/4)...`
       );
-      await new Promise((resolve) => setTimeout(resolve, delayMs));
-      return performSubtitleGeneration(mediaPart, secondaryLanguage, attempt + 1, modelName);
+      await wait(delayMs, options.signal);
+      return performSubtitleGeneration(mediaPart, secondaryLanguage, attempt + 1, modelName, guidance, options);
     }
     throw error;
   }
@@ -172,7 +224,9 @@ export async function generateSubtitles(
   mimeType: string,
   secondaryLanguage?: string,
   attempt = 1,
-  modelName: string = "gemini-2.5-flash"
+  modelName: string = "gemini-2.5-flash",
+  guidance?: PromptGuidance,
+  options?: GeminiRequestOptions
 ) {
   return performSubtitleGeneration(
     {
@@ -183,7 +237,9 @@ export async function generateSubtitles(
     },
     secondaryLanguage,
     attempt,
-    modelName
+    modelName,
+    guidance,
+    options
   );
 }
 
@@ -196,7 +252,9 @@ export async function generateSubtitlesInline(
   mimeType: string,
   secondaryLanguage?: string,
   attempt = 1,
-  modelName: string = "gemini-2.5-flash"
+  modelName: string = "gemini-2.5-flash",
+  guidance?: PromptGuidance,
+  options?: GeminiRequestOptions
 ) {
   return performSubtitleGeneration(
     {
@@ -207,51 +265,67 @@ export async function generateSubtitlesInline(
     },
     secondaryLanguage,
     attempt,
-    modelName
+    modelName,
+    guidance,
+    options
   );
 }
 
-export async function translateSubtitles(
-  subtitles: SubtitleLine[],
+/**
+ * Translate one id-keyed batch (see translation-engine.ts)
+ */
+export async function translateBatch(
+  batch: TranslationBatch,
   targetLanguage: string,
-  modelName: string = "gemini-2.5-flash"
-) {
-  const prompt = `
-    You are an expert translator.
-    Translate the 'text' field of the following JSON subtitles into ${targetLanguage}.
-    Put the translated text into the 'secondaryText' field.
-    
-    Rules:
-    1. PRESERVE 'startTime' and 'endTime' EXACTLY.
-    2. PRESERVE the number of objects and their order.
-    3. Output JSON object with a 'subtitles' array.
-    
-    Input JSON:
-    ${JSON.stringify(subtitles)}
-  `;
+  modelName: string = "gemini-2.5-flash",
+  guidance?: PromptGuidance,
+  options: GeminiRequestOptions = {}
+): Promise<TranslatedUnit[]> {
+  const prompt = buildBatchTranslationPrompt(batch, targetLanguage, buildPromptGuidance(guidance, targetLanguage));
+
+  const response = await ai.models.generateContent({
+    model: modelName,
+    contents: [{ role: "user", parts: [{ text: prompt }] }],
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: batchTranslationSchema,
+      safetySettings,
+      abortSignal: options.signal,
+    },
+  });
 
-  try {
-    const response = await ai.models.generateContent({
-      model: modelName,
-      contents: [{ role: "user", parts: [{ text: prompt }] }],
-      config: { 
-        responseMimeType: "application/json",
-        responseSchema: translationSchema,
-        safetySettings,
-      },
-    });
+  options.onResponse?.();
+  return parseBatchTranslationResponse(JSON.parse(cleanJsonOutput(response.text!)));
+}
 
-    const text = response.text!;
-    const result = JSON.parse(cleanJsonOutput(text));
-    
-    if (result.subtitles) return result.subtitles;
-    // Fallback if schema wasn't fully respected (unlikely with responseSchema)
-    if (Array.isArray(result)) return result;
-    return result; 
-  } catch (error) {
-    console.error("Translation error:", error);
-    throw error;
-  }
+/**
+ * Ask for timings of an existing transcript (see transcript-alignment.ts).
+ * `media` is either an uploaded file URI or inline base64 data.
+ */
+export async function alignTranscript(
+  media: { fileUri: string } | { base64Data: string },
+  mimeType: string,
+  units: AlignmentUnit[],
+  modelName: string = "gemini-2.5-flash",
+  options: GeminiRequestOptions = {}
+): Promise<AlignedTiming[]> {
+  const mediaPart: Part = "fileUri" in media
+    ? { fileData: { mimeType, fileUri: media.fileUri } }
+    : { inlineData: { mimeType, data: media.base64Data } };
+
+  const response = await ai.models.generateContent({
+    model: modelName,
+    contents: [{ role: "user", parts: [mediaPart, { text: buildAlignmentPrompt(units) }] }],
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: alignmentSchema,
+      safetySettings,
+      abortSignal: options.signal,
+    },
+  });
+
+  options.onResponse?.();
+  return parseAlignmentResponse(JSON.parse(cleanJsonOutput(response.text!)));
 }
 
 /**
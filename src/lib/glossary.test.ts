@@ -0,0 +1,113 @@
+/**
+ * Tests for glossary.ts - prompt formatting and post-validation
+ */
+
+import {
+  normalizeGlossary,
+  buildPromptGuidance,
+  buildTranscriptionPrompt,
+  findGlossaryIssues,
+  getGlossaryIssues,
+  describeGlossaryIssue,
+  MAX_GLOSSARY_ENTRIES,
+} from './glossary';
+import { GlossaryEntry, SubtitleLine } from '@/types/subtitle';
+
+const GLOSSARY: GlossaryEntry[] = [
+  { term: 'Kubernetes', doNotTranslate: true },
+  { term: 'Mount Fuji', translation: '富士山', notes: 'the mountain, not the company' },
+  { term: 'SubtitleGem' },
+];
+
+const line = (text: string, secondaryText?: string): SubtitleLine => ({ id: 'x', startTime: 0, endTime: 1, text, secondaryText });
+
+describe('normalizeGlossary', () => {
+  it('trims, drops blanks and duplicate terms', () => {
+    const result = normalizeGlossary([
+      { term: '  Kubernetes ' },
+      { term: 'kubernetes', translation: 'k8s' },
+      { term: '' },
+      { term: 'Fuji', translation: 'x', doNotTranslate: true },
+    ]);
+    expect(result).toEqual([{ term: 'Kubernetes' }, { term: 'Fuji', doNotTranslate: true }]);
+  });
+
+  it('ignores malformed entries and caps the size', () => {
+    const many = Array.from({ length: MAX_GLOSSARY_ENTRIES + 10 }, (_, i) => ({ term: `t${i}` }));
+    expect(normalizeGlossary(many)).toHaveLength(MAX_GLOSSARY_ENTRIES);
+    expect(normalizeGlossary([{ term: 3 } as unknown as GlossaryEntry])).toEqual([]);
+    expect(normalizeGlossary('nope' as unknown as GlossaryEntry[])).toEqual([]);
+  });
+});
+
+describe('buildPromptGuidance', () => {
+  it('returns an empty string when there is nothing to add', () => {
+    expect(buildPromptGuidance(undefined)).toBe('');
+    expect(buildPromptGuidance({ promptHints: '  ', glossary: [] })).toBe('');
+  });
+
+  it('lists terms, translation rules and user hints', () => {
+    const prompt = buildPromptGuidance({ glossary: GLOSSARY, promptHints: 'Two speakers.' }, 'Japanese');
+    expect(prompt).toContain('PROJECT GLOSSARY');
+    expect(prompt).toContain('- "Kubernetes" (do not translate; keep as "Kubernetes" in Japanese)');
+    expect(prompt).toContain('- "Mount Fuji" (translate as "富士山" in Japanese) - the mountain, not the company');
+    expect(prompt).toContain('ADDITIONAL INSTRUCTIONS FROM THE USER:\nTwo speakers.');
+  });
+
+  it('tells the model the spoken language when it is set', () => {
+    expect(buildPromptGuidance({ language: 'Spanish' })).toBe(
+      'SPOKEN LANGUAGE: the audio is in Spanish. Transcribe it in Spanish instead of detecting the language.'
+    );
+  });
+
+  it('omits translation rules without a target language', () => {
+    expect(buildPromptGuidance({ glossary: GLOSSARY })).not.toContain('translate as');
+  });
+});
+
+describe('buildTranscriptionPrompt', () => {
+  it('primes vocabulary for Whisper-style providers', () => {
+    expect(buildTranscriptionPrompt({ glossary: GLOSSARY, promptHints: 'Tech talk.' }))
+      .toBe('Tech talk. Vocabulary: Kubernetes, Mount Fuji, SubtitleGem.');
+  });
+});
+
+describe('findGlossaryIssues', () => {
+  it('accepts correct spellings', () => {
+    expect(findGlossaryIssues(line('We deploy on Kubernetes.', 'Kubernetes にデプロイ'), GLOSSARY)).toEqual([]);
+  });
+
+  it('flags near-miss spellings and wrong capitalisation', () => {
+    const issues = findGlossaryIssues(line('We deploy on Kubernets near mount fuji'), GLOSSARY);
+    expect(issues.map(i => [i.kind, i.field, i.found])).toEqual([
+      ['misspelled', 'text', 'Kubernets'],
+      ['misspelled', 'text', 'mount fuji'],
+    ]);
+  });
+
+  it('flags missing translations and translated do-not-translate terms', () => {
+    const issues = findGlossaryIssues(line('Kubernetes at Mount Fuji', 'クバネティス 富士'), GLOSSARY);
+    expect(issues).toEqual([
+      { term: 'Kubernetes', field: 'secondaryText', kind: 'missing', expected: 'Kubernetes' },
+      { term: 'Mount Fuji', field: 'secondaryText', kind: 'missing', expected: '富士山' },
+    ]);
+  });
+
+  it('does not fuzzy-match short terms or unrelated words', () => {
+    expect(findGlossaryIssues(line('The cat sat'), [{ term: 'Cab' }])).toEqual([]);
+    expect(findGlossaryIssues(line('Submit the gem'), GLOSSARY)).toEqual([]);
+  });
+});
+
+describe('getGlossaryIssues', () => {
+  it('keys issues by subtitle id and describes them', () => {
+    const subs = [
+      { ...line('Subtitlegem rocks'), id: 'a' },
+      { ...line('All good'), id: 'b' },
+    ];
+    const issues = getGlossaryIssues(subs, GLOSSARY);
+    expect(Object.keys(issues)).toEqual(['a']);
+    expect(describeGlossaryIssue(issues.a[0])).toBe('Primary: "Subtitlegem" should be "SubtitleGem"');
+    expect(getGlossaryIssues(subs, undefined)).toEqual({});
+  });
+});
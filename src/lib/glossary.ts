@@ -0,0 +1,245 @@
+/**
+ * Project glossary helpers (client + server safe)
+ *
+ * Formats the glossary and free-form prompt hints for AI prompts, and checks
+ * generated subtitles against the glossary so misspelled or mistranslated
+ * terms can be flagged in the editor.
+ */
+
+import { GlossaryEntry, SubtitleLine } from "@/types/subtitle";
+
+export const MAX_GLOSSARY_ENTRIES = 200;
+export const MAX_GLOSSARY_TERM_LENGTH = 100;
+export const MAX_GLOSSARY_NOTES_LENGTH = 200;
+
+// Whisper only considers the last ~224 tokens of its prompt
+const MAX_TRANSCRIPTION_PROMPT_LENGTH = 800;
+
+/** User-supplied context that is added to generation/translation prompts. */
+export interface PromptGuidance {
+  promptHints?: string;
+  glossary?: GlossaryEntry[];
+  language?: string; // Spoken language set by the user, so generation doesn't detect it
+}
+
+export interface GlossaryIssue {
+  term: string;
+  field: 'text' | 'secondaryText';
+  kind: 'misspelled' | 'missing';
+  found?: string;   // The near-miss spelling found in the line (misspelled)
+  expected: string; // What the glossary asks for
+}
+
+/**
+ * Trim, drop empty/duplicate terms and enforce size limits.
+ */
+export function normalizeGlossary(entries: GlossaryEntry[] | undefined | null): GlossaryEntry[] {
+  if (!Array.isArray(entries)) return [];
+  const seen = new Set<string>();
+  const result: GlossaryEntry[] = [];
+
+  for (const entry of entries) {
+    // Entries may come straight from request bodies / saved drafts
+    if (!entry || typeof entry.term !== 'string') continue;
+    const term = entry.term.trim().slice(0, MAX_GLOSSARY_TERM_LENGTH);
+    if (!term || seen.has(term.toLowerCase())) continue;
+    seen.add(term.toLowerCase());
+
+    const translation = typeof entry.translation === 'string'
+      ? entry.translation.trim().slice(0, MAX_GLOSSARY_TERM_LENGTH)
+      : undefined;
+    const notes = typeof entry.notes === 'string'
+      ? entry.notes.trim().slice(0, MAX_GLOSSARY_NOTES_LENGTH)
+      : undefined;
+    result.push({
+      term,
+      ...(translation && !entry.doNotTranslate && { translation }),
+      ...(entry.doNotTranslate && { doNotTranslate: true }),
+      ...(notes && { notes }),
+    });
+    if (result.length >= MAX_GLOSSARY_ENTRIES) break;
+  }
+  return result;
+}
+
+// ============================================================================
+// Prompt formatting
+// ============================================================================
+
+function quote(value: string): string {
+  return JSON.stringify(value);
+}
+
+/**
+ * Render the glossary as a prompt section. When targetLanguage is given the
+ * translation rules are included; otherwise only spellings are listed.
+ */
+export function formatGlossaryForPrompt(glossary: GlossaryEntry[] | undefined, targetLanguage?: string): string {
+  const entries = normalizeGlossary(glossary);
+  if (entries.length === 0) return '';
+
+  const lines = entries.map(entry => {
+    let line = `- ${quote(entry.term)}`;
+    if (targetLanguage) {
+      if (entry.doNotTranslate) line += ` (do not translate; keep as ${quote(entry.term)} in ${targetLanguage})`;
+      else if (entry.translation) line += ` (translate as ${quote(entry.translation)} in ${targetLanguage})`;
+    }
+    if (entry.notes) line += ` - ${entry.notes}`;
+    return line;
+  });
+
+  return [
+    'PROJECT GLOSSARY (names, jargon and preferred spellings - use them exactly as written):',
+    ...lines,
+  ].join('\n');
+}
+
+/**
+ * Build the extra prompt block for Gemini / chat-completion providers.
+ * Returns '' when there is nothing to add.
+ */
+export function buildPromptGuidance(guidance: PromptGuidance | undefined, targetLanguage?: string): string {
+  if (!guidance) return '';
+  const sections: string[] = [];
+
+  const language = guidance.language?.trim();
+  if (language) sections.push(`SPOKEN LANGUAGE: the audio is in ${language}. Transcribe it in ${language} instead of detecting the language.`);
+
+  const glossary = formatGlossaryForPrompt(guidance.glossary, targetLanguage);
+  if (glossary) sections.push(glossary);
+
+  const hints = guidance.promptHints?.trim();
+  if (hints) sections.push(`ADDITIONAL INSTRUCTIONS FROM THE USER:\n${hints}`);
+
+  return sections.join('\n\n');
+}
+
+/**
+ * Build a Whisper-style `prompt` (vocabulary priming text) from the guidance.
+ */
+export function buildTranscriptionPrompt(guidance: PromptGuidance | undefined): string {
+  if (!guidance) return '';
+  const terms = normalizeGlossary(guidance.glossary).map(e => e.term);
+  const parts = [
+    guidance.promptHints?.trim(),
+    terms.length > 0 ? `Vocabulary: ${terms.join(', ')}.` : '',
+  ].filter(Boolean);
+  return parts.join(' ').slice(0, MAX_TRANSCRIPTION_PROMPT_LENGTH);
+}
+
+// ============================================================================
+// Post-validation
+// ============================================================================
+
+const WORD_PATTERN = /[\p{L}\p{N}]+(?:['’\-.][\p{L}\p{N}]+)*/gu;
+
+function levenshtein(a: string, b: string): number {
+  if (a === b) return 0;
+  let prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const curr = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      curr[j] = Math.min(prev[j] + 1, curr[j - 1] + 1, prev[j - 1] + cost);
+    }
+    prev = curr;
+  }
+  return prev[b.length];
+}
+
+/**
+ * Find a near-miss of `expected` in `text`: same word count, a small edit
+ * distance, or the same letters with the wrong capitalisation. Returns the
+ * offending span, or null if the text is fine (or doesn't mention the term).
+ */
+function findMisspelling(text: string, expected: string): string | null {
+  if (text.includes(expected)) return null;
+
+  const expectedWords = expected.match(WORD_PATTERN);
+  const words = text.match(WORD_PATTERN);
+  if (!expectedWords || !words) return null;
+
+  const target = expectedWords.join(' ');
+  const lowerTarget = target.toLowerCase();
+  const hasCapitals = target !== lowerTarget;
+  // Short terms are too noisy to fuzzy-match; allow ~1 edit per 5 letters
+  const maxDistance = lowerTarget.length < 4 ? 0 : Math.max(1, Math.floor(lowerTarget.length / 5));
+
+  for (let i = 0; i + expectedWords.length <= words.length; i++) {
+    const candidate = words.slice(i, i + expectedWords.length).join(' ');
+    if (candidate === target) return null;
+
+    const lowerCandidate = candidate.toLowerCase();
+    if (lowerCandidate === lowerTarget) {
+      if (hasCapitals) return candidate;
+      continue;
+    }
+    if (maxDistance > 0 && Math.abs(lowerCandidate.length - lowerTarget.length) <= maxDistance &&
+        levenshtein(lowerCandidate, lowerTarget) <= maxDistance) {
+      return candidate;
+    }
+  }
+  return null;
+}
+
+function mentions(text: string, term: string): boolean {
+  return text.toLowerCase().includes(term.toLowerCase());
+}
+
+/**
+ * Check one subtitle line against the glossary.
+ */
+export function findGlossaryIssues(line: SubtitleLine, glossary: GlossaryEntry[] | undefined): GlossaryIssue[] {
+  return checkLine(line, normalizeGlossary(glossary));
+}
+
+function checkLine(line: SubtitleLine, entries: GlossaryEntry[]): GlossaryIssue[] {
+  const issues: GlossaryIssue[] = [];
+  const text = line.text || '';
+  const secondary = line.secondaryText || '';
+
+  for (const entry of entries) {
+    const misspelled = findMisspelling(text, entry.term);
+    if (misspelled) {
+      issues.push({ term: entry.term, field: 'text', kind: 'misspelled', found: misspelled, expected: entry.term });
+    }
+
+    const expectedSecondary = entry.doNotTranslate ? entry.term : entry.translation;
+    if (!expectedSecondary || !secondary.trim()) continue;
+
+    const secondaryMisspelled = findMisspelling(secondary, expectedSecondary);
+    if (secondaryMisspelled) {
+      issues.push({ term: entry.term, field: 'secondaryText', kind: 'misspelled', found: secondaryMisspelled, expected: expectedSecondary });
+    } else if ((mentions(text, entry.term) || misspelled) && !mentions(secondary, expectedSecondary)) {
+      issues.push({ term: entry.term, field: 'secondaryText', kind: 'missing', expected: expectedSecondary });
+    }
+  }
+  return issues;
+}
+
+/**
+ * Check every line; returns a map of subtitle id -> issues (lines without
+ * issues are omitted).
+ */
+export function getGlossaryIssues(subtitles: SubtitleLine[], glossary: GlossaryEntry[] | undefined): Record<string, GlossaryIssue[]> {
+  const result: Record<string, GlossaryIssue[]> = {};
+  const entries = normalizeGlossary(glossary);
+  if (entries.length === 0) return result;
+
+  for (const line of subtitles) {
+    const issues = checkLine(line, entries);
+    if (issues.length > 0) result[line.id] = issues;
+  }
+  return result;
+}
+
+/**
+ * One-line, human-readable description for tooltips.
+ */
+export function describeGlossaryIssue(issue: GlossaryIssue): string {
+  const where = issue.field === 'text' ? 'Primary' : 'Translation';
+  if (issue.kind === 'misspelled') {
+    return `${where}: "${issue.found}" should be "${issue.expected}"`;
+  }
+  return `${where}: expected "${issue.expected}" for "${issue.term}"`;
+}
@@ -2,24 +2,37 @@ import { processJob } from './job-processor';
 import { QueueItem } from '@/types/queue';
 import { FFmpegConfig, MultiVideoProjectState } from '@/types/subtitle';
 import fs from 'fs';
-import { burnSubtitles } from './ffmpeg-utils';
+import { burnSubtitles, muxSubtitles } from './ffmpeg-utils';
 import * as ffmpegConcat from './ffmpeg-concat';
+import { runTranscriptionJob } from './transcription-job';
+import { findUploadedFontFiles, listUploadedFontFiles } from './font-library';
 
 jest.mock('fs');
 jest.mock('./ffmpeg-utils', () => ({
-  burnSubtitles: jest.fn()
+  burnSubtitles: jest.fn(),
+  muxSubtitles: jest.fn()
 }));
 
 jest.mock('./storage-config', () => ({
   isPathSafe: jest.fn(() => true)
 }));
 
+jest.mock('./font-library', () => ({
+  getFontsDir: jest.fn(() => '/staging/fonts'),
+  listUploadedFontFiles: jest.fn(() => []),
+  findUploadedFontFiles: jest.fn(async () => [])
+}));
+
 // Mock dynamic import of ffmpeg-concat
 // Since jest hoist mocks, we mock the module. Dynamic import() returns the module.
 jest.mock('./ffmpeg-concat', () => ({
   exportMultiVideo: jest.fn()
 }));
 
+jest.mock('./transcription-job', () => ({
+  runTranscriptionJob: jest.fn()
+}));
+
 describe('job-processor', () => {
     const mockItem: QueueItem = {
         id: '1',
@@ -39,6 +52,7 @@ describe('job-processor', () => {
         jest.clearAllMocks();
         (fs.existsSync as jest.Mock).mockReturnValue(true);
         (burnSubtitles as jest.Mock).mockResolvedValue('/out/v.mp4');
+        (listUploadedFontFiles as jest.Mock).mockReturnValue([]);
     });
 
     test('validates metadata', async () => {
@@ -84,4 +98,92 @@ describe('job-processor', () => {
         expect(ffmpegConcat.exportMultiVideo).toHaveBeenCalled();
         expect(result.videoPath).toBe('/out/multi.mp4');
     });
+
+    test('runs muxSubtitles for soft-subtitle exports', async () => {
+        const tracks = [
+            { path: '/out/primary.srt', language: 'eng', title: 'English' },
+            { path: '/out/secondary.srt', language: 'chi' },
+        ];
+        const muxItem: QueueItem = {
+            ...mockItem,
+            metadata: {
+                videoPath: '/source/v.mp4',
+                outputPath: '/out/v.mkv',
+                exportMode: 'mux',
+                muxContainer: 'mkv',
+                subtitleTracks: tracks,
+                sampleDuration: 10,
+            }
+        };
+        (muxSubtitles as jest.Mock).mockResolvedValue('/out/v.mkv');
+
+        const result = await processJob(muxItem, jest.fn());
+
+        expect(burnSubtitles).not.toHaveBeenCalled();
+        expect(muxSubtitles).toHaveBeenCalledWith(
+            '/source/v.mp4',
+            tracks,
+            '/out/v.mkv',
+            expect.objectContaining({ container: 'mkv', sampleDuration: 10 })
+        );
+        expect(result.videoPath).toBe('/out/v.mkv');
+    });
+
+    test('points burn-ins at the font library and attaches the fonts Matroska tracks use', async () => {
+        (listUploadedFontFiles as jest.Mock).mockReturnValue(['/staging/fonts/Brand.ttf', '/staging/fonts/Unused.ttf']);
+        (findUploadedFontFiles as jest.Mock).mockResolvedValue(['/staging/fonts/Brand.ttf']);
+        (fs.readFileSync as jest.Mock).mockReturnValue([
+            '[V4+ Styles]',
+            'Format: Name, Fontname, Fontsize',
+            'Style: Primary,Brand Sans,48',
+            '[Events]',
+            'Dialogue: 0,0:00:00.00,0:00:01.00,Primary,,0,0,0,,{\\fnNoto Sans}Hi',
+        ].join('\n'));
+        (muxSubtitles as jest.Mock).mockResolvedValue('/out/v.mkv');
+
+        await processJob(mockItem, jest.fn());
+        expect(burnSubtitles).toHaveBeenCalledWith(
+            '/source/v.mp4', '/source/s.ass', '/out/v.mp4',
+            expect.objectContaining({ fontsDir: '/staging/fonts' })
+        );
+
+        const tracks = [{ path: '/out/primary.ass', language: 'eng' }];
+        const mux = (muxContainer: 'mp4' | 'mkv') => processJob({
+            ...mockItem,
+            metadata: { videoPath: '/source/v.mp4', outputPath: `/out/v.${muxContainer}`, exportMode: 'mux', muxContainer, subtitleTracks: tracks }
+        }, jest.fn());
+        await mux('mkv');
+        expect(muxSubtitles).toHaveBeenLastCalledWith('/source/v.mp4', tracks, '/out/v.mkv',
+            expect.objectContaining({ fontAttachments: ['/staging/fonts/Brand.ttf'] }));
+        expect(fs.readFileSync).toHaveBeenCalledWith('/out/primary.ass', 'utf8');
+        expect(findUploadedFontFiles).toHaveBeenCalledWith(['Noto Sans', 'Brand Sans']);
+        await mux('mp4');
+        expect((muxSubtitles as jest.Mock).mock.calls[1][3].fontAttachments).toBeUndefined();
+    });
+
+    test('runs the AI pipeline for transcribe jobs', async () => {
+        const transcribeItem: QueueItem = {
+            ...mockItem,
+            metadata: { type: 'transcribe', videoPath: '/source/v.mp4', draftId: 'd1' }
+        };
+        const subtitles = [{ id: 'a', startTime: 0, endTime: 1, text: 'Hi' }];
+        (runTranscriptionJob as jest.Mock).mockResolvedValue({ subtitles, detectedLanguage: 'English' });
+
+        const onProgress = jest.fn();
+        const { signal } = new AbortController();
+        const result = await processJob(transcribeItem, onProgress, signal);
+
+        expect(runTranscriptionJob).toHaveBeenCalledWith(transcribeItem, onProgress, signal);
+        expect(burnSubtitles).not.toHaveBeenCalled();
+        expect(result).toEqual({ subtitles, detectedLanguage: 'English' });
+    });
+
+    test('rejects mux exports without subtitle tracks', async () => {
+        const muxItem: QueueItem = {
+            ...mockItem,
+            metadata: { videoPath: '/source/v.mp4', outputPath: '/out/v.mp4', exportMode: 'mux' }
+        };
+        await expect(processJob(muxItem, jest.fn()))
+            .rejects.toThrow('Missing subtitle tracks');
+    });
 });
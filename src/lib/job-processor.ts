@@ -1,24 +1,45 @@
-import { QueueItem } from '@/types/queue';
-import { burnSubtitles } from './ffmpeg-utils';
+import { MuxSubtitleTrack, QueueItem } from '@/types/queue';
+import { burnSubtitles, muxSubtitles, ProgressDetails } from './ffmpeg-utils';
 import { isPathSafe } from './storage-config';
+import { findUploadedFontFiles, getFontsDir, listUploadedFontFiles } from './font-library';
+import { getAssFontNames } from './ass-utils';
 import path from 'path';
 import fs from 'fs';
 
 /**
  * Process a single queue item
- * This function extracts metadata from the item and runs the appropriate FFmpeg task.
+ * This function extracts metadata from the item and runs the appropriate FFmpeg task,
+ * or the AI pipeline for 'transcribe' jobs. FFmpeg jobs pass its speed and
+ * frame rate along with progress. Aborting `signal` cancels any job type and
+ * rejects with the abort reason: FFmpeg is killed and its partial output
+ * removed; a transcription's model requests are cancelled and its result
+ * is never written to the draft.
  */
 export async function processJob(
   item: QueueItem,
-  onProgress: (progress: number) => void
-): Promise<{ videoPath: string; srtPath?: string }> {
+  onProgress: (progress: number, details?: ProgressDetails) => void,
+  signal?: AbortSignal
+): Promise<NonNullable<QueueItem['result']>> {
   console.log(`[${new Date().toISOString()}] [JobProcessor] Starting job ${item.id} (${item.model})`);
 
   if (!item.metadata) {
     throw new Error('Job metadata missing. cannot process.');
   }
 
-  const { videoPath, assPath, outputPath, ffmpegConfig } = item.metadata;
+  if (item.metadata.type === 'transcribe') {
+    const { runTranscriptionJob } = await import('./transcription-job');
+    try {
+      const result = await runTranscriptionJob(item, onProgress, signal);
+      console.log(`[${new Date().toISOString()}] [JobProcessor] Job ${item.id} transcribed ${result.subtitles.length} lines`);
+      return result;
+    } catch (error) {
+      console.error(`[${new Date().toISOString()}] [JobProcessor] Job ${item.id} failed:`, error);
+      throw error;
+    }
+  }
+
+  const { videoPath, assPath, outputPath, ffmpegConfig, exportMode, muxContainer, sampleDuration } = item.metadata;
+  const subtitleTracks = item.metadata.subtitleTracks || [];
 
   // Validation
   if (!videoPath || !outputPath) {
@@ -29,6 +50,7 @@ export async function processJob(
   const pathsToValidate: string[] = [outputPath];
   if (item.metadata.type !== 'multi-export') pathsToValidate.push(videoPath);
   if (assPath) pathsToValidate.push(assPath);
+  subtitleTracks.forEach(track => pathsToValidate.push(track.path));
   if (pathsToValidate.some(p => !isPathSafe(p))) {
     throw new Error('Unauthorized path in job metadata');
   }
@@ -41,12 +63,29 @@ export async function processJob(
      throw new Error(`Subtitle file not found: ${assPath}`);
   }
 
+  if (exportMode === 'mux') {
+    if (subtitleTracks.length === 0) {
+      throw new Error('Missing subtitle tracks for mux export');
+    }
+    const missing = subtitleTracks.find(track => !fs.existsSync(track.path));
+    if (missing) {
+      throw new Error(`Subtitle file not found: ${missing.path}`);
+    }
+  }
+
   // Ensure output directory exists
   const outputDir = path.dirname(outputPath);
   if (!fs.existsSync(outputDir)) {
     fs.mkdirSync(outputDir, { recursive: true });
   }
 
+  // Uploaded fonts: libass searches the library when burning in, and
+  // Matroska outputs carry the files their ASS tracks render with
+  const fontFiles = listUploadedFontFiles();
+  const fontOptions = fontFiles.length === 0 ? {} : exportMode === 'mux'
+    ? (muxContainer === 'mkv' ? { fontAttachments: await getTrackFontFiles(subtitleTracks) } : {})
+    : { fontsDir: getFontsDir() };
+
   // Determine what operation to run
   try {
      let resultPath: string;
@@ -78,9 +117,26 @@ export async function processJob(
              outputPath,
              {
                  ...ffmpegConfig,
-                 onProgress: (progress) => onProgress(progress)
+                 ...(exportMode === 'mux' && { subtitleTracks, container: muxContainer }),
+                 ...fontOptions,
+                 onProgress,
+                 signal
              }
          );
+     } else if (exportMode === 'mux') {
+         // Soft subtitles: stream-copy video/audio and embed each track
+         resultPath = await muxSubtitles(
+           videoPath,
+           subtitleTracks,
+           outputPath,
+           {
+             container: muxContainer,
+             sampleDuration,
+             ...fontOptions,
+             onProgress,
+             signal
+           }
+         );
      } else {
          // Default single video burn
          resultPath = await burnSubtitles(
@@ -89,9 +145,9 @@ export async function processJob(
            outputPath,
            {
              ...ffmpegConfig,
-             onProgress: (progress) => {
-               onProgress(progress);
-             }
+             ...fontOptions,
+             onProgress,
+             signal
            }
          );
      }
@@ -108,3 +164,9 @@ export async function processJob(
     throw error;
   }
 }
+
+/** The uploaded font files whose families the tracks' styles and `\fn` tags name. */
+async function getTrackFontFiles(tracks: MuxSubtitleTrack[]): Promise<string[]> {
+  const fonts = tracks.flatMap(track => getAssFontNames(fs.readFileSync(track.path, 'utf8')));
+  return findUploadedFontFiles(fonts);
+}
@@ -0,0 +1,104 @@
+import {
+  createHistory,
+  recordChange,
+  undoHistory,
+  redoHistory,
+  jumpToHistory,
+  diffSlice,
+  COALESCE_WINDOW_MS,
+  ProjectSnapshot,
+} from './project-history';
+import { DEFAULT_CONFIG, DEFAULT_PROJECT_CONFIG, SubtitleLine } from '@/types/subtitle';
+
+const line = (id: string, text = id): SubtitleLine => ({ id, startTime: 0, endTime: 1, text });
+
+const snapshot = (subtitles: SubtitleLine[]): ProjectSnapshot => ({
+  subtitles,
+  config: DEFAULT_CONFIG,
+  videoClips: [],
+  timelineClips: [],
+  timelineImages: [],
+  imageAssets: [],
+  projectConfig: DEFAULT_PROJECT_CONFIG,
+});
+
+describe('diffSlice', () => {
+  it('stores only the changed items and no order when it is unchanged', () => {
+    const before = [line('a'), line('b'), line('c')];
+    const after = [before[0], line('b', 'edited'), before[2]];
+    expect(diffSlice('subtitles', before, after)).toEqual({
+      kind: 'list',
+      items: [{ id: 'b', before: before[1], after: after[1] }],
+    });
+  });
+
+  it('records the order when items move, are added or removed', () => {
+    const before = [line('a'), line('b')];
+    const patch = diffSlice('subtitles', before, [before[1], line('c')]);
+    expect(patch).toMatchObject({ orderBefore: ['a', 'b'], orderAfter: ['b', 'c'] });
+  });
+
+  it('treats equal content as no change', () => {
+    expect(diffSlice('subtitles', [line('a')], [line('a')])).toBeNull();
+    expect(diffSlice('config', DEFAULT_CONFIG, { ...DEFAULT_CONFIG })).toBeNull();
+  });
+
+  it('falls back to whole lists when ids repeat', () => {
+    expect(diffSlice('subtitles', [line('a'), line('a')], [line('a')])).toMatchObject({ kind: 'replace' });
+  });
+});
+
+describe('recordChange', () => {
+  const start = createHistory(snapshot([line('a'), line('b'), line('c')]));
+
+  it('undoes and redoes reorders, additions and removals', () => {
+    const [a, b, c] = start.present.subtitles;
+    const edited = recordChange(start, 'subtitles', [c, line('d'), a], {}, 0);
+    expect(edited.past[0].label).toBe('Edit lines');
+
+    const undone = undoHistory(edited);
+    expect(undone.present.subtitles).toEqual([a, b, c]);
+    expect(undone.present.subtitles[1]).toBe(b);
+    expect(redoHistory(undone).present.subtitles).toEqual(edited.present.subtitles);
+  });
+
+  it('coalesces repeated edits of the same field within the window', () => {
+    let history = start;
+    for (const [i, text] of ['H', 'He', 'Hel'].entries()) {
+      history = recordChange(history, 'subtitles', history.present.subtitles.map(s => s.id === 'b' ? { ...s, text } : s), {}, i * 500);
+    }
+    expect(history.past).toHaveLength(1);
+    expect(history.past[0].label).toBe('Edit line');
+    expect(undoHistory(history).present).toEqual(start.present);
+
+    const later = recordChange(history, 'subtitles', history.present.subtitles.map(s => s.id === 'b' ? { ...s, text: 'Hell' } : s), {}, 1000 + COALESCE_WINDOW_MS + 1);
+    expect(later.past).toHaveLength(2);
+  });
+
+  it('does not coalesce into a command from before an undo', () => {
+    const edit = (h: typeof start, text: string, now: number) =>
+      recordChange(h, 'subtitles', h.present.subtitles.map(s => s.id === 'a' ? { ...s, text } : s), {}, now);
+    const history = edit(redoHistory(undoHistory(edit(start, 'x', 0))), 'y', 100);
+    expect(history.past).toHaveLength(2);
+  });
+
+  it('merges changes to several slices under one explicit key', () => {
+    const options = { label: 'Open project', coalesceKey: 'open' };
+    let history = recordChange(start, 'subtitles', [], options, 0);
+    history = recordChange(history, 'config', { ...DEFAULT_CONFIG, primaryLanguage: 'French' }, options, 10);
+    expect(history.past).toHaveLength(1);
+    expect(Object.keys(history.past[0].changes).sort()).toEqual(['config', 'subtitles']);
+    expect(undoHistory(history).present).toEqual(start.present);
+  });
+});
+
+describe('jumpToHistory', () => {
+  it('undoes and redoes to the requested position', () => {
+    let history = createHistory(snapshot([]));
+    for (const id of ['a', 'b', 'c']) {
+      history = recordChange(history, 'subtitles', [...history.present.subtitles, line(id)]);
+    }
+    expect(jumpToHistory(history, 1).present.subtitles.map(s => s.id)).toEqual(['a']);
+    expect(jumpToHistory(jumpToHistory(history, 0), 2).present.subtitles.map(s => s.id)).toEqual(['a', 'b']);
+  });
+});
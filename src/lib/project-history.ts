@@ -0,0 +1,281 @@
+/**
+ * Project-wide undo history
+ *
+ * Every edit to the project (subtitles, styles, the video and image
+ * libraries, the timeline and project settings) is recorded as a command
+ * holding only what changed: list slices store the changed items by id and
+ * the order when it moved, settings store the old and new value. Unchanged
+ * items are shared with the live state, so a long history of small edits
+ * costs little more than the edits themselves.
+ */
+
+import {
+  SubtitleLine,
+  SubtitleConfig,
+  VideoClip,
+  TimelineClip,
+  TimelineImage,
+  ImageAsset,
+  ProjectConfig,
+} from "@/types/subtitle";
+
+/** The undoable part of the editor state (a `MultiVideoProjectState` plus its subtitles). */
+export interface ProjectSnapshot {
+  subtitles: SubtitleLine[];
+  config: SubtitleConfig;
+  videoClips: VideoClip[];
+  timelineClips: TimelineClip[];
+  timelineImages: TimelineImage[];
+  imageAssets: ImageAsset[];
+  projectConfig: ProjectConfig;
+}
+
+export type ListSlice = 'subtitles' | 'videoClips' | 'timelineClips' | 'timelineImages' | 'imageAssets';
+export type ValueSlice = 'config' | 'projectConfig';
+export type ProjectSlice = ListSlice | ValueSlice;
+
+interface Identified {
+  id: string;
+}
+
+/** One item that was added (no `before`), removed (no `after`) or edited. */
+interface ItemChange {
+  id: string;
+  before?: Identified;
+  after?: Identified;
+}
+
+export type SlicePatch =
+  | { kind: 'list'; items: ItemChange[]; orderBefore?: string[]; orderAfter?: string[] }
+  | { kind: 'value'; before: unknown; after: unknown }
+  // Lists with duplicate ids can't be patched by id
+  | { kind: 'replace'; before: unknown[]; after: unknown[] };
+
+export interface ProjectCommand {
+  label: string;
+  timestamp: number;
+  /** Consecutive commands with the same key are merged while they keep coming. */
+  coalesceKey?: string;
+  changes: Partial<Record<ProjectSlice, SlicePatch>>;
+}
+
+export interface ProjectHistory {
+  present: ProjectSnapshot;
+  past: ProjectCommand[];
+  /** Undone commands, most recently undone last. */
+  future: ProjectCommand[];
+  /** Cleared by undo/redo so an edit never merges into a command from before them. */
+  canCoalesce: boolean;
+}
+
+export interface RecordOptions {
+  label?: string;
+  coalesceKey?: string;
+}
+
+export const MAX_HISTORY_ENTRIES = 100;
+export const COALESCE_WINDOW_MS = 1000;
+
+const LIST_SLICES: ListSlice[] = ['subtitles', 'videoClips', 'timelineClips', 'timelineImages', 'imageAssets'];
+
+const ITEM_NOUNS: Record<ListSlice, [string, string]> = {
+  subtitles: ['line', 'lines'],
+  videoClips: ['video', 'videos'],
+  timelineClips: ['clip', 'clips'],
+  timelineImages: ['image', 'images'],
+  imageAssets: ['image asset', 'image assets'],
+};
+
+const VALUE_LABELS: Record<ValueSlice, string> = {
+  config: 'Change subtitle settings',
+  projectConfig: 'Change project settings',
+};
+
+const isListSlice = (slice: ProjectSlice): slice is ListSlice =>
+  (LIST_SLICES as string[]).includes(slice);
+
+const sameJSON = (a: unknown, b: unknown) => a === b || JSON.stringify(a) === JSON.stringify(b);
+
+export function createHistory(present: ProjectSnapshot): ProjectHistory {
+  return { present, past: [], future: [], canCoalesce: false };
+}
+
+function diffList(before: Identified[], after: Identified[]): SlicePatch | null {
+  if (before === after) return null;
+  const beforeById = new Map(before.map(item => [item.id, item]));
+  const afterById = new Map(after.map(item => [item.id, item]));
+  if (beforeById.size !== before.length || afterById.size !== after.length) {
+    return sameJSON(before, after) ? null : { kind: 'replace', before, after };
+  }
+
+  const items: ItemChange[] = [];
+  for (const item of before) {
+    const next = afterById.get(item.id);
+    if (!next) items.push({ id: item.id, before: item });
+    else if (!sameJSON(item, next)) items.push({ id: item.id, before: item, after: next });
+  }
+  for (const item of after) {
+    if (!beforeById.has(item.id)) items.push({ id: item.id, after: item });
+  }
+
+  const reordered = before.length !== after.length || before.some((item, i) => item.id !== after[i].id);
+  if (items.length === 0 && !reordered) return null;
+  return reordered
+    ? { kind: 'list', items, orderBefore: before.map(item => item.id), orderAfter: after.map(item => item.id) }
+    : { kind: 'list', items };
+}
+
+/** The patch taking one slice from `before` to `after`, or null when they're equivalent. */
+export function diffSlice(slice: ProjectSlice, before: unknown, after: unknown): SlicePatch | null {
+  if (isListSlice(slice)) return diffList(before as Identified[], after as Identified[]);
+  return sameJSON(before, after) ? null : { kind: 'value', before, after };
+}
+
+/** Apply a patch forwards (redo) or backwards (undo) to the slice's current value. */
+function applyPatch(current: unknown, patch: SlicePatch, direction: 'undo' | 'redo'): unknown {
+  const undo = direction === 'undo';
+  if (patch.kind !== 'list') return undo ? patch.before : patch.after;
+
+  const list = current as Identified[];
+  const byId = new Map(list.map(item => [item.id, item]));
+  for (const change of patch.items) {
+    const target = undo ? change.before : change.after;
+    if (target) byId.set(change.id, target);
+    else byId.delete(change.id);
+  }
+  const order = undo ? patch.orderBefore : patch.orderAfter;
+  if (order) return order.map(id => byId.get(id)).filter((item): item is Identified => !!item);
+  return list.map(item => byId.get(item.id) ?? item);
+}
+
+function applyCommand(snapshot: ProjectSnapshot, command: ProjectCommand, direction: 'undo' | 'redo'): ProjectSnapshot {
+  const next = { ...snapshot } as Record<ProjectSlice, unknown>;
+  for (const [slice, patch] of Object.entries(command.changes) as [ProjectSlice, SlicePatch][]) {
+    next[slice] = applyPatch(next[slice], patch, direction);
+  }
+  return next as unknown as ProjectSnapshot;
+}
+
+/** A readable label for a single-slice change. */
+export function describePatch(slice: ProjectSlice, patch: SlicePatch): string {
+  if (!isListSlice(slice)) return VALUE_LABELS[slice];
+  const [one, many] = ITEM_NOUNS[slice];
+  if (patch.kind !== 'list') return `Edit ${many}`;
+
+  const count = (n: number) => n === 1 ? one : `${n} ${many}`;
+  const added = patch.items.filter(c => !c.before).length;
+  const removed = patch.items.filter(c => !c.after).length;
+  const edited = patch.items.length - added - removed;
+  if (patch.items.length === 0) return `Reorder ${many}`;
+  if (added && !removed && !edited) return `Add ${count(added)}`;
+  if (removed && !added && !edited) return `Delete ${count(removed)}`;
+  if (edited && !added && !removed) return `Edit ${count(edited)}`;
+  return `Edit ${many}`;
+}
+
+/**
+ * Key for merging repeated edits of the same thing: typing into one line,
+ * dragging a style slider, nudging one clip. Only single-item edits (and
+ * settings changes touching the same keys) coalesce by default.
+ */
+function defaultCoalesceKey(slice: ProjectSlice, patch: SlicePatch, before: unknown, after: unknown): string | undefined {
+  if (patch.kind === 'value') {
+    return `${slice}:${changedPaths(before, after).join(',')}`;
+  }
+  if (patch.kind === 'list' && !patch.orderBefore && patch.items.length === 1) {
+    const { id, before: prev, after: next } = patch.items[0];
+    return `${slice}:${id}:${changedPaths(prev, next).join(',')}`;
+  }
+  return undefined;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+/** Keys that differ between two objects, one level into nested objects. */
+function changedPaths(before: unknown, after: unknown, nested = true): string[] {
+  if (!isObject(before) || !isObject(after)) return ['*'];
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+  return [...keys]
+    .filter(key => !sameJSON(before[key], after[key]))
+    .sort()
+    .flatMap(key => nested && isObject(before[key]) && isObject(after[key])
+      ? changedPaths(before[key], after[key], false).map(path => `${key}.${path}`)
+      : [key]);
+}
+
+/**
+ * Set one slice of the project and record the change. Returns the same
+ * history when nothing actually changed. An edit with the same coalesce key
+ * as the previous command, within `COALESCE_WINDOW_MS`, is folded into it.
+ */
+export function recordChange<S extends ProjectSlice>(
+  history: ProjectHistory,
+  slice: S,
+  value: ProjectSnapshot[S],
+  options: RecordOptions = {},
+  now = Date.now()
+): ProjectHistory {
+  const before = history.present[slice];
+  const patch = diffSlice(slice, before, value);
+  if (!patch) return history;
+
+  const present = { ...history.present, [slice]: value };
+  const coalesceKey = options.coalesceKey ?? defaultCoalesceKey(slice, patch, before, value);
+  const last = history.past[history.past.length - 1];
+
+  if (last && coalesceKey && history.canCoalesce && last.coalesceKey === coalesceKey && now - last.timestamp <= COALESCE_WINDOW_MS) {
+    // Re-diff from the state before the previous command so the merged
+    // command stays minimal (a change that is undone by the next one vanishes)
+    const origin = applyCommand(history.present, last, 'undo');
+    const changes: ProjectCommand['changes'] = {};
+    for (const key of new Set([...Object.keys(last.changes), slice]) as Set<ProjectSlice>) {
+      const merged = diffSlice(key, origin[key], present[key]);
+      if (merged) changes[key] = merged;
+    }
+    const past = history.past.slice(0, -1);
+    if (Object.keys(changes).length > 0) {
+      past.push({ ...last, timestamp: now, changes });
+    }
+    return { present, past, future: [], canCoalesce: true };
+  }
+
+  const command: ProjectCommand = {
+    label: options.label ?? describePatch(slice, patch),
+    timestamp: now,
+    coalesceKey,
+    changes: { [slice]: patch },
+  };
+  const past = [...history.past, command].slice(-MAX_HISTORY_ENTRIES);
+  return { present, past, future: [], canCoalesce: true };
+}
+
+export function undoHistory(history: ProjectHistory): ProjectHistory {
+  const command = history.past[history.past.length - 1];
+  if (!command) return history;
+  return {
+    present: applyCommand(history.present, command, 'undo'),
+    past: history.past.slice(0, -1),
+    future: [...history.future, command],
+    canCoalesce: false,
+  };
+}
+
+export function redoHistory(history: ProjectHistory): ProjectHistory {
+  const command = history.future[history.future.length - 1];
+  if (!command) return history;
+  return {
+    present: applyCommand(history.present, command, 'redo'),
+    past: [...history.past, command],
+    future: history.future.slice(0, -1),
+    canCoalesce: false,
+  };
+}
+
+/** Undo or redo until exactly `position` commands are applied. */
+export function jumpToHistory(history: ProjectHistory, position: number): ProjectHistory {
+  let next = history;
+  while (next.past.length > position && next.past.length > 0) next = undoHistory(next);
+  while (next.past.length < position && next.future.length > 0) next = redoHistory(next);
+  return next;
+}
@@ -0,0 +1,46 @@
+import { enqueueTranscription, waitForQueueItem } from './queue-client';
+
+global.fetch = jest.fn();
+
+const jsonResponse = (body: unknown, ok = true) => ({ ok, status: ok ? 200 : 400, json: async () => body });
+
+const job = (status: string, extra = {}) => ({ id: 'job-1', status, progress: 0, file: { name: 'a.mp4', size: 1 }, createdAt: 0, ...extra });
+
+describe('queue-client', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test('queues a transcription and returns the job', async () => {
+    (fetch as jest.Mock).mockResolvedValueOnce(jsonResponse({ item: job('pending') }));
+    const request = { fileName: 'a.mp4', filePath: '/staging/a.mp4', model: 'gemini-2.5-flash', language: 'Spanish', draftId: 'd1', clipId: 'clip-2' };
+
+    await expect(enqueueTranscription(request)).resolves.toMatchObject({ id: 'job-1' });
+    const [url, init] = (fetch as jest.Mock).mock.calls[0];
+    expect(url).toBe('/api/queue');
+    expect(JSON.parse(init.body)).toEqual(request);
+  });
+
+  test('surfaces the server error when queueing fails', async () => {
+    (fetch as jest.Mock).mockResolvedValueOnce(jsonResponse({ error: 'Unauthorized path' }, false));
+    await expect(enqueueTranscription({ fileName: 'a', filePath: '/etc/a', model: 'm' })).rejects.toThrow('Unauthorized path');
+  });
+
+  test('polls until the job completes', async () => {
+    (fetch as jest.Mock)
+      .mockResolvedValueOnce(jsonResponse({ items: [job('pending')] }))
+      .mockResolvedValueOnce(jsonResponse({ items: [job('processing')] }))
+      .mockResolvedValueOnce(jsonResponse({ items: [job('completed', { result: { subtitles: [] } })] }));
+
+    await expect(waitForQueueItem('job-1', 0)).resolves.toMatchObject({ status: 'completed', result: { subtitles: [] } });
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+
+  test('rejects when the job fails or disappears', async () => {
+    (fetch as jest.Mock).mockResolvedValueOnce(jsonResponse({ items: [job('failed', { error: 'Cancelled by user' })] }));
+    await expect(waitForQueueItem('job-1', 0)).rejects.toThrow('Cancelled by user');
+
+    (fetch as jest.Mock).mockResolvedValueOnce(jsonResponse({ items: [] }));
+    await expect(waitForQueueItem('job-1', 0)).rejects.toThrow('The job was removed from the queue');
+  });
+});
@@ -0,0 +1,56 @@
+/**
+ * Browser side of queued transcription (/api/queue)
+ *
+ * The job runs on the server, so its subtitles still reach the draft when
+ * the tab is closed; an open tab waits for the job and takes the result from
+ * the queue item.
+ */
+
+import { QueueItem } from '@/types/queue';
+import { GlossaryEntry } from '@/types/subtitle';
+
+export const QUEUE_POLL_INTERVAL_MS = 1000; // Same rate as the queue drawer
+
+export interface TranscriptionRequest {
+  fileName: string;
+  filePath: string; // Staged media path on the server
+  model: string;
+  language?: string; // Spoken language; the model detects it when unset
+  secondaryLanguage?: string;
+  draftId?: string;
+  clipId?: string;
+  promptHints?: string;
+  glossary?: GlossaryEntry[];
+}
+
+/** Queue a transcription of a staged file and return the new job. */
+export async function enqueueTranscription(request: TranscriptionRequest): Promise<QueueItem> {
+  const res = await fetch('/api/queue', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(request),
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok || !data.item) {
+    throw new Error(data.error || `HTTP ${res.status}`);
+  }
+  return data.item;
+}
+
+/**
+ * Resolve with the job once it has completed. Rejects with the job's error
+ * when it fails (including a cancel) or is removed from the queue.
+ */
+export async function waitForQueueItem(id: string, intervalMs = QUEUE_POLL_INTERVAL_MS): Promise<QueueItem> {
+  for (;;) {
+    const res = await fetch('/api/queue');
+    if (res.ok) {
+      const { items } = await res.json() as { items: QueueItem[] };
+      const item = items.find(i => i.id === id);
+      if (!item) throw new Error('The job was removed from the queue');
+      if (item.status === 'completed') return item;
+      if (item.status === 'failed') throw new Error(item.error || 'The job failed');
+    }
+    await new Promise(resolve => setTimeout(resolve, intervalMs));
+  }
+}
@@ -1,4 +1,4 @@
-import { saveItem, loadAllItems, updateStatus, getItem } from './queue-db';
+import { saveItem, loadAllItems, updateStatus, getItem, saveJobMetrics, loadJobMetrics } from './queue-db';
 import { QueueItem } from '@/types/queue';
 import Database from 'better-sqlite3';
 
@@ -86,6 +86,60 @@ describe('queue-db', () => {
         expect(items[0].metadata).toEqual({ videoPath: 'path' });
     });
 
+    test('persists transcription results alongside the item', () => {
+        const subtitles = [{ id: 'a', startTime: 0, endTime: 1, text: 'Hello' }];
+        saveItem({ ...mockItem, status: 'completed', result: { subtitles, detectedLanguage: 'English' } });
+
+        const { resultData, resultVideoPath } = (mRun.mock.calls[0] as unknown[])[0] as { resultData: string; resultVideoPath: string | null };
+        expect(resultVideoPath).toBeNull();
+        expect(JSON.parse(resultData)).toEqual({ subtitles, detectedLanguage: 'English' });
+
+        mAll.mockReturnValue([{
+            id: '1',
+            status: 'completed',
+            progress: 100,
+            file_name: 'test.mp4',
+            file_size: 1000,
+            created_at: 1000,
+            result_video_path: null,
+            result_data: resultData,
+        }]);
+        expect(loadAllItems()[0].result).toEqual({ subtitles, detectedLanguage: 'English', videoPath: undefined, srtPath: undefined });
+    });
+
+    test('persists scheduling priority and manual position', () => {
+        saveItem({ ...mockItem, priority: 1, position: 2 });
+        expect(mRun).toHaveBeenCalledWith(expect.objectContaining({ priority: 1, position: 2 }));
+
+        mAll.mockReturnValue([
+            { id: '1', status: 'pending', progress: 0, file_name: 'a.mp4', file_size: 1, created_at: 1000, priority: 1, queue_position: 2 },
+            { id: '2', status: 'pending', progress: 0, file_name: 'b.mp4', file_size: 1, created_at: 2000, priority: 0, queue_position: null },
+        ]);
+        const [prioritized, legacy] = loadAllItems();
+        expect(prioritized).toMatchObject({ priority: 1, position: 2 });
+        expect(legacy.priority).toBeUndefined();
+        expect(legacy.position).toBeUndefined();
+    });
+
+    test('keeps job metrics in their own table', () => {
+        saveJobMetrics({ jobId: '1', kind: 'burn', inputDuration: 60, codec: 'libx264', speed: 2.5, elapsedMs: 24000.4, completedAt: 5000 });
+        expect(mPrepare).toHaveBeenCalledWith(expect.stringContaining('INTO job_metrics'));
+        expect(mRun).toHaveBeenCalledWith(expect.objectContaining({ jobId: '1', speed: 2.5, fps: null, elapsedMs: 24000 }));
+
+        // Newest rows come back from SQLite first; callers get them oldest first
+        mAll.mockReturnValue([
+            { job_id: '2', kind: 'transcribe', input_duration: null, file_size: 100, codec: null, preset: null, resolution: null, hwaccel: null, speed: null, fps: null, elapsed_ms: 9000, completed_at: 6000 },
+            { job_id: '1', kind: 'burn', input_duration: 60, file_size: null, codec: 'libx264', preset: null, resolution: null, hwaccel: null, speed: 2.5, fps: null, elapsed_ms: 24000, completed_at: 5000 },
+        ]);
+        const metrics = loadJobMetrics(10);
+        expect(mAll).toHaveBeenCalledWith(10);
+        expect(metrics.map(m => m.jobId)).toEqual(['1', '2']);
+        expect(metrics[0]).toEqual({
+            jobId: '1', kind: 'burn', inputDuration: 60, fileSize: undefined, codec: 'libx264', preset: undefined,
+            resolution: undefined, hwaccel: undefined, speed: 2.5, fps: undefined, elapsedMs: 24000, completedAt: 5000,
+        });
+    });
+
     test('updateStatus executes update', () => {
         updateStatus('1', 'processing', 10);
         expect(mPrepare).toHaveBeenCalledWith(expect.stringContaining('UPDATE queue_items'));
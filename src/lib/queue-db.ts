@@ -8,7 +8,7 @@
 import Database from 'better-sqlite3';
 import path from 'path';
 import { getStagingDir, ensureStagingStructure } from './storage-config';
-import { QueueItem, QueueItemStatus } from '@/types/queue';
+import { QueueItem, QueueItemStatus, QueuePriority, QueueJobMetrics, QueueJobKind } from '@/types/queue';
 
 let db: Database.Database | null = null;
 
@@ -28,9 +28,37 @@ interface QueueItemRow {
   retry_count: number | null;
   result_video_path: string | null;
   result_srt_path: string | null;
+  result_data: string | null;
+  priority: number | null;
+  queue_position: number | null;
   metadata: string | null;
 }
 
+/** Row shape of the `job_metrics` table. */
+interface JobMetricsRow {
+  job_id: string;
+  kind: string;
+  input_duration: number | null;
+  file_size: number | null;
+  codec: string | null;
+  preset: string | null;
+  resolution: string | null;
+  hwaccel: string | null;
+  speed: number | null;
+  fps: number | null;
+  elapsed_ms: number;
+  completed_at: number;
+}
+
+/** Result fields that don't have their own column (transcription output). */
+type QueueResultData = Pick<NonNullable<QueueItem['result']>, 'subtitles' | 'detectedLanguage' | 'provenance'>;
+
+function toResultData(result: QueueItem['result']): string | null {
+  if (!result?.subtitles) return null;
+  const { subtitles, detectedLanguage, provenance } = result;
+  return JSON.stringify({ subtitles, detectedLanguage, provenance } satisfies QueueResultData);
+}
+
 /** Maps a raw DB row to a {@link QueueItem}. */
 function rowToQueueItem(row: QueueItemRow): QueueItem {
   return {
@@ -48,8 +76,11 @@ function rowToQueueItem(row: QueueItemRow): QueueItem {
     error: row.error || undefined,
     failureReason: (row.failure_reason as QueueItem['failureReason']) || undefined,
     retryCount: row.retry_count || undefined,
-    result: row.result_video_path ? {
-      videoPath: row.result_video_path,
+    priority: (row.priority as QueuePriority) || undefined,
+    position: row.queue_position ?? undefined,
+    result: row.result_video_path || row.result_data ? {
+      ...(row.result_data ? JSON.parse(row.result_data) as QueueResultData : {}),
+      videoPath: row.result_video_path ?? undefined,
       srtPath: row.result_srt_path ?? undefined,
     } : undefined,
     metadata: row.metadata ? JSON.parse(row.metadata) : undefined,
@@ -99,7 +130,40 @@ function getDb(): Database.Database {
       key TEXT PRIMARY KEY,
       value TEXT
     );
+    
+    CREATE TABLE IF NOT EXISTS job_metrics (
+      job_id TEXT PRIMARY KEY,
+      kind TEXT NOT NULL,
+      input_duration REAL,
+      file_size INTEGER,
+      codec TEXT,
+      preset TEXT,
+      resolution TEXT,
+      hwaccel TEXT,
+      speed REAL,
+      fps REAL,
+      elapsed_ms INTEGER NOT NULL,
+      completed_at INTEGER NOT NULL
+    );
+    
+    CREATE INDEX IF NOT EXISTS idx_job_metrics_completed ON job_metrics(completed_at);
   `);
+
+  // Added for transcription jobs; databases created before it need the column
+  try {
+    db.exec(`ALTER TABLE queue_items ADD COLUMN result_data TEXT`);
+  } catch {
+    // Column already exists
+  }
+
+  // Added for scheduling; rows from before it run at normal priority in creation order
+  for (const column of ['priority INTEGER NOT NULL DEFAULT 0', 'queue_position REAL']) {
+    try {
+      db.exec(`ALTER TABLE queue_items ADD COLUMN ${column}`);
+    } catch {
+      // Column already exists
+    }
+  }
   
 
   return db;
@@ -115,11 +179,13 @@ export function saveItem(item: QueueItem): void {
     INSERT OR REPLACE INTO queue_items (
       id, status, progress, file_name, file_size, file_type,
       created_at, started_at, completed_at, error, failure_reason,
-      retry_count, result_video_path, result_srt_path, metadata
+      retry_count, result_video_path, result_srt_path, result_data,
+      priority, queue_position, metadata
     ) VALUES (
       @id, @status, @progress, @fileName, @fileSize, @fileType,
       @createdAt, @startedAt, @completedAt, @error, @failureReason,
-      @retryCount, @resultVideoPath, @resultSrtPath, @metadata
+      @retryCount, @resultVideoPath, @resultSrtPath, @resultData,
+      @priority, @position, @metadata
     )
   `);
   
@@ -138,6 +204,9 @@ export function saveItem(item: QueueItem): void {
     retryCount: item.retryCount || 0,
     resultVideoPath: item.result?.videoPath || null,
     resultSrtPath: item.result?.srtPath || null,
+    resultData: toResultData(item.result),
+    priority: item.priority ?? 0,
+    position: item.position ?? null,
     metadata: item.metadata ? JSON.stringify(item.metadata) : null,
   });
 }
@@ -294,6 +363,60 @@ export function getItem(id: string): QueueItem | null {
   return rowToQueueItem(row);
 }
 
+/**
+ * Record the metrics of a finished job (kept when the job itself is cleared)
+ */
+export function saveJobMetrics(metrics: QueueJobMetrics): void {
+  const database = getDb();
+  database.prepare(`
+    INSERT OR REPLACE INTO job_metrics (
+      job_id, kind, input_duration, file_size, codec, preset, resolution,
+      hwaccel, speed, fps, elapsed_ms, completed_at
+    ) VALUES (
+      @jobId, @kind, @inputDuration, @fileSize, @codec, @preset, @resolution,
+      @hwaccel, @speed, @fps, @elapsedMs, @completedAt
+    )
+  `).run({
+    jobId: metrics.jobId,
+    kind: metrics.kind,
+    inputDuration: metrics.inputDuration ?? null,
+    fileSize: metrics.fileSize ?? null,
+    codec: metrics.codec ?? null,
+    preset: metrics.preset ?? null,
+    resolution: metrics.resolution ?? null,
+    hwaccel: metrics.hwaccel ?? null,
+    speed: metrics.speed ?? null,
+    fps: metrics.fps ?? null,
+    elapsedMs: Math.round(metrics.elapsedMs),
+    completedAt: metrics.completedAt,
+  });
+}
+
+/**
+ * Load the most recent job metrics, oldest first
+ */
+export function loadJobMetrics(limit: number = 500): QueueJobMetrics[] {
+  const database = getDb();
+  const rows = database.prepare(`
+    SELECT * FROM job_metrics ORDER BY completed_at DESC LIMIT ?
+  `).all(limit) as JobMetricsRow[];
+
+  return rows.reverse().map(row => ({
+    jobId: row.job_id,
+    kind: row.kind as QueueJobKind,
+    inputDuration: row.input_duration ?? undefined,
+    fileSize: row.file_size ?? undefined,
+    codec: row.codec ?? undefined,
+    preset: row.preset ?? undefined,
+    resolution: row.resolution ?? undefined,
+    hwaccel: row.hwaccel ?? undefined,
+    speed: row.speed ?? undefined,
+    fps: row.fps ?? undefined,
+    elapsedMs: row.elapsed_ms,
+    completedAt: row.completed_at,
+  }));
+}
+
 /**
  * Close the database connection
  */
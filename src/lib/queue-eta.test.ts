@@ -0,0 +1,182 @@
+import {
+  getJobKind,
+  describeJob,
+  createDurationModel,
+  estimateRemaining,
+  estimateQueue,
+  summarizeThroughput,
+  formatEta,
+} from './queue-eta';
+import { QueueItem, QueueConfig, QueueJobMetrics } from '@/types/queue';
+import { FFmpegConfig } from '@/types/subtitle';
+
+const ffmpegConfig: FFmpegConfig = { hwaccel: 'none', preset: 'veryfast', crf: 23, resolution: 'original', codec: 'libx264' };
+
+const exportJob = (id: string, inputDuration?: number, overrides: Partial<QueueItem> = {}): QueueItem => ({
+  id,
+  file: { name: `${id}.mp4`, size: 0 },
+  status: 'pending',
+  progress: 0,
+  createdAt: 1000,
+  metadata: { outputPath: `/exports/${id}.mp4`, inputDuration, ffmpegConfig },
+  ...overrides,
+});
+
+const transcription = (id: string, size: number): QueueItem => ({
+  id,
+  file: { name: `${id}.mp4`, size },
+  status: 'pending',
+  progress: 0,
+  createdAt: 1000,
+  metadata: { type: 'transcribe', videoPath: `/media/${id}.mp4` },
+});
+
+const metric = (overrides: Partial<QueueJobMetrics>): QueueJobMetrics => ({
+  jobId: 'done',
+  kind: 'burn',
+  codec: 'libx264',
+  preset: 'veryfast',
+  resolution: 'original',
+  hwaccel: 'none',
+  elapsedMs: 10000,
+  completedAt: 1000,
+  ...overrides,
+});
+
+const config: QueueConfig = { stagingDir: '', maxConcurrent: 3, concurrency: { ai: 2, encode: 1 }, autoStart: false };
+
+describe('queue-eta', () => {
+  it('tells job kinds apart', () => {
+    expect(getJobKind(exportJob('a'))).toBe('burn');
+    expect(getJobKind(exportJob('a', 10, { metadata: { exportMode: 'mux' } }))).toBe('mux');
+    expect(getJobKind(exportJob('a', 10, { metadata: { type: 'multi-export' } }))).toBe('multi-export');
+    expect(getJobKind(transcription('t', 1))).toBe('transcribe');
+  });
+
+  it('counts only the sample of a sample export', () => {
+    const sample = exportJob('s', 600, { metadata: { outputPath: '/out.mp4', inputDuration: 600, sampleDuration: 10 } });
+    expect(describeJob(sample).inputDuration).toBe(10);
+  });
+
+  describe('createDurationModel', () => {
+    it('scales the median rate of similar jobs by the amount of media', () => {
+      // 2x and 4x realtime; the median is 3x
+      const model = createDurationModel([
+        metric({ inputDuration: 20, elapsedMs: 10000 }),
+        metric({ inputDuration: 40, elapsedMs: 10000 }),
+      ]);
+      expect(model.predict(exportJob('a', 90))).toBeCloseTo(30000);
+    });
+
+    it('prefers jobs with the same encoder settings', () => {
+      const model = createDurationModel([
+        metric({ inputDuration: 10, elapsedMs: 10000, preset: 'veryfast' }),
+        metric({ inputDuration: 10, elapsedMs: 100000, preset: 'veryslow' }),
+      ]);
+      expect(model.predict(exportJob('a', 10))).toBeCloseTo(10000);
+    });
+
+    it('falls back to looser matches and then to run times', () => {
+      const model = createDurationModel([metric({ inputDuration: 10, elapsedMs: 5000, codec: 'libx265' })]);
+      expect(model.predict(exportJob('a', 20))).toBeCloseTo(10000);
+
+      const untimed = createDurationModel([metric({ elapsedMs: 7000 })]);
+      expect(untimed.predict(exportJob('a'))).toBe(7000);
+    });
+
+    it('predicts transcriptions from file size', () => {
+      const model = createDurationModel([metric({ kind: 'transcribe', fileSize: 1000, elapsedMs: 2000, codec: undefined, preset: undefined, resolution: undefined, hwaccel: undefined })]);
+      expect(model.predict(transcription('t', 3000))).toBeCloseTo(6000);
+    });
+
+    it('has no prediction without history of the kind', () => {
+      expect(createDurationModel([metric({ kind: 'mux' })]).predict(exportJob('a', 10))).toBeNull();
+    });
+  });
+
+  describe('estimateRemaining', () => {
+    const model = createDurationModel([metric({ inputDuration: 10, elapsedMs: 10000 })]);
+
+    it('subtracts elapsed time from the prediction early on', () => {
+      const running = exportJob('a', 10, { status: 'processing', startedAt: 0, progress: 1 });
+      expect(estimateRemaining(running, model, 4000)).toBeCloseTo(6000);
+    });
+
+    it('leans on the job\'s own pace as it progresses', () => {
+      // History says 10s total (2s left); the job's pace says 8s left
+      const running = exportJob('a', 10, { status: 'processing', startedAt: 0, progress: 50 });
+      expect(estimateRemaining(running, model, 8000)).toBeCloseTo(0.5 * 8000 + 0.5 * 2000);
+    });
+
+    it('uses the pace alone without history', () => {
+      const running = exportJob('a', 10, { status: 'processing', startedAt: 0, progress: 25 });
+      expect(estimateRemaining(running, createDurationModel([]), 3000)).toBeCloseTo(9000);
+    });
+  });
+
+  describe('estimateQueue', () => {
+    const model = createDurationModel([
+      metric({ inputDuration: 10, elapsedMs: 10000 }),
+      metric({ kind: 'transcribe', fileSize: 100, elapsedMs: 5000, codec: undefined, preset: undefined, resolution: undefined, hwaccel: undefined }),
+    ]);
+
+    it('queues encodes behind each other but runs transcriptions alongside', () => {
+      const items = [
+        exportJob('e1', 10, { createdAt: 1 }),
+        exportJob('e2', 20, { createdAt: 2 }),
+        transcription('t1', 100),
+      ];
+      const { items: estimates, totalMs } = estimateQueue(items, config, model, 0);
+
+      expect(estimates).toEqual({ e1: 10000, e2: 30000, t1: 5000 });
+      expect(totalMs).toBe(30000);
+    });
+
+    it('starts waiting jobs when running ones free their slot', () => {
+      const items = [
+        exportJob('running', 10, { status: 'processing', startedAt: 0, progress: 0 }),
+        exportJob('next', 10),
+      ];
+      const { items: estimates } = estimateQueue(items, config, model, 4000);
+      expect(estimates).toEqual({ running: 6000, next: 16000 });
+    });
+
+    it('has no total when a job in the queue can\'t be predicted', () => {
+      const items = [exportJob('e1', 10), exportJob('m', 10, { metadata: { exportMode: 'mux', outputPath: '/m.mkv' } })];
+      const { items: estimates, totalMs } = estimateQueue(items, config, model, 0);
+      expect(estimates.e1).toBe(10000);
+      expect(estimates.m).toBeUndefined();
+      expect(totalMs).toBeNull();
+    });
+
+    it('is zero for an idle queue', () => {
+      expect(estimateQueue([exportJob('done', 10, { status: 'completed' })], config, model, 0)).toEqual({ items: {}, totalMs: 0 });
+    });
+  });
+
+  it('summarizes throughput per kind', () => {
+    const stats = summarizeThroughput([
+      metric({ inputDuration: 30, elapsedMs: 10000, fps: 40, completedAt: 1 }),
+      metric({ inputDuration: 10, elapsedMs: 10000, fps: 60, completedAt: 2 }),
+      metric({ kind: 'transcribe', elapsedMs: 5000, completedAt: 3 }),
+    ]);
+
+    expect(stats.map(s => s.kind)).toEqual(['transcribe', 'burn']);
+    expect(stats[1]).toEqual({
+      kind: 'burn',
+      jobs: 2,
+      totalElapsedMs: 20000,
+      mediaSeconds: 40,
+      averageSpeed: 2,
+      averageFps: 50,
+      lastCompletedAt: 2,
+    });
+    expect(stats[0].averageSpeed).toBeUndefined();
+  });
+
+  it('formats ETAs', () => {
+    expect(formatEta(45000)).toBe('45s');
+    expect(formatEta(185000)).toBe('3m 5s');
+    expect(formatEta(3720000)).toBe('1h 2m');
+  });
+});
@@ -0,0 +1,193 @@
+/**
+ * Queue ETAs
+ *
+ * Predicts how long a job takes from the recorded metrics of finished ones
+ * (see `QueueJobMetrics`), then replays the scheduler over the waiting jobs
+ * to turn those durations into finish times. Pure, so the queue UI can use
+ * the formatting helpers too.
+ */
+
+import {
+  QueueItem,
+  QueueConfig,
+  QueueJobKind,
+  QueueJobMetrics,
+  QueueThroughputStats,
+  QueueEstimates,
+} from '@/types/queue';
+import { selectJobsToStart } from './queue-scheduling';
+
+/** Below this much progress a running job's own pace is too noisy to extrapolate. */
+const MIN_PROGRESS_FOR_PACE = 5;
+
+type JobFeatures = Pick<QueueJobMetrics, 'jobId' | 'kind' | 'inputDuration' | 'fileSize' | 'codec' | 'preset' | 'resolution' | 'hwaccel'>;
+
+/**
+ * History is matched on the most specific of these that has data: the same
+ * encoder settings first, then looser matches down to any job of the kind.
+ */
+const SIMILARITY: (keyof JobFeatures)[][] = [
+  ['kind', 'codec', 'preset', 'resolution', 'hwaccel'],
+  ['kind', 'codec', 'preset', 'hwaccel'],
+  ['kind', 'hwaccel'],
+  ['kind'],
+];
+
+export function getJobKind(item: QueueItem): QueueJobKind {
+  if (item.metadata?.type === 'transcribe') return 'transcribe';
+  if (item.metadata?.type === 'multi-export') return 'multi-export';
+  return item.metadata?.exportMode === 'mux' ? 'mux' : 'burn';
+}
+
+/** The properties of a job that its metrics are recorded and matched by. */
+export function describeJob(item: QueueItem): JobFeatures {
+  const kind = getJobKind(item);
+  const { inputDuration, sampleDuration, ffmpegConfig } = item.metadata || {};
+  // Muxing copies streams, so encoder settings don't affect its speed
+  const encodes = kind === 'burn' || kind === 'multi-export';
+  return {
+    jobId: item.id,
+    kind,
+    inputDuration: sampleDuration ? Math.min(sampleDuration, inputDuration ?? sampleDuration) : inputDuration,
+    fileSize: item.file.size || undefined,
+    ...(encodes && ffmpegConfig && {
+      codec: ffmpegConfig.codec,
+      preset: ffmpegConfig.preset,
+      resolution: ffmpegConfig.resolution,
+      hwaccel: ffmpegConfig.hwaccel,
+    }),
+  };
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+export interface DurationModel {
+  /** Expected run time of a job in ms, or null with no similar history. */
+  predict(item: QueueItem): number | null;
+}
+
+/**
+ * Build a model from past metrics. Jobs with a known amount of media are
+ * predicted from the median rate (media seconds, or bytes, per ms) of
+ * similar jobs; otherwise from their median run time.
+ */
+export function createDurationModel(history: QueueJobMetrics[]): DurationModel {
+  const similarTo = (job: JobFeatures) =>
+    SIMILARITY.map(keys => history.filter(m => m.elapsedMs > 0 && keys.every(key => m[key] === job[key])));
+
+  return {
+    predict(item) {
+      const job = describeJob(item);
+      const groups = similarTo(job);
+
+      for (const [size, field] of [[job.inputDuration, 'inputDuration'], [job.fileSize, 'fileSize']] as const) {
+        if (!size) continue;
+        for (const group of groups) {
+          const rates = group.filter(m => m[field]).map(m => m[field]! / m.elapsedMs);
+          if (rates.length > 0) return size / median(rates);
+        }
+      }
+
+      const group = groups.find(g => g.length > 0);
+      return group ? median(group.map(m => m.elapsedMs)) : null;
+    },
+  };
+}
+
+/**
+ * Time left for a running job. History decides at first; as the job
+ * progresses its own pace takes over.
+ */
+export function estimateRemaining(item: QueueItem, model: DurationModel, now: number): number | null {
+  const elapsed = Math.max(now - (item.startedAt ?? now), 0);
+  const predicted = model.predict(item);
+  const fromHistory = predicted === null ? null : Math.max(predicted - elapsed, 0);
+
+  if (item.progress < MIN_PROGRESS_FOR_PACE || elapsed === 0) return fromHistory;
+  const fromPace = elapsed * (100 - item.progress) / item.progress;
+  if (fromHistory === null) return fromPace;
+  const weight = item.progress / 100;
+  return weight * fromPace + (1 - weight) * fromHistory;
+}
+
+/**
+ * ETAs for every unfinished job, found by replaying the scheduler (resource
+ * classes, priorities, manual order) with predicted durations. The total is
+ * null when any job in the way can't be predicted, rather than a guess that
+ * is silently too short.
+ */
+export function estimateQueue(items: QueueItem[], config: QueueConfig, model: DurationModel, now: number): QueueEstimates {
+  const estimates: Record<string, number> = {};
+  let complete = true;
+
+  const active = items.filter(item => item.status === 'processing').map(item => {
+    const remaining = estimateRemaining(item, model, now);
+    if (remaining === null) complete = false;
+    else estimates[item.id] = remaining;
+    return { item, finish: remaining ?? 0 };
+  });
+  const finishes = active.map(job => job.finish);
+
+  let pending = items.filter(item => item.status === 'pending');
+  let time = 0;
+  while (pending.length > 0) {
+    const starting = selectJobsToStart(pending, active.map(job => job.item), config);
+    if (starting.length === 0) {
+      if (active.length === 0) break; // A class without slots never runs
+      // Skip ahead to the next job finishing
+      active.sort((a, b) => a.finish - b.finish);
+      time = Math.max(time, active.shift()!.finish);
+      continue;
+    }
+    for (const item of starting) {
+      const duration = model.predict(item);
+      const finish = time + (duration ?? 0);
+      if (duration === null) complete = false;
+      else estimates[item.id] = finish;
+      active.push({ item, finish });
+      finishes.push(finish);
+    }
+    pending = pending.filter(item => !starting.includes(item));
+  }
+
+  const anything = items.some(item => item.status === 'pending' || item.status === 'processing');
+  return {
+    items: estimates,
+    totalMs: !anything ? 0 : complete && pending.length === 0 ? Math.max(...finishes) : null,
+  };
+}
+
+/** Per-kind throughput of finished jobs, most recently active kind first. */
+export function summarizeThroughput(history: QueueJobMetrics[]): QueueThroughputStats[] {
+  const byKind = new Map<QueueJobKind, QueueJobMetrics[]>();
+  history.forEach(m => byKind.set(m.kind, [...(byKind.get(m.kind) || []), m]));
+
+  return Array.from(byKind, ([kind, jobs]) => {
+    const timed = jobs.filter(m => m.inputDuration && m.elapsedMs > 0);
+    const mediaSeconds = timed.reduce((sum, m) => sum + m.inputDuration!, 0);
+    const timedMs = timed.reduce((sum, m) => sum + m.elapsedMs, 0);
+    const withFps = jobs.filter(m => m.fps);
+    return {
+      kind,
+      jobs: jobs.length,
+      totalElapsedMs: jobs.reduce((sum, m) => sum + m.elapsedMs, 0),
+      mediaSeconds,
+      averageSpeed: timedMs > 0 ? mediaSeconds / (timedMs / 1000) : undefined,
+      averageFps: withFps.length > 0 ? withFps.reduce((sum, m) => sum + m.fps!, 0) / withFps.length : undefined,
+      lastCompletedAt: Math.max(...jobs.map(m => m.completedAt)),
+    };
+  }).sort((a, b) => b.lastCompletedAt - a.lastCompletedAt);
+}
+
+/** "45s", "3m 5s", "1h 2m" */
+export function formatEta(ms: number): string {
+  const seconds = Math.max(Math.round(ms / 1000), 0);
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ${seconds % 60}s`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
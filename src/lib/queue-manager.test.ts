@@ -26,6 +26,8 @@ jest.mock('./queue-db', () => ({
   getItemsByStatus: jest.fn().mockReturnValue([]),
   clearCompleted: jest.fn().mockReturnValue(0),
   getItem: jest.fn().mockReturnValue(null),
+  loadJobMetrics: jest.fn().mockReturnValue([]),
+  saveJobMetrics: jest.fn(),
 }));
 
 jest.mock('./job-processor', () => ({
@@ -47,10 +49,39 @@ jest.mock('fs', () => ({
 jest.mock('./storage-config', () => ({
   getStagingDir: jest.fn().mockReturnValue('/tmp/subtitlegem'),
   ensureStagingStructure: jest.fn(),
+  isPathSafe: jest.fn().mockReturnValue(true),
+}));
+
+// The AI side of 'transcribe' jobs, for the tests that run the real processor
+jest.mock('./chunked-transcription', () => ({
+  getChunkingDuration: jest.fn().mockResolvedValue(600),
+  transcribeInChunks: jest.fn(),
+  offsetChunkSubtitles: jest.fn((subtitles) => subtitles),
+}));
+
+jest.mock('./ai-provider', () => ({
+  processWithFallback: jest.fn(),
+  chainUsesGemini: jest.fn().mockReturnValue(false),
+}));
+
+jest.mock('./gemini', () => ({
+  uploadToGemini: jest.fn(),
+  deleteFileFromGemini: jest.fn(),
+}));
+
+jest.mock('./global-settings-store', () => ({
+  getGlobalSettings: jest.fn(() => jest.requireActual('@/types/subtitle').DEFAULT_GLOBAL_SETTINGS),
+}));
+
+jest.mock('./draft-store', () => ({
+  attachTranscription: jest.fn().mockReturnValue(true),
 }));
 
 import { queueManager } from './queue-manager';
 import * as queueDb from './queue-db';
+import { processJob } from './job-processor';
+import { transcribeInChunks } from './chunked-transcription';
+import { attachTranscription } from './draft-store';
 
 describe('queueManager', () => {
   beforeEach(async () => {
@@ -363,6 +394,39 @@ describe('queueManager', () => {
     });
   });
 
+  describe('waitForItem', () => {
+    it('reports progress and resolves with the finished item', async () => {
+      const item = queueManager.addItem({ file: { name: 'test.mp4', size: 1000 }, model: 'test' });
+      const onUpdate = jest.fn();
+
+      const finished = queueManager.waitForItem(item.id, onUpdate);
+      queueManager.updateItem(item.id, { status: 'processing', progress: 40 });
+      queueManager.completeItem(item.id, { subtitles: [] });
+
+      await expect(finished).resolves.toMatchObject({ id: item.id, status: 'completed' });
+      expect(onUpdate).toHaveBeenCalledWith(expect.objectContaining({ id: item.id }));
+      expect(queueManager.listenerCount('itemUpdated')).toBe(0);
+    });
+
+    it('resolves with undefined when the item is removed', async () => {
+      const item = queueManager.addItem({ file: { name: 'test.mp4', size: 1000 }, model: 'test' });
+      const removed = queueManager.waitForItem(item.id);
+      queueManager.removeItem(item.id);
+      await expect(removed).resolves.toBeUndefined();
+    });
+
+    it('stops waiting, but leaves the job alone, when aborted', async () => {
+      const item = queueManager.addItem({ file: { name: 'test.mp4', size: 1000 }, model: 'test' });
+      const controller = new AbortController();
+      const waiting = queueManager.waitForItem(item.id, undefined, controller.signal);
+      controller.abort(new Error('Client went away'));
+
+      await expect(waiting).rejects.toThrow('Client went away');
+      expect(queueManager.getItem(item.id)?.status).toBe('pending');
+      expect(queueManager.listenerCount('itemRemoved')).toBe(0);
+    });
+  });
+
   describe('failItem', () => {
     it('should mark item as failed with error', () => {
       const item = queueManager.addItem({
@@ -410,6 +474,230 @@ describe('queueManager', () => {
     });
   });
 
+  // ============================================================================
+  // Cancellation Tests
+  // ============================================================================
+  describe('cancellation', () => {
+    let signal: AbortSignal | undefined;
+
+    beforeEach(() => {
+      // A job that runs until its signal aborts, like an FFmpeg encode
+      (processJob as jest.Mock).mockImplementationOnce((_item, _onProgress, jobSignal: AbortSignal) => {
+        signal = jobSignal;
+        return new Promise((_, reject) => jobSignal.addEventListener('abort', () => reject(jobSignal.reason)));
+      });
+    });
+
+    const startJob = async () => {
+      const item = queueManager.addItem({ file: { name: 'test.mp4', size: 100 }, model: 'test' });
+      await queueManager.start();
+      expect(queueManager.getItem(item.id)?.status).toBe('processing');
+      return item;
+    };
+
+    it('aborts the running job and records the cancellation', async () => {
+      const item = await startJob();
+
+      expect(queueManager.cancelCurrent()).toBe(true);
+      expect(signal?.aborted).toBe(true);
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      // The job's rejection doesn't overwrite the cancellation
+      expect(queueManager.getItem(item.id)).toMatchObject({
+        status: 'failed',
+        failureReason: 'user_cancelled',
+        error: 'Cancelled by user',
+      });
+      expect(queueManager.isProcessing()).toBe(false);
+    });
+
+    it('aborts the job when a processing item is force-removed', async () => {
+      const item = await startJob();
+
+      expect(queueManager.removeItem(item.id)).toBe(false);
+      expect(queueManager.removeItem(item.id, true)).toBe(true);
+      expect(signal?.aborted).toBe(true);
+      expect(queueManager.getItem(item.id)).toBeUndefined();
+    });
+
+    describe('transcribe jobs', () => {
+      beforeEach(() => {
+        (processJob as jest.Mock).mockReset();
+        (processJob as jest.Mock).mockImplementation(jest.requireActual('./job-processor').processJob);
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+        jest.spyOn(console, 'error').mockImplementation(() => {});
+      });
+
+      afterEach(() => {
+        jest.restoreAllMocks();
+      });
+
+      const startTranscription = async () => {
+        const item = queueManager.addItem({
+          file: { name: 'talk.mp4', size: 100 },
+          model: 'test',
+          metadata: { type: 'transcribe', videoPath: '/tmp/subtitlegem/videos/talk.mp4', draftId: 'draft-1', clipId: 'clip-1' },
+        });
+        await queueManager.start();
+        await new Promise(resolve => setTimeout(resolve, 0));
+        expect(transcribeInChunks).toHaveBeenCalled();
+        return item;
+      };
+
+      it('cancels the model requests and leaves the draft alone', async () => {
+        (transcribeInChunks as jest.Mock).mockImplementation((_path, params) =>
+          new Promise((_, reject) => params.signal.addEventListener('abort', () => reject(params.signal.reason)))
+        );
+        const item = await startTranscription();
+
+        expect(queueManager.cancelCurrent()).toBe(true);
+        await new Promise(resolve => setTimeout(resolve, 0));
+
+        expect((transcribeInChunks as jest.Mock).mock.calls[0][1].signal.aborted).toBe(true);
+        expect(attachTranscription).not.toHaveBeenCalled();
+        expect(queueManager.getItem(item.id)).toMatchObject({ status: 'failed', failureReason: 'user_cancelled' });
+      });
+
+      it('discards a result that arrives after the cancel', async () => {
+        let finish: () => void = () => {};
+        (transcribeInChunks as jest.Mock).mockImplementation(() => new Promise(resolve => {
+          finish = () => resolve({ subtitles: [{ id: 's1', startTime: 0, endTime: 1, text: 'Hi' }] });
+        }));
+        const item = await startTranscription();
+
+        queueManager.cancelCurrent();
+        finish(); // The provider ignored the abort
+        await new Promise(resolve => setTimeout(resolve, 0));
+
+        expect(attachTranscription).not.toHaveBeenCalled();
+        expect(queueManager.getItem(item.id)).toMatchObject({ status: 'failed', failureReason: 'user_cancelled' });
+        expect(queueManager.getItem(item.id)?.result).toBeUndefined();
+      });
+    });
+  });
+
+  // ============================================================================
+  // Scheduling Tests
+  // ============================================================================
+  describe('scheduling', () => {
+    beforeEach(() => {
+      queueManager.pause();
+      // Jobs run until cancelled so slots stay taken
+      (processJob as jest.Mock).mockImplementation((_item, _onProgress, signal: AbortSignal) =>
+        new Promise((_, reject) => signal.addEventListener('abort', () => reject(signal.reason))));
+    });
+
+    afterEach(() => {
+      queueManager.pause(); // Otherwise cancelling starts the next waiting job
+      queueManager.cancelCurrent();
+      (processJob as jest.Mock).mockResolvedValue({ videoPath: '/output/video.mp4', srtPath: '/output/subs.srt' });
+    });
+
+    const addEncode = (name: string) =>
+      queueManager.addItem({ file: { name, size: 100 }, metadata: { outputPath: `/exports/${name}` } });
+    const addTranscription = (name: string) =>
+      queueManager.addItem({ file: { name, size: 100 }, model: 'test', metadata: { type: 'transcribe', videoPath: `/media/${name}` } });
+    const statusOf = (id: string) => queueManager.getItem(id)?.status;
+
+    it('runs AI jobs alongside an encode while encodes wait for their own slot', async () => {
+      const first = addEncode('a.mp4');
+      const second = addEncode('b.mp4');
+      const transcription = addTranscription('c.mp4');
+
+      await queueManager.start();
+
+      expect(statusOf(first.id)).toBe('processing');
+      expect(statusOf(second.id)).toBe('pending');
+      expect(statusOf(transcription.id)).toBe('processing');
+
+      // Freeing the encode slot starts the next encode; the AI job is untouched
+      expect(queueManager.cancelItem(first.id)).toBe(true);
+      expect(statusOf(second.id)).toBe('processing');
+      expect(statusOf(transcription.id)).toBe('processing');
+      expect(queueManager.cancelItem(first.id)).toBe(false);
+    });
+
+    it('starts a job moved to the front first', async () => {
+      addEncode('a.mp4');
+      addEncode('b.mp4');
+      const last = addEncode('c.mp4');
+
+      expect(queueManager.moveItem(last.id, 0)).toBe(true);
+      expect(queueDb.saveItem).toHaveBeenCalledWith(expect.objectContaining({ id: last.id, position: 0 }));
+
+      await queueManager.start();
+      expect(statusOf(last.id)).toBe('processing');
+      expect(queueManager.moveItem(last.id, 2)).toBe(false);
+    });
+
+    it('starts high-priority jobs first and only reprioritizes waiting jobs', async () => {
+      addEncode('a.mp4');
+      const urgent = addEncode('b.mp4');
+
+      expect(queueManager.setPriority(urgent.id, 1)).toBe(true);
+      await queueManager.start();
+
+      expect(statusOf(urgent.id)).toBe('processing');
+      expect(queueManager.setPriority(urgent.id, -1)).toBe(false);
+    });
+  });
+
+  // ============================================================================
+  // Metrics & ETA Tests
+  // ============================================================================
+  describe('metrics and estimates', () => {
+    beforeEach(() => queueManager.pause());
+
+    const ffmpegConfig = { hwaccel: 'none', preset: 'veryfast', crf: 23, resolution: 'original', codec: 'libx264' } as const;
+    const addExport = (inputDuration: number, resolution = 'original') => queueManager.addItem({
+      file: { name: 'export.mp4', size: 100 },
+      metadata: { outputPath: '/exports/out.mp4', inputDuration, ffmpegConfig: { ...ffmpegConfig, resolution } },
+    });
+
+    it('records FFmpeg speed and timing when a job completes', async () => {
+      (processJob as jest.Mock).mockImplementationOnce(async (_item, onProgress) => {
+        onProgress(50, { timemark: '', speed: 2, fps: 40, duration: 60 });
+        onProgress(100, { timemark: '', speed: 4, fps: 60, duration: 60 });
+        return { videoPath: '/exports/out.mp4' };
+      });
+      const item = addExport(60);
+
+      await queueManager.start();
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      expect(queueManager.getItem(item.id)?.status).toBe('completed');
+      expect(queueDb.saveJobMetrics).toHaveBeenCalledWith(expect.objectContaining({
+        jobId: item.id,
+        kind: 'burn',
+        inputDuration: 60,
+        codec: 'libx264',
+        preset: 'veryfast',
+        speed: 3,
+        fps: 50,
+      }));
+      expect(queueManager.getThroughputStats()).toEqual(expect.arrayContaining([
+        expect.objectContaining({ kind: 'burn', averageFps: expect.any(Number) }),
+      ]));
+    });
+
+    it('predicts waiting jobs from finished ones', () => {
+      // A finished 60s export that took 30s runs at 2x realtime. A resolution
+      // no other test uses keeps the model to this one sample.
+      const done = addExport(60, '1280x720');
+      queueManager.updateItem(done.id, { status: 'processing', startedAt: 1000 });
+      jest.spyOn(Date, 'now').mockReturnValue(31000);
+      queueManager.completeItem(done.id, { videoPath: '/exports/out.mp4' });
+      jest.restoreAllMocks();
+
+      const waiting = addExport(120, '1280x720');
+      const { items, totalMs } = queueManager.getEstimates();
+
+      expect(items[waiting.id]).toBeCloseTo(60000);
+      expect(totalMs).toBeCloseTo(60000);
+      expect(queueManager.getEstimatedTimeRemaining()).toBeCloseTo(60000);
+    });
+  });
+
   // ============================================================================
   // getConfig Tests
   // ============================================================================
@@ -419,6 +707,7 @@ describe('queueManager', () => {
       
       expect(config).toBeDefined();
       expect(config.maxConcurrent).toBeDefined();
+      expect(config.concurrency).toEqual({ ai: expect.any(Number), encode: expect.any(Number) });
       expect(typeof config.autoStart).toBe('boolean');
     });
   });
@@ -1,5 +1,8 @@
-import { QueueItem, QueueItemStatus, QueueConfig, QueueStats } from '@/types/queue';
-export type { QueueItem, QueueItemStatus, QueueConfig, QueueStats };
+import {
+  QueueItem, QueueItemStatus, QueueConfig, QueueStats, QueuePriority, QUEUE_PRIORITY,
+  QueueJobMetrics, QueueThroughputStats, QueueEstimates,
+} from '@/types/queue';
+export type { QueueItem, QueueItemStatus, QueueConfig, QueueStats, QueuePriority };
 import { v4 as uuidv4 } from 'uuid';
 import * as queueDb from './queue-db';
 import path from 'path';
@@ -8,16 +11,35 @@ import { processJob } from './job-processor';
 import { EventEmitter } from 'events';
 import { secureDelete } from './security';
 import { getMetadataPath } from './metrics-utils';
+import { selectJobsToStart, moveInQueue, compareQueueOrder } from './queue-scheduling';
+import { createDurationModel, describeJob, estimateQueue, summarizeThroughput } from './queue-eta';
+import type { ProgressDetails } from './ffmpeg-utils';
+
+/** How many finished jobs' metrics feed the ETA model. */
+const METRICS_HISTORY_LIMIT = 500;
+
+/** Running averages of what FFmpeg reported for a job. */
+interface LiveStats {
+  speedSum: number;
+  speedCount: number;
+  fpsSum: number;
+  fpsCount: number;
+}
 
 export class QueueManager extends EventEmitter {
   private queue: Map<string, QueueItem> = new Map();
   private processing: Set<string> = new Set();
+  private abortControllers: Map<string, AbortController> = new Map();
+  private liveStats: Map<string, LiveStats> = new Map();
+  private metricsHistory: QueueJobMetrics[] = [];
   private paused: boolean = false;
   private initialized: boolean = false;
   
   private config: QueueConfig = {
     stagingDir: '',
-    maxConcurrent: 1, // Sequential by default
+    maxConcurrent: 3,
+    // Encodes saturate the CPU on their own; AI jobs mostly wait on the network
+    concurrency: { ai: 2, encode: 1 },
     autoStart: false,
   };
 
@@ -64,6 +86,12 @@ export class QueueManager extends EventEmitter {
     } catch (error) {
       console.error('[Queue] Failed to load state from SQLite:', error);
     }
+
+    try {
+      this.metricsHistory = queueDb.loadJobMetrics(METRICS_HISTORY_LIMIT);
+    } catch (error) {
+      console.error('[Queue] Failed to load job metrics:', error);
+    }
   }
 
   /**
@@ -184,6 +212,53 @@ export class QueueManager extends EventEmitter {
     }
   }
 
+  /**
+   * Resolve with an item once it has finished (completed or failed), or with
+   * undefined when it is removed. `onUpdate` sees each change on the way.
+   * Aborting `signal` only stops the wait; the job keeps running.
+   */
+  waitForItem(id: string, onUpdate?: (item: QueueItem) => void, signal?: AbortSignal): Promise<QueueItem | undefined> {
+    return new Promise((resolve, reject) => {
+      const isFinished = (item: QueueItem) => item.status === 'completed' || item.status === 'failed';
+      const current = this.queue.get(id);
+      if (!current || isFinished(current)) {
+        resolve(current);
+        return;
+      }
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+
+      const stop = () => {
+        this.off('itemUpdated', onItemUpdated);
+        this.off('itemRemoved', onItemRemoved);
+        signal?.removeEventListener('abort', onAbort);
+      };
+      const onItemUpdated = (item: QueueItem) => {
+        if (item.id !== id) return;
+        onUpdate?.(item);
+        if (isFinished(item)) {
+          stop();
+          resolve(item);
+        }
+      };
+      const onItemRemoved = (removedId: string) => {
+        if (removedId !== id) return;
+        stop();
+        resolve(undefined);
+      };
+      const onAbort = () => {
+        stop();
+        reject(signal?.reason);
+      };
+
+      this.on('itemUpdated', onItemUpdated);
+      this.on('itemRemoved', onItemRemoved);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
    /**
    * Helper to delete physical files associated with a queue item
    */
@@ -219,6 +294,7 @@ export class QueueManager extends EventEmitter {
     }
     
     if (item?.status === 'processing') {
+      this.abortJob(id); // Kills FFmpeg and removes the partial output
       this.processing.delete(id);
       this.processNext(); // Start next item
     }
@@ -235,26 +311,36 @@ export class QueueManager extends EventEmitter {
   }
 
   /**
-   * Cancel the currently processing item and return it to queue
+   * Cancel every processing item (see cancelItem)
    */
   cancelCurrent(): boolean {
     const processingItems = Array.from(this.processing);
-    
-    if (processingItems.length === 0) {
+    processingItems.forEach(id => this.cancelItem(id));
+    return processingItems.length > 0;
+  }
+
+  /**
+   * Cancel a processing item. Its FFmpeg process is killed and the item is
+   * marked failed (reason 'user_cancelled') so it can be retried.
+   */
+  cancelItem(id: string): boolean {
+    if (!this.processing.has(id)) {
       return false;
     }
     
-    const currentId = processingItems[0];
-    this.updateItem(currentId, {
-      status: 'pending',
-      progress: 0,
-      startedAt: undefined,
-    });
-    
-    this.processing.delete(currentId);
+    this.abortJob(id);
+    this.failItem(id, 'Cancelled by user', false, 'user_cancelled');
     return true;
   }
 
+  /**
+   * Abort a running job; its result (or error) is ignored from then on
+   */
+  private abortJob(id: string): void {
+    this.abortControllers.get(id)?.abort(new Error('Cancelled by user'));
+    this.abortControllers.delete(id);
+  }
+
   /**
    * Retry a failed item (reset to pending)
    */
@@ -344,6 +430,40 @@ export class QueueManager extends EventEmitter {
     return count;
   }
 
+  /**
+   * Move a pending item to `toIndex` in run order (drag-to-reorder)
+   */
+  moveItem(id: string, toIndex: number): boolean {
+    if (this.queue.get(id)?.status !== 'pending') {
+      return false;
+    }
+    
+    moveInQueue(this.getItemsByStatus('pending'), id, toIndex).forEach(({ id: itemId, priority, position }) => {
+      const item = this.queue.get(itemId)!;
+      if (item.priority === priority && item.position === position) return;
+      Object.assign(item, { priority, position });
+      this.persistItem(item);
+      this.emit('itemUpdated', item);
+    });
+    this.emit('update');
+    
+    return true;
+  }
+
+  /**
+   * Change the priority of an item that hasn't started yet
+   */
+  setPriority(id: string, priority: QueuePriority): boolean {
+    const item = this.queue.get(id);
+    
+    if (!item || item.status === 'processing' || item.status === 'completed') {
+      return false;
+    }
+    
+    this.updateItem(id, { priority });
+    return true;
+  }
+
   /**
    * Get queue statistics
    */
@@ -408,13 +528,64 @@ export class QueueManager extends EventEmitter {
    * execute a job using the centralized processor
    */
   private async runJob(item: QueueItem) {
+    const controller = new AbortController();
+    this.abortControllers.set(item.id, controller);
     try {
-      const result = await processJob(item, (progress) => {
+      const result = await processJob(item, (progress, details) => {
+        if (controller.signal.aborted) return;
+        this.recordLiveStats(item, details);
         this.updateProgress(item.id, progress);
-      });
-      this.completeItem(item.id, result);
+      }, controller.signal);
+      if (!controller.signal.aborted) this.completeItem(item.id, result);
+    } catch (error) {
+      if (!controller.signal.aborted) this.failItem(item.id, error instanceof Error ? error.message : String(error));
+    } finally {
+      if (this.abortControllers.get(item.id) === controller) this.abortControllers.delete(item.id);
+      this.liveStats.delete(item.id);
+    }
+  }
+
+  /**
+   * Accumulate FFmpeg's speed and frame rate for the job's metrics
+   */
+  private recordLiveStats(item: QueueItem, details?: ProgressDetails): void {
+    if (!details) return;
+    const stats = this.liveStats.get(item.id) ?? { speedSum: 0, speedCount: 0, fpsSum: 0, fpsCount: 0 };
+    if (details.speed) {
+      stats.speedSum += details.speed;
+      stats.speedCount++;
+    }
+    if (details.fps) {
+      stats.fpsSum += details.fps;
+      stats.fpsCount++;
+    }
+    this.liveStats.set(item.id, stats);
+
+    // Jobs queued without a known length learn it from FFmpeg's probe
+    if (details.duration && item.metadata && !item.metadata.inputDuration) {
+      item.metadata.inputDuration = details.duration;
+    }
+  }
+
+  /**
+   * Store how a finished job went so later ETAs can learn from it
+   */
+  private recordMetrics(item: QueueItem): void {
+    if (!item.startedAt || !item.completedAt) return;
+    const stats = this.liveStats.get(item.id);
+    const metrics: QueueJobMetrics = {
+      ...describeJob(item),
+      speed: stats?.speedCount ? stats.speedSum / stats.speedCount : undefined,
+      fps: stats?.fpsCount ? stats.fpsSum / stats.fpsCount : undefined,
+      elapsedMs: item.completedAt - item.startedAt,
+      completedAt: item.completedAt,
+    };
+
+    this.metricsHistory = [...this.metricsHistory, metrics].slice(-METRICS_HISTORY_LIMIT);
+    try {
+      queueDb.saveJobMetrics(metrics);
     } catch (error) {
-      this.failItem(item.id, error instanceof Error ? error.message : String(error));
+      console.error('[Queue] Failed to persist job metrics:', error);
     }
   }
 
@@ -426,20 +597,11 @@ export class QueueManager extends EventEmitter {
       return;
     }
     
-    // Check if we can process more
-    const canProcessMore = this.processing.size < this.config.maxConcurrent;
-    
-    if (!canProcessMore) {
-      return;
-    }
-    
-    const pendingItems = this.getItemsByStatus('pending');
-    
-    if (pendingItems.length === 0) {
-      return;
-    }
-    
-    const itemsToProcess = pendingItems.slice(0, this.config.maxConcurrent - this.processing.size);
+    // Fill free slots per resource class, highest priority first
+    const running = Array.from(this.processing)
+      .map(id => this.queue.get(id))
+      .filter((item): item is QueueItem => !!item);
+    const itemsToProcess = selectJobsToStart(this.getItemsByStatus('pending'), running, this.config);
     
     itemsToProcess.forEach(item => {
       this.processing.add(item.id);
@@ -466,6 +628,10 @@ export class QueueManager extends EventEmitter {
       completedAt: Date.now(),
     });
     
+    if (item) {
+      this.recordMetrics(item);
+    }
+    
     // Increment lifetimeRenderCount for export jobs
     // Extract draftId from the output path: exports/{draftId}/...
     if (item?.metadata?.outputPath && result?.videoPath) {
@@ -563,15 +729,13 @@ export class QueueManager extends EventEmitter {
     queueDb.incrementRetryCount(id); // Track retry in DB
     
     if (prioritize) {
-      const earliestTime = Math.min(
-        ...Array.from(this.queue.values())
-          .filter(i => i.status === 'pending')
-          .map(i => i.createdAt),
-        Date.now()
-      );
+      const [first] = this.getItemsByStatus('pending')
+        .filter(i => i.id !== id)
+        .sort(compareQueueOrder);
       
       this.updateItem(id, {
-        createdAt: earliestTime - 1, // Ensure it's first
+        priority: Math.max(item.priority ?? QUEUE_PRIORITY.normal, first?.priority ?? QUEUE_PRIORITY.normal) as QueuePriority,
+        position: (first?.position ?? first?.createdAt ?? Date.now()) - 1, // Ensure it's first
       });
     }
     
@@ -600,7 +764,7 @@ export class QueueManager extends EventEmitter {
    * Get queue configuration
    */
   getConfig(): QueueConfig {
-    return { ...this.config };
+    return { ...this.config, concurrency: { ...this.config.concurrency } };
   }
 
   /**
@@ -618,26 +782,24 @@ export class QueueManager extends EventEmitter {
   }
 
   /**
-   * Estimate time remaining for queue
+   * Predicted time left for each unfinished job and for the whole queue
+   */
+  getEstimates(now: number = Date.now()): QueueEstimates {
+    return estimateQueue(this.getAllItems(), this.config, createDurationModel(this.metricsHistory), now);
+  }
+
+  /**
+   * Estimate time remaining for queue (null when it can't be predicted yet)
    */
   getEstimatedTimeRemaining(): number | null {
-    const completedItems = this.getItemsByStatus('completed');
-    
-    if (completedItems.length === 0) {
-      return null;
-    }
-    
-    const avgTime = completedItems.reduce((sum, item) => {
-      const duration = (item.completedAt || 0) - (item.startedAt || 0);
-      return sum + duration;
-    }, 0) / completedItems.length;
-    
-    const pendingCount = this.getItemsByStatus('pending').length;
-    const processingCount = this.processing.size;
-    
-    const estimatedMs = (pendingCount * avgTime) + (processingCount * avgTime * 0.5);
-    
-    return estimatedMs;
+    return this.getEstimates().totalMs;
+  }
+
+  /**
+   * Throughput of finished jobs by kind
+   */
+  getThroughputStats(): QueueThroughputStats[] {
+    return summarizeThroughput(this.metricsHistory);
   }
 }
 
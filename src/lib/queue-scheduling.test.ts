@@ -0,0 +1,95 @@
+import { getResourceClass, compareQueueOrder, selectJobsToStart, moveInQueue } from './queue-scheduling';
+import { QueueItem, QueueConfig, QUEUE_PRIORITY } from '@/types/queue';
+
+const job = (id: string, overrides: Partial<QueueItem> = {}): QueueItem => ({
+  id,
+  file: { name: `${id}.mp4`, size: 1 },
+  status: 'pending',
+  progress: 0,
+  createdAt: 1000,
+  ...overrides,
+});
+
+const transcription = (id: string, overrides: Partial<QueueItem> = {}) =>
+  job(id, { metadata: { type: 'transcribe', videoPath: `/media/${id}.mp4` }, ...overrides });
+
+const config: QueueConfig = {
+  stagingDir: '',
+  maxConcurrent: 3,
+  concurrency: { ai: 2, encode: 1 },
+  autoStart: false,
+};
+
+describe('queue-scheduling', () => {
+  it('classifies transcriptions as AI work and everything else as encodes', () => {
+    expect(getResourceClass(transcription('t'))).toBe('ai');
+    expect(getResourceClass(job('e', { metadata: { outputPath: '/out.mp4' } }))).toBe('encode');
+    expect(getResourceClass(job('multi', { metadata: { type: 'multi-export' } }))).toBe('encode');
+  });
+
+  it('orders by priority, then manual position, then creation time', () => {
+    const items = [
+      job('old', { createdAt: 1 }),
+      job('high', { createdAt: 5, priority: QUEUE_PRIORITY.high }),
+      job('low', { createdAt: 0, priority: QUEUE_PRIORITY.low }),
+      job('moved', { createdAt: 9, position: 0 }),
+    ];
+    expect(items.sort(compareQueueOrder).map(i => i.id)).toEqual(['high', 'moved', 'old', 'low']);
+  });
+
+  describe('selectJobsToStart', () => {
+    it('fills each resource class up to its own limit', () => {
+      const pending = [job('e1', { createdAt: 1 }), job('e2', { createdAt: 2 }), transcription('t1', { createdAt: 3 }), transcription('t2', { createdAt: 4 })];
+      expect(selectJobsToStart(pending, [], config).map(i => i.id)).toEqual(['e1', 't1', 't2']);
+    });
+
+    it('skips a class that is full instead of blocking later jobs', () => {
+      const running = [job('encoding', { status: 'processing' })];
+      const pending = [job('e1', { createdAt: 1 }), transcription('t1', { createdAt: 2 })];
+      expect(selectJobsToStart(pending, running, config).map(i => i.id)).toEqual(['t1']);
+    });
+
+    it('respects the overall cap', () => {
+      const pending = [transcription('t1'), job('e1')];
+      expect(selectJobsToStart(pending, [], { ...config, maxConcurrent: 1 })).toHaveLength(1);
+    });
+
+    it('starts higher-priority jobs first', () => {
+      const pending = [job('e1', { createdAt: 1 }), job('urgent', { createdAt: 2, priority: QUEUE_PRIORITY.high })];
+      expect(selectJobsToStart(pending, [], config).map(i => i.id)).toEqual(['urgent']);
+    });
+  });
+
+  describe('moveInQueue', () => {
+    const pending = [job('a', { createdAt: 1 }), job('b', { createdAt: 2 }), job('c', { createdAt: 3 })];
+
+    it('renumbers positions in the new order', () => {
+      expect(moveInQueue(pending, 'c', 0)).toEqual([
+        { id: 'c', priority: 0, position: 0 },
+        { id: 'a', priority: 0, position: 1 },
+        { id: 'b', priority: 0, position: 2 },
+      ]);
+    });
+
+    it('gives a job dropped among higher-priority jobs their priority', () => {
+      const mixed = [job('h1', { priority: QUEUE_PRIORITY.high, createdAt: 1 }), job('h2', { priority: QUEUE_PRIORITY.high, createdAt: 2 }), job('n', { createdAt: 3 })];
+      const order = moveInQueue(mixed, 'n', 1);
+      expect(order.map(o => o.id)).toEqual(['h1', 'n', 'h2']);
+      expect(order[1].priority).toBe(QUEUE_PRIORITY.high);
+    });
+
+    it('lowers a high-priority job dragged below normal ones', () => {
+      const mixed = [job('h', { priority: QUEUE_PRIORITY.high }), job('n1', { createdAt: 2 }), job('n2', { createdAt: 3 })];
+      const order = moveInQueue(mixed, 'h', 2);
+      expect(order[2]).toEqual({ id: 'h', priority: QUEUE_PRIORITY.normal, position: 2 });
+      // The resulting order is exactly the run order
+      const moved = mixed.map(item => ({ ...item, ...order.find(o => o.id === item.id) }));
+      expect(moved.sort(compareQueueOrder).map(i => i.id)).toEqual(['n1', 'n2', 'h']);
+    });
+
+    it('clamps the index and ignores unknown ids', () => {
+      expect(moveInQueue(pending, 'a', 99).map(o => o.id)).toEqual(['b', 'c', 'a']);
+      expect(moveInQueue(pending, 'missing', 0)).toEqual([]);
+    });
+  });
+});
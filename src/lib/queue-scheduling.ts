@@ -0,0 +1,75 @@
+/**
+ * Queue scheduling rules
+ *
+ * Pure helpers shared by the queue manager (which decides what runs next) and
+ * the queue UI (which shows pending jobs in the order they will run).
+ */
+
+import { QueueItem, QueueConfig, QueuePriority, QueueResourceClass, QUEUE_PRIORITY } from '@/types/queue';
+
+/** Transcriptions wait on the AI provider; everything else is an FFmpeg encode. */
+export function getResourceClass(item: QueueItem): QueueResourceClass {
+  return item.metadata?.type === 'transcribe' ? 'ai' : 'encode';
+}
+
+const priorityOf = (item: QueueItem): QueuePriority => item.priority ?? QUEUE_PRIORITY.normal;
+const positionOf = (item: QueueItem) => item.position ?? item.createdAt;
+
+/** Run order of pending jobs: higher priority first, then manual position. */
+export function compareQueueOrder(a: QueueItem, b: QueueItem): number {
+  return priorityOf(b) - priorityOf(a) || positionOf(a) - positionOf(b);
+}
+
+/**
+ * Pending jobs that can start now, in run order. A job whose resource class
+ * is full is skipped rather than blocking the jobs behind it, so queued
+ * transcriptions keep running while an encode waits for its slot.
+ */
+export function selectJobsToStart(pending: QueueItem[], running: QueueItem[], config: QueueConfig): QueueItem[] {
+  const active: Record<QueueResourceClass, number> = { ai: 0, encode: 0 };
+  running.forEach(item => active[getResourceClass(item)]++);
+  let total = running.length;
+
+  const selected: QueueItem[] = [];
+  for (const item of [...pending].sort(compareQueueOrder)) {
+    if (total >= config.maxConcurrent) break;
+    const resourceClass = getResourceClass(item);
+    if (active[resourceClass] >= config.concurrency[resourceClass]) continue;
+    active[resourceClass]++;
+    total++;
+    selected.push(item);
+  }
+  return selected;
+}
+
+/**
+ * Move one pending job to `toIndex` in run order. Returns the new priority
+ * and position of every pending job. The moved job takes on a priority
+ * between its new neighbours', so the order it was dropped in is the order
+ * it runs in.
+ */
+export function moveInQueue(
+  pending: QueueItem[],
+  id: string,
+  toIndex: number
+): { id: string; priority: QueuePriority; position: number }[] {
+  const ordered = [...pending].sort(compareQueueOrder);
+  const from = ordered.findIndex(item => item.id === id);
+  if (from === -1) return [];
+
+  const [moved] = ordered.splice(from, 1);
+  const index = Math.max(0, Math.min(toIndex, ordered.length));
+  ordered.splice(index, 0, moved);
+
+  const before = ordered[index - 1];
+  const after = ordered[index + 1];
+  let priority = priorityOf(moved);
+  if (before && priorityOf(before) < priority) priority = priorityOf(before);
+  if (after && priorityOf(after) > priority) priority = priorityOf(after);
+
+  return ordered.map((item, position) => ({
+    id: item.id,
+    priority: item.id === id ? priority : priorityOf(item),
+    position,
+  }));
+}
@@ -0,0 +1,46 @@
+import { parseRichText, stripRichText, getRichTextRunStyle } from './rich-text';
+
+describe('rich-text', () => {
+  describe('parseRichText', () => {
+    it('returns plain text as a single run', () => {
+      expect(parseRichText('Hello')).toEqual([{ text: 'Hello' }]);
+      expect(parseRichText('')).toEqual([]);
+    });
+
+    it('splits text into runs by formatting', () => {
+      expect(parseRichText('a <b>bold <i>both</i></b> <u>under</u>')).toEqual([
+        { text: 'a ' },
+        { text: 'bold ', bold: true },
+        { text: 'both', bold: true, italic: true },
+        { text: ' ' },
+        { text: 'under', underline: true },
+      ]);
+    });
+
+    it('accepts upper-case tags and merges nested repeats', () => {
+      expect(parseRichText('<B>x<b>y</b>z</B>')).toEqual([{ text: 'xyz', bold: true }]);
+    });
+
+    it('runs an unclosed mark to the end and ignores stray closing marks', () => {
+      expect(parseRichText('<i>half')).toEqual([{ text: 'half', italic: true }]);
+      expect(parseRichText('rest</i> of it')).toEqual([{ text: 'rest of it' }]);
+    });
+
+    it('keeps anything that is not b, i or u as literal text', () => {
+      expect(parseRichText('<font color="red">x</font> {\\b1}')).toEqual([{ text: '<font color="red">x</font> {\\b1}' }]);
+    });
+  });
+
+  it('strips markup', () => {
+    expect(stripRichText('<b>Bold</b> and <i>italic</i>\n<u>line</u>')).toBe('Bold and italic\nline');
+  });
+
+  it('styles runs for the preview', () => {
+    expect(getRichTextRunStyle({ text: 'x' })).toEqual({});
+    expect(getRichTextRunStyle({ text: 'x', bold: true, italic: true, underline: true })).toEqual({
+      fontWeight: 'bold',
+      fontStyle: 'italic',
+      textDecoration: 'underline',
+    });
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * Rich subtitle text
+ *
+ * Line text may carry a small HTML-like markup subset: `<b>`, `<i>` and
+ * `<u>` (the same tags SRT and WebVTT use). Nothing else is markup; other
+ * tags and ASS override blocks stay literal text here and are sanitized by
+ * each renderer, so text can't smuggle renderer commands into a burn-in.
+ */
+
+export type RichTextMark = 'b' | 'i' | 'u';
+
+export interface RichTextRun {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+}
+
+const MARK_PATTERN = /<(\/?)([biu])>/gi;
+
+const RUN_FLAGS: Record<RichTextMark, 'bold' | 'italic' | 'underline'> = {
+  b: 'bold',
+  i: 'italic',
+  u: 'underline',
+};
+
+/**
+ * Split text into runs of uniform formatting. Marks nest; an unclosed mark
+ * runs to the end of the text and a stray closing mark is ignored, so text
+ * cut in the middle of a span (e.g. by a line split) still renders sensibly.
+ */
+export function parseRichText(text: string): RichTextRun[] {
+  const depth: Record<RichTextMark, number> = { b: 0, i: 0, u: 0 };
+  const runs: RichTextRun[] = [];
+
+  const push = (chunk: string) => {
+    if (!chunk) return;
+    const run: RichTextRun = { text: chunk };
+    (Object.keys(RUN_FLAGS) as RichTextMark[]).forEach(mark => {
+      if (depth[mark] > 0) run[RUN_FLAGS[mark]] = true;
+    });
+    const last = runs[runs.length - 1];
+    if (last && last.bold === run.bold && last.italic === run.italic && last.underline === run.underline) {
+      last.text += chunk;
+    } else {
+      runs.push(run);
+    }
+  };
+
+  let cursor = 0;
+  for (const match of text.matchAll(MARK_PATTERN)) {
+    push(text.slice(cursor, match.index));
+    const mark = match[2].toLowerCase() as RichTextMark;
+    depth[mark] = match[1] ? Math.max(depth[mark] - 1, 0) : depth[mark] + 1;
+    cursor = match.index! + match[0].length;
+  }
+  push(text.slice(cursor));
+
+  return runs;
+}
+
+/** The text without its markup, for character counts and plain-text formats. */
+export function stripRichText(text: string): string {
+  return text.replace(MARK_PATTERN, '');
+}
+
+/** CSS for a run in the preview, matching the burn-in's \b, \i and \u tags. */
+export function getRichTextRunStyle(run: RichTextRun): React.CSSProperties {
+  return {
+    ...(run.bold && { fontWeight: 'bold' }),
+    ...(run.italic && { fontStyle: 'italic' }),
+    ...(run.underline && { textDecoration: 'underline' }),
+  };
+}
@@ -0,0 +1,45 @@
+/**
+ * @jest-environment node
+ */
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+jest.mock('./ffmpeg-utils', () => ({
+  detectSceneChanges: jest.fn(),
+}));
+
+import { detectSceneChanges } from './ffmpeg-utils';
+import { detectShotChanges, getShotCachePath } from './shot-detection';
+
+global.console.log = jest.fn();
+
+describe('detectShotChanges', () => {
+  let tempDir: string;
+  let mediaPath: string;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'shots-test-'));
+    mediaPath = path.join(tempDir, 'clip.mp4');
+    fs.writeFileSync(mediaPath, 'fake-video');
+    (detectSceneChanges as jest.Mock).mockResolvedValue([4.004, 10.01]);
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('caches detected shot changes until the media changes', async () => {
+    expect(await detectShotChanges(mediaPath)).toEqual([4.004, 10.01]);
+    expect(fs.existsSync(getShotCachePath(mediaPath))).toBe(true);
+
+    await detectShotChanges(mediaPath);
+    expect(detectSceneChanges).toHaveBeenCalledTimes(1);
+
+    const future = new Date(Date.now() + 60_000);
+    fs.utimesSync(mediaPath, future, future);
+    await detectShotChanges(mediaPath);
+    expect(detectSceneChanges).toHaveBeenCalledTimes(2);
+  });
+});
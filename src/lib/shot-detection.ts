@@ -0,0 +1,50 @@
+/**
+ * Shot change detection (server only)
+ *
+ * Runs ffmpeg's scene score over a clip's video and keeps the frames that
+ * start a new shot. The result is cached next to the media file
+ * (`<file>.shots.json`) and recomputed when the media is newer.
+ */
+
+import fs from "fs";
+import { detectSceneChanges } from "./ffmpeg-utils";
+
+// Scene score above which consecutive frames count as a cut
+const SCENE_THRESHOLD = 0.4;
+const CACHE_VERSION = 1;
+
+export function getShotCachePath(mediaPath: string): string {
+  return `${mediaPath}.shots.json`;
+}
+
+function readCache(mediaPath: string): number[] | null {
+  const cachePath = getShotCachePath(mediaPath);
+  try {
+    if (fs.statSync(cachePath).mtimeMs < fs.statSync(mediaPath).mtimeMs) return null;
+    const cached = JSON.parse(fs.readFileSync(cachePath, 'utf8'));
+    if (cached.version !== CACHE_VERSION || !Array.isArray(cached.shotChanges)) return null;
+    return cached.shotChanges;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Shot change times of a media file, in seconds from its start.
+ */
+export async function detectShotChanges(mediaPath: string): Promise<number[]> {
+  const cached = readCache(mediaPath);
+  if (cached) return cached;
+
+  const shotChanges = await detectSceneChanges(mediaPath, { threshold: SCENE_THRESHOLD });
+
+  try {
+    fs.writeFileSync(getShotCachePath(mediaPath), JSON.stringify({ version: CACHE_VERSION, shotChanges }));
+  } catch (e) {
+    // Detection still succeeded; it just runs again next time
+    console.warn('[Shots] Could not cache shot changes:', e);
+  }
+
+  console.log(`[Shots] ${mediaPath}: ${shotChanges.length} shot changes`);
+  return shotChanges;
+}
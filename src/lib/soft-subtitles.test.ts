@@ -0,0 +1,60 @@
+/**
+ * Tests for soft-subtitles.ts - sidecar tracks for soft subtitle muxing
+ */
+
+import { buildSoftSubtitleTracks, getLanguageCode } from './soft-subtitles';
+import { DEFAULT_CONFIG, SubtitleConfig, SubtitleLine } from '@/types/subtitle';
+
+const SUBS: SubtitleLine[] = [
+  { id: '1', startTime: 1, endTime: 2, text: 'Hello', secondaryText: '你好' },
+  { id: '2', startTime: 3, endTime: 4, text: 'World' },
+];
+
+const CONFIG: SubtitleConfig = {
+  ...DEFAULT_CONFIG,
+  primaryLanguage: 'English',
+  secondaryLanguage: 'Simplified Chinese',
+};
+
+describe('getLanguageCode', () => {
+  it('maps language names to ISO 639-2 codes', () => {
+    expect(getLanguageCode('English')).toBe('eng');
+    expect(getLanguageCode('Simplified Chinese')).toBe('chi');
+    expect(getLanguageCode(' german ')).toBe('ger');
+  });
+
+  it('passes through three-letter codes and falls back to und', () => {
+    expect(getLanguageCode('jpn')).toBe('jpn');
+    expect(getLanguageCode('Klingon')).toBe('und');
+    expect(getLanguageCode(undefined)).toBe('und');
+  });
+});
+
+describe('buildSoftSubtitleTracks', () => {
+  it('writes one SRT per language for MP4', () => {
+    const tracks = buildSoftSubtitleTracks(SUBS, CONFIG, 'mp4');
+    expect(tracks.map(t => [t.filename, t.language, t.title])).toEqual([
+      ['primary.srt', 'eng', 'English'],
+      ['secondary.srt', 'chi', 'Simplified Chinese'],
+    ]);
+    expect(tracks[0].content).toContain('Hello');
+    expect(tracks[0].content).not.toContain('你好');
+    expect(tracks[1].content).toContain('你好');
+  });
+
+  it('writes separate ASS scripts for MKV, styling secondary text with the secondary track', () => {
+    const config: SubtitleConfig = { ...CONFIG, secondary: { fontFamily: 'Noto Sans CJK SC' } };
+    const [primary, secondary] = buildSoftSubtitleTracks(SUBS, config, 'mkv');
+    expect(primary.filename).toBe('primary.ass');
+    expect(primary.content).not.toContain('你好');
+    expect(secondary.filename).toBe('secondary.ass');
+    expect(secondary.content).toMatch(/Style: Primary,Noto Sans CJK SC,/);
+    expect(secondary.content).toContain('Primary,,0,0,0,,你好');
+    expect(secondary.content).not.toContain('World');
+  });
+
+  it('omits the secondary track when no line has secondary text', () => {
+    const tracks = buildSoftSubtitleTracks([SUBS[1]], CONFIG, 'mp4');
+    expect(tracks).toHaveLength(1);
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Soft subtitle track preparation for 'mux' exports.
+ *
+ * Turns the editor's bilingual subtitle lines into one sidecar file per
+ * language (SRT for MP4/mov_text, ASS for Matroska) plus the ISO 639-2
+ * language tag FFmpeg writes into each stream.
+ */
+
+import { SubtitleLine, SubtitleConfig, MuxContainer, DEFAULT_GLOBAL_SETTINGS } from '@/types/subtitle';
+import { generateAss, VideoDimensions } from './ass-utils';
+import { generateSrtContent } from './time-utils';
+import { getTrackStyles, getLineOverrides, StyleDefaults } from './style-resolver';
+
+export interface SoftSubtitleTrackFile {
+  filename: string;
+  content: string;
+  language: string;
+  title?: string;
+}
+
+// Language names as used in SubtitleConfig -> ISO 639-2/B (what Matroska and MP4 expect)
+const LANGUAGE_CODES: Record<string, string> = {
+  english: 'eng',
+  spanish: 'spa',
+  french: 'fre',
+  german: 'ger',
+  italian: 'ita',
+  portuguese: 'por',
+  russian: 'rus',
+  ukrainian: 'ukr',
+  japanese: 'jpn',
+  korean: 'kor',
+  chinese: 'chi',
+  'simplified chinese': 'chi',
+  'traditional chinese': 'chi',
+  arabic: 'ara',
+  hindi: 'hin',
+  thai: 'tha',
+  vietnamese: 'vie',
+  indonesian: 'ind',
+  dutch: 'dut',
+  polish: 'pol',
+  turkish: 'tur',
+};
+
+/**
+ * Map a language name (e.g. "Simplified Chinese") to an ISO 639-2 code.
+ * Three-letter codes pass through; anything unknown becomes 'und'.
+ */
+export function getLanguageCode(language: string | undefined | null): string {
+  if (!language) return 'und';
+  const key = language.trim().toLowerCase();
+  if (LANGUAGE_CODES[key]) return LANGUAGE_CODES[key];
+  if (/^[a-z]{3}$/.test(key)) return key;
+  return 'und';
+}
+
+/**
+ * Build the sidecar files for a soft subtitle export. The primary track is
+ * always included; the secondary track only when any line has secondaryText.
+ */
+export function buildSoftSubtitleTracks(
+  subtitles: SubtitleLine[],
+  config: SubtitleConfig,
+  container: MuxContainer,
+  videoDimensions?: VideoDimensions,
+  defaults: StyleDefaults = DEFAULT_GLOBAL_SETTINGS
+): SoftSubtitleTrackFile[] {
+  const hasSecondary = subtitles.some(s => s.secondaryText?.trim());
+  const tracks: SoftSubtitleTrackFile[] = [];
+
+  if (container === 'mkv') {
+    const primaryOnly = subtitles.map(s => ({ ...s, secondaryText: undefined }));
+    tracks.push({
+      filename: 'primary.ass',
+      content: generateAss(primaryOnly, config, videoDimensions, undefined, defaults),
+      language: getLanguageCode(config.primaryLanguage),
+      title: config.primaryLanguage,
+    });
+
+    if (hasSecondary) {
+      // Render the secondary text as the "Primary" style of its own script,
+      // carrying the secondary track's look across
+      const secondaryLines: SubtitleLine[] = subtitles
+        .filter(s => s.secondaryText?.trim())
+        .map(s => ({
+          id: s.id,
+          startTime: s.startTime,
+          endTime: s.endTime,
+          text: s.secondaryText!,
+          styleOverrides: getLineOverrides(s, 'secondary'),
+        }));
+      const secondaryConfig: SubtitleConfig = {
+        ...config,
+        primary: getTrackStyles(config, defaults).secondary,
+      };
+      tracks.push({
+        filename: 'secondary.ass',
+        content: generateAss(secondaryLines, secondaryConfig, videoDimensions, undefined, defaults),
+        language: getLanguageCode(config.secondaryLanguage),
+        title: config.secondaryLanguage,
+      });
+    }
+    return tracks;
+  }
+
+  tracks.push({
+    filename: 'primary.srt',
+    content: generateSrtContent(subtitles, 'primary'),
+    language: getLanguageCode(config.primaryLanguage),
+    title: config.primaryLanguage,
+  });
+
+  if (hasSecondary) {
+    tracks.push({
+      filename: 'secondary.srt',
+      content: generateSrtContent(subtitles, 'secondary'),
+      language: getLanguageCode(config.secondaryLanguage),
+      title: config.secondaryLanguage,
+    });
+  }
+  return tracks;
+}
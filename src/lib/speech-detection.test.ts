@@ -0,0 +1,54 @@
+/**
+ * @jest-environment node
+ */
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+jest.mock('./ffmpeg-utils', () => ({
+  ffprobe: jest.fn(),
+  detectSilences: jest.fn(),
+}));
+
+import { ffprobe, detectSilences } from './ffmpeg-utils';
+import { detectSpeechSegments, getSpeechCachePath } from './speech-detection';
+
+global.console.log = jest.fn();
+
+describe('detectSpeechSegments', () => {
+  let tempDir: string;
+  let mediaPath: string;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'speech-test-'));
+    mediaPath = path.join(tempDir, 'clip.mp4');
+    fs.writeFileSync(mediaPath, 'fake-video');
+    (ffprobe as jest.Mock).mockResolvedValue({ duration: 10 });
+    (detectSilences as jest.Mock).mockResolvedValue([{ start: 0, end: 2 }, { start: 6, end: 10 }]);
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('inverts detected silences and caches the result', async () => {
+    const result = await detectSpeechSegments(mediaPath);
+
+    expect(result).toEqual({ duration: 10, segments: [{ start: 2, end: 6 }] });
+    expect(detectSilences).toHaveBeenCalledWith(mediaPath, expect.objectContaining({ duration: 10 }));
+    expect(fs.existsSync(getSpeechCachePath(mediaPath))).toBe(true);
+
+    await detectSpeechSegments(mediaPath);
+    expect(detectSilences).toHaveBeenCalledTimes(1);
+  });
+
+  it('ignores a cache older than the media', async () => {
+    await detectSpeechSegments(mediaPath);
+    const future = new Date(Date.now() + 60_000);
+    fs.utimesSync(mediaPath, future, future);
+
+    await detectSpeechSegments(mediaPath);
+    expect(detectSilences).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * Speech segment detection (server only)
+ *
+ * Runs ffmpeg's silencedetect over a clip's audio and inverts the silences
+ * into speech segments. The result is cached next to the media file
+ * (`<file>.speech.json`) and recomputed when the media is newer.
+ */
+
+import fs from "fs";
+import { detectSilences, ffprobe } from "./ffmpeg-utils";
+import { silencesToSpeechSegments, SpeechSegment } from "./speech-timing";
+
+// Quieter than typical dialogue, louder than room tone
+const SILENCE_NOISE_DB = -35;
+// Pauses shorter than this are gaps between words, not silence
+const SILENCE_MIN_DURATION = 0.3;
+const CACHE_VERSION = 1;
+
+export interface SpeechDetectionResult {
+  duration: number;
+  segments: SpeechSegment[];
+}
+
+export function getSpeechCachePath(mediaPath: string): string {
+  return `${mediaPath}.speech.json`;
+}
+
+function readCache(mediaPath: string): SpeechDetectionResult | null {
+  const cachePath = getSpeechCachePath(mediaPath);
+  try {
+    if (fs.statSync(cachePath).mtimeMs < fs.statSync(mediaPath).mtimeMs) return null;
+    const cached = JSON.parse(fs.readFileSync(cachePath, 'utf8'));
+    if (cached.version !== CACHE_VERSION || !Array.isArray(cached.segments)) return null;
+    return { duration: cached.duration, segments: cached.segments };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Speech segments of a media file, in seconds from its start.
+ */
+export async function detectSpeechSegments(mediaPath: string): Promise<SpeechDetectionResult> {
+  const cached = readCache(mediaPath);
+  if (cached) return cached;
+
+  const { duration } = await ffprobe(mediaPath);
+  const silences = await detectSilences(mediaPath, {
+    noiseDb: SILENCE_NOISE_DB,
+    minDuration: SILENCE_MIN_DURATION,
+    duration,
+  });
+  const result = { duration, segments: silencesToSpeechSegments(silences, duration) };
+
+  try {
+    fs.writeFileSync(getSpeechCachePath(mediaPath), JSON.stringify({ version: CACHE_VERSION, ...result }));
+  } catch (e) {
+    // Detection still succeeded; it just runs again next time
+    console.warn('[Speech] Could not cache speech segments:', e);
+  }
+
+  console.log(`[Speech] ${mediaPath}: ${result.segments.length} speech segments`);
+  return result;
+}
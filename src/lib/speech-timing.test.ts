@@ -0,0 +1,61 @@
+import { silencesToSpeechSegments, snapToSpeech, retimeToSpeech, SpeechSegment } from './speech-timing';
+import { SubtitleLine } from '@/types/subtitle';
+
+const line = (id: string, startTime: number, endTime: number): SubtitleLine => ({ id, startTime, endTime, text: id });
+
+describe('silencesToSpeechSegments', () => {
+  it('inverts silences and drops blips', () => {
+    const segments = silencesToSpeechSegments(
+      [{ start: 2, end: 4 }, { start: 0, end: 1 }, { start: 4.05, end: 6 }],
+      10
+    );
+
+    expect(segments).toEqual([{ start: 1, end: 2 }, { start: 6, end: 10 }]);
+  });
+
+  it('treats media without silences as one segment', () => {
+    expect(silencesToSpeechSegments([], 5)).toEqual([{ start: 0, end: 5 }]);
+  });
+});
+
+describe('snapToSpeech', () => {
+  const segments: SpeechSegment[] = [{ start: 1, end: 3 }, { start: 5, end: 8 }];
+
+  it('moves edges to the nearest onset and offset in range', () => {
+    expect(snapToSpeech(line('a', 1.3, 2.8), segments)).toMatchObject({ startTime: 1, endTime: 3 });
+    expect(snapToSpeech(line('b', 4.7, 7.6), segments)).toMatchObject({ startTime: 5, endTime: 8 });
+  });
+
+  it('leaves edges without a nearby boundary alone', () => {
+    const original = line('c', 6, 7);
+    expect(snapToSpeech(original, segments)).toBe(original);
+  });
+
+  it('keeps a minimum duration', () => {
+    const snapped = snapToSpeech(line('d', 2.8, 3.1), [{ start: 3, end: 3.05 }]);
+    expect(snapped.startTime).toBe(3);
+    expect(snapped.endTime).toBeCloseTo(3.3);
+  });
+});
+
+describe('retimeToSpeech', () => {
+  const segments: SpeechSegment[] = [{ start: 2, end: 4 }, { start: 10, end: 12 }];
+
+  it('moves starts out of silence and trims trailing silence', () => {
+    const result = retimeToSpeech([line('a', 0.5, 4), line('b', 9, 15), line('c', 2.5, 3.5)], segments);
+
+    expect(result[0]).toMatchObject({ startTime: 2, endTime: 4 });
+    expect(result[1]).toMatchObject({ startTime: 10, endTime: 12.5 });
+    expect(result[2]).toMatchObject({ startTime: 2.5, endTime: 3.5 });
+  });
+
+  it('leaves lines that contain no speech', () => {
+    const original = line('a', 5, 8);
+    expect(retimeToSpeech([original], segments)[0]).toBe(original);
+  });
+
+  it('is a no-op without segments', () => {
+    const lines = [line('a', 0, 1)];
+    expect(retimeToSpeech(lines, [])).toBe(lines);
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Speech-aware subtitle timing
+ *
+ * Pure helpers that move subtitle edges onto detected speech. Segments come
+ * from /api/speech (silencedetect over the clip's audio) and are in source
+ * media seconds, the same timebase subtitles are stored in.
+ */
+
+import { SubtitleLine } from "@/types/subtitle";
+
+export interface SpeechSegment {
+  start: number;
+  end: number;
+}
+
+/** Shortest line the snapping commands will produce. */
+export const MIN_SNAPPED_DURATION = 0.3;
+/** How far an edge may move to reach an onset/offset when snapping. */
+export const DEFAULT_SNAP_DISTANCE = 0.5;
+/** How long a re-timed line may stay on screen after speech ends. */
+export const DEFAULT_SPEECH_TAIL = 0.5;
+
+/**
+ * Speech is everything between the silences. Very short blips (clicks,
+ * breaths) are dropped.
+ */
+export function silencesToSpeechSegments(
+  silences: { start: number; end: number }[],
+  duration: number,
+  minSpeech = 0.1
+): SpeechSegment[] {
+  const sorted = [...silences].sort((a, b) => a.start - b.start);
+  const segments: SpeechSegment[] = [];
+  let cursor = 0;
+
+  for (const silence of sorted) {
+    if (silence.start - cursor >= minSpeech) {
+      segments.push({ start: cursor, end: Math.min(silence.start, duration) });
+    }
+    cursor = Math.max(cursor, silence.end);
+  }
+  if (duration - cursor >= minSpeech) {
+    segments.push({ start: cursor, end: duration });
+  }
+  return segments;
+}
+
+function nearest(values: number[], target: number, maxDistance: number): number | null {
+  let best: number | null = null;
+  for (const value of values) {
+    const distance = Math.abs(value - target);
+    if (distance <= maxDistance && (best === null || distance < Math.abs(best - target))) {
+      best = value;
+    }
+  }
+  return best;
+}
+
+/**
+ * Move the start to the nearest speech onset and the end to the nearest
+ * offset, each only if one is within `maxDistance`.
+ */
+export function snapToSpeech(
+  line: SubtitleLine,
+  segments: SpeechSegment[],
+  maxDistance = DEFAULT_SNAP_DISTANCE
+): SubtitleLine {
+  const onset = nearest(segments.map(s => s.start), line.startTime, maxDistance);
+  const offset = nearest(segments.map(s => s.end), line.endTime, maxDistance);
+
+  const startTime = onset ?? line.startTime;
+  let endTime = offset ?? line.endTime;
+  if (endTime - startTime < MIN_SNAPPED_DURATION) {
+    endTime = Math.max(line.endTime, startTime + MIN_SNAPPED_DURATION);
+  }
+
+  if (startTime === line.startTime && endTime === line.endTime) return line;
+  return { ...line, startTime, endTime };
+}
+
+/**
+ * Re-time a generated track so no line starts in silence: a start that falls
+ * between segments moves forward to the next onset, and an end that runs on
+ * into silence is pulled back to the last offset plus `tail`. Lines that lie
+ * entirely in silence are left alone.
+ */
+export function retimeToSpeech(
+  subtitles: SubtitleLine[],
+  segments: SpeechSegment[],
+  tail = DEFAULT_SPEECH_TAIL
+): SubtitleLine[] {
+  if (segments.length === 0) return subtitles;
+  const sorted = [...segments].sort((a, b) => a.start - b.start);
+
+  return subtitles.map(line => {
+    const inSpeech = sorted.some(s => line.startTime >= s.start && line.startTime < s.end);
+    let startTime = line.startTime;
+    if (!inSpeech) {
+      const next = sorted.find(s => s.start > line.startTime);
+      if (!next || next.start > line.endTime - MIN_SNAPPED_DURATION) return line;
+      startTime = next.start;
+    }
+
+    let endTime = line.endTime;
+    const endInSpeech = sorted.some(s => endTime > s.start && endTime <= s.end);
+    if (!endInSpeech) {
+      const last = [...sorted].reverse().find(s => s.end < endTime && s.end > startTime);
+      if (last) endTime = Math.min(endTime, Math.max(last.end + tail, startTime + MIN_SNAPPED_DURATION));
+    }
+
+    if (startTime === line.startTime && endTime === line.endTime) return line;
+    return { ...line, startTime, endTime };
+  });
+}
@@ -0,0 +1,143 @@
+import {
+  listStylePresets,
+  getStylePreset,
+  isStylePresetNameTaken,
+  createStylePreset,
+  updateStylePreset,
+  deleteStylePreset,
+  importStylePresets,
+} from './style-preset-store';
+import { DEFAULT_STYLE_PRESETS } from './style-presets';
+import Database from 'better-sqlite3';
+
+jest.mock('better-sqlite3', () => {
+  const mRun = jest.fn(() => ({ changes: 1 }));
+  const mGet = jest.fn();
+  const mAll = jest.fn();
+  const mPrepare = jest.fn(() => ({
+    run: mRun,
+    get: mGet,
+    all: mAll
+  }));
+  const mExec = jest.fn();
+  const mPragma = jest.fn();
+
+  const mockClass = jest.fn().mockImplementation(() => ({
+    prepare: mPrepare,
+    exec: mExec,
+    pragma: mPragma,
+    transaction: (fn: (...args: unknown[]) => unknown) => (...args: unknown[]) => fn(...args),
+    close: jest.fn()
+  }));
+
+  const decorated = mockClass as unknown as DatabaseMockSpies;
+  decorated.mGet = mGet;
+  decorated.mAll = mAll;
+  decorated.mPrepare = mPrepare;
+  decorated.mRun = mRun;
+
+  return mockClass;
+});
+
+interface DatabaseMockSpies {
+  mGet: jest.Mock;
+  mAll: jest.Mock;
+  mPrepare: jest.Mock;
+  mRun: jest.Mock;
+}
+
+const { mGet, mAll, mPrepare, mRun } = Database as unknown as DatabaseMockSpies;
+
+jest.mock('uuid', () => ({
+  v4: () => 'test-uuid-v4'
+}));
+
+jest.mock('./storage-config', () => ({
+  getStagingDir: () => '/mock/staging',
+  ensureStagingStructure: jest.fn()
+}));
+
+const row = {
+  id: 'p1',
+  name: 'Brand',
+  primary_style: JSON.stringify({ color: '#ff0000' }),
+  secondary_style: '{}',
+  created_at: 1000,
+  updated_at: 2000,
+};
+
+describe('style-preset-store', () => {
+  beforeAll(() => {
+    // First access opens a database without the table and seeds it
+    mGet.mockReturnValueOnce(undefined);
+    mAll.mockReturnValueOnce([]);
+    listStylePresets();
+    expect(mRun).toHaveBeenCalledTimes(DEFAULT_STYLE_PRESETS.length);
+    expect(mRun).toHaveBeenCalledWith(expect.objectContaining({ name: 'Netflix bottom' }));
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test('lists presets by name with parsed styles', () => {
+    mAll.mockReturnValue([row, { ...row, id: 'p2', primary_style: 'not json' }]);
+
+    const presets = listStylePresets();
+    expect(mPrepare).toHaveBeenCalledWith(expect.stringContaining('ORDER BY name'));
+    expect(presets[0]).toEqual({ id: 'p1', name: 'Brand', primary: { color: '#ff0000' }, secondary: {}, createdAt: 1000, updatedAt: 2000 });
+    expect(presets[1].primary).toEqual({});
+  });
+
+  test('gets a preset by id', () => {
+    mGet.mockReturnValueOnce(row).mockReturnValueOnce(undefined);
+    expect(getStylePreset('p1')?.name).toBe('Brand');
+    expect(getStylePreset('missing')).toBeNull();
+  });
+
+  test('checks names against other presets', () => {
+    mGet.mockReturnValue({ id: 'p1' });
+    expect(isStylePresetNameTaken(' brand ')).toBe(true);
+    expect(mGet).toHaveBeenCalledWith('brand');
+    expect(isStylePresetNameTaken('Brand', 'p1')).toBe(false);
+  });
+
+  test('creates presets with serialized styles', () => {
+    const preset = createStylePreset({ name: ' Brand ', primary: { fontSize: 5 }, secondary: {} });
+
+    expect(preset).toMatchObject({ name: 'Brand', primary: { fontSize: 5 } });
+    expect(preset.id).toBe('test-uuid-v4');
+    expect(mRun).toHaveBeenCalledWith(expect.objectContaining({ name: 'Brand', primary: '{"fontSize":5}', secondary: '{}' }));
+  });
+
+  test('updates only the given fields', () => {
+    mGet.mockReturnValueOnce(row);
+
+    const preset = updateStylePreset('p1', { name: 'Renamed' });
+    expect(preset).toMatchObject({ name: 'Renamed', primary: { color: '#ff0000' }, createdAt: 1000 });
+    expect(mRun).toHaveBeenCalledWith(expect.objectContaining({ id: 'p1', name: 'Renamed', primary: '{"color":"#ff0000"}' }));
+
+    mGet.mockReturnValueOnce(undefined);
+    expect(updateStylePreset('missing', { name: 'X' })).toBeNull();
+  });
+
+  test('reports whether a delete removed anything', () => {
+    expect(deleteStylePreset('p1')).toBe(true);
+    mRun.mockReturnValueOnce({ changes: 0 });
+    expect(deleteStylePreset('missing')).toBe(false);
+  });
+
+  test('imports by name, replacing the styles of existing presets', () => {
+    // "Brand" exists (lookup, then the update's reload); "Fresh" doesn't
+    mGet.mockReturnValueOnce({ id: 'p1' }).mockReturnValueOnce(row).mockReturnValueOnce(undefined);
+
+    const imported = importStylePresets([
+      { name: 'brand', primary: { color: '#00ff00' }, secondary: {} },
+      { name: 'Fresh', primary: {}, secondary: { alignment: 8 } },
+    ]);
+
+    expect(imported.map(p => [p.id === 'p1', p.name])).toEqual([[true, 'Brand'], [false, 'Fresh']]);
+    expect(imported[0].primary).toEqual({ color: '#00ff00' });
+    expect(mRun).toHaveBeenCalledTimes(2);
+  });
+});
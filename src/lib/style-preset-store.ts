@@ -0,0 +1,179 @@
+/**
+ * Style Preset Store - SQLite-based storage for named style presets
+ *
+ * Presets are app-wide rather than per project, so any project can apply
+ * them. Names are unique (case-insensitively). A new database is seeded
+ * with DEFAULT_STYLE_PRESETS; deleting those sticks.
+ */
+
+import Database from 'better-sqlite3';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { StylePreset } from '@/types/subtitle';
+import { getStagingDir, ensureStagingStructure } from './storage-config';
+import { DEFAULT_STYLE_PRESETS, StylePresetInput } from './style-presets';
+
+let db: Database.Database | null = null;
+
+/** Row shape of the `style_presets` table. */
+interface StylePresetRow {
+  id: string;
+  name: string;
+  primary_style: string;
+  secondary_style: string;
+  created_at: number;
+  updated_at: number;
+}
+
+function parseStyle(json: string): StylePreset['primary'] {
+  try {
+    return JSON.parse(json) || {};
+  } catch {
+    return {};
+  }
+}
+
+/** Maps a raw DB row to a {@link StylePreset}. */
+function rowToStylePreset(row: StylePresetRow): StylePreset {
+  return {
+    id: row.id,
+    name: row.name,
+    primary: parseStyle(row.primary_style),
+    secondary: parseStyle(row.secondary_style),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function insertPreset(database: Database.Database, input: StylePresetInput): StylePreset {
+  const now = Date.now();
+  const preset: StylePreset = {
+    id: uuidv4(),
+    name: input.name.trim(),
+    primary: input.primary,
+    secondary: input.secondary,
+    createdAt: now,
+    updatedAt: now,
+  };
+  database.prepare(`
+    INSERT INTO style_presets (id, name, primary_style, secondary_style, created_at, updated_at)
+    VALUES (@id, @name, @primary, @secondary, @createdAt, @updatedAt)
+  `).run({
+    ...preset,
+    primary: JSON.stringify(preset.primary),
+    secondary: JSON.stringify(preset.secondary),
+  });
+  return preset;
+}
+
+function getDb(): Database.Database {
+  if (db) return db;
+
+  const stagingDir = getStagingDir();
+  ensureStagingStructure(stagingDir);
+  db = new Database(path.join(stagingDir, 'presets.db'));
+  db.pragma('journal_mode = WAL');
+
+  const isNew = !db.prepare(`SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'style_presets'`).get();
+
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS style_presets (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL UNIQUE COLLATE NOCASE,
+      primary_style TEXT NOT NULL,
+      secondary_style TEXT NOT NULL,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL
+    )
+  `);
+
+  if (isNew) {
+    for (const preset of DEFAULT_STYLE_PRESETS) insertPreset(db, preset);
+  }
+
+  return db;
+}
+
+/**
+ * All presets, by name
+ */
+export function listStylePresets(): StylePreset[] {
+  const rows = getDb().prepare('SELECT * FROM style_presets ORDER BY name COLLATE NOCASE').all() as StylePresetRow[];
+  return rows.map(rowToStylePreset);
+}
+
+/**
+ * A preset by ID, or null
+ */
+export function getStylePreset(id: string): StylePreset | null {
+  const row = getDb().prepare('SELECT * FROM style_presets WHERE id = ?').get(id) as StylePresetRow | undefined;
+  return row ? rowToStylePreset(row) : null;
+}
+
+/**
+ * Whether another preset (not `exceptId`) already has this name
+ */
+export function isStylePresetNameTaken(name: string, exceptId?: string): boolean {
+  const row = getDb().prepare('SELECT id FROM style_presets WHERE name = ? COLLATE NOCASE').get(name.trim()) as { id: string } | undefined;
+  return !!row && row.id !== exceptId;
+}
+
+/**
+ * Create a preset. Callers check the name with isStylePresetNameTaken first;
+ * a duplicate name fails the UNIQUE constraint.
+ */
+export function createStylePreset(input: StylePresetInput): StylePreset {
+  return insertPreset(getDb(), input);
+}
+
+/**
+ * Rename and/or restyle a preset. Returns null if it doesn't exist.
+ */
+export function updateStylePreset(id: string, updates: Partial<StylePresetInput>): StylePreset | null {
+  const existing = getStylePreset(id);
+  if (!existing) return null;
+
+  const preset: StylePreset = {
+    ...existing,
+    name: updates.name?.trim() || existing.name,
+    primary: updates.primary ?? existing.primary,
+    secondary: updates.secondary ?? existing.secondary,
+    updatedAt: Date.now(),
+  };
+  getDb().prepare(`
+    UPDATE style_presets
+    SET name = @name, primary_style = @primary, secondary_style = @secondary, updated_at = @updatedAt
+    WHERE id = @id
+  `).run({
+    id,
+    name: preset.name,
+    primary: JSON.stringify(preset.primary),
+    secondary: JSON.stringify(preset.secondary),
+    updatedAt: preset.updatedAt,
+  });
+  return preset;
+}
+
+/**
+ * Delete a preset. Returns false if it didn't exist.
+ */
+export function deleteStylePreset(id: string): boolean {
+  return getDb().prepare('DELETE FROM style_presets WHERE id = ?').run(id).changes > 0;
+}
+
+/**
+ * Import presets in one transaction. A preset named like an existing one
+ * replaces its styles, so re-importing an export doesn't duplicate it.
+ * Returns the imported presets.
+ */
+export function importStylePresets(inputs: StylePresetInput[]): StylePreset[] {
+  const database = getDb();
+  const findByName = database.prepare('SELECT id FROM style_presets WHERE name = ? COLLATE NOCASE');
+
+  return database.transaction(() => inputs.map(input => {
+    const existing = findByName.get(input.name.trim()) as { id: string } | undefined;
+    return existing
+      ? updateStylePreset(existing.id, { primary: input.primary, secondary: input.secondary })!
+      : insertPreset(database, input);
+  }))();
+}
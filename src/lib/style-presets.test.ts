@@ -0,0 +1,86 @@
+import {
+  DEFAULT_STYLE_PRESETS,
+  STYLE_PRESET_EXPORT_VERSION,
+  StylePresetInputSchema,
+  toStylePresetExport,
+  parseStylePresetImport,
+  applyPresetToConfig,
+  applyPresetToLines,
+  getTrackStyleReplacement,
+} from './style-presets';
+import { DEFAULT_CONFIG, StylePreset, SubtitleLine } from '@/types/subtitle';
+
+const preset: StylePreset = {
+  id: 'p1',
+  name: 'Brand',
+  primary: { color: '#ff0000', fontSize: 6 },
+  secondary: {},
+  createdAt: 1,
+  updatedAt: 2,
+};
+
+describe('style-presets', () => {
+  it('ships valid default presets', () => {
+    DEFAULT_STYLE_PRESETS.forEach(p => expect(StylePresetInputSchema.safeParse(p).success).toBe(true));
+  });
+
+  it('validates names and style fields, dropping unknown keys', () => {
+    expect(StylePresetInputSchema.safeParse({ name: '  ' }).success).toBe(false);
+    expect(StylePresetInputSchema.safeParse({ name: 'X', primary: { alignment: 10 } }).success).toBe(false);
+    expect(StylePresetInputSchema.safeParse({ name: 'X', primary: { fontSize: 'big' } }).success).toBe(false);
+
+    expect(StylePresetInputSchema.parse({ name: ' X ', primary: { fontSize: '5%', spacing: 2 } })).toEqual({
+      name: 'X',
+      primary: { fontSize: 5 },
+      secondary: {},
+    });
+  });
+
+  it('round-trips presets through the export format', () => {
+    const exported = toStylePresetExport([preset]);
+    expect(exported).toEqual({
+      version: STYLE_PRESET_EXPORT_VERSION,
+      presets: [{ name: 'Brand', primary: { color: '#ff0000', fontSize: 6 }, secondary: {} }],
+    });
+    expect(parseStylePresetImport(JSON.parse(JSON.stringify(exported)))).toEqual(exported.presets);
+  });
+
+  it('imports a bare array or a single preset', () => {
+    expect(parseStylePresetImport([{ name: 'A' }, { name: 'B' }]).map(p => p.name)).toEqual(['A', 'B']);
+    expect(parseStylePresetImport({ name: 'Solo', secondary: { alignment: 8 } })).toEqual([
+      { name: 'Solo', primary: {}, secondary: { alignment: 8 } },
+    ]);
+  });
+
+  it('rejects files it cannot read, and newer export versions', () => {
+    expect(() => parseStylePresetImport('nope')).toThrow(/Invalid style preset file/);
+    expect(() => parseStylePresetImport({ version: STYLE_PRESET_EXPORT_VERSION + 1, presets: [] })).toThrow(/Invalid style preset file/);
+  });
+
+  it('replaces the project track styles', () => {
+    const config = { ...DEFAULT_CONFIG, primary: { alignment: 8 as const, color: '#00ff00' }, secondary: { fontSize: 3 } };
+    const applied = applyPresetToConfig(config, preset);
+
+    expect(applied.primary).toEqual({ color: '#ff0000', fontSize: 6 });
+    expect(applied.secondary).toEqual({});
+    expect(applied.ffmpeg).toBe(config.ffmpeg);
+    expect(applied.primary).not.toBe(preset.primary);
+  });
+
+  it('replaces the line overrides of the selected lines only', () => {
+    const lines: SubtitleLine[] = [
+      { id: 'a', startTime: 0, endTime: 1, text: 'A', primaryColor: '#123456', secondaryStyleOverrides: { alignment: 8 } },
+      { id: 'b', startTime: 1, endTime: 2, text: 'B', styleOverrides: { color: '#00ff00' } },
+    ];
+
+    const [a, b] = applyPresetToLines(lines, ['a'], preset);
+    expect(a).toMatchObject({ primaryColor: undefined, styleOverrides: { color: '#ff0000', fontSize: 6 }, secondaryStyleOverrides: undefined });
+    expect(b).toBe(lines[1]);
+  });
+
+  it('clears fields a preset track leaves out when replacing through a merge', () => {
+    const update = getTrackStyleReplacement({ color: '#ff0000' });
+    expect(update).toMatchObject({ color: '#ff0000', fontSize: undefined, alignment: undefined });
+    expect(Object.keys(update)).toContain('outlineWidth');
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * Style presets
+ *
+ * Validation, the JSON import/export format and the apply actions for named
+ * style presets. Storage lives in style-preset-store (server-only); this
+ * module has no fs/DB access, so the routes and the UI share it.
+ *
+ * Applying a preset to a project replaces the project's track styles;
+ * applying it to lines replaces their line overrides. Either way, what the
+ * preset leaves out is inherited from the layers beneath (see style-resolver).
+ */
+
+import { z } from "zod";
+import { StylePreset, SubtitleConfig, SubtitleLine, TrackStyle } from "@/types/subtitle";
+
+export const STYLE_PRESET_EXPORT_VERSION = 1;
+export const STYLE_PRESET_EXPORT_FILENAME = 'subtitlegem-style-presets.json';
+export const MAX_PRESET_NAME_LENGTH = 100;
+export const MAX_IMPORTED_PRESETS = 500;
+
+/** Every TrackStyle field, for replacing a style through a merging onChange. */
+export const TRACK_STYLE_KEYS: (keyof TrackStyle)[] = [
+  'alignment', 'fontSize', 'color', 'fontFamily', 'marginV', 'marginH', 'backgroundColor', 'outlineColor', 'outlineWidth',
+];
+
+// Sizes are % of the video; "50%" strings from the percentage editor become 50
+const SizeSchema = z.union([z.number().min(0).max(10000), z.string().regex(/^\d+(\.\d+)?%$/)])
+  .transform(value => typeof value === 'string' ? parseFloat(value) : value);
+const ColorSchema = z.string().max(50);
+
+export const PresetTrackStyleSchema = z.object({
+  alignment: z.literal([1, 2, 3, 4, 5, 6, 7, 8, 9]),
+  fontSize: SizeSchema,
+  color: ColorSchema,
+  fontFamily: z.string().max(200),
+  marginV: SizeSchema,
+  marginH: SizeSchema,
+  backgroundColor: ColorSchema,
+  outlineColor: ColorSchema,
+  outlineWidth: SizeSchema,
+}).partial();
+
+export const StylePresetInputSchema = z.object({
+  name: z.string().trim().min(1).max(MAX_PRESET_NAME_LENGTH),
+  primary: PresetTrackStyleSchema.default({}),
+  secondary: PresetTrackStyleSchema.default({}),
+});
+
+/** A rename and/or restyle; tracks that are sent replace the stored ones. */
+export const StylePresetUpdateSchema = z.object({
+  name: StylePresetInputSchema.shape.name,
+  primary: PresetTrackStyleSchema,
+  secondary: PresetTrackStyleSchema,
+}).partial();
+
+/** What a client sends to create or import a preset. */
+export type StylePresetInput = Pick<StylePreset, 'name' | 'primary' | 'secondary'>;
+
+/** The export file: a version and the presets without ids or timestamps. */
+export interface StylePresetExport {
+  version: number;
+  presets: StylePresetInput[];
+}
+
+const StylePresetImportSchema = z.union([
+  z.object({
+    version: z.number().int().min(1).max(STYLE_PRESET_EXPORT_VERSION).optional(),
+    presets: z.array(StylePresetInputSchema).max(MAX_IMPORTED_PRESETS),
+  }),
+  z.array(StylePresetInputSchema).max(MAX_IMPORTED_PRESETS),
+  StylePresetInputSchema,
+]);
+
+/** Seeded into a new preset store. Sizes and margins are % of the video. */
+export const DEFAULT_STYLE_PRESETS: StylePresetInput[] = [
+  {
+    name: 'Netflix bottom',
+    primary: {
+      alignment: 2, fontSize: 4.5, color: '#ffffff', fontFamily: 'Arial', marginV: 8, marginH: 10,
+      backgroundColor: 'rgba(0,0,0,0)', outlineColor: '#000000', outlineWidth: 0.15,
+    },
+    secondary: {
+      alignment: 8, fontSize: 3.8, color: '#ffffff', fontFamily: 'Arial', marginV: 6, marginH: 10,
+      backgroundColor: 'rgba(0,0,0,0)', outlineColor: '#000000', outlineWidth: 0.15,
+    },
+  },
+  {
+    name: 'Karaoke top',
+    primary: {
+      alignment: 8, fontSize: 6, color: '#ffeb3b', fontFamily: 'Arial', marginV: 5, marginH: 6,
+      backgroundColor: 'rgba(0,0,0,0)', outlineColor: '#000000', outlineWidth: 0.4,
+    },
+    secondary: {
+      alignment: 8, fontSize: 4, color: '#ffffff', fontFamily: 'Arial', marginV: 13, marginH: 6,
+      backgroundColor: 'rgba(0,0,0,0)', outlineColor: '#000000', outlineWidth: 0.3,
+    },
+  },
+  {
+    name: 'Social vertical',
+    primary: {
+      alignment: 5, fontSize: 3.5, color: '#ffffff', fontFamily: 'Arial', marginV: 0, marginH: 8,
+      backgroundColor: 'rgba(0,0,0,0.6)', outlineColor: '#000000', outlineWidth: 0.1,
+    },
+    secondary: {
+      alignment: 2, fontSize: 2.8, color: '#fbbf24', fontFamily: 'Arial', marginV: 22, marginH: 8,
+      backgroundColor: 'rgba(0,0,0,0.6)', outlineColor: '#000000', outlineWidth: 0.1,
+    },
+  },
+];
+
+/** A preset as the export file carries it. */
+export function toStylePresetInput(preset: StylePresetInput): StylePresetInput {
+  return { name: preset.name, primary: { ...preset.primary }, secondary: { ...preset.secondary } };
+}
+
+export function toStylePresetExport(presets: StylePresetInput[]): StylePresetExport {
+  return { version: STYLE_PRESET_EXPORT_VERSION, presets: presets.map(toStylePresetInput) };
+}
+
+/**
+ * Read an import: an export file, a bare array of presets or a single
+ * preset. Throws with the first problem found when the data doesn't fit.
+ */
+export function parseStylePresetImport(data: unknown): StylePresetInput[] {
+  const validation = StylePresetImportSchema.safeParse(data);
+  if (!validation.success) {
+    const issue = validation.error.issues[0];
+    const where = issue?.path.length ? ` at ${issue.path.join('.')}` : '';
+    throw new Error(`Invalid style preset file${where}: ${issue?.message ?? 'unrecognized format'}`);
+  }
+  const parsed = validation.data;
+  return Array.isArray(parsed) ? parsed : 'presets' in parsed ? parsed.presets : [parsed];
+}
+
+function hasStyle(style: Partial<TrackStyle>): boolean {
+  return Object.values(style).some(value => value !== undefined);
+}
+
+/** The project config with its track styles replaced by the preset's. */
+export function applyPresetToConfig(config: SubtitleConfig, preset: StylePresetInput): SubtitleConfig {
+  return { ...config, primary: { ...preset.primary }, secondary: { ...preset.secondary } };
+}
+
+/**
+ * The lines with the given ids restyled by the preset. Their line overrides
+ * (and deprecated colours) are replaced; other lines are returned as-is.
+ */
+export function applyPresetToLines(lines: SubtitleLine[], ids: string[], preset: StylePresetInput): SubtitleLine[] {
+  const selected = new Set(ids);
+  return lines.map(line => selected.has(line.id)
+    ? {
+        ...line,
+        primaryColor: undefined,
+        secondaryColor: undefined,
+        styleOverrides: hasStyle(preset.primary) ? { ...preset.primary } : undefined,
+        secondaryStyleOverrides: hasStyle(preset.secondary) ? { ...preset.secondary } : undefined,
+      }
+    : line);
+}
+
+/**
+ * An update that replaces a whole track style through an onChange that
+ * merges (as TrackStyleEditor's does): fields the preset lacks are cleared.
+ */
+export function getTrackStyleReplacement(style: Partial<TrackStyle>): Partial<TrackStyle> {
+  return Object.fromEntries(TRACK_STYLE_KEYS.map(key => [key, style[key]])) as Partial<TrackStyle>;
+}
@@ -4,12 +4,26 @@
  * Unit tests and property-based tests for:
  * - resolveTrackStyle: Merge global, project, and line styles
  * - normalizeToPx: Convert % or px values to pixels
+ * - getLineOverrides: A line's own overrides per track
  * - getPreviewStyle: Generate CSS for preview
+ * - style layers: global -> project -> clip -> line, checked against the ASS output
  */
 
 import * as fc from 'fast-check';
-import { resolveTrackStyle, normalizeToPx, getPreviewStyle, percentToPx } from './style-resolver';
-import { TrackStyle } from '@/types/subtitle';
+import {
+  resolveTrackStyle,
+  normalizeToPx,
+  getPreviewStyle,
+  percentToPx,
+  getLineOverrides,
+  getTrackStyles,
+  applyClipStyle,
+  resolveLineStyle,
+  StyleDefaults,
+  TrackStyleLayer,
+} from './style-resolver';
+import { generateAss, hexToAssColor } from './ass-utils';
+import { TrackStyle, SubtitleLine, DEFAULT_CONFIG, DEFAULT_GLOBAL_SETTINGS } from '@/types/subtitle';
 
 // ============================================================================
 // resolveTrackStyle Tests
@@ -280,6 +294,26 @@ describe('normalizeToPx', () => {
 
 });
 
+// ============================================================================
+// getLineOverrides Tests
+// ============================================================================
+
+describe('getLineOverrides', () => {
+  const line: SubtitleLine = { id: '1', startTime: 0, endTime: 1, text: 'x' };
+
+  test('picks the overrides of the requested track', () => {
+    const withOverrides = { ...line, styleOverrides: { fontSize: 6 }, secondaryStyleOverrides: { alignment: 8 as const } };
+    expect(getLineOverrides(withOverrides, 'primary')).toEqual({ fontSize: 6 });
+    expect(getLineOverrides(withOverrides, 'secondary')).toEqual({ alignment: 8 });
+    expect(getLineOverrides(line, 'primary')).toBeUndefined();
+  });
+
+  test('folds in deprecated colours beneath newer overrides', () => {
+    expect(getLineOverrides({ ...line, secondaryColor: '#ff0000' }, 'secondary')).toEqual({ color: '#ff0000' });
+    expect(getLineOverrides({ ...line, primaryColor: '#ff0000', styleOverrides: { color: '#00ff00' } }, 'primary')).toEqual({ color: '#00ff00' });
+  });
+});
+
 // ============================================================================
 // getPreviewStyle Tests
 // ============================================================================
@@ -337,6 +371,14 @@ describe('getPreviewStyle', () => {
     });
 
 
+    test('applies line overrides on top of the track style', () => {
+      const result = getPreviewStyle(sampleStyle, 1080, { fontSize: 10, color: '#ff0000', fontFamily: 'Georgia' });
+      expect(result.fontSize).toBe('108px');
+      expect(result.color).toBe('#ff0000');
+      expect(result.fontFamily).toBe('Georgia');
+      expect(result.backgroundColor).toBe('rgba(0,0,0,0.7)');
+    });
+
     test('handles missing outline/shadow', () => {
       const styleWithoutEffects: TrackStyle = {
         alignment: 2,
@@ -386,3 +428,68 @@ describe('getPreviewStyle', () => {
 
   });
 });
+
+// ============================================================================
+// Style layers: preview vs burn-in
+// ============================================================================
+
+describe('style layers', () => {
+  const defaults: StyleDefaults = {
+    ...DEFAULT_GLOBAL_SETTINGS,
+    defaultPrimaryStyle: { ...DEFAULT_GLOBAL_SETTINGS.defaultPrimaryStyle, fontFamily: 'Georgia', fontSize: 6, color: '#111111', alignment: 2 },
+  };
+  const project: TrackStyleLayer = { primary: { fontSize: 5.5, color: '#222222' } };
+  const clip: TrackStyleLayer = { primary: { fontSize: 4, alignment: 5 } };
+  const line: SubtitleLine = { id: '1', startTime: 0, endTime: 1, text: 'Hello', styleOverrides: { alignment: 8, color: '#444444' } };
+  const bare: SubtitleLine = { id: '1', startTime: 0, endTime: 1, text: 'Hello' };
+
+  // Each case adds the next layer; the golden values are what both renderers must show
+  const cases: Array<{ layer: string; line: SubtitleLine; project?: TrackStyleLayer; clip?: TrackStyleLayer; golden: Pick<TrackStyle, 'fontSize' | 'color' | 'alignment'> }> = [
+    { layer: 'global', line: bare, golden: { fontSize: 6, color: '#111111', alignment: 2 } },
+    { layer: 'project', line: bare, project, golden: { fontSize: 5.5, color: '#222222', alignment: 2 } },
+    { layer: 'clip', line: bare, project, clip, golden: { fontSize: 4, color: '#222222', alignment: 5 } },
+    { layer: 'line', line, project, clip, golden: { fontSize: 4, color: '#444444', alignment: 8 } },
+  ];
+
+  /** The primary event's effective look: its Style line under its override tags. */
+  const assEffective = (ass: string) => {
+    const style = ass.match(/^Style: Primary,(.*)$/m)![1].split(',');
+    const tags = ass.match(/^Dialogue: (?:[^,]*,){9}(\{[^}]*\})?/m)![1] ?? '';
+    const tag = (name: string) => tags.match(new RegExp(`\\\\${name}([^\\\\}]+)`))?.[1];
+    return {
+      fontFamily: tag('fn') ?? style[0],
+      fontSize: Number(tag('fs') ?? style[1]),
+      color: tag('c') ?? style[2],
+      alignment: Number(tag('an') ?? style[17]),
+    };
+  };
+
+  test.each(cases)('preview and burn-in agree with the $layer layer on top', ({ line, project, clip, golden }) => {
+    const resolved = resolveLineStyle(line, 'primary', project, defaults, clip);
+    expect(resolved).toMatchObject(golden);
+
+    // What VideoPreview renders at 1080p...
+    const styled = applyClipStyle(line, clip);
+    const css = getPreviewStyle(getTrackStyles(project, defaults).primary, 1080, getLineOverrides(styled, 'primary'));
+    // ...and what the multi-video export burns in (lines flattened with their clip's config)
+    const ass = assEffective(generateAss([styled], { ...DEFAULT_CONFIG, primary: project?.primary }, { width: 1920, height: 1080 }, undefined, defaults));
+
+    expect(parseFloat(css.fontSize)).toBeCloseTo(golden.fontSize * 10.8); // % of 1080
+    expect(css.color).toBe(golden.color);
+    expect(ass.fontFamily).toBe(css.fontFamily);
+    // The burn-in renders fonts at twice the stored size
+    expect(ass.fontSize).toBe(Math.round(parseFloat(css.fontSize) * 2));
+    expect(ass.color).toBe(hexToAssColor(css.color));
+    expect(ass.alignment).toBe(resolved.alignment);
+  });
+
+  test('getTrackStyles puts the project config over the global defaults', () => {
+    expect(getTrackStyles(project, defaults).primary).toMatchObject({ fontFamily: 'Georgia', fontSize: 5.5 });
+    expect(getTrackStyles().secondary).toEqual(DEFAULT_GLOBAL_SETTINGS.defaultSecondaryStyle);
+  });
+
+  test('applyClipStyle leaves lines alone without clip styles', () => {
+    expect(applyClipStyle(line)).toBe(line);
+    expect(applyClipStyle(line, {})).toBe(line);
+  });
+});
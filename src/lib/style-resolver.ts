@@ -1,6 +1,18 @@
-import { TrackStyle } from "@/types/subtitle";
+import { TrackStyle, SubtitleLine, SubtitleConfig, GlobalSettings, DEFAULT_GLOBAL_SETTINGS } from "@/types/subtitle";
 import { REFERENCE_WIDTH, REFERENCE_HEIGHT } from "@/types/constants";
 
+// Style resolution runs through four layers, bottom to top:
+//   global settings -> project config -> clip config -> line overrides
+// The first two make the track styles (the ASS Style lines); the clip and
+// line layers make each line's overrides (ASS override tags), so the burn-in,
+// the sidecars and the preview all resolve a line the same way.
+
+/** The global layer: the stored default style of each track. */
+export type StyleDefaults = Pick<GlobalSettings, 'defaultPrimaryStyle' | 'defaultSecondaryStyle'>;
+
+/** The per-track part of a project or clip config. */
+export type TrackStyleLayer = Pick<SubtitleConfig, 'primary' | 'secondary'>;
+
 /**
  * Resolves the final style for a subtitle line by merging:
  * 1. Global Defaults (Bottom)
@@ -20,8 +32,59 @@ export function resolveTrackStyle(
 }
 
 /**
- * Calculates CSS style object for previewing a TrackStyle
+ * A line's own overrides for one track. The deprecated per-line colours
+ * (primaryColor/secondaryColor) are folded in beneath the newer fields.
  */
+export function getLineOverrides(line: SubtitleLine, track: 'primary' | 'secondary'): Partial<TrackStyle> | undefined {
+  const legacyColor = track === 'primary' ? line.primaryColor : line.secondaryColor;
+  const overrides = track === 'primary' ? line.styleOverrides : line.secondaryStyleOverrides;
+  if (!legacyColor) return overrides;
+  return { color: legacyColor, ...overrides };
+}
+
+/**
+ * The track styles for a project: global defaults under the project config.
+ */
+export function getTrackStyles(
+  project?: TrackStyleLayer,
+  defaults: StyleDefaults = DEFAULT_GLOBAL_SETTINGS
+): Record<'primary' | 'secondary', TrackStyle> {
+  return {
+    primary: resolveTrackStyle(defaults.defaultPrimaryStyle, project?.primary),
+    secondary: resolveTrackStyle(defaults.defaultSecondaryStyle, project?.secondary),
+  };
+}
+
+/**
+ * Fold a clip's config into a line's overrides, beneath the line's own, so
+ * the line carries every layer above the project. Deprecated colours are
+ * folded in too (see getLineOverrides) and cleared.
+ */
+export function applyClipStyle(line: SubtitleLine, clip?: TrackStyleLayer): SubtitleLine {
+  if (!clip?.primary && !clip?.secondary) return line;
+  return {
+    ...line,
+    primaryColor: undefined,
+    secondaryColor: undefined,
+    styleOverrides: { ...clip.primary, ...getLineOverrides(line, 'primary') },
+    secondaryStyleOverrides: { ...clip.secondary, ...getLineOverrides(line, 'secondary') },
+  };
+}
+
+/**
+ * A line's final style for one track, through every layer. Pass the clip
+ * config for lines that haven't been through applyClipStyle.
+ */
+export function resolveLineStyle(
+  line: SubtitleLine,
+  track: 'primary' | 'secondary',
+  project?: TrackStyleLayer,
+  defaults: StyleDefaults = DEFAULT_GLOBAL_SETTINGS,
+  clip?: TrackStyleLayer
+): TrackStyle {
+  return resolveTrackStyle(getTrackStyles(project, defaults)[track], undefined, getLineOverrides(applyClipStyle(line, clip), track));
+}
+
 /**
  * Convert percentage value to pixels for a given reference size.
  * 
@@ -48,9 +111,12 @@ export function normalizeToPx(value: number | string | undefined, fullSize: numb
 
 
 /**
- * Calculates CSS style object for previewing a TrackStyle
+ * Calculates CSS style object for previewing a TrackStyle, with a line's own
+ * overrides (see getLineOverrides) applied the same way the ASS burn-in does.
  */
-export function getPreviewStyle(style: TrackStyle, videoHeightPx: number = 360) {
+export function getPreviewStyle(style: TrackStyle, videoHeightPx: number = 360, lineOverrides?: Partial<TrackStyle>) {
+    style = resolveTrackStyle(style, undefined, lineOverrides);
+
     // 1. Resolve everything to 1080p Reference Pixels first
     const refFontSize = normalizeToPx(style.fontSize, REFERENCE_HEIGHT);
     const refOutline = normalizeToPx(style.outlineWidth ?? 2.0, REFERENCE_HEIGHT);
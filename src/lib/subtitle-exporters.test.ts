@@ -0,0 +1,203 @@
+/**
+ * Tests for subtitle-exporters.ts - sidecar subtitle export registry
+ */
+
+import {
+  SUBTITLE_EXPORTERS,
+  generateSrt,
+  generateVtt,
+  generateTtml,
+  generateSbv,
+  generateJson,
+  getVttCueSettings,
+  getExportFilename,
+  isSubtitleExportFormat,
+  flattenProjectSubtitles,
+} from './subtitle-exporters';
+import { parseSrt, parseVtt, parseSbv } from './subtitle-parsers';
+import { getBilingualLayout } from './bilingual-layout';
+import {
+  DEFAULT_CONFIG,
+  DEFAULT_GLOBAL_SETTINGS,
+  DEFAULT_PROJECT_CONFIG,
+  MultiVideoProjectState,
+  SubtitleLine,
+} from '@/types/subtitle';
+
+const SUBS: SubtitleLine[] = [
+  { id: '1', startTime: 1, endTime: 2.5, text: 'Hello', secondaryText: 'Hola' },
+  { id: '2', startTime: 3, endTime: 4, text: 'Fish & <chips>' },
+  { id: '3', startTime: 5, endTime: 6, text: 'Top', styleOverrides: { alignment: 8, color: '#ff0000' } },
+];
+
+// ============================================================================
+// SRT
+// ============================================================================
+
+describe('generateSrt', () => {
+  it('matches generateSrtContent for single-language tracks', () => {
+    const srt = generateSrt(SUBS, 'secondary');
+    expect(srt).toBe('1\n00:00:01,000 --> 00:00:02,500\nHola\n');
+  });
+
+  it('stacks text and secondaryText for bilingual output', () => {
+    const parsed = parseSrt(generateSrt(SUBS, 'bilingual'));
+    expect(parsed).toHaveLength(3);
+    expect(parsed[0].text).toBe('Hello\nHola');
+    expect(parsed[2].text).toBe('Top');
+  });
+
+  it('follows the combined layout, keeping each cue free of blank lines', () => {
+    const layout = getBilingualLayout({
+      subtitleStyle: 'combined',
+      combinedLayout: { order: 'secondary-first', separator: 'blank', secondaryScale: 0.8 },
+    });
+    const parsed = parseSrt(generateSrt(SUBS, 'bilingual', layout));
+    expect(parsed).toHaveLength(3);
+    expect(parsed[0].text).toBe('Hola\nHello');
+  });
+});
+
+// ============================================================================
+// WebVTT
+// ============================================================================
+
+describe('getVttCueSettings', () => {
+  const base = DEFAULT_GLOBAL_SETTINGS.defaultPrimaryStyle;
+
+  it('anchors bottom-centre cues above the vertical margin', () => {
+    expect(getVttCueSettings({ ...base, alignment: 2, marginV: 4 })).toBe('line:96%,end align:center');
+  });
+
+  it('maps top-left and middle-right alignments', () => {
+    expect(getVttCueSettings({ ...base, alignment: 7, marginV: 5, marginH: 10 }))
+      .toBe('line:5%,start position:10%,line-left align:start');
+    expect(getVttCueSettings({ ...base, alignment: 6, marginH: 10 }))
+      .toBe('line:50%,center position:90%,line-right align:end');
+  });
+});
+
+describe('generateVtt', () => {
+  it('writes a WEBVTT header, escaped text and positioned cues', () => {
+    const vtt = generateVtt(SUBS, DEFAULT_CONFIG);
+    expect(vtt.startsWith('WEBVTT\n\n')).toBe(true);
+    expect(vtt).toContain('00:00:01.000 --> 00:00:02.500 line:96%,end align:center\nHello');
+    expect(vtt).toContain('Fish &amp; &lt;chips&gt;');
+    // Line-level alignment override moves the cue to the top
+    expect(vtt).toContain('00:00:05.000 --> 00:00:06.000 line:4%,start align:center');
+  });
+
+  it('round-trips through the WebVTT parser', () => {
+    const parsed = parseVtt(generateVtt(SUBS, DEFAULT_CONFIG));
+    expect(parsed.map(l => l.text)).toEqual(['Hello', 'Fish & <chips>', 'Top']);
+    expect(parsed[2].styleOverrides?.alignment).toBe(8);
+  });
+});
+
+// ============================================================================
+// TTML
+// ============================================================================
+
+describe('generateTtml', () => {
+  it('emits an IMSC1 document with track styles, regions and colours', () => {
+    const ttml = generateTtml(SUBS, DEFAULT_CONFIG);
+    expect(ttml).toContain('ttp:profile="http://www.w3.org/ns/ttml/profile/imsc1/text"');
+    expect(ttml).toContain('<style xml:id="primary" tts:fontFamily="Arial" tts:fontSize="5c" tts:color="#ffffff"');
+    expect(ttml).toContain('tts:backgroundColor="rgba(0,0,0,179)"');
+    expect(ttml).toContain('<p begin="00:00:01.000" end="00:00:02.500" style="primary" region="r1">');
+    expect(ttml).toContain('Fish &amp; &lt;chips&gt;');
+    expect(ttml).toContain('tts:displayAlign="after"');
+    // Top-aligned override gets its own region and inline colour
+    expect(ttml).toContain('region="r2" tts:color="#ff0000"');
+    expect(ttml).toContain('tts:displayAlign="before"');
+    expect(ttml).not.toContain('Hola');
+  });
+
+  it('includes a secondary paragraph per line in bilingual mode', () => {
+    const ttml = generateTtml(SUBS, DEFAULT_CONFIG, 'bilingual');
+    expect(ttml).toContain('<style xml:id="secondary"');
+    expect(ttml).toMatch(/style="secondary" region="r\d+"><span[^>]*>Hola<\/span><\/p>/);
+  });
+
+  it('writes one paragraph per line in the combined layout', () => {
+    const layout = getBilingualLayout({
+      subtitleStyle: 'combined',
+      combinedLayout: { order: 'primary-first', separator: 'slash', secondaryScale: 0.5 },
+    });
+    const ttml = generateTtml(SUBS, DEFAULT_CONFIG, 'bilingual', layout);
+    expect(ttml).not.toMatch(/<p[^>]*style="secondary"/);
+    // Secondary scaled to half the 5% primary size
+    expect(ttml).toMatch(/style="primary"[^>]*><span[^>]*>Hello<\/span> \/ <span style="secondary" tts:fontSize="2.5c"[^>]*>Hola<\/span><\/p>/);
+  });
+
+  it('converts newlines to <br/>', () => {
+    const ttml = generateTtml([{ id: 'x', startTime: 0, endTime: 1, text: 'a\nb' }], DEFAULT_CONFIG);
+    expect(ttml).toContain('a<br/>b');
+  });
+});
+
+// ============================================================================
+// SBV / JSON / registry
+// ============================================================================
+
+describe('generateSbv', () => {
+  it('round-trips through the SBV parser', () => {
+    const sbv = generateSbv(SUBS);
+    expect(sbv.startsWith('0:00:01.000,0:00:02.500\nHello\n')).toBe(true);
+    expect(parseSbv(sbv).map(l => l.startTime)).toEqual([1, 3, 5]);
+  });
+});
+
+describe('generateJson', () => {
+  it('serialises both tracks and overrides', () => {
+    const json = JSON.parse(generateJson(SUBS, DEFAULT_CONFIG));
+    expect(json.version).toBe(1);
+    expect(json.subtitles[0]).toEqual({ id: '1', startTime: 1, endTime: 2.5, text: 'Hello', secondaryText: 'Hola' });
+    expect(json.subtitles[2].styleOverrides).toEqual({ alignment: 8, color: '#ff0000' });
+  });
+});
+
+describe('SUBTITLE_EXPORTERS', () => {
+  it('generates every registered format', () => {
+    for (const exporter of Object.values(SUBTITLE_EXPORTERS)) {
+      const output = exporter.generate(SUBS, DEFAULT_CONFIG, { track: 'bilingual' });
+      expect(output.length).toBeGreaterThan(0);
+    }
+  });
+
+  it('validates format ids', () => {
+    expect(isSubtitleExportFormat('vtt')).toBe(true);
+    expect(isSubtitleExportFormat('scc')).toBe(false);
+    expect(isSubtitleExportFormat('toString')).toBe(false);
+  });
+});
+
+describe('getExportFilename', () => {
+  it('sanitises the base name and adds a track suffix', () => {
+    expect(getExportFilename('My Clip.mp4', 'vtt', 'bilingual')).toBe('My_Clip.bilingual.vtt');
+    expect(getExportFilename(null, 'srt')).toBe('subtitles.srt');
+    expect(getExportFilename('clip', 'ass', 'secondary')).toBe('clip.ass');
+  });
+});
+
+describe('flattenProjectSubtitles', () => {
+  it('shifts V2 clip subtitles into project time', () => {
+    const project: MultiVideoProjectState = {
+      version: 2,
+      timestamp: 0,
+      clips: [
+        { id: 'a', filePath: '/a.mp4', originalFilename: 'a.mp4', duration: 10, width: 1920, height: 1080, subtitles: [{ id: 's1', startTime: 1, endTime: 2, text: 'A' }] },
+        { id: 'b', filePath: '/b.mp4', originalFilename: 'b.mp4', duration: 10, width: 1920, height: 1080, subtitles: [{ id: 's2', startTime: 6, endTime: 7, text: 'B' }] },
+      ],
+      timeline: [
+        { id: 't1', videoClipId: 'a', projectStartTime: 0, sourceInPoint: 0, clipDuration: 10 },
+        { id: 't2', videoClipId: 'b', projectStartTime: 10, sourceInPoint: 5, clipDuration: 5 },
+      ],
+      projectConfig: DEFAULT_PROJECT_CONFIG,
+      subtitleConfig: DEFAULT_CONFIG,
+    };
+
+    const flat = flattenProjectSubtitles(project);
+    expect(flat.map(s => [s.text, s.startTime, s.endTime])).toEqual([['A', 1, 2], ['B', 11, 12]]);
+  });
+});
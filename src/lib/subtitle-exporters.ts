@@ -0,0 +1,393 @@
+/**
+ * Subtitle export registry
+ *
+ * Sidecar subtitle formats (SRT, WebVTT, TTML/IMSC1, SBV, JSON, ASS, plain text)
+ * keyed by format id. Pure string generation so it can run client-side or in
+ * the /api/export/subtitles route.
+ */
+
+import {
+  SubtitleLine,
+  SubtitleConfig,
+  TrackStyle,
+  BilingualLayout,
+  MultiVideoProjectState,
+  DEFAULT_GLOBAL_SETTINGS,
+} from "@/types/subtitle";
+import { formatTimestamp, generateSrtContent } from "./time-utils";
+import { generateAss, VideoDimensions } from "./ass-utils";
+import { normalizeToPx, getLineOverrides, getTrackStyles, resolveLineStyle, StyleDefaults } from "./style-resolver";
+import { stripRichText } from "./rich-text";
+import { DEFAULT_BILINGUAL_LAYOUT, combineTrackText, getCombinedSegments, getCombinedSeparator } from "./bilingual-layout";
+import { getFlattenedSubtitles } from "./timeline-utils";
+
+export type SubtitleExportFormat = 'srt' | 'vtt' | 'ttml' | 'sbv' | 'json' | 'ass' | 'txt';
+
+/** Which text a sidecar carries; 'bilingual' stacks text above secondaryText */
+export type SubtitleExportTrack = 'primary' | 'secondary' | 'bilingual';
+
+export interface SubtitleExportOptions {
+  track?: SubtitleExportTrack;
+  videoDimensions?: VideoDimensions; // ASS only
+  layout?: BilingualLayout; // Bilingual track and ASS; defaults to split
+  defaults?: StyleDefaults; // Stored global styles; defaults to DEFAULT_GLOBAL_SETTINGS
+}
+
+export interface SubtitleExporter {
+  format: SubtitleExportFormat;
+  label: string;
+  extension: string;
+  mimeType: string;
+  /** False for formats that always carry both tracks (ASS, JSON) */
+  supportsTrack: boolean;
+  generate: (subtitles: SubtitleLine[], config: SubtitleConfig, options?: SubtitleExportOptions) => string;
+}
+
+// ============================================================================
+// Shared helpers
+// ============================================================================
+
+/**
+ * A line's text for the track. Bilingual text follows the combined layout's
+ * order and separator when that layout is on; `allowBlank` is false for
+ * formats where a blank line ends the cue.
+ */
+function trackText(sub: SubtitleLine, track: SubtitleExportTrack, layout: BilingualLayout, allowBlank: boolean): string {
+  if (track === 'primary') return sub.text || '';
+  if (track === 'secondary') return sub.secondaryText || '';
+  if (layout.mode === 'combined') return combineTrackText(sub, layout, allowBlank);
+  return [sub.text, sub.secondaryText].filter(Boolean).join('\n');
+}
+
+function linesForTrack(
+  subtitles: SubtitleLine[],
+  track: SubtitleExportTrack,
+  layout: BilingualLayout = DEFAULT_BILINGUAL_LAYOUT,
+  allowBlank = false
+) {
+  return subtitles
+    .map(sub => ({ sub, text: trackText(sub, track, layout, allowBlank) }))
+    .filter(entry => entry.text.length > 0);
+}
+
+/** "HH:MM:SS.mmm" as used by WebVTT and TTML */
+function formatDotTimestamp(seconds: number): string {
+  return formatTimestamp(seconds).replace(',', '.');
+}
+
+/** Percent value for a margin stored as a number or a legacy "4%" string */
+function toPercent(value: number | string | undefined): number {
+  return Math.round(normalizeToPx(value, 100) * 100) / 100;
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// ============================================================================
+// SRT
+// ============================================================================
+
+export function generateSrt(
+  subtitles: SubtitleLine[],
+  track: SubtitleExportTrack = 'primary',
+  layout: BilingualLayout = DEFAULT_BILINGUAL_LAYOUT
+): string {
+  if (track !== 'bilingual') return generateSrtContent(subtitles, track);
+  return linesForTrack(subtitles, track, layout)
+    .map(({ sub, text }, index) =>
+      `${index + 1}\n${formatTimestamp(sub.startTime)} --> ${formatTimestamp(sub.endTime)}\n${text}\n`
+    )
+    .join('\n');
+}
+
+// ============================================================================
+// WebVTT
+// ============================================================================
+
+/**
+ * WebVTT cue settings derived from a resolved TrackStyle: the numpad row picks
+ * the `line:` anchor (offset by marginV), the column picks `align:`/`position:`
+ * (offset by marginH).
+ */
+export function getVttCueSettings(style: TrackStyle): string {
+  const marginV = toPercent(style.marginV);
+  const marginH = toPercent(style.marginH);
+  const row = Math.ceil(style.alignment / 3); // 1 = bottom, 2 = middle, 3 = top
+  const column = (style.alignment - 1) % 3; // 0 = left, 1 = center, 2 = right
+
+  const settings: string[] = [];
+  if (row === 1) settings.push(`line:${100 - marginV}%,end`);
+  else if (row === 2) settings.push('line:50%,center');
+  else settings.push(`line:${marginV}%,start`);
+
+  if (column === 0) settings.push(`position:${marginH}%,line-left`, 'align:start');
+  else if (column === 2) settings.push(`position:${100 - marginH}%,line-right`, 'align:end');
+  else settings.push('align:center');
+
+  return settings.join(' ');
+}
+
+function escapeVtt(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+export function generateVtt(
+  subtitles: SubtitleLine[],
+  config: SubtitleConfig,
+  track: SubtitleExportTrack = 'primary',
+  layout: BilingualLayout = DEFAULT_BILINGUAL_LAYOUT,
+  defaults: StyleDefaults = DEFAULT_GLOBAL_SETTINGS
+): string {
+  const styleTrack = track === 'secondary' ? 'secondary' : 'primary';
+  const cues = linesForTrack(subtitles, track, layout).map(({ sub, text }, index) => {
+    const settings = getVttCueSettings(resolveLineStyle(sub, styleTrack, config, defaults));
+    return `${index + 1}\n${formatDotTimestamp(sub.startTime)} --> ${formatDotTimestamp(sub.endTime)} ${settings}\n${escapeVtt(text)}\n`;
+  });
+  return ['WEBVTT\n', ...cues].join('\n');
+}
+
+// ============================================================================
+// TTML / IMSC1
+// ============================================================================
+
+/** CSS colour to a TTML colour expression; rgba alpha is rescaled to 0-255 */
+function toTtmlColor(color: string | undefined): string | undefined {
+  if (!color) return undefined;
+  const value = color.trim();
+  if (/^#([0-9a-f]{6}|[0-9a-f]{8})$/i.test(value)) return value.toLowerCase();
+  if (/^#[0-9a-f]{3}$/i.test(value)) {
+    return `#${value.slice(1).split('').map(c => c + c).join('')}`.toLowerCase();
+  }
+  const rgba = value.match(/^rgba?\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)\s*(?:,\s*([\d.]+)\s*)?\)$/i);
+  if (rgba) {
+    const [, r, g, b, a] = rgba;
+    if (a === undefined) return `rgb(${r},${g},${b})`;
+    return `rgba(${r},${g},${b},${Math.round(Math.min(1, parseFloat(a)) * 255)})`;
+  }
+  return undefined;
+}
+
+function ttmlStyleAttributes(style: Partial<TrackStyle>): string {
+  const attrs: string[] = [];
+  if (style.fontFamily) attrs.push(`tts:fontFamily="${escapeXml(style.fontFamily)}"`);
+  // ttp:cellResolution="100 100" makes 1c = 1% of the video height
+  if (style.fontSize !== undefined) attrs.push(`tts:fontSize="${toPercent(style.fontSize)}c"`);
+  const color = toTtmlColor(style.color);
+  if (color) attrs.push(`tts:color="${color}"`);
+  return attrs.join(' ');
+}
+
+interface TtmlRegion {
+  id: string;
+  alignment: number;
+  marginV: number;
+  marginH: number;
+}
+
+export function generateTtml(
+  subtitles: SubtitleLine[],
+  config: SubtitleConfig,
+  track: SubtitleExportTrack = 'primary',
+  layout: BilingualLayout = DEFAULT_BILINGUAL_LAYOUT,
+  defaults: StyleDefaults = DEFAULT_GLOBAL_SETTINGS
+): string {
+  const regions = new Map<string, TtmlRegion>();
+  const regionFor = (style: TrackStyle): string => {
+    const marginV = toPercent(style.marginV);
+    const marginH = toPercent(style.marginH);
+    const key = `${style.alignment}|${marginV}|${marginH}`;
+    let region = regions.get(key);
+    if (!region) {
+      region = { id: `r${regions.size + 1}`, alignment: style.alignment, marginV, marginH };
+      regions.set(key, region);
+    }
+    return region.id;
+  };
+
+  const trackStyles = getTrackStyles(config, defaults);
+  const tracks: Array<'primary' | 'secondary'> =
+    track === 'bilingual' ? ['primary', 'secondary'] : [track];
+
+  const spanFor = (sub: SubtitleLine, t: 'primary' | 'secondary', text: string, attrs: string[] = []): string => {
+    const background = toTtmlColor(resolveLineStyle(sub, t, config, defaults).backgroundColor);
+    const body = stripRichText(text).split('\n').map(escapeXml).join('<br/>');
+    const allAttrs = [...attrs, ...(background ? [`tts:backgroundColor="${background}"`] : [])];
+    return allAttrs.length > 0 ? `<span ${allAttrs.join(' ')}>${body}</span>` : `<span>${body}</span>`;
+  };
+  const paragraphFor = (sub: SubtitleLine, t: 'primary' | 'secondary', content: string): string => {
+    const overrides = getLineOverrides(sub, t);
+    const lineAttrs = overrides ? ttmlStyleAttributes(overrides) : '';
+    return `      <p begin="${formatDotTimestamp(sub.startTime)}" end="${formatDotTimestamp(sub.endTime)}" style="${t}" region="${regionFor(resolveLineStyle(sub, t, config, defaults))}"${lineAttrs ? ` ${lineAttrs}` : ''}>${content}</p>`;
+  };
+
+  const paragraphs: string[] = [];
+  for (const sub of subtitles) {
+    // Combined: one paragraph placed by the primary track, secondary scaled to it
+    if (track === 'bilingual' && layout.mode === 'combined') {
+      const segments = getCombinedSegments(sub, layout);
+      if (segments.length === 0) continue;
+      const primaryFontSize = resolveLineStyle(sub, 'primary', config, defaults).fontSize;
+      const secondaryOverrides = getLineOverrides(sub, 'secondary');
+      const content = segments.map(segment => segment.track === 'primary'
+        ? spanFor(sub, 'primary', segment.text)
+        : spanFor(sub, 'secondary', segment.text, ['style="secondary"', ttmlStyleAttributes({
+            ...secondaryOverrides,
+            fontSize: secondaryOverrides?.fontSize ?? primaryFontSize * layout.secondaryScale,
+          })])
+      ).join(getCombinedSeparator(layout.separator, '<br/>'));
+      paragraphs.push(paragraphFor(sub, 'primary', content));
+      continue;
+    }
+
+    for (const t of tracks) {
+      const text = t === 'primary' ? sub.text : sub.secondaryText;
+      if (!text) continue;
+      paragraphs.push(paragraphFor(sub, t, spanFor(sub, t, text)));
+    }
+  }
+
+  const styleLines = tracks.map(t =>
+    `      <style xml:id="${t}" ${ttmlStyleAttributes(trackStyles[t])} tts:textOutline="${toTtmlColor(trackStyles[t].outlineColor) || '#000000'} ${toPercent(trackStyles[t].outlineWidth ?? 0.2)}c"/>`
+  );
+
+  const regionLines = Array.from(regions.values()).map(r => {
+    const row = Math.ceil(r.alignment / 3);
+    const column = (r.alignment - 1) % 3;
+    const displayAlign = row === 1 ? 'after' : row === 2 ? 'center' : 'before';
+    const textAlign = column === 0 ? 'start' : column === 2 ? 'end' : 'center';
+    const extentH = Math.max(0, 100 - 2 * r.marginH);
+    const extentV = Math.max(0, 100 - 2 * r.marginV);
+    return `      <region xml:id="${r.id}" tts:origin="${r.marginH}% ${r.marginV}%" tts:extent="${extentH}% ${extentV}%" tts:displayAlign="${displayAlign}" tts:textAlign="${textAlign}"/>`;
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<tt xmlns="http://www.w3.org/ns/ttml" xmlns:tts="http://www.w3.org/ns/ttml#styling" xmlns:ttp="http://www.w3.org/ns/ttml#parameter" ttp:profile="http://www.w3.org/ns/ttml/profile/imsc1/text" ttp:timeBase="media" ttp:cellResolution="100 100" xml:lang="">',
+    '  <head>',
+    '    <styling>',
+    ...styleLines,
+    '    </styling>',
+    '    <layout>',
+    ...regionLines,
+    '    </layout>',
+    '  </head>',
+    '  <body>',
+    '    <div>',
+    ...paragraphs,
+    '    </div>',
+    '  </body>',
+    '</tt>',
+    '',
+  ].join('\n');
+}
+
+// ============================================================================
+// SBV / JSON / TXT
+// ============================================================================
+
+/** YouTube SBV timestamp: "H:MM:SS.mmm" */
+function formatSbvTimestamp(seconds: number): string {
+  return formatDotTimestamp(seconds).replace(/^0(\d)/, '$1');
+}
+
+export function generateSbv(
+  subtitles: SubtitleLine[],
+  track: SubtitleExportTrack = 'primary',
+  layout: BilingualLayout = DEFAULT_BILINGUAL_LAYOUT
+): string {
+  return linesForTrack(subtitles, track, layout)
+    .map(({ sub, text }) => `${formatSbvTimestamp(sub.startTime)},${formatSbvTimestamp(sub.endTime)}\n${stripRichText(text)}\n`)
+    .join('\n');
+}
+
+export function generateJson(subtitles: SubtitleLine[], config: SubtitleConfig): string {
+  return JSON.stringify({
+    version: 1,
+    primaryLanguage: config.primaryLanguage,
+    secondaryLanguage: config.secondaryLanguage,
+    subtitles: subtitles.map(sub => ({
+      id: sub.id,
+      startTime: sub.startTime,
+      endTime: sub.endTime,
+      text: sub.text,
+      ...(sub.secondaryText && { secondaryText: sub.secondaryText }),
+      ...(sub.styleOverrides && { styleOverrides: sub.styleOverrides }),
+      ...(sub.secondaryStyleOverrides && { secondaryStyleOverrides: sub.secondaryStyleOverrides }),
+    })),
+  }, null, 2);
+}
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+export const SUBTITLE_EXPORTERS: Record<SubtitleExportFormat, SubtitleExporter> = {
+  srt: {
+    format: 'srt', label: 'SubRip (.srt)', extension: 'srt', mimeType: 'application/x-subrip', supportsTrack: true,
+    generate: (subs, _config, options) => generateSrt(subs, options?.track, options?.layout),
+  },
+  vtt: {
+    format: 'vtt', label: 'WebVTT (.vtt)', extension: 'vtt', mimeType: 'text/vtt', supportsTrack: true,
+    generate: (subs, config, options) => generateVtt(subs, config, options?.track, options?.layout, options?.defaults),
+  },
+  ttml: {
+    format: 'ttml', label: 'TTML / IMSC1 (.ttml)', extension: 'ttml', mimeType: 'application/ttml+xml', supportsTrack: true,
+    generate: (subs, config, options) => generateTtml(subs, config, options?.track, options?.layout, options?.defaults),
+  },
+  sbv: {
+    format: 'sbv', label: 'YouTube SBV (.sbv)', extension: 'sbv', mimeType: 'text/plain', supportsTrack: true,
+    generate: (subs, _config, options) => generateSbv(subs, options?.track, options?.layout),
+  },
+  json: {
+    format: 'json', label: 'JSON (.json)', extension: 'json', mimeType: 'application/json', supportsTrack: false,
+    generate: (subs, config) => generateJson(subs, config),
+  },
+  ass: {
+    format: 'ass', label: 'Advanced SubStation (.ass)', extension: 'ass', mimeType: 'text/x-ssa', supportsTrack: false,
+    generate: (subs, config, options) => generateAss(subs, config, options?.videoDimensions, options?.layout, options?.defaults),
+  },
+  txt: {
+    format: 'txt', label: 'Transcript (.txt)', extension: 'txt', mimeType: 'text/plain', supportsTrack: true,
+    generate: (subs, _config, options) =>
+      linesForTrack(subs, options?.track ?? 'primary', options?.layout, true).map(entry => stripRichText(entry.text)).join('\n'),
+  },
+};
+
+export function isSubtitleExportFormat(value: unknown): value is SubtitleExportFormat {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(SUBTITLE_EXPORTERS, value);
+}
+
+/**
+ * Build a download filename such as "interview.bilingual.vtt".
+ * The base name is reduced to a header-safe character set.
+ */
+export function getExportFilename(
+  baseName: string | null | undefined,
+  format: SubtitleExportFormat,
+  track: SubtitleExportTrack = 'primary'
+): string {
+  const exporter = SUBTITLE_EXPORTERS[format];
+  const base = (baseName || 'subtitles')
+    .replace(/\.[^.]+$/, '')
+    .replace(/[^a-zA-Z0-9_\-.]/g, '_')
+    .substring(0, 100) || 'subtitles';
+  const suffix = exporter.supportsTrack && track !== 'primary' ? `.${track}` : '';
+  return `${base}${suffix}.${exporter.extension}`;
+}
+
+/**
+ * Flatten a V2 project into project-time SubtitleLines for export, each
+ * carrying its clip's style config (see getFlattenedSubtitles).
+ */
+export function flattenProjectSubtitles(project: MultiVideoProjectState): SubtitleLine[] {
+  return getFlattenedSubtitles(project.clips, project.timeline).map(flat => ({
+    ...flat,
+    startTime: flat.projectStartTime,
+    endTime: flat.projectEndTime,
+  }));
+}
@@ -0,0 +1,319 @@
+/**
+ * Tests for subtitle-parsers.ts - SRT/WebVTT/ASS/SBV import
+ */
+
+import fc from 'fast-check';
+import {
+  parseSrt,
+  parseVtt,
+  parseAss,
+  parseSbv,
+  parseClockTime,
+  detectSubtitleFormat,
+  parseSubtitleFile,
+  isSubtitleFile,
+  SubtitleParseError,
+} from './subtitle-parsers';
+import { generateSrtContent } from './time-utils';
+import { generateAss } from './ass-utils';
+import { DEFAULT_CONFIG, SubtitleLine } from '@/types/subtitle';
+
+// ============================================================================
+// parseClockTime
+// ============================================================================
+
+describe('parseClockTime', () => {
+  it('parses SRT, VTT and ASS clock values', () => {
+    expect(parseClockTime('01:02:03,456')).toBeCloseTo(3723.456);
+    expect(parseClockTime('01:02:03.456')).toBeCloseTo(3723.456);
+    expect(parseClockTime('02:03.456')).toBeCloseTo(123.456);
+  });
+
+  it('scales ASS centiseconds correctly', () => {
+    expect(parseClockTime('0:00:01.50')).toBeCloseTo(1.5);
+    expect(parseClockTime('0:00:01.05')).toBeCloseTo(1.05);
+  });
+
+  it('returns NaN for malformed values', () => {
+    expect(parseClockTime('abc')).toBeNaN();
+    expect(parseClockTime('')).toBeNaN();
+  });
+});
+
+// ============================================================================
+// SRT
+// ============================================================================
+
+describe('parseSrt', () => {
+  it('parses basic cues with multi-line text', () => {
+    const srt = '1\r\n00:00:01,000 --> 00:00:02,500\r\nHello\r\nWorld\r\n\r\n2\r\n00:00:03,000 --> 00:00:04,000\r\nBye\r\n';
+    const lines = parseSrt(srt);
+    expect(lines).toHaveLength(2);
+    expect(lines[0]).toMatchObject({ startTime: 1, endTime: 2.5, text: 'Hello\nWorld' });
+    expect(lines[1]).toMatchObject({ startTime: 3, endTime: 4, text: 'Bye' });
+    expect(lines[0].id).not.toBe(lines[1].id);
+  });
+
+  it('strips formatting tags and maps {\\an8} and font colour to overrides', () => {
+    const srt = '1\n00:00:01,000 --> 00:00:02,000\n{\\an8}<font color="#FF0000"><i>Top</i></font>\n';
+    const [line] = parseSrt(srt);
+    expect(line.text).toBe('Top');
+    expect(line.styleOverrides).toEqual({ alignment: 8, color: '#ff0000' });
+  });
+
+  it('skips malformed blocks and cues that end before they start', () => {
+    const srt = 'garbage\n\n1\n00:00:05,000 --> 00:00:04,000\nBackwards\n\n2\n00:00:06,000 --> 00:00:07,000\nOk\n';
+    const lines = parseSrt(srt);
+    expect(lines).toHaveLength(1);
+    expect(lines[0].text).toBe('Ok');
+  });
+
+  it('round-trips generateSrtContent output', () => {
+    const original: SubtitleLine[] = [
+      { id: 'a', startTime: 0.5, endTime: 2, text: 'First line' },
+      { id: 'b', startTime: 2.25, endTime: 5.125, text: 'Second\nline' },
+    ];
+    const parsed = parseSrt(generateSrtContent(original, 'primary'));
+    expect(parsed.map(({ startTime, endTime, text }) => ({ startTime, endTime, text }))).toEqual(
+      original.map(({ startTime, endTime, text }) => ({ startTime, endTime, text }))
+    );
+  });
+});
+
+// ============================================================================
+// WebVTT
+// ============================================================================
+
+describe('parseVtt', () => {
+  it('skips header, NOTE and STYLE blocks and parses cue identifiers', () => {
+    const vtt = [
+      'WEBVTT - test',
+      '',
+      'NOTE this is a comment',
+      '',
+      'STYLE',
+      '::cue { color: red }',
+      '',
+      'intro',
+      '00:01.000 --> 00:02.000',
+      '<v Roger>Hi &amp; welcome',
+      '',
+    ].join('\n');
+    const lines = parseVtt(vtt);
+    expect(lines).toHaveLength(1);
+    expect(lines[0]).toMatchObject({ startTime: 1, endTime: 2, text: 'Hi & welcome' });
+    expect(lines[0].styleOverrides).toBeUndefined();
+  });
+
+  it('maps cue settings onto numpad alignment', () => {
+    const vtt = [
+      'WEBVTT',
+      '',
+      '00:00:01.000 --> 00:00:02.000 line:0 align:start',
+      'Top left',
+      '',
+      '00:00:03.000 --> 00:00:04.000 line:50% align:end',
+      'Middle right',
+      '',
+      '00:00:05.000 --> 00:00:06.000 line:-1 align:center',
+      'Bottom center',
+      '',
+      '00:00:07.000 --> 00:00:08.000 position:90%',
+      'Bottom right',
+    ].join('\n');
+    const alignments = parseVtt(vtt).map(l => l.styleOverrides?.alignment);
+    expect(alignments).toEqual([7, 6, 2, 3]);
+  });
+
+  it('removes inline karaoke timestamps', () => {
+    const vtt = 'WEBVTT\n\n00:00:01.000 --> 00:00:03.000\nOne <00:00:02.000>two\n';
+    expect(parseVtt(vtt)[0].text).toBe('One two');
+  });
+});
+
+// ============================================================================
+// ASS / SSA
+// ============================================================================
+
+const ASS_FIXTURE = [
+  '[Script Info]',
+  'ScriptType: v4.00+',
+  'PlayResX: 1280',
+  'PlayResY: 720',
+  '',
+  '[V4+ Styles]',
+  'Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding',
+  'Style: Default,Arial,72,&H00FFFFFF,&H000000FF,&H00000000,&H00000000,0,0,0,0,100,100,0,0,1,2,0,2,10,10,10,1',
+  'Style: Sign,Georgia,36,&H0000FFFF,&H000000FF,&H00000000,&H00000000,0,0,0,0,100,100,0,0,1,2,0,8,10,10,10,1',
+  '',
+  '[Events]',
+  'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text',
+  'Dialogue: 0,0:00:01.00,0:00:02.50,Default,,0,0,0,,Hello, world\\Nsecond line',
+  'Comment: 0,0:00:02.00,0:00:03.00,Default,,0,0,0,,ignored',
+  'Dialogue: 0,0:00:03.00,0:00:04.00,Sign,,0,0,0,,Shop sign',
+  'Dialogue: 0,0:00:05.00,0:00:06.00,Default,,0,0,0,,{\\an9\\c&H0000FF&}Red corner',
+].join('\n');
+
+describe('parseAss', () => {
+  it('parses dialogue, keeping commas in text and converting \\N', () => {
+    const lines = parseAss(ASS_FIXTURE);
+    expect(lines).toHaveLength(3);
+    expect(lines[0]).toMatchObject({ startTime: 1, endTime: 2.5, text: 'Hello, world\nsecond line' });
+    expect(lines[0].styleOverrides).toBeUndefined();
+  });
+
+  it('maps non-base styles onto styleOverrides', () => {
+    const sign = parseAss(ASS_FIXTURE)[1];
+    expect(sign.text).toBe('Shop sign');
+    expect(sign.styleOverrides).toEqual({
+      alignment: 8,
+      fontFamily: 'Georgia',
+      color: '#ffff00',
+      // 36px at PlayResY 720, undoing the generator's 2x scaling
+      fontSize: 2.5,
+    });
+  });
+
+  it('maps \\an and \\c override tags', () => {
+    const corner = parseAss(ASS_FIXTURE)[2];
+    expect(corner.text).toBe('Red corner');
+    expect(corner.styleOverrides).toEqual({ alignment: 9, color: '#ff0000' });
+  });
+
+  it('converts legacy SSA alignment values', () => {
+    const ssa = [
+      '[V4 Styles]',
+      'Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, TertiaryColour, BackColour, Bold, Italic, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, AlphaLevel, Encoding',
+      'Style: Default,Arial,20,16777215,65535,65535,0,0,0,1,2,0,2,10,10,10,0,0',
+      'Style: Top,Arial,20,16777215,65535,65535,0,0,0,1,2,0,6,10,10,10,0,0',
+      '',
+      '[Events]',
+      'Format: Marked, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text',
+      'Dialogue: Marked=0,0:00:01.00,0:00:02.00,Default,,0,0,0,,Bottom',
+      'Dialogue: Marked=0,0:00:02.00,0:00:03.00,Default,,0,0,0,,Bottom again',
+      'Dialogue: Marked=0,0:00:03.00,0:00:04.00,Top,,0,0,0,,Top',
+    ].join('\n');
+    const lines = parseAss(ssa);
+    expect(lines[2].styleOverrides).toEqual({ alignment: 8 });
+  });
+
+  it('round-trips generateAss output including secondary text and colour', () => {
+    const original: SubtitleLine[] = [
+      { id: 'a', startTime: 1, endTime: 2.5, text: 'Hello', secondaryText: 'Hola' },
+      { id: 'b', startTime: 3, endTime: 4, text: 'Two\nlines', primaryColor: '#ff8800' },
+    ];
+    const parsed = parseAss(generateAss(original, DEFAULT_CONFIG));
+    expect(parsed).toHaveLength(2);
+    expect(parsed[0]).toMatchObject({ startTime: 1, endTime: 2.5, text: 'Hello', secondaryText: 'Hola' });
+    expect(parsed[0].styleOverrides).toBeUndefined();
+    expect(parsed[1]).toMatchObject({ startTime: 3, endTime: 4, text: 'Two\nlines' });
+    expect(parsed[1].secondaryText).toBeUndefined();
+    expect(parsed[1].styleOverrides).toEqual({ color: '#ff8800' });
+  });
+});
+
+// ============================================================================
+// SBV
+// ============================================================================
+
+describe('parseSbv', () => {
+  it('parses YouTube SBV cues', () => {
+    const sbv = '0:00:01.000,0:00:02.000\nFirst[br]break\n\n0:00:03.500,0:00:04.000\nSecond\n';
+    const lines = parseSbv(sbv);
+    expect(lines).toHaveLength(2);
+    expect(lines[0]).toMatchObject({ startTime: 1, endTime: 2, text: 'First\nbreak' });
+    expect(lines[1]).toMatchObject({ startTime: 3.5, endTime: 4, text: 'Second' });
+  });
+});
+
+// ============================================================================
+// Detection / dispatch
+// ============================================================================
+
+describe('detectSubtitleFormat', () => {
+  it('prefers the file extension', () => {
+    expect(detectSubtitleFormat('', 'movie.SRT')).toBe('srt');
+    expect(detectSubtitleFormat('', 'movie.ssa')).toBe('ass');
+    expect(detectSubtitleFormat('', 'movie.sbv')).toBe('sbv');
+  });
+
+  it('sniffs content when there is no usable extension', () => {
+    expect(detectSubtitleFormat('WEBVTT\n\n00:01.000 --> 00:02.000\nx')).toBe('vtt');
+    expect(detectSubtitleFormat(ASS_FIXTURE, 'upload.txt')).toBe('ass');
+    expect(detectSubtitleFormat('1\n00:00:01,000 --> 00:00:02,000\nx')).toBe('srt');
+    expect(detectSubtitleFormat('0:00:01.000,0:00:02.000\nx')).toBe('sbv');
+    expect(detectSubtitleFormat('just some text')).toBeNull();
+  });
+});
+
+describe('parseSubtitleFile', () => {
+  it('dispatches to the matching parser', () => {
+    const lines = parseSubtitleFile('0:00:01.000,0:00:02.000\nHi\n', 'clip.sbv');
+    expect(lines[0].text).toBe('Hi');
+  });
+
+  it('throws SubtitleParseError for unknown formats and empty files', () => {
+    expect(() => parseSubtitleFile('nothing here')).toThrow(SubtitleParseError);
+    expect(() => parseSubtitleFile('', 'empty.srt')).toThrow(/No subtitle cues/);
+  });
+
+  it('recognises importable extensions', () => {
+    expect(isSubtitleFile('a.VTT')).toBe(true);
+    expect(isSubtitleFile('a.mp4')).toBe(false);
+  });
+});
+
+// ============================================================================
+// Property tests
+// ============================================================================
+
+describe('property: SRT round trip', () => {
+  const textArb = fc
+    .array(fc.stringMatching(/^[A-Za-z0-9 ,.!?']{1,20}$/), { minLength: 1, maxLength: 3 })
+    .map(parts => parts.map(p => p.trim() || 'x').join('\n'));
+
+  it('preserves timing (ms precision) and text', () => {
+    fc.assert(
+      fc.property(
+        fc.array(
+          fc.record({
+            start: fc.integer({ min: 0, max: 36_000_000 }),
+            duration: fc.integer({ min: 1, max: 10_000 }),
+            text: textArb,
+          }),
+          { minLength: 1, maxLength: 20 }
+        ),
+        (cues) => {
+          const subs: SubtitleLine[] = cues
+            .sort((a, b) => a.start - b.start)
+            .map((c, i) => ({
+              id: String(i),
+              startTime: c.start / 1000,
+              endTime: (c.start + c.duration) / 1000,
+              text: c.text,
+            }));
+          const parsed = parseSrt(generateSrtContent(subs, 'primary'));
+          expect(parsed).toHaveLength(subs.length);
+          parsed.forEach((line, i) => {
+            expect(line.startTime).toBeCloseTo(subs[i].startTime, 3);
+            expect(line.endTime).toBeCloseTo(subs[i].endTime, 3);
+            expect(line.text).toBe(subs[i].text);
+          });
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('never throws on arbitrary input', () => {
+    fc.assert(
+      fc.property(fc.string({ maxLength: 500 }), (content) => {
+        parseSrt(content);
+        parseVtt(content);
+        parseAss(`[Events]\n${content}`);
+        parseSbv(content);
+      }),
+      { numRuns: 200 }
+    );
+  });
+});
@@ -0,0 +1,531 @@
+/**
+ * Subtitle import layer
+ *
+ * Turns third-party subtitle files (SRT, WebVTT, ASS/SSA, YouTube SBV) into
+ * SubtitleLine[]. Pure string processing with no fs/DOM access, so the same
+ * parsers run in API routes and in the browser.
+ */
+
+import { SubtitleLine, TrackStyle, Alignment } from "@/types/subtitle";
+import { generateClipId } from "./upload-utils";
+
+export type SubtitleFormat = 'srt' | 'vtt' | 'ass' | 'sbv';
+
+/** File extensions accepted by the import pickers */
+export const SUBTITLE_IMPORT_EXTENSIONS = ['.srt', '.vtt', '.ass', '.ssa', '.sbv'];
+
+export class SubtitleParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SubtitleParseError';
+  }
+}
+
+// ============================================================================
+// Shared helpers
+// ============================================================================
+
+function normalizeNewlines(content: string): string {
+  return content.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+}
+
+/**
+ * Parse a clock value such as "01:02:03,456", "02:03.456" or "0:00:01.50".
+ * The fractional part is scaled by its digit count, so ASS centiseconds
+ * ("1.50" = 1.5s) are handled correctly. Returns NaN if the value is malformed.
+ */
+export function parseClockTime(value: string): number {
+  const match = value.trim().match(/^(?:(\d+):)?(\d{1,2}):(\d{1,2})(?:[.,](\d{1,3}))?$/);
+  if (!match) return NaN;
+  const [, h, m, s, frac] = match;
+  const fraction = frac ? parseInt(frac.padEnd(3, '0'), 10) / 1000 : 0;
+  return parseInt(h || '0', 10) * 3600 + parseInt(m, 10) * 60 + parseInt(s, 10) + fraction;
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lrm;|&rlm;/g, '')
+    .replace(/&amp;/g, '&');
+}
+
+/** Numpad alignment from a row (0 = bottom, 1 = middle, 2 = top) and column (0 = left, 1 = center, 2 = right) */
+function toAlignment(row: number, column: number): Alignment {
+  return (row * 3 + column + 1) as Alignment;
+}
+
+/** Legacy SSA alignment (1-3 bottom, 5-7 top, 9-11 middle) to numpad */
+function legacyToNumpad(value: number): Alignment | undefined {
+  if (value >= 1 && value <= 3) return value as Alignment;
+  if (value >= 5 && value <= 7) return (value + 2) as Alignment;
+  if (value >= 9 && value <= 11) return (value - 5) as Alignment;
+  return undefined;
+}
+
+/** ASS colour (&HAABBGGRR, &HBBGGRR or SSA decimal) to #rrggbb */
+function assColorToHex(value: string): string | undefined {
+  const trimmed = value.trim().replace(/&$/, '');
+  let bgr: number;
+  if (/^&H[0-9a-f]+$/i.test(trimmed)) {
+    bgr = parseInt(trimmed.slice(2), 16);
+  } else if (/^-?\d+$/.test(trimmed)) {
+    bgr = parseInt(trimmed, 10);
+  } else {
+    return undefined;
+  }
+  if (!Number.isFinite(bgr)) return undefined;
+  const b = (bgr >>> 16) & 0xff;
+  const g = (bgr >>> 8) & 0xff;
+  const r = bgr & 0xff;
+  return `#${[r, g, b].map(c => c.toString(16).padStart(2, '0')).join('')}`;
+}
+
+/**
+ * Pull positioning/colour hints out of inline markup shared by SRT-style files:
+ * `{\anN}` tags (common in SRT) and a `<font color>` wrapper.
+ */
+function extractInlineOverrides(text: string): Partial<TrackStyle> {
+  const overrides: Partial<TrackStyle> = {};
+  const an = text.match(/\{[^}]*\\an([1-9])[^}]*\}/);
+  if (an) overrides.alignment = parseInt(an[1], 10) as Alignment;
+  const font = text.match(/<font[^>]*color\s*=\s*["']?(#[0-9a-f]{6})["']?[^>]*>/i);
+  if (font) overrides.color = font[1].toLowerCase();
+  return overrides;
+}
+
+/** Strip HTML-ish tags and ASS override blocks, leaving plain text with \n line breaks */
+function cleanMarkupText(text: string): string {
+  return decodeEntities(
+    text
+      .replace(/\{[^}]*\}/g, '')
+      .replace(/<[^>]+>/g, '')
+  )
+    .split('\n')
+    .map(l => l.trim())
+    .join('\n')
+    .trim();
+}
+
+function buildLine(
+  startTime: number,
+  endTime: number,
+  text: string,
+  styleOverrides?: Partial<TrackStyle>
+): SubtitleLine | null {
+  if (!Number.isFinite(startTime) || !Number.isFinite(endTime) || endTime < startTime) return null;
+  if (!text) return null;
+  const line: SubtitleLine = { id: generateClipId(), startTime, endTime, text };
+  if (styleOverrides && Object.keys(styleOverrides).length > 0) {
+    line.styleOverrides = styleOverrides;
+  }
+  return line;
+}
+
+function sortByStart(lines: SubtitleLine[]): SubtitleLine[] {
+  return lines.sort((a, b) => a.startTime - b.startTime);
+}
+
+function splitBlocks(content: string): string[][] {
+  return normalizeNewlines(content)
+    .split(/\n[ \t]*\n/)
+    .map(block => block.split('\n'))
+    .filter(lines => lines.some(l => l.trim() !== ''));
+}
+
+// ============================================================================
+// SRT
+// ============================================================================
+
+export function parseSrt(content: string): SubtitleLine[] {
+  const lines: SubtitleLine[] = [];
+
+  for (const block of splitBlocks(content)) {
+    const timingIndex = block.findIndex(l => l.includes('-->'));
+    if (timingIndex === -1) continue;
+
+    const timing = block[timingIndex].match(/^\s*(\S+)\s*-->\s*(\S+)/);
+    if (!timing) continue;
+
+    const rawText = block.slice(timingIndex + 1).join('\n');
+    const line = buildLine(
+      parseClockTime(timing[1]),
+      parseClockTime(timing[2]),
+      cleanMarkupText(rawText),
+      extractInlineOverrides(rawText)
+    );
+    if (line) lines.push(line);
+  }
+
+  return sortByStart(lines);
+}
+
+// ============================================================================
+// WebVTT
+// ============================================================================
+
+/**
+ * Map WebVTT cue settings (`align:`, `line:`, `position:`) onto a numpad
+ * alignment. Returns undefined when the cue carries no positioning settings.
+ */
+function vttSettingsToAlignment(settings: string): Alignment | undefined {
+  const values: Record<string, string> = {};
+  for (const token of settings.trim().split(/\s+/)) {
+    const [key, value] = token.split(':');
+    if (key && value !== undefined) values[key] = value;
+  }
+  if (!values.align && !values.line && !values.position) return undefined;
+
+  // Column: explicit align wins, otherwise infer from position
+  let column = 1;
+  const align = values.align;
+  if (align === 'start' || align === 'left') column = 0;
+  else if (align === 'end' || align === 'right') column = 2;
+  else if (!align && values.position) {
+    const pos = parseFloat(values.position);
+    if (pos <= 25) column = 0;
+    else if (pos >= 75) column = 2;
+  }
+
+  // Row: percentages split into thirds; integer lines count from the top
+  // (non-negative) or from the bottom (negative)
+  let row = 0;
+  if (values.line) {
+    const lineValue = values.line.split(',')[0];
+    if (lineValue.endsWith('%')) {
+      const pct = parseFloat(lineValue);
+      if (pct < 33) row = 2;
+      else if (pct < 67) row = 1;
+    } else {
+      const n = parseFloat(lineValue);
+      if (Number.isFinite(n) && n >= 0) row = 2;
+    }
+  }
+
+  return toAlignment(row, column);
+}
+
+export function parseVtt(content: string): SubtitleLine[] {
+  const lines: SubtitleLine[] = [];
+  const blocks = splitBlocks(content);
+
+  for (const block of blocks) {
+    const first = block[0].trim();
+    if (first.startsWith('WEBVTT') || /^(NOTE|STYLE|REGION)(\s|$)/.test(first)) continue;
+
+    const timingIndex = block.findIndex(l => l.includes('-->'));
+    if (timingIndex === -1) continue;
+
+    const timing = block[timingIndex].match(/^\s*(\S+)\s*-->\s*(\S+)(.*)$/);
+    if (!timing) continue;
+
+    // Drop inline cue timestamps (karaoke) and voice spans before cleaning
+    const rawText = block
+      .slice(timingIndex + 1)
+      .join('\n')
+      .replace(/<\d{1,2}:\d{2}(?::\d{2})?\.\d{3}>/g, '');
+
+    const overrides = extractInlineOverrides(rawText);
+    const alignment = vttSettingsToAlignment(timing[3]);
+    if (alignment !== undefined) overrides.alignment = alignment;
+
+    const line = buildLine(
+      parseClockTime(timing[1]),
+      parseClockTime(timing[2]),
+      cleanMarkupText(rawText),
+      overrides
+    );
+    if (line) lines.push(line);
+  }
+
+  return sortByStart(lines);
+}
+
+// ============================================================================
+// ASS / SSA
+// ============================================================================
+
+interface AssStyle {
+  name: string;
+  fontFamily?: string;
+  fontSize?: number;
+  color?: string;
+  alignment?: Alignment;
+}
+
+interface AssEvent {
+  start: number;
+  end: number;
+  style: string;
+  text: string;
+}
+
+/** Split a comma-separated ASS row into `count` fields; the last field keeps any commas */
+function splitAssFields(value: string, count: number): string[] {
+  const parts = value.split(',');
+  if (parts.length <= count) return parts.map(p => p.trim());
+  const head = parts.slice(0, count - 1).map(p => p.trim());
+  return [...head, parts.slice(count - 1).join(',')];
+}
+
+function parseAssFormat(value: string): string[] {
+  return value.split(',').map(f => f.trim().toLowerCase());
+}
+
+/** Inline override tags from the text's override blocks (`\an`, `\a`, `\c`/`\1c`, `\fn`, `\fs`) */
+function extractAssTagOverrides(text: string, playResY: number): Partial<TrackStyle> {
+  const overrides: Partial<TrackStyle> = {};
+  const blocks = text.match(/\{[^}]*\}/g) || [];
+  for (const block of blocks) {
+    const an = block.match(/\\an([1-9])/);
+    if (an) {
+      overrides.alignment = parseInt(an[1], 10) as Alignment;
+    } else {
+      const legacy = block.match(/\\a(\d{1,2})(?![0-9])/);
+      const mapped = legacy ? legacyToNumpad(parseInt(legacy[1], 10)) : undefined;
+      if (mapped) overrides.alignment = mapped;
+    }
+    const color = block.match(/\\1?c(&H[0-9a-f]+&?)/i);
+    if (color) {
+      const hex = assColorToHex(color[1]);
+      if (hex) overrides.color = hex;
+    }
+    const fn = block.match(/\\fn([^\\}]+)/);
+    if (fn) overrides.fontFamily = fn[1].trim();
+    const fs = block.match(/\\fs(\d+(?:\.\d+)?)/);
+    if (fs) overrides.fontSize = assFontSizeToPercent(parseFloat(fs[1]), playResY);
+  }
+  return overrides;
+}
+
+/**
+ * Inverse of the ASS generator's font scaling: generateAss writes
+ * fontSize% × PlayResY / 100 × 2, so divide that back out.
+ */
+function assFontSizeToPercent(size: number, playResY: number): number {
+  return Math.round((size * 100 / (2 * playResY)) * 100) / 100;
+}
+
+function cleanAssText(text: string): string {
+  return decodeEntities(
+    text
+      .replace(/\{[^}]*\}/g, '')
+      .replace(/\\[Nn]/g, '\n')
+      .replace(/\\h/g, ' ')
+  )
+    .split('\n')
+    .map(l => l.trim())
+    .join('\n')
+    .trim();
+}
+
+/** Style fields on `style` that differ from `base`, expressed as TrackStyle overrides */
+function styleDiff(style: AssStyle | undefined, base: AssStyle | undefined): Partial<TrackStyle> {
+  const diff: Partial<TrackStyle> = {};
+  if (!style) return diff;
+  if (style.alignment !== undefined && style.alignment !== base?.alignment) diff.alignment = style.alignment;
+  if (style.fontFamily && style.fontFamily !== base?.fontFamily) diff.fontFamily = style.fontFamily;
+  if (style.color && style.color !== base?.color) diff.color = style.color;
+  if (style.fontSize !== undefined && style.fontSize !== base?.fontSize) diff.fontSize = style.fontSize;
+  return diff;
+}
+
+/**
+ * Parse ASS/SSA `[Events]` dialogue.
+ *
+ * The most-used style becomes the track's base; lines on any other style get
+ * the differing style fields as styleOverrides, with inline tags layered on
+ * top. Files written by generateAss (Primary/Secondary styles) round-trip:
+ * Secondary events are folded back into the matching line's secondaryText.
+ */
+export function parseAss(content: string): SubtitleLine[] {
+  let section = '';
+  let playResY = 288; // libass default when the script doesn't declare one
+  let legacyAlignment = false;
+  let styleFormat: string[] = [];
+  let eventFormat: string[] = [];
+  const styles = new Map<string, AssStyle>();
+  const rawStyles: Array<Record<string, string>> = [];
+  const events: AssEvent[] = [];
+
+  for (const rawLine of normalizeNewlines(content).split('\n')) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith(';')) continue;
+
+    const header = line.match(/^\[(.+)\]$/);
+    if (header) {
+      section = header[1].toLowerCase();
+      if (section === 'v4 styles') legacyAlignment = true;
+      continue;
+    }
+
+    const colon = line.indexOf(':');
+    if (colon === -1) continue;
+    const key = line.slice(0, colon).trim().toLowerCase();
+    const value = line.slice(colon + 1).trim();
+
+    if (section === 'script info') {
+      if (key === 'playresy') {
+        const parsed = parseInt(value, 10);
+        if (parsed > 0) playResY = parsed;
+      }
+    } else if (section === 'v4+ styles' || section === 'v4 styles') {
+      if (key === 'format') {
+        styleFormat = parseAssFormat(value);
+      } else if (key === 'style' && styleFormat.length > 0) {
+        const fields = splitAssFields(value, styleFormat.length);
+        const record: Record<string, string> = {};
+        styleFormat.forEach((name, i) => { record[name] = fields[i] ?? ''; });
+        rawStyles.push(record);
+      }
+    } else if (section === 'events') {
+      if (key === 'format') {
+        eventFormat = parseAssFormat(value);
+      } else if (key === 'dialogue') {
+        const format = eventFormat.length > 0
+          ? eventFormat
+          : ['layer', 'start', 'end', 'style', 'name', 'marginl', 'marginr', 'marginv', 'effect', 'text'];
+        const fields = splitAssFields(value, format.length);
+        const get = (name: string) => fields[format.indexOf(name)] ?? '';
+        events.push({
+          start: parseClockTime(get('start')),
+          end: parseClockTime(get('end')),
+          style: get('style').replace(/^\*/, '') || 'Default',
+          text: get('text'),
+        });
+      }
+    }
+  }
+
+  if (events.length === 0 && !/\[events\]/i.test(content)) {
+    throw new SubtitleParseError('No [Events] section found in ASS/SSA file');
+  }
+
+  // Styles are resolved after the whole file is read so PlayResY is known
+  for (const record of rawStyles) {
+    const alignmentValue = parseInt(record.alignment, 10);
+    const fontSize = parseFloat(record.fontsize);
+    styles.set(record.name, {
+      name: record.name,
+      fontFamily: record.fontname || undefined,
+      fontSize: Number.isFinite(fontSize) ? assFontSizeToPercent(fontSize, playResY) : undefined,
+      color: record.primarycolour ? assColorToHex(record.primarycolour) : undefined,
+      alignment: Number.isFinite(alignmentValue)
+        ? (legacyAlignment ? legacyToNumpad(alignmentValue) : (alignmentValue >= 1 && alignmentValue <= 9 ? alignmentValue as Alignment : undefined))
+        : undefined,
+    });
+  }
+
+  // SubtitleGem's own exports keep translations on a separate Secondary style
+  const isBilingual = styles.has('Primary') && styles.has('Secondary');
+  const secondaryByTime = new Map<string, string>();
+  let primaryEvents = events;
+  if (isBilingual) {
+    primaryEvents = events.filter(e => e.style !== 'Secondary');
+    for (const e of events) {
+      if (e.style === 'Secondary') secondaryByTime.set(`${e.start}|${e.end}`, cleanAssText(e.text));
+    }
+  }
+
+  // The most used style acts as the track style; others become overrides
+  const usage = new Map<string, number>();
+  for (const e of primaryEvents) usage.set(e.style, (usage.get(e.style) || 0) + 1);
+  let baseStyleName = '';
+  let bestCount = -1;
+  for (const [name, count] of usage) {
+    if (count > bestCount) {
+      baseStyleName = name;
+      bestCount = count;
+    }
+  }
+  const baseStyle = styles.get(baseStyleName);
+
+  const lines: SubtitleLine[] = [];
+  for (const event of primaryEvents) {
+    const overrides = {
+      ...styleDiff(event.style === baseStyleName ? undefined : styles.get(event.style), baseStyle),
+      ...extractAssTagOverrides(event.text, playResY),
+    };
+    const line = buildLine(event.start, event.end, cleanAssText(event.text), overrides);
+    if (!line) continue;
+    const secondary = secondaryByTime.get(`${event.start}|${event.end}`);
+    if (secondary) line.secondaryText = secondary;
+    lines.push(line);
+  }
+
+  return sortByStart(lines);
+}
+
+// ============================================================================
+// SBV (YouTube)
+// ============================================================================
+
+export function parseSbv(content: string): SubtitleLine[] {
+  const lines: SubtitleLine[] = [];
+
+  for (const block of splitBlocks(content)) {
+    const timing = block[0].trim().match(/^([\d:.]+),([\d:.]+)$/);
+    if (!timing) continue;
+
+    const rawText = block.slice(1).join('\n').replace(/\[br\]/gi, '\n');
+    const line = buildLine(
+      parseClockTime(timing[1]),
+      parseClockTime(timing[2]),
+      cleanMarkupText(rawText)
+    );
+    if (line) lines.push(line);
+  }
+
+  return sortByStart(lines);
+}
+
+// ============================================================================
+// Detection / dispatch
+// ============================================================================
+
+/**
+ * Detect a subtitle format from the filename extension, falling back to
+ * sniffing the content. Returns null when the format is not recognised.
+ */
+export function detectSubtitleFormat(content: string, filename?: string): SubtitleFormat | null {
+  const ext = filename?.toLowerCase().match(/\.([a-z0-9]+)$/)?.[1];
+  if (ext === 'srt' || ext === 'vtt' || ext === 'sbv') return ext;
+  if (ext === 'ass' || ext === 'ssa') return 'ass';
+
+  const text = normalizeNewlines(content).trimStart();
+  if (text.startsWith('WEBVTT')) return 'vtt';
+  if (/^\[(Script Info|V4\+? Styles|Events)\]/im.test(text)) return 'ass';
+  if (/-->/.test(text)) return 'srt';
+  if (/^\d+:\d{2}:\d{2}\.\d{3},\d+:\d{2}:\d{2}\.\d{3}\s*$/m.test(text)) return 'sbv';
+  return null;
+}
+
+/** Whether a filename carries one of the importable subtitle extensions */
+export function isSubtitleFile(filename: string): boolean {
+  const lower = filename.toLowerCase();
+  return SUBTITLE_IMPORT_EXTENSIONS.some(ext => lower.endsWith(ext));
+}
+
+/**
+ * Parse a subtitle file of any supported format.
+ * @throws SubtitleParseError if the format is unknown or no cues were found
+ */
+export function parseSubtitleFile(content: string, filename?: string): SubtitleLine[] {
+  const format = detectSubtitleFormat(content, filename);
+  if (!format) {
+    throw new SubtitleParseError('Unrecognised subtitle format');
+  }
+
+  const parsers: Record<SubtitleFormat, (c: string) => SubtitleLine[]> = {
+    srt: parseSrt,
+    vtt: parseVtt,
+    ass: parseAss,
+    sbv: parseSbv,
+  };
+  const lines = parsers[format](content);
+  if (lines.length === 0) {
+    throw new SubtitleParseError(`No subtitle cues found in ${format.toUpperCase()} file`);
+  }
+  return lines;
+}
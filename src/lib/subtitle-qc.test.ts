@@ -0,0 +1,100 @@
+import { checkSubtitles, fixQCIssues, rewrapText, resolveQCRules, countQCErrors, QC_PROFILES } from './subtitle-qc';
+import { SubtitleLine } from '@/types/subtitle';
+
+const line = (id: string, startTime: number, endTime: number, text = 'Hello', extra: Partial<SubtitleLine> = {}): SubtitleLine =>
+  ({ id, startTime, endTime, text, ...extra });
+
+const rules = QC_PROFILES.netflix.rules;
+const context = { fps: 25 };
+
+describe('resolveQCRules', () => {
+  it('applies project overrides on top of the profile', () => {
+    expect(resolveQCRules({ profile: 'bbc', overrides: { maxCps: 12 } })).toMatchObject({ maxCharsPerLine: 37, maxCps: 12 });
+  });
+});
+
+describe('checkSubtitles', () => {
+  it('passes a readable line', () => {
+    expect(checkSubtitles([line('a', 0, 2)], rules, context)).toEqual({});
+  });
+
+  it('flags text layout and reading speed', () => {
+    const text = 'This line is far too long to fit on a single subtitle row\nsecond\nthird';
+    const issues = checkSubtitles([line('a', 0, 1, text, { secondaryText: 'ok' })], rules, context).a;
+
+    expect(issues.map(i => i.rule)).toEqual(['line_length', 'line_count', 'cps']);
+    expect(issues[0]).toMatchObject({ severity: 'error', field: 'text' });
+  });
+
+  it('flags short, long and empty lines', () => {
+    const issues = checkSubtitles([line('a', 0, 0.5, ' '), line('b', 1, 9)], rules, context);
+
+    expect(issues.a.map(i => i.rule)).toEqual(['empty', 'min_duration']);
+    expect(issues.b.map(i => i.rule)).toEqual(['max_duration']);
+  });
+
+  it('compares timing only within a clip', () => {
+    const issues = checkSubtitles([
+      line('a', 0, 2.02, 'One', { clipId: 'c1' }),
+      line('x', 1, 3, 'Other clip', { clipId: 'c2' }),
+      line('b', 2.05, 4, 'Two', { clipId: 'c1' }),
+      line('c', 3.9, 6, 'Three', { clipId: 'c1' }),
+    ], rules, context);
+
+    expect(issues.a.map(i => i.rule)).toEqual(['gap']);
+    expect(issues.b.map(i => i.rule)).toEqual(['overlap']);
+    expect(issues.x).toBeUndefined();
+  });
+
+  it('flags edges near shot changes', () => {
+    const issues = checkSubtitles([line('a', 1.2, 3)], rules, { fps: 25, getShotChanges: () => [1, 3] });
+
+    expect(issues.a).toEqual([expect.objectContaining({ rule: 'shot_change', message: 'Starts 5 frame(s) from a shot change' })]);
+  });
+
+  it('counts errors only', () => {
+    expect(countQCErrors(checkSubtitles([line('a', 0, 0.5, ' '), line('b', 1, 9)], rules, context))).toBe(1);
+  });
+});
+
+describe('rewrapText', () => {
+  it('balances two lines', () => {
+    expect(rewrapText('The quick brown fox jumps over the lazy dog', 30)).toBe('The quick brown fox\njumps over the lazy dog');
+  });
+
+  it('falls back to greedy wrapping', () => {
+    expect(rewrapText('one two three four five six', 9)).toBe('one two\nthree\nfour five\nsix');
+  });
+});
+
+describe('fixQCIssues', () => {
+  it('extends fast lines into the free time before the next line', () => {
+    const subtitles = [line('a', 0, 0.5, 'A fairly long sentence here'), line('b', 1.5, 3.5)];
+    const fixed = fixQCIssues(subtitles, rules, context);
+
+    expect(fixed[0].endTime).toBeCloseTo(1.35);
+    expect(fixed[1]).toBe(subtitles[1]);
+  });
+
+  it('resolves overlaps and rewraps long text', () => {
+    const long = 'This line is far too long to fit on a single subtitle row';
+    const fixed = fixQCIssues([line('a', 0, 3, long), line('b', 2.5, 5)], rules, context, ['a']);
+
+    expect(fixed[0].text).toBe('This line is far too long to\nfit on a single subtitle row');
+    expect(fixed[0].endTime).toBeCloseTo(2.42);
+    // There is no room to slow it down, so only the reading speed remains
+    expect(checkSubtitles(fixed, rules, context).a.map(i => i.rule)).toEqual(['cps']);
+  });
+
+  it('snaps edges to shot changes', () => {
+    const fixed = fixQCIssues([line('a', 1.2, 2.9)], rules, { fps: 25, getShotChanges: () => [1, 3] });
+
+    expect(fixed[0].startTime).toBe(1);
+    expect(fixed[0].endTime).toBeCloseTo(2.92);
+  });
+
+  it('returns the same array when nothing changes', () => {
+    const subtitles = [line('a', 0, 2)];
+    expect(fixQCIssues(subtitles, rules, context)).toBe(subtitles);
+  });
+});
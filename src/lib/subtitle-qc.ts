@@ -0,0 +1,296 @@
+/**
+ * Subtitle quality checks (QC)
+ *
+ * Evaluates lines against broadcast-style readability rules: characters per
+ * line, line count, reading speed, duration, the gap to the next line and
+ * proximity to shot changes. Timing rules compare lines of the same clip
+ * only, since each clip's subtitles are in that clip's source time.
+ */
+
+import { SubtitleLine, QCRules, QCProfileId, QCSettings } from "@/types/subtitle";
+import { stripRichText } from "./rich-text";
+
+export const QC_PROFILES: Record<QCProfileId, { label: string; rules: QCRules }> = {
+  netflix: {
+    label: 'Netflix (English)',
+    rules: { maxCharsPerLine: 42, maxLines: 2, maxCps: 20, minDuration: 5 / 6, maxDuration: 7, minGapFrames: 2, shotChangeFrames: 12 },
+  },
+  bbc: {
+    label: 'BBC',
+    rules: { maxCharsPerLine: 37, maxLines: 2, maxCps: 17, minDuration: 1, maxDuration: 8, minGapFrames: 2, shotChangeFrames: 12 },
+  },
+  relaxed: {
+    label: 'Relaxed',
+    rules: { maxCharsPerLine: 50, maxLines: 3, maxCps: 25, minDuration: 0.5, maxDuration: 10, minGapFrames: 0, shotChangeFrames: 0 },
+  },
+};
+
+export type QCRule =
+  | 'empty'
+  | 'line_length'
+  | 'line_count'
+  | 'cps'
+  | 'min_duration'
+  | 'max_duration'
+  | 'overlap'
+  | 'gap'
+  | 'shot_change';
+
+/** Errors block exports when `QCSettings.blockExport` is set; warnings never do. */
+export type QCSeverity = 'error' | 'warning';
+
+export interface QCIssue {
+  rule: QCRule;
+  severity: QCSeverity;
+  message: string;
+  field?: 'text' | 'secondaryText';
+}
+
+export interface QCContext {
+  fps: number;
+  /** Shot change times (source seconds) for the media a line belongs to */
+  getShotChanges?: (line: SubtitleLine) => number[] | undefined;
+}
+
+const SEVERITY: Record<QCRule, QCSeverity> = {
+  empty: 'warning',
+  line_length: 'error',
+  line_count: 'error',
+  cps: 'error',
+  min_duration: 'error',
+  max_duration: 'warning',
+  overlap: 'error',
+  gap: 'warning',
+  shot_change: 'warning',
+};
+
+const TEXT_FIELDS = ['text', 'secondaryText'] as const;
+
+export function resolveQCRules(settings: QCSettings): QCRules {
+  const base = (QC_PROFILES[settings.profile] ?? QC_PROFILES.netflix).rules;
+  return { ...base, ...settings.overrides };
+}
+
+/** Displayed lines; markup doesn't count towards their length. */
+function textLines(text: string): string[] {
+  return stripRichText(text).split(/\r?\n/);
+}
+
+/** Reading-speed length: characters without line breaks. */
+function readingLength(text: string): number {
+  return textLines(text).join(' ').trim().length;
+}
+
+function requiredDuration(line: SubtitleLine, rules: QCRules): number {
+  const longest = Math.max(...TEXT_FIELDS.map(field => readingLength(line[field] || '')));
+  return Math.max(rules.minDuration, rules.maxCps > 0 ? longest / rules.maxCps : 0);
+}
+
+/**
+ * Lines grouped by clip and sorted by start time, so each line's timing
+ * neighbours are the ones it is actually shown next to.
+ */
+function groupByClip(subtitles: SubtitleLine[]): SubtitleLine[][] {
+  const groups = new Map<string, SubtitleLine[]>();
+  for (const line of subtitles) {
+    const key = line.clipId ?? '';
+    groups.set(key, [...(groups.get(key) || []), line]);
+  }
+  return [...groups.values()].map(group => [...group].sort((a, b) => a.startTime - b.startTime));
+}
+
+function nearestShotChange(time: number, shotChanges: number[] | undefined, window: number): number | null {
+  let nearest: number | null = null;
+  for (const shot of shotChanges || []) {
+    const distance = Math.abs(shot - time);
+    if (distance > 0.001 && distance <= window && (nearest === null || distance < Math.abs(nearest - time))) {
+      nearest = shot;
+    }
+  }
+  return nearest;
+}
+
+function checkLine(line: SubtitleLine, next: SubtitleLine | undefined, rules: QCRules, context: QCContext): QCIssue[] {
+  const issues: QCIssue[] = [];
+  const add = (rule: QCRule, message: string, field?: QCIssue['field']) =>
+    issues.push({ rule, severity: SEVERITY[rule], message, ...(field && { field }) });
+
+  if (line.text.trim() === '') add('empty', 'Line has no text');
+
+  for (const field of TEXT_FIELDS) {
+    const text = line[field];
+    if (!text) continue;
+    const lines = textLines(text);
+    const longest = Math.max(...lines.map(l => l.length));
+    if (longest > rules.maxCharsPerLine) {
+      add('line_length', `${longest} characters on one line (max ${rules.maxCharsPerLine})`, field);
+    }
+    if (lines.length > rules.maxLines) {
+      add('line_count', `${lines.length} lines (max ${rules.maxLines})`, field);
+    }
+  }
+
+  const duration = line.endTime - line.startTime;
+  const longestText = Math.max(...TEXT_FIELDS.map(field => readingLength(line[field] || '')));
+  const cps = duration > 0 ? longestText / duration : Infinity;
+  if (longestText > 0 && cps > rules.maxCps) {
+    add('cps', `${cps === Infinity ? '∞' : cps.toFixed(1)} characters per second (max ${rules.maxCps})`);
+  }
+  if (duration < rules.minDuration) {
+    add('min_duration', `Shown for ${duration.toFixed(2)}s (min ${rules.minDuration.toFixed(2)}s)`);
+  }
+  if (duration > rules.maxDuration) {
+    add('max_duration', `Shown for ${duration.toFixed(2)}s (max ${rules.maxDuration}s)`);
+  }
+
+  if (next) {
+    const gap = next.startTime - line.endTime;
+    const minGap = rules.minGapFrames / context.fps;
+    if (gap < 0) {
+      add('overlap', `Overlaps the next line by ${(-gap).toFixed(2)}s`);
+    } else if (gap < minGap - 1e-6) {
+      add('gap', `Gap to the next line is ${Math.round(gap * context.fps)} frame(s) (min ${rules.minGapFrames})`);
+    }
+  }
+
+  if (rules.shotChangeFrames > 0) {
+    const window = rules.shotChangeFrames / context.fps;
+    const shotChanges = context.getShotChanges?.(line);
+    const nearStart = nearestShotChange(line.startTime, shotChanges, window);
+    const nearEnd = nearestShotChange(line.endTime, shotChanges, window);
+    if (nearStart !== null) add('shot_change', `Starts ${Math.round(Math.abs(nearStart - line.startTime) * context.fps)} frame(s) from a shot change`);
+    if (nearEnd !== null) add('shot_change', `Ends ${Math.round(Math.abs(nearEnd - line.endTime) * context.fps)} frame(s) from a shot change`);
+  }
+
+  return issues;
+}
+
+/**
+ * Check every line; returns a map of subtitle id -> issues (lines without
+ * issues are omitted).
+ */
+export function checkSubtitles(subtitles: SubtitleLine[], rules: QCRules, context: QCContext): Record<string, QCIssue[]> {
+  const result: Record<string, QCIssue[]> = {};
+  for (const group of groupByClip(subtitles)) {
+    group.forEach((line, index) => {
+      const issues = checkLine(line, group[index + 1], rules, context);
+      if (issues.length > 0) result[line.id] = issues;
+    });
+  }
+  return result;
+}
+
+export function countQCErrors(issues: Record<string, QCIssue[]>): number {
+  return Object.values(issues).reduce((count, list) => count + list.filter(issue => issue.severity === 'error').length, 0);
+}
+
+/**
+ * Re-break text into the fewest lines that fit `maxCharsPerLine`, balancing
+ * a two-line break. Words longer than the limit stay on their own line.
+ */
+export function rewrapText(text: string, maxCharsPerLine: number): string {
+  const words = text.split(/\s+/).filter(Boolean);
+  const flat = words.join(' ');
+  if (flat.length <= maxCharsPerLine) return flat;
+
+  // Balanced two-line split: the break that makes the longer line shortest
+  let best: string | null = null;
+  let bestLongest = Infinity;
+  for (let i = 1; i < words.length; i++) {
+    const first = words.slice(0, i).join(' ');
+    const second = words.slice(i).join(' ');
+    const longest = Math.max(first.length, second.length);
+    if (longest <= maxCharsPerLine && longest < bestLongest) {
+      best = `${first}\n${second}`;
+      bestLongest = longest;
+    }
+  }
+  if (best) return best;
+
+  const lines: string[] = [];
+  for (const word of words) {
+    const last = lines[lines.length - 1];
+    if (last !== undefined && last.length + 1 + word.length <= maxCharsPerLine) {
+      lines[lines.length - 1] = `${last} ${word}`;
+    } else {
+      lines.push(word);
+    }
+  }
+  return lines.join('\n');
+}
+
+function fixLine(line: SubtitleLine, previous: SubtitleLine | undefined, next: SubtitleLine | undefined, rules: QCRules, context: QCContext): SubtitleLine {
+  const fixed = { ...line };
+  const minGap = rules.minGapFrames / context.fps;
+
+  for (const field of TEXT_FIELDS) {
+    const text = fixed[field];
+    if (!text) continue;
+    const lines = textLines(text);
+    if (lines.length > rules.maxLines || lines.some(l => l.length > rules.maxCharsPerLine)) {
+      fixed[field] = rewrapText(text, rules.maxCharsPerLine);
+    }
+  }
+
+  // Sit edges on nearby shot changes
+  if (rules.shotChangeFrames > 0) {
+    const window = rules.shotChangeFrames / context.fps;
+    const shotChanges = context.getShotChanges?.(fixed);
+    const nearStart = nearestShotChange(fixed.startTime, shotChanges, window);
+    if (nearStart !== null && nearStart < fixed.endTime && (!previous || nearStart >= previous.endTime + minGap)) {
+      fixed.startTime = nearStart;
+    }
+    const nearEnd = nearestShotChange(fixed.endTime, shotChanges, window);
+    if (nearEnd !== null && nearEnd - minGap > fixed.startTime) {
+      fixed.endTime = nearEnd - minGap;
+    }
+  }
+
+  const latestEnd = next ? next.startTime - minGap : Infinity;
+  const earliestStart = previous ? previous.endTime + minGap : 0;
+
+  // Too short or too fast: extend the end, then pull the start back
+  const needed = Math.min(requiredDuration(fixed, rules), rules.maxDuration);
+  if (fixed.endTime - fixed.startTime < needed) {
+    fixed.endTime = Math.max(fixed.endTime, Math.min(fixed.startTime + needed, latestEnd));
+    if (fixed.endTime - fixed.startTime < needed) {
+      fixed.startTime = Math.min(fixed.startTime, Math.max(fixed.endTime - needed, earliestStart));
+    }
+  }
+
+  if (fixed.endTime - fixed.startTime > rules.maxDuration) {
+    fixed.endTime = fixed.startTime + rules.maxDuration;
+  }
+
+  // Overlaps and short gaps: end earlier, as long as the line stays visible
+  if (fixed.endTime > latestEnd && latestEnd > fixed.startTime) {
+    fixed.endTime = latestEnd;
+  }
+
+  return fixed;
+}
+
+/**
+ * Apply the automatic fixes to `ids` (or every line), in display order so
+ * each fix sees its already-fixed predecessor. Returns the input array when
+ * nothing changed.
+ */
+export function fixQCIssues(subtitles: SubtitleLine[], rules: QCRules, context: QCContext, ids?: string[]): SubtitleLine[] {
+  const only = ids ? new Set(ids) : null;
+  const fixedById = new Map<string, SubtitleLine>();
+
+  for (const group of groupByClip(subtitles)) {
+    for (let i = 0; i < group.length; i++) {
+      if (only && !only.has(group[i].id)) continue;
+      const fixed = fixLine(group[i], group[i - 1], group[i + 1], rules, context);
+      if (fixed.startTime !== group[i].startTime || fixed.endTime !== group[i].endTime
+        || fixed.text !== group[i].text || fixed.secondaryText !== group[i].secondaryText) {
+        group[i] = fixed;
+        fixedById.set(fixed.id, fixed);
+      }
+    }
+  }
+
+  if (fixedById.size === 0) return subtitles;
+  return subtitles.map(line => fixedById.get(line.id) ?? line);
+}
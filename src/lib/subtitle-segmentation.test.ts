@@ -0,0 +1,109 @@
+import { breakLines, segmentLine, segmentSubtitles, getSegmentationOptions, textWidth } from './subtitle-segmentation';
+import { DEFAULT_GLOBAL_SETTINGS, SubtitleLine } from '@/types/subtitle';
+
+const line = (text: string, extra: Partial<SubtitleLine> = {}): SubtitleLine =>
+  ({ id: 'a', startTime: 10, endTime: 20, text, ...extra });
+
+describe('getSegmentationOptions', () => {
+  it('derives line width from font size, margins and resolution', () => {
+    const style = DEFAULT_GLOBAL_SETTINGS.defaultPrimaryStyle; // 5% font, 4% margins
+    expect(getSegmentationOptions(style, 1920, 1080).maxLineWidth).toBe(65);
+    expect(getSegmentationOptions({ ...style, fontSize: 10 }, 1920, 1080).maxLineWidth).toBe(32);
+    // Portrait video has far less room per line
+    expect(getSegmentationOptions(style, 1080, 1920).maxLineWidth).toBe(20);
+  });
+});
+
+describe('textWidth', () => {
+  it('counts full-width characters double', () => {
+    expect(textWidth('abc')).toBe(3);
+    expect(textWidth('日本語')).toBe(6);
+    expect(textWidth('한국어!')).toBe(7);
+  });
+});
+
+describe('breakLines', () => {
+  it('keeps text that fits on one line', () => {
+    expect(breakLines('Short\nline', 40)).toBe('Short line');
+  });
+
+  it('balances two lines', () => {
+    expect(breakLines('The quick brown fox jumps over the lazy dog', 30)).toBe('The quick brown fox\njumps over the lazy dog');
+  });
+
+  it('prefers a clause boundary near the middle', () => {
+    expect(breakLines('When the rain stopped, we finally went outside to play', 40))
+      .toBe('When the rain stopped,\nwe finally went outside to play');
+  });
+
+  it('breaks CJK text between characters but not before closing punctuation', () => {
+    const text = breakLines('今日はとても良い天気ですね。散歩に行きましょう', 30);
+    expect(text).toBe('今日はとても良い天気ですね。\n散歩に行きましょう');
+    expect(text.split('\n').every(l => textWidth(l) <= 30)).toBe(true);
+  });
+});
+
+describe('segmentLine', () => {
+  const options = { maxLineWidth: 30, maxLines: 2 };
+
+  it('splits at clause boundaries and chains the timings', () => {
+    const pieces = segmentLine(line(
+      'I told you already. We are not going back there tonight, no matter what anyone says about it.'
+    ), options);
+
+    expect(pieces.map(p => p.text)).toEqual([
+      'I told you already. We are\nnot going back there tonight,',
+      'no matter what anyone\nsays about it.',
+    ]);
+    expect(pieces[0]).toMatchObject({ id: 'a', startTime: 10 });
+    expect(pieces[1].id).not.toBe('a');
+    expect(pieces[1].startTime).toBe(pieces[0].endTime);
+    expect(pieces[1].endTime).toBe(20);
+  });
+
+  it('shares time by reading length', () => {
+    const pieces = segmentLine(line('aaaa bbbb cccc dddd. eeee ffff gggg hhhh.', { startTime: 0, endTime: 4.1 }), { maxLineWidth: 20, maxLines: 1 });
+
+    expect(pieces.map(p => p.text)).toEqual(['aaaa bbbb cccc dddd.', 'eeee ffff gggg hhhh.']);
+    expect(pieces[0].endTime).toBeCloseTo(2);
+  });
+
+  it('splits the translation at the same relative position', () => {
+    const pieces = segmentLine(line('One two three four. Five six seven eight.', {
+      secondaryText: 'Uno dos tres cuatro. Cinco seis siete ocho.',
+    }), { maxLineWidth: 22, maxLines: 1, secondaryMaxLineWidth: 25 });
+
+    expect(pieces.map(p => p.secondaryText)).toEqual(['Uno dos tres cuatro.', 'Cinco seis siete ocho.']);
+  });
+
+  it('segments CJK text without spaces', () => {
+    const text = '今日はとても良い天気ですね。散歩に行きましょう。公園でお弁当を食べたいです。';
+    const pieces = segmentLine(line(text), { maxLineWidth: 30, maxLines: 1 });
+
+    expect(pieces.map(p => p.text)).toEqual(['今日はとても良い天気ですね。', '散歩に行きましょう。', '公園でお弁当を食べたいです。']);
+  });
+
+  it('returns the line itself when it already fits', () => {
+    const subtitle = line('Short line');
+    expect(segmentLine(subtitle, options)).toEqual([subtitle]);
+    expect(segmentLine(subtitle, options)[0]).toBe(subtitle);
+  });
+});
+
+describe('segmentSubtitles', () => {
+  const long = 'This is a very long subtitle line, the kind that AI models produce all the time, and it keeps going.';
+
+  it('only touches the requested lines', () => {
+    const subtitles = [line(long, { id: 'a' }), line(long, { id: 'b', startTime: 20, endTime: 30 })];
+    const result = segmentSubtitles(subtitles, { maxLineWidth: 30, maxLines: 2 }, ['b']);
+
+    expect(result[0]).toBe(subtitles[0]);
+    expect(result.length).toBeGreaterThan(2);
+    expect(result[1].id).toBe('b');
+  });
+
+  it('returns the same array when nothing changes', () => {
+    const subtitles = [line('Fine')];
+    expect(segmentSubtitles(subtitles, { maxLineWidth: 30, maxLines: 2 })).toBe(subtitles);
+  });
+});
@@ -0,0 +1,334 @@
+/**
+ * Line breaking and re-segmentation
+ *
+ * Splits over-long cues at sentence and clause boundaries, sharing each
+ * cue's time between the pieces by reading length, and re-breaks cues into
+ * balanced lines. Widths are measured in half-width units: CJK and other
+ * full-width characters count double, and text without spaces may break
+ * between any two characters (except before closing punctuation).
+ */
+
+import { SubtitleLine, TrackStyle, GlobalSettings } from "@/types/subtitle";
+import { REFERENCE_WIDTH, REFERENCE_HEIGHT } from "@/types/constants";
+import { generateClipId } from "./upload-utils";
+
+export interface SegmentationOptions {
+  /** Primary line width in half-width units */
+  maxLineWidth: number;
+  /** Secondary line width; defaults to `maxLineWidth` */
+  secondaryMaxLineWidth?: number;
+  maxLines: number;
+}
+
+// Average Latin glyph width as a share of the font size
+const HALF_WIDTH_EM = 0.5;
+// Plan cues a little under capacity; breaking lines at word boundaries wastes space
+const CUE_FILL = 0.9;
+// How far from the balanced position a break may move per point of punctuation score
+const BREAK_BONUS = 0.15;
+
+const WIDE = /[ᄀ-ᅟ⺀-〾ぁ-㏿㐀-䶿一-鿿ꥠ-꥿가-힣豈-﫿︰-﹏＀-｠￠-￦\u{20000}-\u{3FFFD}]/u;
+// Kinsoku: characters that may not start a line, and ones that may not end it
+const NO_LINE_START = /^[、。，．・：；？！）」』】〕〉》〗〙〛｝ー’”…‥々ぁぃぅぇぉっゃゅょゎァィゥェォッャュョヮヵヶ,.!?;:)\]}%]/u;
+const NO_LINE_END = /[（「『【〔〈《〖〘〚｛‘“(\[{]$/u;
+
+const SENTENCE_END = /[.!?…。！？]["'”’」』)）]*$/u;
+const CLAUSE_END = /[,;:、，；：—–]["'”’」』)）]*$/u;
+const CONJUNCTIONS = new Set([
+  'and', 'but', 'or', 'so', 'because', 'which', 'who', 'that', 'when', 'while',
+  'if', 'then', 'although', 'though', 'until', 'unless', 'where',
+]);
+
+/**
+ * Line widths for a style at a resolution: the width between the horizontal
+ * margins divided by the average glyph width of the font size.
+ */
+export function getSegmentationOptions(
+  primary: TrackStyle,
+  width: number,
+  height: number,
+  secondary?: TrackStyle,
+  maxLines = 2
+): SegmentationOptions {
+  const lineWidth = (style: TrackStyle) => {
+    const em = (style.fontSize / 100) * height;
+    if (!(em > 0)) return Infinity;
+    const usable = width * (1 - (2 * (style.marginH || 0)) / 100);
+    return Math.max(10, Math.floor(usable / (em * HALF_WIDTH_EM)));
+  };
+  return {
+    maxLineWidth: lineWidth(primary),
+    ...(secondary && { secondaryMaxLineWidth: lineWidth(secondary) }),
+    maxLines,
+  };
+}
+
+/** Options for the optional post-generation pass, or undefined when it is off. */
+export function getGenerationSegmentation(settings: GlobalSettings): SegmentationOptions | undefined {
+  if (!settings.segmentGeneratedSubtitles) return undefined;
+  return getSegmentationOptions(settings.defaultPrimaryStyle, REFERENCE_WIDTH, REFERENCE_HEIGHT, settings.defaultSecondaryStyle);
+}
+
+function isWide(char: string): boolean {
+  return WIDE.test(char);
+}
+
+export function textWidth(text: string): number {
+  let width = 0;
+  for (const char of text) width += isWide(char) ? 2 : 1;
+  return width;
+}
+
+/** A unit that is never broken: a word, or a character of full-width text. */
+interface Atom {
+  text: string;
+  width: number;
+  space: boolean; // Joined to the previous atom with a space
+}
+
+function splitWideRun(word: string): string[] {
+  const pieces: string[] = [];
+  let previous = '';
+  for (const char of word) {
+    const last = pieces.length - 1;
+    const attach = last >= 0 && (
+      (!isWide(char) && !isWide(previous)) || NO_LINE_START.test(char) || NO_LINE_END.test(pieces[last])
+    );
+    if (attach) pieces[last] += char;
+    else pieces.push(char);
+    previous = char;
+  }
+  return pieces;
+}
+
+function tokenize(text: string): Atom[] {
+  const atoms: Atom[] = [];
+  let sawSpace = false;
+  for (const word of text.split(/(\s+)/)) {
+    if (word === '') continue;
+    if (/^\s+$/.test(word)) {
+      sawSpace = atoms.length > 0;
+      continue;
+    }
+    const pieces = [...word].some(isWide) ? splitWideRun(word) : [word];
+    pieces.forEach((piece, index) => {
+      const previous = atoms[atoms.length - 1];
+      // Line breaks inside CJK text join without a space
+      const space = index === 0 && sawSpace && !(isWide([...previous.text].pop()!) && isWide([...piece][0]));
+      atoms.push({ text: piece, width: textWidth(piece), space });
+    });
+    sawSpace = false;
+  }
+  return atoms;
+}
+
+function joinAtoms(atoms: Atom[]): string {
+  return atoms.map((atom, index) => (index > 0 && atom.space ? ' ' : '') + atom.text).join('');
+}
+
+/** Measures of atom ranges [from, to) via prefix sums. */
+class AtomRange {
+  private prefix: number[] = [0];
+
+  constructor(readonly atoms: Atom[]) {
+    atoms.forEach((atom, index) => {
+      this.prefix.push(this.prefix[index] + (index > 0 && atom.space ? 1 : 0) + atom.width);
+    });
+  }
+
+  width(from: number, to: number): number {
+    if (to <= from) return 0;
+    return this.prefix[to] - this.prefix[from] - (from > 0 && this.atoms[from].space ? 1 : 0);
+  }
+
+  /** Fewest lines of at most `maxWidth` (an over-long atom gets a line to itself). */
+  lineCount(from: number, to: number, maxWidth: number): number {
+    if (to <= from) return 0;
+    let lines = 1;
+    let lineStart = from;
+    for (let i = from + 1; i < to; i++) {
+      if (this.width(lineStart, i + 1) > maxWidth) {
+        lines++;
+        lineStart = i;
+      }
+    }
+    return lines;
+  }
+
+  /** Preference for breaking after atom `index`: 3 sentence, 2 clause, 1 before a conjunction. */
+  breakScore(index: number): number {
+    const before = this.atoms[index].text;
+    if (SENTENCE_END.test(before)) return 3;
+    if (CLAUSE_END.test(before)) return 2;
+    const after = this.atoms[index + 1];
+    if (after?.space && CONJUNCTIONS.has(after.text.toLowerCase())) return 1;
+    return 0;
+  }
+
+  join(from: number, to: number): string {
+    return joinAtoms(this.atoms.slice(from, to));
+  }
+}
+
+/**
+ * Break the range into the fewest lines that fit, choosing the breaks that
+ * keep lines closest to equal length, nudged towards punctuation.
+ */
+function balanceRange(range: AtomRange, from: number, to: number, maxWidth: number): string {
+  const count = range.lineCount(from, to, maxWidth);
+  if (count <= 1) return range.join(from, to);
+
+  const target = range.width(from, to) / count;
+  const bonus = (maxWidth * BREAK_BONUS) ** 2;
+  const size = to - from;
+  // cost[k][i]: best cost of atoms [from, from + i) on k lines
+  const cost = Array.from({ length: count + 1 }, () => new Array<number>(size + 1).fill(Infinity));
+  const previous = Array.from({ length: count + 1 }, () => new Array<number>(size + 1).fill(-1));
+  cost[0][0] = 0;
+
+  for (let k = 1; k <= count; k++) {
+    for (let i = 1; i <= size; i++) {
+      for (let j = i - 1; j >= 0; j--) {
+        const width = range.width(from + j, from + i);
+        if (width > maxWidth && i - j > 1) break;
+        if (cost[k - 1][j] === Infinity) continue;
+        let total = cost[k - 1][j] + (width - target) ** 2;
+        if (i < size) total -= range.breakScore(from + i - 1) * bonus;
+        if (total < cost[k][i]) {
+          cost[k][i] = total;
+          previous[k][i] = j;
+        }
+      }
+    }
+  }
+
+  const lines: string[] = [];
+  for (let k = count, i = size; k > 0; k--) {
+    const j = previous[k][i];
+    lines.unshift(range.join(from + j, from + i));
+    i = j;
+  }
+  return lines.join('\n');
+}
+
+/** Re-break text into balanced lines of at most `maxLineWidth` half-width units. */
+export function breakLines(text: string, maxLineWidth: number): string {
+  const range = new AtomRange(tokenize(text));
+  return balanceRange(range, 0, range.atoms.length, maxLineWidth);
+}
+
+/**
+ * Atom indices where each cue after the first starts. Each cue is cut as
+ * close to an even share of the remaining text as punctuation allows,
+ * never past the point where it would need more than `maxLines` lines.
+ */
+function planCues(range: AtomRange, maxWidth: number, maxLines: number): number[] {
+  const total = range.atoms.length;
+  const capacity = maxWidth * maxLines;
+  const starts: number[] = [];
+
+  let from = 0;
+  while (range.lineCount(from, total, maxWidth) > maxLines) {
+    let farthest = from + 1;
+    while (farthest < total && range.lineCount(from, farthest + 1, maxWidth) <= maxLines) farthest++;
+
+    const remaining = range.width(from, total);
+    const target = remaining / Math.max(2, Math.ceil(remaining / (capacity * CUE_FILL)));
+    let best = farthest;
+    let bestCost = Infinity;
+    for (let end = from + 1; end <= farthest; end++) {
+      const cost = Math.abs(range.width(from, end) - target) - range.breakScore(end - 1) * capacity * BREAK_BONUS;
+      if (cost < bestCost) {
+        best = end;
+        bestCost = cost;
+      }
+    }
+
+    starts.push(best);
+    from = best;
+  }
+  return starts;
+}
+
+/** Cut a translation at the same relative positions, preferring nearby punctuation. */
+function splitAtRatios(range: AtomRange, ratios: number[], maxWidth: number): number[] {
+  const total = range.width(0, range.atoms.length);
+  const starts: number[] = [];
+  let from = 0;
+  for (const ratio of ratios) {
+    const target = ratio * total;
+    let best = Math.min(from + 1, range.atoms.length);
+    let bestCost = Infinity;
+    for (let end = from + 1; end < range.atoms.length; end++) {
+      const cost = Math.abs(range.width(0, end) - target) - range.breakScore(end - 1) * maxWidth * BREAK_BONUS;
+      if (cost < bestCost) {
+        best = end;
+        bestCost = cost;
+      }
+    }
+    starts.push(best);
+    from = best;
+  }
+  return starts;
+}
+
+const roundMs = (seconds: number) => Math.round(seconds * 1000) / 1000;
+
+/**
+ * Split a cue that needs more than `maxLines` lines and re-break every
+ * piece. Time is shared by reading length; the first piece keeps the id.
+ */
+export function segmentLine(line: SubtitleLine, options: SegmentationOptions): SubtitleLine[] {
+  const { maxLineWidth, maxLines } = options;
+  const secondaryWidth = options.secondaryMaxLineWidth ?? maxLineWidth;
+  const primary = new AtomRange(tokenize(line.text || ''));
+  const secondary = line.secondaryText !== undefined ? new AtomRange(tokenize(line.secondaryText)) : null;
+
+  const starts = planCues(primary, maxLineWidth, maxLines);
+  if (starts.length === 0) {
+    const text = balanceRange(primary, 0, primary.atoms.length, maxLineWidth);
+    const secondaryText = secondary ? balanceRange(secondary, 0, secondary.atoms.length, secondaryWidth) : undefined;
+    if (text === line.text && secondaryText === line.secondaryText) return [line];
+    return [{ ...line, text, ...(secondary && { secondaryText }) }];
+  }
+
+  const bounds = [0, ...starts, primary.atoms.length];
+  const totalWidth = primary.width(0, primary.atoms.length);
+  const ratios = starts.map(start => primary.width(0, start) / totalWidth);
+  const secondaryBounds = secondary
+    ? [0, ...splitAtRatios(secondary, ratios, secondaryWidth), secondary.atoms.length]
+    : null;
+  const duration = line.endTime - line.startTime;
+  const timeAt = (ratio: number) => roundMs(line.startTime + duration * ratio);
+
+  return bounds.slice(0, -1).map((from, index) => {
+    const to = bounds[index + 1];
+    const piece: SubtitleLine = {
+      ...line,
+      id: index === 0 ? line.id : generateClipId(),
+      startTime: index === 0 ? line.startTime : timeAt(ratios[index - 1]),
+      endTime: index === bounds.length - 2 ? line.endTime : timeAt(ratios[index]),
+      text: balanceRange(primary, from, to, maxLineWidth),
+    };
+    if (secondary && secondaryBounds) {
+      piece.secondaryText = balanceRange(secondary, secondaryBounds[index], secondaryBounds[index + 1], secondaryWidth);
+    }
+    return piece;
+  });
+}
+
+/**
+ * Re-segment `ids` (or every line). Returns the input array when nothing
+ * changed.
+ */
+export function segmentSubtitles(subtitles: SubtitleLine[], options: SegmentationOptions, ids?: string[]): SubtitleLine[] {
+  const only = ids ? new Set(ids) : null;
+  let changed = false;
+  const result = subtitles.flatMap(line => {
+    if (only && !only.has(line.id)) return [line];
+    const pieces = segmentLine(line, options);
+    if (pieces.length !== 1 || pieces[0] !== line) changed = true;
+    return pieces;
+  });
+  return changed ? result : subtitles;
+}
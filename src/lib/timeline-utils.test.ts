@@ -501,6 +501,33 @@ describe('getFlattenedSubtitles', () => {
     expect(result).toHaveLength(2);
     expect(result[0].projectStartTime).toBeLessThan(result[1].projectStartTime);
   });
+
+  test('carries the clip style config beneath each line\'s overrides', () => {
+    const clips = [
+      createVideoClip({
+        subtitleConfig: { primary: { color: '#FF0000', alignment: 8 }, secondary: { fontSize: 3 } },
+        subtitles: [
+          createSubtitle({ id: 's1', styleOverrides: { alignment: 2 } }),
+          createSubtitle({ id: 's2', startTime: 10, endTime: 12, primaryColor: '#00FF00' }),
+        ],
+      }),
+      createVideoClip({ id: 'clip-2', subtitles: [createSubtitle({ id: 's3', primaryColor: '#0000FF' })] }),
+    ];
+    const timeline = [
+      createTimelineClip(),
+      createTimelineClip({ id: 't2', videoClipId: 'clip-2', projectStartTime: 60 }),
+    ];
+
+    const [first, second, third] = getFlattenedSubtitles(clips, timeline);
+
+    expect(first.styleOverrides).toEqual({ color: '#FF0000', alignment: 2 });
+    expect(first.secondaryStyleOverrides).toEqual({ fontSize: 3 });
+    expect(second.styleOverrides).toEqual({ color: '#00FF00', alignment: 8 });
+    expect(second.primaryColor).toBeUndefined();
+    // Clips without styles leave their lines alone
+    expect(third.primaryColor).toBe('#0000FF');
+    expect(third.styleOverrides).toBeUndefined();
+  });
 });
 
 // ============================================================================
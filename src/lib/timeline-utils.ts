@@ -8,6 +8,7 @@
  */
 
 import { SubtitleLine, VideoClip, TimelineClip, TimelineImage } from '@/types/subtitle';
+import { applyClipStyle } from './style-resolver';
 
 /**
  * Calculate the absolute project time for a subtitle within a clip.
@@ -125,7 +126,9 @@ export interface FlattenedSubtitle extends SubtitleLine {
 }
 
 /**
- * Get all subtitles flattened to project timeline coordinates.
+ * Get all subtitles flattened to project timeline coordinates. Each line
+ * carries its clip's subtitleConfig styles as overrides (see applyClipStyle),
+ * since it leaves the clip behind.
  * 
  * @param clips - Video clip library
  * @param timeline - Timeline arrangement
@@ -158,7 +161,7 @@ export function getFlattenedSubtitles(
         Math.min(endOffset, timelineClip.clipDuration);
       
       result.push({
-        ...subtitle,
+        ...applyClipStyle(subtitle, videoClip.subtitleConfig),
         sourceClipId: videoClip.id,
         projectStartTime,
         projectEndTime,
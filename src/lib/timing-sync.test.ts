@@ -0,0 +1,62 @@
+import { applyTimingTransform, fpsTransform, twoPointTransform, offsetTransform, getScopedIds } from './timing-sync';
+import { SubtitleLine } from '@/types/subtitle';
+
+const line = (id: string, startTime: number, endTime: number, clipId?: string): SubtitleLine =>
+  ({ id, startTime, endTime, text: id, ...(clipId && { clipId }) });
+
+describe('fpsTransform', () => {
+  it('stretches PAL timings for film playback', () => {
+    const { scale, offset } = fpsTransform(25, 24000 / 1001);
+    expect(offset).toBe(0);
+    // One hour in at 25 fps lands ~2.6 minutes later at 23.976
+    expect(3600 * scale).toBeCloseTo(3753.75);
+  });
+
+  it('rejects invalid framerates', () => {
+    expect(() => fpsTransform(0, 25)).toThrow('Framerates must be positive.');
+  });
+});
+
+describe('twoPointTransform', () => {
+  it('maps both points exactly', () => {
+    const { scale, offset } = twoPointTransform({ from: 10, to: 12 }, { from: 110, to: 116 });
+    expect(10 * scale + offset).toBeCloseTo(12);
+    expect(110 * scale + offset).toBeCloseTo(116);
+  });
+
+  it('rejects points at the same time or in reverse order', () => {
+    expect(() => twoPointTransform({ from: 5, to: 5 }, { from: 5, to: 9 })).toThrow('different times');
+    expect(() => twoPointTransform({ from: 0, to: 10 }, { from: 10, to: 5 })).toThrow('keep the two lines in order');
+  });
+});
+
+describe('applyTimingTransform', () => {
+  const subtitles = [line('a', 1, 2, 'c1'), line('b', 10, 12, 'c2')];
+
+  it('applies the transform, clamps at zero and rounds to milliseconds', () => {
+    expect(applyTimingTransform(subtitles, { scale: 1.0001, offset: -1.5 })).toEqual([
+      { ...subtitles[0], startTime: 0, endTime: 0.5 },
+      { ...subtitles[1], startTime: 8.501, endTime: 10.501 },
+    ]);
+  });
+
+  it('only touches the given ids', () => {
+    const result = applyTimingTransform(subtitles, offsetTransform(1), ['b']);
+    expect(result[0]).toBe(subtitles[0]);
+    expect(result[1]).toMatchObject({ startTime: 11, endTime: 13 });
+  });
+
+  it('returns the same array when nothing changes', () => {
+    expect(applyTimingTransform(subtitles, offsetTransform(0))).toBe(subtitles);
+  });
+});
+
+describe('getScopedIds', () => {
+  const subtitles = [line('a', 0, 1, 'c1'), line('b', 1, 2, 'c2'), line('c', 2, 3, 'c2')];
+
+  it('resolves each scope', () => {
+    expect(getScopedIds(subtitles, { type: 'all' }, ['a'])).toBeUndefined();
+    expect(getScopedIds(subtitles, { type: 'selection' }, ['a'])).toEqual(['a']);
+    expect(getScopedIds(subtitles, { type: 'clip', clipId: 'c2' }, [])).toEqual(['b', 'c']);
+  });
+});
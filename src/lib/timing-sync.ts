@@ -0,0 +1,99 @@
+/**
+ * Linear timing corrections
+ *
+ * A constant offset, a framerate conversion and two-point sync are all the
+ * same operation: `t' = t * scale + offset`. Framerate mismatches (a track
+ * timed against a 25 fps PAL master played back at 23.976) drift in
+ * proportion to time, which a single offset can't fix.
+ */
+
+import { SubtitleLine } from "@/types/subtitle";
+
+export interface TimingTransform {
+  scale: number;
+  offset: number; // Seconds, applied after scaling
+}
+
+/** Which lines a transform applies to. */
+export type TimingScope =
+  | { type: 'all' }
+  | { type: 'selection' }
+  | { type: 'clip'; clipId: string };
+
+/** A line's current time and the time it should have. */
+export interface SyncPoint {
+  from: number;
+  to: number;
+}
+
+export const FPS_PRESETS: { label: string; from: number; to: number }[] = [
+  { label: '25 → 23.976 (PAL to film)', from: 25, to: 24000 / 1001 },
+  { label: '23.976 → 25 (film to PAL)', from: 24000 / 1001, to: 25 },
+  { label: '25 → 24', from: 25, to: 24 },
+  { label: '24 → 25', from: 24, to: 25 },
+  { label: '24 → 23.976', from: 24, to: 24000 / 1001 },
+  { label: '23.976 → 24', from: 24000 / 1001, to: 24 },
+  { label: '30 → 29.97', from: 30, to: 30000 / 1001 },
+  { label: '29.97 → 30', from: 30000 / 1001, to: 30 },
+];
+
+export function offsetTransform(offsetSeconds: number): TimingTransform {
+  return { scale: 1, offset: offsetSeconds };
+}
+
+/**
+ * Convert timings made against `fromFps` frames for video running at
+ * `toFps`: the same frame is shown `fromFps / toFps` times later.
+ */
+export function fpsTransform(fromFps: number, toFps: number): TimingTransform {
+  if (!(fromFps > 0) || !(toFps > 0)) {
+    throw new Error("Framerates must be positive.");
+  }
+  return { scale: fromFps / toFps, offset: 0 };
+}
+
+/** The stretch and offset that move both lines to their correct times. */
+export function twoPointTransform(a: SyncPoint, b: SyncPoint): TimingTransform {
+  if (Math.abs(b.from - a.from) < 0.001) {
+    throw new Error("Pick two lines that start at different times.");
+  }
+  const scale = (b.to - a.to) / (b.from - a.from);
+  if (!(scale > 0)) {
+    throw new Error("The corrected times must keep the two lines in order.");
+  }
+  return { scale, offset: a.to - a.from * scale };
+}
+
+const roundMs = (seconds: number) => Math.round(seconds * 1000) / 1000;
+
+/**
+ * Apply a transform to `ids` (or every line). Times are clamped at zero and
+ * rounded to the millisecond. Returns the input array when nothing changed.
+ */
+export function applyTimingTransform(subtitles: SubtitleLine[], transform: TimingTransform, ids?: string[]): SubtitleLine[] {
+  const only = ids ? new Set(ids) : null;
+  const map = (time: number) => roundMs(Math.max(0, time * transform.scale + transform.offset));
+  let changed = false;
+
+  const result = subtitles.map(line => {
+    if (only && !only.has(line.id)) return line;
+    const startTime = map(line.startTime);
+    const endTime = map(line.endTime);
+    if (startTime === line.startTime && endTime === line.endTime) return line;
+    changed = true;
+    return { ...line, startTime, endTime };
+  });
+  return changed ? result : subtitles;
+}
+
+/** Ids covered by a scope, or undefined for every line. */
+export function getScopedIds(subtitles: SubtitleLine[], scope: TimingScope, selectedIds: string[]): string[] | undefined {
+  switch (scope.type) {
+    case 'selection':
+      return selectedIds;
+    case 'clip':
+      return subtitles.filter(line => line.clipId === scope.clipId).map(line => line.id);
+    default:
+      return undefined;
+  }
+}
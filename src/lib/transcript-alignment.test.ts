@@ -0,0 +1,107 @@
+import {
+  splitTranscript,
+  parseAlignmentResponse,
+  alignWordsToTranscript,
+  applyAlignment,
+  diffTranscript,
+} from './transcript-alignment';
+
+describe('splitTranscript', () => {
+  it('makes one unit per non-empty line without touching the text', () => {
+    expect(splitTranscript('  Hello there.\r\n\r\nGeneral Kenobi! \n')).toEqual([
+      { id: '1', text: '  Hello there.' },
+      { id: '2', text: 'General Kenobi! ' },
+    ]);
+  });
+});
+
+describe('parseAlignmentResponse', () => {
+  it('accepts timestamps or seconds and ignores text', () => {
+    expect(parseAlignmentResponse({
+      timings: [
+        { id: 1, startTime: '00:00:01,500', endTime: '00:00:02,000', text: 'rewritten' },
+        { id: '2', startTime: 3, endTime: 4 },
+        { startTime: 5, endTime: 6 },
+      ],
+    })).toEqual([
+      { id: '1', startTime: 1.5, endTime: 2 },
+      { id: '2', startTime: 3, endTime: 4 },
+    ]);
+  });
+
+  it('accepts a bare array', () => {
+    expect(parseAlignmentResponse([{ id: 'a', startTime: 0, endTime: 1 }])).toHaveLength(1);
+    expect(parseAlignmentResponse({ nothing: true })).toEqual([]);
+  });
+});
+
+describe('alignWordsToTranscript', () => {
+  const units = [
+    { id: '1', text: 'Hello there.' },
+    { id: '2', text: 'Something never said' },
+    { id: '3', text: 'General Kenobi!' },
+  ];
+
+  it('spans each line from its first to last matched word', () => {
+    const words = [
+      { word: 'hello', start: 0.4, end: 0.8 },
+      { word: 'there', start: 0.9, end: 1.6 },
+      { word: 'um', start: 2, end: 2.2 },
+      { word: 'General', start: 3.2, end: 3.9 },
+      { word: 'Kenobi', start: 4, end: 4.7 },
+    ];
+
+    expect(alignWordsToTranscript(units, words)).toEqual([
+      { id: '1', startTime: 0.4, endTime: 1.6 },
+      { id: '3', startTime: 3.2, endTime: 4.7 },
+    ]);
+  });
+});
+
+describe('applyAlignment', () => {
+  const units = [
+    { id: '1', text: 'One' },
+    { id: '2', text: 'Two two' },
+    { id: '3', text: 'Three' },
+    { id: '4', text: 'Four' },
+  ];
+
+  it('interpolates missing and out-of-order lines between anchors', () => {
+    const { subtitles, status } = applyAlignment(units, [
+      { id: '1', startTime: 0, endTime: 1 },
+      { id: '3', startTime: 0.5, endTime: 0.8 },
+      { id: '4', startTime: 4, endTime: 5 },
+    ]);
+
+    expect(subtitles.map(line => line.text)).toEqual(['One', 'Two two', 'Three', 'Four']);
+    expect(status).toEqual({ '1': 'aligned', '2': 'interpolated', '3': 'interpolated', '4': 'aligned' });
+    expect(subtitles[1].startTime).toBe(1);
+    expect(subtitles[2].endTime).toBeCloseTo(4);
+    expect(subtitles[1].endTime - subtitles[1].startTime).toBeGreaterThan(subtitles[2].endTime - subtitles[2].startTime);
+  });
+
+  it('uses a reading speed when there is no room for trailing lines', () => {
+    const { subtitles } = applyAlignment(units.slice(0, 2), [{ id: '1', startTime: 0, endTime: 1 }]);
+    expect(subtitles[1]).toMatchObject({ startTime: 1, endTime: 1 + 7 / 15 });
+  });
+
+  it('throws when nothing could be aligned', () => {
+    expect(() => applyAlignment(units, [{ id: '1', startTime: 2, endTime: 1 }])).toThrow('No lines could be aligned');
+  });
+});
+
+describe('diffTranscript', () => {
+  const expected = [{ id: '1', text: 'Hello' }, { id: '2', text: 'World' }];
+
+  it('passes identical lines', () => {
+    expect(diffTranscript(expected, [{ id: '1', text: 'Hello' }, { id: '2', text: 'World' }])).toEqual([]);
+  });
+
+  it('reports altered, reordered and missing lines', () => {
+    expect(diffTranscript(expected, [{ id: '1', text: 'Hello ' }])).toEqual([
+      'Expected 2 lines, got 1',
+      'Line 1: text was altered',
+    ]);
+    expect(diffTranscript(expected, [expected[1], expected[0]])).toHaveLength(2);
+  });
+});
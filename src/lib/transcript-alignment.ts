@@ -0,0 +1,219 @@
+/**
+ * Forced alignment of an existing transcript
+ *
+ * The user's wording is authoritative: providers are only asked for timings
+ * (keyed by line id), never for text. Lines are rebuilt from the input, lines
+ * the provider missed are interpolated between their aligned neighbours, and
+ * `diffTranscript` lets both the server and the editor verify that not a
+ * single byte of text changed before the result replaces anything.
+ */
+
+import { SubtitleLine } from "@/types/subtitle";
+import { parseTimestamp } from "./time-utils";
+
+export interface AlignmentUnit {
+  id: string;
+  text: string;
+}
+
+export interface AlignedTiming {
+  id: string;
+  startTime: number;
+  endTime: number;
+}
+
+/** aligned: timed by the provider; interpolated: placed between neighbours. */
+export type AlignmentLineStatus = 'aligned' | 'interpolated';
+
+export interface AlignmentResult {
+  subtitles: SubtitleLine[];
+  status: Record<string, AlignmentLineStatus>;
+}
+
+export interface AlignmentWord {
+  word: string;
+  start: number;
+  end: number;
+}
+
+// Reading speed used to size interpolated lines when there is no room before the next aligned line
+const FALLBACK_CHARS_PER_SECOND = 15;
+const MIN_INTERPOLATED_DURATION = 0.3;
+// How far ahead in the recognised words a transcript word may be matched
+const WORD_MATCH_WINDOW = 25;
+
+/**
+ * Plain text to alignment units: one per non-empty line.
+ */
+export function splitTranscript(text: string): AlignmentUnit[] {
+  return text
+    .split(/\r?\n/)
+    .filter(line => line.trim() !== '')
+    .map((line, index) => ({ id: String(index + 1), text: line }));
+}
+
+export function buildAlignmentPrompt(units: AlignmentUnit[]): string {
+  return `
+    You are aligning an existing, correct transcript to this audio.
+    For every entry in 'lines', find where that text is spoken and return its start and end time.
+
+    Rules:
+    1. Output a JSON object: {"timings": [{"id": "...", "startTime": "HH:MM:SS,mmm", "endTime": "HH:MM:SS,mmm"}]}.
+    2. Return exactly one timing for every id, with the id unchanged and in the input order.
+    3. Do not return, correct or rephrase any text. Timings only.
+    4. Format MUST be exactly "HH:MM:SS,mmm", always including the hour.
+
+    Input JSON:
+    ${JSON.stringify({ lines: units })}
+  `;
+}
+
+function toSeconds(value: unknown): number {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string' && value.trim() !== '') return parseTimestamp(value);
+  return NaN;
+}
+
+/**
+ * Accept {timings: [...]}, {subtitles: [...]} or a bare array, with times
+ * as "HH:MM:SS,mmm" strings or seconds. Any text the model sends is ignored.
+ */
+export function parseAlignmentResponse(data: unknown): AlignedTiming[] {
+  const record = data as Record<string, unknown> | null;
+  const list = Array.isArray(data)
+    ? data
+    : Array.isArray(record?.timings)
+      ? record!.timings
+      : Array.isArray(record?.subtitles)
+        ? record!.subtitles
+        : [];
+
+  return (list as Record<string, unknown>[])
+    .filter(item => item && item.id != null)
+    .map(item => ({ id: String(item.id), startTime: toSeconds(item.startTime), endTime: toSeconds(item.endTime) }));
+}
+
+function normalizeWord(word: string): string {
+  return word.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '');
+}
+
+/**
+ * Local aligner for providers that only transcribe (Whisper): walk the
+ * transcript's words and match each against the next few recognised words.
+ * A line spans its first to last matched word; lines with no matches are
+ * left out and interpolated later.
+ */
+export function alignWordsToTranscript(units: AlignmentUnit[], words: AlignmentWord[]): AlignedTiming[] {
+  const recognised = words
+    .map(w => ({ ...w, norm: normalizeWord(w.word) }))
+    .filter(w => w.norm !== '' && isFinite(w.start) && isFinite(w.end));
+
+  const timings: AlignedTiming[] = [];
+  let cursor = 0;
+
+  for (const unit of units) {
+    let first: AlignmentWord | null = null;
+    let last: AlignmentWord | null = null;
+
+    for (const token of unit.text.split(/\s+/).map(normalizeWord).filter(Boolean)) {
+      const limit = Math.min(recognised.length, cursor + WORD_MATCH_WINDOW);
+      for (let i = cursor; i < limit; i++) {
+        if (recognised[i].norm === token) {
+          first = first ?? recognised[i];
+          last = recognised[i];
+          cursor = i + 1;
+          break;
+        }
+      }
+    }
+
+    if (first && last) {
+      timings.push({ id: unit.id, startTime: first.start, endTime: Math.max(last.end, first.start) });
+    }
+  }
+
+  return timings;
+}
+
+/**
+ * Rebuild the transcript with the provider's timings. Timings that are
+ * unusable or overlap the previous aligned line are discarded, and every line without one is
+ * spread over the gap between its aligned neighbours by text length.
+ */
+export function applyAlignment(units: AlignmentUnit[], timings: AlignedTiming[]): AlignmentResult {
+  const byId = new Map(timings.map(t => [t.id, t]));
+  const slots: (AlignedTiming | null)[] = [];
+  let previousEnd = 0;
+
+  for (const unit of units) {
+    const timing = byId.get(unit.id);
+    const usable = timing && isFinite(timing.startTime) && isFinite(timing.endTime)
+      && timing.startTime >= previousEnd && timing.endTime > timing.startTime;
+    if (usable) {
+      slots.push(timing);
+      previousEnd = timing.endTime;
+    } else {
+      slots.push(null);
+    }
+  }
+
+  if (units.length > 0 && slots.every(slot => slot === null)) {
+    throw new Error('No lines could be aligned to the audio.');
+  }
+
+  const status: Record<string, AlignmentLineStatus> = {};
+  const subtitles: SubtitleLine[] = [];
+
+  for (let i = 0; i < units.length; i++) {
+    const slot = slots[i];
+    if (slot) {
+      subtitles.push({ id: units[i].id, startTime: slot.startTime, endTime: slot.endTime, text: units[i].text });
+      status[units[i].id] = 'aligned';
+      continue;
+    }
+
+    // A run of unaligned lines between two anchors
+    let runEnd = i;
+    while (runEnd + 1 < units.length && !slots[runEnd + 1]) runEnd++;
+    const run = units.slice(i, runEnd + 1);
+    const weights = run.map(unit => Math.max(1, unit.text.length));
+    const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+
+    const gapStart = subtitles.length > 0 ? subtitles[subtitles.length - 1].endTime : 0;
+    const next = slots[runEnd + 1];
+    const gapEnd = next && next.startTime - gapStart >= run.length * MIN_INTERPOLATED_DURATION
+      ? next.startTime
+      : gapStart + totalWeight / FALLBACK_CHARS_PER_SECOND;
+
+    let cursor = gapStart;
+    run.forEach((unit, index) => {
+      const length = ((gapEnd - gapStart) * weights[index]) / totalWeight;
+      subtitles.push({ id: unit.id, startTime: cursor, endTime: cursor + length, text: unit.text });
+      status[unit.id] = 'interpolated';
+      cursor += length;
+    });
+    i = runEnd;
+  }
+
+  return { subtitles, status };
+}
+
+/**
+ * Describe every way `actual` differs from the input transcript: missing,
+ * extra, reordered or altered lines. An empty list means byte-for-byte equal.
+ */
+export function diffTranscript(expected: AlignmentUnit[], actual: { id: string; text: string }[]): string[] {
+  const problems: string[] = [];
+  if (actual.length !== expected.length) {
+    problems.push(`Expected ${expected.length} lines, got ${actual.length}`);
+  }
+  const count = Math.min(expected.length, actual.length);
+  for (let i = 0; i < count; i++) {
+    if (actual[i].id !== expected[i].id) {
+      problems.push(`Line ${i + 1}: expected id ${expected[i].id}, got ${actual[i].id}`);
+    } else if (actual[i].text !== expected[i].text) {
+      problems.push(`Line ${expected[i].id}: text was altered`);
+    }
+  }
+  return problems;
+}
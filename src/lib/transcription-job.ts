@@ -0,0 +1,148 @@
+/**
+ * Queued transcription (server only)
+ *
+ * Runs the /api/process generation pipeline for a file that is already in
+ * staging, as a 'transcribe' queue job. Unlike the HTTP route it survives
+ * the browser tab closing, and QueueManager's crash recovery re-runs it after
+ * a server restart. The result is stored on the queue item and written into
+ * the job's draft.
+ */
+
+import fs from "fs";
+import path from "path";
+import { QueueItem } from "@/types/queue";
+import { ModelConfig, SubtitleLine, SubtitleProvenance } from "@/types/subtitle";
+import { processWithFallback, chainUsesGemini, AIParams } from "./ai-provider";
+import { transcribeInChunks, getChunkingDuration, offsetChunkSubtitles } from "./chunked-transcription";
+import { deleteFileFromGemini, uploadToGemini } from "./gemini";
+import { getGlobalSettings } from "./global-settings-store";
+import { getStagingDir, isPathSafe } from "./storage-config";
+import { getGenerationSegmentation } from "./subtitle-segmentation";
+
+const INLINE_SIZE_LIMIT_MB = 95; // Same margin as /api/process (Gemini accepts 100 MB inline)
+
+// Share of the progress bar spent in the model; the rest is setup and saving
+const AI_PROGRESS_START = 5;
+const AI_PROGRESS_END = 95;
+
+const MIME_TYPES: Record<string, string> = {
+  ".mp3": "audio/mpeg",
+  ".m4a": "audio/mp4",
+  ".wav": "audio/wav",
+  ".flac": "audio/flac",
+  ".ogg": "audio/ogg",
+  ".mkv": "video/x-matroska",
+  ".webm": "video/webm",
+  ".mov": "video/quicktime",
+};
+
+export interface TranscriptionJobResult {
+  subtitles: SubtitleLine[];
+  detectedLanguage?: string;
+  provenance?: SubtitleProvenance;
+}
+
+/**
+ * Transcribe the media referenced by a 'transcribe' job and attach the
+ * subtitles to its draft. Aborting `signal` cancels the model requests and
+ * rejects with the abort reason; the draft is left untouched.
+ */
+export async function runTranscriptionJob(
+  item: QueueItem,
+  onProgress: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<TranscriptionJobResult> {
+  const { videoPath, draftId, clipId, language, promptHints, glossary } = item.metadata || {};
+
+  if (!videoPath) {
+    throw new Error("Missing media path in transcription job");
+  }
+  if (!isPathSafe(videoPath)) {
+    throw new Error("Unauthorized path in job metadata");
+  }
+  if (!fs.existsSync(videoPath)) {
+    throw new Error(`Source media not found: ${videoPath}`);
+  }
+
+  const settings = getGlobalSettings();
+  const chain = settings.aiFallbackChain;
+  const mimeType = MIME_TYPES[path.extname(videoPath).toLowerCase()] || item.file.type || "video/mp4";
+  const params: AIParams = {
+    mimeType,
+    secondaryLanguage: item.secondaryLanguage && item.secondaryLanguage !== "None" ? item.secondaryLanguage : undefined,
+    modelName: item.model,
+    language,
+    promptHints,
+    glossary,
+    segmentation: getGenerationSegmentation(settings),
+    signal,
+  };
+
+  onProgress(AI_PROGRESS_START);
+  const result = await transcribe(videoPath, params, chain, (fraction) =>
+    onProgress(AI_PROGRESS_START + fraction * (AI_PROGRESS_END - AI_PROGRESS_START))
+  );
+  // A provider may finish just as the job is cancelled; don't keep its result
+  signal?.throwIfAborted();
+  onProgress(AI_PROGRESS_END);
+
+  if (draftId) {
+    const { attachTranscription } = await import("./draft-store");
+    const attached = attachTranscription(draftId, {
+      subtitles: result.subtitles,
+      clipId,
+      videoPath,
+      provenance: result.provenance,
+    });
+    if (!attached) {
+      // The result stays on the queue item, so nothing is lost
+      console.warn(`[TranscriptionJob] Draft ${draftId} no longer has this clip; result kept on job ${item.id}`);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Pick the same strategy as /api/process: chunks for long media, inline
+ * data for small files, a local path for offline chains, otherwise the
+ * Gemini Files API (whose copy is removed once we're done with it).
+ */
+async function transcribe(
+  mediaPath: string,
+  params: AIParams,
+  chain: ModelConfig[],
+  onFraction: (fraction: number) => void
+): Promise<TranscriptionJobResult> {
+  const chunkDuration = await getChunkingDuration(mediaPath);
+  if (chunkDuration > 0) {
+    return await transcribeInChunks(mediaPath, params, chain, {
+      duration: chunkDuration,
+      workDir: path.join(getStagingDir(), "temp"),
+      onProgress: (done, total) => onFraction(done / total),
+    });
+  }
+
+  const sizeInMB = fs.statSync(mediaPath).size / (1024 * 1024);
+  let result;
+  if (sizeInMB < INLINE_SIZE_LIMIT_MB) {
+    const base64Data = (await fs.promises.readFile(mediaPath)).toString("base64");
+    result = await processWithFallback("generate", { ...params, base64Data, filePath: mediaPath, isInline: true }, chain);
+  } else if (!chainUsesGemini(chain)) {
+    result = await processWithFallback("generate", { ...params, filePath: mediaPath }, chain);
+  } else {
+    const geminiFile = await uploadToGemini(mediaPath, params.mimeType!, undefined, params.signal);
+    try {
+      result = await processWithFallback("generate", { ...params, fileUri: geminiFile.uri! }, chain);
+    } finally {
+      if (geminiFile.name) await deleteFileFromGemini(geminiFile.name);
+    }
+  }
+
+  // Gemini answers with "HH:MM:SS,mmm" strings; normalise to seconds
+  return {
+    subtitles: offsetChunkSubtitles(result.subtitles, 0),
+    detectedLanguage: result.detectedLanguage,
+    provenance: result.provenance,
+  };
+}
@@ -0,0 +1,131 @@
+import {
+  translateInBatches,
+  buildBatchTranslationPrompt,
+  parseBatchTranslationResponse,
+  TranslationBatch,
+} from './translation-engine';
+import { SubtitleLine } from '@/types/subtitle';
+
+global.console.warn = jest.fn();
+global.console.log = jest.fn();
+
+const lines = (count: number): SubtitleLine[] =>
+  Array.from({ length: count }, (_, i) => ({ id: `l${i}`, startTime: i, endTime: i + 1, text: `Line ${i}` }));
+
+const echo = async (batch: TranslationBatch) =>
+  batch.lines.map(line => ({ id: line.id, secondaryText: `fr:${line.text}` }));
+
+describe('translateInBatches', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('sends batches with neighbouring lines as context', async () => {
+    const translate = jest.fn(echo);
+
+    const result = await translateInBatches(lines(5), translate, { batchSize: 2, contextSize: 1 });
+
+    expect(translate).toHaveBeenCalledTimes(3);
+    expect(translate.mock.calls[1][0]).toEqual({
+      before: [{ id: 'l1', text: 'Line 1' }],
+      lines: [{ id: 'l2', text: 'Line 2' }, { id: 'l3', text: 'Line 3' }],
+      after: [{ id: 'l4', text: 'Line 4' }],
+    });
+    expect(result.subtitles.map(l => l.secondaryText)).toEqual(['fr:Line 0', 'fr:Line 1', 'fr:Line 2', 'fr:Line 3', 'fr:Line 4']);
+    expect(result.subtitles.map(l => [l.startTime, l.endTime])).toEqual(lines(5).map(l => [l.startTime, l.endTime]));
+    expect(Object.values(result.status)).toEqual(Array(5).fill('translated'));
+  });
+
+  it('retries missing and empty lines in smaller batches', async () => {
+    const translate = jest.fn(async (batch: TranslationBatch) => {
+      if (translate.mock.calls.length === 1) {
+        // Drops l1, blanks l2, and answers for a context line it wasn't asked about
+        return [{ id: 'l0', secondaryText: 'Zero' }, { id: 'l2', secondaryText: ' ' }, { id: 'l3', secondaryText: 'Wrong' }];
+      }
+      return echo(batch);
+    });
+
+    const result = await translateInBatches(lines(4), translate, { batchSize: 3, contextSize: 1 });
+
+    expect(translate.mock.calls[2][0].lines.map(l => l.id)).toEqual(['l1', 'l2']);
+    expect(result.subtitles.map(l => l.secondaryText)).toEqual(['Zero', 'fr:Line 1', 'fr:Line 2', 'fr:Line 3']);
+    expect(result.status).toEqual({ l0: 'translated', l1: 'retried', l2: 'retried', l3: 'translated' });
+  });
+
+  it('marks lines that never come back as failed and leaves them untouched', async () => {
+    const translate = jest.fn(async (batch: TranslationBatch) =>
+      (await echo(batch)).filter(unit => unit.id !== 'l1')
+    );
+
+    const result = await translateInBatches(lines(3), translate, { maxRetries: 1 });
+
+    expect(translate).toHaveBeenCalledTimes(2);
+    expect(result.status.l1).toBe('failed');
+    expect(result.subtitles[1]).toEqual(lines(3)[1]);
+  });
+
+  it('skips empty lines and only translates the requested ids', async () => {
+    const subtitles = [...lines(3), { id: 'blank', startTime: 3, endTime: 4, text: '  ' }];
+    const translate = jest.fn(echo);
+
+    const result = await translateInBatches(subtitles, translate, { only: ['l1', 'blank'] });
+
+    expect(translate).toHaveBeenCalledTimes(1);
+    expect(translate.mock.calls[0][0].lines).toEqual([{ id: 'l1', text: 'Line 1' }]);
+    expect(translate.mock.calls[0][0].before).toEqual([{ id: 'l0', text: 'Line 0' }]);
+    expect(result.status).toEqual({ l1: 'translated', blank: 'skipped' });
+    expect(result.subtitles[0].secondaryText).toBeUndefined();
+  });
+
+  it('keys lines by index when ids are missing or repeated', async () => {
+    const subtitles: { id: string; text: string; secondaryText?: string }[] = [{ id: 'x', text: 'A' }, { id: 'x', text: 'B' }];
+
+    const result = await translateInBatches(subtitles, echo);
+
+    expect(result.status).toEqual({ 0: 'translated', 1: 'translated' });
+    expect(result.subtitles.map(l => l.secondaryText)).toEqual(['fr:A', 'fr:B']);
+  });
+
+  it('keeps partial results when some batches fail', async () => {
+    const translate = jest.fn(async (batch: TranslationBatch) => {
+      if (batch.lines[0].id === 'l1') throw new Error('rate limited');
+      return echo(batch);
+    });
+
+    const result = await translateInBatches(lines(2), translate, { batchSize: 1, maxRetries: 0 });
+
+    expect(result.status).toEqual({ l0: 'translated', l1: 'failed' });
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('failed'), 'rate limited');
+  });
+
+  it('throws when nothing could be translated', async () => {
+    await expect(
+      translateInBatches(lines(2), jest.fn().mockRejectedValue(new Error('Quota exceeded')), { maxRetries: 1 })
+    ).rejects.toThrow('Quota exceeded');
+  });
+});
+
+describe('buildBatchTranslationPrompt', () => {
+  it('includes the batch, target language and guidance', () => {
+    const prompt = buildBatchTranslationPrompt(
+      { before: [], lines: [{ id: '7', text: 'Hello' }], after: [] },
+      'German',
+      'Glossary: Kubernetes'
+    );
+
+    expect(prompt).toContain('into German');
+    expect(prompt).toContain('"lines":[{"id":"7","text":"Hello"}]');
+    expect(prompt).toContain('Glossary: Kubernetes');
+  });
+});
+
+describe('parseBatchTranslationResponse', () => {
+  it('accepts the shapes models return', () => {
+    const expected = [{ id: '1', secondaryText: 'Hallo' }];
+
+    expect(parseBatchTranslationResponse({ translations: [{ id: '1', secondaryText: 'Hallo' }] })).toEqual(expected);
+    expect(parseBatchTranslationResponse({ subtitles: [{ id: 1, secondaryText: 'Hallo', text: 'Hello' }] })).toEqual(expected);
+    expect(parseBatchTranslationResponse([{ id: '1', secondaryText: 'Hallo' }, { id: '2' }, null])).toEqual(expected);
+    expect(parseBatchTranslationResponse('nonsense')).toEqual([]);
+  });
+});
@@ -0,0 +1,208 @@
+/**
+ * Batched, id-keyed subtitle translation
+ *
+ * Sending a whole subtitle array in one request and trusting the model to
+ * keep count and order silently misaligns lines when it merges, splits or
+ * drops one. Instead lines are sent in batches keyed by id, with a few
+ * neighbouring lines as read-only context. Every id must come back; missing
+ * or empty translations are retried on their own (in smaller batches) and
+ * each line gets a status.
+ */
+
+export const DEFAULT_TRANSLATION_BATCH_SIZE = 40;
+export const DEFAULT_TRANSLATION_CONTEXT_SIZE = 3;
+export const DEFAULT_TRANSLATION_RETRIES = 2;
+
+export interface TranslationUnit {
+  id: string;
+  text: string;
+}
+
+/** One request to the model: translate `lines`, read `before`/`after` for context only. */
+export interface TranslationBatch {
+  before: TranslationUnit[];
+  lines: TranslationUnit[];
+  after: TranslationUnit[];
+}
+
+export interface TranslatedUnit {
+  id: string;
+  secondaryText: string;
+}
+
+/**
+ * translated: returned by the first request; retried: needed a retry;
+ * failed: never came back; skipped: nothing to translate.
+ */
+export type TranslationLineStatus = 'translated' | 'retried' | 'failed' | 'skipped';
+
+export interface TranslationOptions {
+  batchSize?: number;
+  contextSize?: number;
+  maxRetries?: number;
+  /** Only translate these ids; other lines are context and left untouched. */
+  only?: string[];
+  /** Once aborted, a failing batch ends the run instead of being retried. */
+  signal?: AbortSignal;
+  onProgress?: (translatedLines: number, totalLines: number) => void;
+}
+
+export interface BatchTranslationResult<T> {
+  subtitles: T[];
+  /** Keyed by subtitle id (or array index for lines without one). */
+  status: Record<string, TranslationLineStatus>;
+}
+
+interface TranslatableLine {
+  id?: string | number;
+  text: string;
+  secondaryText?: string;
+}
+
+/**
+ * Key each line by its id, falling back to the index when ids are missing
+ * or not unique (e.g. raw model output).
+ */
+function getLineKeys(subtitles: TranslatableLine[]): string[] {
+  const ids = subtitles.map(line => (line?.id != null && line.id !== '' ? String(line.id) : null));
+  const unique = ids.every(id => id !== null) && new Set(ids).size === ids.length;
+  return unique ? (ids as string[]) : subtitles.map((_, index) => String(index));
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const result: T[][] = [];
+  for (let i = 0; i < items.length; i += size) result.push(items.slice(i, i + size));
+  return result;
+}
+
+/**
+ * Translate `subtitles` through `translateBatch`, preserving order and
+ * timing exactly. Throws only if nothing could be translated at all.
+ */
+export async function translateInBatches<T extends TranslatableLine>(
+  subtitles: T[],
+  translateBatch: (batch: TranslationBatch) => Promise<TranslatedUnit[]>,
+  options: TranslationOptions = {}
+): Promise<BatchTranslationResult<T>> {
+  const batchSize = Math.max(1, options.batchSize ?? DEFAULT_TRANSLATION_BATCH_SIZE);
+  const contextSize = Math.max(0, options.contextSize ?? DEFAULT_TRANSLATION_CONTEXT_SIZE);
+  const maxRetries = Math.max(0, options.maxRetries ?? DEFAULT_TRANSLATION_RETRIES);
+
+  const keys = getLineKeys(subtitles);
+  const units: TranslationUnit[] = subtitles.map((line, index) => ({
+    id: keys[index],
+    text: typeof line?.text === 'string' ? line.text : '',
+  }));
+  const selected = options.only ? new Set(options.only) : null;
+
+  const status: Record<string, TranslationLineStatus> = {};
+  const translations = new Map<string, string>();
+  let pending: number[] = [];
+
+  units.forEach((unit, index) => {
+    if (selected && !selected.has(unit.id)) return;
+    if (!unit.text.trim()) {
+      status[unit.id] = 'skipped';
+    } else {
+      pending.push(index);
+    }
+  });
+
+  const requested = pending.length;
+  let firstError: unknown = null;
+
+  for (let attempt = 0; attempt <= maxRetries && pending.length > 0; attempt++) {
+    // Retries go out in smaller batches; large ones are what models mangle
+    const size = Math.max(1, Math.ceil(batchSize / Math.pow(2, attempt)));
+
+    for (const indices of chunk(pending, size)) {
+      const first = indices[0];
+      const last = indices[indices.length - 1];
+      const batch: TranslationBatch = {
+        before: units.slice(Math.max(0, first - contextSize), first),
+        lines: indices.map(index => units[index]),
+        after: units.slice(last + 1, last + 1 + contextSize),
+      };
+      const wanted = new Set(batch.lines.map(unit => unit.id));
+
+      try {
+        const returned = await translateBatch(batch);
+        for (const item of Array.isArray(returned) ? returned : []) {
+          const id = item?.id != null ? String(item.id) : '';
+          const text = typeof item?.secondaryText === 'string' ? item.secondaryText.trim() : '';
+          // Ignore ids we didn't ask for (context lines, hallucinated ids) and empty answers
+          if (!wanted.has(id) || !text || translations.has(id)) continue;
+          translations.set(id, text);
+          status[id] = attempt === 0 ? 'translated' : 'retried';
+        }
+        options.onProgress?.(translations.size, requested);
+      } catch (error) {
+        if (options.signal?.aborted) throw error;
+        firstError = firstError ?? error;
+        console.warn(`[Translation] Batch of ${indices.length} lines failed (attempt ${attempt + 1}):`, error instanceof Error ? error.message : error);
+      }
+    }
+
+    pending = pending.filter(index => !translations.has(units[index].id));
+    if (pending.length > 0 && attempt < maxRetries) {
+      console.log(`[Translation] ${pending.length} lines missing, retrying`);
+    }
+  }
+
+  for (const index of pending) status[units[index].id] = 'failed';
+
+  if (requested > 0 && translations.size === 0 && firstError) {
+    throw firstError;
+  }
+
+  return {
+    subtitles: subtitles.map((line, index) => {
+      const translated = translations.get(keys[index]);
+      return translated !== undefined ? { ...line, secondaryText: translated } : line;
+    }),
+    status,
+  };
+}
+
+// ============================================================================
+// Prompt / response helpers shared by the providers
+// ============================================================================
+
+/**
+ * Prompt for one batch. `extra` is the glossary / user guidance block.
+ */
+export function buildBatchTranslationPrompt(batch: TranslationBatch, targetLanguage: string, extra = ''): string {
+  return `
+    You are an expert subtitle translator.
+    Translate the 'text' of every entry in 'lines' into ${targetLanguage}.
+    'before' and 'after' are the neighbouring subtitles. They are context only: do not translate them.
+
+    Rules:
+    1. Output a JSON object: {"translations": [{"id": "...", "secondaryText": "..."}]}.
+    2. Return exactly one translation for every id in 'lines', with the id unchanged.
+    3. Translate each line on its own. Do not merge, split or reorder lines.
+    ${extra}
+
+    Input JSON:
+    ${JSON.stringify(batch)}
+  `;
+}
+
+/**
+ * Accept the shapes models actually return: {translations: [...]},
+ * {subtitles: [...]} or a bare array.
+ */
+export function parseBatchTranslationResponse(data: unknown): TranslatedUnit[] {
+  const record = data as Record<string, unknown> | null;
+  const list = Array.isArray(data)
+    ? data
+    : Array.isArray(record?.translations)
+      ? record!.translations
+      : Array.isArray(record?.subtitles)
+        ? record!.subtitles
+        : [];
+
+  return (list as Record<string, unknown>[])
+    .filter(item => item && item.id != null && typeof item.secondaryText === 'string')
+    .map(item => ({ id: String(item.id), secondaryText: item.secondaryText as string }));
+}
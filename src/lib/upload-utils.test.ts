@@ -39,11 +39,21 @@ describe('upload-utils', () => {
         secondaryLanguage: 'Chinese',
         model: 'gemini-2.0-flash',
         reprocess: true,
+        skipDraft: true,
       });
       
       expect(formData.get('secondaryLanguage')).toBe('Chinese');
       expect(formData.get('model')).toBe('gemini-2.0-flash');
       expect(formData.get('reprocess')).toBe('true');
+      expect(formData.get('skipDraft')).toBe('true');
+    });
+
+    test('attaches an imported subtitle file', () => {
+      const file = new File(['video content'], 'test.mp4', { type: 'video/mp4' });
+      const subtitleFile = new File(['1\n00:00:01,000 --> 00:00:02,000\nHi\n'], 'test.srt');
+      const formData = prepareUploadFormData(file, { subtitleFile });
+
+      expect((formData.get('subtitles') as File).name).toBe('test.srt');
     });
   });
 
@@ -53,6 +53,8 @@ export function prepareUploadFormData(
     model?: string;
     reprocess?: boolean;
     existingFileUri?: string;
+    subtitleFile?: File; // Existing track to import instead of generating one
+    skipDraft?: boolean; // Multi-video uploads: the caller saves the project draft itself
   } = {}
 ): FormData {
   const formData = new FormData();
@@ -74,6 +76,14 @@ export function prepareUploadFormData(
     formData.append('existingFileUri', options.existingFileUri);
   }
 
+  if (options.subtitleFile) {
+    formData.append('subtitles', options.subtitleFile);
+  }
+
+  if (options.skipDraft) {
+    formData.append('skipDraft', 'true');
+  }
+
   return formData;
 }
 
@@ -0,0 +1,156 @@
+/**
+ * @jest-environment node
+ */
+import { EventEmitter } from 'events';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+jest.mock('child_process', () => ({
+  spawn: jest.fn(),
+}));
+
+import { spawn } from 'child_process';
+import {
+  createPeakAccumulator,
+  buildPeakLevels,
+  getWaveformInfo,
+  getWaveformSegment,
+  getPeaksCachePath,
+  BASE_PEAKS_PER_SECOND,
+  PEAK_SAMPLE_RATE,
+} from './waveform-peaks';
+
+global.console.log = jest.fn();
+
+type MockProcess = EventEmitter & { stdout: EventEmitter; stderr: EventEmitter };
+
+function createMockProcess(): MockProcess {
+  const proc = new EventEmitter() as MockProcess;
+  proc.stdout = new EventEmitter();
+  proc.stderr = new EventEmitter();
+  return proc;
+}
+
+/** Emit `seconds` of a full-scale square wave as s16le PCM, split at an odd byte offset. */
+function emitPcm(proc: MockProcess, seconds: number) {
+  const samples = new Int16Array(PEAK_SAMPLE_RATE * seconds).map((_, i) => (i % 2 ? 32767 : -32768));
+  const bytes = Buffer.from(samples.buffer);
+  proc.stdout.emit('data', bytes.subarray(0, 101));
+  proc.stdout.emit('data', bytes.subarray(101));
+  proc.emit('close', 0);
+}
+
+describe('createPeakAccumulator', () => {
+  it('reduces samples to min/max pairs across pushes', () => {
+    const accumulator = createPeakAccumulator(4);
+    accumulator.push(Int16Array.from([0, 256, -512]));
+    accumulator.push(Int16Array.from([1024, 32767, -32768]));
+
+    expect(Array.from(accumulator.finish())).toEqual([-2, 4, -127, 127]);
+  });
+});
+
+describe('buildPeakLevels', () => {
+  it('halves each level by merging neighbouring peaks', () => {
+    const base = Int8Array.from([-1, 1, -5, 2, -3, 9]);
+
+    const levels = buildPeakLevels(base, 4);
+
+    expect(levels.map(level => level.peaksPerSecond)).toEqual([4, 2, 1]);
+    expect(Array.from(levels[1].peaks)).toEqual([-5, 2, -3, 9]);
+    expect(Array.from(levels[2].peaks)).toEqual([-5, 9]);
+  });
+});
+
+describe('waveform cache', () => {
+  let tempDir: string;
+  let mediaPath: string;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'waveform-test-'));
+    mediaPath = path.join(tempDir, 'clip.mp4');
+    fs.writeFileSync(mediaPath, 'fake-video');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('decodes once, caches next to the media and serves segments', async () => {
+    const proc = createMockProcess();
+    (spawn as jest.Mock).mockReturnValue(proc);
+
+    const pending = Promise.all([getWaveformInfo(mediaPath), getWaveformInfo(mediaPath)]);
+    await new Promise(resolve => setImmediate(resolve));
+    emitPcm(proc, 2);
+    const [info] = await pending;
+
+    expect(spawn).toHaveBeenCalledTimes(1);
+    expect(spawn).toHaveBeenCalledWith('ffmpeg', expect.arrayContaining(['-i', mediaPath, '-ac', '1', '-f', 's16le']));
+    expect(fs.existsSync(getPeaksCachePath(mediaPath))).toBe(true);
+    expect(info.duration).toBe(2);
+    expect(info.levels[0]).toEqual({ peaksPerSecond: BASE_PEAKS_PER_SECOND, length: 2 * BASE_PEAKS_PER_SECOND });
+    expect(info.levels[info.levels.length - 1].peaksPerSecond).toBeGreaterThanOrEqual(1);
+
+    const segment = await getWaveformSegment(mediaPath, 0, 0);
+    expect(segment?.peaksPerSecond).toBe(BASE_PEAKS_PER_SECOND);
+    expect(segment?.peaks).toHaveLength(2 * 2 * BASE_PEAKS_PER_SECOND);
+    expect(segment?.peaks.slice(0, 2)).toEqual([-127, 127]);
+    expect(spawn).toHaveBeenCalledTimes(1);
+  });
+
+  it('reads segments from the cache by offset, not whole', async () => {
+    const proc = createMockProcess();
+    (spawn as jest.Mock).mockReturnValue(proc);
+    const initial = getWaveformInfo(mediaPath);
+    await new Promise(resolve => setImmediate(resolve));
+    emitPcm(proc, 2);
+    const info = await initial;
+
+    const readFile = jest.spyOn(fs, 'readFileSync');
+    const last = info.levels.length - 1;
+    const segment = await getWaveformSegment(mediaPath, last, 0);
+    expect(segment?.peaks).toHaveLength(info.levels[last].length * 2);
+    expect(segment?.peaks.slice(0, 2)).toEqual([-127, 127]);
+    expect(await getWaveformSegment(mediaPath, 0, 99)).toEqual({ peaksPerSecond: BASE_PEAKS_PER_SECOND, peaks: [] });
+    expect(await getWaveformSegment(mediaPath, info.levels.length, 0)).toBeNull();
+    expect(readFile).not.toHaveBeenCalled();
+    readFile.mockRestore();
+  });
+
+  it('re-extracts when the media is newer than the cache', async () => {
+    const first = createMockProcess();
+    (spawn as jest.Mock).mockReturnValueOnce(first);
+    const initial = getWaveformInfo(mediaPath);
+    await new Promise(resolve => setImmediate(resolve));
+    emitPcm(first, 1);
+    await initial;
+
+    const future = new Date(Date.now() + 60_000);
+    fs.utimesSync(mediaPath, future, future);
+
+    const second = createMockProcess();
+    (spawn as jest.Mock).mockReturnValueOnce(second);
+    const refreshed = getWaveformInfo(mediaPath);
+    await new Promise(resolve => setImmediate(resolve));
+    emitPcm(second, 3);
+
+    expect((await refreshed).duration).toBe(3);
+    expect(spawn).toHaveBeenCalledTimes(2);
+  });
+
+  it('rejects when ffmpeg fails', async () => {
+    const proc = createMockProcess();
+    (spawn as jest.Mock).mockReturnValue(proc);
+
+    const pending = getWaveformInfo(mediaPath);
+    await new Promise(resolve => setImmediate(resolve));
+    proc.stderr.emit('data', 'no audio stream');
+    proc.emit('close', 1);
+
+    await expect(pending).rejects.toThrow('no audio stream');
+    expect(fs.existsSync(getPeaksCachePath(mediaPath))).toBe(false);
+  });
+});
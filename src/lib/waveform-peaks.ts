@@ -0,0 +1,276 @@
+/**
+ * Waveform peak extraction (server only)
+ *
+ * The timeline needs the real audio envelope at every zoom level without
+ * shipping decoded audio to the browser. FFmpeg decodes the media to 8 kHz
+ * mono PCM once, which is reduced to min/max pairs at BASE_PEAKS_PER_SECOND
+ * and then halved repeatedly into a pyramid of coarser levels. The pyramid is
+ * cached next to the media file (`<file>.peaks`) and served in fixed-size
+ * segments, so the client only fetches the level and range it is drawing.
+ */
+
+import fs from "fs";
+import { spawn } from "child_process";
+
+export const PEAK_SAMPLE_RATE = 8000;
+export const BASE_PEAKS_PER_SECOND = 200;
+/** Peaks per segment served by /api/waveform. */
+export const WAVEFORM_SEGMENT_SIZE = 4096;
+// Coarsest level kept: about one peak per second
+const MIN_PEAKS_PER_SECOND = 1;
+const CACHE_VERSION = 1;
+const SAMPLES_PER_PEAK = PEAK_SAMPLE_RATE / BASE_PEAKS_PER_SECOND;
+
+export interface WaveformLevel {
+  peaksPerSecond: number;
+  /** Interleaved [min, max] pairs scaled to -127..127 */
+  peaks: Int8Array;
+}
+
+export interface WaveformInfo {
+  duration: number;
+  segmentSize: number;
+  levels: { peaksPerSecond: number; length: number }[];
+}
+
+export interface WaveformSegment {
+  peaksPerSecond: number;
+  peaks: number[];
+}
+
+interface CacheHeader {
+  version: number;
+  duration: number;
+  levels: { peaksPerSecond: number; length: number; offset: number }[];
+}
+
+// Where the level data starts in the cache file, after the prefix and header
+interface CacheIndex {
+  header: CacheHeader;
+  bodyOffset: number;
+}
+
+export function getPeaksCachePath(mediaPath: string): string {
+  return `${mediaPath}.peaks`;
+}
+
+/**
+ * Reduce 16-bit PCM samples to [min, max] pairs, one per `samplesPerPeak`.
+ * A partial bucket is carried between `push` calls so chunks can be streamed.
+ */
+export function createPeakAccumulator(samplesPerPeak = SAMPLES_PER_PEAK) {
+  const values: number[] = [];
+  let min = 0;
+  let max = 0;
+  let count = 0;
+
+  const flush = () => {
+    values.push(Math.round(min / 256), Math.round(max / 256));
+    min = 0;
+    max = 0;
+    count = 0;
+  };
+
+  return {
+    push(samples: Int16Array) {
+      for (let i = 0; i < samples.length; i++) {
+        const sample = samples[i];
+        if (count === 0) {
+          min = sample;
+          max = sample;
+        } else {
+          if (sample < min) min = sample;
+          if (sample > max) max = sample;
+        }
+        if (++count === samplesPerPeak) flush();
+      }
+    },
+    finish(): Int8Array {
+      if (count > 0) flush();
+      return Int8Array.from(values, v => Math.max(-127, Math.min(127, v)));
+    },
+  };
+}
+
+/**
+ * Build the pyramid: each level halves the previous one by merging pairs.
+ */
+export function buildPeakLevels(base: Int8Array, basePeaksPerSecond = BASE_PEAKS_PER_SECOND): WaveformLevel[] {
+  const levels: WaveformLevel[] = [{ peaksPerSecond: basePeaksPerSecond, peaks: base }];
+
+  let current = levels[0];
+  while (current.peaksPerSecond / 2 >= MIN_PEAKS_PER_SECOND && current.peaks.length > 2) {
+    const source = current.peaks;
+    const pairs = source.length / 2;
+    const next = new Int8Array(Math.ceil(pairs / 2) * 2);
+    for (let i = 0; i < pairs; i += 2) {
+      const hasSecond = i + 1 < pairs;
+      next[i] = hasSecond ? Math.min(source[i * 2], source[i * 2 + 2]) : source[i * 2];
+      next[i + 1] = hasSecond ? Math.max(source[i * 2 + 1], source[i * 2 + 3]) : source[i * 2 + 1];
+    }
+    current = { peaksPerSecond: current.peaksPerSecond / 2, peaks: next };
+    levels.push(current);
+  }
+
+  return levels;
+}
+
+/**
+ * Decode the audio track with FFmpeg and reduce it to base-level peaks.
+ */
+export function extractBasePeaks(mediaPath: string): Promise<Int8Array> {
+  return new Promise((resolve, reject) => {
+    const args = [
+      '-v', 'error',
+      '-i', mediaPath,
+      '-vn',
+      '-ac', '1',
+      '-ar', String(PEAK_SAMPLE_RATE),
+      '-f', 's16le',
+      '-acodec', 'pcm_s16le',
+      'pipe:1'
+    ];
+
+    const proc = spawn('ffmpeg', args);
+    const accumulator = createPeakAccumulator();
+    let leftover: Buffer | null = null;
+    let stderr = '';
+
+    proc.stdout.on('data', (chunk: Buffer) => {
+      const data: Buffer = leftover ? Buffer.concat([leftover, chunk]) : chunk;
+      const usable = data.length - (data.length % 2);
+      leftover = usable < data.length ? data.subarray(usable) : null;
+      // Copy so the samples are 2-byte aligned
+      const aligned = new Uint8Array(data.subarray(0, usable));
+      accumulator.push(new Int16Array(aligned.buffer, 0, usable / 2));
+    });
+
+    proc.stderr.on('data', (data) => { stderr += data.toString(); });
+
+    proc.on('close', (code) => {
+      if (code !== 0) {
+        return reject(new Error(`ffmpeg audio decode failed: ${stderr}`));
+      }
+      resolve(accumulator.finish());
+    });
+
+    proc.on('error', reject);
+  });
+}
+
+function writeCache(cachePath: string, levels: WaveformLevel[], duration: number): CacheIndex {
+  let offset = 0;
+  const header: CacheHeader = {
+    version: CACHE_VERSION,
+    duration,
+    levels: levels.map(level => {
+      const entry = { peaksPerSecond: level.peaksPerSecond, length: level.peaks.length / 2, offset };
+      offset += level.peaks.length;
+      return entry;
+    }),
+  };
+
+  const headerBytes = Buffer.from(JSON.stringify(header), 'utf8');
+  const prefix = Buffer.alloc(4);
+  prefix.writeUInt32LE(headerBytes.length, 0);
+  const body = Buffer.concat(levels.map(level => Buffer.from(level.peaks.buffer, level.peaks.byteOffset, level.peaks.byteLength)));
+
+  // Write-then-rename so a concurrent reader never sees a partial file
+  const tempPath = `${cachePath}.${process.pid}.tmp`;
+  fs.writeFileSync(tempPath, Buffer.concat([prefix, headerBytes, body]));
+  fs.renameSync(tempPath, cachePath);
+  return { header, bodyOffset: 4 + headerBytes.length };
+}
+
+/** Read only the header; segments are read from the file by offset. */
+function readCacheIndex(cachePath: string): CacheIndex | null {
+  let fd: number | null = null;
+  try {
+    fd = fs.openSync(cachePath, 'r');
+    const prefix = Buffer.alloc(4);
+    if (fs.readSync(fd, prefix, 0, 4, 0) < 4) return null;
+    const headerBytes = Buffer.alloc(prefix.readUInt32LE(0));
+    if (fs.readSync(fd, headerBytes, 0, headerBytes.length, 4) < headerBytes.length) return null;
+    const header = JSON.parse(headerBytes.toString('utf8')) as CacheHeader;
+    if (header.version !== CACHE_VERSION) return null;
+    return { header, bodyOffset: 4 + headerBytes.length };
+  } catch {
+    return null;
+  } finally {
+    if (fd !== null) fs.closeSync(fd);
+  }
+}
+
+function isCacheFresh(mediaPath: string, cachePath: string): boolean {
+  try {
+    return fs.statSync(cachePath).mtimeMs >= fs.statSync(mediaPath).mtimeMs;
+  } catch {
+    return false;
+  }
+}
+
+// Concurrent requests for the same file share one decode
+const pending = new Map<string, Promise<CacheIndex>>();
+
+async function loadPeaks(mediaPath: string): Promise<CacheIndex> {
+  const cachePath = getPeaksCachePath(mediaPath);
+  if (isCacheFresh(mediaPath, cachePath)) {
+    const cached = readCacheIndex(cachePath);
+    if (cached) return cached;
+  }
+
+  const inFlight = pending.get(mediaPath);
+  if (inFlight) return inFlight;
+
+  const task = (async () => {
+    console.log(`[Waveform] Extracting peaks for ${mediaPath}`);
+    const base = await extractBasePeaks(mediaPath);
+    const duration = base.length / 2 / BASE_PEAKS_PER_SECOND;
+    return writeCache(cachePath, buildPeakLevels(base), duration);
+  })();
+
+  pending.set(mediaPath, task);
+  try {
+    return await task;
+  } finally {
+    pending.delete(mediaPath);
+  }
+}
+
+/**
+ * Available levels for a media file, extracting and caching them if needed.
+ */
+export async function getWaveformInfo(mediaPath: string): Promise<WaveformInfo> {
+  const { header } = await loadPeaks(mediaPath);
+  return {
+    duration: header.duration,
+    segmentSize: WAVEFORM_SEGMENT_SIZE,
+    levels: header.levels.map(({ peaksPerSecond, length }) => ({ peaksPerSecond, length })),
+  };
+}
+
+/**
+ * One segment of one level as interleaved [min, max] values, or null when
+ * the level doesn't exist. Reads just that range from the cache.
+ */
+export async function getWaveformSegment(mediaPath: string, level: number, segment: number): Promise<WaveformSegment | null> {
+  const { header, bodyOffset } = await loadPeaks(mediaPath);
+  const entry = header.levels[level];
+  if (!entry) return null;
+
+  const start = Math.min(segment * WAVEFORM_SEGMENT_SIZE, entry.length);
+  const end = Math.min(start + WAVEFORM_SEGMENT_SIZE, entry.length);
+  const bytes = Buffer.alloc((end - start) * 2);
+  if (bytes.length > 0) {
+    const file = await fs.promises.open(getPeaksCachePath(mediaPath), 'r');
+    try {
+      await file.read(bytes, 0, bytes.length, bodyOffset + entry.offset + start * 2);
+    } finally {
+      await file.close();
+    }
+  }
+  return {
+    peaksPerSecond: entry.peaksPerSecond,
+    peaks: Array.from(new Int8Array(bytes.buffer, bytes.byteOffset, bytes.length)),
+  };
+}
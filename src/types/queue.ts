@@ -1,14 +1,31 @@
-import { SubtitleLine, FFmpegConfig, MultiVideoProjectState } from '@/types/subtitle';
+import { SubtitleLine, FFmpegConfig, MultiVideoProjectState, ExportMode, MuxContainer, GlossaryEntry, SubtitleProvenance } from '@/types/subtitle';
+
+/** A sidecar subtitle file embedded as its own stream in 'mux' exports. */
+export interface MuxSubtitleTrack {
+  path: string;
+  language: string; // ISO 639-2 code, e.g. 'eng'
+  title?: string;
+}
 
 /** Job-specific data attached to a queue item (e.g. for export/burn jobs). */
 export interface QueueItemMetadata {
-  type?: string; // e.g. 'multi-export'
-  videoPath?: string;
+  type?: string; // e.g. 'multi-export', 'transcribe'; single exports leave it unset
+  videoPath?: string; // Export source, or the media a 'transcribe' job reads
   assPath?: string;
   outputPath?: string;
   sampleDuration?: number;
+  inputDuration?: number; // Seconds of media the job processes, when known up front (ETAs)
   ffmpegConfig?: FFmpegConfig;
   projectState?: MultiVideoProjectState;
+  exportMode?: ExportMode; // Recorded so the queue UI can show burn-in vs soft subtitles
+  muxContainer?: MuxContainer;
+  subtitleTracks?: MuxSubtitleTrack[];
+  // 'transcribe' jobs: where the result goes and how the model is prompted
+  draftId?: string;
+  clipId?: string; // V2 drafts: the clip whose subtitles are replaced
+  language?: string; // Spoken language; the model detects it when unset
+  promptHints?: string;
+  glossary?: GlossaryEntry[];
 }
 
 export interface QueueItem {
@@ -26,6 +43,8 @@ export interface QueueItem {
   sampleDuration?: number; // Optional: 2, 5, or 10 seconds for sample jobs
   result?: {
     subtitles?: SubtitleLine[];
+    detectedLanguage?: string;
+    provenance?: SubtitleProvenance;
     videoPath?: string;
     srtPath?: string;
   };
@@ -35,14 +54,28 @@ export interface QueueItem {
   startedAt?: number;
   completedAt?: number;
   retryCount?: number; // Number of times this job has been retried
+  priority?: QueuePriority; // Higher runs first; defaults to QUEUE_PRIORITY.normal
+  position?: number; // Manual order among pending jobs of equal priority; falls back to createdAt
   metadata?: QueueItemMetadata; // Additional job-specific metadata
 }
 
 export type QueueItemStatus = QueueItem['status'];
 
+/** Scheduling priority of a job. */
+export const QUEUE_PRIORITY = { low: -1, normal: 0, high: 1 } as const;
+export type QueuePriority = typeof QUEUE_PRIORITY[keyof typeof QUEUE_PRIORITY];
+
+/**
+ * What a job mostly waits on: 'ai' jobs are network-bound model calls,
+ * 'encode' jobs keep FFmpeg busy on the CPU. Each class has its own
+ * concurrency limit so a long encode doesn't hold up transcriptions.
+ */
+export type QueueResourceClass = 'ai' | 'encode';
+
 export interface QueueConfig {
   stagingDir: string;
-  maxConcurrent: number; // 1 for sequential, >1 for parallel
+  maxConcurrent: number; // Overall cap across resource classes; 1 for sequential
+  concurrency: Record<QueueResourceClass, number>; // Per-class limits within maxConcurrent
   autoStart: boolean;
 }
 
@@ -53,3 +86,41 @@ export interface QueueStats {
   completed: number;
   failed: number;
 }
+
+export type QueueJobKind = 'burn' | 'mux' | 'multi-export' | 'transcribe';
+
+/**
+ * Measurements of a finished job. They outlive the queue item so ETAs for
+ * new jobs can be predicted from how similar jobs went.
+ */
+export interface QueueJobMetrics {
+  jobId: string;
+  kind: QueueJobKind;
+  inputDuration?: number; // Seconds of media processed
+  fileSize?: number; // Bytes; the only size we have for transcriptions of unprobed media
+  codec?: string;
+  preset?: string;
+  resolution?: string; // 'original' or 'WIDTHxHEIGHT'
+  hwaccel?: string;
+  speed?: number; // Average FFmpeg `speed=` (multiple of realtime)
+  fps?: number; // Average encode frame rate
+  elapsedMs: number;
+  completedAt: number;
+}
+
+/** Past throughput of one kind of job (the queue's stats view). */
+export interface QueueThroughputStats {
+  kind: QueueJobKind;
+  jobs: number;
+  totalElapsedMs: number;
+  mediaSeconds: number; // Media processed by jobs whose input duration is known
+  averageSpeed?: number; // Media seconds per wall-clock second
+  averageFps?: number;
+  lastCompletedAt: number;
+}
+
+/** Remaining time per unfinished job and for the whole queue. */
+export interface QueueEstimates {
+  items: Record<string, number>; // ms until each job finishes; jobs without a prediction are left out
+  totalMs: number | null; // ms until the queue drains, null when nothing can be predicted
+}
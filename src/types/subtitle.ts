@@ -12,7 +12,7 @@ export interface SubtitleLine {
   id: string;
   startTime: number; // in seconds
   endTime: number;   // in seconds
-  text: string;
+  text: string; // May carry <b>, <i> and <u> markup (see lib/rich-text.ts)
   secondaryText?: string;
   // Deprecated: use styleOverrides instead
   primaryColor?: string;
@@ -23,6 +23,7 @@ export interface SubtitleLine {
   
   // Per-line specific overrides (sparse)
   styleOverrides?: Partial<TrackStyle>;
+  secondaryStyleOverrides?: Partial<TrackStyle>; // Same, for the secondary track
 }
 
 // FFmpeg ASS Alignment (numpad layout):
@@ -50,6 +51,24 @@ export interface TrackStyle {
   outlineWidth?: number;
 }
 
+/**
+ * A named pair of track styles, stored server-side and shared across
+ * projects. Either track may be partial; what a preset leaves out is
+ * inherited from the layer beneath wherever it's applied.
+ */
+export interface StylePreset {
+  id: string;
+  name: string;
+  primary: Partial<TrackStyle>;
+  secondary: Partial<TrackStyle>;
+  createdAt: number;
+  updatedAt: number;
+}
+
+
+// 'burn' renders subtitles into the picture; 'mux' embeds them as toggleable streams
+export type ExportMode = 'burn' | 'mux';
+export type MuxContainer = 'mp4' | 'mkv';
 
 export interface FFmpegConfig {
   hwaccel: 'nvenc' | 'amf' | 'qsv' | 'videotoolbox' | 'vaapi' | 'v4l2m2m' | 'rkmpp' | 'omx' | 'none';
@@ -57,6 +76,41 @@ export interface FFmpegConfig {
   crf: number;
   resolution: string; // 'original' or 'WIDTHxHEIGHT'
   codec: 'libx264' | 'libx265' | 'libvpx-vp9' | 'prores_ks';
+  exportMode?: ExportMode; // Defaults to 'burn'
+  muxContainer?: MuxContainer; // Only used in 'mux' mode; defaults to 'mp4'
+}
+
+/**
+ * Project glossary entry. `term` is the preferred spelling in the source
+ * language; names, jargon and brand terms all live here.
+ */
+export interface GlossaryEntry {
+  term: string;
+  translation?: string;     // Preferred rendering in the secondary language
+  doNotTranslate?: boolean; // Keep `term` verbatim in translations
+  notes?: string;           // Extra context passed to the model
+}
+
+/**
+ * Readability limits checked by the QC engine (see lib/subtitle-qc.ts).
+ * Character counts include spaces; frame counts use the project fps.
+ */
+export interface QCRules {
+  maxCharsPerLine: number;
+  maxLines: number;
+  maxCps: number;           // Characters per second
+  minDuration: number;      // Seconds
+  maxDuration: number;      // Seconds
+  minGapFrames: number;     // Between consecutive lines
+  shotChangeFrames: number; // Edges this close to a shot change should sit on it; 0 disables
+}
+
+export type QCProfileId = 'netflix' | 'bbc' | 'relaxed';
+
+export interface QCSettings {
+  profile: QCProfileId;
+  overrides?: Partial<QCRules>; // Project tweaks on top of the profile
+  blockExport?: boolean;        // Refuse to queue exports while errors remain
 }
 
 export interface SubtitleConfig {
@@ -72,6 +126,9 @@ export interface SubtitleConfig {
   fileId?: string | null;
   originalFilename?: string | null;
   geminiModel?: string;
+  glossary?: GlossaryEntry[]; // Saved with the draft, injected into AI prompts
+  provenance?: SubtitleProvenance; // Which AI model produced each track
+  qc?: QCSettings; // Quality check profile; checks are off when unset
 }
 
 export const DEFAULT_CONFIG: SubtitleConfig = {
@@ -136,12 +193,14 @@ export interface RawSubtitleItem {
   endTime: string;
   text: string;
   secondaryText?: string;
+  styleOverrides?: Partial<TrackStyle>; // Set when lines come from an imported subtitle file
 }
 
 export interface ProcessResponse {
   subtitles: RawSubtitleItem[];
   videoPath: string;
   detectedLanguage?: string;
+  provenance?: SubtitleProvenance;
   originalFilename?: string;
   fileSize?: number;
   error?: string;
@@ -344,6 +403,28 @@ export function migrateToMultiVideo(v1: ProjectState): MultiVideoProjectState {
   };
 }
 
+/**
+ * Bilingual layout. 'split' renders each track with its own style and
+ * position; 'combined' renders both as one stacked block positioned by the
+ * primary style, so the tracks can never overlap.
+ */
+export type SubtitleLayoutMode = 'split' | 'combined';
+
+/** 'line' stacks the tracks, 'blank' leaves an empty line between, 'slash' joins them on one line */
+export type CombinedSeparator = 'line' | 'blank' | 'slash';
+
+export interface CombinedLayout {
+  order: 'primary-first' | 'secondary-first';
+  separator: CombinedSeparator;
+  /** Secondary font size relative to the primary's (0.8 = 80%) */
+  secondaryScale: number;
+}
+
+/** Layout as resolved for rendering (see lib/bilingual-layout.ts) */
+export interface BilingualLayout extends CombinedLayout {
+  mode: SubtitleLayoutMode;
+}
+
 /** Global application settings (persisted across sessions) */
 export interface GlobalSettings {
   // Default styles (full TrackStyle objects)
@@ -355,7 +436,9 @@ export interface GlobalSettings {
   defaultSecondaryLanguage: string;
   
   // Subtitle style mode
-  subtitleStyle: 'split' | 'combined';
+  subtitleStyle: SubtitleLayoutMode;
+  /** How 'combined' mode stacks the two tracks */
+  combinedLayout: CombinedLayout;
   
   // Default FFmpeg settings
   defaultHwaccel: string;
@@ -373,16 +456,49 @@ export interface GlobalSettings {
   maxFileSizeMB: number;
   /** Maximum aggregate project size in MB. Default: 102400 (100 GB) */
   maxProjectSizeMB: number;
+
+  /** Split over-long lines and rebalance line breaks after AI generation */
+  segmentGeneratedSubtitles: boolean;
 }
 
 export type AIProvider = 'gemini' | 'openai' | 'anthropic' | 'deepseek' | 'ollama' | 'local';
 
+/** The model that produced a subtitle track. */
+export interface TrackProvenance {
+  provider: AIProvider;
+  modelName: string;
+}
+
+export interface SubtitleProvenance {
+  primary?: TrackProvenance;   // Transcription
+  secondary?: TrackProvenance; // Translation (may differ after a fallback)
+}
+
+/**
+ * AI stages reported while a request walks the fallback chain. Streamed to
+ * the client as `{ type: "progress", ...event }` lines by /api/process.
+ */
+export type AIStage = 'model_call' | 'model_fallback' | 'parsing_response' | 'translating';
+
+export interface AIProgressEvent {
+  stage: AIStage;
+  provider?: AIProvider;
+  modelName?: string;
+  attempt?: number;       // 1-based position in the enabled fallback chain
+  totalAttempts?: number;
+  percent?: number;       // translating: share of lines done
+  message?: string;       // model_fallback: why the previous model was skipped
+}
+
 export interface ModelConfig {
   id: string; // Internal unique ID
   provider: AIProvider;
   modelName: string;
   apiKey?: string;
   endpoint?: string; // For local/custom providers
+  // Model sent to /audio/transcriptions (OpenAI-compatible providers).
+  // Defaults to whisper-1 for OpenAI and modelName for local servers.
+  transcriptionModel?: string;
   enabled: boolean;
 }
 
@@ -413,6 +529,11 @@ export const DEFAULT_GLOBAL_SETTINGS: GlobalSettings = {
   defaultPrimaryLanguage: DEFAULT_PRIMARY_LANGUAGE,
   defaultSecondaryLanguage: DEFAULT_GLOBAL_SECONDARY_LANGUAGE,
   subtitleStyle: 'split',
+  combinedLayout: {
+    order: 'primary-first',
+    separator: 'line',
+    secondaryScale: 0.8,
+  },
   defaultHwaccel: 'none',
   defaultPreset: 'veryfast',
   defaultCrf: 23,
@@ -427,4 +548,5 @@ export const DEFAULT_GLOBAL_SETTINGS: GlobalSettings = {
   ],
   maxFileSizeMB: 51200,     // 50 GB
   maxProjectSizeMB: 102400, // 100 GB
+  segmentGeneratedSubtitles: false,
 };
\ No newline at end of file